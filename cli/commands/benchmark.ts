@@ -21,7 +21,11 @@ import { ensureServer, createServerCleanup, isServerRunning, type EnsureServerRe
 import { ApiClient, type BenchmarkExecutionEvent } from '@/cli/utils/apiClient.js';
 import { validateTestCasesArrayJson, type ValidatedTestCaseInput } from '@/lib/testCaseValidation.js';
 import { calculateRunStats, getReportIdsFromRun } from '@/lib/runStats.js';
-import type { AgentConfig, Benchmark, BenchmarkRun, TestCaseRun, EvaluationReport } from '@/types/index.js';
+import { JUDGE_AGGREGATIONS } from '@/lib/judgeEnsemble.js';
+import { MAX_RUN_CONCURRENCY, validateRunConcurrency } from '@/lib/runConcurrency.js';
+import { MAX_RUN_ITERATIONS, validateRunIterations } from '@/lib/runIterations.js';
+import { validateRunBudget } from '@/lib/runBudget.js';
+import type { AgentConfig, Benchmark, BenchmarkRun, TestCaseRun, EvaluationReport, JudgeAggregation, JudgeEnsembleConfig, RunBudget } from '@/types/index.js';
 
 interface BenchmarkOptions {
   agent: string[];
@@ -31,6 +35,16 @@ interface BenchmarkOptions {
   export?: string;
   stopServer?: boolean;
   file?: string;
+  judge: string[];
+  judgeAggregation?: string;
+  concurrency?: string;
+  iterations?: string;
+  maxTokens?: string;
+  maxCost?: string;
+  maxDuration?: string;
+  maxSteps?: string;
+  maxToolCalls?: string;
+  retryFailed?: string;
 }
 
 interface AgentResults {
@@ -121,7 +135,11 @@ async function runBenchmarkForAgent(
   agent: AgentConfig,
   modelId: string,
   benchmark: Benchmark,
-  verbose: boolean
+  verbose: boolean,
+  judgeEnsemble?: JudgeEnsembleConfig,
+  concurrency?: number,
+  iterations?: number,
+  budget?: RunBudget
 ): Promise<AgentResults> {
   const results: AgentResults = {
     agent,
@@ -143,6 +161,10 @@ async function runBenchmarkForAgent(
         name: `CLI Run - ${agent.name}`,
         agentKey: agent.key,
         modelId: modelId,
+        ...(judgeEnsemble && { judgeEnsemble }),
+        ...(concurrency && { concurrency }),
+        ...(iterations && { iterations }),
+        ...(budget && { budget }),
       },
       (event: BenchmarkExecutionEvent) => {
         if (event.type === 'started') {
@@ -249,6 +271,52 @@ async function runBenchmarkForAgent(
   return results;
 }
 
+/**
+ * Re-execute the failed and cancelled test cases of an existing run via server API
+ */
+async function retryFailedTestCases(
+  api: ApiClient,
+  benchmark: Benchmark,
+  run: BenchmarkRun,
+  verbose: boolean
+): Promise<BenchmarkRun | null> {
+  const spinner = ora(`Retrying failed test cases of ${run.name}`).start();
+
+  try {
+    let retryCount = 0;
+    const completedRun = await api.retryFailedTestCases(benchmark.id, run.id, (event: BenchmarkExecutionEvent) => {
+      if (event.type === 'started') {
+        retryCount = event.testCases?.length ?? 0;
+        spinner.text = `${run.name}: retrying ${retryCount} test cases`;
+      } else if (event.type === 'progress') {
+        spinner.text = `${run.name}: retrying ${retryCount} test cases (${event.currentTestCaseIndex + 1}/${event.totalTestCases})`;
+      }
+    });
+
+    const reportsMap = await fetchReportsForRun(api, completedRun);
+    const stats = calculateRunStats(completedRun, reportsMap);
+    const summary = `${stats.passed}/${stats.total} passed (${stats.passRate}% pass rate) after retrying ${retryCount} test cases`;
+    if (stats.failed === 0) {
+      spinner.succeed(`${run.name}: ${chalk.green(summary)}`);
+    } else {
+      spinner.warn(`${run.name}: ${chalk.yellow(summary)}`);
+    }
+
+    if (verbose) {
+      for (const [testCaseId, result] of Object.entries(completedRun.results)) {
+        if (!result.attempts?.length) continue;
+        const status = result.status === 'completed' ? chalk.green('✓') : chalk.red('✗');
+        console.log(chalk.gray(`  ${status} ${testCaseId} (attempt ${result.attempts.length + 1})`));
+      }
+    }
+
+    return completedRun;
+  } catch (error) {
+    spinner.fail(`${run.name}: ${chalk.red('Retry failed')} - ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
+
 /**
  * Display summary table
  */
@@ -333,9 +401,68 @@ export function createBenchmarkCommand(): Command {
     .option('--export <path>', 'Export results to JSON file')
     .option('-v, --verbose', 'Show detailed output')
     .option('--stop-server', 'Stop the server after benchmark completes (default: keep running)')
+    .option(
+      '--judge <model>',
+      'Judge model key for a judge ensemble (repeat to add judges; same key twice samples it twice)',
+      (val, arr: string[]) => [...arr, val],
+      []
+    )
+    .option('--judge-aggregation <mode>', `Judge ensemble aggregation: ${JUDGE_AGGREGATIONS.join(', ')}`)
+    .option('-c, --concurrency <n>', `Test cases to run at once per agent (1-${MAX_RUN_CONCURRENCY}, default 1)`)
+    .option('-i, --iterations <n>', `Times to run each test case, for pass@k statistics (1-${MAX_RUN_ITERATIONS}, default 1)`)
+    .option('--max-tokens <n>', 'Cancel the run once the agent has used this many tokens')
+    .option('--max-cost <usd>', 'Cancel the run once the agent\'s token cost exceeds this many USD')
+    .option('--max-duration <ms>', 'Cancel the run once it has been executing this long')
+    .option('--max-steps <n>', 'Stop a test case once its trajectory has more steps than this')
+    .option('--max-tool-calls <n>', 'Stop a test case once the agent has made more tool calls than this')
+    .option('--retry-failed <runId>', 'Re-run only the failed and cancelled test cases of an existing run')
     .action(async (options: BenchmarkOptions & { name?: string }) => {
       console.log(chalk.bold('\nAgent Health - Benchmark Runner\n'));
 
+      if (options.judgeAggregation && !JUDGE_AGGREGATIONS.includes(options.judgeAggregation as JudgeAggregation)) {
+        console.error(chalk.red(`  Error: --judge-aggregation must be one of: ${JUDGE_AGGREGATIONS.join(', ')}`));
+        process.exit(1);
+      }
+      const judgeEnsemble: JudgeEnsembleConfig | undefined = options.judge.length > 0
+        ? { models: options.judge, aggregation: options.judgeAggregation as JudgeAggregation | undefined }
+        : undefined;
+
+      const concurrency = options.concurrency !== undefined ? Number(options.concurrency) : undefined;
+      const concurrencyError = validateRunConcurrency(concurrency);
+      if (concurrencyError) {
+        console.error(chalk.red(`  Error: --${concurrencyError}`));
+        process.exit(1);
+      }
+
+      const iterations = options.iterations !== undefined ? Number(options.iterations) : undefined;
+      const iterationsError = validateRunIterations(iterations);
+      if (iterationsError) {
+        console.error(chalk.red(`  Error: --${iterationsError}`));
+        process.exit(1);
+      }
+
+      const budgetFlags: Array<[keyof RunBudget, string | undefined]> = [
+        ['maxTotalTokens', options.maxTokens],
+        ['maxCostUsd', options.maxCost],
+        ['maxDurationMs', options.maxDuration],
+        ['maxStepsPerTestCase', options.maxSteps],
+        ['maxToolCallsPerTestCase', options.maxToolCalls],
+      ];
+      const budget: RunBudget | undefined = budgetFlags.some(([, value]) => value !== undefined)
+        ? Object.fromEntries(budgetFlags.filter(([, value]) => value !== undefined).map(([field, value]) => [field, Number(value)]))
+        : undefined;
+      const budgetError = validateRunBudget(budget);
+      if (budgetError) {
+        console.error(chalk.red(`  Error: ${budgetError}`));
+        process.exit(1);
+      }
+
+      const retryMode = !!options.retryFailed;
+      if (retryMode && (options.file || options.agent.length > 0 || options.model || judgeEnsemble || concurrency || iterations || budget)) {
+        console.error(chalk.red('  Error: --retry-failed reuses the run\'s configuration and can\'t be combined with -f, -a, -m, --judge, -c, -i, or --max-*'));
+        process.exit(1);
+      }
+
       // Load config
       const config = await loadConfig();
       const serverConfig = { ...DEFAULT_SERVER_CONFIG, ...config.server };
@@ -349,10 +476,10 @@ export function createBenchmarkCommand(): Command {
       const fileMode = !!filePath;
 
       // Determine mode: quick mode if no server running, no benchmark name, and no file
-      const quickMode = !options.name && !fileMode && !serverWasRunning;
+      const quickMode = !options.name && !fileMode && !retryMode && !serverWasRunning;
 
       // If server is running but no benchmark name and no file, show helpful error
-      if (!options.name && !fileMode && serverWasRunning) {
+      if (!options.name && !fileMode && !retryMode && serverWasRunning) {
         console.error(chalk.red('  Error: Benchmark name required when server is already running.'));
         console.log('');
         console.log(chalk.cyan('  Options:'));
@@ -396,6 +523,36 @@ export function createBenchmarkCommand(): Command {
       const api = new ApiClient(serverResult.baseUrl);
 
       try {
+        if (retryMode) {
+          const runId = options.retryFailed!;
+          const benchmark = options.name
+            ? await api.findBenchmark(options.name)
+            : await api.findBenchmarkByRunId(runId);
+          const run = benchmark?.runs?.find((r) => r.id === runId);
+          if (!benchmark || !run) {
+            console.error(chalk.red(`  Error: Run not found: "${runId}"${options.name ? ` in benchmark "${options.name}"` : ''}`));
+            process.exit(1);
+          }
+
+          console.log(chalk.gray(`  Benchmark: ${benchmark.name} (${benchmark.id})`));
+          console.log(chalk.gray(`  Run: ${run.name} (${run.id})`));
+          console.log('');
+
+          const completedRun = await retryFailedTestCases(api, benchmark, run, options.verbose || false);
+          if (!completedRun) {
+            process.exitCode = 1;
+            return;
+          }
+
+          if (options.output === 'json') {
+            console.log(JSON.stringify({ runId: completedRun.id, status: completedRun.status, results: completedRun.results }, null, 2));
+          }
+          console.log('');
+          console.log(chalk.cyan('View results:'));
+          console.log(chalk.gray(`  ${serverResult.baseUrl}/benchmarks/${benchmark.id}/runs/${completedRun.id}`));
+          return;
+        }
+
         let benchmark: Benchmark | null = null;
 
         if (fileMode) {
@@ -507,6 +664,15 @@ export function createBenchmarkCommand(): Command {
           }
           console.log(chalk.gray(`  Agents: ${agents.map((a) => a.name).join(', ')}`));
         }
+        if (concurrency && concurrency > 1) {
+          console.log(chalk.gray(`  Concurrency: ${concurrency} test cases at once`));
+        }
+        if (iterations && iterations > 1) {
+          console.log(chalk.gray(`  Iterations: ${iterations} per test case`));
+        }
+        if (budget) {
+          console.log(chalk.gray(`  Budget: ${Object.entries(budget).map(([field, value]) => `${field}=${value}`).join(', ')}`));
+        }
 
         console.log('');
 
@@ -520,7 +686,11 @@ export function createBenchmarkCommand(): Command {
             agent,
             modelId,
             benchmark,
-            options.verbose || false
+            options.verbose || false,
+            judgeEnsemble,
+            concurrency,
+            iterations,
+            budget
           );
           allResults.push(results);
         }
@@ -14,8 +14,10 @@ import { existsSync } from 'fs';
 import { resolve } from 'path';
 import { loadConfig, getConfigFileInfo, type ResolvedConfig } from '@/lib/config/index.js';
 import { connectorRegistry } from '@/services/connectors/server.js';
+import { checkOllamaJudge } from '@/cli/utils/ollamaCheck.js';
+import { checkAgentTools } from '@/cli/utils/toolDiscovery.js';
 
-interface CheckResult {
+export interface CheckResult {
   name: string;
   status: 'ok' | 'warning' | 'error';
   message: string;
@@ -294,9 +296,20 @@ export function createDoctorCommand(): Command {
       results.push(await checkClaudeCodeCLI());
       results.push(checkAgents(config));
       results.push(checkConnectors());
+
+      const toolsResult = await checkAgentTools(config.agents, connectorRegistry);
+      if (toolsResult) {
+        results.push(toolsResult);
+      }
+
       results.push(checkOpenSearchStorage());
       results.push(checkOpenSearchObservability());
 
+      const ollamaResult = await checkOllamaJudge(config);
+      if (ollamaResult) {
+        results.push(ollamaResult);
+      }
+
       if (options.output === 'json') {
         console.log(JSON.stringify(results, null, 2));
       } else {
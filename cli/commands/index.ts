@@ -15,3 +15,5 @@ export { createExportCommand } from './export.js';
 export { createDoctorCommand } from './doctor.js';
 export { createInitCommand } from './init.js';
 export { createMigrateCommand } from './migrate.js';
+export { createRejudgeCommand } from './rejudge.js';
+export { createWorkerCommand } from './worker.js';
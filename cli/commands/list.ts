@@ -20,6 +20,7 @@ import { loadConfig, type ResolvedConfig } from '@/lib/config/index.js';
 import { connectorRegistry } from '@/services/connectors/server.js';
 import { ensureServer, createServerCleanup, type EnsureServerResult } from '@/cli/utils/serverLifecycle.js';
 import { ApiClient, type ListResponseWithMeta } from '@/cli/utils/apiClient.js';
+import { discoverAgentTools } from '@/cli/utils/toolDiscovery.js';
 import type { StorageMetadata, TestCase, Benchmark } from '@/types/index.js';
 
 /**
@@ -216,15 +217,19 @@ async function listBenchmarks(format: string, config: ResolvedConfig): Promise<v
  *
  * Note: Connectors are loaded from the local registry since they're
  * in-memory objects that can't be serialized over HTTP.
+ * Connectors that discover tools (MCP) also list the tools of their agents.
  */
-function listConnectors(format: string): void {
+async function listConnectors(format: string, config: ResolvedConfig): Promise<void> {
+  const discoveries = await discoverAgentTools(config.agents, connectorRegistry);
   const types = connectorRegistry.getRegisteredTypes();
   const connectors = types.map(type => {
     const connector = connectorRegistry.get(type);
+    const agents = discoveries.filter(d => d.connectorType === type);
     return {
       type,
       name: connector?.name || 'Unknown',
       streaming: connector?.supportsStreaming || false,
+      ...(agents.length > 0 && { agents }),
     };
   });
 
@@ -253,6 +258,23 @@ function listConnectors(format: string): void {
   console.log(chalk.bold('\nRegistered Connectors:\n'));
   console.log(table.toString());
   console.log(chalk.gray(`\n  Total: ${connectors.length} connectors\n`));
+
+  if (discoveries.length === 0) return;
+
+  console.log(chalk.bold('Discovered Agent Tools:\n'));
+  for (const discovery of discoveries) {
+    console.log(`  ${chalk.cyan(discovery.agentName)} ${chalk.gray(`(${discovery.agentKey}, ${discovery.connectorType})`)}`);
+    if (discovery.error) {
+      console.log(chalk.red(`    ✗ ${discovery.error}`));
+    } else if (discovery.tools!.length === 0) {
+      console.log(chalk.gray('    No tools'));
+    } else {
+      for (const tool of discovery.tools!) {
+        console.log(`    - ${tool.name}${tool.description ? chalk.gray(`: ${tool.description}`) : ''}`);
+      }
+    }
+  }
+  console.log();
 }
 
 /**
@@ -336,7 +358,7 @@ export function createListCommand(): Command {
           await listBenchmarks(format, config);
           break;
         case 'connectors':
-          listConnectors(format);
+          await listConnectors(format, config);
           break;
         case 'models':
           await listModels(format, config);
@@ -36,7 +36,7 @@ function computeStatsFromReports(
       return;
     }
 
-    if (result.status === 'failed' || result.status === 'cancelled') {
+    if (result.status === 'failed' || result.status === 'cancelled' || result.status === 'budget_exceeded') {
       failed++;
       return;
     }
@@ -0,0 +1,141 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Rejudge Command
+ * Re-scores a stored benchmark run with the current judge without re-running the agent
+ *
+ * Architecture: CLI -> Server HTTP API
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import Table from 'cli-table3';
+import { loadConfig } from '@/lib/config/index.js';
+import { ensureServer, createServerCleanup } from '@/cli/utils/serverLifecycle.js';
+import { ApiClient, type RejudgeBenchmarkRunResponse } from '@/cli/utils/apiClient.js';
+import { JUDGE_AGGREGATIONS } from '@/lib/judgeEnsemble.js';
+import type { JudgeAggregation, JudgeEnsembleConfig, PassFailStatus } from '@/types/index.js';
+
+interface RejudgeOptions {
+  benchmark: string;
+  run: string;
+  judge: string[];
+  judgeAggregation?: string;
+  output: string;
+}
+
+function formatStatus(status: PassFailStatus | undefined): string {
+  if (status === 'passed') return chalk.green('passed');
+  if (status === 'failed') return chalk.red('failed');
+  return chalk.gray('-');
+}
+
+/**
+ * Display per-test-case results (one row per iteration for runs with iterations)
+ */
+function displayResultsTable(summary: RejudgeBenchmarkRunResponse): void {
+  const table = new Table({
+    head: [chalk.cyan('Test Case'), chalk.cyan('Before'), chalk.cyan('After'), chalk.cyan('Note')],
+    colWidths: [30, 10, 10, 45],
+    wordWrap: true,
+  });
+
+  for (const result of summary.results) {
+    const changed = result.status === 'rejudged' && result.passFailStatus !== result.previousPassFailStatus;
+    table.push([
+      result.iteration ? `${result.testCaseId} #${result.iteration}` : result.testCaseId,
+      formatStatus(result.previousPassFailStatus),
+      formatStatus(result.passFailStatus),
+      result.status === 'rejudged'
+        ? (changed ? chalk.yellow('verdict changed') : '')
+        : chalk.gray(`${result.status}: ${result.message ?? ''}`),
+    ]);
+  }
+
+  console.log(table.toString());
+}
+
+/**
+ * Create the rejudge command
+ */
+export function createRejudgeCommand(): Command {
+  const command = new Command('rejudge')
+    .description('Re-judge a stored benchmark run without re-running the agent')
+    .requiredOption('-b, --benchmark <id-or-name>', 'Benchmark ID or name')
+    .requiredOption('-r, --run <id-or-name>', 'Benchmark run ID or name')
+    .option(
+      '--judge <model>',
+      'Judge model key (repeat to use a judge ensemble; defaults to the model each run was judged with)',
+      (val, arr: string[]) => [...arr, val],
+      []
+    )
+    .option('--judge-aggregation <mode>', `Judge ensemble aggregation: ${JUDGE_AGGREGATIONS.join(', ')}`)
+    .option('-o, --output <format>', 'Output format: table, json', 'table')
+    .action(async (options: RejudgeOptions) => {
+      if (options.judgeAggregation && !JUDGE_AGGREGATIONS.includes(options.judgeAggregation as JudgeAggregation)) {
+        console.error(chalk.red(`\n  Error: --judge-aggregation must be one of: ${JUDGE_AGGREGATIONS.join(', ')}\n`));
+        process.exit(1);
+      }
+      const judgeEnsemble: JudgeEnsembleConfig | undefined = options.judge.length > 0
+        ? { models: options.judge, aggregation: options.judgeAggregation as JudgeAggregation | undefined }
+        : undefined;
+
+      const config = await loadConfig();
+      const serverResult = await ensureServer(config.server);
+      const cleanup = createServerCleanup(serverResult, config.server.reuseExistingServer === false);
+
+      try {
+        const client = new ApiClient(serverResult.baseUrl);
+
+        // Find benchmark by ID or name
+        const benchmark = await client.findBenchmark(options.benchmark);
+        if (!benchmark) {
+          console.error(chalk.red(`\n  Error: Benchmark not found: ${options.benchmark}\n`));
+          process.exit(1);
+        }
+
+        // Find run by ID or name
+        const run = benchmark.runs?.find(r => r.id === options.run)
+          ?? benchmark.runs?.find(r => r.name === options.run);
+        if (!run) {
+          console.error(chalk.red(`\n  Error: Run not found in ${benchmark.name}: ${options.run}\n`));
+          process.exit(1);
+        }
+
+        const spinner = options.output === 'json'
+          ? null
+          : ora(`Re-judging ${Object.keys(run.results || {}).length} test case(s) in ${run.name}...`).start();
+
+        const summary = await client.rejudgeRun(benchmark.id, run.id, { judgeEnsemble });
+
+        if (options.output === 'json') {
+          process.stdout.write(JSON.stringify(summary, null, 2) + '\n');
+          return;
+        }
+
+        const { stats } = summary;
+        const message = `${run.name}: ${summary.rejudged} re-judged, ${summary.skipped} skipped, ${summary.failed} failed`;
+        if (summary.failed > 0) {
+          spinner?.warn(message);
+        } else {
+          spinner?.succeed(message);
+        }
+
+        console.log('');
+        displayResultsTable(summary);
+        console.log(chalk.gray(`\n  Stats: ${stats.passed} passed, ${stats.failed} failed, ${stats.pending} pending (${stats.total} total)\n`));
+      } catch (error: any) {
+        console.error(chalk.red(`\n  Error: ${error.message}`));
+        console.log(chalk.gray('  Is the server running? Start with: npm run dev:server\n'));
+        process.exit(1);
+      } finally {
+        cleanup();
+      }
+    });
+
+  return command;
+}
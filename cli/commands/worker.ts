@@ -0,0 +1,161 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Worker Command
+ * Execute benchmark test cases leased from an Agent Health server
+ *
+ * Architecture: Server job queue → worker task leases → local connectors
+ * The server keeps running the benchmark; this process only executes and
+ * judges the test cases it leases. Start several to spread the load.
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { hostname } from 'os';
+import { loadConfig } from '@/lib/config/index.js';
+import { ENV_CONFIG } from '@/lib/config.js';
+import { CASSETTES } from '@/server/config/index.js';
+import { runEvaluationWithConnector } from '@/services/evaluation/index.js';
+import { ApiClient } from '@/cli/utils/apiClient.js';
+import { BenchmarkWorker, type BenchmarkWorkerEvent, type WorkerTaskEvaluator } from '@/cli/utils/benchmarkWorker.js';
+
+// Import server connectors to ensure they're registered
+import { connectorRegistry, saveCassette } from '@/services/connectors/server.js';
+import type { Cassette } from '@/services/connectors/types.js';
+
+interface WorkerOptions {
+  server: string;
+  concurrency: string;
+  id?: string;
+  pollInterval: string;
+}
+
+function parsePositiveInt(value: string, flag: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    console.error(chalk.red(`\n  Error: ${flag} must be a positive integer\n`));
+    process.exit(1);
+  }
+  return parsed;
+}
+
+/**
+ * Save the agent exchanges of a task for the replay connector (CASSETTE_RECORD=true)
+ */
+async function recordCassette(cassette: Cassette): Promise<void> {
+  const filePath = await saveCassette(CASSETTES.dir, cassette);
+  console.log(chalk.gray(`    Recorded cassette ${filePath}`));
+}
+
+/**
+ * Execute a task with the local connector registry
+ */
+const evaluateWithLocalConnectors: WorkerTaskEvaluator = (task, agent, signal) =>
+  runEvaluationWithConnector(agent, task.modelId, task.testCase, () => {}, {
+    registry: connectorRegistry,
+    judgeEnsemble: task.judgeEnsemble,
+    execution: task.execution,
+    budget: task.budget,
+    signal,
+    ...(CASSETTES.record && { record: recordCassette }),
+  });
+
+/**
+ * Print worker events, repeating a connection error only when it changes
+ */
+function createEventLogger(): (event: BenchmarkWorkerEvent) => void {
+  let lastError: string | undefined;
+  return (event) => {
+    if (event.type === 'error') {
+      if (event.error !== lastError) {
+        console.error(chalk.red(`  ✗ ${event.error}`));
+      }
+      lastError = event.error;
+      return;
+    }
+    lastError = undefined;
+
+    const { task } = event;
+    const label = `${task.testCase.name || task.testCaseId} ${chalk.gray(`(run ${task.runId}, iteration ${task.iteration}, attempt ${task.attempt})`)}`;
+    switch (event.type) {
+      case 'started':
+        console.log(chalk.cyan(`  → ${label}`));
+        break;
+      case 'completed':
+        console.log(`  ${chalk.green('✓')} ${label} ${chalk.gray(event.report.passFailStatus ?? event.report.status)}`);
+        break;
+      case 'failed':
+        console.log(`  ${chalk.red('✗')} ${label}: ${event.error}`);
+        break;
+      case 'lease-lost':
+        console.log(`  ${chalk.yellow('!')} ${label}: lease lost, result dropped`);
+        break;
+    }
+  };
+}
+
+/**
+ * Create the worker command
+ */
+export function createWorkerCommand(): Command {
+  const command = new Command('worker')
+    .description('Execute benchmark test cases for a server with distributed execution enabled')
+    .requiredOption('-s, --server <url>', 'Agent Health server URL (e.g., http://localhost:4001)')
+    .option('-c, --concurrency <n>', 'Test cases to execute at the same time', '1')
+    .option('--id <name>', 'Worker ID shown on the server (default: <hostname>-<pid>)')
+    .option('--poll-interval <ms>', 'Wait between lease attempts while there is no work', '1000')
+    .action(async (options: WorkerOptions) => {
+      const concurrency = parsePositiveInt(options.concurrency, '--concurrency');
+      const pollIntervalMs = parsePositiveInt(options.pollInterval, '--poll-interval');
+      const serverUrl = options.server.replace(/\/+$/, '');
+      const workerId = options.id || `${hostname()}-${process.pid}`;
+
+      // Load config (agent hooks and custom connectors)
+      const config = await loadConfig();
+      for (const connector of config.connectors) {
+        connectorRegistry.register(connector);
+      }
+
+      const client = new ApiClient(serverUrl);
+      try {
+        await client.checkHealth();
+      } catch (error) {
+        console.error(chalk.red(`\n  Error: Cannot reach server at ${serverUrl}: ${error instanceof Error ? error.message : error}\n`));
+        process.exit(1);
+      }
+
+      // Judge through the server, like test cases the server runs itself
+      ENV_CONFIG.judgeApiUrl = `${serverUrl}/api/judge`;
+
+      const worker = new BenchmarkWorker({
+        client,
+        evaluate: evaluateWithLocalConnectors,
+        workerId,
+        concurrency,
+        pollIntervalMs,
+        agents: config.agents,
+        onEvent: createEventLogger(),
+      });
+
+      let interrupted = false;
+      process.on('SIGINT', () => {
+        if (interrupted) {
+          process.exit(130);
+        }
+        interrupted = true;
+        console.log(chalk.yellow('\n  Stopping after the test cases in flight (Ctrl+C again to quit now)...'));
+        worker.stop();
+      });
+
+      console.log(chalk.cyan.bold(`\n  Worker ${workerId}`));
+      console.log(chalk.gray(`  Server: ${serverUrl}, concurrency: ${concurrency}\n`));
+
+      await worker.run();
+      console.log(chalk.gray('\n  Worker stopped\n'));
+    });
+
+  return command;
+}
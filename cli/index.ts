@@ -26,6 +26,8 @@ import {
   createDoctorCommand,
   createInitCommand,
   createMigrateCommand,
+  createRejudgeCommand,
+  createWorkerCommand,
 } from './commands/index.js';
 
 // Get package.json for version
@@ -139,6 +141,8 @@ program.addCommand(createExportCommand());
 program.addCommand(createDoctorCommand());
 program.addCommand(createInitCommand());
 program.addCommand(createMigrateCommand());
+program.addCommand(createRejudgeCommand());
+program.addCommand(createWorkerCommand());
 
 // Add serve command as an alias for the default action
 program
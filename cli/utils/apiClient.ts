@@ -10,7 +10,23 @@
  * Follows the server-mediated architecture pattern.
  */
 
-import type { Benchmark, BenchmarkRun, BenchmarkProgress, RunConfigInput, TestCaseRun, StorageMetadata, AgentConfig, ModelConfig, TestCase } from '@/types/index.js';
+import type { Benchmark, BenchmarkRun, BenchmarkProgress, RunConfigInput, TestCaseRun, StorageMetadata, AgentConfig, ModelConfig, TestCase, RunStats, JudgeEnsembleConfig, EvaluationReport, WorkerLease } from '@/types/index.js';
+import type { BenchmarkRunRejudgeSummary } from '@/services/rejudge.js';
+
+/**
+ * Judge settings for a re-judge (defaults to each run's own judge model)
+ */
+export interface RejudgeRequest {
+  modelId?: string;
+  judgeEnsemble?: JudgeEnsembleConfig;
+}
+
+/**
+ * Response from re-judging a benchmark run
+ */
+export interface RejudgeBenchmarkRunResponse extends BenchmarkRunRejudgeSummary {
+  stats: RunStats;
+}
 
 /**
  * Health check response from server
@@ -160,6 +176,14 @@ export class ApiClient {
     return benchmarks.find((b) => b.name === identifier) || null;
   }
 
+  /**
+   * Find the benchmark that contains a run
+   */
+  async findBenchmarkByRunId(runId: string): Promise<Benchmark | null> {
+    const benchmarks = await this.listBenchmarks();
+    return benchmarks.find((b) => (b.runs || []).some((r) => r.id === runId)) || null;
+  }
+
   /**
    * Execute benchmark run (SSE stream)
    *
@@ -192,7 +216,48 @@ export class ApiClient {
       throw new Error(`Failed to execute benchmark: ${errorMessage}`);
     }
 
-    // Parse SSE stream
+    return this.readBenchmarkStream(res, benchmarkId, onProgress);
+  }
+
+  /**
+   * Re-execute the failed and cancelled test cases of a finished run (SSE stream)
+   *
+   * New reports are written into the same run. Streams progress events and
+   * returns the completed run, falling back to polling if the stream disconnects.
+   */
+  async retryFailedTestCases(
+    benchmarkId: string,
+    runId: string,
+    onProgress?: ProgressCallback
+  ): Promise<BenchmarkRun> {
+    const res = await fetch(
+      `${this.baseUrl}/api/storage/benchmarks/${encodeURIComponent(benchmarkId)}/runs/${encodeURIComponent(runId)}/retry-failed`,
+      { method: 'POST' }
+    );
+
+    if (!res.ok) {
+      const errorBody = await res.text();
+      let errorMessage: string;
+      try {
+        const parsed = JSON.parse(errorBody);
+        errorMessage = parsed.error || errorBody;
+      } catch {
+        errorMessage = errorBody;
+      }
+      throw new Error(`Failed to retry run: ${errorMessage}`);
+    }
+
+    return this.readBenchmarkStream(res, benchmarkId, onProgress);
+  }
+
+  /**
+   * Read a benchmark run's SSE stream and return the final run
+   */
+  private async readBenchmarkStream(
+    res: Response,
+    benchmarkId: string,
+    onProgress?: ProgressCallback
+  ): Promise<BenchmarkRun> {
     if (!res.body) {
       throw new Error('Response body is missing');
     }
@@ -246,7 +311,7 @@ export class ApiClient {
         const polledRun = await this.pollRunStatus(benchmarkId, runId, (run) => {
           // Create a progress event from the polled run state
           const completedCount = Object.values(run.results || {}).filter(
-            r => r.status === 'completed' || r.status === 'failed'
+            r => r.status === 'completed' || r.status === 'failed' || r.status === 'budget_exceeded'
           ).length;
           const totalCount = Object.keys(run.results || {}).length;
 
@@ -627,6 +692,49 @@ export class ApiClient {
     return res.json();
   }
 
+  /**
+   * Re-judge a single test case run without re-running the agent
+   */
+  async rejudgeReport(reportId: string, request: RejudgeRequest = {}): Promise<TestCaseRun> {
+    const res = await fetch(`${this.baseUrl}/api/storage/runs/${encodeURIComponent(reportId)}/rejudge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+
+    if (!res.ok) {
+      const errorBody = await res.text();
+      throw new Error(`Failed to re-judge report: ${errorBody}`);
+    }
+
+    return res.json();
+  }
+
+  /**
+   * Re-judge every test case run of a benchmark run and recompute its stats
+   */
+  async rejudgeRun(
+    benchmarkId: string,
+    runId: string,
+    request: RejudgeRequest = {}
+  ): Promise<RejudgeBenchmarkRunResponse> {
+    const res = await fetch(
+      `${this.baseUrl}/api/storage/benchmarks/${encodeURIComponent(benchmarkId)}/runs/${encodeURIComponent(runId)}/rejudge`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      }
+    );
+
+    if (!res.ok) {
+      const errorBody = await res.text();
+      throw new Error(`Failed to re-judge run: ${errorBody}`);
+    }
+
+    return res.json();
+  }
+
   /**
    * Create a new benchmark
    */
@@ -648,4 +756,69 @@ export class ApiClient {
 
     return res.json();
   }
+
+  /**
+   * Lease the next test case task as a distributed worker
+   * @returns null when no task is waiting
+   */
+  async leaseWorkerTask(workerId: string): Promise<WorkerLease | null> {
+    const res = await fetch(`${this.baseUrl}/api/workers/${encodeURIComponent(workerId)}/lease`, {
+      method: 'POST',
+    });
+
+    if (res.status === 204) {
+      return null;
+    }
+    if (!res.ok) {
+      const errorBody = await res.text();
+      throw new Error(`Failed to lease task: ${errorBody}`);
+    }
+
+    return res.json();
+  }
+
+  /**
+   * Extend a worker's lease on a task
+   * @returns false if the worker lost the lease
+   */
+  async heartbeatWorkerTask(workerId: string, taskId: string): Promise<boolean> {
+    return this.postWorkerTask(workerId, taskId, 'heartbeat', {});
+  }
+
+  /**
+   * Post the report of a worker's task
+   * @returns false if the worker lost the lease (the report was discarded)
+   */
+  async completeWorkerTask(workerId: string, taskId: string, report: EvaluationReport): Promise<boolean> {
+    return this.postWorkerTask(workerId, taskId, 'complete', { report });
+  }
+
+  /**
+   * Report a task the worker couldn't execute
+   * @returns false if the worker lost the lease
+   */
+  async failWorkerTask(workerId: string, taskId: string, error: string): Promise<boolean> {
+    return this.postWorkerTask(workerId, taskId, 'fail', { error });
+  }
+
+  private async postWorkerTask(workerId: string, taskId: string, action: string, body: object): Promise<boolean> {
+    const res = await fetch(
+      `${this.baseUrl}/api/workers/${encodeURIComponent(workerId)}/tasks/${encodeURIComponent(taskId)}/${action}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      }
+    );
+
+    if (res.status === 409) {
+      return false;
+    }
+    if (!res.ok) {
+      const errorBody = await res.text();
+      throw new Error(`Failed to ${action} task: ${errorBody}`);
+    }
+
+    return true;
+  }
 }
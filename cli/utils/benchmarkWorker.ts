@@ -0,0 +1,170 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Benchmark Worker
+ *
+ * Executes test case tasks leased from an Agent Health server with local
+ * connectors, so CPU and process heavy connectors (claude-code,
+ * subprocess) can be spread over several processes or machines.
+ *
+ * Each slot leases a task, executes and judges it, and posts the report back,
+ * sending heartbeats meanwhile. When a heartbeat finds the lease gone (the
+ * server gave the task to another worker) the agent is aborted and the result
+ * dropped.
+ */
+
+import type { ApiClient } from '@/cli/utils/apiClient.js';
+import type { AgentConfig, EvaluationReport, WorkerLease, WorkerTask } from '@/types/index.js';
+
+/**
+ * Events reported while the worker runs
+ */
+export type BenchmarkWorkerEvent =
+  | { type: 'started'; task: WorkerTask }
+  | { type: 'completed'; task: WorkerTask; report: EvaluationReport }
+  | { type: 'failed'; task: WorkerTask; error: string }
+  | { type: 'lease-lost'; task: WorkerTask }
+  | { type: 'error'; error: string };
+
+/**
+ * Executes and judges a task's test case with the given agent, aborting the
+ * agent when the signal aborts
+ */
+export type WorkerTaskEvaluator = (task: WorkerTask, agent: AgentConfig, signal: AbortSignal) => Promise<EvaluationReport>;
+
+export interface BenchmarkWorkerOptions {
+  client: ApiClient;
+  evaluate: WorkerTaskEvaluator;
+  workerId: string;
+  /** Tasks executed at the same time */
+  concurrency: number;
+  /** Wait between lease attempts while the server has no task */
+  pollIntervalMs: number;
+  /** Locally configured agents; the server doesn't send auth, headers, or hooks, so they come from here */
+  agents?: AgentConfig[];
+  onEvent?: (event: BenchmarkWorkerEvent) => void;
+}
+
+export class BenchmarkWorker {
+  private stopping = false;
+  private wakeSleepers: Array<() => void> = [];
+
+  constructor(private options: BenchmarkWorkerOptions) {}
+
+  /**
+   * Lease and execute tasks until stop() is called
+   * Resolves once the tasks in flight have finished.
+   */
+  async run(): Promise<void> {
+    const slots = Array.from({ length: this.options.concurrency }, () => this.runSlot());
+    await Promise.all(slots);
+  }
+
+  /**
+   * Stop leasing tasks; tasks in flight still finish
+   */
+  stop(): void {
+    this.stopping = true;
+    this.wakeSleepers.splice(0).forEach(wake => wake());
+  }
+
+  private async runSlot(): Promise<void> {
+    const { client, workerId, pollIntervalMs } = this.options;
+    while (!this.stopping) {
+      let lease: WorkerLease | null;
+      try {
+        lease = await client.leaseWorkerTask(workerId);
+      } catch (error) {
+        this.emit({ type: 'error', error: error instanceof Error ? error.message : String(error) });
+        lease = null;
+      }
+
+      if (lease) {
+        await this.executeTask(lease);
+      } else {
+        await this.sleep(pollIntervalMs);
+      }
+    }
+  }
+
+  private async executeTask({ task, leaseMs }: WorkerLease): Promise<void> {
+    const { client, workerId, evaluate } = this.options;
+    const abortController = new AbortController();
+    let leaseLost = false;
+
+    // Heartbeat a few times per lease so one slow or failed request doesn't lose it
+    const heartbeat = setInterval(async () => {
+      try {
+        if (!leaseLost && !(await client.heartbeatWorkerTask(workerId, task.id))) {
+          leaseLost = true;
+          abortController.abort(new Error('Lease lost'));
+        }
+      } catch {
+        // Server briefly unreachable; the next heartbeat tries again
+      }
+    }, Math.max(1, Math.floor(leaseMs / 3)));
+
+    this.emit({ type: 'started', task });
+    try {
+      const report = await evaluate(task, this.resolveAgent(task), abortController.signal);
+
+      if (!leaseLost && await client.completeWorkerTask(workerId, task.id, report)) {
+        this.emit({ type: 'completed', task, report });
+      } else {
+        this.emit({ type: 'lease-lost', task });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.emit({ type: 'failed', task, error: message });
+      if (!leaseLost) {
+        // If this doesn't reach the server either, the lease runs out and the task is reassigned
+        await client.failWorkerTask(workerId, task.id, message).catch(() => false);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * The task's agent, with the auth, headers, and hooks of the local agent of
+   * the same key, and the run's header overrides on top
+   * @throws Error if the run needs agent config this worker doesn't have
+   */
+  private resolveAgent(task: WorkerTask): AgentConfig {
+    const { agent, runHeaders, localAgentFields = [] } = task;
+    const local = this.options.agents?.find(a => a.key === agent.key);
+    if (!local && localAgentFields.length > 0) {
+      throw new Error(
+        `Agent "${agent.key}" needs ${localAgentFields.join(', ')} from the worker's config, which has no agent with that key`
+      );
+    }
+    const headers = { ...local?.headers, ...runHeaders };
+    return {
+      ...agent,
+      ...(Object.keys(headers).length > 0 && { headers }),
+      ...(local?.auth && { auth: local.auth }),
+      ...(local?.hooks && { hooks: local.hooks }),
+    };
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.wakeSleepers = this.wakeSleepers.filter(w => w !== wake);
+        resolve();
+      }, ms);
+      this.wakeSleepers.push(wake);
+    });
+  }
+
+  private emit(event: BenchmarkWorkerEvent): void {
+    this.options.onEvent?.(event);
+  }
+}
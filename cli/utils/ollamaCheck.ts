@@ -0,0 +1,98 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Ollama Judge Check
+ * Verifies that configured Ollama judge hosts are reachable and models are pulled
+ */
+
+import type { ResolvedConfig } from '@/lib/config/types.js';
+import type { CheckResult } from '@/cli/commands/doctor.js';
+
+/**
+ * Default Ollama host (matches server/config OLLAMA_HOST default)
+ */
+const DEFAULT_OLLAMA_HOST = 'http://localhost:11434';
+
+/**
+ * Check whether an Ollama model name is present in the host's model list
+ * Models pulled without a tag are stored as '<name>:latest'
+ */
+export function isOllamaModelAvailable(model: string, available: string[]): boolean {
+  return available.includes(model) || (!model.includes(':') && available.includes(`${model}:latest`));
+}
+
+/**
+ * Check Ollama judge host and model reachability
+ * Returns null when no Ollama judge models are configured
+ */
+export async function checkOllamaJudge(config: ResolvedConfig): Promise<CheckResult | null> {
+  const defaultHost = process.env.OLLAMA_HOST || DEFAULT_OLLAMA_HOST;
+  const modelsByHost = new Map<string, Set<string>>();
+
+  const addModel = (host: string | undefined, modelId: string) => {
+    const key = (host || defaultHost).replace(/\/+$/, '');
+    if (!modelsByHost.has(key)) modelsByHost.set(key, new Set());
+    modelsByHost.get(key)!.add(modelId);
+  };
+
+  for (const model of Object.values(config.models)) {
+    if (model.provider === 'ollama') {
+      addModel(model.base_url, model.model_id);
+    }
+  }
+
+  // Judge config may name an Ollama model that is not in the models list
+  if (config.judge.provider === 'ollama' && config.judge.model) {
+    const judgeModel = config.models[config.judge.model];
+    if (!judgeModel) {
+      addModel(undefined, config.judge.model);
+    }
+  }
+
+  if (modelsByHost.size === 0) {
+    return null;
+  }
+
+  const details: string[] = [];
+  let status: CheckResult['status'] = 'ok';
+
+  for (const [host, models] of modelsByHost) {
+    try {
+      const response = await fetch(`${host}/api/tags`, { signal: AbortSignal.timeout(5000) });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const data = await response.json() as { models?: Array<{ name: string }> };
+      const available = (data.models || []).map(m => m.name);
+
+      details.push(`✓ ${host} reachable`);
+      for (const model of models) {
+        if (isOllamaModelAvailable(model, available)) {
+          details.push(`✓ ${model}`);
+        } else {
+          status = 'error';
+          details.push(`✗ ${model} not pulled (run: ollama pull ${model})`);
+        }
+      }
+    } catch (error) {
+      status = 'error';
+      const message = error instanceof Error ? error.message : String(error);
+      details.push(`✗ ${host} unreachable (${message})`);
+      details.push('  Start Ollama with `ollama serve` or set OLLAMA_HOST');
+    }
+  }
+
+  const modelCount = Array.from(modelsByHost.values()).reduce((sum, models) => sum + models.size, 0);
+
+  return {
+    name: 'Ollama Judge',
+    status,
+    message: status === 'ok'
+      ? `${modelCount} model(s) available`
+      : 'Host or model not reachable',
+    details,
+  };
+}
@@ -0,0 +1,91 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Agent Tool Discovery
+ * Lists the tools of agents whose connector can discover them (MCP servers)
+ */
+
+import type { AgentConfig, AgentToolDefinition } from '@/types/index.js';
+import type { ConnectorRegistry } from '@/services/connectors/types.js';
+import type { CheckResult } from '@/cli/commands/doctor.js';
+
+/**
+ * Time allowed to launch or reach an agent and list its tools
+ */
+const DISCOVERY_TIMEOUT_MS = 15000;
+
+export interface AgentToolDiscovery {
+  agentKey: string;
+  agentName: string;
+  connectorType: string;
+  tools?: AgentToolDefinition[];
+  error?: string;
+}
+
+/**
+ * Discover the tools of every agent whose connector supports discovery
+ * Agents are queried one at a time, since stdio servers are launched as processes
+ */
+export async function discoverAgentTools(
+  agents: AgentConfig[],
+  registry: ConnectorRegistry
+): Promise<AgentToolDiscovery[]> {
+  const results: AgentToolDiscovery[] = [];
+
+  for (const agent of agents) {
+    const connector = registry.getForAgent(agent);
+    if (!connector.discoverTools) continue;
+
+    const result: AgentToolDiscovery = {
+      agentKey: agent.key,
+      agentName: agent.name,
+      connectorType: connector.type,
+    };
+    try {
+      result.tools = await connector.discoverTools(
+        agent.endpoint,
+        { type: 'none', headers: agent.headers },
+        AbortSignal.timeout(DISCOVERY_TIMEOUT_MS)
+      );
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+    results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Check that the tools of discovering agents can be listed
+ * Returns null when no agent's connector discovers tools
+ */
+export async function checkAgentTools(agents: AgentConfig[], registry: ConnectorRegistry): Promise<CheckResult | null> {
+  const discoveries = await discoverAgentTools(agents, registry);
+  if (discoveries.length === 0) {
+    return null;
+  }
+
+  const details: string[] = [];
+  for (const discovery of discoveries) {
+    if (discovery.tools) {
+      const names = discovery.tools.map(t => t.name).join(', ') || 'no tools';
+      details.push(`✓ ${discovery.agentName} (${discovery.connectorType}): ${names}`);
+    } else {
+      details.push(`✗ ${discovery.agentName} (${discovery.connectorType}): ${discovery.error}`);
+    }
+  }
+
+  const failed = discoveries.filter(d => d.error).length;
+  return {
+    name: 'Agent Tools',
+    status: failed > 0 ? 'warning' : 'ok',
+    message: failed > 0
+      ? `${failed} of ${discoveries.length} agent(s) unreachable`
+      : `Tools discovered for ${discoveries.length} agent(s)`,
+    details,
+  };
+}
@@ -10,12 +10,35 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Benchmark, BenchmarkRun, EvaluationReport, TestCase } from '@/types';
+import { Benchmark, BenchmarkRun, EvaluationReport, TestCase, TestCaseIterationStats } from '@/types';
 import { asyncRunStorage, asyncTestCaseStorage } from '@/services/storage';
 import { UseCaseCompareView } from './UseCaseCompareView';
 import { BenchmarkSummaryCharts } from './benchmarks/BenchmarkSummaryCharts';
 import { formatDate } from '@/lib/utils';
-import { calculateRunStats } from '@/lib/runStats';
+import { calculateRunStats, getReportIdsFromRun } from '@/lib/runStats';
+import { computeRunIterationStats, summarizeRunIterations } from '@/lib/runIterations';
+
+// Rows shown for runs with iterations > 1 (single-iteration runs show '-')
+const ITERATION_SUMMARY_ROWS: Array<{
+  label: string;
+  format: (run: BenchmarkRun, summary: ReturnType<typeof summarizeRunIterations>) => string;
+}> = [
+  { label: 'Iterations', format: run => `${run.iterations ?? 1}` },
+  { label: 'Pass@k', format: (_run, s) => (s.passAtK !== undefined ? `${s.passAtK}%` : '-') },
+  { label: 'Pass^k (all pass)', format: (_run, s) => (s.passHatK !== undefined ? `${s.passHatK}%` : '-') },
+  { label: 'Accuracy Std Dev', format: (_run, s) => (s.avgAccuracyStddev !== undefined ? `±${s.avgAccuracyStddev}` : '-') },
+  { label: 'Flaky Test Cases', format: (_run, s) => (s.flakyTestCases !== undefined ? `${s.flakyTestCases}` : '-') },
+];
+
+const ITERATION_TEST_CASE_ROWS: Array<{ label: string; format: (stats: TestCaseIterationStats) => string }> = [
+  { label: 'Iterations Passed', format: s => `${s.passed}/${s.iterations}` },
+  { label: 'Pass@k / Pass^k', format: s => `${s.passAtK}% / ${s.passHatK}%` },
+  {
+    label: 'Accuracy (mean ± sd)',
+    format: s => (s.meanAccuracy !== undefined ? `${s.meanAccuracy}% ± ${s.stddevAccuracy}` : '-'),
+  },
+  { label: 'Flakiness', format: s => `${s.flakiness}%` },
+];
 
 interface BenchmarkResultsViewProps {
   benchmark: Benchmark;
@@ -44,11 +67,7 @@ export const BenchmarkResultsView: React.FC<BenchmarkResultsViewProps> = ({
       try {
         const reportIds = new Set<string>();
         benchmark.runs?.forEach(run => {
-          Object.values(run.results || {}).forEach(result => {
-            if (result.reportId) {
-              reportIds.add(result.reportId);
-            }
-          });
+          getReportIdsFromRun(run).forEach(reportId => reportIds.add(reportId));
         });
 
         const loadedReports: Record<string, EvaluationReport | null> = {};
@@ -118,6 +137,18 @@ export const BenchmarkResultsView: React.FC<BenchmarkResultsViewProps> = ({
     });
   }, [benchmark.runs]);
 
+  // Pass@k statistics per run and test case, for runs with iterations > 1
+  const iterationStats = React.useMemo(() => {
+    const statsByRun: Record<string, Record<string, TestCaseIterationStats>> = {};
+    sortedRuns.forEach(run => {
+      if ((run.iterations ?? 1) > 1) {
+        statsByRun[run.id] = computeRunIterationStats(run, reports);
+      }
+    });
+    return statsByRun;
+  }, [sortedRuns, reports]);
+  const hasIterations = Object.keys(iterationStats).length > 0;
+
   // Determine version boundaries for visual separators
   const getVersionBoundary = (index: number): boolean => {
     if (index === 0) return false;
@@ -195,8 +226,8 @@ export const BenchmarkResultsView: React.FC<BenchmarkResultsViewProps> = ({
             />
           )}
 
-          {/* Summary Section (only for multiple runs) */}
-          {hasMultipleRuns && (
+          {/* Summary Section (only for multiple runs or repeated iterations) */}
+          {(hasMultipleRuns || hasIterations) && (
             <Card>
               <CardHeader className="pb-2">
                 <CardTitle className="text-base">Summary by Run</CardTitle>
@@ -290,6 +321,22 @@ export const BenchmarkResultsView: React.FC<BenchmarkResultsViewProps> = ({
                           </td>
                         )}
                       </tr>
+                      {hasIterations && ITERATION_SUMMARY_ROWS.map(({ label, format }) => (
+                        <tr key={label} className="border-b">
+                          <td className="py-2 pr-4 text-muted-foreground">{label}</td>
+                          {sortedRuns.map((run, index) => (
+                            <td
+                              key={run.id}
+                              className={`text-center py-2 px-4 font-medium ${
+                                getVersionBoundary(index) ? 'border-l-2 border-l-muted-foreground/30' : ''
+                              }`}
+                            >
+                              {format(run, summarizeRunIterations(run, reports))}
+                            </td>
+                          ))}
+                          {sortedRuns.length === 2 && <td className="py-2 px-4" />}
+                        </tr>
+                      ))}
                     </tbody>
                   </table>
                 </div>
@@ -409,7 +456,7 @@ export const BenchmarkResultsView: React.FC<BenchmarkResultsViewProps> = ({
                               );
                             })}
                           </tr>
-                          <tr>
+                          <tr className={hasIterations ? 'border-b' : undefined}>
                             <td className="py-2 pr-4 text-muted-foreground">Steps</td>
                             {sortedRuns.map((run, index) => {
                               const result = run.results?.[useCaseId];
@@ -426,6 +473,27 @@ export const BenchmarkResultsView: React.FC<BenchmarkResultsViewProps> = ({
                               );
                             })}
                           </tr>
+                          {hasIterations && ITERATION_TEST_CASE_ROWS.map(({ label, format }, rowIndex) => (
+                            <tr
+                              key={label}
+                              className={rowIndex < ITERATION_TEST_CASE_ROWS.length - 1 ? 'border-b' : undefined}
+                            >
+                              <td className="py-2 pr-4 text-muted-foreground">{label}</td>
+                              {sortedRuns.map((run, index) => {
+                                const stats = iterationStats[run.id]?.[useCaseId];
+                                return (
+                                  <td
+                                    key={run.id}
+                                    className={`text-center py-2 px-4 font-medium ${
+                                      getVersionBoundary(index) ? 'border-l-2 border-l-muted-foreground/30' : ''
+                                    } ${label === 'Flakiness' && stats && stats.flakiness > 0 ? 'text-amber-400' : ''}`}
+                                  >
+                                    {stats ? format(stats) : '-'}
+                                  </td>
+                                );
+                              })}
+                            </tr>
+                          ))}
                         </tbody>
                       </table>
                     </div>
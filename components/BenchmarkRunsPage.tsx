@@ -5,7 +5,7 @@
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, GitCompare, Calendar, CheckCircle2, XCircle, Play, Trash2, Plus, X, Loader2, Circle, Check, ChevronRight, Clock, StopCircle, Ban } from 'lucide-react';
+import { ArrowLeft, GitCompare, Calendar, CheckCircle2, XCircle, Play, Trash2, Plus, X, Loader2, Circle, Check, ChevronRight, Clock, StopCircle, Ban, Pause, RotateCcw, Grid3x3, Gauge } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -17,10 +17,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Checkbox } from '@/components/ui/checkbox';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
 import { asyncBenchmarkStorage, asyncTestCaseStorage } from '@/services/storage';
-import { executeBenchmarkRun } from '@/services/client';
+import { executeBenchmarkRun, pauseBenchmarkJob, resumeBenchmarkJob, retryFailedBenchmarkRun } from '@/services/client';
+import { getRetryableTestCaseIds } from '@/lib/runRetry';
 import { useBenchmarkCancellation } from '@/hooks/useBenchmarkCancellation';
-import { Benchmark, BenchmarkRun, TestCase, BenchmarkProgress, BenchmarkStartedEvent, RunStats } from '@/types';
+import { Benchmark, BenchmarkRun, TestCase, BenchmarkProgress, BenchmarkStartedEvent, RunStats, RunBudget } from '@/types';
 import { DEFAULT_CONFIG } from '@/lib/constants';
+import { MAX_RUN_CONCURRENCY } from '@/lib/runConcurrency';
+import { MAX_RUN_ITERATIONS } from '@/lib/runIterations';
 import { getLabelColor, formatDate, getModelName } from '@/lib/utils';
 import {
   computeVersionData,
@@ -30,6 +33,8 @@ import {
   VersionData,
 } from '@/lib/benchmarkVersionUtils';
 import { RunConfigForExecution } from './BenchmarkEditor';
+import { MatrixRunDialog } from './benchmarks/MatrixRunDialog';
+import { SchedulesPanel } from './benchmarks/SchedulesPanel';
 
 // Track individual use case status during run
 interface UseCaseRunStatus {
@@ -40,9 +45,18 @@ interface UseCaseRunStatus {
 
 const POLL_INTERVAL_MS = 2000;
 
+// Budget inputs of the run dialog; blank means no limit
+const BUDGET_INPUTS: Array<{ field: keyof RunBudget; label: string; step: number; scale: number }> = [
+  { field: 'maxTotalTokens', label: 'Max tokens', step: 1000, scale: 1 },
+  { field: 'maxCostUsd', label: 'Max cost (USD)', step: 0.5, scale: 1 },
+  { field: 'maxDurationMs', label: 'Max minutes', step: 1, scale: 60000 },
+  { field: 'maxStepsPerTestCase', label: 'Max steps / test case', step: 1, scale: 1 },
+  { field: 'maxToolCallsPerTestCase', label: 'Max tool calls / test case', step: 1, scale: 1 },
+];
+
 /**
  * Get effective run status - normalizes legacy data (status: undefined) to proper enum values.
- * Returns: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
+ * Returns: 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled'
  */
 const getEffectiveRunStatus = (run: BenchmarkRun): BenchmarkRun['status'] => {
   // If status is explicitly set, use it (modern data - backend always sets this now)
@@ -94,6 +108,7 @@ export const BenchmarkRunsPage: React.FC = () => {
 
   // Run configuration dialog state
   const [isRunConfigOpen, setIsRunConfigOpen] = useState(false);
+  const [isMatrixOpen, setIsMatrixOpen] = useState(false);
   const [runConfigValues, setRunConfigValues] = useState<RunConfigForExecution>({
     name: '',
     description: '',
@@ -125,6 +140,12 @@ export const BenchmarkRunsPage: React.FC = () => {
   // Cancellation hook
   const { isCancelling, handleCancelRun } = useBenchmarkCancellation();
 
+  // Run whose job is being paused or resumed
+  const [jobActionRunId, setJobActionRunId] = useState<string | null>(null);
+
+  // Run whose failed test cases are being retried
+  const [retryingRunId, setRetryingRunId] = useState<string | null>(null);
+
   const loadBenchmark = useCallback(async () => {
     if (!benchmarkId) return;
 
@@ -242,6 +263,33 @@ export const BenchmarkRunsPage: React.FC = () => {
   // Check if benchmark has multiple versions
   const hasMultipleVersions = versionData.length > 1;
 
+  const handleJobAction = async (run: BenchmarkRun, action: 'pause' | 'resume') => {
+    if (!run.jobId) return;
+    setJobActionRunId(run.id);
+    try {
+      await (action === 'pause' ? pauseBenchmarkJob(run.jobId) : resumeBenchmarkJob(run.jobId));
+      await loadBenchmark();
+    } catch (error) {
+      console.error(`Failed to ${action} run:`, error);
+    } finally {
+      setJobActionRunId(null);
+    }
+  };
+
+  // Re-execute a finished run's failed and cancelled test cases (progress shows through polling)
+  const handleRetryFailed = async (run: BenchmarkRun) => {
+    if (!benchmark) return;
+    setRetryingRunId(run.id);
+    try {
+      await retryFailedBenchmarkRun(benchmark.id, run.id, () => {}, () => loadBenchmark());
+      loadBenchmark();
+    } catch (error) {
+      console.error('Failed to retry run:', error);
+    } finally {
+      setRetryingRunId(null);
+    }
+  };
+
   const handleDeleteRun = async (run: BenchmarkRun) => {
     if (!benchmarkId) return;
     if (!window.confirm(`Delete run "${run.name}"? This cannot be undone.`)) return;
@@ -302,7 +350,7 @@ export const BenchmarkRunsPage: React.FC = () => {
         // Without the full report, we can't know if it passed or failed
         // Count as pending until migration runs
         pending++;
-      } else if (result.status === 'failed' || result.status === 'cancelled') {
+      } else if (result.status === 'failed' || result.status === 'cancelled' || result.status === 'budget_exceeded') {
         failed++;
       } else {
         pending++;
@@ -387,6 +435,9 @@ export const BenchmarkRunsPage: React.FC = () => {
       agentKey: latestRun?.agentKey || DEFAULT_CONFIG.agents[0]?.key || '',
       modelId: latestRun?.modelId || Object.keys(DEFAULT_CONFIG.models)[0] || '',
       headers: latestRun?.headers,
+      concurrency: latestRun?.concurrency,
+      iterations: latestRun?.iterations,
+      budget: latestRun?.budget,
     });
     setIsRunConfigOpen(true);
   };
@@ -551,6 +602,14 @@ export const BenchmarkRunsPage: React.FC = () => {
               </Button>
             </>
           )}
+          <Button
+            variant="outline"
+            onClick={() => setIsMatrixOpen(true)}
+            disabled={isRunning}
+          >
+            <Grid3x3 size={16} className="mr-2" />
+            Run Matrix
+          </Button>
           <Button
             onClick={handleAddRun}
             disabled={isRunning}
@@ -711,6 +770,9 @@ export const BenchmarkRunsPage: React.FC = () => {
               </div>
             </div>
 
+            {/* Recurring Runs (sample benchmarks are read-only) */}
+            {!benchmark.id.startsWith('demo-') && <SchedulesPanel benchmark={benchmark} />}
+
             {/* Running Progress */}
             {isRunning && useCaseStatuses.length > 0 && (
               <Card className="mb-4 border-blue-500/50 flex-shrink-0">
@@ -789,6 +851,10 @@ export const BenchmarkRunsPage: React.FC = () => {
                   const stats = getRunStats(run);
                   const isLatestRun = index === 0 && runVersionFilter === 'all';
                   const isSelected = selectedRunIds.includes(run.id);
+                  const runStatus = getEffectiveRunStatus(run);
+                  const retryableCount = runStatus === 'running' || runStatus === 'paused'
+                    ? 0
+                    : getRetryableTestCaseIds(run).length;
 
                   return (
                     <Card
@@ -822,12 +888,27 @@ export const BenchmarkRunsPage: React.FC = () => {
                                     Running
                                   </Badge>
                                 )}
+                                {getEffectiveRunStatus(run) === 'paused' && (
+                                  <Badge className="text-xs bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
+                                    <Pause size={12} className="mr-1" />
+                                    Paused
+                                  </Badge>
+                                )}
                                 {getEffectiveRunStatus(run) === 'cancelled' && (
                                   <Badge className="text-xs bg-gray-500/20 text-gray-400 border-gray-500/30">
                                     <XCircle size={12} className="mr-1" />
                                     Cancelled
                                   </Badge>
                                 )}
+                                {run.budgetExceededReason && (
+                                  <Badge
+                                    className="text-xs bg-red-500/20 text-red-400 border-red-500/30"
+                                    title={run.budgetExceededReason}
+                                  >
+                                    <Gauge size={12} className="mr-1" />
+                                    Over budget
+                                  </Badge>
+                                )}
                                 {isLatestRun && (
                                   <Badge variant="outline" className="text-xs bg-blue-500/10 text-blue-400 border-blue-500/30">
                                     Latest
@@ -861,6 +942,11 @@ export const BenchmarkRunsPage: React.FC = () => {
                                 </span>
                                 <span>Agent: {DEFAULT_CONFIG.agents.find(a => a.key === run.agentKey)?.name || run.agentKey}</span>
                                 <span>Model: {getModelName(run.modelId)}</span>
+                                {run.usage && (
+                                  <span>
+                                    Usage: {run.usage.totalTokens.toLocaleString()} tokens · ${run.usage.costUsd.toFixed(4)}
+                                  </span>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -894,7 +980,44 @@ export const BenchmarkRunsPage: React.FC = () => {
                                 </span>
                               </div>
                             )}
-                            {getEffectiveRunStatus(run) === 'running' && (
+                            {getEffectiveRunStatus(run) === 'running' && run.jobId && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={jobActionRunId === run.id || isCancelling(run.id)}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleJobAction(run, 'pause');
+                                }}
+                                title="Pause after the test cases in progress finish"
+                              >
+                                {jobActionRunId === run.id ? (
+                                  <Loader2 size={14} className="mr-1 animate-spin" />
+                                ) : (
+                                  <Pause size={14} className="mr-1" />
+                                )}
+                                Pause
+                              </Button>
+                            )}
+                            {getEffectiveRunStatus(run) === 'paused' && run.jobId && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={jobActionRunId === run.id || isCancelling(run.id)}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleJobAction(run, 'resume');
+                                }}
+                              >
+                                {jobActionRunId === run.id ? (
+                                  <Loader2 size={14} className="mr-1 animate-spin" />
+                                ) : (
+                                  <Play size={14} className="mr-1" />
+                                )}
+                                Resume
+                              </Button>
+                            )}
+                            {(getEffectiveRunStatus(run) === 'running' || getEffectiveRunStatus(run) === 'paused') && (
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -914,6 +1037,25 @@ export const BenchmarkRunsPage: React.FC = () => {
                                 {isCancelling(run.id) ? 'Cancelling...' : 'Cancel'}
                               </Button>
                             )}
+                            {retryableCount > 0 && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={retryingRunId === run.id}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleRetryFailed(run);
+                                }}
+                                title="Re-run the failed and cancelled test cases in this run"
+                              >
+                                {retryingRunId === run.id ? (
+                                  <Loader2 size={14} className="mr-1 animate-spin" />
+                                ) : (
+                                  <RotateCcw size={14} className="mr-1" />
+                                )}
+                                Retry failed ({retryableCount})
+                              </Button>
+                            )}
                             <Button
                               variant="ghost"
                               size="icon"
@@ -1043,6 +1185,82 @@ export const BenchmarkRunsPage: React.FC = () => {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="run-concurrency">Concurrency</Label>
+                <Input
+                  id="run-concurrency"
+                  type="number"
+                  min={1}
+                  max={MAX_RUN_CONCURRENCY}
+                  value={runConfigValues.concurrency ?? 1}
+                  onChange={e => {
+                    const value = parseInt(e.target.value, 10);
+                    setRunConfigValues(prev => ({
+                      ...prev,
+                      concurrency: Number.isNaN(value) ? undefined : Math.min(Math.max(value, 1), MAX_RUN_CONCURRENCY),
+                    }));
+                  }}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Number of test cases to run at once
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="run-iterations">Iterations</Label>
+                <Input
+                  id="run-iterations"
+                  type="number"
+                  min={1}
+                  max={MAX_RUN_ITERATIONS}
+                  value={runConfigValues.iterations ?? 1}
+                  onChange={e => {
+                    const value = parseInt(e.target.value, 10);
+                    setRunConfigValues(prev => ({
+                      ...prev,
+                      iterations: Number.isNaN(value) ? undefined : Math.min(Math.max(value, 1), MAX_RUN_ITERATIONS),
+                    }));
+                  }}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Times to run each test case, for pass@k and flakiness statistics
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Budget</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {BUDGET_INPUTS.map(({ field, label, step, scale }) => (
+                    <div key={field} className="space-y-1">
+                      <Label htmlFor={`run-budget-${field}`} className="text-xs text-muted-foreground">{label}</Label>
+                      <Input
+                        id={`run-budget-${field}`}
+                        type="number"
+                        min={0}
+                        step={step}
+                        placeholder="No limit"
+                        value={runConfigValues.budget?.[field] !== undefined ? runConfigValues.budget[field]! / scale : ''}
+                        onChange={e => {
+                          const value = parseFloat(e.target.value);
+                          setRunConfigValues(prev => {
+                            const budget: RunBudget = { ...prev.budget };
+                            if (Number.isNaN(value) || value <= 0) {
+                              delete budget[field];
+                            } else {
+                              budget[field] = field === 'maxCostUsd' ? value : Math.round(value * scale);
+                            }
+                            return { ...prev, budget: Object.keys(budget).length > 0 ? budget : undefined };
+                          });
+                        }}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  The run is cancelled once it goes over its token, cost, or time limit; a test case over its step or tool call limit is stopped
+                </p>
+              </div>
+
               <div className="flex justify-end gap-2 pt-2">
                 <Button variant="ghost" onClick={() => setIsRunConfigOpen(false)}>
                   Cancel
@@ -1061,6 +1279,11 @@ export const BenchmarkRunsPage: React.FC = () => {
         </div>
       )}
 
+      {/* Matrix Run Dialog */}
+      {isMatrixOpen && (
+        <MatrixRunDialog benchmark={benchmark} onClose={() => setIsMatrixOpen(false)} />
+      )}
+
     </div>
   );
 };
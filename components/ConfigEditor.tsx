@@ -16,6 +16,7 @@ export const ConfigEditor: React.FC = () => {
 defaults:
   retry_attempts: ${DEFAULT_CONFIG.defaults.retry_attempts}
   retry_delay_ms: ${DEFAULT_CONFIG.defaults.retry_delay_ms}
+  timeout_ms: ${DEFAULT_CONFIG.defaults.timeout_ms}
 
 agents:
 ${DEFAULT_CONFIG.agents.map(agent => `  - name: ${agent.name}
@@ -28,6 +28,9 @@ import {
   Target,
   Hash,
   Maximize2,
+  ListChecks,
+  MessagesSquare,
+  Gauge,
 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
@@ -41,6 +44,9 @@ import TraceFullScreenView from './traces/TraceFullScreenView';
 import { computeTrajectoryFromRawEvents } from '@/services/agent';
 import { fetchTracesByRunIds, processSpansIntoTree, calculateTimeRange } from '@/services/traces';
 import { DEFAULT_CONFIG } from '@/lib/constants';
+import { evaluateAssertions, hasJudgeCriteria, applyAssertionResults, buildAssertionJudgment } from '@/lib/assertions';
+import { applyPPLMatch } from '@/lib/pplMatch';
+import { formatRubricLabel } from '@/lib/rubric';
 import { formatDate } from '@/lib/utils';
 import { asyncRunStorage, asyncTestCaseStorage } from '@/services/storage';
 import { callBedrockJudge } from '@/services/evaluation';
@@ -163,34 +169,51 @@ export const RunDetailsContent: React.FC<RunDetailsContentProps> = ({
           console.info(`[RunDetails] Traces found for report ${liveReport.id}: ${spans.length} spans`);
 
           try {
-            // Call the Bedrock judge with the trajectory and expectedOutcomes
-            // Resolve model key to full Bedrock model ID
-            const judgeModelId = liveReport.modelId
-              ? (DEFAULT_CONFIG.models[liveReport.modelId]?.model_id || liveReport.modelId)
+            const assertionResults = testCase.assertions?.length
+              ? evaluateAssertions(testCase.assertions, updatedReport.trajectory)
               : undefined;
-            console.info(`[RunDetails] Calling Bedrock judge for report ${liveReport.id} with model: ${judgeModelId || '(default)'}`);
-
-            const judgment = await callBedrockJudge(
-              updatedReport.trajectory,
-              {
-                expectedOutcomes: testCase.expectedOutcomes,
-                expectedTrajectory: testCase.expectedTrajectory,
-              },
-              [], // No logs for trace-mode
-              (chunk) => console.debug('[RunDetails] Judge progress:', chunk.slice(0, 100)),
-              judgeModelId
-            );
-
-            console.info(`[RunDetails] Judge result: ${judgment.passFailStatus}, accuracy: ${judgment.metrics.accuracy}%`);
-
-            // Update report with judge results
-            await asyncRunStorage.updateReport(liveReport.id, {
-              metricsStatus: 'ready',
-              passFailStatus: judgment.passFailStatus,
-              metrics: judgment.metrics,
-              llmJudgeReasoning: judgment.llmJudgeReasoning,
-              improvementStrategies: judgment.improvementStrategies,
-            });
+
+            if (assertionResults && !hasJudgeCriteria(testCase)) {
+              // Assertion-only test case - no LLM judge call needed
+              const assertionJudgment = buildAssertionJudgment(assertionResults);
+              await asyncRunStorage.updateReport(liveReport.id, {
+                metricsStatus: 'ready',
+                ...assertionJudgment,
+                metrics: applyPPLMatch(assertionJudgment.metrics, testCase.expectedPPL, updatedReport.trajectory),
+                assertionResults,
+              });
+            } else {
+              // Call the Bedrock judge with the trajectory and expectedOutcomes
+              // Resolve model key to full Bedrock model ID
+              const judgeModelId = liveReport.modelId
+                ? (DEFAULT_CONFIG.models[liveReport.modelId]?.model_id || liveReport.modelId)
+                : undefined;
+              console.info(`[RunDetails] Calling Bedrock judge for report ${liveReport.id} with model: ${judgeModelId || '(default)'}`);
+
+              const judgment = await callBedrockJudge(
+                updatedReport.trajectory,
+                {
+                  expectedOutcomes: testCase.expectedOutcomes,
+                  expectedTrajectory: testCase.expectedTrajectory,
+                  rubric: liveReport.rubric ?? testCase.rubric,
+                },
+                [], // No logs for trace-mode
+                (chunk) => console.debug('[RunDetails] Judge progress:', chunk.slice(0, 100)),
+                judgeModelId
+              );
+
+              console.info(`[RunDetails] Judge result: ${judgment.passFailStatus}, accuracy: ${judgment.metrics.accuracy}%`);
+
+              // Update report with judge results (failed assertions override a judge pass)
+              await asyncRunStorage.updateReport(liveReport.id, {
+                metricsStatus: 'ready',
+                passFailStatus: applyAssertionResults(judgment.passFailStatus, assertionResults),
+                metrics: applyPPLMatch(judgment.metrics, testCase.expectedPPL, updatedReport.trajectory),
+                llmJudgeReasoning: judgment.llmJudgeReasoning,
+                improvementStrategies: judgment.improvementStrategies,
+                assertionResults,
+              });
+            }
 
             // Update local state
             const freshReport = await asyncRunStorage.getReportById(liveReport.id);
@@ -382,6 +405,8 @@ export const RunDetailsContent: React.FC<RunDetailsContentProps> = ({
   };
 
   const totalLatencyMs = trajectory.reduce((acc, s) => acc + (s.latencyMs || 0), 0);
+  // Agent calls beyond one per turn were retries
+  const agentRetries = Math.max((liveReport.executionAttempts ?? 0) - (liveReport.turns?.length || 1), 0);
 
   return (
     <div className={`flex flex-col h-full ${className}`}>
@@ -431,6 +456,54 @@ export const RunDetailsContent: React.FC<RunDetailsContentProps> = ({
           </Card>
         )}
 
+        {/* Agent execution cut off by the test case timeout */}
+        {liveReport.timeoutReason && (
+          <Card className="bg-red-500/10 border-red-500/30 mt-4">
+            <CardContent className="p-3 flex items-center gap-3">
+              <Clock className="text-red-400" size={18} />
+              <div>
+                <div className="text-sm font-medium text-red-400">Timed out</div>
+                <div className="text-xs text-muted-foreground">
+                  {liveReport.timeoutReason}
+                  {liveReport.executionAttempts && liveReport.executionAttempts > 1 && (
+                    <span className="ml-2">({liveReport.executionAttempts} agent calls)</span>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Agent execution cut off by the test case's step or tool call budget */}
+        {liveReport.budgetExceededReason && (
+          <Card className="bg-red-500/10 border-red-500/30 mt-4">
+            <CardContent className="p-3 flex items-center gap-3">
+              <Gauge className="text-red-400" size={18} />
+              <div>
+                <div className="text-sm font-medium text-red-400">Budget exceeded</div>
+                <div className="text-xs text-muted-foreground">
+                  {liveReport.budgetExceededReason}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Agent calls retried after transient failures */}
+        {!liveReport.timeoutReason && agentRetries > 0 && (
+          <Card className="bg-yellow-500/10 border-yellow-500/30 mt-4">
+            <CardContent className="p-3 flex items-center gap-3">
+              <AlertTriangle className="text-yellow-400" size={18} />
+              <div>
+                <div className="text-sm font-medium text-yellow-400">Agent calls retried</div>
+                <div className="text-xs text-muted-foreground">
+                  {agentRetries} {agentRetries === 1 ? 'retry' : 'retries'} after network errors, 5xx, or 429 responses
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Trace Mode: Spans received */}
         {liveReport.spans && liveReport.spans.length > 0 && (
           <Card className="bg-opensearch-blue/10 border-opensearch-blue/30 mt-4">
@@ -477,6 +550,9 @@ export const RunDetailsContent: React.FC<RunDetailsContentProps> = ({
             <CardContent className="p-3">
               <div className="text-xs text-muted-foreground mb-1">Accuracy</div>
               <div className="text-sm font-semibold text-opensearch-blue">{liveReport.metrics.accuracy}%</div>
+              {liveReport.metrics.pplMatch !== undefined && (
+                <div className="text-xs text-muted-foreground mt-0.5">PPL match: {liveReport.metrics.pplMatch}%</div>
+              )}
             </CardContent>
           </Card>
 
@@ -998,9 +1074,90 @@ export const RunDetailsContent: React.FC<RunDetailsContentProps> = ({
           </TabsContent>
 
           <TabsContent value="judge" className="p-6 mt-0 space-y-6">
+            {/* Deterministic Assertions */}
+            {liveReport.assertionResults && liveReport.assertionResults.length > 0 && (
+              <div>
+                <h3 className="text-lg font-semibold mb-3 flex items-center">
+                  <ListChecks size={18} className="mr-2" />
+                  Assertions ({liveReport.assertionResults.filter(r => r.passed).length}/{liveReport.assertionResults.length} passed)
+                </h3>
+                <Card><CardContent className="p-4 space-y-2">
+                  {liveReport.assertionResults.map((result, index) => {
+                    const isWarning = !result.passed && result.assertion.severity === 'warning';
+                    return (
+                      <div key={result.assertion.id || index} className="flex items-start gap-2 text-sm">
+                        {result.passed ? (
+                          <CheckCircle2 size={14} className="text-opensearch-blue mt-0.5 shrink-0" />
+                        ) : isWarning ? (
+                          <AlertTriangle size={14} className="text-yellow-400 mt-0.5 shrink-0" />
+                        ) : (
+                          <XCircle size={14} className="text-red-400 mt-0.5 shrink-0" />
+                        )}
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{result.assertion.description || result.assertion.type}</span>
+                            <Badge variant="outline" className="text-xs font-mono">{result.assertion.type}</Badge>
+                          </div>
+                          <div className="text-xs text-muted-foreground">{result.message}</div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </CardContent></Card>
+              </div>
+            )}
+
+            {/* Multi-turn Conversation */}
+            {liveReport.turns && liveReport.turns.length > 0 && (
+              <div>
+                <h3 className="text-lg font-semibold mb-3 flex items-center">
+                  <MessagesSquare size={18} className="mr-2" />
+                  Conversation ({liveReport.turns.length} turns)
+                </h3>
+                <Card><CardContent className="p-4 space-y-3">
+                  {liveReport.turns.map(turn => (
+                    <div key={turn.turn} className="flex items-start gap-2 text-sm">
+                      {turn.passFailStatus === 'passed' ? (
+                        <CheckCircle2 size={14} className="text-opensearch-blue mt-0.5 shrink-0" />
+                      ) : turn.passFailStatus === 'failed' ? (
+                        <XCircle size={14} className="text-red-400 mt-0.5 shrink-0" />
+                      ) : (
+                        <Clock size={14} className="text-muted-foreground mt-0.5 shrink-0" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">Turn {turn.turn}</span>
+                          {turn.trigger && (
+                            <Badge variant="outline" className="text-xs font-mono">{turn.trigger}</Badge>
+                          )}
+                          {turn.outcome === 'error' && (
+                            <Badge variant="outline" className="text-xs text-red-400">error</Badge>
+                          )}
+                          {turn.metrics && (
+                            <span className="text-xs text-muted-foreground">Accuracy {turn.metrics.accuracy}%</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">{turn.prompt}</div>
+                        {turn.llmJudgeReasoning && (
+                          <div className="text-xs text-muted-foreground mt-1 line-clamp-3">{turn.llmJudgeReasoning}</div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </CardContent></Card>
+              </div>
+            )}
+
             {/* LLM Judge Reasoning */}
             <div>
-              <h3 className="text-lg font-semibold mb-3">LLM Judge Reasoning</h3>
+              <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
+                LLM Judge Reasoning
+                {liveReport.rubric && (
+                  <Badge variant="outline" className="text-xs font-normal">
+                    Rubric: {formatRubricLabel(liveReport.rubric)}
+                  </Badge>
+                )}
+              </h3>
               <Card><CardContent className="p-4">
                 <div className="prose prose-invert max-w-none prose-headings:text-sm prose-p:text-sm prose-p:leading-relaxed prose-code:text-opensearch-blue prose-code:bg-muted prose-code:px-1.5 prose-code:py-0.5 prose-code:rounded prose-code:text-xs prose-ul:text-sm prose-ol:text-sm">
                   <ReactMarkdown remarkPlugins={[remarkGfm]}>
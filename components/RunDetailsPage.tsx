@@ -5,7 +5,7 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
-import { ArrowLeft, Calendar, CheckCircle2, XCircle, BarChart3, PanelLeftClose, PanelLeft, Clock, Loader2, StopCircle, Ban } from 'lucide-react';
+import { ArrowLeft, Calendar, CheckCircle2, XCircle, BarChart3, PanelLeftClose, PanelLeft, Clock, Loader2, StopCircle, Ban, Gauge } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -127,7 +127,8 @@ const Sidebar = ({ context, selectedItem, onSelectItem, onToggleCollapse, isColl
           const isSelected = selectedItem === testCaseId;
 
           const isPassed = report?.passFailStatus === 'passed';
-          const isFailed = report?.passFailStatus === 'failed' || result.status === 'failed';
+          const isOverBudget = result.status === 'budget_exceeded';
+          const isFailed = !isOverBudget && (report?.passFailStatus === 'failed' || result.status === 'failed');
 
           return (
             <Card
@@ -156,7 +157,12 @@ const Sidebar = ({ context, selectedItem, onSelectItem, onToggleCollapse, isColl
                     {!isPassed && !isFailed && result.status === 'cancelled' && (
                       <Ban size={18} className="text-orange-400" />
                     )}
-                    {!isPassed && !isFailed && result.status !== 'running' && result.status !== 'pending' && result.status !== 'cancelled' && (
+                    {isOverBudget && (
+                      <span title={report?.budgetExceededReason || 'Budget exceeded'}>
+                        <Gauge size={18} className="text-red-400" />
+                      </span>
+                    )}
+                    {!isPassed && !isFailed && !isOverBudget && result.status !== 'running' && result.status !== 'pending' && result.status !== 'cancelled' && (
                       <div className="w-[18px] h-[18px] rounded-full border-2 border-muted-foreground/30" />
                     )}
                   </div>
@@ -190,6 +196,11 @@ const Sidebar = ({ context, selectedItem, onSelectItem, onToggleCollapse, isColl
                         Execution failed
                       </p>
                     )}
+                    {isOverBudget && (
+                      <p className="text-xs text-red-400 mt-1">
+                        Budget exceeded
+                      </p>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -414,7 +425,7 @@ export const RunDetailsPage: React.FC = () => {
         } else {
           pending++; // Report not loaded yet
         }
-      } else if (result.status === 'failed') {
+      } else if (result.status === 'failed' || result.status === 'budget_exceeded') {
         failed++;
       }
     });
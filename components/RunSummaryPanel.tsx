@@ -49,7 +49,7 @@ export const RunSummaryPanel: React.FC<RunSummaryPanelProps> = ({
             failed++;
           }
         }
-      } else if (result.status === 'failed') {
+      } else if (result.status === 'failed' || result.status === 'budget_exceeded') {
         failed++;
       }
     });
@@ -13,7 +13,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { LabelPicker } from '@/components/ui/label-picker';
-import { TestCase, AgentContextItem } from '@/types';
+import { TestCase, AgentContextItem, TestCaseAssertion, FollowUpQuestion, JudgeRubric } from '@/types';
 import { asyncTestCaseStorage } from '@/services/storage';
 import {
   ValidationError,
@@ -22,6 +22,7 @@ import {
   serializeFormToJson,
 } from '@/lib/testCaseValidation';
 import { parseLabels } from '@/lib/labels';
+import { formatRubricLabel, getPassThreshold } from '@/lib/rubric';
 
 interface TestCaseEditorProps {
   testCase: TestCase | null; // null = create mode
@@ -47,6 +48,12 @@ export const TestCaseEditor: React.FC<TestCaseEditorProps> = ({
   const [expectedOutcomes, setExpectedOutcomes] = useState<string[]>(
     testCase?.expectedOutcomes || ['']
   );
+  // Assertions are edited in JSON mode; kept here so form edits preserve them
+  const [assertions, setAssertions] = useState<TestCaseAssertion[]>(testCase?.assertions || []);
+  // Follow-up questions are also edited in JSON mode
+  const [followUpQuestions, setFollowUpQuestions] = useState<FollowUpQuestion[]>(testCase?.followUpQuestions || []);
+  // ...and so is the judge rubric
+  const [rubric, setRubric] = useState<JudgeRubric | undefined>(testCase?.rubric);
 
   // Editor mode state
   const [editorMode, setEditorMode] = useState<EditorMode>('form');
@@ -112,6 +119,9 @@ export const TestCaseEditor: React.FC<TestCaseEditorProps> = ({
         initialPrompt,
         context,
         expectedOutcomes,
+        assertions,
+        followUpQuestions,
+        rubric,
       });
       setJsonContent(json);
     } else if (mode === 'form' && editorMode === 'json') {
@@ -145,6 +155,9 @@ export const TestCaseEditor: React.FC<TestCaseEditorProps> = ({
               ? parsed.expectedOutcomes
               : ['']
           );
+          setAssertions(Array.isArray(parsed.assertions) ? parsed.assertions : []);
+          setFollowUpQuestions(Array.isArray(parsed.followUpQuestions) ? parsed.followUpQuestions : []);
+          setRubric(parsed.rubric && typeof parsed.rubric === 'object' ? parsed.rubric : undefined);
         } catch {
           // Invalid JSON structure - reset form to defaults
           setName('');
@@ -153,6 +166,9 @@ export const TestCaseEditor: React.FC<TestCaseEditorProps> = ({
           setInitialPrompt('');
           setContext([]);
           setExpectedOutcomes(['']);
+          setAssertions([]);
+          setFollowUpQuestions([]);
+          setRubric(undefined);
         }
       }
     }
@@ -194,6 +210,9 @@ export const TestCaseEditor: React.FC<TestCaseEditorProps> = ({
             initialPrompt,
             context,
             expectedOutcomes: filteredOutcomes,
+            assertions,
+            followUpQuestions,
+            rubric,
           });
           if (updated) {
             onSave(updated);
@@ -207,6 +226,9 @@ export const TestCaseEditor: React.FC<TestCaseEditorProps> = ({
             initialPrompt,
             context,
             expectedOutcomes: filteredOutcomes,
+            assertions,
+            followUpQuestions,
+            rubric,
           });
           onSave(created);
         }
@@ -239,6 +261,9 @@ export const TestCaseEditor: React.FC<TestCaseEditorProps> = ({
             initialPrompt: tc.initialPrompt,
             context: (tc.context || []) as AgentContextItem[],
             expectedOutcomes: tc.expectedOutcomes || [],
+            assertions: tc.assertions,
+            followUpQuestions: tc.followUpQuestions,
+            rubric: tc.rubric,
           }));
 
           const bulkResult = await asyncTestCaseStorage.bulkCreate(testCasesToCreate);
@@ -275,6 +300,9 @@ export const TestCaseEditor: React.FC<TestCaseEditorProps> = ({
               initialPrompt: data.initialPrompt,
               context: (data.context || []) as AgentContextItem[],
               expectedOutcomes: data.expectedOutcomes || [],
+              assertions: data.assertions,
+              followUpQuestions: data.followUpQuestions,
+              rubric: data.rubric,
             });
             if (updated) {
               onSave(updated);
@@ -290,6 +318,9 @@ export const TestCaseEditor: React.FC<TestCaseEditorProps> = ({
               initialPrompt: data.initialPrompt,
               context: (data.context || []) as AgentContextItem[],
               expectedOutcomes: data.expectedOutcomes || [],
+              assertions: data.assertions,
+              followUpQuestions: data.followUpQuestions,
+              rubric: data.rubric,
             });
             onSave(created);
           }
@@ -302,7 +333,7 @@ export const TestCaseEditor: React.FC<TestCaseEditorProps> = ({
 
   // Validation for each mode
   const hasValidOutcome = expectedOutcomes.some(o => o.trim());
-  const canSaveForm = name.trim() && initialPrompt.trim() && hasValidOutcome && !isSaving;
+  const canSaveForm = name.trim() && initialPrompt.trim() && (hasValidOutcome || assertions.length > 0) && !isSaving;
   const canSaveJson = jsonContent.trim() && jsonErrors.length === 0 && !isSaving;
   const canSave = editorMode === 'form' ? canSaveForm : canSaveJson;
 
@@ -472,6 +503,51 @@ export const TestCaseEditor: React.FC<TestCaseEditorProps> = ({
                   ))}
                 </div>
               </div>
+
+              {/* Assertions (read-only in form mode) */}
+              {assertions.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Assertions</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {assertions.length} deterministic assertion(s). Switch to JSON mode to edit.
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {assertions.map((assertion, index) => (
+                      <span key={index} className="text-xs font-mono px-2 py-0.5 rounded border bg-muted/30">
+                        {assertion.description || assertion.type}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Follow-up questions (read-only in form mode) */}
+              {followUpQuestions.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Follow-up Questions</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {followUpQuestions.length} follow-up turn(s) sent after the initial prompt. Switch to JSON mode to edit.
+                  </p>
+                  <div className="space-y-1">
+                    {followUpQuestions.map((followUp, index) => (
+                      <div key={index} className="flex items-start gap-2 text-xs">
+                        <span className="font-mono px-2 py-0.5 rounded border bg-muted/30 shrink-0">{followUp.trigger}</span>
+                        <span className="text-muted-foreground">{followUp.question}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Judge rubric (read-only in form mode) */}
+              {rubric && (
+                <div className="space-y-2">
+                  <Label>Judge Rubric</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {formatRubricLabel(rubric)}: {rubric.criteria.length} criteria, pass at {getPassThreshold(rubric)}%. Switch to JSON mode to edit.
+                  </p>
+                </div>
+              )}
             </div>
           </ScrollArea>
           )}
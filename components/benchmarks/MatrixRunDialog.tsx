@@ -0,0 +1,269 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Grid3x3, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { executeMatrixRun } from '@/services/client';
+import { Benchmark, MatrixRunConfig, MatrixRunVariant } from '@/types';
+import { DEFAULT_CONFIG } from '@/lib/constants';
+import { MAX_RUN_CONCURRENCY } from '@/lib/runConcurrency';
+import { MAX_RUN_ITERATIONS } from '@/lib/runIterations';
+import { countMatrixCells, validateMatrixRunConfig } from '@/lib/runMatrix';
+
+interface MatrixRunDialogProps {
+  benchmark: Benchmark;
+  onClose: () => void;
+}
+
+// Variant as edited in the form (headers as "Name: value" lines)
+interface VariantDraft {
+  name: string;
+  agentEndpoint: string;
+  headers: string;
+}
+
+function parseHeaders(text: string): Record<string, string> | undefined {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  }
+  return Object.keys(headers).length > 0 ? headers : undefined;
+}
+
+function toVariant(draft: VariantDraft): MatrixRunVariant {
+  const headers = parseHeaders(draft.headers);
+  return {
+    name: draft.name.trim(),
+    ...(draft.agentEndpoint.trim() && { agentEndpoint: draft.agentEndpoint.trim() }),
+    ...(headers && { headers }),
+  };
+}
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+/**
+ * Dialog that starts one run per agent × model × variant and opens the
+ * comparison page with every cell selected
+ */
+export const MatrixRunDialog: React.FC<MatrixRunDialogProps> = ({ benchmark, onClose }) => {
+  const navigate = useNavigate();
+  const [name, setName] = useState(`Matrix ${(benchmark.runs?.length || 0) + 1}`);
+  const [agentKeys, setAgentKeys] = useState<string[]>([]);
+  const [modelIds, setModelIds] = useState<string[]>([]);
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
+  const [concurrency, setConcurrency] = useState<number | undefined>(undefined);
+  const [iterations, setIterations] = useState<number | undefined>(undefined);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const matrixConfig: MatrixRunConfig = {
+    name: name.trim(),
+    agentKeys,
+    modelIds,
+    ...(variants.length > 0 && { variants: variants.map(toVariant) }),
+    ...(concurrency !== undefined && { concurrency }),
+    ...(iterations !== undefined && { iterations }),
+  };
+  const cellCount = countMatrixCells(matrixConfig);
+  const validationError = validateMatrixRunConfig(matrixConfig);
+
+  const updateVariant = (index: number, updates: Partial<VariantDraft>) => {
+    setVariants(prev => prev.map((v, i) => (i === index ? { ...v, ...updates } : v)));
+  };
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    setError(null);
+    try {
+      const { matrixId } = await executeMatrixRun(benchmark.id, matrixConfig);
+      navigate(`/compare/${benchmark.id}?matrix=${matrixId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start matrix run');
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-lg">Configure Matrix Run</CardTitle>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X size={18} />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4 overflow-y-auto">
+          <div className="space-y-2">
+            <Label htmlFor="matrix-name">Matrix Name</Label>
+            <Input
+              id="matrix-name"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="e.g., Agents vs models"
+            />
+            <p className="text-xs text-muted-foreground">
+              Each cell run is named "{name.trim() || 'Matrix'} [agent / model / variant]"
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Agents</Label>
+              <div className="space-y-1.5 rounded-md border p-2 max-h-40 overflow-y-auto">
+                {DEFAULT_CONFIG.agents.map(agent => (
+                  <label key={agent.key} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={agentKeys.includes(agent.key)}
+                      onCheckedChange={() => setAgentKeys(prev => toggle(prev, agent.key))}
+                    />
+                    {agent.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Models</Label>
+              <div className="space-y-1.5 rounded-md border p-2 max-h-40 overflow-y-auto">
+                {Object.entries(DEFAULT_CONFIG.models).map(([key, model]) => (
+                  <label key={key} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={modelIds.includes(key)}
+                      onCheckedChange={() => setModelIds(prev => toggle(prev, key))}
+                    />
+                    {model.display_name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Variants (optional)</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setVariants(prev => [...prev, { name: `Variant ${prev.length + 1}`, agentEndpoint: '', headers: '' }])}
+              >
+                <Plus size={12} className="mr-1" />
+                Add Variant
+              </Button>
+            </div>
+            {variants.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Without variants, each agent runs with its own endpoint and headers
+              </p>
+            )}
+            {variants.map((variant, index) => (
+              <div key={index} className="rounded-md border p-2 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={variant.name}
+                    onChange={e => updateVariant(index, { name: e.target.value })}
+                    placeholder="Variant name"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setVariants(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+                <Input
+                  value={variant.agentEndpoint}
+                  onChange={e => updateVariant(index, { agentEndpoint: e.target.value })}
+                  placeholder="Agent endpoint override (optional)"
+                />
+                <Textarea
+                  value={variant.headers}
+                  onChange={e => updateVariant(index, { headers: e.target.value })}
+                  placeholder="Headers, one per line (e.g. X-Feature-Flag: on)"
+                  rows={2}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="matrix-concurrency">Concurrency Budget</Label>
+              <Input
+                id="matrix-concurrency"
+                type="number"
+                min={1}
+                max={MAX_RUN_CONCURRENCY}
+                value={concurrency ?? 1}
+                onChange={e => {
+                  const value = parseInt(e.target.value, 10);
+                  setConcurrency(Number.isNaN(value) ? undefined : Math.min(Math.max(value, 1), MAX_RUN_CONCURRENCY));
+                }}
+              />
+              <p className="text-xs text-muted-foreground">
+                Test cases to run at once across all cells
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="matrix-iterations">Iterations</Label>
+              <Input
+                id="matrix-iterations"
+                type="number"
+                min={1}
+                max={MAX_RUN_ITERATIONS}
+                value={iterations ?? 1}
+                onChange={e => {
+                  const value = parseInt(e.target.value, 10);
+                  setIterations(Number.isNaN(value) ? undefined : Math.min(Math.max(value, 1), MAX_RUN_ITERATIONS));
+                }}
+              />
+              <p className="text-xs text-muted-foreground">
+                Times to run each test case in each cell
+              </p>
+            </div>
+          </div>
+
+          {(error || (validationError && agentKeys.length > 0 && modelIds.length > 0)) && (
+            <p className="text-sm text-red-400">{error || validationError}</p>
+          )}
+
+          <div className="flex items-center justify-between pt-2">
+            <span className="text-sm text-muted-foreground">
+              {cellCount} run{cellCount !== 1 ? 's' : ''}
+            </span>
+            <div className="flex gap-2">
+              <Button variant="ghost" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleStart}
+                disabled={!!validationError || isStarting}
+                className="bg-opensearch-blue hover:bg-blue-600"
+              >
+                {isStarting ? (
+                  <Loader2 size={16} className="mr-1 animate-spin" />
+                ) : (
+                  <Grid3x3 size={16} className="mr-1" />
+                )}
+                Start Matrix
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,290 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CalendarClock, ChevronDown, ChevronRight, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  createBenchmarkSchedule,
+  deleteBenchmarkSchedule,
+  listBenchmarkSchedules,
+  updateBenchmarkSchedule,
+} from '@/services/client';
+import { Benchmark, BenchmarkSchedule, RunConfigInput } from '@/types';
+import { DEFAULT_CONFIG } from '@/lib/constants';
+import { validateCronExpression } from '@/lib/cron';
+import { formatDate, getModelName } from '@/lib/utils';
+
+interface SchedulesPanelProps {
+  benchmark: Benchmark;
+}
+
+// Schedules are fired server-side; refresh to pick up new fire times and outcomes
+const REFRESH_INTERVAL_MS = 30000;
+
+const OUTCOME_STYLES: Record<string, string> = {
+  completed: 'bg-green-500/20 text-green-400 border-green-500/30',
+  failed: 'bg-red-500/20 text-red-400 border-red-500/30',
+  cancelled: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+  running: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  pending: 'bg-muted text-muted-foreground',
+  paused: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+};
+
+function defaultRunConfig(): RunConfigInput {
+  return {
+    name: 'Nightly',
+    agentKey: DEFAULT_CONFIG.agents[0]?.key || '',
+    modelId: Object.keys(DEFAULT_CONFIG.models)[0] || '',
+  };
+}
+
+/**
+ * Recurring runs of a benchmark: cron, enabled flag, last and next fire time,
+ * the outcome of the last firing, and firings missed while the server was down
+ */
+export const SchedulesPanel: React.FC<SchedulesPanelProps> = ({ benchmark }) => {
+  const [schedules, setSchedules] = useState<BenchmarkSchedule[]>([]);
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  const [cron, setCron] = useState('0 2 * * *');
+  const [runConfig, setRunConfig] = useState<RunConfigInput>(defaultRunConfig);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      setSchedules(await listBenchmarkSchedules(benchmark.id));
+    } catch (err) {
+      console.error('Failed to load schedules:', err);
+    }
+  }, [benchmark.id]);
+
+  useEffect(() => {
+    loadSchedules();
+    const interval = setInterval(loadSchedules, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadSchedules]);
+
+  const cronError = validateCronExpression(cron);
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const schedule = await createBenchmarkSchedule(benchmark.id, { cron, runConfig });
+      setSchedules(prev => [...prev, schedule]);
+      setIsAdding(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create schedule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (schedule: BenchmarkSchedule, enabled: boolean) => {
+    setError(null);
+    try {
+      const updated = await updateBenchmarkSchedule(benchmark.id, schedule.id, { enabled });
+      setSchedules(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update schedule');
+    }
+  };
+
+  const handleDelete = async (schedule: BenchmarkSchedule) => {
+    if (!window.confirm(`Delete the "${schedule.runConfig.name}" schedule? Runs it already started are kept.`)) return;
+    setError(null);
+    try {
+      await deleteBenchmarkSchedule(benchmark.id, schedule.id);
+      setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete schedule');
+    }
+  };
+
+  const renderOutcome = (schedule: BenchmarkSchedule) => {
+    if (!schedule.lastFiredAt) {
+      return <span className="text-muted-foreground">Never fired</span>;
+    }
+    if (schedule.lastError) {
+      return (
+        <span className="text-red-400" title={schedule.lastError}>
+          Failed to start: {schedule.lastError}
+        </span>
+      );
+    }
+    const run = benchmark.runs?.find(r => r.id === schedule.lastRunId);
+    const status = run?.status || 'pending';
+    return (
+      <Badge variant="outline" className={`text-[10px] px-1.5 py-0 ${OUTCOME_STYLES[status] || OUTCOME_STYLES.pending}`}>
+        {run ? status : 'started'}
+      </Badge>
+    );
+  };
+
+  return (
+    <Card className="mb-4 flex-shrink-0">
+      <CardContent className="p-3 space-y-3">
+        <div className="flex items-center justify-between">
+          <button
+            className="flex items-center gap-1.5 text-sm font-medium"
+            onClick={() => setIsExpanded(prev => !prev)}
+          >
+            {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+            <CalendarClock size={14} />
+            Schedules ({schedules.length})
+          </button>
+          {isExpanded && !isAdding && (
+            <Button variant="outline" size="sm" className="h-7" onClick={() => setIsAdding(true)}>
+              <Plus size={12} className="mr-1" />
+              Add Schedule
+            </Button>
+          )}
+        </div>
+
+        {isExpanded && (
+          <>
+            {isAdding && (
+              <div className="rounded-md border p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">New Schedule</span>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setIsAdding(false)}>
+                    <X size={14} />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="schedule-cron">Cron Expression</Label>
+                    <Input
+                      id="schedule-cron"
+                      value={cron}
+                      onChange={e => setCron(e.target.value)}
+                      placeholder="e.g., 0 2 * * mon-fri"
+                      className="font-mono"
+                    />
+                    <p className={`text-xs ${cronError ? 'text-red-400' : 'text-muted-foreground'}`}>
+                      {cronError || 'Fire times are in the server\'s time zone'}
+                    </p>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="schedule-run-name">Run Name</Label>
+                    <Input
+                      id="schedule-run-name"
+                      value={runConfig.name}
+                      onChange={e => setRunConfig(prev => ({ ...prev, name: e.target.value }))}
+                    />
+                    <p className="text-xs text-muted-foreground">Each run is named after its fire time</p>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Agent</Label>
+                    <Select
+                      value={runConfig.agentKey}
+                      onValueChange={val => setRunConfig(prev => ({ ...prev, agentKey: val }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DEFAULT_CONFIG.agents.map(agent => (
+                          <SelectItem key={agent.key} value={agent.key}>
+                            {agent.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Judge Model</Label>
+                    <Select
+                      value={runConfig.modelId}
+                      onValueChange={val => setRunConfig(prev => ({ ...prev, modelId: val }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(DEFAULT_CONFIG.models).map(([key, model]) => (
+                          <SelectItem key={key} value={key}>
+                            {model.display_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="flex justify-end">
+                  <Button
+                    size="sm"
+                    onClick={handleAdd}
+                    disabled={!!cronError || !runConfig.name.trim() || isSaving}
+                    className="bg-opensearch-blue hover:bg-blue-600"
+                  >
+                    {isSaving && <Loader2 size={14} className="mr-1 animate-spin" />}
+                    Add Schedule
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            {schedules.length === 0 && !isAdding && (
+              <p className="text-xs text-muted-foreground">
+                No schedules. Add one to run this benchmark automatically (e.g. nightly).
+              </p>
+            )}
+
+            {schedules.map(schedule => (
+              <div key={schedule.id} className="rounded-md border p-2 space-y-1.5 text-xs">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={schedule.enabled}
+                    onCheckedChange={checked => handleToggle(schedule, checked)}
+                  />
+                  <code className="font-mono text-sm">{schedule.cron}</code>
+                  <span className="text-muted-foreground truncate">
+                    {schedule.runConfig.name} · {schedule.runConfig.agentKey} · {getModelName(schedule.runConfig.modelId)}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="ml-auto h-6 w-6"
+                    onClick={() => handleDelete(schedule)}
+                  >
+                    <Trash2 size={12} />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-muted-foreground">
+                  <span>
+                    Last: {schedule.lastFiredAt ? formatDate(schedule.lastFiredAt) : '—'}
+                  </span>
+                  <span className="flex items-center gap-1">Outcome: {renderOutcome(schedule)}</span>
+                  <span>
+                    Next: {schedule.enabled && schedule.nextFireAt ? formatDate(schedule.nextFireAt) : 'Disabled'}
+                  </span>
+                </div>
+                {schedule.missedFirings && (
+                  <div className="flex items-center gap-1.5 text-yellow-400">
+                    <AlertTriangle size={12} />
+                    Missed {schedule.missedFirings.count} firing{schedule.missedFirings.count !== 1 ? 's' : ''}
+                    {' '}between {formatDate(schedule.missedFirings.first)} and {formatDate(schedule.missedFirings.last)}
+                    {' '}were not run
+                  </div>
+                )}
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
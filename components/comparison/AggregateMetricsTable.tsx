@@ -20,7 +20,7 @@ interface AggregateMetricsTableProps {
   runs: RunAggregateMetrics[];
 }
 
-type MetricKey = 'avgAccuracy' | 'passRatePercent';
+type MetricKey = 'avgAccuracy' | 'passRatePercent' | 'avgPplMatch' | 'passAtK' | 'passHatK';
 
 interface MetricRow {
   label: string;
@@ -31,6 +31,9 @@ interface MetricRow {
 const METRIC_ROWS: MetricRow[] = [
   { label: 'Avg Accuracy', key: 'avgAccuracy', higherIsBetter: true },
   { label: 'Pass Rate', key: 'passRatePercent', higherIsBetter: true },
+  { label: 'PPL Match', key: 'avgPplMatch', higherIsBetter: true },
+  { label: 'Pass@k', key: 'passAtK', higherIsBetter: true },
+  { label: 'Pass^k (all pass)', key: 'passHatK', higherIsBetter: true },
 ];
 
 export const AggregateMetricsTable: React.FC<AggregateMetricsTableProps> = ({
@@ -40,14 +43,18 @@ export const AggregateMetricsTable: React.FC<AggregateMetricsTableProps> = ({
 
   const baselineRun = runs[0];
 
+  // Optional metrics (e.g., PPL match, pass@k) are only shown when some run has them
+  const metricRows = METRIC_ROWS.filter(({ key }) => runs.some(run => run[key] !== undefined));
+
   // Find best run for each metric
-  const findBestRunId = (key: MetricKey, higherIsBetter: boolean): string => {
-    let bestRunId = runs[0].runId;
-    let bestValue = runs[0][key];
+  const findBestRunId = (key: MetricKey, higherIsBetter: boolean): string | undefined => {
+    let bestRunId: string | undefined;
+    let bestValue: number | undefined;
 
     for (const run of runs) {
       const value = run[key];
-      if (higherIsBetter ? value > bestValue : value < bestValue) {
+      if (value === undefined) continue;
+      if (bestValue === undefined || (higherIsBetter ? value > bestValue : value < bestValue)) {
         bestValue = value;
         bestRunId = run.runId;
       }
@@ -72,7 +79,7 @@ export const AggregateMetricsTable: React.FC<AggregateMetricsTableProps> = ({
           </TableRow>
         </TableHeader>
         <TableBody>
-          {METRIC_ROWS.map(({ label, key, higherIsBetter }) => {
+          {metricRows.map(({ label, key, higherIsBetter }) => {
             const bestRunId = findBestRunId(key, higherIsBetter);
 
             return (
@@ -80,9 +87,12 @@ export const AggregateMetricsTable: React.FC<AggregateMetricsTableProps> = ({
                 <TableCell className="font-medium">{label}</TableCell>
                 {runs.map((run, index) => {
                   const value = run[key];
+                  const baselineValue = baselineRun[key];
                   const isBest = run.runId === bestRunId && runs.length > 1;
                   const isBaseline = index === 0;
-                  const delta = !isBaseline ? value - baselineRun[key] : 0;
+                  const delta = !isBaseline && value !== undefined && baselineValue !== undefined
+                    ? value - baselineValue
+                    : 0;
 
                   return (
                     <TableCell
@@ -97,7 +107,7 @@ export const AggregateMetricsTable: React.FC<AggregateMetricsTableProps> = ({
                           'font-medium',
                           isBest && 'text-opensearch-blue'
                         )}>
-                          {value}%
+                          {value !== undefined ? `${value}%` : '—'}
                         </span>
                         {!isBaseline && delta !== 0 && (
                           <span className={cn('text-xs', getDeltaColorClass(delta))}>
@@ -23,7 +23,8 @@ import { AggregateMetricsChart } from './AggregateMetricsChart';
 import { MetricsTimeSeriesChart } from './MetricsTimeSeriesChart';
 import { UseCaseComparisonTable } from './UseCaseComparisonTable';
 import { ComparisonSummaryBanner } from './ComparisonSummaryBanner';
-import { asyncBenchmarkStorage, asyncRunStorage } from '@/services/storage';
+import { PairwiseComparisonSection } from './PairwiseComparisonSection';
+import { asyncBenchmarkStorage, asyncRunStorage, asyncTestCaseStorage } from '@/services/storage';
 import {
   calculateRunAggregates,
   buildTestCaseComparisonRows,
@@ -36,7 +37,11 @@ import {
   RowStatus,
 } from '@/services/comparisonService';
 import { fetchBatchMetrics } from '@/services/metrics';
-import { Category, Benchmark, BenchmarkRun, EvaluationReport, RunAggregateMetrics, TestCaseComparisonRow, TraceMetrics } from '@/types';
+import { getReportIdsFromRun } from '@/lib/runStats';
+import { runPairwiseComparison } from '@/services/evaluation/pairwiseJudge';
+import { summarizePairwise } from '@/lib/pairwiseJudge';
+import { DEFAULT_CONFIG } from '@/lib/constants';
+import { Category, Benchmark, BenchmarkRun, EvaluationReport, PairwiseComparisonRow, RunAggregateMetrics, TestCaseComparisonRow, TraceMetrics } from '@/types';
 
 type StatusFilter = 'all' | 'passed' | 'failed' | 'mixed';
 
@@ -63,6 +68,12 @@ export const ComparisonPage: React.FC = () => {
   // State for baseline selection
   const [baselineRunId, setBaselineRunId] = useState<string>('');
 
+  // State for the pairwise judge (candidate run vs baseline)
+  const [pairwiseCandidateId, setPairwiseCandidateId] = useState<string>('');
+  const [pairwiseJudgeModelId, setPairwiseJudgeModelId] = useState<string>(Object.keys(DEFAULT_CONFIG.models)[0] || '');
+  const [pairwiseRows, setPairwiseRows] = useState<PairwiseComparisonRow[]>([]);
+  const [isPairwiseRunning, setIsPairwiseRunning] = useState(false);
+
   // Load benchmark data
   useEffect(() => {
     const loadBenchmark = async () => {
@@ -83,11 +94,7 @@ export const ComparisonPage: React.FC = () => {
       // where benchmark is set but reports are still empty
       const reportIds = new Set<string>();
       runs.forEach(run => {
-        Object.values(run.results || {}).forEach(result => {
-          if (result.reportId) {
-            reportIds.add(result.reportId);
-          }
-        });
+        getReportIdsFromRun(run).forEach(reportId => reportIds.add(reportId));
       });
 
       const reportsMap: Record<string, EvaluationReport> = {};
@@ -105,9 +112,13 @@ export const ComparisonPage: React.FC = () => {
       setAllRuns(runs);
       setReports(reportsMap);
 
-      // Initialize selected runs from URL or default to all
+      // Initialize selected runs from URL (a run list or a matrix's cells) or default to all
       const urlRunIds = searchParams.get('runs')?.split(',').filter(Boolean) || [];
-      if (urlRunIds.length > 0) {
+      const matrixId = searchParams.get('matrix');
+      const matrixRunIds = matrixId ? runs.filter(r => r.matrixId === matrixId).map(r => r.id) : [];
+      if (matrixRunIds.length > 0) {
+        setSelectedRunIds(matrixRunIds);
+      } else if (urlRunIds.length > 0) {
         // Filter to only valid run IDs
         const validRunIds = urlRunIds.filter(id => runs.some(r => r.id === id));
         setSelectedRunIds(validRunIds.length > 0 ? validRunIds : runs.map(r => r.id));
@@ -235,6 +246,46 @@ export const ComparisonPage: React.FC = () => {
     }
   }, [selectedRunIds, baselineRunId]);
 
+  // Keep the pairwise candidate a selected, non-baseline run; results are for one pair only
+  useEffect(() => {
+    const candidates = selectedRunIds.filter(id => id !== baselineRunId);
+    if (!candidates.includes(pairwiseCandidateId)) {
+      setPairwiseCandidateId(candidates[0] || '');
+    }
+  }, [selectedRunIds, baselineRunId, pairwiseCandidateId]);
+
+  useEffect(() => {
+    setPairwiseRows([]);
+  }, [baselineRunId, pairwiseCandidateId]);
+
+  const pairwiseBaselineRun = allRuns.find(r => r.id === baselineRunId);
+  const pairwiseCandidateRun = allRuns.find(r => r.id === pairwiseCandidateId);
+
+  const pairwiseSummary = useMemo(() => summarizePairwise(pairwiseRows), [pairwiseRows]);
+
+  const handleRunPairwise = async () => {
+    if (!pairwiseBaselineRun || !pairwiseCandidateRun) return;
+
+    setIsPairwiseRunning(true);
+    setPairwiseRows([]);
+    try {
+      const testCaseIds = Object.keys(pairwiseBaselineRun.results || {});
+      const testCases = await asyncTestCaseStorage.getByIds(testCaseIds);
+      await runPairwiseComparison({
+        baselineRun: pairwiseBaselineRun,
+        candidateRun: pairwiseCandidateRun,
+        reports,
+        testCases,
+        modelId: pairwiseJudgeModelId,
+        onProgress: setPairwiseRows,
+      });
+    } catch (error) {
+      console.error('[ComparisonPage] Pairwise judge failed:', error);
+    } finally {
+      setIsPairwiseRunning(false);
+    }
+  };
+
   // Count rows by status for summary banner
   const rowStatusCounts = useMemo(() => {
     return countRowsByStatus(allComparisonRows, baselineRunId);
@@ -320,7 +371,7 @@ export const ComparisonPage: React.FC = () => {
             {selectedRunIds.length >= 2 && (
               <div className="flex items-center gap-2">
                 <Label className="text-sm text-muted-foreground">Baseline:</Label>
-                <Select value={baselineRunId} onValueChange={setBaselineRunId}>
+                <Select value={baselineRunId} onValueChange={setBaselineRunId} disabled={isPairwiseRunning}>
                   <SelectTrigger className="w-40 h-8">
                     <SelectValue placeholder="Select baseline" />
                   </SelectTrigger>
@@ -389,11 +440,31 @@ export const ComparisonPage: React.FC = () => {
             </div>
           </section>
 
+          {/* Head-to-head pairwise judge */}
+          <PairwiseComparisonSection
+            runs={selectedRuns}
+            baselineRunId={baselineRunId}
+            candidateRunId={pairwiseCandidateId}
+            onCandidateChange={setPairwiseCandidateId}
+            judgeModelId={pairwiseJudgeModelId}
+            onJudgeModelChange={setPairwiseJudgeModelId}
+            rows={pairwiseRows}
+            isRunning={isPairwiseRunning}
+            totalCount={Object.keys(pairwiseBaselineRun?.results || {})
+              .filter(id => pairwiseCandidateRun?.results?.[id]).length}
+            onRun={handleRunPairwise}
+          />
+
           {/* Summary Banner with regression/improvement counts */}
           <ComparisonSummaryBanner
             counts={rowStatusCounts}
             onFilterClick={(status) => setRowStatusFilter(status)}
             activeFilter={rowStatusFilter}
+            pairwise={pairwiseBaselineRun && pairwiseCandidateRun ? {
+              summary: pairwiseSummary,
+              candidateName: pairwiseCandidateRun.name,
+              baselineName: pairwiseBaselineRun.name,
+            } : undefined}
           />
 
           {/* Per Use Case Comparison */}
@@ -6,19 +6,27 @@
 import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { TrendingDown, TrendingUp, ArrowRightLeft, Minus } from 'lucide-react';
+import { TrendingDown, TrendingUp, ArrowRightLeft, Minus, Scale } from 'lucide-react';
 import { RowStatus } from '@/services/comparisonService';
+import { PairwiseSummary } from '@/types';
 
 interface ComparisonSummaryBannerProps {
   counts: Record<RowStatus, number>;
   onFilterClick?: (status: RowStatus | 'all') => void;
   activeFilter?: RowStatus | 'all';
+  /** Head-to-head result of the pairwise judge (candidate vs baseline) */
+  pairwise?: {
+    summary: PairwiseSummary;
+    candidateName: string;
+    baselineName: string;
+  };
 }
 
 export const ComparisonSummaryBanner: React.FC<ComparisonSummaryBannerProps> = ({
   counts,
   onFilterClick,
   activeFilter = 'all',
+  pairwise,
 }) => {
   const total = counts.regression + counts.improvement + counts.mixed + counts.neutral;
 
@@ -107,6 +115,23 @@ export const ComparisonSummaryBanner: React.FC<ComparisonSummaryBannerProps> = (
             ))}
           </div>
         </div>
+        {pairwise && pairwise.summary.total > 0 && (
+          <div
+            className="flex items-center gap-3 mt-3 pt-3 border-t border-border text-xs"
+            data-testid="pairwise-summary"
+          >
+            <Scale size={14} className="text-primary" />
+            <span className="font-medium">
+              {pairwise.candidateName} vs {pairwise.baselineName}
+            </span>
+            <span className="text-opensearch-blue">{pairwise.summary.wins} wins</span>
+            <span className="text-muted-foreground">{pairwise.summary.ties} ties</span>
+            <span className="text-red-400">{pairwise.summary.losses} losses</span>
+            <Badge variant="outline" className="text-xs">
+              {Math.round(pairwise.summary.winRate * 100)}% win rate
+            </Badge>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
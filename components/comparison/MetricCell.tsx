@@ -69,6 +69,13 @@ export const MetricCell: React.FC<MetricCellProps> = ({
         )}
       </div>
 
+      {/* PPL match (only for test cases with expectedPPL) */}
+      {result.pplMatch !== undefined && (
+        <div className="text-xs mt-0.5">
+          <span className="text-muted-foreground">PPL: </span>
+          <span className="font-medium">{result.pplMatch}%</span>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,201 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronDown, ChevronRight, Loader2, Scale } from 'lucide-react';
+import { BenchmarkRun, PairwiseComparisonRow, PairwiseOutcome } from '@/types';
+import { cn } from '@/lib/utils';
+import { DEFAULT_CONFIG } from '@/lib/constants';
+
+interface PairwiseComparisonSectionProps {
+  runs: BenchmarkRun[];
+  baselineRunId: string;
+  candidateRunId: string;
+  onCandidateChange: (runId: string) => void;
+  judgeModelId: string;
+  onJudgeModelChange: (modelId: string) => void;
+  rows: PairwiseComparisonRow[];
+  isRunning: boolean;
+  /** Number of test cases being judged (for progress) */
+  totalCount: number;
+  onRun: () => void;
+}
+
+const outcomeStyles: Record<PairwiseOutcome, { label: string; className: string }> = {
+  win: { label: 'Win', className: 'bg-opensearch-blue/10 text-opensearch-blue border-opensearch-blue/30' },
+  tie: { label: 'Tie', className: 'bg-muted/50 text-muted-foreground border-muted' },
+  loss: { label: 'Loss', className: 'bg-red-500/10 text-red-400 border-red-500/30' },
+};
+
+export const PairwiseComparisonSection: React.FC<PairwiseComparisonSectionProps> = ({
+  runs,
+  baselineRunId,
+  candidateRunId,
+  onCandidateChange,
+  judgeModelId,
+  onJudgeModelChange,
+  rows,
+  isRunning,
+  totalCount,
+  onRun,
+}) => {
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  const baselineRun = runs.find(r => r.id === baselineRunId);
+  const candidates = runs.filter(r => r.id !== baselineRunId);
+
+  const toggleRow = (testCaseId: string) => {
+    setExpandedRows((prev) => {
+      const next = new Set(prev);
+      if (next.has(testCaseId)) {
+        next.delete(testCaseId);
+      } else {
+        next.add(testCaseId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Card data-testid="pairwise-comparison">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <Scale size={16} className="text-primary" />
+              Pairwise Judge
+            </CardTitle>
+            <p className="text-xs text-muted-foreground mt-1">
+              The judge sees both trajectories for each test case, in both orders, and picks the better one.
+              Results are from the candidate's side against {baselineRun?.name || 'the baseline'}.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label className="text-sm text-muted-foreground">Candidate:</Label>
+            <Select value={candidateRunId} onValueChange={onCandidateChange} disabled={isRunning}>
+              <SelectTrigger className="w-40 h-8">
+                <SelectValue placeholder="Select run" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((run) => (
+                  <SelectItem key={run.id} value={run.id}>
+                    {run.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Label className="text-sm text-muted-foreground">Judge:</Label>
+            <Select value={judgeModelId} onValueChange={onJudgeModelChange} disabled={isRunning}>
+              <SelectTrigger className="w-48 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DEFAULT_CONFIG.models).map(([key, model]) => (
+                  <SelectItem key={key} value={key}>
+                    {model.display_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={onRun} disabled={isRunning || !candidateRunId}>
+              {isRunning ? (
+                <>
+                  <Loader2 size={14} className="mr-1 animate-spin" />
+                  Judging {rows.length}/{totalCount}
+                </>
+              ) : (
+                rows.length > 0 ? 'Re-run' : 'Run'
+              )}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      {rows.length > 0 && (
+        <CardContent>
+          <div className="rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-72">Use Case</TableHead>
+                  <TableHead className="w-24 text-center">Result</TableHead>
+                  <TableHead>Verdict</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => {
+                  const isExpanded = expandedRows.has(row.testCaseId);
+                  const outcome = row.outcome ? outcomeStyles[row.outcome] : undefined;
+
+                  return (
+                    <React.Fragment key={row.testCaseId}>
+                      <TableRow
+                        className={cn('hover:bg-muted/50 transition-colors', row.judgment && 'cursor-pointer')}
+                        onClick={() => row.judgment && toggleRow(row.testCaseId)}
+                      >
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <div className="flex-shrink-0 text-muted-foreground w-4">
+                              {row.judgment && (isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />)}
+                            </div>
+                            <span className="font-medium truncate max-w-56">{row.testCaseName}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {outcome ? (
+                            <Badge variant="outline" className={cn('text-xs', outcome.className)}>
+                              {outcome.label}
+                            </Badge>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {row.error ? (
+                            <span className="text-amber-400">{row.error}</span>
+                          ) : row.judgment?.consistent ? (
+                            'Same winner in both orders'
+                          ) : (
+                            'Winner changed with the order (counted as a tie)'
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && row.judgment && (
+                        <TableRow>
+                          <TableCell colSpan={3} className="bg-background">
+                            <p className="text-xs text-muted-foreground bg-muted/30 p-2 rounded leading-relaxed whitespace-pre-wrap break-words">
+                              {row.judgment.reasoning}
+                            </p>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
@@ -129,6 +129,28 @@ export const RunSummaryCards: React.FC<RunSummaryCardsProps> = ({
                 <span className="font-medium">{run.avgAccuracy}%</span>
               </div>
 
+              {/* Iteration metrics (runs with iterations > 1) */}
+              {run.iterations !== undefined && (
+                <div className="pt-2 border-t border-border space-y-1 text-xs">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Pass@{run.iterations} / Pass^{run.iterations}</span>
+                    <span className="font-medium">
+                      {run.passAtK ?? '—'}% / {run.passHatK ?? '—'}%
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Accuracy σ</span>
+                    <span className="font-medium">{run.avgAccuracyStddev ?? '—'}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Flaky test cases</span>
+                    <span className={cn('font-medium', (run.flakyTestCases ?? 0) > 0 && 'text-amber-400')}>
+                      {run.flakyTestCases ?? 0}
+                    </span>
+                  </div>
+                </div>
+              )}
+
               {/* Trace metrics with progress bars */}
               {hasTraceMetrics && run.totalTokens !== undefined && (
                 <div className="pt-2 border-t border-border space-y-1.5">
@@ -7,6 +7,7 @@ export { ComparisonPage } from './ComparisonPage';
 export { RunSummaryCards } from './RunSummaryCards';
 export { AggregateMetricsTable } from './AggregateMetricsTable';
 export { UseCaseComparisonTable } from './UseCaseComparisonTable';
+export { PairwiseComparisonSection } from './PairwiseComparisonSection';
 export { MetricCell } from './MetricCell';
 export { VersionIndicator } from './VersionIndicator';
 export { UseCaseExpandedRow } from './UseCaseExpandedRow';
@@ -8,9 +8,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { ChevronDown, ChevronRight, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
-import { EvaluationReport, BenchmarkRun, ImprovementStrategy } from '@/types';
+import { ChevronDown, ChevronRight, CheckCircle2, XCircle, AlertTriangle, Users } from 'lucide-react';
+import { EvaluationReport, BenchmarkRun, ImprovementStrategy, LLMJudgeResponse } from '@/types';
 import { cn } from '@/lib/utils';
+import { isLowAgreement } from '@/lib/judgeEnsemble';
 
 interface JudgeSectionProps {
   runs: BenchmarkRun[];
@@ -44,6 +45,26 @@ const ImprovementItem: React.FC<{ strategy: ImprovementStrategy }> = ({ strategy
   );
 };
 
+const EnsembleJudgeItem: React.FC<{ response: LLMJudgeResponse; index: number }> = ({ response, index }) => {
+  const isPassed = response.passFailStatus === 'passed';
+  return (
+    <div className="flex items-center justify-between gap-2 text-xs">
+      <span className="truncate text-muted-foreground" title={response.modelId}>
+        {index + 1}. {response.modelId}
+      </span>
+      <span className="flex items-center gap-2 flex-shrink-0">
+        {response.parsedMetrics && (
+          <span className="text-muted-foreground">{response.parsedMetrics.accuracy}%</span>
+        )}
+        <span className={cn('flex items-center gap-1', isPassed ? 'text-opensearch-blue' : 'text-red-400')}>
+          {isPassed ? <CheckCircle2 size={12} /> : <XCircle size={12} />}
+          {isPassed ? 'PASSED' : 'FAILED'}
+        </span>
+      </span>
+    </div>
+  );
+};
+
 const RunJudgeCard: React.FC<{
   run: BenchmarkRun;
   report: EvaluationReport | null;
@@ -65,6 +86,8 @@ const RunJudgeCard: React.FC<{
 
   const isPassed = report.passFailStatus === 'passed';
   const improvements = report.improvementStrategies || [];
+  const judgeResponses = report.judgeResponses || [];
+  const lowAgreement = isLowAgreement(report.judgeAgreement);
 
   // Sort improvements by priority
   const sortedImprovements = [...improvements].sort((a, b) => {
@@ -96,9 +119,39 @@ const RunJudgeCard: React.FC<{
           <span className="text-xs text-muted-foreground">
             Accuracy: {report.metrics.accuracy}%
           </span>
+          {lowAgreement && (
+            <Badge
+              variant="outline"
+              className="text-xs bg-amber-500/10 text-amber-400 border-amber-500/30"
+              title="Judges disagreed on this test case - review it manually"
+            >
+              <span className="flex items-center gap-1">
+                <AlertTriangle size={12} />
+                Low agreement: {Math.round(report.judgeAgreement! * 100)}% — needs review
+              </span>
+            </Badge>
+          )}
         </div>
       </CardHeader>
       <CardContent className="space-y-3">
+        {/* Judge ensemble */}
+        {judgeResponses.length > 0 && (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2 mb-1">
+              <Users size={14} className="text-muted-foreground" />
+              <span className="text-xs font-medium">Judges</span>
+              {report.judgeAgreement !== undefined && (
+                <Badge variant="outline" className="text-xs">
+                  {Math.round(report.judgeAgreement * 100)}% agreement
+                </Badge>
+              )}
+            </div>
+            {judgeResponses.map((response, index) => (
+              <EnsembleJudgeItem key={index} response={response} index={index} />
+            ))}
+          </div>
+        )}
+
         {/* Reasoning */}
         <Collapsible open={reasoningOpen} onOpenChange={setReasoningOpen}>
           <CollapsibleTrigger className="w-full">
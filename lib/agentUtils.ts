@@ -9,7 +9,7 @@ import { AgentConfig, ConnectorProtocol } from '@/types';
  * Browser-safe connector types that work via HTTP/fetch APIs.
  * These connectors can run evaluations directly from the UI.
  */
-const BROWSER_SAFE_CONNECTORS: ConnectorProtocol[] = ['agui-streaming', 'rest', 'mock'];
+const BROWSER_SAFE_CONNECTORS: ConnectorProtocol[] = ['agui-streaming', 'rest', 'mock', 'openai-chat'];
 
 /**
  * Determines if an agent can be run from the browser UI.
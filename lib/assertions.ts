@@ -0,0 +1,374 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Deterministic Assertions
+ * Rule-based checks evaluated against a run's trajectory alongside (or instead of)
+ * the LLM judge. Pure functions only - safe to use from browser, server, and CLI.
+ */
+
+import type {
+  AssertionResult,
+  EvaluationMetrics,
+  ImprovementStrategy,
+  PassFailStatus,
+  TestCase,
+  TestCaseAssertion,
+  TrajectoryStep,
+} from '@/types';
+
+export interface AssertionContext {
+  /** Total agent execution time; falls back to the trajectory timestamp span */
+  durationMs?: number;
+}
+
+interface ToolCall {
+  action: TrajectoryStep;
+  output?: any;
+}
+
+// ==================== Trajectory Helpers ====================
+
+/**
+ * Parse tool output that may be serialized JSON
+ */
+function parseToolOutput(value: any): any {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Pair each tool call (action step) with its result.
+ * Most connectors emit tool_result steps without a toolName, immediately after
+ * the matching action, so unnamed results are matched to the oldest pending call.
+ */
+export function collectToolCalls(trajectory: TrajectoryStep[]): ToolCall[] {
+  const calls: ToolCall[] = [];
+  const pending: ToolCall[] = [];
+
+  for (const step of trajectory) {
+    if (step.type === 'action' && step.toolName) {
+      const call: ToolCall = { action: step };
+      calls.push(call);
+      if (step.toolOutput !== undefined) {
+        call.output = parseToolOutput(step.toolOutput);
+      } else {
+        pending.push(call);
+      }
+    } else if (step.type === 'tool_result') {
+      const index = step.toolName
+        ? pending.findIndex(c => c.action.toolName === step.toolName)
+        : 0;
+      if (index === -1 || pending.length === 0) continue;
+      const [call] = pending.splice(index, 1);
+      call.output = parseToolOutput(step.toolOutput ?? step.content);
+    }
+  }
+
+  return calls;
+}
+
+/**
+ * Final agent answer: the last 'response' step, or the last 'assistant' step
+ */
+export function getFinalResponse(trajectory: TrajectoryStep[]): string | undefined {
+  for (const type of ['response', 'assistant'] as const) {
+    const step = [...trajectory].reverse().find(s => s.type === type);
+    if (step) return step.content;
+  }
+  return undefined;
+}
+
+function getDurationMs(trajectory: TrajectoryStep[], context: AssertionContext): number | undefined {
+  if (context.durationMs !== undefined) return context.durationMs;
+  if (trajectory.length < 2) return undefined;
+  return trajectory[trajectory.length - 1].timestamp - trajectory[0].timestamp;
+}
+
+/**
+ * Partial deep equality: every key in `expected` must match in `actual`
+ */
+export function matchesPartial(actual: any, expected: any): boolean {
+  if (expected === null || typeof expected !== 'object') {
+    return actual === expected;
+  }
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual)
+      && actual.length === expected.length
+      && expected.every((item, i) => matchesPartial(actual[i], item));
+  }
+  if (actual === null || typeof actual !== 'object') return false;
+  return Object.keys(expected).every(key => matchesPartial(actual[key], expected[key]));
+}
+
+// ==================== JSON Schema ====================
+
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: any, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Validate a value against a JSON Schema subset
+ * Supports: type, enum, const, required, properties, additionalProperties (boolean),
+ * items, minItems/maxItems, minLength/maxLength, pattern, minimum/maximum
+ * @returns List of violations (empty when valid)
+ */
+export function validateJsonSchema(value: any, schema: Record<string, any>, path = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      return [`${path}: expected ${types.join(' | ')}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option: any) => matchesPartial(value, option) && matchesPartial(option, value))) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if ('const' in schema && !(matchesPartial(value, schema.const) && matchesPartial(schema.const, value))) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: does not match /${schema.pattern}/`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: less than ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: greater than ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: fewer than ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: more than ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items, `${path}[${i}]`)));
+    }
+  } else if (value !== null && typeof value === 'object') {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) {
+        errors.push(`${path}: missing required property '${key}'`);
+      }
+    }
+    const properties: Record<string, any> = schema.properties ?? {};
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      if (key in value) {
+        errors.push(...validateJsonSchema(value[key], propertySchema, `${path}.${key}`));
+      }
+    }
+    if (schema.additionalProperties === false) {
+      for (const key of Object.keys(value)) {
+        if (!(key in properties)) {
+          errors.push(`${path}: unexpected property '${key}'`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+// ==================== Evaluation ====================
+
+function evaluateAssertion(
+  assertion: TestCaseAssertion,
+  trajectory: TrajectoryStep[],
+  toolCalls: ToolCall[],
+  context: AssertionContext
+): { passed: boolean; message: string } {
+  switch (assertion.type) {
+    case 'tool-called': {
+      const minCalls = assertion.minCalls ?? 1;
+      const count = toolCalls.filter(c => c.action.toolName === assertion.tool).length;
+      return {
+        passed: count >= minCalls,
+        message: `'${assertion.tool}' called ${count} time(s) (expected at least ${minCalls})`,
+      };
+    }
+
+    case 'tool-not-called': {
+      const count = toolCalls.filter(c => c.action.toolName === assertion.tool).length;
+      return {
+        passed: count === 0,
+        message: count === 0
+          ? `'${assertion.tool}' was not called`
+          : `'${assertion.tool}' was called ${count} time(s)`,
+      };
+    }
+
+    case 'tool-args-match': {
+      const calls = toolCalls.filter(c => c.action.toolName === assertion.tool);
+      if (calls.length === 0) {
+        return { passed: false, message: `'${assertion.tool}' was never called` };
+      }
+      const passed = calls.some(c => matchesPartial(c.action.toolArgs ?? {}, assertion.args));
+      return {
+        passed,
+        message: passed
+          ? `'${assertion.tool}' called with matching arguments`
+          : `No call to '${assertion.tool}' matched ${JSON.stringify(assertion.args)}`,
+      };
+    }
+
+    case 'response-regex': {
+      const response = getFinalResponse(trajectory);
+      if (response === undefined) {
+        return { passed: false, message: 'Agent produced no final response' };
+      }
+      let regex: RegExp;
+      try {
+        regex = new RegExp(assertion.pattern, assertion.flags);
+      } catch (error) {
+        return { passed: false, message: `Invalid pattern: ${error instanceof Error ? error.message : error}` };
+      }
+      const matched = regex.test(response);
+      const passed = assertion.negate ? !matched : matched;
+      return {
+        passed,
+        message: `Response ${matched ? 'matches' : 'does not match'} /${assertion.pattern}/${assertion.flags ?? ''}`,
+      };
+    }
+
+    case 'max-steps': {
+      const steps = assertion.stepType
+        ? trajectory.filter(s => s.type === assertion.stepType)
+        : trajectory;
+      const label = assertion.stepType ? `${assertion.stepType} steps` : 'steps';
+      return {
+        passed: steps.length <= assertion.max,
+        message: `${steps.length} ${label} (max ${assertion.max})`,
+      };
+    }
+
+    case 'max-latency': {
+      const durationMs = getDurationMs(trajectory, context);
+      if (durationMs === undefined) {
+        return { passed: false, message: 'Run duration unavailable' };
+      }
+      return {
+        passed: durationMs <= assertion.maxMs,
+        message: `Run took ${durationMs}ms (max ${assertion.maxMs}ms)`,
+      };
+    }
+
+    case 'json-schema': {
+      const calls = toolCalls.filter(c => c.action.toolName === assertion.tool);
+      const outputs = calls.filter(c => c.output !== undefined);
+      if (outputs.length === 0) {
+        return { passed: false, message: `No output captured for '${assertion.tool}'` };
+      }
+      const errors = outputs.flatMap(c => validateJsonSchema(c.output, assertion.schema));
+      return {
+        passed: errors.length === 0,
+        message: errors.length === 0
+          ? `${outputs.length} output(s) of '${assertion.tool}' match the schema`
+          : errors.slice(0, 5).join('; '),
+      };
+    }
+
+    default:
+      return { passed: false, message: `Unknown assertion type '${(assertion as any).type}'` };
+  }
+}
+
+/**
+ * Evaluate all assertions of a test case against a trajectory
+ */
+export function evaluateAssertions(
+  assertions: TestCaseAssertion[],
+  trajectory: TrajectoryStep[],
+  context: AssertionContext = {}
+): AssertionResult[] {
+  const toolCalls = collectToolCalls(trajectory);
+  return assertions.map(assertion => ({
+    assertion,
+    ...evaluateAssertion(assertion, trajectory, toolCalls, context),
+  }));
+}
+
+/**
+ * True when an 'error'-severity assertion failed (warnings never fail a run)
+ */
+export function hasAssertionFailure(results: AssertionResult[] | undefined): boolean {
+  return (results ?? []).some(r => !r.passed && (r.assertion.severity ?? 'error') === 'error');
+}
+
+/**
+ * Combine the judge's verdict with assertion results.
+ * A failed error-severity assertion hard-fails the run regardless of judge accuracy.
+ */
+export function applyAssertionResults(
+  passFailStatus: PassFailStatus,
+  results: AssertionResult[] | undefined
+): PassFailStatus {
+  return hasAssertionFailure(results) ? 'failed' : passFailStatus;
+}
+
+/**
+ * Whether a test case has anything for the LLM judge to evaluate.
+ * Test cases with only assertions skip the judge entirely.
+ */
+export function hasJudgeCriteria(
+  testCase: Pick<TestCase, 'expectedOutcomes' | 'expectedTrajectory'>
+): boolean {
+  return (testCase.expectedOutcomes ?? []).some(o => o.trim().length > 0)
+    || (testCase.expectedTrajectory?.length ?? 0) > 0;
+}
+
+/**
+ * Build a judge-shaped result from assertions alone (used when the judge is skipped)
+ * Accuracy is the percentage of assertions that passed.
+ */
+export function buildAssertionJudgment(results: AssertionResult[]): {
+  passFailStatus: PassFailStatus;
+  metrics: EvaluationMetrics;
+  llmJudgeReasoning: string;
+  improvementStrategies: ImprovementStrategy[];
+} {
+  const passedCount = results.filter(r => r.passed).length;
+  const accuracy = results.length > 0 ? Math.round((passedCount / results.length) * 100) : 0;
+  const failures = results.filter(r => !r.passed);
+
+  const lines = [`Evaluated by assertions only: ${passedCount}/${results.length} passed.`];
+  for (const failure of failures) {
+    lines.push(`- ${failure.assertion.description || failure.assertion.type}: ${failure.message}`);
+  }
+
+  return {
+    passFailStatus: hasAssertionFailure(results) ? 'failed' : 'passed',
+    metrics: { accuracy },
+    llmJudgeReasoning: lines.join('\n'),
+    improvementStrategies: [],
+  };
+}
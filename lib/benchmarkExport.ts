@@ -27,6 +27,18 @@ export function convertTestCasesToExportFormat(testCases: TestCase[]): Validated
       exported.subcategory = tc.subcategory;
     }
 
+    if (tc.assertions && tc.assertions.length > 0) {
+      exported.assertions = tc.assertions;
+    }
+
+    if (tc.followUpQuestions && tc.followUpQuestions.length > 0) {
+      exported.followUpQuestions = tc.followUpQuestions;
+    }
+
+    if (tc.rubric) {
+      exported.rubric = tc.rubric;
+    }
+
     return exported;
   });
 }
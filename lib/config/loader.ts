@@ -13,6 +13,7 @@ import { resolve, join } from 'path';
 import { pathToFileURL } from 'url';
 import type { AgentConfig, ModelConfig } from '@/types';
 import type { AgentConnector } from '@/services/connectors/types';
+import type { JudgeProvider } from '@/services/judges/types';
 import { DEFAULT_CONFIG } from '@/lib/constants';
 import type {
   UserConfig,
@@ -73,6 +74,7 @@ function toAgentConfig(userAgent: UserAgentConfig): AgentConfig {
     useTraces: userAgent.useTraces ?? false,
     connectorType: userAgent.connectorType,
     connectorConfig: userAgent.connectorConfig,
+    auth: userAgent.auth,
     hooks: userAgent.hooks,
   };
 }
@@ -89,6 +91,7 @@ function toModelConfig(userModel: UserModelConfig): [string, ModelConfig] {
       provider: userModel.provider ?? 'bedrock',
       context_window: userModel.context_window ?? 200000,
       max_output_tokens: userModel.max_output_tokens ?? 4096,
+      ...(userModel.base_url && { base_url: userModel.base_url }),
     },
   ];
 }
@@ -138,6 +141,9 @@ function mergeConfigs(
   // Connectors (always additive)
   const connectors: AgentConnector[] = userConfig.connectors ?? [];
 
+  // Judges (always additive)
+  const judges: JudgeProvider[] = userConfig.judges ?? [];
+
   // Test cases
   const testCases: string[] = userConfig.testCases
     ? Array.isArray(userConfig.testCases)
@@ -160,14 +166,22 @@ function mergeConfigs(
     ...userConfig.server,
   };
 
+  // Execution defaults (merge user overrides with defaults)
+  const defaults = {
+    ...defaultConfig.defaults,
+    ...userConfig.defaults,
+  };
+
   return {
     server,
     agents,
     models,
     connectors,
+    judges,
     testCases,
     reporters,
     judge,
+    defaults,
   };
 }
 
@@ -251,9 +265,11 @@ export function loadConfigSync(cwd: string = process.cwd()): ResolvedConfig {
     agents: DEFAULT_CONFIG.agents as AgentConfig[],
     models: DEFAULT_CONFIG.models,
     connectors: [],
+    judges: [],
     testCases: [],
     reporters: [['console']],
     judge: { provider: 'bedrock', model: 'claude-sonnet-4' },
+    defaults: DEFAULT_CONFIG.defaults,
   };
 }
 
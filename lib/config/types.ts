@@ -8,8 +8,9 @@
  * Type definitions for agent-health.config.ts files
  */
 
-import type { AgentConfig, ModelConfig, ConnectorProtocol, AgentHooks } from '@/types/index.js';
-import type { AgentConnector } from '@/services/connectors/types.js';
+import type { AgentConfig, AppConfig, ModelConfig, ConnectorProtocol, AgentHooks, JudgeProviderType, JudgeEnsembleConfig } from '@/types/index.js';
+import type { AgentConnector, ConnectorAuth } from '@/services/connectors/types.js';
+import type { JudgeProvider } from '@/services/judges/types.js';
 
 /**
  * Agent configuration for user config files
@@ -26,6 +27,7 @@ export interface UserAgentConfig {
   useTraces?: boolean;
   connectorType?: ConnectorProtocol;
   connectorConfig?: Record<string, any>;
+  auth?: ConnectorAuth;
   hooks?: AgentHooks;
 }
 
@@ -36,9 +38,10 @@ export interface UserModelConfig {
   key: string;
   model_id: string;
   display_name: string;
-  provider?: 'bedrock' | 'demo' | 'ollama' | 'openai';
+  provider?: JudgeProviderType;
   context_window?: number;
   max_output_tokens?: number;
+  base_url?: string;
 }
 
 /**
@@ -54,9 +57,11 @@ export type ReporterConfig =
  * Judge configuration
  */
 export interface JudgeConfig {
-  provider?: 'bedrock' | 'demo' | 'ollama' | 'openai';
+  provider?: JudgeProviderType;
   model?: string;
   region?: string;
+  /** Default judge ensemble for benchmark runs that don't set their own */
+  ensemble?: JudgeEnsembleConfig;
 }
 
 /**
@@ -111,6 +116,13 @@ export interface UserConfig {
    */
   connectors?: AgentConnector[];
 
+  /**
+   * Custom judge providers to register
+   * Users can provide instances implementing JudgeProvider; models whose
+   * provider matches a judge's type are evaluated by that judge
+   */
+  judges?: JudgeProvider[];
+
   /**
    * Agent configurations
    * Can include custom agents or override built-in agents
@@ -139,6 +151,12 @@ export interface UserConfig {
    */
   judge?: JudgeConfig;
 
+  /**
+   * Agent execution defaults: retries of failed agent calls and the
+   * per-test-case timeout. Unset fields keep the built-in defaults.
+   */
+  defaults?: Partial<AppConfig['defaults']>;
+
   /**
    * Whether to extend default config or replace entirely
    * Default: true (extends)
@@ -154,9 +172,11 @@ export interface ResolvedConfig {
   agents: AgentConfig[];
   models: Record<string, ModelConfig>;
   connectors: AgentConnector[];
+  judges: JudgeProvider[];
   testCases: string[];
   reporters: ReporterConfig[];
   judge: JudgeConfig;
+  defaults: AppConfig['defaults'];
 }
 
 /**
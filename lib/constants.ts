@@ -136,7 +136,8 @@ export const DEFAULT_CONFIG: AppConfig = {
   },
   defaults: {
     retry_attempts: 2,
-    retry_delay_ms: 1000
+    retry_delay_ms: 1000,
+    timeout_ms: 600000
   }
 };
 
@@ -0,0 +1,87 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Multi-turn Conversations
+ * Helpers for driving a test case's followUpQuestions after the initial prompt.
+ * Pure functions only - safe to use from browser, server, and CLI.
+ */
+
+import { ToolCallStatus } from '@/types';
+import type {
+  ConversationTurn,
+  FollowUpQuestion,
+  PassFailStatus,
+  TestCase,
+  TrajectoryStep,
+  TurnOutcome,
+} from '@/types';
+import { getFinalResponse } from '@/lib/assertions';
+
+/**
+ * Classify a turn for follow-up trigger matching
+ * A failed tool call or a missing reply counts as an error.
+ */
+export function classifyTurnOutcome(trajectory: TrajectoryStep[]): TurnOutcome {
+  const hasFailedTool = trajectory.some(step => step.status === ToolCallStatus.FAILURE);
+  const reply = getFinalResponse(trajectory);
+  return hasFailedTool || !reply?.trim() ? 'error' : 'results_available';
+}
+
+/**
+ * Pick the next follow-up to send after a turn
+ * Follow-ups fire in order, at most once each, when their trigger matches the
+ * previous turn's outcome (or is 'always').
+ * @returns index into followUps, or -1 when the conversation is over
+ */
+export function selectFollowUp(
+  followUps: FollowUpQuestion[],
+  outcome: TurnOutcome,
+  used: ReadonlySet<number>
+): number {
+  return followUps.findIndex(
+    (followUp, index) => !used.has(index) && (followUp.trigger === 'always' || followUp.trigger === outcome)
+  );
+}
+
+/**
+ * The agent's reply for a turn, added to the conversation history
+ */
+export function getTurnReply(trajectory: TrajectoryStep[]): string {
+  return getFinalResponse(trajectory) ?? '';
+}
+
+/**
+ * Judging criteria for a follow-up turn: the question must be answered and,
+ * when given, its business value delivered. Test case assertions, expectedPPL
+ * and the rubric only apply to the initial prompt and the whole conversation.
+ */
+export function buildFollowUpTestCase(testCase: TestCase, followUp: FollowUpQuestion): TestCase {
+  const expectedOutcomes = [`Answers the follow-up question: "${followUp.question}"`];
+  if (followUp.businessValue?.trim()) {
+    expectedOutcomes.push(followUp.businessValue);
+  }
+
+  return {
+    ...testCase,
+    initialPrompt: followUp.question,
+    expectedOutcomes,
+    expectedTrajectory: undefined,
+    expectedPPL: undefined,
+    assertions: undefined,
+    rubric: undefined,
+  };
+}
+
+/**
+ * Overall verdict for a multi-turn run: the whole-conversation verdict,
+ * downgraded to failed when any judged turn failed
+ */
+export function combineTurnStatus(
+  conversationStatus: PassFailStatus,
+  turns: ConversationTurn[]
+): PassFailStatus {
+  return turns.some(turn => turn.passFailStatus === 'failed') ? 'failed' : conversationStatus;
+}
@@ -0,0 +1,206 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Cron Expressions
+ * Parses standard 5-field cron expressions (minute hour day-of-month month
+ * day-of-week) and computes their fire times in local time.
+ * Pure functions only - safe to use from browser, server, and CLI.
+ */
+
+/** A parsed cron expression: the allowed values of each field */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;             // 1-12
+  daysOfWeek: Set<number>;         // 0-6, Sunday = 0
+  // Standard cron: when both day fields are restricted (don't start with "*"),
+  // a day matching either fires
+  restrictedDayOfMonth: boolean;
+  restrictedDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesStart?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesStart: 1 },
+  // 7 is accepted as Sunday and folded to 0
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesStart: 0 },
+];
+
+// Give up looking for a fire time after this many years (e.g. "0 0 30 2 *")
+const MAX_SEARCH_YEARS = 5;
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(value.toLowerCase()) ?? -1;
+  const number = nameIndex >= 0 ? nameIndex + spec.namesStart! : /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (Number.isNaN(number) || number < spec.min || number > spec.max) {
+    throw new Error(`Invalid ${spec.name} value "${value}" (expected ${spec.min}-${spec.max})`);
+  }
+  return number;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined || range === '') {
+      throw new Error(`Invalid ${spec.name} field "${field}"`);
+    }
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if ((stepText !== undefined && !/^\d+$/.test(stepText)) || step < 1) {
+      throw new Error(`Invalid ${spec.name} step "${stepText}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Invalid ${spec.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression ("0 2 * * mon-fri") or macro ("@daily")
+ * Throws an Error describing the first invalid field.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictedDayOfMonth: !fields[2].startsWith('*'),
+    restrictedDayOfWeek: !fields[4].startsWith('*'),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getDate());
+  const dow = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.restrictedDayOfMonth && schedule.restrictedDayOfWeek) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * First fire time strictly after `after` (local time), or null if the
+ * expression never fires within the next few years
+ */
+export function getNextCronTime(expression: string | CronSchedule, after: Date): Date | null {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = new Date(after.getTime());
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  while (date <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
+
+/**
+ * Fire times in (after, until], oldest first, at most `limit` of them
+ */
+export function listCronTimes(
+  expression: string | CronSchedule,
+  after: Date,
+  until: Date,
+  limit: number
+): Date[] {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const times: Date[] = [];
+  let next = getNextCronTime(schedule, after);
+  while (next && next <= until && times.length < limit) {
+    times.push(next);
+    next = getNextCronTime(schedule, next);
+  }
+  return times;
+}
+
+/**
+ * Validate a cron expression
+ * Returns error message if invalid or if it never fires, null if valid
+ */
+export function validateCronExpression(expression: unknown): string | null {
+  if (typeof expression !== 'string' || !expression.trim()) {
+    return 'cron is required and must be a non-empty string';
+  }
+  try {
+    if (!getNextCronTime(parseCron(expression), new Date())) {
+      return `Cron expression "${expression}" never fires`;
+    }
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  return null;
+}
@@ -0,0 +1,74 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Execution Policy
+ * Error classification and backoff for retrying agent calls.
+ * Pure functions only - safe to use from browser, server, and CLI.
+ */
+
+/** Upper bound on the delay between two attempts */
+export const MAX_RETRY_DELAY_MS = 30000;
+
+// Error codes of transient network failures (Node and undici)
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+]);
+
+/**
+ * HTTP status carried by an error, from a `status`/`statusCode` property or
+ * a connector message such as "HTTP 503: ..." or "REST request failed: 429 - ..."
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+  const { status, statusCode, message } = error as { status?: unknown; statusCode?: unknown; message?: unknown };
+  if (typeof status === 'number') return status;
+  if (typeof statusCode === 'number') return statusCode;
+  if (typeof message !== 'string') return undefined;
+  const match = message.match(/\b(?:HTTP|failed:)\s*(\d{3})\b/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+function isNetworkError(error: unknown): boolean {
+  // fetch wraps the underlying socket error in `cause`
+  let e: any = error;
+  for (let depth = 0; e && typeof e === 'object' && depth < 5; depth++, e = e.cause) {
+    if (typeof e.code === 'string' && NETWORK_ERROR_CODES.has(e.code)) return true;
+    if (e.name === 'TypeError' && e.message === 'fetch failed') return true;
+    if (typeof e.message === 'string' && /socket hang up|network error/i.test(e.message)) return true;
+  }
+  return false;
+}
+
+/**
+ * Whether an agent call that failed with this error is worth retrying:
+ * network failures, 5xx responses, and 429 (rate limited). Aborts, timeouts,
+ * other 4xx responses, and errors raised by the agent itself are not retried.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error && typeof error === 'object' && (error as Error).name === 'AbortError') return false;
+  const status = getErrorStatus(error);
+  if (status !== undefined) return status === 429 || status >= 500;
+  return isNetworkError(error);
+}
+
+/**
+ * Delay before retry number `retry` (1-based): the base delay doubled for
+ * each earlier retry, capped at MAX_RETRY_DELAY_MS
+ */
+export function getRetryDelay(retry: number, baseDelayMs: number): number {
+  return Math.min(baseDelayMs * 2 ** Math.max(retry - 1, 0), MAX_RETRY_DELAY_MS);
+}
@@ -45,6 +45,32 @@ export type {
   AgentHooks,
 } from '../types/index.js';
 
+// Assertion types (for typed test case assertions)
+export type {
+  TestCaseAssertion,
+  AssertionResult,
+} from '../types/index.js';
+
+// Multi-turn types (for test cases with followUpQuestions)
+export type {
+  FollowUpQuestion,
+  FollowUpTrigger,
+  ConversationTurn,
+  TurnOutcome,
+} from '../types/index.js';
+
+// Judge ensemble types (for judge.ensemble in the config file)
+export type {
+  JudgeEnsembleConfig,
+  JudgeAggregation,
+} from '../types/index.js';
+
+// Judge rubric types (for rubric on test cases and benchmarks)
+export type {
+  JudgeRubric,
+  RubricCriterion,
+} from '../types/index.js';
+
 // Connector types (for custom connector implementations)
 export type {
   AgentConnector,
@@ -69,3 +95,19 @@ export { connectorRegistry, registerConnector } from '../services/connectors/reg
 
 // ConnectorRegistry type for custom implementations
 export type { ConnectorRegistry } from '../services/connectors/types.js';
+
+// Judge types (for custom judge implementations)
+export type {
+  JudgeProvider,
+  JudgeRequest,
+  JudgeResult,
+  JudgeEvaluateOptions,
+  PairwiseJudgeRequest,
+  PairwiseJudgeResult,
+} from '../services/judges/types.js';
+
+// Judge registry (for programmatic registration)
+export { judgeRegistry, registerJudge } from '../services/judges/registry.js';
+
+// JudgeRegistry type for custom implementations
+export type { JudgeRegistry } from '../services/judges/types.js';
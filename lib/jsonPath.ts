@@ -0,0 +1,93 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * JSONPath
+ * A JSONPath subset for pulling values out of agent responses:
+ * `$` (root), `.key`, `['key']`, `[0]`, `[-1]` (from the end), and `[*]` / `.*`
+ * (all array elements or object values). The leading `$` may be left out.
+ * Pure functions only - safe to use from browser, server, and CLI.
+ */
+
+type PathSegment = { kind: 'key'; key: string } | { kind: 'index'; index: number } | { kind: 'wildcard' };
+
+const IDENTIFIER = /^[A-Za-z0-9_$@-]+/;
+
+/**
+ * Split a path into segments
+ * @throws Error if the path is not in the supported subset
+ */
+export function parseJsonPath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let rest = path.trim();
+  if (rest.startsWith('$')) {
+    rest = rest.slice(1);
+  } else if (rest && !rest.startsWith('.') && !rest.startsWith('[')) {
+    rest = `.${rest}`;
+  }
+
+  const fail = (): never => {
+    throw new Error(`Invalid JSONPath '${path}' at '${rest}'`);
+  };
+
+  while (rest) {
+    if (rest.startsWith('.*')) {
+      segments.push({ kind: 'wildcard' });
+      rest = rest.slice(2);
+    } else if (rest.startsWith('.')) {
+      const match = rest.slice(1).match(IDENTIFIER) ?? fail();
+      segments.push({ kind: 'key', key: match[0] });
+      rest = rest.slice(1 + match[0].length);
+    } else if (rest.startsWith('[')) {
+      const match = rest.match(/^\[\s*(\*|-?\d+|'[^']*'|"[^"]*")\s*\]/) ?? fail();
+      const token = match[1];
+      if (token === '*') {
+        segments.push({ kind: 'wildcard' });
+      } else if (/^-?\d+$/.test(token)) {
+        segments.push({ kind: 'index', index: Number(token) });
+      } else {
+        segments.push({ kind: 'key', key: token.slice(1, -1) });
+      }
+      rest = rest.slice(match[0].length);
+    } else {
+      fail();
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * All values the path selects (wildcards may select several)
+ */
+export function selectJsonPath(data: unknown, path: string): any[] {
+  let nodes: any[] = [data];
+
+  for (const segment of parseJsonPath(path)) {
+    const next: any[] = [];
+    for (const node of nodes) {
+      if (node === null || typeof node !== 'object') continue;
+      if (segment.kind === 'wildcard') {
+        next.push(...(Array.isArray(node) ? node : Object.values(node)));
+      } else if (segment.kind === 'index') {
+        if (!Array.isArray(node)) continue;
+        const value = node[segment.index < 0 ? node.length + segment.index : segment.index];
+        if (value !== undefined) next.push(value);
+      } else if (!Array.isArray(node) && segment.key in node) {
+        next.push((node as Record<string, any>)[segment.key]);
+      }
+    }
+    nodes = next;
+  }
+
+  return nodes;
+}
+
+/**
+ * The first value the path selects, or undefined
+ */
+export function getJsonPathValue(data: unknown, path: string): any {
+  return selectJsonPath(data, path)[0];
+}
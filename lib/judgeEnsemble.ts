@@ -0,0 +1,196 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Judge Ensembles
+ * Combines the verdicts of several LLM judges into one judgment and measures
+ * how much they agree. Pure functions only - safe to use from browser, server, and CLI.
+ */
+
+import type {
+  EvaluationMetrics,
+  ImprovementStrategy,
+  JudgeAggregation,
+  JudgeEnsembleConfig,
+  PassFailStatus,
+} from '@/types';
+
+/** Agreement below this share is flagged for human review */
+export const LOW_AGREEMENT_THRESHOLD = 0.75;
+
+export const JUDGE_AGGREGATIONS: JudgeAggregation[] = ['majority', 'mean', 'min'];
+
+/**
+ * One ensemble member's judgment
+ */
+export interface EnsembleMemberJudgment {
+  modelId: string;
+  passFailStatus: PassFailStatus;
+  metrics: EvaluationMetrics;
+  llmJudgeReasoning: string;
+  improvementStrategies: ImprovementStrategy[];
+}
+
+export interface AggregatedJudgment {
+  passFailStatus: PassFailStatus;
+  metrics: EvaluationMetrics;
+  llmJudgeReasoning: string;
+  improvementStrategies: ImprovementStrategy[];
+  /** Share of judges agreeing with the majority verdict (0.5-1) */
+  agreement: number;
+}
+
+/**
+ * Whether a config actually asks for more than one judgment
+ */
+export function isEnsemble(config: JudgeEnsembleConfig | undefined): config is JudgeEnsembleConfig {
+  return !!config && config.models.length > 1;
+}
+
+/**
+ * Validate a judgeEnsemble from a request body
+ * Returns error message if invalid, null if valid
+ */
+export function validateJudgeEnsemble(value: unknown): string | null {
+  const { models, aggregation } = (value ?? {}) as { models?: unknown; aggregation?: unknown };
+  if (!Array.isArray(models) || models.length === 0 || models.some(m => typeof m !== 'string' || !m)) {
+    return 'judgeEnsemble.models must be a non-empty array of judge model keys';
+  }
+  if (aggregation !== undefined && !JUDGE_AGGREGATIONS.includes(aggregation as JudgeAggregation)) {
+    return `judgeEnsemble.aggregation must be one of: ${JUDGE_AGGREGATIONS.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Share of judges agreeing with the majority verdict
+ */
+export function calculateAgreement(statuses: PassFailStatus[]): number {
+  if (statuses.length === 0) return 1;
+  const passed = statuses.filter(s => s === 'passed').length;
+  return Math.max(passed, statuses.length - passed) / statuses.length;
+}
+
+/**
+ * Whether a run's judges disagreed enough to need human review
+ */
+export function isLowAgreement(agreement: number | undefined): boolean {
+  return agreement !== undefined && agreement < LOW_AGREEMENT_THRESHOLD;
+}
+
+/**
+ * Combine individual verdicts
+ */
+export function aggregateVerdict(statuses: PassFailStatus[], aggregation: JudgeAggregation): PassFailStatus {
+  const passed = statuses.filter(s => s === 'passed').length;
+  switch (aggregation) {
+    case 'min':
+      return statuses.length > 0 && passed === statuses.length ? 'passed' : 'failed';
+    case 'mean':
+      return statuses.length > 0 && passed * 2 >= statuses.length ? 'passed' : 'failed';
+    case 'majority':
+    default:
+      return passed * 2 > statuses.length ? 'passed' : 'failed';
+  }
+}
+
+function combineScores(values: (number | undefined)[], aggregation: JudgeAggregation): number | undefined {
+  const defined = values.filter((v): v is number => typeof v === 'number');
+  if (defined.length === 0) return undefined;
+  if (aggregation === 'min') return Math.min(...defined);
+  return Math.round(defined.reduce((sum, v) => sum + v, 0) / defined.length);
+}
+
+/**
+ * Combine metrics: the lowest score for 'min', the mean otherwise
+ */
+export function aggregateMetrics(metrics: EvaluationMetrics[], aggregation: JudgeAggregation): EvaluationMetrics {
+  const combined: EvaluationMetrics = {
+    accuracy: combineScores(metrics.map(m => m.accuracy), aggregation) ?? 0,
+  };
+
+  for (const key of ['faithfulness', 'latency_score', 'trajectory_alignment_score'] as const) {
+    const value = combineScores(metrics.map(m => m[key]), aggregation);
+    if (value !== undefined) combined[key] = value;
+  }
+
+  return combined;
+}
+
+/**
+ * An ensemble judge that returned no judgment
+ */
+export interface EnsembleJudgeFailure {
+  model: string;
+  error: string;
+}
+
+/**
+ * Call every judge of an ensemble, keeping the judgments of those that succeed
+ * @throws Error if every judge failed
+ */
+export async function settleEnsembleJudges<T>(
+  models: string[],
+  judge: (model: string) => Promise<T>
+): Promise<{ judgments: T[]; failures: EnsembleJudgeFailure[] }> {
+  const settled = await Promise.allSettled(models.map(model => judge(model)));
+  const judgments: T[] = [];
+  const failures: EnsembleJudgeFailure[] = [];
+  settled.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      judgments.push(result.value);
+    } else {
+      const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      failures.push({ model: models[index], error });
+    }
+  });
+
+  if (judgments.length === 0) {
+    throw new Error(`Every judge of the ensemble failed: ${failures.map(f => `${f.model}: ${f.error}`).join('; ')}`);
+  }
+  return { judgments, failures };
+}
+
+/**
+ * Aggregate an ensemble's judgments into a single judgment
+ * The reasoning lists every judge's verdict, and the judges that failed and were
+ * left out; improvement strategies are de-duplicated by issue.
+ */
+export function aggregateJudgments(
+  judgments: EnsembleMemberJudgment[],
+  aggregation: JudgeAggregation = 'majority',
+  failures: EnsembleJudgeFailure[] = []
+): AggregatedJudgment {
+  const statuses = judgments.map(j => j.passFailStatus);
+  const passFailStatus = aggregateVerdict(statuses, aggregation);
+  const agreement = calculateAgreement(statuses);
+  const passedCount = statuses.filter(s => s === 'passed').length;
+
+  const header = `**Judge ensemble** (${judgments.length} judges, ${aggregation}): ` +
+    `${passedCount}/${judgments.length} passed, ${Math.round(agreement * 100)}% agreement.`;
+  const sections = judgments.map((j, index) =>
+    `**Judge ${index + 1} · ${j.modelId}** (${j.passFailStatus.toUpperCase()}, ${j.metrics.accuracy}%)\n\n${j.llmJudgeReasoning}`
+  );
+  if (failures.length > 0) {
+    sections.push(`**Failed judges** (left out): ${failures.map(f => `${f.model} (${f.error})`).join(', ')}`);
+  }
+
+  const seenIssues = new Set<string>();
+  const improvementStrategies = judgments
+    .flatMap(j => j.improvementStrategies)
+    .filter(strategy => {
+      if (seenIssues.has(strategy.issue)) return false;
+      seenIssues.add(strategy.issue);
+      return true;
+    });
+
+  return {
+    passFailStatus,
+    metrics: aggregateMetrics(judgments.map(j => j.metrics), aggregation),
+    llmJudgeReasoning: [header, ...sections].join('\n\n'),
+    improvementStrategies,
+    agreement,
+  };
+}
@@ -0,0 +1,93 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Pairwise Judging
+ * Combines the two orderings of a head-to-head judgment and tallies win/tie/loss
+ * results. Pure functions only - safe to use from browser, server, and CLI.
+ */
+
+import type {
+  PairwiseComparisonRow,
+  PairwiseJudgment,
+  PairwiseOutcome,
+  PairwiseSummary,
+  PairwiseVerdict,
+  PairwiseWinner,
+} from '@/types';
+
+/**
+ * Normalize a judge's winner field ("A", "Response B", "tie", "equal", ...)
+ * Anything unrecognized counts as a tie.
+ */
+export function parsePairwiseWinner(value: unknown): PairwiseWinner {
+  const winner = String(value ?? '').trim().toLowerCase().replace(/^(response|trajectory)\s+/, '');
+  if (winner === 'a') return 'A';
+  if (winner === 'b') return 'B';
+  return 'tie';
+}
+
+/**
+ * Map a winner picked with the trajectories shown in B, A order back to A/B
+ */
+export function unswapWinner(winner: PairwiseWinner): PairwiseWinner {
+  if (winner === 'A') return 'B';
+  if (winner === 'B') return 'A';
+  return 'tie';
+}
+
+/**
+ * Combine the verdicts of both orders: a side only wins when every order picks it
+ */
+export function combinePairwiseVerdicts(verdicts: PairwiseVerdict[]): PairwiseJudgment {
+  const winners = new Set(verdicts.map(v => v.winner));
+  const consistent = winners.size === 1;
+  const winner = consistent ? verdicts[0].winner : 'tie';
+
+  const header = consistent
+    ? `**Pairwise verdict: ${formatWinner(winner)}** (same in both orders)`
+    : `**Pairwise verdict: tie** (the judge's pick changed with the order, so the difference is within position bias)`;
+  const sections = verdicts.map(v =>
+    `**Order ${v.order === 'AB' ? 'A, B' : 'B, A'}** (${formatWinner(v.winner)}): ${v.reasoning}`
+  );
+
+  return {
+    winner,
+    consistent,
+    reasoning: [header, ...sections].join('\n\n'),
+    verdicts,
+  };
+}
+
+function formatWinner(winner: PairwiseWinner): string {
+  return winner === 'tie' ? 'tie' : `${winner} is better`;
+}
+
+/**
+ * Outcome for the candidate (B) against the baseline (A)
+ */
+export function toPairwiseOutcome(winner: PairwiseWinner): PairwiseOutcome {
+  if (winner === 'B') return 'win';
+  if (winner === 'A') return 'loss';
+  return 'tie';
+}
+
+/**
+ * Tally judged rows; a tie counts as half a win
+ */
+export function summarizePairwise(rows: PairwiseComparisonRow[]): PairwiseSummary {
+  const wins = rows.filter(r => r.outcome === 'win').length;
+  const ties = rows.filter(r => r.outcome === 'tie').length;
+  const losses = rows.filter(r => r.outcome === 'loss').length;
+  const total = wins + ties + losses;
+
+  return {
+    wins,
+    ties,
+    losses,
+    total,
+    winRate: total > 0 ? (wins + ties / 2) / total : 0,
+  };
+}
@@ -0,0 +1,205 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * PPL Match Evaluator
+ * Compares a test case's expectedPPL against the PPL queries the agent generated
+ * (execute_ppl_query tool calls) and scores how closely they match.
+ */
+
+import type { EvaluationMetrics, TrajectoryStep } from '@/types';
+
+/** Tool names whose calls carry a PPL query */
+export const PPL_TOOL_NAMES = ['execute_ppl_query'];
+
+/** Tool argument keys checked (in order) for the query text */
+const PPL_ARG_KEYS = ['query', 'ppl', 'ppl_query', 'command'];
+
+/** PPL keywords normalized to lowercase for structural comparison */
+const PPL_KEYWORDS = new Set([
+  'search', 'source', 'index', 'where', 'fields', 'stats', 'by', 'sort', 'head', 'tail', 'eval',
+  'dedup', 'rename', 'as', 'top', 'rare', 'parse', 'grok', 'patterns', 'fillnull', 'trendline',
+  'lookup', 'join', 'on', 'limit', 'span', 'and', 'or', 'not', 'xor', 'in', 'like', 'between',
+  'is', 'null', 'true', 'false', 'asc', 'desc', 'count', 'sum', 'avg', 'min', 'max', 'dc',
+  'distinct_count', 'stddev_samp', 'stddev_pop', 'percentile', 'earliest', 'latest', 'if', 'case', 'else',
+]);
+
+const TOKEN_PATTERN = /'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|`[^`]*`|[A-Za-z0-9_.@*:\-]+|!=|>=|<=|==|\S/g;
+
+export interface PPLMatchResult {
+  expected: string;
+  /** Best-matching query generated by the agent (undefined if none was generated) */
+  actual?: string;
+  /** Identical apart from whitespace */
+  exactMatch: boolean;
+  /** Identical after normalizing keyword casing and field order */
+  structuralMatch: boolean;
+  /** 1 - normalized edit distance between the normalized queries (0-1) */
+  similarity: number;
+  /** Score recorded as metrics.pplMatch (0-100) */
+  score: number;
+}
+
+// ==================== Extraction ====================
+
+/**
+ * Extract PPL queries from execute_ppl_query tool calls in the trajectory
+ */
+export function extractPPLQueries(trajectory: TrajectoryStep[]): string[] {
+  const queries: string[] = [];
+  for (const step of trajectory) {
+    if (step.type !== 'action' || !step.toolName || !PPL_TOOL_NAMES.includes(step.toolName)) continue;
+    const args = step.toolArgs ?? {};
+    const key = PPL_ARG_KEYS.find(k => typeof args[k] === 'string' && args[k].trim());
+    if (key) queries.push(args[key]);
+  }
+  return queries;
+}
+
+// ==================== Normalization ====================
+
+function tokenize(query: string): string[] {
+  return query.trim().replace(/;+$/, '').match(TOKEN_PATTERN) ?? [];
+}
+
+function isQuoted(token: string): boolean {
+  return /^['"`]/.test(token);
+}
+
+/**
+ * Split tokens on a separator token (e.g., '|' or ',')
+ */
+function splitTokens(tokens: string[], separator: string): string[][] {
+  const groups: string[][] = [[]];
+  for (const token of tokens) {
+    if (token === separator) {
+      groups.push([]);
+    } else {
+      groups[groups.length - 1].push(token);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Sort a comma-separated token list so field order does not matter
+ */
+function sortList(tokens: string[]): string[] {
+  const items = splitTokens(tokens, ',').map(group => group.join(' ')).filter(Boolean);
+  if (items.length === 0) return [];
+  return items.sort().join(' , ').split(' ');
+}
+
+function normalizeCommand(tokens: string[]): string[] {
+  const [command, ...rest] = tokens;
+  if (command === 'fields') {
+    return [command, ...sortList(rest)];
+  }
+  if (command === 'stats') {
+    const byIndex = rest.indexOf('by');
+    if (byIndex === -1) return [command, ...sortList(rest)];
+    return [command, ...sortList(rest.slice(0, byIndex)), 'by', ...sortList(rest.slice(byIndex + 1))];
+  }
+  return tokens;
+}
+
+/**
+ * Normalize whitespace only (used for exact matching)
+ */
+export function normalizePPLWhitespace(query: string): string {
+  return tokenize(query).join(' ');
+}
+
+/**
+ * Normalize a PPL query for structural comparison:
+ * whitespace, keyword casing, optional leading 'search', and field order in fields/stats clauses
+ */
+export function normalizePPL(query: string): string {
+  const tokens = tokenize(query).map(token =>
+    !isQuoted(token) && PPL_KEYWORDS.has(token.toLowerCase()) ? token.toLowerCase() : token
+  );
+  if (tokens[0] === 'search') tokens.shift();
+
+  return splitTokens(tokens, '|')
+    .map(command => normalizeCommand(command).join(' '))
+    .join(' | ');
+}
+
+// ==================== Scoring ====================
+
+/**
+ * Levenshtein edit distance
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Compare two PPL queries
+ */
+export function comparePPL(expected: string, actual: string): PPLMatchResult {
+  const exactMatch = normalizePPLWhitespace(expected) === normalizePPLWhitespace(actual);
+  const normalizedExpected = normalizePPL(expected);
+  const normalizedActual = normalizePPL(actual);
+  const structuralMatch = exactMatch || normalizedExpected === normalizedActual;
+
+  const maxLength = Math.max(normalizedExpected.length, normalizedActual.length);
+  const similarity = structuralMatch || maxLength === 0
+    ? 1
+    : 1 - editDistance(normalizedExpected, normalizedActual) / maxLength;
+
+  return {
+    expected,
+    actual,
+    exactMatch,
+    structuralMatch,
+    similarity,
+    score: Math.round(similarity * 100),
+  };
+}
+
+/**
+ * Evaluate the agent's generated PPL against the expected query
+ * When the agent ran several queries, the best-matching one is scored.
+ * @returns undefined when the test case has no expectedPPL
+ */
+export function evaluatePPLMatch(
+  expectedPPL: string | undefined,
+  trajectory: TrajectoryStep[]
+): PPLMatchResult | undefined {
+  if (!expectedPPL?.trim()) return undefined;
+
+  const results = extractPPLQueries(trajectory).map(query => comparePPL(expectedPPL, query));
+  if (results.length === 0) {
+    return { expected: expectedPPL, exactMatch: false, structuralMatch: false, similarity: 0, score: 0 };
+  }
+
+  return results.reduce((best, result) => (result.score > best.score ? result : best));
+}
+
+/**
+ * Add the pplMatch metric when the test case defines expectedPPL
+ */
+export function applyPPLMatch(
+  metrics: EvaluationMetrics,
+  expectedPPL: string | undefined,
+  trajectory: TrajectoryStep[]
+): EvaluationMetrics {
+  const result = evaluatePPLMatch(expectedPPL, trajectory);
+  return result ? { ...metrics, pplMatch: result.score } : metrics;
+}
@@ -0,0 +1,77 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Judge Rubrics
+ * Helpers for custom grading rubrics set on test cases and benchmarks.
+ * Pure functions only - safe to use from browser, server, and CLI.
+ */
+
+import type { Benchmark, JudgeRubric, TestCase } from '@/types';
+
+/** Pass threshold used when a rubric doesn't set one (matches the built-in guidelines) */
+export const DEFAULT_PASS_THRESHOLD = 70;
+
+export interface WeightedCriterion {
+  name: string;
+  description: string;
+  weight: number;
+  /** Share of the total weight (0-1) */
+  share: number;
+}
+
+/**
+ * Rubric that applies to a test case: its own, else the benchmark's
+ */
+export function resolveRubric(
+  testCase: Pick<TestCase, 'rubric'>,
+  benchmark?: Pick<Benchmark, 'rubric'>
+): JudgeRubric | undefined {
+  return testCase.rubric ?? benchmark?.rubric;
+}
+
+/**
+ * Attach the benchmark's rubric to a test case that has none
+ */
+export function applyBenchmarkRubric<T extends Pick<TestCase, 'rubric'>>(
+  testCase: T,
+  benchmark?: Pick<Benchmark, 'rubric'>
+): T {
+  const rubric = resolveRubric(testCase, benchmark);
+  return rubric === testCase.rubric ? testCase : { ...testCase, rubric };
+}
+
+/**
+ * Criteria with default weights filled in and each criterion's share of the total
+ */
+export function getWeightedCriteria(rubric: JudgeRubric): WeightedCriterion[] {
+  const weights = rubric.criteria.map(c => (typeof c.weight === 'number' && c.weight > 0 ? c.weight : 1));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return rubric.criteria.map((c, i) => ({
+    name: c.name,
+    description: c.description,
+    weight: weights[i],
+    share: total > 0 ? weights[i] / total : 0,
+  }));
+}
+
+export function getPassThreshold(rubric: JudgeRubric): number {
+  return rubric.passThreshold ?? DEFAULT_PASS_THRESHOLD;
+}
+
+/**
+ * Short display label, e.g. "PPL correctness v2"
+ */
+export function formatRubricLabel(rubric: JudgeRubric): string {
+  const name = rubric.name?.trim() || 'Custom rubric';
+  return rubric.version !== undefined ? `${name} v${rubric.version}` : name;
+}
+
+/**
+ * Whether two rubrics are identical (used to decide when a benchmark needs a new version)
+ */
+export function rubricsEqual(a: JudgeRubric | undefined, b: JudgeRubric | undefined): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
@@ -0,0 +1,100 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Run Budgets
+ * Validation and limit checks for a run's token, cost, time, step, and tool
+ * call budgets.
+ * Pure functions only - safe to use from browser, server, and CLI.
+ */
+
+import type { RunBudget, RunUsage, TrajectoryStep } from '@/types';
+
+// Budget fields that must be whole numbers (maxCostUsd may be fractional)
+const INTEGER_FIELDS: Array<keyof RunBudget> = [
+  'maxTotalTokens',
+  'maxDurationMs',
+  'maxStepsPerTestCase',
+  'maxToolCallsPerTestCase',
+];
+const BUDGET_FIELDS: Array<keyof RunBudget> = [...INTEGER_FIELDS, 'maxCostUsd'];
+
+/**
+ * Validate a run's budget
+ * Returns error message if invalid, null if valid or absent
+ */
+export function validateRunBudget(budget: unknown): string | null {
+  if (budget === undefined) return null;
+  if (!budget || typeof budget !== 'object' || Array.isArray(budget)) {
+    return 'budget must be an object';
+  }
+  for (const [field, value] of Object.entries(budget)) {
+    if (!BUDGET_FIELDS.includes(field as keyof RunBudget)) {
+      return `Unknown budget field "${field}" (expected one of ${BUDGET_FIELDS.join(', ')})`;
+    }
+    if (value === undefined) continue;
+    const isInteger = INTEGER_FIELDS.includes(field as keyof RunBudget);
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || (isInteger && !Number.isInteger(value))) {
+      return `budget.${field} must be a positive ${isInteger ? 'integer' : 'number'}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Number of tool calls (named action steps) in a trajectory
+ */
+export function countToolCalls(trajectory: TrajectoryStep[]): number {
+  return trajectory.filter(step => step.type === 'action' && step.toolName).length;
+}
+
+/**
+ * Why a test case's trajectory exceeds the budget's per-test-case limits,
+ * or null if it is within them
+ */
+export function getTestCaseBudgetViolation(
+  budget: RunBudget | undefined,
+  trajectory: TrajectoryStep[]
+): string | null {
+  if (budget?.maxStepsPerTestCase !== undefined && trajectory.length > budget.maxStepsPerTestCase) {
+    return `Test case exceeded its budget of ${budget.maxStepsPerTestCase} trajectory steps`;
+  }
+  if (budget?.maxToolCallsPerTestCase !== undefined && countToolCalls(trajectory) > budget.maxToolCallsPerTestCase) {
+    return `Test case exceeded its budget of ${budget.maxToolCallsPerTestCase} tool calls`;
+  }
+  return null;
+}
+
+/**
+ * Why a run's usage exceeds the budget's run limits, or null if it is within them
+ * Time is checked separately by the runner (it needs a timer).
+ */
+export function getRunBudgetViolation(budget: RunBudget | undefined, usage: RunUsage | undefined): string | null {
+  if (!budget || !usage) return null;
+  if (budget.maxTotalTokens !== undefined && usage.totalTokens > budget.maxTotalTokens) {
+    return `Run used ${usage.totalTokens} tokens, over its budget of ${budget.maxTotalTokens}`;
+  }
+  if (budget.maxCostUsd !== undefined && usage.costUsd > budget.maxCostUsd) {
+    return `Run cost $${usage.costUsd.toFixed(4)}, over its budget of $${budget.maxCostUsd}`;
+  }
+  return null;
+}
+
+/**
+ * Add one test case's tokens and cost to a run's usage
+ */
+export function addRunUsage(
+  usage: RunUsage | undefined,
+  inputTokens: number,
+  outputTokens: number,
+  costUsd: number
+): RunUsage {
+  return {
+    inputTokens: (usage?.inputTokens ?? 0) + inputTokens,
+    outputTokens: (usage?.outputTokens ?? 0) + outputTokens,
+    totalTokens: (usage?.totalTokens ?? 0) + inputTokens + outputTokens,
+    costUsd: (usage?.costUsd ?? 0) + costUsd,
+  };
+}
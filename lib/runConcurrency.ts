@@ -0,0 +1,33 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Run Concurrency
+ * Limits on how many test cases a benchmark run executes at once.
+ * Pure functions only - safe to use from browser, server, and CLI.
+ */
+
+/** Upper bound on a run's concurrency, to keep agents and judges from being flooded */
+export const MAX_RUN_CONCURRENCY = 32;
+
+/**
+ * Validate a run's concurrency setting
+ * Returns error message if invalid, null if valid or absent
+ */
+export function validateRunConcurrency(concurrency: unknown): string | null {
+  if (concurrency === undefined) return null;
+  if (typeof concurrency !== 'number' || !Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_RUN_CONCURRENCY) {
+    return `concurrency must be an integer from 1 to ${MAX_RUN_CONCURRENCY}`;
+  }
+  return null;
+}
+
+/**
+ * Number of workers to start for a run: its concurrency, at least 1 and at
+ * most one per test case
+ */
+export function resolveRunConcurrency(concurrency: number | undefined, totalTestCases: number): number {
+  return Math.max(1, Math.min(concurrency ?? 1, totalTestCases));
+}
@@ -0,0 +1,172 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Run Iterations
+ * Settings and pass@k statistics for runs that execute each test case
+ * several times.
+ * Pure functions only - safe to use from browser, server, and CLI.
+ */
+
+import type { BenchmarkRun, EvaluationReport, RunAggregateMetrics, TestCaseIterationStats } from '@/types';
+
+/** Upper bound on a run's iterations, to keep repeated runs affordable */
+export const MAX_RUN_ITERATIONS = 20;
+
+/** Outcome of one iteration: whether it passed, and its accuracy if judged */
+export interface IterationOutcome {
+  passed: boolean;
+  accuracy?: number;
+}
+
+/**
+ * Validate a run's iterations setting
+ * Returns error message if invalid, null if valid or absent
+ */
+export function validateRunIterations(iterations: unknown): string | null {
+  if (iterations === undefined) return null;
+  if (typeof iterations !== 'number' || !Number.isInteger(iterations) || iterations < 1 || iterations > MAX_RUN_ITERATIONS) {
+    return `iterations must be an integer from 1 to ${MAX_RUN_ITERATIONS}`;
+  }
+  return null;
+}
+
+/**
+ * Unbiased estimate of the chance that at least one of k samples passes,
+ * given c passes out of n samples (Chen et al., 2021)
+ */
+export function passAtK(n: number, c: number, k: number): number {
+  if (n === 0) return 0;
+  if (n - c < k) return 1;
+  let allFail = 1;
+  for (let i = n - c + 1; i <= n; i++) {
+    allFail *= 1 - k / i;
+  }
+  return 1 - allFail;
+}
+
+/**
+ * Estimate of the chance that all of k samples pass, given c passes out of
+ * n samples (pass^k)
+ */
+export function passHatK(n: number, c: number, k: number): number {
+  if (n === 0 || c < k) return 0;
+  let allPass = 1;
+  for (let j = 0; j < k; j++) {
+    allPass *= (c - j) / (n - j);
+  }
+  return allPass;
+}
+
+/**
+ * Outcomes of a test case's iterations in a run
+ *
+ * Iterations that failed to execute count as failures without an accuracy.
+ * Pending or running iterations, and reports that have not been judged yet,
+ * are left out.
+ */
+export function getIterationOutcomes(
+  result: BenchmarkRun['results'][string],
+  reports: Record<string, EvaluationReport | null>
+): IterationOutcome[] {
+  const iterations = result.iterationResults ?? [{ reportId: result.reportId, status: result.status }];
+  const outcomes: IterationOutcome[] = [];
+
+  for (const iteration of iterations) {
+    if (iteration.status === 'failed' || iteration.status === 'cancelled' || iteration.status === 'budget_exceeded') {
+      outcomes.push({ passed: false });
+      continue;
+    }
+    const report = iteration.reportId ? reports[iteration.reportId] : undefined;
+    if (iteration.status !== 'completed' || !report || report.metricsStatus === 'pending' || report.metricsStatus === 'calculating') {
+      continue;
+    }
+    outcomes.push({ passed: report.passFailStatus === 'passed', accuracy: report.metrics?.accuracy });
+  }
+
+  return outcomes;
+}
+
+/**
+ * Pass@k statistics for a test case's iteration outcomes, as percentages
+ * (k is clamped to the number of outcomes). Returns null without outcomes.
+ */
+export function computeIterationStats(outcomes: IterationOutcome[], k: number): TestCaseIterationStats | null {
+  const n = outcomes.length;
+  if (n === 0) return null;
+
+  const c = outcomes.filter(o => o.passed).length;
+  const effectiveK = Math.max(1, Math.min(k, n));
+  const accuracies = outcomes.map(o => o.accuracy).filter((a): a is number => a !== undefined);
+  const meanAccuracy = accuracies.length > 0
+    ? accuracies.reduce((sum, a) => sum + a, 0) / accuracies.length
+    : undefined;
+  const stddevAccuracy = meanAccuracy !== undefined
+    ? Math.sqrt(accuracies.reduce((sum, a) => sum + (a - meanAccuracy) ** 2, 0) / accuracies.length)
+    : undefined;
+
+  return {
+    iterations: n,
+    passed: c,
+    k: effectiveK,
+    passRate: Math.round((c / n) * 100),
+    passAtK: Math.round(passAtK(n, c, effectiveK) * 100),
+    passHatK: Math.round(passHatK(n, c, effectiveK) * 100),
+    meanAccuracy: meanAccuracy !== undefined ? Math.round(meanAccuracy) : undefined,
+    stddevAccuracy: stddevAccuracy !== undefined ? Math.round(stddevAccuracy * 10) / 10 : undefined,
+    flakiness: Math.round((1 - Math.abs((2 * c) / n - 1)) * 100),
+  };
+}
+
+/**
+ * Pass@k statistics for every test case in a run, keyed by test case ID,
+ * with k set to the run's iterations. Test cases without outcomes are omitted.
+ */
+export function computeRunIterationStats(
+  run: BenchmarkRun,
+  reports: Record<string, EvaluationReport | null>
+): Record<string, TestCaseIterationStats> {
+  const k = run.iterations ?? 1;
+  const stats: Record<string, TestCaseIterationStats> = {};
+
+  for (const [testCaseId, result] of Object.entries(run.results || {})) {
+    const testCaseStats = computeIterationStats(getIterationOutcomes(result, reports), k);
+    if (testCaseStats) {
+      stats[testCaseId] = testCaseStats;
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Iteration metrics of a run for RunAggregateMetrics: pass@k, pass^k, and
+ * accuracy spread averaged over test cases, and the number of flaky test
+ * cases. Returns an empty object for single-iteration runs.
+ */
+export function summarizeRunIterations(
+  run: BenchmarkRun,
+  reports: Record<string, EvaluationReport | null>
+): Pick<RunAggregateMetrics, 'iterations' | 'passAtK' | 'passHatK' | 'avgAccuracyStddev' | 'flakyTestCases'> {
+  const iterations = run.iterations ?? 1;
+  if (iterations <= 1) return {};
+
+  const stats = Object.values(computeRunIterationStats(run, reports));
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+  const round = (value: number | undefined, digits = 0) =>
+    value === undefined ? undefined : Math.round(value * 10 ** digits) / 10 ** digits;
+
+  return {
+    iterations,
+    passAtK: round(mean(stats.map(s => s.passAtK))),
+    passHatK: round(mean(stats.map(s => s.passHatK))),
+    avgAccuracyStddev: round(
+      mean(stats.map(s => s.stddevAccuracy).filter((v): v is number => v !== undefined)),
+      1
+    ),
+    flakyTestCases: stats.filter(s => s.flakiness > 0).length,
+  };
+}
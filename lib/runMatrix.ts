@@ -0,0 +1,141 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Run Matrix
+ * Validates matrix run definitions and fans them out into one run
+ * configuration per agent × model × variant cell.
+ * Pure functions only - safe to use from browser, server, and CLI.
+ */
+
+import type { MatrixRunConfig, MatrixRunVariant, RunConfigInput } from '@/types';
+import { validateJudgeEnsemble } from '@/lib/judgeEnsemble';
+import { validateRunConcurrency } from '@/lib/runConcurrency';
+import { validateRunIterations } from '@/lib/runIterations';
+import { validateRunBudget } from '@/lib/runBudget';
+
+/** Upper bound on the runs a matrix creates */
+export const MAX_MATRIX_CELLS = 64;
+
+// Non-empty array of distinct, non-blank strings
+function isKeyList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && new Set(value).size === value.length
+    && value.every(v => typeof v === 'string' && v.trim() !== '');
+}
+
+function validateVariant(variant: unknown, index: number): string | null {
+  const prefix = `variants[${index}]`;
+  if (!variant || typeof variant !== 'object' || Array.isArray(variant)) {
+    return `${prefix} must be an object`;
+  }
+  const { name, agentEndpoint, headers } = variant as Record<string, unknown>;
+  if (typeof name !== 'string' || !name.trim()) {
+    return `${prefix}.name is required and must be a non-empty string`;
+  }
+  if (agentEndpoint !== undefined && typeof agentEndpoint !== 'string') {
+    return `${prefix}.agentEndpoint must be a string`;
+  }
+  if (headers !== undefined) {
+    if (!headers || typeof headers !== 'object' || Array.isArray(headers)
+      || !Object.values(headers).every(v => typeof v === 'string')) {
+      return `${prefix}.headers must be an object of string values`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Number of runs a matrix creates
+ */
+export function countMatrixCells(config: Pick<MatrixRunConfig, 'agentKeys' | 'modelIds' | 'variants'>): number {
+  return config.agentKeys.length * config.modelIds.length * Math.max(config.variants?.length ?? 0, 1);
+}
+
+/**
+ * Validate a matrix run definition
+ * Returns error message if invalid, null if valid
+ */
+export function validateMatrixRunConfig(config: unknown): string | null {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'Request body must be a valid matrix run configuration object';
+  }
+  const c = config as Record<string, unknown>;
+  if (typeof c.name !== 'string' || !c.name.trim()) {
+    return 'name is required and must be a non-empty string';
+  }
+  if (!isKeyList(c.agentKeys)) {
+    return 'agentKeys must be a non-empty array of distinct agent keys';
+  }
+  if (!isKeyList(c.modelIds)) {
+    return 'modelIds must be a non-empty array of distinct model keys';
+  }
+  if (c.variants !== undefined) {
+    if (!Array.isArray(c.variants)) {
+      return 'variants must be an array';
+    }
+    for (let i = 0; i < c.variants.length; i++) {
+      const variantError = validateVariant(c.variants[i], i);
+      if (variantError) return variantError;
+    }
+    const names = c.variants.map(v => (v as MatrixRunVariant).name);
+    if (new Set(names).size !== names.length) {
+      return 'variants must have unique names';
+    }
+  }
+  if (c.judgeEnsemble !== undefined) {
+    const ensembleError = validateJudgeEnsemble(c.judgeEnsemble);
+    if (ensembleError) return ensembleError;
+  }
+  const settingsError = validateRunConcurrency(c.concurrency)
+    ?? validateRunIterations(c.iterations)
+    ?? validateRunBudget(c.budget);
+  if (settingsError) return settingsError;
+
+  const cells = countMatrixCells(c as unknown as MatrixRunConfig);
+  if (cells > MAX_MATRIX_CELLS) {
+    return `Matrix has ${cells} cells; at most ${MAX_MATRIX_CELLS} are allowed`;
+  }
+  return null;
+}
+
+/**
+ * Concurrency of each cell run, so that all cells running side by side
+ * stay within the matrix's budget (at least 1)
+ */
+export function getMatrixCellConcurrency(budget: number | undefined, cellCount: number): number {
+  return Math.max(1, Math.floor((budget ?? 1) / Math.max(cellCount, 1)));
+}
+
+/**
+ * Run configurations for every cell of a matrix, agent-major then model
+ * then variant. Cell runs are named "<name> [agent / model / variant]".
+ */
+export function expandMatrixRun(config: MatrixRunConfig): RunConfigInput[] {
+  const variants: Array<MatrixRunVariant | undefined> = config.variants?.length ? config.variants : [undefined];
+  const concurrency = getMatrixCellConcurrency(config.concurrency, countMatrixCells(config));
+  const runConfigs: RunConfigInput[] = [];
+
+  for (const agentKey of config.agentKeys) {
+    for (const modelId of config.modelIds) {
+      for (const variant of variants) {
+        const label = [agentKey, modelId, variant?.name].filter(Boolean).join(' / ');
+        runConfigs.push({
+          name: `${config.name} [${label}]`,
+          description: config.description,
+          agentKey,
+          modelId,
+          ...(variant?.agentEndpoint && { agentEndpoint: variant.agentEndpoint }),
+          ...(variant?.headers && { headers: variant.headers }),
+          ...(config.judgeEnsemble && { judgeEnsemble: config.judgeEnsemble }),
+          ...(config.iterations && { iterations: config.iterations }),
+          ...(config.budget && { budget: config.budget }),
+          concurrency,
+        });
+      }
+    }
+  }
+
+  return runConfigs;
+}
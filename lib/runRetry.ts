@@ -0,0 +1,55 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Run Retry
+ * Selects and resets the test cases of a benchmark run that should be retried.
+ * Pure functions only - safe to use from browser, server, and CLI.
+ */
+
+import type { BenchmarkRun, RunResultStatus } from '@/types';
+
+/** Result statuses that a retry re-executes */
+export const RETRYABLE_RESULT_STATUSES: RunResultStatus[] = ['failed', 'cancelled', 'budget_exceeded'];
+
+/**
+ * IDs of the test cases in a run whose last attempt failed, was cancelled, or
+ * went over budget
+ */
+export function getRetryableTestCaseIds(run: BenchmarkRun): string[] {
+  return Object.entries(run.results || {})
+    .filter(([, result]) => RETRYABLE_RESULT_STATUSES.includes(result.status))
+    .map(([testCaseId]) => testCaseId);
+}
+
+/**
+ * Copy of a run with its failed, cancelled, and over-budget test cases reset
+ * to pending
+ *
+ * Each reset test case keeps the attempt it replaces in `attempts` (attempts
+ * that never saved a report are recorded too, with an empty reportId). Other
+ * results are left as they are, so executing the returned run only re-runs
+ * the reset test cases. The retry gets the whole budget again: the run's
+ * usage and budget overrun are cleared.
+ */
+export function prepareRunForRetry(
+  run: BenchmarkRun,
+  retriedAt: string = new Date().toISOString()
+): { run: BenchmarkRun; testCaseIds: string[] } {
+  const testCaseIds = getRetryableTestCaseIds(run);
+  const results: BenchmarkRun['results'] = { ...run.results };
+
+  for (const testCaseId of testCaseIds) {
+    const { reportId, status, attempts = [] } = results[testCaseId];
+    results[testCaseId] = {
+      reportId: '',
+      status: 'pending',
+      attempts: [...attempts, { reportId, status, retriedAt }],
+    };
+  }
+
+  const { usage: _usage, budgetExceededReason: _budgetExceededReason, ...rest } = run;
+  return { run: { ...rest, results }, testCaseIds };
+}
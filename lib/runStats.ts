@@ -66,7 +66,7 @@ export function calculateRunStats(
       return;
     }
 
-    if (result.status === 'failed' || result.status === 'cancelled') {
+    if (result.status === 'failed' || result.status === 'cancelled' || result.status === 'budget_exceeded') {
       failed++;
       return;
     }
@@ -113,7 +113,8 @@ export function calculateRunStats(
 }
 
 /**
- * Extract all report IDs from a run's results that need to be fetched.
+ * Extract all report IDs from a run's results that need to be fetched,
+ * including the reports of every iteration in multi-iteration runs.
  *
  * @param run - The benchmark run to extract report IDs from
  * @returns Array of unique report IDs
@@ -125,6 +126,11 @@ export function getReportIdsFromRun(run: BenchmarkRun): string[] {
     if (result.reportId) {
       reportIds.add(result.reportId);
     }
+    result.iterationResults?.forEach((iteration) => {
+      if (iteration.reportId) {
+        reportIds.add(iteration.reportId);
+      }
+    });
   });
 
   return Array.from(reportIds);
@@ -4,7 +4,7 @@
  */
 
 import { z } from 'zod';
-import type { AgentContextItem } from '@/types';
+import type { AgentContextItem, FollowUpQuestion, JudgeRubric, TestCaseAssertion } from '@/types';
 import type { CreateTestCaseInput } from '@/services/storage';
 
 // ============ Zod Schemas ============
@@ -18,26 +18,99 @@ const contextItemSchema = z
 
 const difficultySchema = z.enum(['Easy', 'Medium', 'Hard']);
 
+const assertionBaseSchema = z.object({
+  id: z.string().optional(),
+  description: z.string().optional(),
+  severity: z.enum(['error', 'warning']).optional(),
+});
+
+const assertionSchema = z.discriminatedUnion('type', [
+  assertionBaseSchema.extend({
+    type: z.literal('tool-called'),
+    tool: z.string().min(1, 'Tool name is required'),
+    minCalls: z.number().int().positive().optional(),
+  }),
+  assertionBaseSchema.extend({
+    type: z.literal('tool-not-called'),
+    tool: z.string().min(1, 'Tool name is required'),
+  }),
+  assertionBaseSchema.extend({
+    type: z.literal('tool-args-match'),
+    tool: z.string().min(1, 'Tool name is required'),
+    args: z.record(z.any()),
+  }),
+  assertionBaseSchema.extend({
+    type: z.literal('response-regex'),
+    pattern: z.string().min(1, 'Pattern is required'),
+    flags: z.string().optional(),
+    negate: z.boolean().optional(),
+  }),
+  assertionBaseSchema.extend({
+    type: z.literal('max-steps'),
+    max: z.number().int().nonnegative(),
+    stepType: z.enum(['tool_result', 'assistant', 'action', 'response', 'thinking']).optional(),
+  }),
+  assertionBaseSchema.extend({
+    type: z.literal('max-latency'),
+    maxMs: z.number().positive(),
+  }),
+  assertionBaseSchema.extend({
+    type: z.literal('json-schema'),
+    tool: z.string().min(1, 'Tool name is required'),
+    schema: z.record(z.any()),
+  }),
+]);
+
+const followUpQuestionSchema = z.object({
+  trigger: z.enum(['results_available', 'error', 'always']),
+  question: z.string().min(1, 'Question is required'),
+  businessValue: z.string().optional().default(''),
+});
+
+/**
+ * Zod schema for judge rubrics (shared by test cases and benchmarks)
+ */
+export const rubricSchema = z.object({
+  name: z.string().optional(),
+  version: z.number().int().positive().optional(),
+  description: z.string().optional(),
+  criteria: z
+    .array(
+      z.object({
+        name: z.string().min(1, 'Criterion name is required'),
+        description: z.string().min(1, 'Criterion description is required'),
+        weight: z.number().positive().optional(),
+      })
+    )
+    .min(1, 'A rubric needs at least one criterion'),
+  passThreshold: z.number().min(0).max(100).optional(),
+  criticalFailures: z.array(z.string().min(1)).optional(),
+});
+
 /**
  * Zod schema for validating test case JSON input.
  * This validates a subset of CreateTestCaseInput fields that are relevant for the JSON editor.
  * The output is compatible with CreateTestCaseInput.
  */
-export const testCaseSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  description: z.string().optional().default(''),
-  category: z.string().min(1, 'Category is required'),
-  subcategory: z.string().optional(),
-  difficulty: difficultySchema,
-  initialPrompt: z.string().min(1, 'Initial prompt is required'),
-  context: z.array(contextItemSchema).optional().default([]),
-  expectedOutcomes: z
-    .array(z.string())
-    .refine(
-      (outcomes) => outcomes.some((o) => o.trim().length > 0),
-      'At least one non-empty expected outcome is required'
-    ),
-});
+export const testCaseSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required'),
+    description: z.string().optional().default(''),
+    category: z.string().min(1, 'Category is required'),
+    subcategory: z.string().optional(),
+    difficulty: difficultySchema,
+    initialPrompt: z.string().min(1, 'Initial prompt is required'),
+    context: z.array(contextItemSchema).optional().default([]),
+    expectedOutcomes: z.array(z.string()),
+    assertions: z.array(assertionSchema).optional(),
+    followUpQuestions: z.array(followUpQuestionSchema).optional(),
+    rubric: rubricSchema.optional(),
+  })
+  .refine(
+    // Assertion-only test cases are scored without the LLM judge
+    (tc) => tc.expectedOutcomes.some((o) => o.trim().length > 0) || (tc.assertions?.length ?? 0) > 0,
+    { message: 'At least one non-empty expected outcome is required', path: ['expectedOutcomes'] }
+  );
 
 export const testCasesArraySchema = z.array(testCaseSchema).min(1, 'Array cannot be empty');
 
@@ -50,7 +123,7 @@ export const testCasesArraySchema = z.array(testCaseSchema).min(1, 'Array cannot
  */
 export type ValidatedTestCaseInput = Pick<
   CreateTestCaseInput,
-  'name' | 'description' | 'category' | 'subcategory' | 'difficulty' | 'initialPrompt' | 'context' | 'expectedOutcomes'
+  'name' | 'description' | 'category' | 'subcategory' | 'difficulty' | 'initialPrompt' | 'context' | 'expectedOutcomes' | 'assertions' | 'followUpQuestions' | 'rubric'
 >;
 
 // Form state for the TestCaseEditor component
@@ -63,6 +136,9 @@ export interface TestCaseFormState {
   initialPrompt: string;
   context: AgentContextItem[];
   expectedOutcomes: string[];
+  assertions?: TestCaseAssertion[];
+  followUpQuestions?: FollowUpQuestion[];
+  rubric?: JudgeRubric;
 }
 
 // ============ Validation Types ============
@@ -149,6 +225,23 @@ export function validateTestCasesArrayJson(json: unknown): ValidationResult<Vali
   return { valid: true, errors: [], data: result.data as ValidatedTestCaseInput[] };
 }
 
+/**
+ * Validates a judge rubric (e.g., a benchmark's rubric).
+ */
+export function validateRubricJson(json: unknown): ValidationResult<JudgeRubric> {
+  const result = rubricSchema.safeParse(json);
+
+  if (!result.success) {
+    return {
+      valid: false,
+      errors: zodErrorToValidationErrors(result.error),
+    };
+  }
+
+  // Cast is safe here - Zod has validated all required fields
+  return { valid: true, errors: [], data: result.data as JudgeRubric };
+}
+
 /**
  * Serializes form state to JSON string for the editor.
  */
@@ -174,6 +267,18 @@ export function serializeFormToJson(formState: TestCaseFormState): string {
     json.context = formState.context;
   }
 
+  if (formState.assertions && formState.assertions.length > 0) {
+    json.assertions = formState.assertions;
+  }
+
+  if (formState.followUpQuestions && formState.followUpQuestions.length > 0) {
+    json.followUpQuestions = formState.followUpQuestions;
+  }
+
+  if (formState.rubric) {
+    json.rubric = formState.rubric;
+  }
+
   return JSON.stringify(json, null, 2);
 }
 
@@ -212,6 +317,9 @@ export function parseJsonToFormState(jsonString: string): ValidationResult<TestC
       initialPrompt: data.initialPrompt,
       context: (data.context || []) as AgentContextItem[],
       expectedOutcomes: data.expectedOutcomes.length > 0 ? data.expectedOutcomes : [''],
+      assertions: data.assertions,
+      followUpQuestions: data.followUpQuestions,
+      rubric: data.rubric,
     },
   };
 }
@@ -12,11 +12,18 @@ import express, { Express } from 'express';
 import routes from './routes/index.js';
 import { setupMiddleware, setupSpaFallback } from './middleware/index.js';
 import { loadConfig } from '@/lib/config/index';
+import { jobQueue } from './services/jobQueue.js';
+import { benchmarkScheduler } from './services/benchmarkScheduler.js';
+import { workerTasks } from './services/workerTasks.js';
+import { BENCHMARK_SCHEDULER, BENCHMARK_WORKERS } from './config/index.js';
 
 // Register server-side connectors (subprocess, claude-code)
 // This import has side effects that register connectors with the registry
 import '@/services/connectors/server';
 
+// Register built-in judges (demo, bedrock, openai, ollama)
+import { judgeRegistry } from '@/services/judges';
+
 /**
  * Create and configure the Express application
  * Server loads its own config to ensure the cache is populated in the same
@@ -24,7 +31,12 @@ import '@/services/connectors/server';
  * @returns Configured Express app
  */
 export async function createApp(): Promise<Express> {
-  await loadConfig();
+  const config = await loadConfig();
+
+  // Register custom judges from config (may override built-in judges)
+  for (const judge of config.judges ?? []) {
+    judgeRegistry.register(judge);
+  }
 
   const app = express();
 
@@ -37,6 +49,21 @@ export async function createApp(): Promise<Express> {
   // SPA fallback - must be after routes so API requests aren't intercepted
   setupSpaFallback(app);
 
+  // Restore persisted benchmark jobs (recovery talks to storage, so don't block startup)
+  jobQueue.init().catch((error) => {
+    console.error('[JobQueue] Failed to restore jobs:', error instanceof Error ? error.message : error);
+  });
+
+  // Fire scheduled benchmark runs
+  if (BENCHMARK_SCHEDULER.enabled) {
+    benchmarkScheduler.start();
+  }
+
+  // Reassign test cases whose worker stopped sending heartbeats
+  if (BENCHMARK_WORKERS.enabled) {
+    workerTasks.start();
+  }
+
   return app;
 }
 
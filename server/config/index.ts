@@ -23,6 +23,19 @@ export const PORT = parseInt(process.env.PORT || process.env.BACKEND_PORT || pro
 export const AWS_REGION = process.env.AWS_REGION || 'us-west-2';
 export const BEDROCK_MODEL_ID = process.env.BEDROCK_MODEL_ID || 'us.anthropic.claude-sonnet-4-5-20250929-v1:0';
 
+// ============================================================================
+// OpenAI-compatible Judge Configuration
+// ============================================================================
+
+export const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
+export const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+
+// ============================================================================
+// Ollama Judge Configuration
+// ============================================================================
+
+export const OLLAMA_HOST = process.env.OLLAMA_HOST || 'http://localhost:11434';
+
 // ============================================================================
 // OpenSearch Logs Configuration
 // ============================================================================
@@ -60,6 +73,56 @@ export function isStorageConfigured(): boolean {
   return !!(STORAGE_CONFIG.endpoint && STORAGE_CONFIG.username && STORAGE_CONFIG.password);
 }
 
+// ============================================================================
+// Benchmark Job Queue Configuration
+// ============================================================================
+
+export const BENCHMARK_JOBS = {
+  // Benchmark runs executed at once; further runs wait in the queue
+  maxRunningJobs: Math.max(1, parseInt(process.env.BENCHMARK_JOBS_MAX_RUNNING || '4', 10) || 4),
+  // Resume jobs interrupted by a restart (false = mark their runs failed)
+  resumeOnRestart: process.env.BENCHMARK_JOBS_RESUME_ON_RESTART !== 'false',
+  // Where job state is persisted
+  file: process.env.BENCHMARK_JOBS_FILE || 'agent-health.jobs.json',
+};
+
+// ============================================================================
+// Benchmark Scheduler Configuration
+// ============================================================================
+
+export const BENCHMARK_SCHEDULER = {
+  // Fire scheduled runs (false = schedules are kept but never fire)
+  enabled: process.env.BENCHMARK_SCHEDULER_ENABLED !== 'false',
+  // How often schedules are checked for due firings
+  tickMs: Math.max(1000, parseInt(process.env.BENCHMARK_SCHEDULER_TICK_MS || '30000', 10) || 30000),
+  // How late a firing may still start a run; later ones are reported as missed
+  graceMs: Math.max(0, parseInt(process.env.BENCHMARK_SCHEDULER_GRACE_MS || '300000', 10) || 300000),
+};
+
+// ============================================================================
+// Benchmark Worker Configuration
+// ============================================================================
+
+export const BENCHMARK_WORKERS = {
+  // Hand test cases to remote workers (`agent-health worker`) instead of executing them in the server
+  enabled: process.env.BENCHMARK_WORKERS_ENABLED === 'true',
+  // How long a worker holds a task without a heartbeat before it is reassigned
+  leaseMs: Math.max(1000, parseInt(process.env.BENCHMARK_WORKER_LEASE_MS || '30000', 10) || 30000),
+  // Leases of one task before it fails (a worker crashing on every attempt)
+  maxAttempts: Math.max(1, parseInt(process.env.BENCHMARK_WORKER_MAX_ATTEMPTS || '3', 10) || 3),
+};
+
+// ============================================================================
+// Cassette Recording Configuration
+// ============================================================================
+
+export const CASSETTES = {
+  // Save each successful agent exchange for replay with the replay connector
+  record: process.env.CASSETTE_RECORD === 'true',
+  // Directory of the cassette files (also where replay:// agents read them)
+  dir: process.env.CASSETTE_DIR || 'cassettes',
+};
+
 // ============================================================================
 // Environment Mode
 // ============================================================================
@@ -76,8 +139,15 @@ const config = {
   PORT,
   AWS_REGION,
   BEDROCK_MODEL_ID,
+  OPENAI_BASE_URL,
+  OPENAI_API_KEY,
+  OLLAMA_HOST,
   OPENSEARCH_LOGS,
   STORAGE_CONFIG,
+  BENCHMARK_JOBS,
+  BENCHMARK_SCHEDULER,
+  BENCHMARK_WORKERS,
+  CASSETTES,
   isStorageConfigured,
   NODE_ENV,
   IS_PRODUCTION,
@@ -57,6 +57,9 @@ export function getIndexMappings(): IndexMappings {
           forwardedProps: { type: 'object', enabled: false },
           expectedOutcome: { type: 'text' },
           expectedTrajectory: { type: 'object', enabled: false },
+          assertions: { type: 'object', enabled: false },
+          followUpQuestions: { type: 'object', enabled: false },
+          rubric: { type: 'object', enabled: false },
           category: { type: 'keyword' },
           difficulty: { type: 'keyword' },
           tags: { type: 'keyword' },
@@ -81,6 +84,13 @@ export function getIndexMappings(): IndexMappings {
           createdAt: { type: 'date' },
           llmJudgePrompt: { type: 'text' },
           testCaseIds: { type: 'keyword' },
+          rubric: { type: 'object', enabled: false },
+          versions: {
+            properties: {
+              rubric: { type: 'object', enabled: false },
+            },
+          },
+          schedules: { type: 'object', enabled: false },
           runs: {
             type: 'nested',
             properties: {
@@ -131,6 +141,7 @@ export function getIndexMappings(): IndexMappings {
               faithfulness: { type: 'float' },
               latency_score: { type: 'float' },
               trajectory_alignment_score: { type: 'float' },
+              pplMatch: { type: 'float' },
             },
           },
           annotations: {
@@ -148,6 +159,17 @@ export function getIndexMappings(): IndexMappings {
           logs: { type: 'object', enabled: false },
           rawEvents: { type: 'object', enabled: false },
           improvementStrategies: { type: 'object', enabled: false },
+          assertionResults: { type: 'object', enabled: false },
+          turns: { type: 'object', enabled: false },
+          judgeResponses: { type: 'object', enabled: false },
+          judgeAgreement: { type: 'float' },
+          rubric: { type: 'object', enabled: false },
+          judgeModelId: { type: 'keyword' },
+          judgeHistory: { type: 'object', enabled: false },
+          executionAttempts: { type: 'integer' },
+          timeoutReason: { type: 'text' },
+          budgetExceededReason: { type: 'text' },
+          tokenUsage: { type: 'object', enabled: false },
           spans: { type: 'object', enabled: false },
           metricsStatus: { type: 'keyword' },
           traceFetchAttempts: { type: 'integer' },
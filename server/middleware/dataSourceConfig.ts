@@ -43,8 +43,11 @@ export const STORAGE_INDEXES = {
  * 1. File config (agent-health.yaml)
  * 2. Environment variables (OPENSEARCH_STORAGE_*)
  * 3. null (not configured)
+ *
+ * The request is optional so background work (e.g. the job queue) can resolve
+ * the same data source outside a request.
  */
-export function resolveStorageConfig(req: Request): StorageClusterConfig | null {
+export function resolveStorageConfig(req?: Request): StorageClusterConfig | null {
   // 1. Check file config first
   const fileConfig = getStorageConfigFromFile();
   if (fileConfig) {
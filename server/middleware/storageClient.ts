@@ -128,6 +128,16 @@ export function getStorageClient(req: Request): Client | null {
   return req.storageClient;
 }
 
+/**
+ * Get a storage client for the configured data source without a request
+ * Used by background work such as resuming queued benchmark jobs after a restart.
+ * Returns null if storage is not configured.
+ */
+export function getDefaultStorageClient(): Client | null {
+  const config = resolveStorageConfig();
+  return config ? getOrCreateClient(config) : null;
+}
+
 /**
  * Index names for storage (same as opensearchClient.ts for consistency)
  * Note: benchmarks key uses old index name 'evals_experiments' for data compatibility
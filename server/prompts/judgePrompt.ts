@@ -8,9 +8,49 @@
  *
  * This prompt instructs the LLM to evaluate agent performance against expected outcomes.
  * The judge outputs accuracy (0-100) and pass/fail status.
+ * Test cases and benchmarks with a rubric use RUBRIC_JUDGE_SYSTEM_PROMPT instead,
+ * which defers the grading rules to the rubric rendered in the evaluation prompt.
+ * Head-to-head comparisons of two trajectories use PAIRWISE_JUDGE_SYSTEM_PROMPT.
  */
 
-const JUDGE_SYSTEM_PROMPT = `You are an expert evaluator for observability and Root Cause Analysis (RCA) agents. Your task is to evaluate how well an agent performed against expected outcomes.
+import type { JudgeRubric } from '@/types';
+import { formatRubricLabel, getPassThreshold, getWeightedCriteria } from '@/lib/rubric';
+
+/** Response format shared by every judge prompt (parsed by parseJudgeResponseText) */
+const JUDGE_OUTPUT_FORMAT = `## Output Format
+
+You MUST respond with this JSON structure:
+
+\`\`\`json
+{
+  "pass_fail_status": "passed" | "failed",
+  "accuracy": <number 0-100>,
+  "reasoning": "<detailed explanation>",
+  "improvement_strategies": [
+    {
+      "category": "<category like 'Tool Usage', 'Analysis Depth', 'Reasoning'>",
+      "issue": "<brief description of what could be improved>",
+      "recommendation": "<specific actionable suggestion>",
+      "priority": "high" | "medium" | "low"
+    }
+  ]
+}
+\`\`\`
+
+## Improvement Strategies Guidelines
+
+Provide 1-3 improvement strategies, especially for failed evaluations:
+- **high priority**: Critical issues that caused failure or major gaps
+- **medium priority**: Areas that could enhance the analysis
+- **low priority**: Minor suggestions for optimization
+
+Categories include: Tool Usage, Analysis Depth, Reasoning, Data Correlation, Communication
+
+IMPORTANT:
+- The accuracy field must be at the TOP LEVEL, not inside a metrics object
+- Always include improvement_strategies array (can be empty for excellent performance)`;
+
+const JUDGE_SYSTEM_PROMPT_INTRO = `You are an expert evaluator for observability and Root Cause Analysis (RCA) agents. Your task is to evaluate how well an agent performed against expected outcomes.
 
 ## Your Task
 
@@ -40,7 +80,54 @@ For each expected outcome, determine if the agent:
 Critical failures include:
 - Completely wrong conclusions
 - Missing critical investigation steps
-- Hallucinated or fabricated data
+- Hallucinated or fabricated data`;
+
+const JUDGE_SYSTEM_PROMPT = `${JUDGE_SYSTEM_PROMPT_INTRO}
+
+${JUDGE_OUTPUT_FORMAT}
+
+Be thorough in your reasoning - explain which outcomes were met and which were not.`;
+
+/**
+ * Domain-neutral judge prompt for rubric-graded evaluations
+ */
+const RUBRIC_JUDGE_SYSTEM_PROMPT = `You are an expert evaluator of AI agents. Your task is to grade how well an agent performed using the evaluation rubric provided with each task.
+
+## Your Task
+
+1. **Analyze the agent's trajectory**: Review the agent's thoughts, actions, tool calls, and outputs
+2. **Score each rubric criterion**: Give every criterion a score from 0 to 100, using the expected outcomes (if any) as the facts the agent should have found
+3. **Calculate accuracy**: The weighted average of the criterion scores, using the weights given in the rubric, rounded to the nearest integer
+4. **Determine pass/fail**: Apply the rubric's pass threshold and critical failures
+
+## Pass/Fail Determination
+
+- **PASS**: accuracy >= the rubric's pass threshold AND none of the rubric's critical failures occurred
+- **FAIL**: accuracy below the pass threshold OR any critical failure occurred
+
+Follow the rubric exactly. Do not apply grading rules that are not in the rubric.
+
+${JUDGE_OUTPUT_FORMAT}
+
+Be thorough in your reasoning - give each criterion's score with a short justification, and name any critical failure.`;
+
+/**
+ * Judge prompt for comparing two trajectories for the same task
+ */
+const PAIRWISE_JUDGE_SYSTEM_PROMPT = `You are an expert evaluator of AI agents. Your task is to compare two agent trajectories for the same task and decide which one is better.
+
+## Your Task
+
+1. **Analyze both trajectories**: Review each agent's thoughts, actions, tool calls, and outputs
+2. **Compare against the expected outcomes**: Decide which trajectory achieves more of the expected outcomes, more correctly (follow the evaluation rubric instead when one is provided)
+3. **Pick a winner**: "A" or "B" for the better trajectory, or "tie" when neither is meaningfully better
+
+## Comparison Guidelines
+
+- Judge the quality of the result first, then the quality of the investigation
+- Do not let the order in which the trajectories are presented influence your decision
+- Do not prefer a trajectory for being longer or using more tools
+- Hallucinated or fabricated data outweighs any other strength
 
 ## Output Format
 
@@ -48,33 +135,46 @@ You MUST respond with this JSON structure:
 
 \`\`\`json
 {
-  "pass_fail_status": "passed" | "failed",
-  "accuracy": <number 0-100>,
-  "reasoning": "<detailed explanation>",
-  "improvement_strategies": [
-    {
-      "category": "<category like 'Tool Usage', 'Analysis Depth', 'Reasoning'>",
-      "issue": "<brief description of what could be improved>",
-      "recommendation": "<specific actionable suggestion>",
-      "priority": "high" | "medium" | "low"
-    }
-  ]
+  "winner": "A" | "B" | "tie",
+  "reasoning": "<explanation of the key differences that decided the winner>"
 }
-\`\`\`
+\`\`\``;
 
-## Improvement Strategies Guidelines
-
-Provide 1-3 improvement strategies, especially for failed evaluations:
-- **high priority**: Critical issues that caused failure or major gaps
-- **medium priority**: Areas that could enhance the analysis
-- **low priority**: Minor suggestions for optimization
-
-Categories include: Tool Usage, Analysis Depth, Reasoning, Data Correlation, Communication
-
-IMPORTANT:
-- The accuracy field must be at the TOP LEVEL, not inside a metrics object
-- Always include improvement_strategies array (can be empty for excellent performance)
+/**
+ * System prompt for an evaluation: the rubric-driven prompt when a rubric is set
+ */
+function getJudgeSystemPrompt(rubric?: JudgeRubric): string {
+  return rubric ? RUBRIC_JUDGE_SYSTEM_PROMPT : JUDGE_SYSTEM_PROMPT;
+}
 
-Be thorough in your reasoning - explain which outcomes were met and which were not.`;
+/**
+ * Render a rubric as the "Evaluation Rubric" section of the evaluation prompt
+ */
+function buildRubricPromptSection(rubric: JudgeRubric): string {
+  const criteria = getWeightedCriteria(rubric)
+    .map((c, i) => `${i + 1}. **${c.name}** (weight ${c.weight}, ${Math.round(c.share * 100)}% of accuracy): ${c.description}`)
+    .join('\n');
+
+  const lines = [`## Evaluation Rubric: ${formatRubricLabel(rubric)}`];
+  if (rubric.description?.trim()) {
+    lines.push('', rubric.description.trim());
+  }
+  lines.push('', '### Criteria', criteria);
+  lines.push('', '### Pass Threshold', `accuracy >= ${getPassThreshold(rubric)}`);
+
+  const criticalFailures = rubric.criticalFailures?.filter(f => f.trim()) ?? [];
+  lines.push('', '### Critical Failures');
+  lines.push(criticalFailures.length > 0
+    ? `Any of these fails the evaluation regardless of accuracy:\n${criticalFailures.map(f => `- ${f}`).join('\n')}`
+    : 'None defined.');
+
+  return lines.join('\n');
+}
 
-export { JUDGE_SYSTEM_PROMPT };
+export {
+  JUDGE_SYSTEM_PROMPT,
+  RUBRIC_JUDGE_SYSTEM_PROMPT,
+  PAIRWISE_JUDGE_SYSTEM_PROMPT,
+  getJudgeSystemPrompt,
+  buildRubricPromptSection,
+};
@@ -44,8 +44,8 @@ function validateEndpointUrl(url: string): string | null {
 router.get('/api/agents', (req: Request, res: Response) => {
   try {
     const config = loadConfigSync();
-    // Strip hooks (functions can't be serialized to JSON)
-    const configAgents = config.agents.map(({ hooks, ...rest }) => rest);
+    // Strip hooks (functions can't be serialized to JSON) and auth (may hold AWS keys)
+    const configAgents = config.agents.map(({ hooks, auth, ...rest }) => rest);
     const customAgents = getCustomAgents();
     const agents = [...configAgents, ...customAgents];
     res.json({
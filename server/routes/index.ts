@@ -18,6 +18,8 @@ import storageRoutes from './storage';
 import observabilityRoutes from './observability';
 import configRoutes from './config';
 import evaluationRoutes from './evaluation';
+import jobRoutes from './jobs';
+import workerRoutes from './workers';
 
 const router = Router();
 
@@ -38,5 +40,7 @@ router.use(storageRoutes);       // /api/storage/*
 router.use(observabilityRoutes); // /api/observability/*
 router.use(configRoutes);        // /api/agents, /api/models
 router.use(evaluationRoutes);    // /api/evaluate
+router.use(jobRoutes);           // /api/jobs
+router.use(workerRoutes);        // /api/workers
 
 export default router;
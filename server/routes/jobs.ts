@@ -0,0 +1,128 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Job Routes - Inspect and control benchmark runs in the server job queue
+ *
+ * Jobs are created by POST /api/storage/benchmarks/:id/execute. These
+ * endpoints let any client list them, reattach to their progress stream,
+ * and pause, resume, or cancel them.
+ */
+
+import { Router, Request, Response } from 'express';
+import { jobQueue, isJobFinished, isTerminalJobEvent } from '../services/jobQueue.js';
+
+const router = Router();
+
+/**
+ * GET /api/jobs - List jobs, newest first
+ */
+router.get('/api/jobs', (_req: Request, res: Response) => {
+  const jobs = jobQueue.list();
+  res.json({ jobs, total: jobs.length });
+});
+
+/**
+ * GET /api/jobs/:id - Get a single job
+ */
+router.get('/api/jobs/:id', (req: Request, res: Response) => {
+  const job = jobQueue.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  res.json(job);
+});
+
+/**
+ * GET /api/jobs/:id/events - Stream a job's events via SSE
+ *
+ * Sends a `job` snapshot first, then progress events until the run
+ * completes, is cancelled, or fails. The stream ends right after the
+ * snapshot if the job has already finished.
+ */
+router.get('/api/jobs/:id/events', (req: Request, res: Response) => {
+  const job = jobQueue.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  res.write(`data: ${JSON.stringify({ type: 'job', job })}\n\n`);
+  if (isJobFinished(job)) {
+    res.end();
+    return;
+  }
+
+  const unsubscribe = jobQueue.subscribe(job.id, (event) => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+    if (isTerminalJobEvent(event)) {
+      unsubscribe();
+      res.end();
+    }
+  });
+  req.on('close', unsubscribe);
+});
+
+/**
+ * POST /api/jobs/:id/pause - Pause a job once its test cases in flight finish
+ */
+router.post('/api/jobs/:id/pause', (req: Request, res: Response) => {
+  const { id } = req.params;
+  if (!jobQueue.get(id)) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  if (!jobQueue.pause(id)) {
+    return res.status(409).json({ error: 'Only queued or running jobs can be paused' });
+  }
+  res.json(jobQueue.get(id));
+});
+
+/**
+ * POST /api/jobs/:id/resume - Resume a paused job
+ */
+router.post('/api/jobs/:id/resume', (req: Request, res: Response) => {
+  const { id } = req.params;
+  if (!jobQueue.get(id)) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  if (!jobQueue.resume(id)) {
+    return res.status(409).json({ error: 'Only paused jobs can be resumed' });
+  }
+  res.json(jobQueue.get(id));
+});
+
+/**
+ * POST /api/jobs/:id/cancel - Cancel a job
+ */
+router.post('/api/jobs/:id/cancel', (req: Request, res: Response) => {
+  const { id } = req.params;
+  if (!jobQueue.get(id)) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  if (!jobQueue.cancel(id)) {
+    return res.status(409).json({ error: 'Job has already finished' });
+  }
+  res.json(jobQueue.get(id));
+});
+
+/**
+ * DELETE /api/jobs/:id - Remove a finished job from the list
+ */
+router.delete('/api/jobs/:id', (req: Request, res: Response) => {
+  const { id } = req.params;
+  if (!jobQueue.get(id)) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  if (!jobQueue.remove(id)) {
+    return res.status(409).json({ error: 'Only finished jobs can be removed' });
+  }
+  res.json({ deleted: true, id });
+});
+
+export default router;
@@ -8,72 +8,21 @@
  */
 
 import { Request, Response, Router } from 'express';
-import { evaluateTrajectory, parseBedrockError } from '../services/bedrockService';
+import { judgeRegistry, type ResolvedJudge } from '@/services/judges';
+import { combinePairwiseVerdicts, unswapWinner } from '@/lib/pairwiseJudge';
+import type { PairwiseJudgment } from '@/types';
 import { loadConfigSync } from '../../lib/config/index';
 
 const router = Router();
 
-/**
- * Generate mock evaluation result for demo mode
- */
-function generateMockEvaluation(trajectory: any[], expectedOutcomes: string[]): any {
-  // Simulate realistic evaluation based on trajectory content
-  const hasToolCalls = trajectory.some((step: any) => step.type === 'action' || step.toolName);
-  const hasConclusion = trajectory.some((step: any) =>
-    step.type === 'response' || (step.content && step.content.toLowerCase().includes('root cause'))
-  );
-
-  // Base accuracy on trajectory quality
-  let accuracy = 0.7;
-  if (hasToolCalls) accuracy += 0.1;
-  if (hasConclusion) accuracy += 0.1;
-  accuracy = Math.min(accuracy + (Math.random() * 0.1), 1.0);
-
-  const passFailStatus = accuracy >= 0.7 ? 'passed' : 'failed';
-
-  const accuracyPct = Math.round(accuracy * 100);
-  return {
-    passFailStatus,
-    metrics: {
-      accuracy: accuracyPct,
-      faithfulness: Math.round((accuracy - 0.05 + Math.random() * 0.1) * 100),
-      latency_score: Math.round((0.8 + Math.random() * 0.2) * 100),
-      trajectory_alignment_score: Math.round((accuracy - 0.1 + Math.random() * 0.2) * 100),
-    },
-    llmJudgeReasoning: `**Mock Evaluation Result**
-
-The agent demonstrated ${passFailStatus === 'passed' ? 'appropriate' : 'incomplete'} RCA methodology:
-
-${hasToolCalls ? '✅ Used diagnostic tools to gather system information' : '❌ Did not use diagnostic tools'}
-${hasConclusion ? '✅ Provided a clear root cause identification' : '❌ Missing clear root cause conclusion'}
-
-**Expected Outcomes Coverage:**
-${expectedOutcomes?.map((outcome, i) => `${i + 1}. "${outcome.substring(0, 50)}..." - ${Math.random() > 0.3 ? '✅ Addressed' : '⚠️ Partially addressed'}`).join('\n') || 'No expected outcomes provided'}
-
-*Note: This is a simulated evaluation for demo purposes.*`,
-    improvementStrategies: passFailStatus === 'failed' ? [
-      {
-        category: 'Tool Usage',
-        issue: 'Insufficient diagnostic tool usage',
-        recommendation: 'Consider using more diagnostic tools before drawing conclusions',
-        priority: 'high'
-      },
-      {
-        category: 'Analysis Depth',
-        issue: 'Reasoning could be more detailed',
-        recommendation: 'Provide more detailed reasoning connecting observations to root cause',
-        priority: 'medium'
-      }
-    ] : []
-  };
-}
-
 /**
  * POST /api/judge - Evaluate agent trajectory
  */
 router.post('/api/judge', async (req: Request, res: Response) => {
+  let resolved: ResolvedJudge | undefined;
+
   try {
-    const { trajectory, expectedOutcomes, expectedTrajectory, logs, modelId } = req.body;
+    const { trajectory, expectedOutcomes, expectedTrajectory, logs, modelId, rubric } = req.body;
 
     // Validate required fields
     if (!trajectory) {
@@ -88,44 +37,94 @@ router.post('/api/judge', async (req: Request, res: Response) => {
       });
     }
 
-    // Determine provider from model config
-    // Look up by model key first, then by model_id for full Bedrock model IDs
+    // Resolve judge from model config (by key, then by model_id for full provider IDs)
+    // Unknown models default to the bedrock judge
     const config = loadConfigSync();
-    let modelConfig = config.models[modelId];
-    if (!modelConfig) {
-      // Try to find by model_id (in case full Bedrock ID was passed)
-      modelConfig = Object.values(config.models).find(m => m.model_id === modelId);
-    }
-    const provider = modelConfig?.provider || 'bedrock';
+    resolved = judgeRegistry.getForModel(modelId, config.models);
+    const { judge } = resolved;
 
-    // Route to appropriate provider
-    if (provider === 'demo') {
-      console.log('[JudgeAPI] Demo provider - returning mock evaluation');
-      const mockResult = generateMockEvaluation(trajectory, expectedOutcomes);
-      return res.json(mockResult);
-    }
+    console.log('[JudgeAPI] Using provider:', judge.type, 'model:', resolved.modelId);
 
-    // For now, only bedrock is supported for real evaluation
-    // Future: add ollama, openai providers here
-    // Use the resolved model_id from config, not the key
-    const resolvedModelId = modelConfig?.model_id || modelId;
-    console.log('[JudgeAPI] Using provider:', provider, 'model:', resolvedModelId);
-    const result = await evaluateTrajectory({
-      trajectory,
-      expectedOutcomes,
-      expectedTrajectory,
-      logs
-    }, resolvedModelId);
+    const result = await judge.evaluate(
+      { trajectory, expectedOutcomes, expectedTrajectory, logs, rubric },
+      { modelId: resolved.modelId, modelConfig: resolved.modelConfig }
+    );
 
-    res.json(result);
+    res.json({ ...result, provider: judge.type });
 
   } catch (error: any) {
     console.error('[JudgeAPI] Error during evaluation:', error);
 
-    const errorMessage = parseBedrockError(error);
+    const judge = resolved?.judge;
+    const errorMessage = judge?.formatError ? judge.formatError(error) : error.message;
+    const label = judge ? `${judge.name} Judge` : 'Judge';
+
+    res.status(500).json({
+      error: `${label} evaluation failed: ${errorMessage}`,
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/judge/pairwise - Decide which of two trajectories is better
+ * Each pair is judged twice with the order swapped; a side only wins when both orders agree.
+ */
+router.post('/api/judge/pairwise', async (req: Request, res: Response) => {
+  let resolved: ResolvedJudge | undefined;
+
+  try {
+    const { trajectoryA, trajectoryB, prompt, expectedOutcomes, expectedTrajectory, modelId, rubric } = req.body;
+
+    // Validate required fields
+    if (!Array.isArray(trajectoryA) || !Array.isArray(trajectoryB)) {
+      return res.status(400).json({
+        error: 'Missing required fields: trajectoryA and trajectoryB'
+      });
+    }
+
+    const config = loadConfigSync();
+    resolved = judgeRegistry.getForModel(modelId, config.models);
+    const { judge } = resolved;
+
+    if (!judge.comparePair) {
+      return res.status(400).json({
+        error: `${judge.name} judge does not support pairwise comparison`
+      });
+    }
+
+    console.log('[JudgeAPI] Pairwise comparison with provider:', judge.type, 'model:', resolved.modelId);
+
+    const options = { modelId: resolved.modelId, modelConfig: resolved.modelConfig };
+    const expected = { prompt, expectedOutcomes, expectedTrajectory, rubric };
+    const [inOrder, swapped] = await Promise.all([
+      judge.comparePair({ ...expected, first: trajectoryA, second: trajectoryB }, options),
+      judge.comparePair({ ...expected, first: trajectoryB, second: trajectoryA }, options),
+    ]);
+
+    const judgment: PairwiseJudgment = {
+      ...combinePairwiseVerdicts([
+        { order: 'AB', winner: inOrder.winner, reasoning: inOrder.reasoning },
+        { order: 'BA', winner: unswapWinner(swapped.winner), reasoning: swapped.reasoning },
+      ]),
+      provider: judge.type,
+    };
+
+    res.json({
+      ...judgment,
+      promptTokens: (inOrder.promptTokens ?? 0) + (swapped.promptTokens ?? 0),
+      completionTokens: (inOrder.completionTokens ?? 0) + (swapped.completionTokens ?? 0),
+    });
+
+  } catch (error: any) {
+    console.error('[JudgeAPI] Error during pairwise comparison:', error);
+
+    const judge = resolved?.judge;
+    const errorMessage = judge?.formatError ? judge.formatError(error) : error.message;
+    const label = judge ? `${judge.name} Judge` : 'Judge';
 
     res.status(500).json({
-      error: `Bedrock Judge evaluation failed: ${errorMessage}`,
+      error: `${label} pairwise comparison failed: ${errorMessage}`,
       details: error.message
     });
   }
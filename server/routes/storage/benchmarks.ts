@@ -14,13 +14,21 @@ import { Router, Request, Response } from 'express';
 import { isStorageAvailable, requireStorageClient, INDEXES } from '../../middleware/storageClient.js';
 import { SAMPLE_BENCHMARKS, isSampleBenchmarkId } from '../../../cli/demo/sampleBenchmarks.js';
 import { SAMPLE_TEST_CASES } from '../../../cli/demo/sampleTestCases.js';
-import { Benchmark, BenchmarkRun, BenchmarkProgress, RunConfigInput, TestCase, BenchmarkVersion, TestCaseSnapshot, StorageMetadata, RunStats, EvaluationReport } from '../../../types/index.js';
-import {
-  executeRun,
-  createCancellationToken,
-  CancellationToken,
-} from '../../../services/benchmarkRunner.js';
+import { Benchmark, BenchmarkRun, BenchmarkSchedule, BenchmarkScheduleInput, MatrixRunConfig, MatrixRunResponse, RunConfigInput, TestCase, BenchmarkVersion, StorageMetadata, RunStats, EvaluationReport } from '../../../types/index.js';
+import { computeBenchmarkRunStatsWithClient, replaceBenchmarkRunWithClient, updateBenchmarkScheduleWithClient } from '../../services/storage/index.js';
+import { jobQueue, isJobFinished, isTerminalJobEvent } from '../../services/jobQueue.js';
+import { createBenchmarkRun, startBenchmarkRuns } from '../../services/benchmarkExecution.js';
+import { rejudgeBenchmarkRun, validateRejudgeOptions } from '../../../services/rejudge.js';
+import { getNextCronTime, validateCronExpression } from '../../../lib/cron.js';
 import { convertTestCasesToExportFormat, generateExportFilename } from '../../../lib/benchmarkExport.js';
+import { validateJudgeEnsemble } from '../../../lib/judgeEnsemble.js';
+import { rubricsEqual } from '../../../lib/rubric.js';
+import { validateRunConcurrency } from '../../../lib/runConcurrency.js';
+import { validateRunIterations } from '../../../lib/runIterations.js';
+import { validateRunBudget } from '../../../lib/runBudget.js';
+import { prepareRunForRetry } from '../../../lib/runRetry.js';
+import { expandMatrixRun, validateMatrixRunConfig } from '../../../lib/runMatrix.js';
+import { validateRubricJson } from '../../../lib/testCaseValidation.js';
 
 /**
  * Normalize benchmark data for legacy documents without version fields.
@@ -81,7 +89,7 @@ async function backfillRunStats(
 
   await Promise.all(runsNeedingStats.map(async (run) => {
     try {
-      const stats = await computeStatsForRun(client, run);
+      const stats = await computeBenchmarkRunStatsWithClient(client, run);
       run.stats = stats;
 
       // Persist back to OpenSearch (fire-and-forget)
@@ -111,143 +119,6 @@ async function backfillRunStats(
   }));
 }
 
-/**
- * Compute stats for a benchmark run by fetching its reports
- */
-async function computeStatsForRun(
-  client: any,
-  run: BenchmarkRun
-): Promise<RunStats> {
-  // Collect report IDs from run results
-  const reportIds = Object.values(run.results || {})
-    .map(r => r.reportId)
-    .filter(Boolean);
-
-  let passed = 0;
-  let failed = 0;
-  let pending = 0;
-  const total = Object.keys(run.results || {}).length;
-
-  // Fetch reports to get passFailStatus
-  if (reportIds.length > 0) {
-    try {
-      const reportsResult = await client.search({
-        index: INDEXES.runs,
-        body: {
-          size: reportIds.length,
-          query: {
-            terms: { 'id': reportIds },
-          },
-          _source: ['id', 'passFailStatus', 'metricsStatus', 'status'],
-        },
-      });
-
-      const reportsMap = new Map<string, any>();
-      (reportsResult.body.hits?.hits || []).forEach((hit: any) => {
-        reportsMap.set(hit._source.id, hit._source);
-      });
-
-      // Count stats based on result status and report passFailStatus
-      Object.values(run.results || {}).forEach((result) => {
-        if (result.status === 'pending' || result.status === 'running') {
-          pending++;
-          return;
-        }
-
-        if (result.status === 'failed' || result.status === 'cancelled') {
-          failed++;
-          return;
-        }
-
-        // For completed results, check the report
-        if (result.status === 'completed' && result.reportId) {
-          const report = reportsMap.get(result.reportId);
-          if (!report) {
-            pending++;
-            return;
-          }
-
-          // Check if evaluation is still pending (trace mode)
-          if (report.metricsStatus === 'pending' || report.metricsStatus === 'calculating') {
-            pending++;
-            return;
-          }
-
-          if (report.passFailStatus === 'passed') {
-            passed++;
-          } else {
-            failed++;
-          }
-        } else {
-          pending++;
-        }
-      });
-    } catch (e: any) {
-      console.warn('[StorageAPI] Failed to fetch reports for stats computation:', e.message);
-      // Fall back to counting by result status only
-      Object.values(run.results || {}).forEach((result) => {
-        if (result.status === 'completed') {
-          // Can't determine pass/fail without reports, count as pending
-          pending++;
-        } else if (result.status === 'failed' || result.status === 'cancelled') {
-          failed++;
-        } else {
-          pending++;
-        }
-      });
-    }
-  } else {
-    // No reports yet, count by result status
-    Object.values(run.results || {}).forEach((result) => {
-      if (result.status === 'failed' || result.status === 'cancelled') {
-        failed++;
-      } else {
-        pending++;
-      }
-    });
-  }
-
-  return { passed, failed, pending, total };
-}
-
-/**
- * Atomically update a single test case result within a benchmark run.
- * Used for persisting intermediate progress during benchmark execution.
- */
-async function updateTestCaseResult(
-  client: any,
-  benchmarkId: string,
-  runId: string,
-  testCaseId: string,
-  result: { reportId: string; status: string }
-): Promise<void> {
-  await client.update({
-    index: INDEX,
-    id: benchmarkId,
-    retry_on_conflict: 3,
-    body: {
-      script: {
-        source: `
-          for (int i = 0; i < ctx._source.runs.size(); i++) {
-            if (ctx._source.runs[i].id == params.runId) {
-              if (ctx._source.runs[i].results == null) {
-                ctx._source.runs[i].results = new HashMap();
-              }
-              ctx._source.runs[i].results[params.testCaseId] = params.result;
-              break;
-            }
-          }
-        `,
-        params: { runId, testCaseId, result },
-      },
-    },
-    refresh: false, // Don't wait for refresh on intermediate updates
-  });
-}
-
-// Registry of active cancellation tokens for in-progress runs
-const activeRuns = new Map<string, CancellationToken>();
-
 function generateId(prefix: string): string {
   return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
 }
@@ -276,9 +147,55 @@ function validateRunConfig(config: any): string | null {
   if (!config.modelId || typeof config.modelId !== 'string') {
     return 'modelId is required and must be a string';
   }
+  if (config.judgeEnsemble !== undefined) {
+    const ensembleError = validateJudgeEnsemble(config.judgeEnsemble);
+    if (ensembleError) return ensembleError;
+  }
+  return validateRunConcurrency(config.concurrency)
+    ?? validateRunIterations(config.iterations)
+    ?? validateRunBudget(config.budget);
+}
+
+/**
+ * Validate schedule input; with `partial`, only the fields present are checked
+ * Returns error message if invalid, null if valid
+ */
+function validateScheduleInput(input: any, partial: boolean): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Request body must be a valid schedule object';
+  }
+  if (!partial || input.cron !== undefined) {
+    const cronError = validateCronExpression(input.cron);
+    if (cronError) return cronError;
+  }
+  if (!partial || input.runConfig !== undefined) {
+    const runConfigError = validateRunConfig(input.runConfig);
+    if (runConfigError) return `runConfig: ${runConfigError}`;
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
   return null;
 }
 
+/**
+ * Next fire time of an enabled schedule, counted from now (undefined while disabled)
+ */
+function computeNextFireAt(cron: string, enabled: boolean): string | undefined {
+  return enabled ? getNextCronTime(cron, new Date())?.toISOString() : undefined;
+}
+
+/**
+ * Validate an optional benchmark rubric
+ * Returns error message if invalid, null if valid or absent
+ */
+function validateBenchmarkRubric(rubric: unknown): string | null {
+  if (rubric === undefined || rubric === null) return null;
+  const result = validateRubricJson(rubric);
+  if (result.valid) return null;
+  return `Invalid rubric: ${result.errors.map(e => (e.path ? `${e.path}: ${e.message}` : e.message)).join('; ')}`;
+}
+
 /**
  * Get all test cases (sample + real) for lookups
  */
@@ -577,6 +494,11 @@ router.post('/api/storage/benchmarks', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Cannot create benchmark with demo- prefix (reserved for sample data)' });
     }
 
+    const rubricError = validateBenchmarkRubric(benchmark.rubric);
+    if (rubricError) {
+      return res.status(400).json({ error: rubricError });
+    }
+
     // Require OpenSearch for writes
     if (!isStorageAvailable(req)) {
       return res.status(400).json({ error: 'OpenSearch not configured. Cannot create benchmarks in sample-only mode.' });
@@ -595,6 +517,7 @@ router.post('/api/storage/benchmarks', async (req: Request, res: Response) => {
       version: 1,
       createdAt: now,
       testCaseIds: benchmark.testCaseIds || [],
+      ...(benchmark.rubric && { rubric: benchmark.rubric }),
     }];
 
     benchmark.runs = (benchmark.runs || []).map((run: any) => ({
@@ -625,17 +548,22 @@ function testCaseIdsChanged(oldIds: string[], newIds: string[]): boolean {
   return sortedOld.some((id, i) => id !== sortedNew[i]);
 }
 
-// PUT /api/storage/benchmarks/:id - Update benchmark (creates new version if testCaseIds changed)
+// PUT /api/storage/benchmarks/:id - Update benchmark (creates new version if testCaseIds or rubric changed)
 router.put('/api/storage/benchmarks/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { name, description, testCaseIds, runs } = req.body;
+    const { name, description, testCaseIds, rubric, runs } = req.body;
 
     // Reject modifying sample data
     if (isSampleId(id)) {
       return res.status(400).json({ error: 'Cannot modify sample data. Sample benchmarks are read-only.' });
     }
 
+    const rubricError = validateBenchmarkRubric(rubric);
+    if (rubricError) {
+      return res.status(400).json({ error: rubricError });
+    }
+
     // Require OpenSearch for writes
     if (!isStorageAvailable(req)) {
       return res.status(400).json({ error: 'OpenSearch not configured. Cannot update benchmarks in sample-only mode.' });
@@ -652,19 +580,22 @@ router.put('/api/storage/benchmarks/:id', async (req: Request, res: Response) =>
     const existing = normalizeBenchmark(getResult.body._source);
     const now = new Date().toISOString();
 
-    // Check if test cases changed (triggers new version)
+    // Check if test cases or the rubric changed (triggers new version); rubric: null removes it
     const newTestCaseIds = testCaseIds ?? existing.testCaseIds;
     const hasTestCaseChanges = testCaseIds !== undefined && testCaseIdsChanged(existing.testCaseIds, testCaseIds);
+    const newRubric = rubric === undefined ? existing.rubric : rubric ?? undefined;
+    const hasRubricChanges = rubric !== undefined && !rubricsEqual(existing.rubric, newRubric);
 
     let updated: Benchmark;
 
-    if (hasTestCaseChanges) {
-      // Test cases changed - create new version
+    if (hasTestCaseChanges || hasRubricChanges) {
+      // Test cases or rubric changed - create new version
       const newVersion = existing.currentVersion + 1;
       const newVersionEntry: BenchmarkVersion = {
         version: newVersion,
         createdAt: now,
         testCaseIds: newTestCaseIds,
+        ...(newRubric && { rubric: newRubric }),
       };
 
       updated = {
@@ -675,9 +606,11 @@ router.put('/api/storage/benchmarks/:id', async (req: Request, res: Response) =>
         currentVersion: newVersion,
         versions: [...existing.versions, newVersionEntry],
         testCaseIds: newTestCaseIds,
+        rubric: newRubric,
       };
 
-      console.log(`[StorageAPI] Updated benchmark: ${id} (v${existing.currentVersion} → v${newVersion}, test cases changed)`);
+      const changed = [hasTestCaseChanges && 'test cases', hasRubricChanges && 'rubric'].filter(Boolean).join(' and ');
+      console.log(`[StorageAPI] Updated benchmark: ${id} (v${existing.currentVersion} → v${newVersion}, ${changed} changed)`);
     } else {
       // Metadata only - no version change
       updated = {
@@ -936,6 +869,28 @@ router.post('/api/storage/benchmarks/bulk', async (req: Request, res: Response)
   }
 });
 
+/**
+ * Write a job's events to an SSE response until its run finishes or the
+ * client disconnects. Execution continues in the background after a
+ * disconnect; the client can reattach via GET /api/jobs/:id/events.
+ */
+async function streamJobEvents(req: Request, res: Response, jobId: string): Promise<void> {
+  await new Promise<void>((resolve) => {
+    const unsubscribe = jobQueue.subscribe(jobId, (event) => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+      if (isTerminalJobEvent(event)) {
+        unsubscribe();
+        resolve();
+      }
+    });
+    req.on('close', () => {
+      unsubscribe();
+      resolve();
+    });
+  });
+  res.end();
+}
+
 // POST /api/storage/benchmarks/:id/execute - Execute benchmark and stream progress via SSE
 router.post('/api/storage/benchmarks/:id/execute', async (req: Request, res: Response) => {
   console.log('[Execute] ========== BENCHMARK EXECUTION STARTED ==========');
@@ -982,31 +937,8 @@ router.post('/api/storage/benchmarks/:id/execute', async (req: Request, res: Res
     console.log('[Execute] Found', allTestCases.length, 'test cases');
     const testCaseMap = new Map(allTestCases.map((tc: any) => [tc.id, tc]));
 
-    // Capture test case snapshots at execution time (for reproducibility)
-    const testCaseSnapshots: TestCaseSnapshot[] = benchmark.testCaseIds.map(tcId => {
-      const tc = testCaseMap.get(tcId);
-      return {
-        id: tcId,
-        version: (tc as any)?.currentVersion ?? 1,
-        name: tc?.name || tcId,
-      };
-    });
-
     // Create new run with 'running' status and version tracking
-    const run: BenchmarkRun = {
-      ...runConfig,
-      id: generateId('run'),
-      createdAt: new Date().toISOString(),
-      status: 'running',
-      benchmarkVersion: benchmark.currentVersion,
-      testCaseSnapshots,
-      results: {},
-    };
-
-    // Initialize pending status for all test cases
-    benchmark.testCaseIds.forEach(testCaseId => {
-      run.results[testCaseId] = { reportId: '', status: 'pending' };
-    });
+    const run = createBenchmarkRun(benchmark, runConfig, testCaseMap, 'running');
 
     // Setup SSE
     res.setHeader('Content-Type', 'text/event-stream');
@@ -1014,15 +946,9 @@ router.post('/api/storage/benchmarks/:id/execute', async (req: Request, res: Res
     res.setHeader('Connection', 'keep-alive');
     res.flushHeaders();
 
-    // Save run to benchmark immediately so it persists across page refreshes
-    // Also update updatedAt so benchmark appears at top of list (sorted by recent activity)
-    const initialRuns = [...(benchmark.runs || []), run];
-    await client.update({
-      index: INDEX,
-      id,
-      body: { doc: { runs: initialRuns, updatedAt: run.createdAt } },
-      refresh: true,
-    });
+    // Save run to benchmark immediately so it persists across page refreshes, and queue it
+    console.log('[Execute] Queueing run:', run.id, { agentKey: run.agentKey, modelId: run.modelId });
+    const [job] = await startBenchmarkRuns(client, benchmark, [run]);
 
     // Build test case list for progress display
     const testCasesForProgress = benchmark.testCaseIds.map(tcId => {
@@ -1034,135 +960,282 @@ router.post('/api/storage/benchmarks/:id/execute', async (req: Request, res: Res
     res.write(`data: ${JSON.stringify({
       type: 'started',
       runId: run.id,
+      jobId: run.jobId,
       testCases: testCasesForProgress,
     })}\n\n`);
 
-    // Create cancellation token
-    const cancellationToken = createCancellationToken();
-    activeRuns.set(run.id, cancellationToken);
+    // Stream the job's events until the run finishes
+    await streamJobEvents(req, res, job.id);
+  } catch (error: any) {
+    // Handle 404 from OpenSearch client.get()
+    if (error.meta?.statusCode === 404) {
+      if (!res.headersSent) {
+        return res.status(404).json({ error: 'Benchmark not found' });
+      }
+      return;
+    }
+    console.error('[StorageAPI] Execute benchmark failed:', error.message);
+    if (!res.headersSent) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+});
+
+// POST /api/storage/benchmarks/:id/matrix - Fan an agent × model × variant matrix out into runs
+router.post('/api/storage/benchmarks/:id/matrix', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const matrixConfig: MatrixRunConfig = req.body;
 
-    // Handle client disconnect - execution continues in background
-    req.on('close', () => {});
+  if (isSampleId(id)) {
+    return res.status(400).json({
+      error: 'Cannot execute sample benchmarks. Sample data is read-only with pre-completed runs.',
+    });
+  }
 
-    try {
-      // Execute the run
-      console.log('[Execute] Starting executeRun for run:', run.id);
-      console.log('[Execute] Run config:', { agentKey: run.agentKey, modelId: run.modelId });
-      const completedRun = await executeRun(
-        benchmark,
-        run,
-        (progress: BenchmarkProgress) => {
-          // Stream progress to client
-          console.log('[Execute] Progress:', progress.currentTestCaseIndex + 1, '/', progress.totalTestCases, 'status:', progress.status);
-          res.write(`data: ${JSON.stringify({ type: 'progress', ...progress })}\n\n`);
-        },
-        {
-          cancellationToken,
-          client,
-          onTestCaseComplete: async (testCaseId, result) => {
-            // Persist intermediate progress to OpenSearch for real-time polling
-            try {
-              await updateTestCaseResult(client, id, run.id, testCaseId, result);
-            } catch (err: any) {
-              console.warn(`[Execute] Failed to persist ${testCaseId}:`, err.message);
+  const validationError = validateMatrixRunConfig(matrixConfig);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  if (!isStorageAvailable(req)) {
+    return res.status(400).json({ error: 'OpenSearch not configured. Cannot execute benchmarks in sample-only mode.' });
+  }
+
+  try {
+    const client = requireStorageClient(req);
+
+    const getResult = await client.get({ index: INDEX, id });
+    if (!getResult.body.found) {
+      return res.status(404).json({ error: 'Benchmark not found' });
+    }
+    const benchmark = normalizeBenchmark(getResult.body._source);
+
+    const allTestCases = await getAllTestCases(req);
+    const testCaseMap = new Map(allTestCases.map((tc: any) => [tc.id, tc]));
+
+    // Cells wait as 'pending' until the queue starts their job
+    const matrixId = generateId('matrix');
+    const runs: BenchmarkRun[] = expandMatrixRun(matrixConfig).map(runConfig => ({
+      ...createBenchmarkRun(benchmark, runConfig, testCaseMap, 'pending'),
+      matrixId,
+    }));
+
+    console.log(`[StorageAPI] Queueing matrix ${matrixId} with ${runs.length} runs`);
+    await startBenchmarkRuns(client, benchmark, runs, { matrixConcurrency: matrixConfig.concurrency ?? 1 });
+
+    const response: MatrixRunResponse = {
+      matrixId,
+      runs: runs.map(run => ({
+        runId: run.id,
+        jobId: run.jobId!,
+        name: run.name,
+        agentKey: run.agentKey,
+        modelId: run.modelId,
+      })),
+    };
+    res.status(201).json(response);
+  } catch (error: any) {
+    if (error.meta?.statusCode === 404) {
+      return res.status(404).json({ error: 'Benchmark not found' });
+    }
+    console.error('[StorageAPI] Matrix run failed:', error.message);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/storage/benchmarks/:id/schedules - List a benchmark's schedules
+router.get('/api/storage/benchmarks/:id/schedules', async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  // Sample benchmarks are never scheduled
+  if (isSampleId(id) || !isStorageAvailable(req)) {
+    return res.json({ schedules: [] });
+  }
+
+  try {
+    const client = requireStorageClient(req);
+    const getResult = await client.get({ index: INDEX, id, _source: ['schedules'] });
+    if (!getResult.body.found) {
+      return res.status(404).json({ error: 'Benchmark not found' });
+    }
+    const schedules: BenchmarkSchedule[] = getResult.body._source?.schedules || [];
+    res.json({ schedules });
+  } catch (error: any) {
+    if (error.meta?.statusCode === 404) {
+      return res.status(404).json({ error: 'Benchmark not found' });
+    }
+    console.error('[StorageAPI] List schedules failed:', error.message);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/storage/benchmarks/:id/schedules - Add a recurring run (atomic)
+router.post('/api/storage/benchmarks/:id/schedules', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const input: BenchmarkScheduleInput = req.body;
+
+  if (isSampleId(id)) {
+    return res.status(400).json({ error: 'Cannot schedule sample benchmarks. Sample data is read-only.' });
+  }
+
+  const validationError = validateScheduleInput(input, false);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  if (!isStorageAvailable(req)) {
+    return res.status(400).json({ error: 'OpenSearch not configured. Cannot schedule benchmarks in sample-only mode.' });
+  }
+
+  try {
+    const client = requireStorageClient(req);
+    const now = new Date().toISOString();
+    const enabled = input.enabled ?? true;
+    const schedule: BenchmarkSchedule = {
+      id: generateId('schedule'),
+      cron: input.cron.trim(),
+      runConfig: input.runConfig,
+      enabled,
+      createdAt: now,
+      updatedAt: now,
+      nextFireAt: computeNextFireAt(input.cron, enabled),
+    };
+
+    await client.update({
+      index: INDEX,
+      id,
+      body: {
+        script: {
+          source: `
+            if (ctx._source.schedules == null) {
+              ctx._source.schedules = [];
             }
-          },
-        }
-      );
-      console.log('[Execute] executeRun completed');
+            ctx._source.schedules.add(params.schedule);
+          `,
+          params: { schedule },
+        },
+      },
+      refresh: true,
+    });
+
+    console.log(`[StorageAPI] Added schedule ${schedule.id} ("${schedule.cron}") to benchmark ${id}`);
+    res.status(201).json(schedule);
+  } catch (error: any) {
+    if (error.meta?.statusCode === 404) {
+      return res.status(404).json({ error: 'Benchmark not found' });
+    }
+    console.error('[StorageAPI] Add schedule failed:', error.message);
+    res.status(500).json({ error: error.message });
+  }
+});
 
-      // Determine final status - check if cancelled
-      const wasCancelled = cancellationToken.isCancelled;
+// PUT /api/storage/benchmarks/:id/schedules/:scheduleId - Update cron, run config, or enabled flag
+router.put('/api/storage/benchmarks/:id/schedules/:scheduleId', async (req: Request, res: Response) => {
+  const { id, scheduleId } = req.params;
+  const input: Partial<BenchmarkScheduleInput> = req.body;
 
-      // Mark remaining pending results as failed if cancelled
-      if (wasCancelled) {
-        Object.entries(completedRun.results).forEach(([testCaseId, result]) => {
-          if (result.status === 'pending') {
-            completedRun.results[testCaseId] = { ...result, status: 'failed' };
-          }
-        });
-      }
+  if (isSampleId(id)) {
+    return res.status(400).json({ error: 'Cannot modify sample data. Sample benchmarks are read-only.' });
+  }
 
-      // Compute final stats from reports
-      const stats = await computeStatsForRun(client, completedRun);
+  const validationError = validateScheduleInput(input, true);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
 
-      const finalRun = {
-        ...completedRun,
-        status: wasCancelled ? 'cancelled' as const : 'completed' as const,
-        stats,
-      };
+  if (!isStorageAvailable(req)) {
+    return res.status(400).json({ error: 'OpenSearch not configured' });
+  }
 
-      // Update benchmark with final run results
-      await client.update({
-        index: INDEX,
-        id,
-        retry_on_conflict: 3,
-        body: {
-          script: {
-            source: `
-              for (int i = 0; i < ctx._source.runs.size(); i++) {
-                if (ctx._source.runs[i].id == params.runId) {
-                  ctx._source.runs[i] = params.finalRun;
+  try {
+    const client = requireStorageClient(req);
+    const getResult = await client.get({ index: INDEX, id, _source: ['schedules'] });
+    if (!getResult.body.found) {
+      return res.status(404).json({ error: 'Benchmark not found' });
+    }
+    const existing: BenchmarkSchedule | undefined = (getResult.body._source?.schedules || [])
+      .find((s: BenchmarkSchedule) => s.id === scheduleId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    const cron = input.cron?.trim() ?? existing.cron;
+    const enabled = input.enabled ?? existing.enabled;
+    // A new cron or re-enabling counts from now; firings while disabled aren't missed
+    const reschedule = cron !== existing.cron || (enabled && !existing.enabled);
+    const fields = {
+      cron,
+      runConfig: input.runConfig ?? existing.runConfig,
+      enabled,
+      updatedAt: new Date().toISOString(),
+      nextFireAt: reschedule || !enabled ? computeNextFireAt(cron, enabled) ?? null : existing.nextFireAt,
+    };
+    await updateBenchmarkScheduleWithClient(client, id, scheduleId, fields);
+
+    const updated: BenchmarkSchedule = { ...existing, ...fields, nextFireAt: fields.nextFireAt ?? undefined };
+    res.json(updated);
+  } catch (error: any) {
+    if (error.meta?.statusCode === 404) {
+      return res.status(404).json({ error: 'Benchmark not found' });
+    }
+    console.error('[StorageAPI] Update schedule failed:', error.message);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /api/storage/benchmarks/:id/schedules/:scheduleId - Delete a schedule (atomic)
+router.delete('/api/storage/benchmarks/:id/schedules/:scheduleId', async (req: Request, res: Response) => {
+  const { id, scheduleId } = req.params;
+
+  if (isSampleId(id)) {
+    return res.status(400).json({ error: 'Cannot modify sample data. Sample benchmarks are read-only.' });
+  }
+
+  if (!isStorageAvailable(req)) {
+    return res.status(400).json({ error: 'OpenSearch not configured' });
+  }
+
+  try {
+    const client = requireStorageClient(req);
+    const result = await client.update({
+      index: INDEX,
+      id,
+      body: {
+        script: {
+          source: `
+            def scheduleIndex = -1;
+            if (ctx._source.schedules != null) {
+              for (int i = 0; i < ctx._source.schedules.size(); i++) {
+                if (ctx._source.schedules[i].id == params.scheduleId) {
+                  scheduleIndex = i;
                   break;
                 }
               }
-            `,
-            params: { runId: run.id, finalRun },
-          },
+            }
+            if (scheduleIndex >= 0) {
+              ctx._source.schedules.remove(scheduleIndex);
+            } else {
+              ctx.op = 'noop';
+            }
+          `,
+          params: { scheduleId },
         },
-        refresh: true,
-      });
-
-      // Send completion event with final status
-      const eventType = wasCancelled ? 'cancelled' : 'completed';
-      res.write(`data: ${JSON.stringify({ type: eventType, run: finalRun })}\n\n`);
-    } catch (error: any) {
-      console.error(`[StorageAPI] Benchmark run failed: ${run.id}`, error.message);
-
-      // Update benchmark to mark run as failed
-      try {
-        const failedRun = { ...run, status: 'failed', error: error.message };
-        await client.update({
-          index: INDEX,
-          id,
-          retry_on_conflict: 3,
-          body: {
-            script: {
-              source: `
-                for (int i = 0; i < ctx._source.runs.size(); i++) {
-                  if (ctx._source.runs[i].id == params.runId) {
-                    ctx._source.runs[i] = params.failedRun;
-                    break;
-                  }
-                }
-              `,
-              params: { runId: run.id, failedRun },
-            },
-          },
-          refresh: true,
-        });
-      } catch (updateError: any) {
-        console.error(`[StorageAPI] Failed to update benchmark with failed run: ${updateError.message}`);
-      }
+      },
+      refresh: true,
+    });
 
-      res.write(`data: ${JSON.stringify({ type: 'error', error: error.message, runId: run.id })}\n\n`);
-    } finally {
-      // Cleanup
-      activeRuns.delete(run.id);
-      res.end();
+    if (result.body.result === 'noop') {
+      return res.status(404).json({ error: 'Schedule not found' });
     }
+
+    console.log(`[StorageAPI] Deleted schedule ${scheduleId} of benchmark ${id}`);
+    res.json({ deleted: true, scheduleId });
   } catch (error: any) {
-    // Handle 404 from OpenSearch client.get()
     if (error.meta?.statusCode === 404) {
-      if (!res.headersSent) {
-        return res.status(404).json({ error: 'Benchmark not found' });
-      }
-      return;
-    }
-    console.error('[StorageAPI] Execute benchmark failed:', error.message);
-    if (!res.headersSent) {
-      res.status(500).json({ error: error.message });
+      return res.status(404).json({ error: 'Benchmark not found' });
     }
+    console.error('[StorageAPI] Delete schedule failed:', error.message);
+    res.status(500).json({ error: error.message });
   }
 });
 
@@ -1288,6 +1361,162 @@ router.patch('/api/storage/benchmarks/:id/runs/:runId/stats', async (req: Reques
   }
 });
 
+// POST /api/storage/benchmarks/:id/runs/:runId/rejudge - Re-judge every test case run and recompute stats
+router.post('/api/storage/benchmarks/:id/runs/:runId/rejudge', async (req: Request, res: Response) => {
+  const { id, runId } = req.params;
+  const { modelId, judgeEnsemble } = req.body ?? {};
+
+  // Reject modifying sample data
+  if (isSampleId(id)) {
+    return res.status(400).json({ error: 'Cannot re-judge sample data. Sample benchmarks are read-only.' });
+  }
+
+  const validationError = validateRejudgeOptions({ modelId, judgeEnsemble });
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  if (!isStorageAvailable(req)) {
+    return res.status(400).json({ error: 'OpenSearch not configured' });
+  }
+
+  const client = requireStorageClient(req);
+
+  try {
+    const getResult = await client.get({ index: INDEX, id });
+    if (!getResult.body.found) {
+      return res.status(404).json({ error: 'Benchmark not found' });
+    }
+
+    const benchmark = normalizeBenchmark(getResult.body._source);
+    const run = benchmark.runs.find(r => r.id === runId);
+    if (!run) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+    // Paused and queued runs still have test cases to execute, and re-judged stats would be overwritten
+    const activeJob = jobQueue.getByRunId(runId);
+    if (
+      run.status === 'running' ||
+      run.status === 'paused' ||
+      run.status === 'pending' ||
+      (activeJob && !isJobFinished(activeJob))
+    ) {
+      return res.status(409).json({ error: 'Run is still executing. Wait for it to finish or cancel it before re-judging.' });
+    }
+
+    const summary = await rejudgeBenchmarkRun(client, id, run, { modelId, judgeEnsemble });
+    const stats = await computeBenchmarkRunStatsWithClient(client, run);
+
+    // Use Painless script to atomically update only the stats field of the run
+    await client.update({
+      index: INDEX,
+      id,
+      retry_on_conflict: 3,
+      body: {
+        script: {
+          source: `
+            for (int i = 0; i < ctx._source.runs.size(); i++) {
+              if (ctx._source.runs[i].id == params.runId) {
+                ctx._source.runs[i].stats = params.stats;
+                break;
+              }
+            }
+          `,
+          params: { runId, stats },
+        },
+      },
+      refresh: true,
+    });
+
+    console.log(`[StorageAPI] Re-judged run ${runId}: ${summary.rejudged} re-judged, ${summary.skipped} skipped, ${summary.failed} failed`);
+    res.json({ ...summary, stats });
+  } catch (error: any) {
+    if (error.meta?.statusCode === 404) {
+      return res.status(404).json({ error: 'Benchmark not found' });
+    }
+    console.error('[StorageAPI] Re-judge run failed:', error.message);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/storage/benchmarks/:id/runs/:runId/retry-failed - Re-execute the run's failed and cancelled test cases and stream progress via SSE
+router.post('/api/storage/benchmarks/:id/runs/:runId/retry-failed', async (req: Request, res: Response) => {
+  const { id, runId } = req.params;
+
+  // Reject modifying sample data
+  if (isSampleId(id)) {
+    return res.status(400).json({ error: 'Cannot retry sample runs. Sample benchmarks are read-only.' });
+  }
+
+  if (!isStorageAvailable(req)) {
+    return res.status(400).json({ error: 'OpenSearch not configured' });
+  }
+
+  try {
+    const client = requireStorageClient(req);
+
+    const getResult = await client.get({ index: INDEX, id });
+    if (!getResult.body.found) {
+      return res.status(404).json({ error: 'Benchmark not found' });
+    }
+
+    const benchmark = normalizeBenchmark(getResult.body._source);
+    const run = benchmark.runs.find(r => r.id === runId);
+    if (!run) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    const activeJob = jobQueue.getByRunId(runId);
+    if (run.status === 'running' || run.status === 'paused' || (activeJob && !isJobFinished(activeJob))) {
+      return res.status(409).json({ error: 'Run is still executing. Wait for it to finish or cancel it before retrying.' });
+    }
+
+    const retry = prepareRunForRetry(run);
+    if (retry.testCaseIds.length === 0) {
+      return res.status(400).json({ error: 'Run has no failed or cancelled test cases to retry' });
+    }
+
+    const retryRun: BenchmarkRun = {
+      ...retry.run,
+      status: 'running',
+      error: undefined,
+      jobId: generateId('job'),
+    };
+
+    // Save the reset results first so polling clients see the retry right away
+    await replaceBenchmarkRunWithClient(client, id, retryRun);
+
+    // Setup SSE
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    const snapshotNames = new Map((run.testCaseSnapshots || []).map(s => [s.id, s.name]));
+    res.write(`data: ${JSON.stringify({
+      type: 'started',
+      runId: retryRun.id,
+      jobId: retryRun.jobId,
+      testCases: retry.testCaseIds.map(tcId => ({ id: tcId, name: snapshotNames.get(tcId) || tcId, status: 'pending' })),
+    })}\n\n`);
+
+    console.log(`[StorageAPI] Retrying ${retry.testCaseIds.length} test cases of run ${runId}`);
+    const job = jobQueue.submit(client, benchmark, retryRun);
+    await streamJobEvents(req, res, job.id);
+  } catch (error: any) {
+    if (error.meta?.statusCode === 404) {
+      if (!res.headersSent) {
+        return res.status(404).json({ error: 'Benchmark not found' });
+      }
+      return;
+    }
+    console.error('[StorageAPI] Retry failed test cases failed:', error.message);
+    if (!res.headersSent) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+});
+
 // POST /api/storage/benchmarks/:id/cancel - Cancel an in-progress run
 router.post('/api/storage/benchmarks/:id/cancel', async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -1297,13 +1526,13 @@ router.post('/api/storage/benchmarks/:id/cancel', async (req: Request, res: Resp
     return res.status(400).json({ error: 'runId is required' });
   }
 
-  const cancellationToken = activeRuns.get(runId);
-  if (!cancellationToken) {
+  const job = jobQueue.getByRunId(runId);
+  if (!job || isJobFinished(job)) {
     return res.status(404).json({ error: 'Run not found or already completed' });
   }
 
   // Set cancellation flag
-  cancellationToken.cancel();
+  jobQueue.cancel(job.id);
 
   // Immediately update run status in DB to 'cancelled'
   // This fixes race condition where client refreshes before execute loop updates DB
@@ -20,6 +20,7 @@ import {
   getSampleRunsByBenchmarkRun,
 } from '../../../cli/demo/sampleRuns.js';
 import { createRunWithClient, getRunByIdWithClient, updateRunWithClient } from '../../services/storage/index.js';
+import { rejudgeStoredRun, validateRejudgeOptions } from '../../../services/rejudge.js';
 import type { TestCaseRun } from '../../../types/index.js';
 import type { Client } from '@opensearch-project/opensearch';
 
@@ -523,6 +524,46 @@ router.get('/api/storage/runs/iterations/:benchmarkId/:testCaseId', async (req:
   }
 });
 
+// POST /api/storage/runs/:id/rejudge - Re-score the stored trajectory without re-running the agent
+router.post('/api/storage/runs/:id/rejudge', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { modelId, judgeEnsemble } = req.body ?? {};
+
+    // Reject modifying sample data
+    if (isSampleId(id)) {
+      return res.status(400).json({ error: 'Cannot re-judge sample data. Sample runs are read-only.' });
+    }
+
+    const validationError = validateRejudgeOptions({ modelId, judgeEnsemble });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    // Require OpenSearch for writes
+    if (!isStorageAvailable(req)) {
+      return res.status(400).json({ error: 'OpenSearch not configured. Cannot re-judge runs in sample-only mode.' });
+    }
+
+    const client = requireStorageClient(req);
+    const run = await getRunByIdWithClient(client, id);
+    if (!run) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    const outcome = await rejudgeStoredRun(client, run, { modelId, judgeEnsemble });
+    if (outcome.status === 'skipped') {
+      return res.status(409).json({ error: outcome.reason });
+    }
+
+    console.log(`[StorageAPI] Re-judged run: ${id}`);
+    res.json(outcome.run);
+  } catch (error: any) {
+    console.error('[StorageAPI] Re-judge run failed:', error.message);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // POST /api/storage/runs/:id/annotations - Add annotation
 router.post('/api/storage/runs/:id/annotations', async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,86 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Worker Routes - Hand test case tasks to remote `agent-health worker` processes
+ *
+ * Workers poll for a task with POST /api/workers/:workerId/lease, send a
+ * heartbeat while they execute it, and post the report (or the error) back.
+ * A 409 on heartbeat, complete, or fail means the worker no longer holds the
+ * task - its lease ran out and the task went to another worker - and it
+ * should drop its result.
+ */
+
+import { Router, Request, Response } from 'express';
+import { workerTasks } from '../services/workerTasks.js';
+import { BENCHMARK_WORKERS } from '../config/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/workers - List workers that called in recently and the task counts
+ */
+router.get('/api/workers', (_req: Request, res: Response) => {
+  res.json({
+    enabled: BENCHMARK_WORKERS.enabled,
+    workers: workerTasks.listWorkers(),
+    tasks: workerTasks.getTaskCounts(),
+  });
+});
+
+/**
+ * POST /api/workers/:workerId/lease - Lease the next task
+ * Responds 204 when no task is waiting.
+ */
+router.post('/api/workers/:workerId/lease', (req: Request, res: Response) => {
+  if (!BENCHMARK_WORKERS.enabled) {
+    return res.status(409).json({ error: 'Distributed execution is disabled (set BENCHMARK_WORKERS_ENABLED=true)' });
+  }
+  const task = workerTasks.lease(req.params.workerId);
+  if (!task) {
+    return res.status(204).end();
+  }
+  res.json({ task, leaseMs: BENCHMARK_WORKERS.leaseMs });
+});
+
+/**
+ * POST /api/workers/:workerId/tasks/:taskId/heartbeat - Extend the lease on a task
+ */
+router.post('/api/workers/:workerId/tasks/:taskId/heartbeat', (req: Request, res: Response) => {
+  const { workerId, taskId } = req.params;
+  if (!workerTasks.heartbeat(taskId, workerId)) {
+    return res.status(409).json({ error: 'Lease lost' });
+  }
+  res.json({ leaseMs: BENCHMARK_WORKERS.leaseMs });
+});
+
+/**
+ * POST /api/workers/:workerId/tasks/:taskId/complete - Post the report of a task
+ */
+router.post('/api/workers/:workerId/tasks/:taskId/complete', (req: Request, res: Response) => {
+  const { workerId, taskId } = req.params;
+  const { report } = req.body ?? {};
+  if (!report || typeof report !== 'object' || !Array.isArray(report.trajectory)) {
+    return res.status(400).json({ error: 'report is required and must be an evaluation report' });
+  }
+  if (!workerTasks.complete(taskId, workerId, report)) {
+    return res.status(409).json({ error: 'Lease lost' });
+  }
+  res.json({ completed: true });
+});
+
+/**
+ * POST /api/workers/:workerId/tasks/:taskId/fail - Report a task the worker couldn't execute
+ */
+router.post('/api/workers/:workerId/tasks/:taskId/fail', (req: Request, res: Response) => {
+  const { workerId, taskId } = req.params;
+  const error = typeof req.body?.error === 'string' && req.body.error ? req.body.error : 'Unknown error';
+  if (!workerTasks.fail(taskId, workerId, error)) {
+    return res.status(409).json({ error: 'Lease lost' });
+  }
+  res.json({ failed: true });
+});
+
+export default router;
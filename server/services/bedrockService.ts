@@ -9,8 +9,9 @@
 
 import { BedrockRuntimeClient, ConverseCommand } from '@aws-sdk/client-bedrock-runtime';
 import config from '../config';
-import { TrajectoryStep, ImprovementStrategy } from '@/types';
-import { JUDGE_SYSTEM_PROMPT } from '../prompts/judgePrompt';
+import { TrajectoryStep, ImprovementStrategy, JudgeRubric, PairwiseWinner } from '@/types';
+import { parsePairwiseWinner } from '@/lib/pairwiseJudge';
+import { buildRubricPromptSection, getJudgeSystemPrompt, PAIRWISE_JUDGE_SYSTEM_PROMPT } from '../prompts/judgePrompt';
 
 // ============================================================================
 // Types
@@ -21,6 +22,7 @@ export interface JudgeRequest {
   expectedOutcomes?: string[];
   expectedTrajectory?: any[];
   logs?: any[];
+  rubric?: JudgeRubric;
 }
 
 export interface JudgeResponse {
@@ -34,6 +36,25 @@ export interface JudgeResponse {
   llmJudgeReasoning: string;
   improvementStrategies: ImprovementStrategy[];
   duration: number;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+export interface PairwiseJudgeRequest {
+  first: TrajectoryStep[];
+  second: TrajectoryStep[];
+  prompt?: string;
+  expectedOutcomes?: string[];
+  expectedTrajectory?: any[];
+  rubric?: JudgeRubric;
+}
+
+export interface PairwiseJudgeResponse {
+  winner: PairwiseWinner;
+  reasoning: string;
+  duration: number;
+  promptTokens?: number;
+  completionTokens?: number;
 }
 
 interface BedrockJudgeResult {
@@ -94,14 +115,38 @@ export function compactTrajectory(trajectory: TrajectoryStep[]): TrajectoryStep[
   });
 }
 
+/**
+ * Build the expected behavior section shared by the evaluation and pairwise prompts
+ */
+function buildExpectedSection(expectedOutcomes?: string[], expectedTrajectory?: any[]): string {
+  if (expectedOutcomes && expectedOutcomes.length > 0) {
+    // Use expectedOutcomes (new format)
+    return `## Expected Outcomes
+The agent should achieve the following outcomes:
+${expectedOutcomes.map((outcome, i) => `${i + 1}. ${outcome}`).join('\n')}`;
+  }
+  if (expectedTrajectory && expectedTrajectory.length > 0) {
+    // Fall back to expectedTrajectory (legacy format)
+    const expectedJson = JSON.stringify(expectedTrajectory, null, 2);
+    return `## Expected Trajectory (Legacy)
+\`\`\`json
+${expectedJson}
+\`\`\``;
+  }
+  return '## Expected Outcomes\nNo expected outcomes defined.';
+}
+
 /**
  * Build the evaluation prompt for the LLM judge
+ * A rubric is rendered after the expected outcomes and replaces the built-in grading guidelines
+ * (pair it with getJudgeSystemPrompt(rubric)).
  */
 export function buildEvaluationPrompt(
   trajectory: TrajectoryStep[],
   expectedOutcomes?: string[],
   expectedTrajectory?: any[],
-  logs?: any[]
+  logs?: any[],
+  rubric?: JudgeRubric
 ): string {
   // Compact trajectory to reduce size
   const compactedTrajectory = compactTrajectory(trajectory);
@@ -112,23 +157,8 @@ export function buildEvaluationPrompt(
     ? JSON.stringify(logs.slice(0, 20), null, 2)
     : 'No logs available';
 
-  // Build expected section based on what's provided
-  let expectedSection = '';
-  if (expectedOutcomes && expectedOutcomes.length > 0) {
-    // Use expectedOutcomes (new format)
-    expectedSection = `## Expected Outcomes
-The agent should achieve the following outcomes:
-${expectedOutcomes.map((outcome, i) => `${i + 1}. ${outcome}`).join('\n')}`;
-  } else if (expectedTrajectory && expectedTrajectory.length > 0) {
-    // Fall back to expectedTrajectory (legacy format)
-    const expectedJson = JSON.stringify(expectedTrajectory, null, 2);
-    expectedSection = `## Expected Trajectory (Legacy)
-\`\`\`json
-${expectedJson}
-\`\`\``;
-  } else {
-    expectedSection = '## Expected Outcomes\nNo expected outcomes defined.';
-  }
+  const expectedSection = buildExpectedSection(expectedOutcomes, expectedTrajectory);
+  const rubricSection = rubric ? `\n\n${buildRubricPromptSection(rubric)}` : '';
 
   return `# Evaluation Task
 
@@ -137,7 +167,7 @@ ${expectedJson}
 ${trajectoryJson}
 \`\`\`
 
-${expectedSection}
+${expectedSection}${rubricSection}
 
 ## OpenSearch Logs (Recent 20)
 \`\`\`json
@@ -147,6 +177,31 @@ ${logsJson}
 Please evaluate the agent's performance and provide your assessment in the JSON format specified.`;
 }
 
+/**
+ * Build the prompt for comparing two trajectories (pair with PAIRWISE_JUDGE_SYSTEM_PROMPT)
+ */
+export function buildPairwisePrompt(request: PairwiseJudgeRequest): string {
+  const { first, second, prompt, expectedOutcomes, expectedTrajectory, rubric } = request;
+  const taskSection = prompt ? `## Task\n${prompt}\n\n` : '';
+  const rubricSection = rubric ? `\n\n${buildRubricPromptSection(rubric)}` : '';
+
+  return `# Comparison Task
+
+${taskSection}## Response A: Agent Trajectory
+\`\`\`json
+${JSON.stringify(compactTrajectory(first), null, 2)}
+\`\`\`
+
+## Response B: Agent Trajectory
+\`\`\`json
+${JSON.stringify(compactTrajectory(second), null, 2)}
+\`\`\`
+
+${buildExpectedSection(expectedOutcomes, expectedTrajectory)}${rubricSection}
+
+Please decide which response is better and provide your assessment in the JSON format specified.`;
+}
+
 // ============================================================================
 // Main Evaluation Function
 // ============================================================================
@@ -160,7 +215,7 @@ export async function evaluateTrajectory(
   request: JudgeRequest,
   modelId?: string
 ): Promise<JudgeResponse> {
-  const { trajectory, expectedOutcomes, expectedTrajectory, logs } = request;
+  const { trajectory, expectedOutcomes, expectedTrajectory, logs, rubric } = request;
 
   // Use provided modelId or fall back to configured default
   const effectiveModelId = modelId || config.BEDROCK_MODEL_ID;
@@ -172,6 +227,7 @@ export async function evaluateTrajectory(
   console.log('[JudgeAPI] Expected trajectory steps:', expectedTrajectory?.length || 0);
   console.log('[JudgeAPI] Logs provided:', logs?.length || 0);
   console.log('[JudgeAPI] Model:', effectiveModelId, modelId ? '(from request)' : '(default)');
+  if (rubric) console.log('[JudgeAPI] Rubric:', rubric.name || '(unnamed)', `(${rubric.criteria.length} criteria)`);
 
   // Log trajectory summary for debugging
   console.log('\n--- Trajectory Summary ---');
@@ -193,7 +249,7 @@ export async function evaluateTrajectory(
   }
 
   // Build evaluation prompt
-  const userPrompt = buildEvaluationPrompt(trajectory, expectedOutcomes, expectedTrajectory, logs);
+  const userPrompt = buildEvaluationPrompt(trajectory, expectedOutcomes, expectedTrajectory, logs, rubric);
 
   console.log('\n[JudgeAPI] Prompt built, length:', userPrompt.length, 'characters');
 
@@ -206,7 +262,7 @@ export async function evaluateTrajectory(
         content: [{ text: userPrompt }],
       },
     ],
-    system: [{ text: JUDGE_SYSTEM_PROMPT }],
+    system: [{ text: getJudgeSystemPrompt(rubric) }],
     inferenceConfig: {
       maxTokens: 4096,
       temperature: 0.1,
@@ -234,24 +290,109 @@ export async function evaluateTrajectory(
   console.log('\n--- Raw Bedrock Response ---');
   console.log(responseText.substring(0, 500) + (responseText.length > 500 ? '...' : ''));
 
-  // Parse JSON response
-  let jsonText = responseText.trim();
+  return parseJudgeResponseText(responseText, duration, {
+    promptTokens: response.usage?.inputTokens,
+    completionTokens: response.usage?.outputTokens,
+  });
+}
+
+/**
+ * Compare two trajectories using AWS Bedrock LLM Judge
+ * @param request - Both trajectories (first is shown as A) and the expected behavior
+ * @param modelId - Optional model ID to use for the comparison (falls back to config.BEDROCK_MODEL_ID)
+ */
+export async function comparePairWithBedrock(
+  request: PairwiseJudgeRequest,
+  modelId?: string
+): Promise<PairwiseJudgeResponse> {
+  const effectiveModelId = modelId || config.BEDROCK_MODEL_ID;
+
+  console.log('[JudgeAPI] Pairwise comparison:', request.first.length, 'vs', request.second.length, 'steps, model:', effectiveModelId);
+
+  const command = new ConverseCommand({
+    modelId: effectiveModelId,
+    messages: [
+      {
+        role: 'user',
+        content: [{ text: buildPairwisePrompt(request) }],
+      },
+    ],
+    system: [{ text: PAIRWISE_JUDGE_SYSTEM_PROMPT }],
+    inferenceConfig: {
+      maxTokens: 2048,
+      temperature: 0.1,
+    },
+  });
+
+  const startTime = Date.now();
+  const response = await bedrockClient.send(command);
+  const duration = Date.now() - startTime;
+
+  let responseText = '';
+  for (const content of response.output?.message?.content ?? []) {
+    if ('text' in content && content.text) {
+      responseText += content.text;
+    }
+  }
+
+  return parsePairwiseResponseText(responseText, duration, {
+    promptTokens: response.usage?.inputTokens,
+    completionTokens: response.usage?.outputTokens,
+  });
+}
+
+/**
+ * Extract the JSON object from judge output (markdown code block or surrounding prose)
+ */
+function extractJsonText(responseText: string): string {
+  const jsonText = responseText.trim();
   const jsonMatch = jsonText.match(/```json\s*([\s\S]*?)\s*```/);
   if (jsonMatch) {
-    jsonText = jsonMatch[1];
-    console.log('[JudgeAPI] Extracted JSON from markdown code block');
-  } else {
-    const startIdx = jsonText.indexOf('{');
-    const endIdx = jsonText.lastIndexOf('}');
-    if (startIdx !== -1 && endIdx !== -1) {
-      jsonText = jsonText.slice(startIdx, endIdx + 1);
-      console.log('[JudgeAPI] Extracted JSON from text');
-    }
+    return jsonMatch[1];
   }
+  const startIdx = jsonText.indexOf('{');
+  const endIdx = jsonText.lastIndexOf('}');
+  return startIdx !== -1 && endIdx !== -1 ? jsonText.slice(startIdx, endIdx + 1) : jsonText;
+}
+
+/**
+ * Parse the raw pairwise judge output into a PairwiseJudgeResponse
+ * Shared by all judge providers - the output format is defined by PAIRWISE_JUDGE_SYSTEM_PROMPT
+ */
+export function parsePairwiseResponseText(
+  responseText: string,
+  duration: number,
+  usage?: { promptTokens?: number; completionTokens?: number }
+): PairwiseJudgeResponse {
+  const result: { winner?: unknown; reasoning?: unknown } = JSON.parse(extractJsonText(responseText));
+  const winner = parsePairwiseWinner(result.winner);
 
-  const result: BedrockJudgeResult = JSON.parse(jsonText);
+  console.log('[JudgeAPI] Pairwise winner:', winner);
 
-  console.log('\n========== BEDROCK JUDGE RESPONSE ==========');
+  return {
+    winner,
+    reasoning: typeof result.reasoning === 'string' ? result.reasoning : '',
+    duration,
+    promptTokens: usage?.promptTokens,
+    completionTokens: usage?.completionTokens,
+  };
+}
+
+/**
+ * Parse the raw LLM judge output into a JudgeResponse
+ * Shared by all judge providers - the output format is defined by the judge system prompts
+ * @param responseText - Raw text returned by the judge model
+ * @param duration - Judge call latency in milliseconds
+ * @param usage - Optional token counts reported by the provider
+ */
+export function parseJudgeResponseText(
+  responseText: string,
+  duration: number,
+  usage?: { promptTokens?: number; completionTokens?: number }
+): JudgeResponse {
+  const result: BedrockJudgeResult = JSON.parse(extractJsonText(responseText));
+
+  console.log('\n========== JUDGE RESPONSE ==========');
   console.log('[JudgeAPI] Pass/Fail Status:', result.pass_fail_status?.toUpperCase() || 'MISSING');
 
   // Handle both new simplified format (accuracy at top level) and legacy format (accuracy in metrics)
@@ -278,6 +419,8 @@ export async function evaluateTrajectory(
     llmJudgeReasoning: result.reasoning,
     improvementStrategies: result.improvement_strategies || [],
     duration,
+    promptTokens: usage?.promptTokens,
+    completionTokens: usage?.completionTokens,
   };
 }
 
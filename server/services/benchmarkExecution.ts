@@ -0,0 +1,101 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Benchmark Execution
+ *
+ * Starts benchmark runs: creates the run, saves it to its benchmark, and
+ * queues it in the job queue. Shared by the execute and matrix endpoints
+ * and the benchmark scheduler so every run starts the same way.
+ */
+
+import type { Client } from '@opensearch-project/opensearch';
+import type {
+  Benchmark,
+  BenchmarkJob,
+  BenchmarkRun,
+  BenchmarkRunStatus,
+  RunConfigInput,
+  TestCase,
+  TestCaseSnapshot,
+} from '../../types/index.js';
+import { INDEXES } from '../middleware/storageClient.js';
+import { jobQueue } from './jobQueue.js';
+
+function generateId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * New run of a benchmark's current version with all test cases pending and
+ * a snapshot of each test case taken at execution time (for reproducibility)
+ */
+export function createBenchmarkRun(
+  benchmark: Benchmark,
+  runConfig: RunConfigInput,
+  testCaseMap: Map<string, TestCase>,
+  status: BenchmarkRunStatus
+): BenchmarkRun {
+  const testCaseSnapshots: TestCaseSnapshot[] = benchmark.testCaseIds.map(tcId => {
+    const tc = testCaseMap.get(tcId);
+    return {
+      id: tcId,
+      version: tc?.currentVersion ?? 1,
+      name: tc?.name || tcId,
+    };
+  });
+
+  const run: BenchmarkRun = {
+    ...runConfig,
+    id: generateId('run'),
+    jobId: generateId('job'),
+    createdAt: new Date().toISOString(),
+    status,
+    benchmarkVersion: benchmark.currentVersion,
+    testCaseSnapshots,
+    results: {},
+  };
+
+  // Initialize pending status for all test cases
+  benchmark.testCaseIds.forEach(testCaseId => {
+    run.results[testCaseId] = { reportId: '', status: 'pending' };
+  });
+
+  return run;
+}
+
+/**
+ * Save new runs to their benchmark and queue a job for each
+ * Saving also bumps the benchmark's updatedAt so it appears at the top of the
+ * list (sorted by recent activity).
+ */
+export async function startBenchmarkRuns(
+  client: Client,
+  benchmark: Benchmark,
+  runs: BenchmarkRun[],
+  options: { matrixConcurrency?: number } = {}
+): Promise<BenchmarkJob[]> {
+  // Appended by script: other jobs and schedules update the same benchmark concurrently,
+  // and a copy of the runs read earlier would overwrite their results
+  await client.update({
+    index: INDEXES.benchmarks,
+    id: benchmark.id,
+    body: {
+      script: {
+        source: `
+          if (ctx._source.runs == null) {
+            ctx._source.runs = [];
+          }
+          ctx._source.runs.addAll(params.runs);
+          ctx._source.updatedAt = params.updatedAt;
+        `,
+        params: { runs, updatedAt: runs[0]?.createdAt ?? new Date().toISOString() },
+      },
+    },
+    refresh: true,
+  });
+
+  return runs.map(run => jobQueue.submit(client, benchmark, run, options));
+}
@@ -0,0 +1,179 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Benchmark Scheduler
+ *
+ * Fires benchmark schedules: every tick, each enabled schedule whose
+ * `nextFireAt` has passed starts a run through the same path as the execute
+ * endpoint (see benchmarkExecution.ts), and the schedule records the
+ * outcome and its next fire time.
+ *
+ * Missed firings (e.g. while the server was down) are not run: a due firing
+ * more than BENCHMARK_SCHEDULER_GRACE_MS late is recorded on the schedule as
+ * `missedFirings` (added to the firings missed before) and logged, and the schedule moves on to its next fire time.
+ *
+ * Schedules live on their benchmark documents, so the scheduler needs the
+ * default storage client; without one it does nothing.
+ */
+
+import type { Client } from '@opensearch-project/opensearch';
+import type { Benchmark, BenchmarkRun, BenchmarkSchedule } from '../../types/index.js';
+import { getNextCronTime, listCronTimes, parseCron } from '../../lib/cron.js';
+import {
+  findBenchmarkSchedulesWithClient,
+  getAllTestCasesWithClient,
+  getBenchmarkWithClient,
+  updateBenchmarkScheduleWithClient,
+} from './storage/index.js';
+import { getDefaultStorageClient } from '../middleware/storageClient.js';
+import { createBenchmarkRun, startBenchmarkRuns } from './benchmarkExecution.js';
+import { BENCHMARK_SCHEDULER } from '../config/index.js';
+
+// Missed firings counted per check (e.g. an every-minute schedule after a long outage)
+const MAX_MISSED_FIRINGS = 1000;
+
+export class BenchmarkScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking = false;
+
+  /**
+   * Check schedules now and then every tickMs
+   */
+  start(tickMs: number = BENCHMARK_SCHEDULER.tickMs): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.tick(), tickMs);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref?.();
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fire every due schedule (overlapping checks are skipped)
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    const client = getDefaultStorageClient();
+    if (!client || this.checking) return;
+
+    this.checking = true;
+    try {
+      const schedules = await findBenchmarkSchedulesWithClient(client);
+      for (const { benchmarkId, schedule } of schedules) {
+        if (!schedule.enabled) continue;
+        try {
+          await this.checkSchedule(client, benchmarkId, schedule, now);
+        } catch (error) {
+          console.error(`[Scheduler] Failed to check schedule ${schedule.id}:`, error instanceof Error ? error.message : error);
+        }
+      }
+    } catch (error) {
+      console.error('[Scheduler] Failed to load schedules:', error instanceof Error ? error.message : error);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async checkSchedule(
+    client: Client,
+    benchmarkId: string,
+    schedule: BenchmarkSchedule,
+    now: Date
+  ): Promise<void> {
+    const cron = parseCron(schedule.cron);
+    const next = getNextCronTime(cron, now)?.toISOString() ?? null;
+
+    if (!schedule.nextFireAt) {
+      await updateBenchmarkScheduleWithClient(client, benchmarkId, schedule.id, { nextFireAt: next });
+      return;
+    }
+
+    const nextFireAt = new Date(schedule.nextFireAt);
+    if (nextFireAt > now) return;
+
+    // Every fire time that has passed since the last check, oldest first;
+    // only the latest may still run
+    const due = [nextFireAt, ...listCronTimes(cron, nextFireAt, now, MAX_MISSED_FIRINGS)];
+    const latest = due[due.length - 1];
+    const onTime = now.getTime() - latest.getTime() <= BENCHMARK_SCHEDULER.graceMs;
+    const missed = onTime ? due.slice(0, -1) : due;
+
+    // Move the schedule on before starting the run so a failed write can't fire it twice.
+    // Missed firings add up across checks; the schedule was read fresh for this one.
+    const previous = schedule.missedFirings;
+    await updateBenchmarkScheduleWithClient(client, benchmarkId, schedule.id, {
+      nextFireAt: next,
+      ...(missed.length > 0 && {
+        missedFirings: {
+          count: (previous?.count ?? 0) + missed.length,
+          first: previous?.first ?? missed[0].toISOString(),
+          last: missed[missed.length - 1].toISOString(),
+          detectedAt: now.toISOString(),
+        },
+      }),
+    });
+
+    if (missed.length > 0) {
+      console.warn(
+        `[Scheduler] Schedule ${schedule.id} of benchmark ${benchmarkId} missed ${missed.length} firing(s) ` +
+        `from ${missed[0].toISOString()} to ${missed[missed.length - 1].toISOString()}`
+      );
+    }
+    if (!onTime) return;
+
+    try {
+      const run = await this.fire(client, benchmarkId, schedule, latest);
+      console.log(`[Scheduler] Schedule ${schedule.id} started run ${run.id} of benchmark ${benchmarkId}`);
+      await updateBenchmarkScheduleWithClient(client, benchmarkId, schedule.id, {
+        lastFiredAt: latest.toISOString(),
+        lastRunId: run.id,
+        lastError: null,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Scheduler] Schedule ${schedule.id} failed to start a run:`, message);
+      await updateBenchmarkScheduleWithClient(client, benchmarkId, schedule.id, {
+        lastFiredAt: latest.toISOString(),
+        lastRunId: null,
+        lastError: message,
+      });
+    }
+  }
+
+  /**
+   * Start the run of one firing, named after its fire time
+   */
+  private async fire(
+    client: Client,
+    benchmarkId: string,
+    schedule: BenchmarkSchedule,
+    firedAt: Date
+  ): Promise<BenchmarkRun> {
+    const doc = await getBenchmarkWithClient(client, benchmarkId);
+    if (!doc) {
+      throw new Error('Benchmark not found');
+    }
+    const benchmark: Benchmark = { ...doc, currentVersion: doc.currentVersion ?? 1 };
+
+    const allTestCases = await getAllTestCasesWithClient(client);
+    const testCaseMap = new Map(allTestCases.map((tc: any) => [tc.id, tc]));
+
+    const runConfig = { ...schedule.runConfig, name: `${schedule.runConfig.name} (${firedAt.toISOString()})` };
+    const run: BenchmarkRun = {
+      ...createBenchmarkRun(benchmark, runConfig, testCaseMap, 'pending'),
+      scheduleId: schedule.id,
+    };
+    await startBenchmarkRuns(client, benchmark, [run]);
+    return run;
+  }
+}
+
+export const benchmarkScheduler = new BenchmarkScheduler();
@@ -0,0 +1,622 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Benchmark Job Queue
+ *
+ * Executes benchmark runs as server-side jobs, independent of the request
+ * that started them. Any client can attach to a job's progress stream, and
+ * jobs can be paused between test cases, resumed, or cancelled.
+ *
+ * Cells of a matrix run share the matrix's concurrency budget: a cell's job
+ * waits until the test cases its run executes at once fit in the budget
+ * alongside the matrix's running cells.
+ *
+ * With distributed execution enabled (BENCHMARK_WORKERS_ENABLED), each
+ * test case iteration is handed to a remote worker through the worker task
+ * queue instead of being evaluated in this process.
+ *
+ * Job state is kept in memory and persisted to `agent-health.jobs.json`
+ * (BENCHMARK_JOBS_FILE) on every status change, so queued and paused jobs
+ * survive restarts. On boot, jobs that were running are resumed (or their runs
+ * marked failed when BENCHMARK_JOBS_RESUME_ON_RESTART=false), and runs left
+ * in 'running' state without a job are marked failed.
+ *
+ * Graceful degradation: a missing or corrupt jobs file means an empty queue,
+ * write failures are logged but never crash the server.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Client } from '@opensearch-project/opensearch';
+import type {
+  Benchmark,
+  BenchmarkJob,
+  BenchmarkJobEvent,
+  BenchmarkJobStatus,
+  BenchmarkProgress,
+  BenchmarkRun,
+} from '../../types/index.js';
+import {
+  executeRun,
+  createCancellationToken,
+  CancellationToken,
+  TestCaseEvaluator,
+} from '../../services/benchmarkRunner.js';
+import {
+  computeBenchmarkRunStatsWithClient,
+  findBenchmarkRunsByStatusWithClient,
+  getBenchmarkWithClient,
+  replaceBenchmarkRunWithClient,
+  updateBenchmarkRunResultWithClient,
+  updateBenchmarkRunWithClient,
+} from './storage/index.js';
+import { getDefaultStorageClient } from '../middleware/storageClient.js';
+import { workerTasks } from './workerTasks.js';
+import { BENCHMARK_JOBS, BENCHMARK_WORKERS } from '../config/index.js';
+
+// Finished jobs kept for listing and reattaching (oldest are dropped first)
+const MAX_FINISHED_JOBS = 100;
+
+const RESTART_ERROR = 'Server restarted while the run was executing';
+
+export type JobListener = (event: BenchmarkJobEvent) => void;
+
+/**
+ * Everything needed to execute a job's run (in memory only)
+ */
+interface JobContext {
+  client: Client;
+  benchmark: Benchmark;
+  run: BenchmarkRun;
+}
+
+/**
+ * Whether a job has reached a final status
+ */
+export function isJobFinished(job: BenchmarkJob): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+/**
+ * Whether an event is the last one a job sends
+ */
+export function isTerminalJobEvent(event: BenchmarkJobEvent): boolean {
+  return event.type === 'completed' || event.type === 'cancelled' || event.type === 'error';
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Mark unfinished test case results as failed
+ */
+function failUnfinishedResults(run: BenchmarkRun): void {
+  Object.entries(run.results || {}).forEach(([testCaseId, result]) => {
+    if (result.status === 'pending' || result.status === 'running') {
+      run.results[testCaseId] = { ...result, status: 'failed' };
+    }
+  });
+}
+
+/**
+ * The benchmark scoped to the test cases the run was created with, so resumed
+ * and retried runs don't pick up test cases added to the benchmark since
+ */
+function benchmarkForRun(benchmark: Benchmark, run: BenchmarkRun): Benchmark {
+  const testCaseIds = Object.keys(run.results || {});
+  return testCaseIds.length > 0 ? { ...benchmark, testCaseIds } : benchmark;
+}
+
+/**
+ * Evaluate a job's test cases on remote workers
+ */
+function evaluateOnWorkers(benchmarkId: string): TestCaseEvaluator {
+  return ({ run, testCaseId, iteration, agent, modelId, testCase, options }) =>
+    workerTasks.execute({
+      benchmarkId,
+      runId: run.id,
+      testCaseId,
+      iteration,
+      agent,
+      runHeaders: run.headers,
+      modelId,
+      testCase,
+      ...options,
+    });
+}
+
+function hasUnfinishedResults(run: BenchmarkRun): boolean {
+  return Object.values(run.results || {}).some(r => r.status === 'pending' || r.status === 'running');
+}
+
+export class BenchmarkJobQueue {
+  private jobs: Map<string, BenchmarkJob> = new Map();
+  private contexts: Map<string, JobContext> = new Map();
+  private tokens: Map<string, CancellationToken> = new Map();
+  private listeners: Map<string, Set<JobListener>> = new Map();
+  private running: Set<string> = new Set();
+  private filePath: string | null = null;
+
+  /**
+   * Load persisted jobs and recover from a restart
+   * Until this is called, jobs are kept in memory only.
+   */
+  async init(filePath: string = path.resolve(process.cwd(), BENCHMARK_JOBS.file)): Promise<void> {
+    this.filePath = filePath;
+    for (const job of this.readFromDisk()) {
+      if (!this.jobs.has(job.id)) {
+        this.jobs.set(job.id, job);
+      }
+    }
+
+    const client = getDefaultStorageClient();
+    const interrupted = this.list().filter(job => job.status === 'running' && !this.running.has(job.id));
+
+    for (const job of interrupted) {
+      if (BENCHMARK_JOBS.resumeOnRestart) {
+        console.log(`[JobQueue] Resuming job ${job.id} (run ${job.runId}) after restart`);
+        job.status = 'queued';
+        job.updatedAt = new Date().toISOString();
+        continue;
+      }
+
+      console.log(`[JobQueue] Marking run ${job.runId} failed after restart`);
+      if (client) {
+        await this.failInterruptedRun(client, job.benchmarkId, job.runId);
+      }
+      job.error = RESTART_ERROR;
+      this.finish(job, 'failed');
+    }
+    this.saveToDisk();
+
+    if (client) {
+      await this.failOrphanedRuns(client);
+    }
+
+    this.pump();
+  }
+
+  /**
+   * All jobs, newest first
+   */
+  list(): BenchmarkJob[] {
+    return Array.from(this.jobs.values()).reverse();
+  }
+
+  get(id: string): BenchmarkJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  getByRunId(runId: string): BenchmarkJob | undefined {
+    return this.list().find(job => job.runId === runId);
+  }
+
+  /**
+   * Listen to a job's events
+   * @returns Function that removes the listener
+   */
+  subscribe(id: string, listener: JobListener): () => void {
+    if (!this.listeners.has(id)) {
+      this.listeners.set(id, new Set());
+    }
+    this.listeners.get(id)!.add(listener);
+    return () => {
+      this.listeners.get(id)?.delete(listener);
+    };
+  }
+
+  /**
+   * Queue a run that has already been saved to its benchmark
+   * The job starts right away unless the running job limit (or, for a matrix
+   * cell, the matrix's concurrency budget) is reached.
+   */
+  submit(
+    client: Client,
+    benchmark: Benchmark,
+    run: BenchmarkRun,
+    options: { matrixConcurrency?: number } = {}
+  ): BenchmarkJob {
+    const now = new Date().toISOString();
+    const job: BenchmarkJob = {
+      id: run.jobId || generateId('job'),
+      benchmarkId: benchmark.id,
+      benchmarkName: benchmark.name,
+      runId: run.id,
+      runName: run.name,
+      status: 'queued',
+      ...(run.matrixId && {
+        matrixId: run.matrixId,
+        matrixConcurrency: options.matrixConcurrency,
+        concurrency: run.concurrency ?? 1,
+      }),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.jobs.set(job.id, job);
+    this.contexts.set(job.id, { client, benchmark: benchmarkForRun(benchmark, run), run });
+    this.saveToDisk();
+    this.pump();
+    return job;
+  }
+
+  /**
+   * Pause a job between test cases
+   * A running job finishes the test cases in flight first.
+   * @returns false if the job can't be paused
+   */
+  pause(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || (job.status !== 'running' && job.status !== 'queued')) {
+      return false;
+    }
+
+    if (job.status === 'running') {
+      job.pauseRequested = true;
+      this.update(job);
+    } else {
+      this.setStatus(job, 'paused');
+      this.updateStoredRun(job, { status: 'paused' });
+    }
+    return true;
+  }
+
+  /**
+   * Resume a paused job (or keep a running job going if its pause hasn't taken effect)
+   * @returns false if the job can't be resumed
+   */
+  resume(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job) return false;
+
+    if (job.status === 'running' && job.pauseRequested) {
+      job.pauseRequested = false;
+      this.update(job);
+      return true;
+    }
+    if (job.status !== 'paused') {
+      return false;
+    }
+
+    this.setStatus(job, 'queued');
+    this.pump();
+    return true;
+  }
+
+  /**
+   * Cancel a job
+   * Test cases in flight finish; the rest of the run is marked failed.
+   * @returns false if the job has already finished
+   */
+  cancel(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || isJobFinished(job)) {
+      return false;
+    }
+
+    job.pauseRequested = false;
+    this.getToken(id).cancel();
+
+    // Queued and paused jobs run straight to their cancelled finish,
+    // without waiting for a free slot
+    if (!this.running.has(id)) {
+      this.start(job);
+    }
+    return true;
+  }
+
+  /**
+   * Remove a finished job from the list
+   * @returns false if the job doesn't exist or hasn't finished
+   */
+  remove(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || !isJobFinished(job)) {
+      return false;
+    }
+    this.jobs.delete(id);
+    this.saveToDisk();
+    return true;
+  }
+
+  /**
+   * Start queued jobs, oldest first, up to the running job limit
+   */
+  private pump(): void {
+    for (const job of this.jobs.values()) {
+      if (this.running.size >= BENCHMARK_JOBS.maxRunningJobs) return;
+      if (job.status === 'queued' && this.fitsMatrixBudget(job)) {
+        this.start(job);
+      }
+    }
+  }
+
+  /**
+   * Whether a matrix cell's job can start without its matrix executing more
+   * test cases at once than its budget (jobs outside a matrix always fit)
+   */
+  private fitsMatrixBudget(job: BenchmarkJob): boolean {
+    if (!job.matrixId || !job.matrixConcurrency) return true;
+
+    let inUse = 0;
+    for (const id of this.running) {
+      const other = this.jobs.get(id);
+      if (other?.matrixId === job.matrixId) {
+        inUse += other.concurrency ?? 1;
+      }
+    }
+    return inUse + (job.concurrency ?? 1) <= job.matrixConcurrency;
+  }
+
+  private start(job: BenchmarkJob): void {
+    this.running.add(job.id);
+    job.startedAt = job.startedAt ?? new Date().toISOString();
+    this.setStatus(job, 'running');
+    void this.runJob(job);
+  }
+
+  private async runJob(job: BenchmarkJob): Promise<void> {
+    let context: JobContext | undefined;
+
+    try {
+      context = await this.loadContext(job);
+      const { client, benchmark, run } = context;
+      const cancellationToken = this.getToken(job.id);
+
+      if (run.status !== 'running') {
+        run.status = 'running';
+        run.jobId = job.id;
+        await updateBenchmarkRunWithClient(client, job.benchmarkId, run.id, { status: 'running', jobId: job.id });
+      }
+
+      console.log(`[JobQueue] Executing run ${run.id} (job ${job.id})`);
+      const completedRun = await executeRun(
+        benchmark,
+        run,
+        (progress: BenchmarkProgress) => {
+          job.progress = progress;
+          this.emit(job.id, { type: 'progress', ...progress });
+        },
+        {
+          cancellationToken,
+          client,
+          onTestCaseComplete: async (testCaseId, result) => {
+            // Persist intermediate progress to OpenSearch for real-time polling
+            try {
+              await updateBenchmarkRunResultWithClient(client, job.benchmarkId, run.id, testCaseId, result);
+            } catch (err: any) {
+              console.warn(`[JobQueue] Failed to persist ${testCaseId}:`, err.message);
+            }
+          },
+          shouldPause: () => !!job.pauseRequested,
+          ...(BENCHMARK_WORKERS.enabled && { evaluate: evaluateOnWorkers(job.benchmarkId) }),
+        }
+      );
+
+      const wasCancelled = cancellationToken.isCancelled;
+
+      if (job.pauseRequested && !wasCancelled && hasUnfinishedResults(completedRun)) {
+        completedRun.status = 'paused';
+        await updateBenchmarkRunWithClient(client, job.benchmarkId, run.id, { status: 'paused' });
+        job.pauseRequested = false;
+        this.setStatus(job, 'paused');
+        console.log(`[JobQueue] Paused run ${run.id} (job ${job.id})`);
+        return;
+      }
+
+      // Mark remaining results as failed if cancelled
+      if (wasCancelled) {
+        failUnfinishedResults(completedRun);
+      }
+
+      // Compute final stats from reports
+      const stats = await computeBenchmarkRunStatsWithClient(client, completedRun);
+      const finalRun: BenchmarkRun = {
+        ...completedRun,
+        status: wasCancelled ? 'cancelled' : 'completed',
+        stats,
+      };
+      await replaceBenchmarkRunWithClient(client, job.benchmarkId, finalRun);
+
+      this.finish(job, wasCancelled ? 'cancelled' : 'completed');
+      this.emit(job.id, { type: wasCancelled ? 'cancelled' : 'completed', run: finalRun });
+    } catch (error: any) {
+      console.error(`[JobQueue] Benchmark run failed: ${job.runId}`, error.message);
+
+      if (context) {
+        try {
+          const failedRun: BenchmarkRun = { ...context.run, status: 'failed', error: error.message };
+          await replaceBenchmarkRunWithClient(context.client, job.benchmarkId, failedRun);
+        } catch (updateError: any) {
+          console.error(`[JobQueue] Failed to update benchmark with failed run: ${updateError.message}`);
+        }
+      }
+
+      job.error = error.message;
+      this.finish(job, 'failed');
+      this.emit(job.id, { type: 'error', error: error.message, runId: job.runId });
+    } finally {
+      this.running.delete(job.id);
+      if (isJobFinished(job)) {
+        this.contexts.delete(job.id);
+        this.tokens.delete(job.id);
+        this.listeners.delete(job.id);
+      }
+      this.pump();
+    }
+  }
+
+  /**
+   * Context of a job started in this process, or reloaded from storage after a restart
+   */
+  private async loadContext(job: BenchmarkJob): Promise<JobContext> {
+    const existing = this.contexts.get(job.id);
+    if (existing) return existing;
+
+    const client = getDefaultStorageClient();
+    if (!client) {
+      throw new Error('Storage not configured');
+    }
+
+    const benchmark = await getBenchmarkWithClient(client, job.benchmarkId);
+    if (!benchmark) {
+      throw new Error(`Benchmark not found: ${job.benchmarkId}`);
+    }
+    const run = (benchmark.runs || []).find((r: BenchmarkRun) => r.id === job.runId);
+    if (!run) {
+      throw new Error(`Run not found: ${job.runId}`);
+    }
+
+    const context: JobContext = {
+      client,
+      benchmark: benchmarkForRun(benchmark, run),
+      run: { ...run, results: run.results || {} },
+    };
+    this.contexts.set(job.id, context);
+    return context;
+  }
+
+  private getToken(id: string): CancellationToken {
+    let token = this.tokens.get(id);
+    if (!token) {
+      // Whoever cancels the run (the user or its budget), drop the tasks no
+      // worker has picked up yet; with no worker connected they would never settle
+      token = createCancellationToken(() => {
+        const job = this.jobs.get(id);
+        if (job) workerTasks.cancelPending(job.runId);
+      });
+      this.tokens.set(id, token);
+    }
+    return token;
+  }
+
+  /**
+   * Best-effort update of a job's stored run outside of execution
+   */
+  private updateStoredRun(job: BenchmarkJob, fields: Partial<BenchmarkRun>): void {
+    const context = this.contexts.get(job.id);
+    if (context) {
+      Object.assign(context.run, fields);
+    }
+    const client = context?.client ?? getDefaultStorageClient();
+    if (!client) return;
+
+    updateBenchmarkRunWithClient(client, job.benchmarkId, job.runId, fields).catch((err: any) => {
+      console.warn(`[JobQueue] Failed to update run ${job.runId}:`, err.message);
+    });
+  }
+
+  /**
+   * Mark a run interrupted by a restart as failed
+   */
+  private async failInterruptedRun(client: Client, benchmarkId: string, runId: string): Promise<void> {
+    try {
+      const benchmark = await getBenchmarkWithClient(client, benchmarkId);
+      const run: BenchmarkRun | undefined = benchmark?.runs?.find((r: BenchmarkRun) => r.id === runId);
+      if (!run) return;
+
+      const failedRun: BenchmarkRun = { ...run, results: { ...run.results }, status: 'failed', error: RESTART_ERROR };
+      failUnfinishedResults(failedRun);
+      failedRun.stats = await computeBenchmarkRunStatsWithClient(client, failedRun);
+      await replaceBenchmarkRunWithClient(client, benchmarkId, failedRun);
+    } catch (err: any) {
+      console.error(`[JobQueue] Failed to mark run ${runId} as failed:`, err.message);
+    }
+  }
+
+  /**
+   * Mark runs left in 'running' state without a job (e.g. started before the
+   * queue existed, or whose job file was lost) as failed
+   */
+  private async failOrphanedRuns(client: Client): Promise<void> {
+    try {
+      const runningRuns = await findBenchmarkRunsByStatusWithClient(client, 'running');
+      for (const { benchmarkId, run } of runningRuns) {
+        const job = run.jobId ? this.jobs.get(run.jobId) : undefined;
+        if (job && !isJobFinished(job)) continue;
+
+        console.log(`[JobQueue] Marking orphaned run ${run.id} failed`);
+        await this.failInterruptedRun(client, benchmarkId, run.id);
+      }
+    } catch (err: any) {
+      console.error('[JobQueue] Failed to check for orphaned runs:', err.message);
+    }
+  }
+
+  private setStatus(job: BenchmarkJob, status: BenchmarkJobStatus): void {
+    job.status = status;
+    this.update(job);
+  }
+
+  private finish(job: BenchmarkJob, status: BenchmarkJobStatus): void {
+    job.status = status;
+    job.pauseRequested = undefined;
+    job.completedAt = new Date().toISOString();
+    this.pruneFinishedJobs();
+    this.update(job);
+  }
+
+  /**
+   * Persist a job change and tell listeners
+   */
+  private update(job: BenchmarkJob): void {
+    job.updatedAt = new Date().toISOString();
+    this.saveToDisk();
+    this.emit(job.id, { type: 'job', job: { ...job } });
+  }
+
+  private emit(id: string, event: BenchmarkJobEvent): void {
+    for (const listener of this.listeners.get(id) ?? []) {
+      try {
+        listener(event);
+      } catch (err: any) {
+        console.warn(`[JobQueue] Listener for job ${id} failed:`, err.message);
+      }
+    }
+  }
+
+  private pruneFinishedJobs(): void {
+    const finished = Array.from(this.jobs.values())
+      .filter(isJobFinished)
+      .sort((a, b) => (a.completedAt ?? '').localeCompare(b.completedAt ?? ''));
+    for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  /**
+   * Read persisted jobs (empty on a missing or corrupt file)
+   */
+  private readFromDisk(): BenchmarkJob[] {
+    if (!this.filePath) return [];
+    try {
+      if (!fs.existsSync(this.filePath)) return [];
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      const jobs = parsed?.jobs;
+      if (!Array.isArray(jobs)) return [];
+      return jobs.filter(
+        (job): job is BenchmarkJob => job !== null && typeof job === 'object' && typeof job.id === 'string'
+      );
+    } catch (err) {
+      console.error('[JobQueue] Failed to read jobs file:', err);
+      return [];
+    }
+  }
+
+  private saveToDisk(): void {
+    if (!this.filePath) return;
+    try {
+      const jobs = Array.from(this.jobs.values());
+      fs.writeFileSync(this.filePath, JSON.stringify({ jobs }, null, 2) + '\n', 'utf-8');
+    } catch (err) {
+      console.error('[JobQueue] Failed to write jobs file:', err);
+    }
+  }
+}
+
+// Singleton instance
+export const jobQueue = new BenchmarkJobQueue();
@@ -58,6 +58,14 @@ export function getPricing(modelId?: string): ModelPricing {
   return MODEL_PRICING['default'];
 }
 
+/**
+ * Cost in USD of the given token counts at a model's pricing
+ */
+export function computeCostUsd(inputTokens: number, outputTokens: number, modelId?: string): number {
+  const pricing = getPricing(modelId);
+  return (inputTokens / 1e6) * pricing.input + (outputTokens / 1e6) * pricing.output;
+}
+
 // ============================================================================
 // OpenSearch Trace Query
 // ============================================================================
@@ -179,8 +187,7 @@ export async function computeMetrics(
   }
 
   // Calculate cost
-  const pricing = getPricing(modelId);
-  const costUsd = (inputTokens / 1e6) * pricing.input + (outputTokens / 1e6) * pricing.output;
+  const costUsd = computeCostUsd(inputTokens, outputTokens, modelId);
 
   // Calculate duration from root span
   let durationMs = 0;
@@ -0,0 +1,311 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Ollama Service - LLM Judge evaluation using a local Ollama server
+ * Enables fully offline evaluation for air-gapped environments
+ */
+
+import config from '../config';
+import { getJudgeSystemPrompt, PAIRWISE_JUDGE_SYSTEM_PROMPT } from '../prompts/judgePrompt';
+import {
+  JudgeRequest,
+  JudgeResponse,
+  PairwiseJudgeRequest,
+  PairwiseJudgeResponse,
+  buildEvaluationPrompt,
+  buildPairwisePrompt,
+  parseJudgeResponseText,
+  parsePairwiseResponseText,
+} from './bedrockService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface OllamaJudgeOptions {
+  /** Ollama host URL (falls back to config.OLLAMA_HOST) */
+  baseUrl?: string;
+  /** Max tokens for the judge completion (maps to num_predict) */
+  maxTokens?: number;
+}
+
+interface OllamaChatResponse {
+  message?: {
+    role?: string;
+    content?: string;
+  };
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Collect every balanced top-level {...} substring, ignoring braces inside strings
+ */
+function findBalancedObjects(text: string): string[] {
+  const objects: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === '\\') {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (ch === '"' && depth > 0) {
+      inString = true;
+    } else if (ch === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (ch === '}' && depth > 0) {
+      depth--;
+      if (depth === 0 && start !== -1) {
+        objects.push(text.slice(start, i + 1));
+        start = -1;
+      }
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * Apply common fixes for almost-JSON produced by small models
+ */
+function repairJson(candidate: string): string {
+  return candidate
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/,\s*([}\]])/g, '$1');
+}
+
+function tryParse(candidate: string): Record<string, any> | null {
+  for (const text of [candidate, repairJson(candidate)]) {
+    try {
+      const parsed = JSON.parse(text);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Try the next variant
+    }
+  }
+  return null;
+}
+
+// Fields that mark an object as the judge's result rather than quoted tool output
+const JUDGE_RESULT_FIELDS = ['pass_fail_status', 'accuracy'];
+
+/**
+ * Extract the judge JSON object from model output that may be wrapped in prose
+ *
+ * Smaller local models often ignore "respond with JSON only" and surround the
+ * result with explanations, multiple code blocks, or trailing commas. Candidates
+ * are tried in order (code blocks, then balanced objects) and the first object
+ * with one of the result fields wins. Other objects (tool arguments or output
+ * the model quoted) are never taken for the result.
+ *
+ * @param resultFields - Fields the result has at least one of (default: the judge's)
+ * @returns Normalized JSON text ready for parseJudgeResponseText
+ * @throws Error if no object with a result field can be recovered
+ */
+export function extractJudgeJson(responseText: string, resultFields: string[] = JUDGE_RESULT_FIELDS): string {
+  const candidates: string[] = [];
+
+  const codeBlockPattern = /```(?:json)?\s*([\s\S]*?)```/g;
+  let match: RegExpExecArray | null;
+  while ((match = codeBlockPattern.exec(responseText)) !== null) {
+    candidates.push(...findBalancedObjects(match[1]));
+  }
+  candidates.push(...findBalancedObjects(responseText));
+
+  let foundObject = false;
+  for (const candidate of candidates) {
+    const parsed = tryParse(candidate);
+    if (!parsed) continue;
+    if (resultFields.some(field => field in parsed)) {
+      return JSON.stringify(normalizeJudgeResult(parsed));
+    }
+    foundObject = true;
+  }
+
+  if (foundObject) {
+    throw new Error(`No JSON object with ${resultFields.join(' or ')} found in Ollama judge response`);
+  }
+  throw new Error('No JSON object found in Ollama judge response');
+}
+
+/**
+ * Normalize loosely formatted judge fields (e.g., "PASS", "85%")
+ */
+function normalizeJudgeResult(result: Record<string, any>): Record<string, any> {
+  const normalized = { ...result };
+
+  if (typeof normalized.pass_fail_status === 'string') {
+    const status = normalized.pass_fail_status.trim().toLowerCase();
+    normalized.pass_fail_status = status.startsWith('pass') ? 'passed' : 'failed';
+  }
+
+  if (typeof normalized.accuracy === 'string') {
+    const accuracy = parseFloat(normalized.accuracy);
+    normalized.accuracy = Number.isNaN(accuracy) ? 0 : accuracy;
+  }
+
+  if (typeof normalized.reasoning !== 'string') {
+    normalized.reasoning = normalized.reasoning ? JSON.stringify(normalized.reasoning) : '';
+  }
+
+  return normalized;
+}
+
+/**
+ * Send one system + user prompt to Ollama's chat API (non-streaming)
+ * @throws Error on a failed request or an empty response
+ */
+async function requestOllamaChat(
+  host: string,
+  modelId: string,
+  systemPrompt: string,
+  userPrompt: string,
+  maxTokens: number
+): Promise<{ responseText: string; duration: number; usage: { promptTokens?: number; completionTokens?: number } }> {
+  const startTime = Date.now();
+  const response = await fetch(`${host}/api/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: modelId,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      stream: false,
+      options: {
+        temperature: 0.1,
+        num_predict: maxTokens,
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Ollama judge request failed: ${response.status} - ${errorText}`);
+  }
+
+  const data = (await response.json()) as OllamaChatResponse;
+  const duration = Date.now() - startTime;
+
+  if (data.error) {
+    throw new Error(`Ollama judge request failed: ${data.error}`);
+  }
+
+  const responseText = data.message?.content || '';
+  if (!responseText) {
+    throw new Error('Ollama judge returned an empty response');
+  }
+
+  return {
+    responseText,
+    duration,
+    usage: {
+      promptTokens: data.prompt_eval_count,
+      completionTokens: data.eval_count,
+    },
+  };
+}
+
+// ============================================================================
+// Main Evaluation Function
+// ============================================================================
+
+/**
+ * Evaluate agent trajectory using a local Ollama model
+ * @param request - The judge request containing trajectory and expected outcomes
+ * @param modelId - Ollama model name (e.g., 'llama3.1:8b')
+ * @param options - Optional host override
+ */
+export async function evaluateTrajectoryWithOllama(
+  request: JudgeRequest,
+  modelId: string,
+  options: OllamaJudgeOptions = {}
+): Promise<JudgeResponse> {
+  const { trajectory, expectedOutcomes, expectedTrajectory, logs, rubric } = request;
+  const host = (options.baseUrl || config.OLLAMA_HOST).replace(/\/+$/, '');
+
+  console.log('\n========== OLLAMA JUDGE REQUEST ==========');
+  console.log('[JudgeAPI] Trajectory steps:', trajectory.length);
+  console.log('[JudgeAPI] Expected outcomes:', expectedOutcomes?.length || 0);
+  console.log('[JudgeAPI] Expected trajectory steps:', expectedTrajectory?.length || 0);
+  console.log('[JudgeAPI] Logs provided:', logs?.length || 0);
+  console.log('[JudgeAPI] Model:', modelId, 'Host:', host);
+
+  const userPrompt = buildEvaluationPrompt(trajectory, expectedOutcomes, expectedTrajectory, logs, rubric);
+
+  console.log('\n[JudgeAPI] Calling Ollama API...');
+  const { responseText, duration, usage } = await requestOllamaChat(
+    host, modelId, getJudgeSystemPrompt(rubric), userPrompt, options.maxTokens ?? 4096
+  );
+
+  console.log('[JudgeAPI] ✓ Response received in', duration, 'ms');
+  console.log('\n--- Raw Ollama Response ---');
+  console.log(responseText.substring(0, 500) + (responseText.length > 500 ? '...' : ''));
+
+  return parseJudgeResponseText(extractJudgeJson(responseText), duration, usage);
+}
+
+/**
+ * Compare two trajectories using a local Ollama model
+ * @param request - Both trajectories (first is shown as A) and the expected behavior
+ * @param modelId - Ollama model name (e.g., 'llama3.1:8b')
+ * @param options - Optional host override
+ */
+export async function comparePairWithOllama(
+  request: PairwiseJudgeRequest,
+  modelId: string,
+  options: OllamaJudgeOptions = {}
+): Promise<PairwiseJudgeResponse> {
+  const host = (options.baseUrl || config.OLLAMA_HOST).replace(/\/+$/, '');
+
+  console.log('[JudgeAPI] Pairwise comparison:', request.first.length, 'vs', request.second.length, 'steps, model:', modelId, 'Host:', host);
+
+  const { responseText, duration, usage } = await requestOllamaChat(
+    host, modelId, PAIRWISE_JUDGE_SYSTEM_PROMPT, buildPairwisePrompt(request), options.maxTokens ?? 2048
+  );
+
+  return parsePairwiseResponseText(extractJudgeJson(responseText, ['winner']), duration, usage);
+}
+
+/**
+ * Parse error messages from Ollama failures
+ */
+export function parseOllamaError(error: Error): string {
+  const errorMessage = error.message;
+
+  if (errorMessage.includes('fetch failed') || errorMessage.includes('ECONNREFUSED')) {
+    return 'Cannot connect to Ollama. Ensure `ollama serve` is running and OLLAMA_HOST is correct.';
+  } else if (errorMessage.includes('not found')) {
+    return 'Ollama model not found. Pull it first with `ollama pull <model>`.';
+  } else if (errorMessage.includes('No JSON object') || errorMessage.includes('JSON')) {
+    return 'Failed to parse LLM judge response. The model may have returned invalid JSON.';
+  }
+
+  return errorMessage || 'Unknown error occurred';
+}
@@ -0,0 +1,203 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * OpenAI Service - LLM Judge evaluation using any OpenAI-compatible
+ * chat-completions endpoint (OpenAI, Azure OpenAI, vLLM, LiteLLM, etc.)
+ */
+
+import config from '../config';
+import { getJudgeSystemPrompt, PAIRWISE_JUDGE_SYSTEM_PROMPT } from '../prompts/judgePrompt';
+import {
+  JudgeRequest,
+  JudgeResponse,
+  PairwiseJudgeRequest,
+  PairwiseJudgeResponse,
+  buildEvaluationPrompt,
+  buildPairwisePrompt,
+  parseJudgeResponseText,
+  parsePairwiseResponseText,
+} from './bedrockService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface OpenAIJudgeOptions {
+  /** Base URL of the OpenAI-compatible API (falls back to config.OPENAI_BASE_URL) */
+  baseUrl?: string;
+  /** API key sent as a Bearer token (falls back to config.OPENAI_API_KEY) */
+  apiKey?: string;
+  /** Max tokens for the judge completion */
+  maxTokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Build the chat-completions URL from a base URL
+ * Accepts base URLs with or without a trailing slash or /chat/completions suffix
+ */
+export function buildChatCompletionsUrl(baseUrl: string): string {
+  const trimmed = baseUrl.replace(/\/+$/, '');
+  if (trimmed.endsWith('/chat/completions')) {
+    return trimmed;
+  }
+  return `${trimmed}/chat/completions`;
+}
+
+/**
+ * Send one system + user prompt to a chat-completions endpoint
+ * @throws Error on a non-2xx status or an empty completion
+ */
+async function requestChatCompletion(
+  url: string,
+  apiKey: string | undefined,
+  modelId: string,
+  systemPrompt: string,
+  userPrompt: string,
+  maxTokens: number
+): Promise<{ responseText: string; duration: number; usage: { promptTokens?: number; completionTokens?: number } }> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  const startTime = Date.now();
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: modelId,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      max_tokens: maxTokens,
+      temperature: 0.1,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`OpenAI judge request failed: ${response.status} - ${errorText}`);
+  }
+
+  const data = (await response.json()) as ChatCompletionResponse;
+  const duration = Date.now() - startTime;
+
+  const responseText = data.choices?.[0]?.message?.content || '';
+  if (!responseText) {
+    throw new Error('OpenAI judge returned an empty response');
+  }
+
+  return {
+    responseText,
+    duration,
+    usage: {
+      promptTokens: data.usage?.prompt_tokens,
+      completionTokens: data.usage?.completion_tokens,
+    },
+  };
+}
+
+// ============================================================================
+// Main Evaluation Function
+// ============================================================================
+
+/**
+ * Evaluate agent trajectory using an OpenAI-compatible chat-completions judge
+ * @param request - The judge request containing trajectory and expected outcomes
+ * @param modelId - Model name sent in the request body (e.g., 'gpt-4o')
+ * @param options - Optional endpoint and credential overrides
+ */
+export async function evaluateTrajectoryWithOpenAI(
+  request: JudgeRequest,
+  modelId: string,
+  options: OpenAIJudgeOptions = {}
+): Promise<JudgeResponse> {
+  const { trajectory, expectedOutcomes, expectedTrajectory, logs, rubric } = request;
+  const baseUrl = options.baseUrl || config.OPENAI_BASE_URL;
+  const apiKey = options.apiKey ?? config.OPENAI_API_KEY;
+  const url = buildChatCompletionsUrl(baseUrl);
+
+  console.log('\n========== OPENAI JUDGE REQUEST ==========');
+  console.log('[JudgeAPI] Trajectory steps:', trajectory.length);
+  console.log('[JudgeAPI] Expected outcomes:', expectedOutcomes?.length || 0);
+  console.log('[JudgeAPI] Expected trajectory steps:', expectedTrajectory?.length || 0);
+  console.log('[JudgeAPI] Logs provided:', logs?.length || 0);
+  console.log('[JudgeAPI] Model:', modelId, 'Endpoint:', url);
+
+  const userPrompt = buildEvaluationPrompt(trajectory, expectedOutcomes, expectedTrajectory, logs, rubric);
+
+  console.log('\n[JudgeAPI] Calling OpenAI-compatible API...');
+  const { responseText, duration, usage } = await requestChatCompletion(
+    url, apiKey, modelId, getJudgeSystemPrompt(rubric), userPrompt, options.maxTokens ?? 4096
+  );
+
+  console.log('[JudgeAPI] ✓ Response received in', duration, 'ms');
+  console.log('\n--- Raw OpenAI Response ---');
+  console.log(responseText.substring(0, 500) + (responseText.length > 500 ? '...' : ''));
+
+  return parseJudgeResponseText(responseText, duration, usage);
+}
+
+/**
+ * Compare two trajectories using an OpenAI-compatible chat-completions judge
+ * @param request - Both trajectories (first is shown as A) and the expected behavior
+ * @param modelId - Model name sent in the request body (e.g., 'gpt-4o')
+ * @param options - Optional endpoint and credential overrides
+ */
+export async function comparePairWithOpenAI(
+  request: PairwiseJudgeRequest,
+  modelId: string,
+  options: OpenAIJudgeOptions = {}
+): Promise<PairwiseJudgeResponse> {
+  const url = buildChatCompletionsUrl(options.baseUrl || config.OPENAI_BASE_URL);
+  const apiKey = options.apiKey ?? config.OPENAI_API_KEY;
+
+  console.log('[JudgeAPI] Pairwise comparison:', request.first.length, 'vs', request.second.length, 'steps, model:', modelId, 'Endpoint:', url);
+
+  const { responseText, duration, usage } = await requestChatCompletion(
+    url, apiKey, modelId, PAIRWISE_JUDGE_SYSTEM_PROMPT, buildPairwisePrompt(request), options.maxTokens ?? 2048
+  );
+
+  return parsePairwiseResponseText(responseText, duration, usage);
+}
+
+/**
+ * Parse error messages from OpenAI-compatible API failures
+ */
+export function parseOpenAIError(error: Error): string {
+  const errorMessage = error.message;
+
+  if (errorMessage.includes('failed: 401')) {
+    return 'OpenAI API key missing or invalid. Set OPENAI_API_KEY.';
+  } else if (errorMessage.includes('failed: 429')) {
+    return 'OpenAI API rate limit exceeded. Please try again in a moment.';
+  } else if (errorMessage.includes('fetch failed') || errorMessage.includes('ECONNREFUSED')) {
+    return 'Cannot connect to OpenAI-compatible endpoint. Check OPENAI_BASE_URL or the model base_url.';
+  } else if (errorMessage.includes('JSON')) {
+    return 'Failed to parse LLM judge response. The model may have returned invalid JSON.';
+  }
+
+  return errorMessage || 'Unknown error occurred';
+}
@@ -16,6 +16,7 @@
 
 import { getOpenSearchClient, INDEXES, isStorageConfigured } from '../opensearchClient.js';
 import type { Client } from '@opensearch-project/opensearch';
+import type { BenchmarkRun, BenchmarkRunStatus, BenchmarkSchedule, RunStats } from '../../../types/index.js';
 
 // Re-export for convenience
 export { isStorageConfigured };
@@ -86,6 +87,31 @@ export async function getTestCaseById(id: string): Promise<any | null> {
   return result.body.hits?.hits?.[0]?._source || null;
 }
 
+/**
+ * Get a specific test case version with an explicit client
+ * Returns the newest version at or below the requested one
+ */
+export async function getTestCaseVersionWithClient(
+  client: Client,
+  id: string,
+  version: number
+): Promise<any | null> {
+  const result = await client.search({
+    index: INDEXES.testCases,
+    body: {
+      size: 1,
+      sort: [{ version: { order: 'desc' } }],
+      query: {
+        bool: {
+          must: [{ term: { id } }, { range: { version: { lte: version } } }],
+        },
+      },
+    },
+  });
+
+  return result.body.hits?.hits?.[0]?._source || null;
+}
+
 // ==================== Runs ====================
 
 /**
@@ -176,6 +202,27 @@ export async function updateRunWithClient(client: Client, id: string, updates: a
   return result.body._source;
 }
 
+/**
+ * Replace a run document with an explicit client
+ * Unlike a partial update, fields missing from the document are removed.
+ * The analytics record is rewritten so pass/fail and metrics stay in sync.
+ */
+export async function replaceRunWithClient(client: Client, id: string, doc: any): Promise<any> {
+  await client.index({
+    index: INDEXES.runs,
+    id,
+    body: doc,
+    refresh: true,
+  });
+
+  // Write analytics (non-blocking)
+  writeAnalyticsRecordWithClient(client, doc).catch((e) =>
+    console.warn('[StorageService] Analytics write failed:', e.message)
+  );
+
+  return doc;
+}
+
 /**
  * Partial update of a run
  * Throws if storage is not configured
@@ -226,6 +273,17 @@ export async function saveReportWithClient(
   if (report.traceError !== undefined) storageData.traceError = report.traceError;
   if (report.spans !== undefined) storageData.spans = report.spans;
   if (report.connectorProtocol !== undefined) storageData.connectorProtocol = report.connectorProtocol;
+  if (report.assertionResults !== undefined) storageData.assertionResults = report.assertionResults;
+  if (report.turns !== undefined) storageData.turns = report.turns;
+  if (report.judgeResponses !== undefined) storageData.judgeResponses = report.judgeResponses;
+  if (report.judgeAgreement !== undefined) storageData.judgeAgreement = report.judgeAgreement;
+  if (report.rubric !== undefined) storageData.rubric = report.rubric;
+  if (report.judgeModelId !== undefined) storageData.judgeModelId = report.judgeModelId;
+  if (report.judgeHistory !== undefined) storageData.judgeHistory = report.judgeHistory;
+  if (report.executionAttempts !== undefined) storageData.executionAttempts = report.executionAttempts;
+  if (report.timeoutReason !== undefined) storageData.timeoutReason = report.timeoutReason;
+  if (report.budgetExceededReason !== undefined) storageData.budgetExceededReason = report.budgetExceededReason;
+  if (report.tokenUsage !== undefined) storageData.tokenUsage = report.tokenUsage;
 
   const created = await createRunWithClient(client, storageData);
 
@@ -255,6 +313,292 @@ export async function saveReport(
   return saveReportWithClient(client, report, options);
 }
 
+// ==================== Benchmark Runs ====================
+
+/**
+ * Get a benchmark document with an explicit client (null if not found)
+ */
+export async function getBenchmarkWithClient(client: Client, id: string): Promise<any | null> {
+  try {
+    const result = await client.get({ index: INDEXES.benchmarks, id });
+    return result.body.found ? result.body._source : null;
+  } catch (error: any) {
+    if (error.meta?.statusCode === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Find benchmark runs with the given status across all benchmarks
+ */
+export async function findBenchmarkRunsByStatusWithClient(
+  client: Client,
+  status: BenchmarkRunStatus
+): Promise<Array<{ benchmarkId: string; run: BenchmarkRun }>> {
+  const result = await client.search({
+    index: INDEXES.benchmarks,
+    body: {
+      size: 1000,
+      _source: ['id', 'runs'],
+      query: { match_all: {} },
+    },
+  });
+
+  return (result.body.hits?.hits || []).flatMap((hit: any) =>
+    (hit._source.runs || [])
+      .filter((run: BenchmarkRun) => run.status === status)
+      .map((run: BenchmarkRun) => ({ benchmarkId: hit._source.id, run }))
+  );
+}
+
+/**
+ * Set fields on a single run within a benchmark (other run fields are kept)
+ */
+export async function updateBenchmarkRunWithClient(
+  client: Client,
+  benchmarkId: string,
+  runId: string,
+  fields: Partial<BenchmarkRun>
+): Promise<void> {
+  await client.update({
+    index: INDEXES.benchmarks,
+    id: benchmarkId,
+    retry_on_conflict: 3,
+    body: {
+      script: {
+        source: `
+          for (int i = 0; i < ctx._source.runs.size(); i++) {
+            if (ctx._source.runs[i].id == params.runId) {
+              ctx._source.runs[i].putAll(params.fields);
+              break;
+            }
+          }
+        `,
+        params: { runId, fields },
+      },
+    },
+    refresh: true,
+  });
+}
+
+/**
+ * Replace a run within a benchmark
+ */
+export async function replaceBenchmarkRunWithClient(
+  client: Client,
+  benchmarkId: string,
+  run: BenchmarkRun
+): Promise<void> {
+  await client.update({
+    index: INDEXES.benchmarks,
+    id: benchmarkId,
+    retry_on_conflict: 3,
+    body: {
+      script: {
+        source: `
+          for (int i = 0; i < ctx._source.runs.size(); i++) {
+            if (ctx._source.runs[i].id == params.runId) {
+              ctx._source.runs[i] = params.run;
+              break;
+            }
+          }
+        `,
+        params: { runId: run.id, run },
+      },
+    },
+    refresh: true,
+  });
+}
+
+/**
+ * Find the schedules of all benchmarks
+ */
+export async function findBenchmarkSchedulesWithClient(
+  client: Client
+): Promise<Array<{ benchmarkId: string; schedule: BenchmarkSchedule }>> {
+  const result = await client.search({
+    index: INDEXES.benchmarks,
+    body: {
+      size: 1000,
+      _source: ['id', 'schedules'],
+      query: { match_all: {} },
+    },
+  });
+
+  return (result.body.hits?.hits || []).flatMap((hit: any) =>
+    (hit._source.schedules || []).map((schedule: BenchmarkSchedule) => ({ benchmarkId: hit._source.id, schedule }))
+  );
+}
+
+/**
+ * Set fields on a single schedule within a benchmark (other schedule fields
+ * are kept; null clears a field)
+ */
+export async function updateBenchmarkScheduleWithClient(
+  client: Client,
+  benchmarkId: string,
+  scheduleId: string,
+  fields: { [K in keyof BenchmarkSchedule]?: BenchmarkSchedule[K] | null }
+): Promise<void> {
+  await client.update({
+    index: INDEXES.benchmarks,
+    id: benchmarkId,
+    retry_on_conflict: 3,
+    body: {
+      script: {
+        source: `
+          if (ctx._source.schedules != null) {
+            for (int i = 0; i < ctx._source.schedules.size(); i++) {
+              if (ctx._source.schedules[i].id == params.scheduleId) {
+                ctx._source.schedules[i].putAll(params.fields);
+                break;
+              }
+            }
+          }
+        `,
+        params: { scheduleId, fields },
+      },
+    },
+    refresh: true,
+  });
+}
+
+/**
+ * Atomically update a single test case result within a benchmark run.
+ * Used for persisting intermediate progress during benchmark execution.
+ */
+export async function updateBenchmarkRunResultWithClient(
+  client: Client,
+  benchmarkId: string,
+  runId: string,
+  testCaseId: string,
+  result: { reportId: string; status: string }
+): Promise<void> {
+  await client.update({
+    index: INDEXES.benchmarks,
+    id: benchmarkId,
+    retry_on_conflict: 3,
+    body: {
+      script: {
+        source: `
+          for (int i = 0; i < ctx._source.runs.size(); i++) {
+            if (ctx._source.runs[i].id == params.runId) {
+              if (ctx._source.runs[i].results == null) {
+                ctx._source.runs[i].results = new HashMap();
+              }
+              ctx._source.runs[i].results[params.testCaseId] = params.result;
+              break;
+            }
+          }
+        `,
+        params: { runId, testCaseId, result },
+      },
+    },
+    refresh: false, // Don't wait for refresh on intermediate updates
+  });
+}
+
+/**
+ * Compute stats for a benchmark run by fetching its reports
+ */
+export async function computeBenchmarkRunStatsWithClient(
+  client: Client,
+  run: BenchmarkRun
+): Promise<RunStats> {
+  // Collect report IDs from run results
+  const reportIds = Object.values(run.results || {})
+    .map(r => r.reportId)
+    .filter(Boolean);
+
+  let passed = 0;
+  let failed = 0;
+  let pending = 0;
+  const total = Object.keys(run.results || {}).length;
+
+  // Fetch reports to get passFailStatus
+  if (reportIds.length > 0) {
+    try {
+      const reportsResult = await client.search({
+        index: INDEXES.runs,
+        body: {
+          size: reportIds.length,
+          query: {
+            terms: { 'id': reportIds },
+          },
+          _source: ['id', 'passFailStatus', 'metricsStatus', 'status'],
+        },
+      });
+
+      const reportsMap = new Map<string, any>();
+      (reportsResult.body.hits?.hits || []).forEach((hit: any) => {
+        reportsMap.set(hit._source.id, hit._source);
+      });
+
+      // Count stats based on result status and report passFailStatus
+      Object.values(run.results || {}).forEach((result) => {
+        if (result.status === 'pending' || result.status === 'running') {
+          pending++;
+          return;
+        }
+
+        if (result.status === 'failed' || result.status === 'cancelled' || result.status === 'budget_exceeded') {
+          failed++;
+          return;
+        }
+
+        // For completed results, check the report
+        if (result.status === 'completed' && result.reportId) {
+          const report = reportsMap.get(result.reportId);
+          if (!report) {
+            pending++;
+            return;
+          }
+
+          // Check if evaluation is still pending (trace mode)
+          if (report.metricsStatus === 'pending' || report.metricsStatus === 'calculating') {
+            pending++;
+            return;
+          }
+
+          if (report.passFailStatus === 'passed') {
+            passed++;
+          } else {
+            failed++;
+          }
+        } else {
+          pending++;
+        }
+      });
+    } catch (e: any) {
+      console.warn('[StorageService] Failed to fetch reports for stats computation:', e.message);
+      // Fall back to counting by result status only
+      Object.values(run.results || {}).forEach((result) => {
+        if (result.status === 'completed') {
+          // Can't determine pass/fail without reports, count as pending
+          pending++;
+        } else if (result.status === 'failed' || result.status === 'cancelled' || result.status === 'budget_exceeded') {
+          failed++;
+        } else {
+          pending++;
+        }
+      });
+    }
+  } else {
+    // No reports yet, count by result status
+    Object.values(run.results || {}).forEach((result) => {
+      if (result.status === 'failed' || result.status === 'cancelled' || result.status === 'budget_exceeded') {
+        failed++;
+      } else {
+        pending++;
+      }
+    });
+  }
+
+  return { passed, failed, pending, total };
+}
+
 // ==================== Helpers ====================
 
 function generateId(prefix: string): string {
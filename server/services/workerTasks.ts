@@ -0,0 +1,246 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Worker Task Queue
+ *
+ * Hands test case iterations to remote workers (`agent-health worker`) when
+ * distributed execution is enabled (BENCHMARK_WORKERS_ENABLED). The job queue
+ * still executes each run - concurrency, iterations, budgets, and saving
+ * reports stay in the server - but the agent execution and judging of a test
+ * case happen in whichever worker leases its task.
+ *
+ * A worker holds a task for BENCHMARK_WORKER_LEASE_MS and extends the lease
+ * with heartbeats. A lease that runs out (e.g. the worker crashed) puts the
+ * task back in the queue for another worker; after BENCHMARK_WORKER_MAX_ATTEMPTS
+ * leases the task fails instead. Reports and failures are only accepted from
+ * the worker currently holding the lease.
+ *
+ * Tasks are kept in memory only: after a restart the job queue resumes its
+ * runs with new tasks, and workers still holding old ones find their lease gone.
+ */
+
+import type { AgentConfig, EvaluationReport, WorkerInfo, WorkerTask, WorkerTaskLocalField } from '../../types/index.js';
+import { BENCHMARK_WORKERS } from '../config/index.js';
+
+// Workers that haven't called in for this long are dropped from the list
+const WORKER_FORGET_MS = 10 * 60 * 1000;
+
+export type WorkerTaskInput = Omit<WorkerTask, 'id' | 'attempt' | 'agent' | 'localAgentFields'> & { agent: AgentConfig };
+
+interface TaskEntry {
+  task: WorkerTask;
+  workerId?: string;
+  leaseExpiresAt?: number;
+  resolve: (report: EvaluationReport) => void;
+  reject: (error: Error) => void;
+}
+
+type WorkerRecord = Omit<WorkerInfo, 'activeTaskIds'>;
+
+function generateId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+export class WorkerTaskQueue {
+  // Insertion order is lease order: reassigned tasks keep their place
+  private tasks: Map<string, TaskEntry> = new Map();
+  private workers: Map<string, WorkerRecord> = new Map();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Reclaim expired leases every half lease, even while no worker is asking for work
+   */
+  start(intervalMs: number = Math.ceil(BENCHMARK_WORKERS.leaseMs / 2)): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.reclaimExpired(), intervalMs);
+    // Don't keep the process alive just for lease checks
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue a task and wait for a worker's report
+   * Rejects when the task fails on a worker, runs out of attempts, or is cancelled.
+   */
+  execute(input: WorkerTaskInput): Promise<EvaluationReport> {
+    // Leases are unauthenticated, so the agent's credentials stay in the server.
+    // The run's header overrides are sent on their own.
+    const { auth, headers, hooks, ...agent } = input.agent;
+    const agentHeaderNames = Object.keys(headers ?? {}).filter(name => !(name in (input.runHeaders ?? {})));
+    const localAgentFields: WorkerTaskLocalField[] = [
+      ...(auth && auth.type !== 'none' ? ['auth' as const] : []),
+      ...(agentHeaderNames.length > 0 ? ['headers' as const] : []),
+      ...(hooks ? ['hooks' as const] : []),
+    ];
+    return new Promise((resolve, reject) => {
+      const task: WorkerTask = {
+        ...input,
+        agent,
+        ...(localAgentFields.length > 0 && { localAgentFields }),
+        id: generateId('task'),
+        attempt: 0,
+      };
+      this.tasks.set(task.id, { task, resolve, reject });
+    });
+  }
+
+  /**
+   * Lease the oldest unleased task to a worker
+   * @returns null when no task is waiting
+   */
+  lease(workerId: string, now: number = Date.now()): WorkerTask | null {
+    this.reclaimExpired(now);
+    this.touch(workerId, now);
+
+    for (const entry of this.tasks.values()) {
+      if (entry.workerId) continue;
+      entry.workerId = workerId;
+      entry.leaseExpiresAt = now + BENCHMARK_WORKERS.leaseMs;
+      entry.task.attempt++;
+      console.log(`[Workers] Leased task ${entry.task.id} (attempt ${entry.task.attempt}) to ${workerId}`);
+      return entry.task;
+    }
+    return null;
+  }
+
+  /**
+   * Extend a worker's lease on a task
+   * @returns false if the worker no longer holds the task
+   */
+  heartbeat(taskId: string, workerId: string, now: number = Date.now()): boolean {
+    const entry = this.getLeased(taskId, workerId);
+    if (!entry) return false;
+
+    this.touch(workerId, now);
+    entry.leaseExpiresAt = now + BENCHMARK_WORKERS.leaseMs;
+    return true;
+  }
+
+  /**
+   * Accept a worker's report for its task
+   * @returns false if the worker no longer holds the task
+   */
+  complete(taskId: string, workerId: string, report: EvaluationReport, now: number = Date.now()): boolean {
+    const entry = this.getLeased(taskId, workerId);
+    if (!entry) return false;
+
+    this.tasks.delete(taskId);
+    this.touch(workerId, now).completedTasks++;
+    entry.resolve(report);
+    return true;
+  }
+
+  /**
+   * Fail a task the worker couldn't execute
+   * @returns false if the worker no longer holds the task
+   */
+  fail(taskId: string, workerId: string, error: string, now: number = Date.now()): boolean {
+    const entry = this.getLeased(taskId, workerId);
+    if (!entry) return false;
+
+    this.tasks.delete(taskId);
+    this.touch(workerId, now).failedTasks++;
+    entry.reject(new Error(`Worker ${workerId} failed: ${error}`));
+    return true;
+  }
+
+  /**
+   * Drop a run's tasks that no worker has picked up yet (leased tasks finish)
+   * @returns Number of tasks dropped
+   */
+  cancelPending(runId: string): number {
+    let cancelled = 0;
+    for (const [id, entry] of this.tasks) {
+      if (entry.task.runId !== runId || entry.workerId) continue;
+      this.tasks.delete(id);
+      entry.reject(new Error('Run cancelled before a worker picked up the test case'));
+      cancelled++;
+    }
+    return cancelled;
+  }
+
+  /**
+   * Put tasks whose lease ran out back in the queue, or fail them once they
+   * have used up their attempts
+   */
+  reclaimExpired(now: number = Date.now()): void {
+    for (const [id, entry] of this.tasks) {
+      if (!entry.workerId || entry.leaseExpiresAt === undefined || entry.leaseExpiresAt > now) continue;
+
+      const worker = this.workers.get(entry.workerId);
+      if (worker) worker.failedTasks++;
+
+      if (entry.task.attempt >= BENCHMARK_WORKERS.maxAttempts) {
+        console.warn(`[Workers] Task ${id} lost its lease on ${entry.workerId}; giving up after ${entry.task.attempt} attempts`);
+        this.tasks.delete(id);
+        entry.reject(new Error(`No heartbeat from the worker executing the test case (${entry.task.attempt} attempts)`));
+        continue;
+      }
+
+      console.warn(`[Workers] Task ${id} lost its lease on ${entry.workerId}; reassigning`);
+      entry.workerId = undefined;
+      entry.leaseExpiresAt = undefined;
+    }
+  }
+
+  /**
+   * Workers that called in recently, with the tasks they hold
+   */
+  listWorkers(now: number = Date.now()): WorkerInfo[] {
+    this.forgetIdleWorkers(now);
+    return Array.from(this.workers.values()).map(worker => ({
+      ...worker,
+      activeTaskIds: Array.from(this.tasks.values())
+        .filter(entry => entry.workerId === worker.id)
+        .map(entry => entry.task.id),
+    }));
+  }
+
+  /**
+   * Tasks waiting for a worker and tasks being executed
+   */
+  getTaskCounts(): { pending: number; leased: number } {
+    let leased = 0;
+    for (const entry of this.tasks.values()) {
+      if (entry.workerId) leased++;
+    }
+    return { pending: this.tasks.size - leased, leased };
+  }
+
+  private getLeased(taskId: string, workerId: string): TaskEntry | undefined {
+    const entry = this.tasks.get(taskId);
+    return entry?.workerId === workerId ? entry : undefined;
+  }
+
+  private touch(workerId: string, now: number): WorkerRecord {
+    const seenAt = new Date(now).toISOString();
+    let worker = this.workers.get(workerId);
+    if (!worker) {
+      console.log(`[Workers] Worker ${workerId} connected`);
+      worker = { id: workerId, firstSeenAt: seenAt, lastSeenAt: seenAt, completedTasks: 0, failedTasks: 0 };
+      this.workers.set(workerId, worker);
+    }
+    worker.lastSeenAt = seenAt;
+    return worker;
+  }
+
+  private forgetIdleWorkers(now: number): void {
+    for (const [id, worker] of this.workers) {
+      if (now - new Date(worker.lastSeenAt).getTime() > WORKER_FORGET_MS) {
+        this.workers.delete(id);
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const workerTasks = new WorkerTaskQueue();
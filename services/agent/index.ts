@@ -10,6 +10,6 @@
 
 export { AGUIToTrajectoryConverter, computeTrajectoryFromRawEvents } from './aguiConverter';
 export { SSEClient, consumeSSEStream } from './sseStream';
-export { buildAgentPayload, buildMultiTurnPayload } from './payloadBuilder';
+export { buildAgentPayload, buildMultiTurnPayload, buildAgentMessage, buildConversationPrompt } from './payloadBuilder';
 export type { SSEClientOptions } from './sseStream';
 export type { AgentMessage, AgentRequestPayload } from './payloadBuilder';
@@ -61,15 +61,28 @@ function generateId(prefix: string): string {
   return `${prefix}-${timestamp}-${random}`;
 }
 
+/**
+ * Create a conversation message with a generated ID
+ */
+export function buildAgentMessage(role: AgentMessage['role'], content: string): AgentMessage {
+  return {
+    id: generateId('msg'),
+    role,
+    content,
+  };
+}
+
 /**
  * Build agent request payload from test case
  * Tools are passed from test case or default to PPL tool
+ * When messages are given (multi-turn runs), they replace the initial prompt
  */
 export function buildAgentPayload(
   testCase: TestCase,
   modelId: string,
   threadId?: string,
-  runId?: string
+  runId?: string,
+  messages?: AgentMessage[]
 ): AgentRequestPayload {
   // Use tools from test case, or default to PPL tool for Smart Contextual Menu tests
   const tools = testCase.tools || [DEFAULT_PPL_TOOL];
@@ -77,13 +90,7 @@ export function buildAgentPayload(
   return {
     threadId: threadId || generateId('thread'),
     runId: runId || generateId('run'),
-    messages: [
-      {
-        id: generateId('msg'),
-        role: 'user',
-        content: testCase.initialPrompt,
-      },
-    ],
+    messages: messages || [buildAgentMessage('user', testCase.initialPrompt)],
     tools,
     context: testCase.context || [],
     state: {},
@@ -111,3 +118,22 @@ export function buildMultiTurnPayload(
     forwardedProps: {},
   };
 }
+
+/**
+ * Render conversation history as a single prompt
+ * Used by connectors that cannot keep state between turns (REST, subprocess),
+ * so every turn resends the full history. A single message is returned as-is.
+ */
+export function buildConversationPrompt(messages: AgentMessage[]): string {
+  if (messages.length === 1) {
+    return messages[0].content;
+  }
+
+  const transcript = messages
+    .slice(0, -1)
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+    .join('\n\n');
+  const latest = messages[messages.length - 1];
+
+  return `Conversation so far:\n${transcript}\n\nUser: ${latest.content}`;
+}
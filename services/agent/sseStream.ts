@@ -24,6 +24,8 @@ export interface SSEClientOptions {
   completeOnRunEnd?: boolean;
   /** Timeout (ms) after last event to assume stream is complete (default: 10000) */
   idleTimeoutMs?: number;
+  /** Closes the stream when aborted; reported through onError with the abort reason */
+  signal?: AbortSignal;
 }
 
 export class SSEClient {
@@ -43,9 +45,13 @@ export class SSEClient {
       onComplete,
       completeOnRunEnd = false,
       idleTimeoutMs = 10000, // 10 second idle timeout by default
+      signal,
     } = options;
 
     this.abortController = new AbortController();
+    const onExternalAbort = () => this.abort();
+    if (signal?.aborted) this.abort();
+    signal?.addEventListener('abort', onExternalAbort, { once: true });
 
     debug('SSE', 'Connecting to', url);
     debug('SSE', 'Method:', method);
@@ -82,7 +88,11 @@ export class SSEClient {
       onComplete?.();
     } catch (error) {
       if (error instanceof Error) {
-        if (error.name === 'AbortError') {
+        if (signal?.aborted) {
+          // Aborted by the caller (e.g. test case timeout), not by run completion
+          debug('SSE', 'Stream aborted by caller');
+          onError?.(signal.reason instanceof Error ? signal.reason : error);
+        } else if (error.name === 'AbortError') {
           // AbortError after completeOnRunEnd is expected, call onComplete
           debug('SSE', 'Stream aborted (expected after run completion)');
           onComplete?.();
@@ -93,6 +103,8 @@ export class SSEClient {
       } else {
         onError?.(new Error('Unknown error occurred'));
       }
+    } finally {
+      signal?.removeEventListener('abort', onExternalAbort);
     }
   }
 
@@ -206,7 +218,8 @@ export async function consumeSSEStream(
   url: string,
   payload: any,
   onEvent: (event: AGUIEvent) => void,
-  headers?: Record<string, string>
+  headers?: Record<string, string>,
+  signal?: AbortSignal
 ): Promise<void> {
   const client = new SSEClient();
 
@@ -222,6 +235,7 @@ export async function consumeSSEStream(
       // Enable auto-completion on RUN_FINISHED/RUN_ERROR events
       // This prevents hanging when the agent doesn't close the connection
       completeOnRunEnd: true,
+      signal,
     });
   });
 }
@@ -4,6 +4,7 @@
  */
 
 import {
+  AppConfig,
   Benchmark,
   BenchmarkRun,
   BenchmarkProgress,
@@ -11,6 +12,8 @@ import {
   TestCase,
   EvaluationReport,
   RunConfigInput,
+  JudgeEnsembleConfig,
+  LLMJudgeResponse,
 } from '@/types';
 import {
   getAllTestCasesWithClient,
@@ -18,13 +21,25 @@ import {
   updateRunWithClient,
 } from '@/server/services/storage';
 import type { Client } from '@opensearch-project/opensearch';
-import { runEvaluationWithConnector, callBedrockJudge } from './evaluation';
-import { connectorRegistry } from '@/services/connectors/server';
+import { runEvaluationWithConnector, type RunEvaluationWithConnectorOptions } from './evaluation';
+import { connectorRegistry, saveCassette } from '@/services/connectors/server';
+import type { Cassette } from '@/services/connectors/types';
+import type { ConnectorExecuteOptions } from '@/services/connectors/types';
+import { judgeRegistry } from '@/services/judges';
+import type { JudgeRequest } from '@/services/judges';
+import { evaluateAssertions, hasJudgeCriteria, applyAssertionResults, buildAssertionJudgment } from '@/lib/assertions';
+import { applyPPLMatch } from '@/lib/pplMatch';
+import { aggregateJudgments, isEnsemble, settleEnsembleJudges } from '@/lib/judgeEnsemble';
+import { applyBenchmarkRubric } from '@/lib/rubric';
+import { resolveRunConcurrency } from '@/lib/runConcurrency';
+import { addRunUsage, getRunBudgetViolation } from '@/lib/runBudget';
+import { computeCostUsd } from '@/server/services/metricsService';
+import { CASSETTES } from '@/server/config';
 import { loadConfigSync } from '@/lib/config/index';
 import { DEFAULT_CONFIG } from '@/lib/constants';
 import { tracePollingManager } from './traces/tracePoller';
 import { getCustomAgents } from '@/server/services/customAgentStore';
-import { RunResultStatus } from '@/types';
+import { RunResultStatus, RunResultIteration } from '@/types';
 
 /**
  * Safely load config with fallback to defaults.
@@ -44,7 +59,7 @@ function getConfig() {
  */
 export type OnTestCaseCompleteCallback = (
   testCaseId: string,
-  result: { reportId: string; status: RunResultStatus }
+  result: BenchmarkRun['results'][string]
 ) => Promise<void>;
 
 /**
@@ -57,17 +72,58 @@ export interface CancellationToken {
 
 /**
  * Create a new cancellation token
+ * @param onCancel - Called once, when the token is first cancelled (by the caller or a run budget)
  */
-export function createCancellationToken(): CancellationToken {
+export function createCancellationToken(onCancel?: () => void): CancellationToken {
   const token = {
     isCancelled: false,
     cancel() {
+      if (this.isCancelled) return;
       this.isCancelled = true;
+      onCancel?.();
     },
   };
   return token;
 }
 
+/**
+ * One iteration of a test case, ready to be evaluated
+ */
+export interface TestCaseEvaluation {
+  run: BenchmarkRun;
+  testCaseId: string;
+  iteration: number;
+  agent: AgentConfig;
+  /** Model ID passed to the agent and judge */
+  modelId: string;
+  /** Test case with the benchmark rubric applied */
+  testCase: TestCase;
+  options: Pick<RunEvaluationWithConnectorOptions, 'judgeEnsemble' | 'execution' | 'budget'>;
+}
+
+/**
+ * Runs the agent on one iteration of a test case and judges it
+ */
+export type TestCaseEvaluator = (evaluation: TestCaseEvaluation) => Promise<EvaluationReport>;
+
+/**
+ * Evaluate in this process with the server's connector registry
+ */
+const evaluateInProcess: TestCaseEvaluator = ({ agent, modelId, testCase, options }) =>
+  runEvaluationWithConnector(agent, modelId, testCase, () => {}, {
+    registry: connectorRegistry,
+    ...options,
+    ...(CASSETTES.record && { record: recordCassette }),
+  });
+
+/**
+ * Save the agent exchanges of an evaluation for the replay connector (CASSETTE_RECORD=true)
+ */
+async function recordCassette(cassette: Cassette): Promise<void> {
+  const filePath = await saveCassette(CASSETTES.dir, cassette);
+  console.log(`[BenchmarkRunner] Recorded cassette ${filePath}`);
+}
+
 /**
  * Options for executeRun
  */
@@ -77,6 +133,10 @@ export interface ExecuteRunOptions {
   client: Client;
   /** Callback invoked after each test case completes (for persisting intermediate progress) */
   onTestCaseComplete?: OnTestCaseCompleteCallback;
+  /** Checked before each test case; once true, no more test cases are started */
+  shouldPause?: () => boolean;
+  /** Evaluates each iteration (default: in this process; the job queue can hand them to workers) */
+  evaluate?: TestCaseEvaluator;
 }
 
 /**
@@ -112,11 +172,61 @@ function getBedrockModelId(modelKey: string): string {
   return modelConfig?.model_id || modelKey;
 }
 
+/**
+ * Judge ensemble for a run: the run's own setting, else the config file default
+ */
+function getJudgeEnsemble(run: BenchmarkRun): JudgeEnsembleConfig | undefined {
+  const config = getConfig() as { judge?: { ensemble?: JudgeEnsembleConfig } };
+  return run.judgeEnsemble ?? config.judge?.ensemble;
+}
+
+/**
+ * Timeout and retry policy for agent calls, from the config file's defaults
+ */
+function getExecutionOptions(): ConnectorExecuteOptions {
+  const config = getConfig() as { defaults?: Partial<AppConfig['defaults']> };
+  const defaults = { ...DEFAULT_CONFIG.defaults, ...config.defaults };
+  return {
+    timeout: defaults.timeout_ms,
+    retries: defaults.retry_attempts,
+    retryDelay: defaults.retry_delay_ms,
+  };
+}
+
+/**
+ * Result status of an executed iteration: over budget, failed (the agent
+ * errored or timed out), or completed. Whether the judge passed it is up to
+ * the report.
+ */
+function getIterationStatus(report: EvaluationReport): RunResultStatus {
+  if (report.budgetExceededReason) return 'budget_exceeded';
+  if (report.status === 'failed' || report.timeoutReason) return 'failed';
+  return 'completed';
+}
+
 /**
  * Execute a run for a benchmark
  *
  * A run executes a single configuration against all test cases in the benchmark.
  * Results are stored in the evals_runs index via asyncRunStorage.
+ *
+ * Up to `run.concurrency` test cases execute at once, picked in benchmark
+ * order. Progress is reported in that order too: a 'running' event for a test
+ * case is sent once every test case before it has finished, so consumers can
+ * treat everything before the reported index as done. onTestCaseComplete
+ * calls are made one at a time, in completion order.
+ *
+ * Test cases that already have a completed or failed result are skipped, so a
+ * paused or interrupted run can be resumed with the same run object (a retry
+ * resets the results to re-run to pending; see lib/runRetry). When
+ * shouldPause returns true, the test cases in flight finish and the run is
+ * returned with the rest still pending (no 'completed' progress is sent).
+ *
+ * With a budget, the agent's reported token usage and its cost are added up in
+ * `run.usage`; once the run exceeds its token, cost, or wall-clock limit, the
+ * reason is recorded in `run.budgetExceededReason` and the run is cancelled
+ * through its cancellation token. Test cases cut off by their step or tool
+ * call limit end as 'budget_exceeded'.
  */
 export async function executeRun(
   benchmark: Benchmark,
@@ -125,7 +235,9 @@ export async function executeRun(
   options: ExecuteRunOptions
 ): Promise<BenchmarkRun> {
   const totalTestCases = benchmark.testCaseIds.length;
-  const { cancellationToken, client, onTestCaseComplete } = options;
+  const { client, onTestCaseComplete, shouldPause, evaluate = evaluateInProcess } = options;
+  // Run budgets cancel through the token, so there always is one
+  const cancellationToken = options.cancellationToken ?? createCancellationToken();
 
   // Initialize results if empty
   if (!run.results) {
@@ -136,88 +248,229 @@ export async function executeRun(
   const allTestCases = await getAllTestCasesWithClient(client);
   const testCaseMap = new Map(allTestCases.map((tc: any) => [tc.id, tc]));
 
-  try {
-    // Iterate through each test case
-    for (let testCaseIndex = 0; testCaseIndex < totalTestCases; testCaseIndex++) {
-      // Check for cancellation before each test case
-      if (cancellationToken?.isCancelled) {
-        onProgress({
-          currentTestCaseIndex: testCaseIndex,
-          totalTestCases,
-          currentRunId: run.id,
-          currentTestCaseId: benchmark.testCaseIds[testCaseIndex],
-          status: 'cancelled',
-        });
-        break;
-      }
+  // Persist results through a queue so concurrent test cases never have
+  // overlapping updates to the stored run
+  let persistQueue: Promise<void> = Promise.resolve();
+  const persistResult = (testCaseId: string) => {
+    if (!onTestCaseComplete) return;
+    const result = run.results[testCaseId];
+    persistQueue = persistQueue
+      .then(() => onTestCaseComplete(testCaseId, result))
+      .catch(err => console.warn(`[BenchmarkRunner] Failed to persist progress for ${testCaseId}:`, err.message));
+  };
+
+  // Update a test case's result, keeping the attempts a retry replaced
+  const setResult = (
+    testCaseId: string,
+    reportId: string,
+    status: RunResultStatus,
+    iterationResults?: RunResultIteration[]
+  ) => {
+    const attempts = run.results[testCaseId]?.attempts;
+    run.results[testCaseId] = {
+      reportId,
+      status,
+      ...(attempts && { attempts }),
+      ...(iterationResults && { iterationResults }),
+    };
+  };
 
-      const testCaseId = benchmark.testCaseIds[testCaseIndex];
-      const testCase = testCaseMap.get(testCaseId);
+  const iterations = run.iterations ?? 1;
 
-      if (!testCase) {
-        console.warn(`[BenchmarkRunner] Test case not found: ${testCaseId}`);
-        run.results[testCaseId] = { reportId: '', status: 'failed' };
-        continue;
-      }
+  // Cancel the run once it goes over budget (the first reason wins)
+  const exceedRunBudget = (reason: string) => {
+    if (run.budgetExceededReason || cancellationToken.isCancelled) return;
+    console.warn(`[BenchmarkRunner] Run ${run.id} cancelled: ${reason}`);
+    run.budgetExceededReason = reason;
+    cancellationToken.cancel();
+  };
+
+  // Add an iteration's agent and judge token usage to the run's. Each judge
+  // of an ensemble is priced at its own model's rate.
+  const recordUsage = (report: EvaluationReport, bedrockModelId: string) => {
+    if (!run.budget) return;
+    if (report.tokenUsage) {
+      const { inputTokens, outputTokens, modelId } = report.tokenUsage;
+      run.usage = addRunUsage(
+        run.usage,
+        inputTokens,
+        outputTokens,
+        computeCostUsd(inputTokens, outputTokens, modelId ?? bedrockModelId)
+      );
+    }
+    const judgeResponses = report.judgeResponses ?? (report.llmJudgeResponse ? [report.llmJudgeResponse] : []);
+    for (const { promptTokens, completionTokens, modelId } of judgeResponses) {
+      if (!promptTokens && !completionTokens) continue;
+      run.usage = addRunUsage(
+        run.usage,
+        promptTokens,
+        completionTokens,
+        computeCostUsd(promptTokens, completionTokens, modelId)
+      );
+    }
+    const violation = getRunBudgetViolation(run.budget, run.usage);
+    if (violation) exceedRunBudget(violation);
+  };
+
+  // The wall-clock limit counts from the start of this execution
+  const maxDurationMs = run.budget?.maxDurationMs;
+  const durationTimer = maxDurationMs !== undefined
+    ? setTimeout(() => exceedRunBudget(`Run exceeded its budget of ${maxDurationMs}ms wall-clock time`), maxDurationMs)
+    : undefined;
+
+  let nextTestCaseIndex = 0;
+  let cancellationReported = false;
+  let paused = false;
+  const finished: boolean[] = new Array(totalTestCases).fill(false);
+  let reportedIndex = -1;
+
+  // Report the first unfinished test case once it has started
+  const reportProgress = () => {
+    let frontier = Math.max(reportedIndex, 0);
+    while (frontier < totalTestCases && finished[frontier]) frontier++;
+    if (frontier === reportedIndex || frontier >= nextTestCaseIndex) return;
+
+    reportedIndex = frontier;
+    onProgress({
+      currentTestCaseIndex: frontier,
+      totalTestCases,
+      currentRunId: run.id,
+      currentTestCaseId: benchmark.testCaseIds[frontier],
+      status: 'running',
+    });
+  };
 
-      // Report progress
-      onProgress({
-        currentTestCaseIndex: testCaseIndex,
-        totalTestCases,
-        currentRunId: run.id,
-        currentTestCaseId: testCaseId,
-        status: 'running',
+  // Run and save one iteration of a test case
+  const executeIteration = async (
+    testCaseId: string,
+    judgedTestCase: TestCase,
+    iteration: number
+  ): Promise<RunResultIteration> => {
+    try {
+      // Build agent config from run configuration
+      const agentConfig = buildAgentConfigForRun(run);
+      const bedrockModelId = getBedrockModelId(run.modelId);
+
+      const report = await evaluate({
+        run,
+        testCaseId,
+        iteration,
+        agent: agentConfig,
+        modelId: bedrockModelId,
+        testCase: judgedTestCase,
+        options: { judgeEnsemble: getJudgeEnsemble(run), execution: getExecutionOptions(), budget: run.budget },
       });
+      recordUsage(report, bedrockModelId);
 
-      // Set status to running
-      run.results[testCaseId] = { reportId: '', status: 'running' };
-
-      try {
-        // Build agent config from run configuration
-        const agentConfig = buildAgentConfigForRun(run);
-        const bedrockModelId = getBedrockModelId(run.modelId);
-
-        // Run the evaluation using connector
-        const report = await runEvaluationWithConnector(
-          agentConfig,
-          bedrockModelId,
-          testCase,
-          () => {}, // No debug callback needed
-          { registry: connectorRegistry }
-        );
-
-        // Save the report to OpenSearch and get the actual stored ID
-        const savedReport = await saveReportWithClient(client, report, {
-          experimentId: benchmark.id,
-          experimentRunId: run.id,
-        });
-
-        // Start trace polling for trace-mode runs (metricsStatus: 'pending')
-        if (savedReport.metricsStatus === 'pending' && savedReport.runId) {
-          startTracePollingForReport(savedReport, testCase, client);
-        }
+      // Save the report to OpenSearch and get the actual stored ID
+      const savedReport = await saveReportWithClient(client, report, {
+        experimentId: benchmark.id,
+        experimentRunId: run.id,
+        ...(iterations > 1 && { iteration }),
+      });
 
-        // Update result with success - use the actual stored ID
-        run.results[testCaseId] = {
-          reportId: savedReport.id,
-          status: 'completed',
-        };
+      // Start trace polling for trace-mode runs (metricsStatus: 'pending')
+      if (savedReport.metricsStatus === 'pending' && savedReport.runId) {
+        startTracePollingForReport(savedReport, judgedTestCase, client, getJudgeEnsemble(run));
+      }
 
-        // Persist progress to OpenSearch (fire-and-forget with logging)
-        if (onTestCaseComplete) {
-          onTestCaseComplete(testCaseId, run.results[testCaseId])
-            .catch(err => console.warn(`[BenchmarkRunner] Failed to persist progress for ${testCaseId}:`, err.message));
-        }
-      } catch (error) {
-        console.error(`[BenchmarkRunner] Error in test case ${testCaseId}:`, error instanceof Error ? error.message : error);
-        run.results[testCaseId] = { reportId: '', status: 'failed' };
-
-        // Persist failure progress to OpenSearch (fire-and-forget with logging)
-        if (onTestCaseComplete) {
-          onTestCaseComplete(testCaseId, run.results[testCaseId])
-            .catch(err => console.warn(`[BenchmarkRunner] Failed to persist failure progress for ${testCaseId}:`, err.message));
+      // Use the actual stored ID. Agent errors and timeouts come back as failed
+      // reports rather than thrown errors, so they are failed results too.
+      return { reportId: savedReport.id, status: getIterationStatus(report) };
+    } catch (error) {
+      console.error(`[BenchmarkRunner] Error in test case ${testCaseId}:`, error instanceof Error ? error.message : error);
+      return { reportId: '', status: 'failed' };
+    }
+  };
+
+  const executeTestCase = async (testCaseIndex: number): Promise<void> => {
+    const testCaseId = benchmark.testCaseIds[testCaseIndex];
+    const testCase = testCaseMap.get(testCaseId);
+
+    // Already executed before the run was paused or interrupted
+    const previousStatus = run.results[testCaseId]?.status;
+    if (previousStatus === 'completed' || previousStatus === 'failed' || previousStatus === 'budget_exceeded') {
+      finished[testCaseIndex] = true;
+      return;
+    }
+
+    if (!testCase) {
+      console.warn(`[BenchmarkRunner] Test case not found: ${testCaseId}`);
+      setResult(testCaseId, '', 'failed');
+      finished[testCaseIndex] = true;
+      return;
+    }
+
+    // Test cases without their own rubric are judged with the benchmark's
+    const judgedTestCase = applyBenchmarkRubric(testCase, benchmark);
+
+    // Set status to running
+    setResult(testCaseId, '', 'running');
+    reportProgress();
+
+    // Later iterations are skipped once the run is cancelled
+    const iterationResults: RunResultIteration[] = [];
+    for (let iteration = 1; iteration <= iterations; iteration++) {
+      iterationResults.push(
+        iteration > 1 && cancellationToken.isCancelled
+          ? { reportId: '', status: 'cancelled' }
+          : await executeIteration(testCaseId, judgedTestCase, iteration)
+      );
+    }
+
+    // The first completed iteration stands for the test case; without one, an
+    // iteration cut off by its budget marks the whole test case as over budget,
+    // else the first failed iteration with a report is kept
+    const primary = iterationResults.find(result => result.status === 'completed')
+      ?? iterationResults.find(result => result.status === 'budget_exceeded')
+      ?? iterationResults.find(result => result.status === 'failed' && result.reportId);
+    setResult(
+      testCaseId,
+      primary?.reportId ?? '',
+      primary?.status ?? 'failed',
+      iterations > 1 ? iterationResults : undefined
+    );
+
+    finished[testCaseIndex] = true;
+    reportProgress();
+
+    // Persist progress to OpenSearch (queued, errors are logged)
+    persistResult(testCaseId);
+  };
+
+  const worker = async (): Promise<void> => {
+    while (nextTestCaseIndex < totalTestCases) {
+      // Check for cancellation before each test case
+      if (cancellationToken.isCancelled) {
+        if (!cancellationReported) {
+          cancellationReported = true;
+          onProgress({
+            currentTestCaseIndex: nextTestCaseIndex,
+            totalTestCases,
+            currentRunId: run.id,
+            currentTestCaseId: benchmark.testCaseIds[nextTestCaseIndex],
+            status: 'cancelled',
+          });
         }
+        return;
       }
+
+      if (shouldPause?.()) {
+        paused = true;
+        return;
+      }
+
+      await executeTestCase(nextTestCaseIndex++);
+    }
+  };
+
+  try {
+    const concurrency = resolveRunConcurrency(run.concurrency, totalTestCases);
+    await Promise.all(Array.from({ length: concurrency }, () => worker()));
+    await persistQueue;
+
+    if (paused && !cancellationToken.isCancelled) {
+      return run;
     }
 
     // Report final progress
@@ -234,11 +487,13 @@ export async function executeRun(
     // Mark any pending test cases as failed
     benchmark.testCaseIds.forEach(testCaseId => {
       if (!run.results[testCaseId] || run.results[testCaseId].status === 'pending') {
-        run.results[testCaseId] = { reportId: '', status: 'failed' };
+        setResult(testCaseId, '', 'failed');
       }
     });
 
     throw error;
+  } finally {
+    clearTimeout(durationTimer);
   }
 }
 
@@ -295,26 +550,79 @@ export async function runSingleUseCase(
     bedrockModelId,
     testCase,
     onStep || (() => {}),
-    { registry: connectorRegistry }
+    {
+      registry: connectorRegistry,
+      judgeEnsemble: getJudgeEnsemble(run),
+      execution: getExecutionOptions(),
+      ...(CASSETTES.record && { record: recordCassette }),
+    }
   );
 
   const savedReport = await saveReportWithClient(client, report);
 
   // Start trace polling for trace-mode runs
   if (savedReport.metricsStatus === 'pending' && savedReport.runId) {
-    startTracePollingForReport(savedReport, testCase, client);
+    startTracePollingForReport(savedReport, testCase, client, getJudgeEnsemble(run));
   }
 
   return savedReport.id;
 }
 
+/**
+ * Evaluate in-process with the judge registered for the model, or with every
+ * judge in the ensemble (verdicts of the judges that succeed aggregated,
+ * individual responses kept)
+ */
+async function judgeInProcess(request: JudgeRequest, modelKey: string, judgeEnsemble?: JudgeEnsembleConfig) {
+  const models = getConfig().models;
+
+  // A single-model ensemble just picks the judge
+  const soloJudgeKey = judgeEnsemble?.models[0];
+  if (!isEnsemble(judgeEnsemble)) {
+    const { judge, modelId, modelConfig } = judgeRegistry.getForModel(soloJudgeKey ?? modelKey, models);
+    return judge.evaluate(request, { modelId, modelConfig });
+  }
+
+  const { judgments: members, failures } = await settleEnsembleJudges(judgeEnsemble.models, async key => {
+    const { judge, modelId, modelConfig } = judgeRegistry.getForModel(key, models);
+    const result = await judge.evaluate(request, { modelId, modelConfig });
+    return { ...result, modelId };
+  });
+  failures.forEach(({ model, error }) => console.warn(`[BenchmarkRunner] Judge ${model} failed, left out of the ensemble:`, error));
+  const aggregated = aggregateJudgments(members, judgeEnsemble.aggregation, failures);
+  const judgeResponses: LLMJudgeResponse[] = members.map(member => ({
+    modelId: member.modelId,
+    passFailStatus: member.passFailStatus,
+    timestamp: new Date().toISOString(),
+    promptTokens: member.promptTokens ?? 0,
+    completionTokens: member.completionTokens ?? 0,
+    latencyMs: member.duration ?? 0,
+    rawResponse: member.llmJudgeReasoning,
+    parsedMetrics: {
+      accuracy: member.metrics.accuracy,
+      faithfulness: member.metrics.faithfulness,
+      latency_score: member.metrics.latency_score,
+      trajectory_alignment_score: member.metrics.trajectory_alignment_score,
+    },
+    improvementStrategies: member.improvementStrategies,
+  }));
+
+  return { ...aggregated, judgeResponses, judgeAgreement: aggregated.agreement };
+}
+
 /**
  * Start trace polling for a report that has metricsStatus: 'pending'
  *
- * When traces are found, calls the Bedrock judge with the trajectory
- * and test case's expectedOutcomes to get the final evaluation.
+ * When traces are found, calls the judge registered for the report's model
+ * (or the run's judge ensemble) with the trajectory and test case's
+ * expectedOutcomes to get the final evaluation.
  */
-function startTracePollingForReport(report: EvaluationReport, testCase: TestCase, client: Client): void {
+function startTracePollingForReport(
+  report: EvaluationReport,
+  testCase: TestCase,
+  client: Client,
+  judgeEnsemble?: JudgeEnsembleConfig
+): void {
   if (!report.runId) {
     console.warn(`[BenchmarkRunner] No runId for report ${report.id}, cannot start trace polling`);
     return;
@@ -326,27 +634,47 @@ function startTracePollingForReport(report: EvaluationReport, testCase: TestCase
     {
       onTracesFound: async (spans, updatedReport) => {
         try {
-          // Call the Bedrock judge with the trajectory and expectedOutcomes
-          const judgeModelId = report.modelId ? getBedrockModelId(report.modelId) : undefined;
-
-          const judgment = await callBedrockJudge(
-            updatedReport.trajectory,
+          const assertionResults = testCase.assertions?.length
+            ? evaluateAssertions(testCase.assertions, updatedReport.trajectory)
+            : undefined;
+
+          // Assertion-only test cases skip the LLM judge
+          if (assertionResults && !hasJudgeCriteria(testCase)) {
+            const assertionJudgment = buildAssertionJudgment(assertionResults);
+            await updateRunWithClient(client, report.id, {
+              metricsStatus: 'ready',
+              ...assertionJudgment,
+              metrics: applyPPLMatch(assertionJudgment.metrics, testCase.expectedPPL, updatedReport.trajectory),
+              assertionResults,
+            });
+            return;
+          }
+
+          // Resolve the judge(s) for the report's model and evaluate in-process
+          const judgment = await judgeInProcess(
             {
+              trajectory: updatedReport.trajectory,
               expectedOutcomes: testCase.expectedOutcomes,
               expectedTrajectory: testCase.expectedTrajectory,
+              logs: [], // No logs for trace-mode - traces are the source of truth
+              rubric: testCase.rubric,
             },
-            [], // No logs for trace-mode - traces are the source of truth
-            () => {}, // No progress callback needed
-            judgeModelId
+            report.modelId,
+            judgeEnsemble
           );
 
-          // Update report with judge results
+          // Update report with judge results (failed assertions override a judge pass)
           await updateRunWithClient(client, report.id, {
             metricsStatus: 'ready',
-            passFailStatus: judgment.passFailStatus,
-            metrics: judgment.metrics,
+            passFailStatus: applyAssertionResults(judgment.passFailStatus, assertionResults),
+            metrics: applyPPLMatch(judgment.metrics, testCase.expectedPPL, updatedReport.trajectory),
             llmJudgeReasoning: judgment.llmJudgeReasoning,
             improvementStrategies: judgment.improvementStrategies,
+            ...('judgeResponses' in judgment && {
+              judgeResponses: judgment.judgeResponses,
+              judgeAgreement: judgment.judgeAgreement,
+            }),
+            assertionResults,
           });
         } catch (error) {
           console.error(`[BenchmarkRunner] Failed to judge report ${report.id}:`, error instanceof Error ? error.message : error);
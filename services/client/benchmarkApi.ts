@@ -10,7 +10,17 @@
  * with proper chunk buffering for incomplete events.
  */
 
-import { BenchmarkRun, BenchmarkProgress, BenchmarkStartedEvent, RunConfigInput } from '@/types';
+import {
+  BenchmarkJob,
+  BenchmarkRun,
+  BenchmarkProgress,
+  BenchmarkSchedule,
+  BenchmarkScheduleInput,
+  BenchmarkStartedEvent,
+  MatrixRunConfig,
+  MatrixRunResponse,
+  RunConfigInput,
+} from '@/types';
 
 /**
  * Execute a benchmark run via the server-side API with SSE streaming.
@@ -40,6 +50,48 @@ export async function executeBenchmarkRun(
     throw new Error(`Failed to start benchmark run: ${response.statusText}`);
   }
 
+  return readBenchmarkRunStream(response, onProgress, onStarted);
+}
+
+/**
+ * Re-execute the failed and cancelled test cases of a finished run via the
+ * server-side API with SSE streaming.
+ *
+ * New reports are written into the same run; the reports they replace are
+ * kept in each result's `attempts`.
+ *
+ * @param benchmarkId - The benchmark ID
+ * @param runId - The run to retry
+ * @param onProgress - Callback for progress updates
+ * @param onStarted - Optional callback when the retry starts with the test cases being retried
+ * @returns The completed BenchmarkRun
+ */
+export async function retryFailedBenchmarkRun(
+  benchmarkId: string,
+  runId: string,
+  onProgress: (progress: BenchmarkProgress) => void,
+  onStarted?: (event: BenchmarkStartedEvent) => void
+): Promise<BenchmarkRun> {
+  const response = await fetch(`/api/storage/benchmarks/${benchmarkId}/runs/${runId}/retry-failed`, {
+    method: 'POST',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(error.error || 'Failed to retry run');
+  }
+
+  return readBenchmarkRunStream(response, onProgress, onStarted);
+}
+
+/**
+ * Read a benchmark run's SSE stream until the run completes or is cancelled
+ */
+async function readBenchmarkRunStream(
+  response: Response,
+  onProgress: (progress: BenchmarkProgress) => void,
+  onStarted?: (event: BenchmarkStartedEvent) => void
+): Promise<BenchmarkRun> {
   const reader = response.body?.getReader();
   if (!reader) {
     throw new Error('No response body');
@@ -70,7 +122,7 @@ export async function executeBenchmarkRun(
           try {
             const data = JSON.parse(line.slice(6));
             if (data.type === 'started') {
-              onStarted?.({ runId: data.runId, testCases: data.testCases || [] });
+              onStarted?.({ runId: data.runId, jobId: data.jobId, testCases: data.testCases || [] });
             } else if (data.type === 'progress') {
               onProgress(data as BenchmarkProgress);
             } else if (data.type === 'completed' || data.type === 'cancelled') {
@@ -145,6 +197,153 @@ export async function cancelBenchmarkRun(
   return result.cancelled === true;
 }
 
+/**
+ * Start a matrix run: one run per agent × model × variant cell, executed in
+ * the server's job queue within the matrix's concurrency budget.
+ *
+ * @param benchmarkId - The benchmark ID to run
+ * @param matrixConfig - Agents, models, variants, and shared run settings
+ * @returns The matrix ID and the queued cell runs
+ */
+export async function executeMatrixRun(
+  benchmarkId: string,
+  matrixConfig: MatrixRunConfig
+): Promise<MatrixRunResponse> {
+  const response = await fetch(`/api/storage/benchmarks/${benchmarkId}/matrix`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(matrixConfig),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(error.error || 'Failed to start matrix run');
+  }
+
+  return response.json();
+}
+
+/**
+ * Pause or resume a benchmark run's server-side job
+ */
+async function updateBenchmarkJob(jobId: string, action: 'pause' | 'resume'): Promise<BenchmarkJob> {
+  const response = await fetch(`/api/jobs/${jobId}/${action}`, { method: 'POST' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(error.error || `Failed to ${action} run`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Pause a benchmark run once its test cases in flight finish.
+ *
+ * @param jobId - The run's job ID (BenchmarkRun.jobId)
+ * @returns The updated job
+ */
+export async function pauseBenchmarkJob(jobId: string): Promise<BenchmarkJob> {
+  return updateBenchmarkJob(jobId, 'pause');
+}
+
+/**
+ * Resume a paused benchmark run.
+ *
+ * @param jobId - The run's job ID (BenchmarkRun.jobId)
+ * @returns The updated job
+ */
+export async function resumeBenchmarkJob(jobId: string): Promise<BenchmarkJob> {
+  return updateBenchmarkJob(jobId, 'resume');
+}
+
+/**
+ * List a benchmark's recurring run schedules.
+ *
+ * @param benchmarkId - The benchmark ID
+ * @returns The schedules, with their last and next fire times
+ */
+export async function listBenchmarkSchedules(benchmarkId: string): Promise<BenchmarkSchedule[]> {
+  const response = await fetch(`/api/storage/benchmarks/${benchmarkId}/schedules`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(error.error || 'Failed to load schedules');
+  }
+
+  const { schedules } = await response.json();
+  return schedules;
+}
+
+/**
+ * Add a recurring run of a benchmark, fired by the server on a cron expression.
+ *
+ * @param benchmarkId - The benchmark ID
+ * @param input - Cron expression, run configuration, and enabled flag
+ * @returns The created schedule
+ */
+export async function createBenchmarkSchedule(
+  benchmarkId: string,
+  input: BenchmarkScheduleInput
+): Promise<BenchmarkSchedule> {
+  const response = await fetch(`/api/storage/benchmarks/${benchmarkId}/schedules`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(error.error || 'Failed to create schedule');
+  }
+
+  return response.json();
+}
+
+/**
+ * Update a schedule's cron expression, run configuration, or enabled flag.
+ *
+ * @param benchmarkId - The benchmark ID
+ * @param scheduleId - The schedule ID
+ * @param updates - Fields to change
+ * @returns The updated schedule
+ */
+export async function updateBenchmarkSchedule(
+  benchmarkId: string,
+  scheduleId: string,
+  updates: Partial<BenchmarkScheduleInput>
+): Promise<BenchmarkSchedule> {
+  const response = await fetch(`/api/storage/benchmarks/${benchmarkId}/schedules/${scheduleId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(updates),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(error.error || 'Failed to update schedule');
+  }
+
+  return response.json();
+}
+
+/**
+ * Delete a schedule (runs it already started are kept).
+ *
+ * @param benchmarkId - The benchmark ID
+ * @param scheduleId - The schedule ID
+ */
+export async function deleteBenchmarkSchedule(benchmarkId: string, scheduleId: string): Promise<void> {
+  const response = await fetch(`/api/storage/benchmarks/${benchmarkId}/schedules/${scheduleId}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(error.error || 'Failed to delete schedule');
+  }
+}
+
 // Backwards compatibility aliases
 /** @deprecated Use executeBenchmarkRun instead */
 export const executeExperimentRun = executeBenchmarkRun;
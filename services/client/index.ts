@@ -12,6 +12,14 @@
 export {
   executeBenchmarkRun,
   cancelBenchmarkRun,
+  pauseBenchmarkJob,
+  resumeBenchmarkJob,
+  retryFailedBenchmarkRun,
+  executeMatrixRun,
+  listBenchmarkSchedules,
+  createBenchmarkSchedule,
+  updateBenchmarkSchedule,
+  deleteBenchmarkSchedule,
   // Backwards compatibility aliases
   executeExperimentRun,
   cancelExperimentRun,
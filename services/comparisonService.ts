@@ -17,6 +17,7 @@ import {
   getMockTestCaseMeta,
   getMockTestCaseVersion,
 } from '@/data/mockComparisonData';
+import { summarizeRunIterations } from '@/lib/runIterations';
 
 /**
  * Get test case metadata from real TEST_CASES data
@@ -45,6 +46,8 @@ export function calculateRunAggregates(
 ): RunAggregateMetrics {
   const testCaseIds = Object.keys(run.results);
   let totalAccuracy = 0;
+  let totalPplMatch = 0;
+  let pplMatchCount = 0;
   let passedCount = 0;
   let failedCount = 0;
   let completedCount = 0;
@@ -59,11 +62,15 @@ export function calculateRunAggregates(
   // Always calculate accuracy from reports (not stored in run.stats)
   for (const testCaseId of testCaseIds) {
     const result = run.results[testCaseId];
-    if (result.status === 'completed' || result.status === 'failed') {
+    if (result.status === 'completed' || result.status === 'failed' || result.status === 'budget_exceeded') {
       const report = reports[result.reportId];
       if (report) {
         completedCount++;
         totalAccuracy += report.metrics?.accuracy ?? 0;
+        if (report.metrics?.pplMatch !== undefined) {
+          totalPplMatch += report.metrics.pplMatch;
+          pplMatchCount++;
+        }
 
         // Fallback: count pass/fail from reports if stats not available
         if (!hasStats) {
@@ -90,6 +97,8 @@ export function calculateRunAggregates(
     failedCount,
     avgAccuracy: Math.round(totalAccuracy / count),
     passRatePercent: testCaseIds.length > 0 ? Math.round((passedCount / testCaseIds.length) * 100) : 0,
+    avgPplMatch: pplMatchCount > 0 ? Math.round(totalPplMatch / pplMatchCount) : undefined,
+    ...summarizeRunIterations(run, reports),
     // Trace metrics will be populated separately via fetchBatchMetrics
     totalTokens: undefined,
     totalInputTokens: undefined,
@@ -167,6 +176,7 @@ export function buildTestCaseComparisonRows(
         status: runResult.status === 'completed' ? 'completed' : 'failed',
         passFailStatus: report.passFailStatus,
         accuracy: report.metrics.accuracy,
+        pplMatch: report.metrics.pplMatch,
         faithfulness: report.metrics.faithfulness,
         trajectoryAlignment: report.metrics.trajectory_alignment_score,
         latencyScore: report.metrics.latency_score,
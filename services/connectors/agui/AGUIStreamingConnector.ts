@@ -17,6 +17,7 @@ import type {
   ConnectorResponse,
   ConnectorProgressCallback,
   ConnectorRawEventCallback,
+  RawEventParser,
 } from '@/services/connectors/types';
 import { consumeSSEStream } from '@/services/agent/sseStream';
 import { buildAgentPayload, AgentRequestPayload } from '@/services/agent/payloadBuilder';
@@ -39,7 +40,8 @@ export class AGUIStreamingConnector extends BaseConnector {
       request.testCase,
       request.modelId,
       request.threadId,
-      request.runId
+      request.runId,
+      request.messages
     );
   }
 
@@ -56,30 +58,38 @@ export class AGUIStreamingConnector extends BaseConnector {
     // Use pre-built payload from hook if available, otherwise build fresh
     const hasPrebuiltPayload = !!request.payload;
     const payload = request.payload || this.buildPayload(request);
-    const headers = this.buildAuthHeaders(auth);
     const trajectory: TrajectoryStep[] = [];
     const rawEvents: AGUIEvent[] = [];
     const converter = new AGUIToTrajectoryConverter();
 
     this.debug('Executing AG-UI streaming request');
 
-    await consumeSSEStream(
-      endpoint,
-      payload,
-      (event: AGUIEvent) => {
-        // Capture raw event for debugging
-        rawEvents.push(event);
-        onRawEvent?.(event);
+    await this.withOAuth2Retry(auth, async () => {
+      // The stream is opened with the JSON of the payload, so that is what gets signed
+      const headers = await this.buildRequestHeaders(
+        auth,
+        { method: 'POST', url: endpoint, body: JSON.stringify(payload) },
+        request.signal
+      );
+      await consumeSSEStream(
+        endpoint,
+        payload,
+        (event: AGUIEvent) => {
+          // Capture raw event for debugging
+          rawEvents.push(event);
+          onRawEvent?.(event);
 
-        // Convert to trajectory steps
-        const steps = converter.processEvent(event);
-        steps.forEach(step => {
-          trajectory.push(step);
-          onProgress?.(step);
-        });
-      },
-      headers
-    );
+          // Convert to trajectory steps
+          const steps = converter.processEvent(event);
+          steps.forEach(step => {
+            trajectory.push(step);
+            onProgress?.(step);
+          });
+        },
+        headers,
+        request.signal
+      );
+    });
 
     const runId = converter.getRunId();
     this.debug('Stream completed. RunId:', runId, 'Steps:', trajectory.length);
@@ -102,13 +112,24 @@ export class AGUIStreamingConnector extends BaseConnector {
     return computeTrajectoryFromRawEvents(rawEvents);
   }
 
+  /**
+   * Convert recorded AG-UI events one at a time, as they arrived when streamed
+   */
+  createRawEventParser(): RawEventParser {
+    const converter = new AGUIToTrajectoryConverter();
+    return {
+      push: (event: AGUIEvent) => converter.processEvent(event),
+      finish: () => [],
+    };
+  }
+
   /**
    * Health check for AG-UI endpoint
    * Tries to connect without sending a full request
    */
   async healthCheck(endpoint: string, auth: ConnectorAuth): Promise<boolean> {
     try {
-      const headers = this.buildAuthHeaders(auth);
+      const headers = await this.buildRequestHeaders(auth, { method: 'OPTIONS', url: endpoint });
       // For AG-UI endpoints, we can't really do a health check without
       // making a full request, so just check if the endpoint is reachable
       const response = await fetch(endpoint, {
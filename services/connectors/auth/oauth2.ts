@@ -0,0 +1,123 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * OAuth2 Client Credentials
+ * Access tokens for agents behind an OAuth2 gateway. Tokens are cached per
+ * token URL, client, and scopes, so all connectors calling the same agent share
+ * one token, and are fetched anew shortly before they expire.
+ */
+
+import type { ConnectorAuth } from '@/services/connectors/types';
+
+// Tokens are refreshed this long before they expire, so requests never carry an expired one
+const EXPIRY_MARGIN_MS = 60_000;
+// Lifetime assumed for tokens whose response has no expires_in
+const DEFAULT_EXPIRES_IN_S = 3600;
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+/**
+ * Cached tokens, and token requests in flight (so concurrent test cases fetch once)
+ */
+const tokenCache = new Map<string, CachedToken>();
+const pendingTokens = new Map<string, Promise<CachedToken>>();
+
+function getCacheKey(auth: ConnectorAuth): string {
+  return JSON.stringify([auth.oauth2TokenUrl, auth.oauth2ClientId, [...(auth.oauth2Scopes ?? [])].sort(), auth.oauth2Audience]);
+}
+
+/**
+ * Form encoding of client credentials in the Basic header (RFC 6749 section 2.3.1)
+ */
+function formEncode(value: string): string {
+  return encodeURIComponent(value).replace(/%20/g, '+');
+}
+
+async function requestToken(auth: ConnectorAuth): Promise<CachedToken> {
+  const { oauth2TokenUrl, oauth2ClientId, oauth2ClientSecret } = auth;
+  if (!oauth2TokenUrl || !oauth2ClientId || !oauth2ClientSecret) {
+    throw new Error('OAuth2 auth needs oauth2TokenUrl, oauth2ClientId, and oauth2ClientSecret');
+  }
+
+  const body = new URLSearchParams({ grant_type: 'client_credentials' });
+  if (auth.oauth2Scopes?.length) body.set('scope', auth.oauth2Scopes.join(' '));
+  if (auth.oauth2Audience) body.set('audience', auth.oauth2Audience);
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+  if (auth.oauth2ClientAuth === 'body') {
+    body.set('client_id', oauth2ClientId);
+    body.set('client_secret', oauth2ClientSecret);
+  } else {
+    headers['Authorization'] = `Basic ${btoa(`${formEncode(oauth2ClientId)}:${formEncode(oauth2ClientSecret)}`)}`;
+  }
+
+  const response = await fetch(oauth2TokenUrl, { method: 'POST', headers, body: body.toString() });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`OAuth2 token request failed: ${response.status} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  if (!data?.access_token) {
+    throw new Error('OAuth2 token response has no access_token');
+  }
+  const expiresIn = Number(data.expires_in) > 0 ? Number(data.expires_in) : DEFAULT_EXPIRES_IN_S;
+  return { accessToken: data.access_token, expiresAt: Date.now() + expiresIn * 1000 };
+}
+
+/**
+ * Access token for an oauth2 auth config, from the cache while it is fresh
+ * @throws Error if the config is incomplete or the token endpoint refuses the client
+ */
+export async function getOAuth2AccessToken(auth: ConnectorAuth, signal?: AbortSignal): Promise<string> {
+  const key = getCacheKey(auth);
+  const cached = tokenCache.get(key);
+  if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    return cached.accessToken;
+  }
+
+  let pending = pendingTokens.get(key);
+  if (!pending) {
+    // Not tied to the caller's signal: other callers may be waiting for the same token
+    pending = requestToken(auth).finally(() => pendingTokens.delete(key));
+    pendingTokens.set(key, pending);
+  }
+
+  const token = await (signal ? abortable(pending, signal) : pending);
+  tokenCache.set(key, token);
+  return token.accessToken;
+}
+
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Drop the cached token of an oauth2 auth config, so the next request fetches
+ * a new one (for agents that reject a token before its expiry, e.g. revoked)
+ */
+export function invalidateOAuth2AccessToken(auth: ConnectorAuth): void {
+  tokenCache.delete(getCacheKey(auth));
+}
+
+/**
+ * Drop all cached tokens (useful for testing)
+ */
+export function clearOAuth2TokenCache(): void {
+  tokenCache.clear();
+  pendingTokens.clear();
+}
@@ -0,0 +1,201 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * AWS Signature Version 4
+ * Request signing for agents behind AWS authentication (API Gateway, Bedrock
+ * AgentCore, Amazon OpenSearch Service). Uses Web Crypto only, so it signs in
+ * the browser, the server, and the CLI alike.
+ */
+
+import type { ConnectorAuth } from '@/services/connectors/types';
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+const DEFAULT_SERVICE = 'execute-api';
+
+// Loaded only when needed - the provider chain reads files and instance metadata (Node only)
+const CREDENTIAL_PROVIDERS_MODULE = '@aws-sdk/credential-providers';
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+/**
+ * The parts of an HTTP request that are signed
+ */
+export interface SigV4Request {
+  method: string;
+  url: string;
+  /** Headers to sign besides host and the x-amz-* headers the signer adds */
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+export interface SigV4Options {
+  credentials: AwsCredentials;
+  region: string;
+  service: string;
+  /** Signing time (defaults to now) */
+  date?: Date;
+}
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function hmac(key: BufferSource, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+}
+
+/**
+ * Hex SHA-256 of a request body (the x-amz-content-sha256 value)
+ */
+export async function hashPayload(body = ''): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(body)));
+}
+
+/**
+ * RFC 3986 encoding, as SigV4 requires (encodeURIComponent leaves !'()* as they are)
+ */
+function uriEscape(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Path segments are escaped once more on top of their URL encoding, as all
+ * services but S3 expect
+ */
+function getCanonicalPath(url: URL): string {
+  return url.pathname.split('/').map(uriEscape).join('/') || '/';
+}
+
+function getCanonicalQuery(url: URL): string {
+  return Array.from(url.searchParams.entries())
+    .map(([key, value]) => [uriEscape(key), uriEscape(value)])
+    .sort(([keyA, valueA], [keyB, valueB]) => (keyA === keyB ? (valueA < valueB ? -1 : 1) : keyA < keyB ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+/**
+ * Sign a request
+ * @returns The headers to send with the request: Authorization, X-Amz-Date,
+ * X-Amz-Security-Token for temporary credentials, and the headers passed in
+ */
+export async function signRequest(request: SigV4Request, options: SigV4Options): Promise<Record<string, string>> {
+  const { credentials, region, service } = options;
+  const url = new URL(request.url);
+  const amzDate = (options.date ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    'X-Amz-Date': amzDate,
+    ...(credentials.sessionToken && { 'X-Amz-Security-Token': credentials.sessionToken }),
+  };
+
+  const canonicalHeaders = new Map<string, string>([['host', url.host]]);
+  for (const [name, value] of Object.entries(headers)) {
+    canonicalHeaders.set(name.toLowerCase(), value.trim().replace(/\s+/g, ' '));
+  }
+  const headerNames = Array.from(canonicalHeaders.keys()).sort();
+  const signedHeaders = headerNames.join(';');
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    getCanonicalPath(url),
+    getCanonicalQuery(url),
+    ...headerNames.map(name => `${name}:${canonicalHeaders.get(name)}`),
+    '',
+    signedHeaders,
+    await hashPayload(request.body),
+  ].join('\n');
+
+  const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+  const stringToSign = [ALGORITHM, amzDate, scope, await hashPayload(canonicalRequest)].join('\n');
+
+  const dateKey = await hmac(encoder.encode(`AWS4${credentials.secretAccessKey}`), dateStamp);
+  const regionKey = await hmac(dateKey, region);
+  const serviceKey = await hmac(regionKey, service);
+  const signingKey = await hmac(serviceKey, 'aws4_request');
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  return {
+    ...headers,
+    Authorization: `${ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+function getEnv(name: string): string | undefined {
+  return typeof process !== 'undefined' ? process.env?.[name] || undefined : undefined;
+}
+
+/**
+ * Credentials for signing: the auth config's keys, else the AWS_* environment
+ * variables, else the AWS SDK's default provider chain (profiles, SSO, instance roles)
+ * @throws Error if no credentials can be found
+ */
+export async function resolveAwsCredentials(auth: ConnectorAuth): Promise<AwsCredentials> {
+  if (auth.awsAccessKeyId && auth.awsSecretAccessKey) {
+    return {
+      accessKeyId: auth.awsAccessKeyId,
+      secretAccessKey: auth.awsSecretAccessKey,
+      sessionToken: auth.awsSessionToken,
+    };
+  }
+
+  const accessKeyId = getEnv('AWS_ACCESS_KEY_ID');
+  const secretAccessKey = getEnv('AWS_SECRET_ACCESS_KEY');
+  if (accessKeyId && secretAccessKey) {
+    return { accessKeyId, secretAccessKey, sessionToken: getEnv('AWS_SESSION_TOKEN') };
+  }
+
+  if (typeof process === 'undefined' || !process.versions?.node) {
+    throw new Error('AWS SigV4 auth needs awsAccessKeyId and awsSecretAccessKey outside Node.js');
+  }
+  try {
+    const { fromNodeProviderChain } = await import(/* @vite-ignore */ CREDENTIAL_PROVIDERS_MODULE) as typeof import('@aws-sdk/credential-providers');
+    const { accessKeyId, secretAccessKey, sessionToken } = await fromNodeProviderChain()();
+    return { accessKeyId, secretAccessKey, sessionToken };
+  } catch (error) {
+    throw new Error(`AWS SigV4 auth found no AWS credentials: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Signing region: the auth config's region, else AWS_REGION / AWS_DEFAULT_REGION
+ * @throws Error if no region is configured
+ */
+export function resolveAwsRegion(auth: ConnectorAuth): string {
+  const region = auth.awsRegion || getEnv('AWS_REGION') || getEnv('AWS_DEFAULT_REGION');
+  if (!region) {
+    throw new Error('AWS SigV4 auth needs awsRegion (or AWS_REGION)');
+  }
+  return region;
+}
+
+/**
+ * Sign a request with an aws-sigv4 auth config
+ * The body hash is sent as X-Amz-Content-Sha256, which some services
+ * (OpenSearch Serverless, S3-backed APIs) require
+ */
+export async function signRequestWithAuth(request: SigV4Request, auth: ConnectorAuth): Promise<Record<string, string>> {
+  return signRequest(
+    {
+      ...request,
+      headers: { ...request.headers, 'X-Amz-Content-Sha256': await hashPayload(request.body) },
+    },
+    {
+      credentials: await resolveAwsCredentials(auth),
+      region: resolveAwsRegion(auth),
+      service: auth.awsService || DEFAULT_SERVICE,
+    }
+  );
+}
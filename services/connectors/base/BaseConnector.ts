@@ -13,6 +13,9 @@ import type {
   ConnectorProgressCallback,
   ConnectorRawEventCallback,
 } from '@/services/connectors/types';
+import { signRequestWithAuth, type SigV4Request } from '@/services/connectors/auth/sigv4';
+import { getOAuth2AccessToken, invalidateOAuth2AccessToken } from '@/services/connectors/auth/oauth2';
+import { getErrorStatus } from '@/lib/executionPolicy';
 
 /**
  * Abstract base class for connectors
@@ -78,9 +81,11 @@ export abstract class BaseConnector implements AgentConnector {
         break;
 
       case 'aws-sigv4':
-        // AWS SigV4 signing would be handled separately
-        // This is a placeholder - actual implementation would use aws4 or @aws-sdk/signature-v4
-        console.warn('[BaseConnector] AWS SigV4 auth requires runtime signing');
+        // Signed per request, see buildRequestHeaders()
+        break;
+
+      case 'oauth2':
+        // Token fetched and cached per agent, see resolveAuthHeaders()
         break;
 
       case 'none':
@@ -97,6 +102,53 @@ export abstract class BaseConnector implements AgentConnector {
     return headers;
   }
 
+  /**
+   * Build HTTP headers from auth configuration, with the OAuth2 access token
+   * for oauth2 auth (a cached one while it is fresh)
+   */
+  protected async resolveAuthHeaders(auth: ConnectorAuth, signal?: AbortSignal): Promise<Record<string, string>> {
+    if (auth.type !== 'oauth2') {
+      return this.buildAuthHeaders(auth);
+    }
+    return {
+      Authorization: `Bearer ${await getOAuth2AccessToken(auth, signal)}`,
+      ...auth.headers,
+    };
+  }
+
+  /**
+   * Build HTTP headers for one request
+   * Same as resolveAuthHeaders(), plus the AWS SigV4 signature of the request
+   * for aws-sigv4 auth (the body must be sent exactly as signed)
+   */
+  protected async buildRequestHeaders(
+    auth: ConnectorAuth,
+    request: SigV4Request,
+    signal?: AbortSignal
+  ): Promise<Record<string, string>> {
+    const headers = await this.resolveAuthHeaders(auth, signal);
+    if (auth.type !== 'aws-sigv4') {
+      return headers;
+    }
+    return { ...headers, ...(await signRequestWithAuth(request, auth)) };
+  }
+
+  /**
+   * Make an agent call, and for oauth2 auth make it once more with a new token
+   * when the agent rejects the cached one (401). The call must build its
+   * headers itself, so the retry picks up the new token.
+   */
+  protected async withOAuth2Retry<T>(auth: ConnectorAuth, call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      if (auth.type !== 'oauth2' || getErrorStatus(error) !== 401) throw error;
+      this.debug('Agent rejected the OAuth2 token, retrying with a new one');
+      invalidateOAuth2AccessToken(auth);
+      return call();
+    }
+  }
+
   /**
    * Build environment variables from auth configuration
    * Used by subprocess connectors
@@ -145,7 +197,7 @@ export abstract class BaseConnector implements AgentConnector {
   async healthCheck(endpoint: string, auth: ConnectorAuth): Promise<boolean> {
     try {
       // Default: try a simple fetch with HEAD method
-      const headers = this.buildAuthHeaders(auth);
+      const headers = await this.buildRequestHeaders(auth, { method: 'HEAD', url: endpoint });
       const response = await fetch(endpoint, {
         method: 'HEAD',
         headers,
@@ -11,10 +11,12 @@
 import type { TrajectoryStep } from '@/types';
 import { ToolCallStatus } from '@/types';
 import { SubprocessConnector } from '@/services/connectors/subprocess/SubprocessConnector';
+import { buildConversationPrompt } from '@/services/agent/payloadBuilder';
 import type {
   ConnectorAuth,
   ConnectorRequest,
   ConnectorProgressCallback,
+  RawEventParser,
   SubprocessConfig,
 } from '@/services/connectors/types';
 
@@ -74,7 +76,9 @@ export class ClaudeCodeConnector extends SubprocessConnector {
 
     // Add the main prompt
     parts.push('## Task');
-    parts.push(request.testCase.initialPrompt);
+    parts.push(request.messages?.length
+      ? buildConversationPrompt(request.messages)
+      : request.testCase.initialPrompt);
 
     return parts.join('\n');
   }
@@ -195,6 +199,14 @@ export class ClaudeCodeConnector extends SubprocessConnector {
     return steps;
   }
 
+  /**
+   * Reset state for replaying recorded output
+   */
+  override createRawEventParser(metadata?: Record<string, any>): RawEventParser {
+    this.resetState();
+    return super.createRawEventParser(metadata);
+  }
+
   /**
    * Reset state for new execution
    */
@@ -17,13 +17,22 @@ export type {
   ConnectorResponse,
   ConnectorProgressCallback,
   ConnectorRawEventCallback,
+  RawEventParser,
   AgentConnector,
   SubprocessInputMode,
   SubprocessOutputParser,
   SubprocessConfig,
+  RESTStepMapping,
+  RESTResponseMapping,
+  RESTPollingConfig,
+  RESTConnectorConfig,
   AgentConfigWithConnector,
   ConnectorRegistry,
   ConnectorExecuteOptions,
+  CassetteKey,
+  RecordedRawEvent,
+  CassetteExchange,
+  Cassette,
 } from './types';
 
 // ============ Registry Exports ============
@@ -36,22 +45,31 @@ export {
 // ============ Base Class Export ============
 export { BaseConnector } from './base/BaseConnector';
 
+// ============ Auth Exports ============
+export { signRequest, signRequestWithAuth, resolveAwsCredentials, resolveAwsRegion } from './auth/sigv4';
+export type { AwsCredentials, SigV4Request, SigV4Options } from './auth/sigv4';
+export { getOAuth2AccessToken, invalidateOAuth2AccessToken, clearOAuth2TokenCache } from './auth/oauth2';
+
 // ============ Browser-safe Connector Exports ============
 // These connectors work in browser environments (no Node.js dependencies)
 export { AGUIStreamingConnector, aguiStreamingConnector } from './agui/AGUIStreamingConnector';
 export { MockConnector, mockConnector } from './mock/MockConnector';
 export { RESTConnector, restConnector } from './rest/RESTConnector';
+export { OpenAIChatConnector, openAIChatConnector } from './openai-chat/OpenAIChatConnector';
+export type { OpenAIChatMessage, OpenAIChatPayload } from './openai-chat/OpenAIChatConnector';
 
 // ============ Auto-register Browser-safe Connectors ============
 import { connectorRegistry } from './registry';
 import { aguiStreamingConnector } from './agui/AGUIStreamingConnector';
 import { mockConnector } from './mock/MockConnector';
 import { restConnector } from './rest/RESTConnector';
+import { openAIChatConnector } from './openai-chat/OpenAIChatConnector';
 
 // Register browser-compatible connectors on module load
-// Server-only connectors (subprocess, claude-code) are registered via server.ts
+// Server-only connectors (subprocess, claude-code, replay) are registered via server.ts
 connectorRegistry.register(aguiStreamingConnector);
 connectorRegistry.register(mockConnector);
 connectorRegistry.register(restConnector);
+connectorRegistry.register(openAIChatConnector);
 
 console.log('[Connectors] Browser-safe connectors registered:', connectorRegistry.getRegisteredTypes().join(', '));
@@ -0,0 +1,290 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * MCP Connector
+ * Handles agents exposed as MCP servers: the prompt goes to the server's agent
+ * (entry) tool, and the server's progress and log notifications stream in as
+ * trajectory steps
+ *
+ * Endpoint format: <server>[#<entry tool>]
+ * - An http(s) URL connects to the server over streamable HTTP; anything else
+ *   is a command line that launches the server with the stdio transport
+ * - The fragment names the entry tool; it may be left out when the server
+ *   exposes a single tool
+ */
+
+import type { AgentToolDefinition, TrajectoryStep } from '@/types';
+import { BaseConnector } from '@/services/connectors/base/BaseConnector';
+import { buildConversationPrompt } from '@/services/agent/payloadBuilder';
+import { McpClient } from '@/services/connectors/mcp/mcpClient';
+import type { JsonRpcMessage, McpTool, McpToolResult } from '@/services/connectors/mcp/mcpClient';
+import type {
+  ConnectorAuth,
+  ConnectorRequest,
+  ConnectorResponse,
+  ConnectorProgressCallback,
+  ConnectorRawEventCallback,
+  RawEventParser,
+} from '@/services/connectors/types';
+
+/**
+ * Argument names an entry tool commonly takes the prompt in, by preference
+ */
+const PROMPT_ARGUMENT_NAMES = ['prompt', 'message', 'query', 'question', 'input', 'task'];
+
+/**
+ * Payload of an MCP agent call
+ * A beforeRequest hook may set `arguments` to pass the entry tool exactly those
+ */
+export interface McpPayload {
+  prompt: string;
+  arguments?: Record<string, any>;
+}
+
+/**
+ * Split an MCP endpoint into the server (URL or command line) and the entry tool
+ */
+export function parseMcpEndpoint(endpoint: string): { server: string; transport: 'http' | 'stdio'; entryTool?: string } {
+  const hashIndex = endpoint.lastIndexOf('#');
+  const server = (hashIndex >= 0 ? endpoint.slice(0, hashIndex) : endpoint).trim();
+  const entryTool = hashIndex >= 0 ? endpoint.slice(hashIndex + 1).trim() || undefined : undefined;
+  if (!server) {
+    throw new Error(`MCP endpoint '${endpoint}' names no server URL or command`);
+  }
+  return { server, transport: /^https?:\/\//.test(server) ? 'http' : 'stdio', entryTool };
+}
+
+/**
+ * Convert an MCP tool to the tool definition format of test cases
+ */
+export function toAgentToolDefinition(tool: McpTool): AgentToolDefinition {
+  const schema = tool.inputSchema ?? { type: 'object' };
+  return {
+    name: tool.name,
+    description: tool.description ?? tool.title ?? '',
+    parameters: {
+      type: 'object',
+      properties: schema.properties ?? {},
+      ...(schema.required?.length && { required: schema.required }),
+    },
+  };
+}
+
+/**
+ * Pick the tool that runs the agent
+ */
+function selectEntryTool(tools: McpTool[], entryTool: string | undefined, endpoint: string): McpTool {
+  const names = tools.map(t => t.name).join(', ') || 'none';
+  if (entryTool) {
+    const tool = tools.find(t => t.name === entryTool);
+    if (!tool) {
+      throw new Error(`MCP server has no tool '${entryTool}' (tools: ${names})`);
+    }
+    return tool;
+  }
+  if (tools.length !== 1) {
+    throw new Error(`MCP server exposes ${tools.length} tools (${names}); name the agent tool in the endpoint, e.g. ${endpoint}#<tool>`);
+  }
+  return tools[0];
+}
+
+/**
+ * Name of the entry tool argument that takes the prompt
+ */
+function getPromptArgument(tool: McpTool): string {
+  const properties = tool.inputSchema?.properties ?? {};
+  const known = PROMPT_ARGUMENT_NAMES.find(name => name in properties);
+  if (known) return known;
+
+  const required = tool.inputSchema?.required ?? [];
+  const firstString = [...required, ...Object.keys(properties)]
+    .find(name => properties[name]?.type === 'string');
+  return firstString ?? 'prompt';
+}
+
+/**
+ * Text of a tool result; structured content when there is no text
+ */
+function getResultText(result: McpToolResult): string {
+  const text = (result.content ?? [])
+    .filter(item => item.type === 'text' && item.text)
+    .map(item => item.text!.trim())
+    .join('\n\n');
+  if (text) return text;
+  return result.structuredContent ? JSON.stringify(result.structuredContent, null, 2) : '';
+}
+
+/**
+ * MCP Connector for agents served by MCP servers
+ */
+export class McpConnector extends BaseConnector {
+  readonly type = 'mcp' as const;
+  readonly name = 'MCP Server';
+  readonly supportsStreaming = true;
+
+  /**
+   * Build the prompt for the entry tool
+   * Each call is a fresh tool call, so multi-turn runs resend the whole conversation
+   */
+  buildPayload(request: ConnectorRequest): McpPayload {
+    let prompt = request.messages?.length
+      ? buildConversationPrompt(request.messages)
+      : request.testCase.initialPrompt;
+
+    if (request.testCase.context && request.testCase.context.length > 0) {
+      const contextStr = request.testCase.context
+        .map(c => `${c.description}: ${c.value}`)
+        .join('\n');
+      prompt = `Context:\n${contextStr}\n\nQuestion: ${prompt}`;
+    }
+
+    return { prompt };
+  }
+
+  /**
+   * Call the entry tool, streaming its notifications as steps
+   */
+  async execute(
+    endpoint: string,
+    request: ConnectorRequest,
+    auth: ConnectorAuth,
+    onProgress?: ConnectorProgressCallback,
+    onRawEvent?: ConnectorRawEventCallback
+  ): Promise<ConnectorResponse> {
+    const { server, entryTool } = parseMcpEndpoint(endpoint);
+    // Use pre-built payload from hook if available, otherwise build fresh
+    const payload: McpPayload = request.payload || this.buildPayload(request);
+    const trajectory: TrajectoryStep[] = [];
+    const rawEvents: JsonRpcMessage[] = [];
+    const parser = this.createRawEventParser();
+
+    const handle = (message: JsonRpcMessage) => {
+      rawEvents.push(message);
+      onRawEvent?.(message);
+      for (const step of parser.push(message)) {
+        trajectory.push(step);
+        onProgress?.(step);
+      }
+    };
+
+    this.debug('Connecting to MCP server:', server);
+    const client = await this.connect(server, auth, request.signal);
+
+    try {
+      const tools = await client.listTools(request.signal);
+      const tool = selectEntryTool(tools, entryTool, endpoint);
+      const args = payload.arguments ?? { [getPromptArgument(tool)]: payload.prompt };
+      await client.setLogLevel('info', request.signal);
+
+      this.debug(`Calling entry tool ${tool.name}`);
+      const result = await client.callTool(tool.name, args, { onNotification: handle, signal: request.signal });
+      handle({ jsonrpc: '2.0', result });
+
+      if (result.isError) {
+        throw new Error(`MCP tool ${tool.name} failed: ${getResultText(result) || 'no error details'}`);
+      }
+
+      this.debug('Tool call finished. Steps:', trajectory.length);
+
+      return {
+        trajectory,
+        runId: null,
+        rawEvents,
+        metadata: {
+          server: client.serverInfo,
+          entryTool: tool.name,
+          tools: tools.filter(t => t !== tool).map(toAgentToolDefinition),
+          structuredContent: result.structuredContent,
+        },
+      };
+    } finally {
+      await client.close();
+    }
+  }
+
+  /**
+   * Parse MCP notifications and the tool result into trajectory steps
+   */
+  parseResponse(data: JsonRpcMessage | JsonRpcMessage[]): TrajectoryStep[] {
+    const parser = this.createRawEventParser();
+    return (Array.isArray(data) ? data : [data]).flatMap(message => parser.push(message));
+  }
+
+  /**
+   * Every notification stands on its own, so steps come out as messages arrive
+   */
+  createRawEventParser(): RawEventParser {
+    return {
+      push: (message: JsonRpcMessage) => this.parseMessage(message),
+      finish: () => [],
+    };
+  }
+
+  /**
+   * List the server's tools in the tool definition format of test cases
+   */
+  async discoverTools(endpoint: string, auth: ConnectorAuth, signal?: AbortSignal): Promise<AgentToolDefinition[]> {
+    const client = await this.connect(parseMcpEndpoint(endpoint).server, auth, signal);
+    try {
+      return (await client.listTools(signal)).map(toAgentToolDefinition);
+    } finally {
+      await client.close();
+    }
+  }
+
+  /**
+   * Health check - the server answers the initialize handshake
+   */
+  async healthCheck(endpoint: string, auth: ConnectorAuth): Promise<boolean> {
+    try {
+      const client = await this.connect(parseMcpEndpoint(endpoint).server, auth);
+      await client.close();
+      return true;
+    } catch (error) {
+      this.error('Health check failed:', error);
+      return false;
+    }
+  }
+
+  private async connect(server: string, auth: ConnectorAuth, signal?: AbortSignal): Promise<McpClient> {
+    return this.withOAuth2Retry(auth, async () =>
+      McpClient.connect(server, {
+        headers: await this.resolveAuthHeaders(auth, signal),
+        env: this.buildAuthEnv(auth),
+        signal,
+      })
+    );
+  }
+
+  /**
+   * Progress messages become assistant steps, log messages thinking steps,
+   * and the tool result the response
+   */
+  private parseMessage(message: JsonRpcMessage): TrajectoryStep[] {
+    if (message.method === 'notifications/progress') {
+      const text = message.params?.message;
+      return typeof text === 'string' && text.trim() ? [this.createStep('assistant', text.trim())] : [];
+    }
+
+    if (message.method === 'notifications/message') {
+      const data = message.params?.data;
+      const text = typeof data === 'string' ? data : data?.message ?? JSON.stringify(data);
+      return typeof text === 'string' && text.trim() ? [this.createStep('thinking', text.trim())] : [];
+    }
+
+    if (message.result) {
+      const text = getResultText(message.result);
+      return text ? [this.createStep('response', text)] : [];
+    }
+
+    return [];
+  }
+}
+
+/**
+ * Default instance for convenience
+ */
+export const mcpConnector = new McpConnector();
@@ -0,0 +1,410 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Minimal MCP (Model Context Protocol) client
+ * Speaks JSON-RPC 2.0 to an MCP server, either launched as a child process
+ * (stdio transport) or reached over HTTP (streamable HTTP transport)
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+
+const CLIENT_INFO = { name: 'agent-health', version: '1.0.0' };
+
+/**
+ * JSON-RPC message: a request, a notification, or a response
+ */
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
+/**
+ * Tool as listed by an MCP server
+ */
+export interface McpTool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema?: {
+    type: 'object';
+    properties?: Record<string, any>;
+    required?: string[];
+  };
+}
+
+/**
+ * Result of an MCP tool call
+ */
+export interface McpToolResult {
+  content?: Array<{ type: string; text?: string; [key: string]: any }>;
+  structuredContent?: Record<string, any>;
+  isError?: boolean;
+}
+
+export type McpNotificationHandler = (notification: JsonRpcMessage) => void;
+
+export interface McpConnectOptions {
+  /** HTTP headers (streamable HTTP transport) */
+  headers?: Record<string, string>;
+  /** Environment variables of the launched server (stdio transport) */
+  env?: Record<string, string>;
+  /** Gives up on the initialize handshake (and closes the transport) when aborted */
+  signal?: AbortSignal;
+}
+
+export interface McpRequestOptions {
+  /** Receives the notifications the server sends while the request is pending */
+  onNotification?: McpNotificationHandler;
+  signal?: AbortSignal;
+}
+
+interface McpTransport {
+  /** Send a request and resolve with its response */
+  request(message: JsonRpcMessage, onNotification?: McpNotificationHandler): Promise<JsonRpcMessage>;
+  /** Send a notification or a response to a server request */
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Answer to a request the server sends the client; only ping is supported
+ */
+function answerServerRequest(request: JsonRpcMessage): JsonRpcMessage {
+  if (request.method === 'ping') {
+    return { jsonrpc: '2.0', id: request.id, result: {} };
+  }
+  return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `Method not supported: ${request.method}` } };
+}
+
+/**
+ * stdio transport: newline-delimited JSON-RPC over the stdin/stdout of a child process
+ */
+class StdioTransport implements McpTransport {
+  private proc: ChildProcess;
+  private buffer = '';
+  private stderr = '';
+  private exitError: Error | null = null;
+  private pending = new Map<number | string, {
+    resolve: (message: JsonRpcMessage) => void;
+    reject: (error: Error) => void;
+    onNotification?: McpNotificationHandler;
+  }>();
+
+  constructor(command: string, env: Record<string, string> = {}) {
+    this.proc = spawn(command, [], {
+      env: { ...process.env, ...env },
+      shell: true,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    this.proc.stdout?.on('data', (data: Buffer) => this.onData(data.toString()));
+    this.proc.stderr?.on('data', (data: Buffer) => {
+      // Keep the tail of stderr to explain an unexpected exit
+      this.stderr = (this.stderr + data.toString()).slice(-2000);
+    });
+    this.proc.on('error', (error) => this.failPending(error));
+    this.proc.on('close', (code) => {
+      const stderr = this.stderr.trim();
+      this.failPending(new Error(`MCP server exited with code ${code}${stderr ? `: ${stderr}` : ''}`));
+    });
+  }
+
+  private onData(data: string): void {
+    this.buffer += data;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        // Servers may print non-protocol output; skip it
+        continue;
+      }
+      this.dispatch(message);
+    }
+  }
+
+  private dispatch(message: JsonRpcMessage): void {
+    if (message.method && message.id !== undefined) {
+      void this.send(answerServerRequest(message)).catch(() => {});
+    } else if (message.method) {
+      this.pending.forEach(p => p.onNotification?.(message));
+    } else if (message.id !== undefined) {
+      const pending = this.pending.get(message.id);
+      this.pending.delete(message.id);
+      pending?.resolve(message);
+    }
+  }
+
+  private failPending(error: Error): void {
+    this.exitError = this.exitError ?? error;
+    this.pending.forEach(p => p.reject(error));
+    this.pending.clear();
+  }
+
+  request(message: JsonRpcMessage, onNotification?: McpNotificationHandler): Promise<JsonRpcMessage> {
+    if (this.exitError) return Promise.reject(this.exitError);
+    return new Promise((resolve, reject) => {
+      this.pending.set(message.id!, { resolve, reject, onNotification });
+      this.send(message).catch(reject);
+    });
+  }
+
+  send(message: JsonRpcMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.proc.stdin?.writable) {
+        reject(this.exitError ?? new Error('MCP server stdin is closed'));
+        return;
+      }
+      this.proc.stdin.write(JSON.stringify(message) + '\n', error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  async close(): Promise<void> {
+    this.proc.stdin?.end();
+    if (this.proc.exitCode === null && !this.proc.killed) {
+      this.proc.kill('SIGTERM');
+    }
+  }
+}
+
+/**
+ * Streamable HTTP transport: each message is POSTed to the endpoint, which
+ * answers with JSON or with an SSE stream ending in the response
+ */
+class HttpTransport implements McpTransport {
+  private sessionId?: string;
+  private controller = new AbortController();
+  protocolVersion?: string;
+
+  constructor(private url: string, private headers: Record<string, string> = {}) {}
+
+  private async post(message: JsonRpcMessage): Promise<Response> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(this.sessionId && { 'Mcp-Session-Id': this.sessionId }),
+        ...(this.protocolVersion && { 'MCP-Protocol-Version': this.protocolVersion }),
+        ...this.headers,
+      },
+      body: JSON.stringify(message),
+      signal: this.controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`MCP request failed: ${response.status} - ${errorText}`);
+    }
+    this.sessionId = response.headers.get('mcp-session-id') ?? this.sessionId;
+    return response;
+  }
+
+  async request(message: JsonRpcMessage, onNotification?: McpNotificationHandler): Promise<JsonRpcMessage> {
+    const response = await this.post(message);
+    let reply: JsonRpcMessage | undefined;
+
+    const handle = (incoming: JsonRpcMessage) => {
+      if (incoming.method && incoming.id !== undefined) {
+        void this.send(answerServerRequest(incoming)).catch(() => {});
+      } else if (incoming.method) {
+        onNotification?.(incoming);
+      } else if (incoming.id === message.id) {
+        reply = incoming;
+      }
+    };
+
+    if (response.headers.get('content-type')?.includes('text/event-stream') && response.body) {
+      await readSSEMessages(response.body, incoming => {
+        handle(incoming);
+        return reply !== undefined;
+      });
+    } else {
+      const body = await response.json();
+      (Array.isArray(body) ? body : [body]).forEach(handle);
+    }
+
+    if (!reply) {
+      throw new Error(`MCP server sent no response to ${message.method}`);
+    }
+    return reply;
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const response = await this.post(message);
+    await response.body?.cancel();
+  }
+
+  async close(): Promise<void> {
+    this.controller.abort();
+    if (!this.sessionId) return;
+    // Ending the session is a courtesy; servers expire sessions anyway
+    await fetch(this.url, {
+      method: 'DELETE',
+      headers: { 'Mcp-Session-Id': this.sessionId, ...this.headers },
+    }).catch(() => {});
+  }
+}
+
+/**
+ * Read the JSON-RPC messages of an SSE stream until onMessage returns true
+ */
+async function readSSEMessages(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: JsonRpcMessage) => boolean
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const rawLine of lines) {
+        const line = rawLine.replace(/\r$/, '');
+        if (line.startsWith('data:')) {
+          data.push(line.slice(5).trimStart());
+        } else if (line === '' && data.length > 0) {
+          const event = data.join('\n');
+          data = [];
+          if (onMessage(JSON.parse(event))) {
+            await reader.cancel();
+            return;
+          }
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Client session with an MCP server
+ */
+export class McpClient {
+  serverInfo?: { name: string; version?: string };
+  capabilities: Record<string, any> = {};
+  private nextId = 1;
+
+  private constructor(private transport: McpTransport) {}
+
+  /**
+   * Launch (command line) or connect to (http/https URL) an MCP server and initialize the session
+   */
+  static async connect(target: string, options: McpConnectOptions = {}): Promise<McpClient> {
+    const isHttp = /^https?:\/\//.test(target);
+    const transport = isHttp
+      ? new HttpTransport(target, options.headers)
+      : new StdioTransport(target, options.env);
+    const client = new McpClient(transport);
+
+    try {
+      const result = await client.request('initialize', {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: CLIENT_INFO,
+      }, { signal: options.signal });
+      client.serverInfo = result.serverInfo;
+      client.capabilities = result.capabilities ?? {};
+      if (transport instanceof HttpTransport) {
+        transport.protocolVersion = result.protocolVersion ?? MCP_PROTOCOL_VERSION;
+      }
+      await transport.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    } catch (error) {
+      await transport.close();
+      throw error;
+    }
+    return client;
+  }
+
+  /**
+   * Send a request, cancelling it on the server if the signal aborts
+   */
+  async request(method: string, params?: Record<string, any>, options: McpRequestOptions = {}): Promise<any> {
+    const { onNotification, signal } = options;
+    if (signal?.aborted) throw signal.reason;
+
+    const id = this.nextId++;
+    const response = this.transport.request({ jsonrpc: '2.0', id, method, params }, onNotification);
+    // Once aborted, nobody awaits the response any more
+    response.catch(() => {});
+
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        void this.transport.send({
+          jsonrpc: '2.0',
+          method: 'notifications/cancelled',
+          params: { requestId: id, reason: String(signal?.reason?.message ?? signal?.reason ?? 'aborted') },
+        }).catch(() => {});
+        reject(signal?.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      const message = await (signal ? Promise.race([response, aborted]) : response);
+      if (message.error) {
+        throw new Error(`MCP error ${message.error.code}: ${message.error.message}`);
+      }
+      return message.result ?? {};
+    } finally {
+      if (onAbort) signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * List all tools of the server, following pagination
+   */
+  async listTools(signal?: AbortSignal): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.request('tools/list', cursor ? { cursor } : undefined, { signal });
+      tools.push(...(result.tools ?? []));
+      cursor = result.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  /**
+   * Call a tool, asking the server for progress notifications
+   */
+  async callTool(name: string, args: Record<string, any>, options: McpRequestOptions = {}): Promise<McpToolResult> {
+    const progressToken = `${name}-${this.nextId}`;
+    return this.request('tools/call', { name, arguments: args, _meta: { progressToken } }, options);
+  }
+
+  /**
+   * Ask the server to send log notifications from the given level up
+   */
+  async setLogLevel(level: string, signal?: AbortSignal): Promise<void> {
+    if (!this.capabilities.logging) return;
+    await this.request('logging/setLevel', { level }, { signal });
+  }
+
+  async close(): Promise<void> {
+    await this.transport.close();
+  }
+}
@@ -32,7 +32,9 @@ export class MockConnector extends BaseConnector {
    */
   buildPayload(request: ConnectorRequest): any {
     return {
-      question: request.testCase.initialPrompt,
+      question: request.messages?.length
+        ? request.messages[request.messages.length - 1].content
+        : request.testCase.initialPrompt,
       context: request.testCase.context,
     };
   }
@@ -0,0 +1,322 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * OpenAI Chat Completions Connector
+ * Handles agents exposing an OpenAI-compatible /v1/chat/completions endpoint
+ */
+
+import type { TrajectoryStep, TokenUsage } from '@/types';
+import { BaseConnector } from '@/services/connectors/base/BaseConnector';
+import type {
+  ConnectorAuth,
+  ConnectorRequest,
+  ConnectorResponse,
+  ConnectorProgressCallback,
+  ConnectorRawEventCallback,
+  RawEventParser,
+} from '@/services/connectors/types';
+
+/**
+ * Chat message in the OpenAI format
+ */
+export interface OpenAIChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Chat completions request body
+ */
+export interface OpenAIChatPayload {
+  model: string;
+  messages: OpenAIChatMessage[];
+  tools?: Array<{
+    type: 'function';
+    function: { name: string; description: string; parameters: Record<string, any> };
+  }>;
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
+  [key: string]: any;
+}
+
+interface ToolCallState {
+  id?: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * Builds trajectory steps from chat completion chunks (streamed) or
+ * completions (non-streamed), one message at a time: reasoning becomes a
+ * thinking step, content a response (or an assistant step when the message
+ * also calls tools), and each tool call an action step
+ */
+class ChatCompletionParser implements RawEventParser {
+  runId: string | null = null;
+  model?: string;
+  usage?: Record<string, any>;
+  finishReason?: string;
+
+  private content = '';
+  private reasoning = '';
+  private toolCalls: ToolCallState[] = [];
+
+  constructor(private createStep: (type: TrajectoryStep['type'], content: string, options?: Partial<TrajectoryStep>) => TrajectoryStep) {}
+
+  push(data: any): TrajectoryStep[] {
+    if (data?.error) {
+      throw new Error(`OpenAI chat stream error: ${data.error.message ?? JSON.stringify(data.error)}`);
+    }
+    this.runId = this.runId ?? data?.id ?? null;
+    this.model = this.model ?? data?.model;
+    if (data?.usage) this.usage = data.usage;
+
+    // Only the first choice is part of the trajectory
+    const choice = (data?.choices ?? []).find((c: any) => (c.index ?? 0) === 0);
+    if (!choice) return [];
+
+    const message = choice.delta ?? choice.message ?? {};
+    this.reasoning += message.reasoning_content ?? message.reasoning ?? '';
+    this.content += message.content ?? '';
+    (message.tool_calls ?? []).forEach((call: any, position: number) => {
+      const state = this.toolCalls[call.index ?? position] ??= { name: '', arguments: '' };
+      if (call.id) state.id = call.id;
+      if (call.function?.name) state.name = call.function.name;
+      state.arguments += call.function?.arguments ?? '';
+    });
+
+    if (!choice.finish_reason) return [];
+    this.finishReason = choice.finish_reason;
+    return this.finish();
+  }
+
+  /**
+   * Steps of the message in progress (a stream may end without a finish_reason)
+   */
+  finish(): TrajectoryStep[] {
+    const steps: TrajectoryStep[] = [];
+    const toolCalls = this.toolCalls.filter(Boolean);
+
+    if (this.reasoning.trim()) {
+      steps.push(this.createStep('thinking', this.reasoning.trim()));
+    }
+    if (this.content.trim()) {
+      steps.push(this.createStep(toolCalls.length > 0 ? 'assistant' : 'response', this.content.trim()));
+    }
+    for (const call of toolCalls) {
+      steps.push(this.createStep('action', `Calling ${call.name}...`, {
+        toolName: call.name,
+        toolArgs: parseToolArguments(call.arguments),
+      }));
+    }
+
+    this.content = '';
+    this.reasoning = '';
+    this.toolCalls = [];
+    return steps;
+  }
+}
+
+/**
+ * Tool call arguments arrive as a JSON string; keep malformed ones as they are
+ */
+function parseToolArguments(args: string): Record<string, any> {
+  if (!args.trim()) return {};
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === 'object' ? parsed : { arguments: parsed };
+  } catch {
+    return { arguments: args };
+  }
+}
+
+/**
+ * Read the JSON chunks of a chat completions SSE stream until [DONE]
+ */
+async function readChatCompletionStream(body: ReadableStream<Uint8Array>, onChunk: (chunk: any) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return;
+        if (data) onChunk(JSON.parse(data));
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * OpenAI Chat Completions Connector
+ * Streams by default; a beforeRequest hook can set `stream: false` in the payload
+ */
+export class OpenAIChatConnector extends BaseConnector {
+  readonly type = 'openai-chat' as const;
+  readonly name = 'OpenAI Chat Completions';
+  readonly supportsStreaming = true;
+
+  /**
+   * Build a chat completions request from the test case
+   * The test case context goes into a system message, its tools into `tools`
+   */
+  buildPayload(request: ConnectorRequest): OpenAIChatPayload {
+    const messages: OpenAIChatMessage[] = [];
+
+    const context = request.testCase.context ?? [];
+    if (context.length > 0) {
+      messages.push({
+        role: 'system',
+        content: ['## Context', ...context.map(item => `**${item.description}:**\n${item.value}`)].join('\n\n'),
+      });
+    }
+
+    if (request.messages?.length) {
+      messages.push(...request.messages.map(({ role, content }) => ({ role, content })));
+    } else {
+      messages.push({ role: 'user', content: request.testCase.initialPrompt });
+    }
+
+    const payload: OpenAIChatPayload = {
+      model: request.modelId,
+      messages,
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+
+    if (request.testCase.tools?.length) {
+      payload.tools = request.testCase.tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      }));
+    }
+
+    return payload;
+  }
+
+  /**
+   * Execute the chat completion, streaming steps as messages complete
+   */
+  async execute(
+    endpoint: string,
+    request: ConnectorRequest,
+    auth: ConnectorAuth,
+    onProgress?: ConnectorProgressCallback,
+    onRawEvent?: ConnectorRawEventCallback
+  ): Promise<ConnectorResponse> {
+    // Use pre-built payload from hook if available, otherwise build fresh
+    const payload = request.payload || this.buildPayload(request);
+    const trajectory: TrajectoryStep[] = [];
+    const rawEvents: any[] = [];
+    const parser = this.createParser();
+
+    this.debug('Executing chat completions request');
+    this.debug('Endpoint:', endpoint);
+
+    const response = await this.withOAuth2Retry(auth, async () => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: payload.stream ? 'text/event-stream' : 'application/json',
+          ...(await this.resolveAuthHeaders(auth, request.signal)),
+        },
+        body: JSON.stringify(payload),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`OpenAI chat request failed: ${response.status} - ${errorText}`);
+      }
+      return response;
+    });
+
+    const handle = (data: any) => {
+      rawEvents.push(data);
+      onRawEvent?.(data);
+      for (const step of parser.push(data)) {
+        trajectory.push(step);
+        onProgress?.(step);
+      }
+    };
+
+    // Servers may answer a streaming request with a plain completion
+    if (response.headers.get('content-type')?.includes('text/event-stream') && response.body) {
+      await readChatCompletionStream(response.body, handle);
+    } else {
+      handle(await response.json());
+    }
+
+    for (const step of parser.finish()) {
+      trajectory.push(step);
+      onProgress?.(step);
+    }
+
+    this.debug('Chat completion finished. Steps:', trajectory.length);
+
+    return {
+      trajectory,
+      runId: parser.runId,
+      rawEvents,
+      usage: this.parseUsage(parser.usage, parser.model),
+      metadata: {
+        model: parser.model,
+        finishReason: parser.finishReason,
+        usage: parser.usage,
+      },
+    };
+  }
+
+  /**
+   * Parse chat completions (or the chunks of a streamed one) into trajectory steps
+   */
+  parseResponse(data: any): TrajectoryStep[] {
+    const parser = this.createParser();
+    const steps = (Array.isArray(data) ? data : [data]).flatMap(chunk => parser.push(chunk));
+    return [...steps, ...parser.finish()];
+  }
+
+  /**
+   * Parse recorded chunks one at a time, as they arrived
+   */
+  createRawEventParser(): RawEventParser {
+    return this.createParser();
+  }
+
+  /**
+   * Convert an OpenAI usage object to token usage
+   */
+  parseUsage(usage: Record<string, any> | undefined, modelId?: string): TokenUsage | undefined {
+    if (typeof usage?.prompt_tokens !== 'number' && typeof usage?.completion_tokens !== 'number') return undefined;
+    return {
+      inputTokens: usage?.prompt_tokens ?? 0,
+      outputTokens: usage?.completion_tokens ?? 0,
+      ...(modelId && { modelId }),
+    };
+  }
+
+  private createParser(): ChatCompletionParser {
+    return new ChatCompletionParser((type, content, options) => this.createStep(type, content, options));
+  }
+}
+
+/**
+ * Default instance for convenience
+ */
+export const openAIChatConnector = new OpenAIChatConnector();
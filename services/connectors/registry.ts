@@ -75,6 +75,15 @@ class ConnectorRegistryImpl implements ConnectorRegistry {
       console.warn('[ConnectorRegistry] Mock connector not registered, falling back to default');
     }
 
+    // Handle replay:// endpoint prefix (recorded cassettes)
+    if (agent.endpoint.startsWith('replay://')) {
+      const replayConnector = this.get('replay');
+      if (replayConnector) {
+        return replayConnector;
+      }
+      console.warn('[ConnectorRegistry] Replay connector not registered, falling back to default');
+    }
+
     // Use explicit connector type if specified
     const connectorType = agent.connectorType ?? DEFAULT_CONNECTOR_TYPE;
     const connector = this.get(connectorType);
@@ -0,0 +1,211 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Replay Connector
+ * Plays back connector exchanges recorded to cassettes, so judge prompts and
+ * UI views can be iterated on without calling the real agent
+ *
+ * Endpoint format: replay://<recorded agent key>[?speed=<factor>]
+ * - speed=1 (default) keeps the recorded timing, speed=10 plays ten times
+ *   faster, speed=0 plays without delays
+ *
+ * The recorded raw events go through the parser of the connector that
+ * recorded them, so replayed trajectories match what that connector built.
+ */
+
+import type { TrajectoryStep } from '@/types';
+import { BaseConnector } from '@/services/connectors/base/BaseConnector';
+import { connectorRegistry } from '@/services/connectors/registry';
+import { getCassettePath, loadCassette } from '@/services/connectors/replay/cassetteStore';
+import type {
+  ConnectorAuth,
+  ConnectorRequest,
+  ConnectorResponse,
+  ConnectorProgressCallback,
+  ConnectorRawEventCallback,
+  ConnectorRegistry,
+  CassetteKey,
+  RawEventParser,
+} from '@/services/connectors/types';
+
+export const REPLAY_ENDPOINT_PREFIX = 'replay://';
+
+/**
+ * Parse a replay endpoint into the recorded agent key and playback speed
+ */
+export function parseReplayEndpoint(endpoint: string): { agentKey: string; speed: number } {
+  if (!endpoint.startsWith(REPLAY_ENDPOINT_PREFIX)) {
+    throw new Error(`Replay endpoint must look like ${REPLAY_ENDPOINT_PREFIX}<agent key>, got '${endpoint}'`);
+  }
+  const [agentKey, query = ''] = endpoint.slice(REPLAY_ENDPOINT_PREFIX.length).split('?');
+  if (!agentKey) {
+    throw new Error(`Replay endpoint '${endpoint}' names no recorded agent`);
+  }
+
+  const speedParam = new URLSearchParams(query).get('speed');
+  const speed = speedParam === null ? 1 : Number(speedParam);
+  if (!Number.isFinite(speed) || speed < 0) {
+    throw new Error(`Replay speed must be a non-negative number, got '${speedParam}'`);
+  }
+  return { agentKey: decodeURIComponent(agentKey), speed };
+}
+
+/**
+ * Wait, cut short (with a rejection) if the signal aborts
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+  if (ms <= 0) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface ReplayConnectorOptions {
+  /** Directory the cassettes were recorded to */
+  cassetteDir?: string;
+  /** Registry holding the connectors that recorded the cassettes */
+  registry?: ConnectorRegistry;
+}
+
+/**
+ * Replay Connector for recorded cassettes
+ */
+export class ReplayConnector extends BaseConnector {
+  readonly type = 'replay' as const;
+  readonly name = 'Replay (Cassette)';
+  readonly supportsStreaming = true;
+
+  constructor(private options: ReplayConnectorOptions = {}) {
+    super();
+  }
+
+  // Read when replaying, since .env files load after connectors are registered
+  private get cassetteDir(): string {
+    return this.options.cassetteDir ?? (process.env.CASSETTE_DIR || 'cassettes');
+  }
+
+  private get registry(): ConnectorRegistry {
+    return this.options.registry ?? connectorRegistry;
+  }
+
+  /**
+   * Nothing is sent anywhere; the payload only identifies the replayed turn
+   */
+  buildPayload(request: ConnectorRequest): any {
+    return {
+      testCaseId: request.testCase.id,
+      threadId: request.threadId,
+      messages: request.messages,
+    };
+  }
+
+  /**
+   * Replay the recorded exchange of the request's conversation turn
+   */
+  async execute(
+    endpoint: string,
+    request: ConnectorRequest,
+    auth: ConnectorAuth,
+    onProgress?: ConnectorProgressCallback,
+    onRawEvent?: ConnectorRawEventCallback
+  ): Promise<ConnectorResponse> {
+    const { agentKey, speed } = parseReplayEndpoint(endpoint);
+    const key: CassetteKey = {
+      testCaseId: request.testCase.id,
+      testCaseVersion: request.testCase.currentVersion ?? 1,
+      agentKey,
+    };
+    const cassettePath = getCassettePath(this.cassetteDir, key);
+    const cassette = await loadCassette(this.cassetteDir, key);
+    if (!cassette) {
+      throw new Error(
+        `No cassette recorded for test case ${key.testCaseId} v${key.testCaseVersion} and agent ${agentKey} (${cassettePath})`
+      );
+    }
+
+    // Each user message starts a turn; the last one is the turn to replay
+    const turn = request.messages ? request.messages.filter(m => m.role === 'user').length - 1 : 0;
+    const exchange = cassette.exchanges[Math.max(turn, 0)];
+    if (!exchange) {
+      throw new Error(`Cassette ${cassettePath} has no recording of turn ${turn + 1}`);
+    }
+
+    const recorder = this.registry.get(cassette.connectorType);
+    if (!recorder) {
+      throw new Error(`Connector '${cassette.connectorType}' that recorded ${cassettePath} is not registered`);
+    }
+
+    this.debug(`Replaying turn ${turn + 1} of ${cassettePath} at speed ${speed}`);
+
+    const trajectory: TrajectoryStep[] = [];
+    const emit = (steps: TrajectoryStep[]) => {
+      steps.forEach(step => {
+        trajectory.push(step);
+        onProgress?.(step);
+      });
+    };
+
+    const recordedEvents = exchange.rawEvents.map(e => e.event);
+    const parser: RawEventParser = recorder.createRawEventParser?.(exchange.metadata) ?? {
+      push: () => [],
+      finish: () => recorder.parseResponse(recordedEvents),
+    };
+
+    let elapsedMs = 0;
+    for (const { offsetMs, event } of exchange.rawEvents) {
+      if (speed > 0) await delay((offsetMs - elapsedMs) / speed, request.signal);
+      elapsedMs = Math.max(elapsedMs, offsetMs);
+      onRawEvent?.(event);
+      emit(parser.push(event));
+    }
+    if (speed > 0) await delay((exchange.durationMs - elapsedMs) / speed, request.signal);
+    emit(parser.finish());
+
+    return {
+      trajectory,
+      runId: exchange.runId,
+      rawEvents: recordedEvents,
+      usage: exchange.usage,
+      metadata: {
+        ...exchange.metadata,
+        replay: {
+          cassette: cassettePath,
+          connectorType: cassette.connectorType,
+          recordedAt: cassette.recordedAt,
+          speed,
+        },
+      },
+    };
+  }
+
+  /**
+   * Recorded events are parsed by the connector that recorded them
+   */
+  parseResponse(rawEvents: any[]): TrajectoryStep[] {
+    return [];
+  }
+
+  /**
+   * Health check - replays need no running agent
+   */
+  async healthCheck(endpoint: string, auth: ConnectorAuth): Promise<boolean> {
+    return true;
+  }
+}
+
+/**
+ * Default instance for convenience
+ */
+export const replayConnector = new ReplayConnector();
@@ -0,0 +1,55 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Cassette Store
+ * Saves and loads recorded connector exchanges as JSON files:
+ * <dir>/<agentKey>/<testCaseId>@v<version>.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Cassette, CassetteKey } from '@/services/connectors/types';
+
+/**
+ * Make a key component safe to use as a file name
+ */
+function toFileName(value: string): string {
+  return value.replace(/[^a-zA-Z0-9._-]/g, '_').replace(/^\.+/, '_');
+}
+
+/**
+ * Path of the cassette file for a test case version and agent
+ */
+export function getCassettePath(dir: string, key: CassetteKey): string {
+  return path.resolve(
+    dir,
+    toFileName(key.agentKey),
+    `${toFileName(key.testCaseId)}@v${key.testCaseVersion}.json`
+  );
+}
+
+/**
+ * Save a cassette, replacing an earlier recording of the same key
+ * @returns The cassette file path
+ */
+export async function saveCassette(dir: string, cassette: Cassette): Promise<string> {
+  const filePath = getCassettePath(dir, cassette);
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(filePath, JSON.stringify(cassette, null, 2) + '\n', 'utf-8');
+  return filePath;
+}
+
+/**
+ * Load a cassette, or null if none was recorded for the key
+ */
+export async function loadCassette(dir: string, key: CassetteKey): Promise<Cassette | null> {
+  try {
+    return JSON.parse(await fs.promises.readFile(getCassettePath(dir, key), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
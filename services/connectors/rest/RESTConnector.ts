@@ -6,18 +6,54 @@
 /**
  * REST Connector
  * Handles non-streaming REST API calls to agents
+ *
+ * Agents with their own request and response shapes are configured with
+ * connectorConfig (see RESTConnectorConfig): a request body template,
+ * extraction rules for the response, and polling for async job APIs.
  */
 
-import type { TrajectoryStep, ToolCallStatus } from '@/types';
+import type { TrajectoryStep, ToolCallStatus, TokenUsage } from '@/types';
 import { BaseConnector } from '@/services/connectors/base/BaseConnector';
+import { getJsonPathValue } from '@/lib/jsonPath';
+import {
+  fillRequestTemplate,
+  getTemplateVariables,
+  mapResponseRunId,
+  mapResponseSteps,
+} from '@/services/connectors/rest/fieldMapping';
 import type {
   ConnectorAuth,
   ConnectorRequest,
   ConnectorResponse,
   ConnectorProgressCallback,
   ConnectorRawEventCallback,
+  RawEventParser,
+  RESTConnectorConfig,
+  RESTPollingConfig,
+  RESTResponseMapping,
 } from '@/services/connectors/types';
 
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_POLL_TIMEOUT_MS = 300000; // 5 minutes
+
+/**
+ * Wait, cut short (with a rejection) if the signal aborts
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 /**
  * REST Connector for non-streaming HTTP agents
  * Sends a single request and parses the response
@@ -27,17 +63,42 @@ export class RESTConnector extends BaseConnector {
   readonly name = 'REST API';
   readonly supportsStreaming = false;
 
+  constructor(private config: RESTConnectorConfig = {}) {
+    super();
+  }
+
+  /**
+   * Connector config of the request's agent over the instance's config
+   */
+  private getConfig(request: ConnectorRequest): RESTConnectorConfig {
+    return { ...this.config, ...(request.connectorConfig as RESTConnectorConfig | undefined) };
+  }
+
   /**
    * Build generic REST payload
-   * Can be customized via connectorConfig
+   * Can be customized via connectorConfig.requestTemplate
+   * Multi-turn runs resend the conversation history, since REST agents keep no state
    */
   buildPayload(request: ConnectorRequest): any {
-    return {
+    const { requestTemplate } = this.getConfig(request);
+    if (requestTemplate !== undefined) {
+      return fillRequestTemplate(requestTemplate, getTemplateVariables(request));
+    }
+
+    const payload: Record<string, any> = {
       prompt: request.testCase.initialPrompt,
       context: request.testCase.context,
       model: request.modelId,
       tools: request.testCase.tools,
     };
+
+    if (request.messages?.length) {
+      payload.prompt = request.messages[request.messages.length - 1].content;
+      payload.messages = request.messages.map(({ role, content }) => ({ role, content }));
+      payload.threadId = request.threadId;
+    }
+
+    return payload;
   }
 
   /**
@@ -52,50 +113,148 @@ export class RESTConnector extends BaseConnector {
   ): Promise<ConnectorResponse> {
     // Use pre-built payload from hook if available, otherwise build fresh
     const payload = request.payload || this.buildPayload(request);
-    const headers = this.buildAuthHeaders(auth);
+    const body = JSON.stringify(payload);
+    const { responseMapping, polling } = this.getConfig(request);
 
     this.debug('Executing REST request');
     this.debug('Endpoint:', endpoint);
-    this.debug('Payload:', JSON.stringify(payload).substring(0, 500));
+    this.debug('Payload:', body.substring(0, 500));
 
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...headers,
-      },
-      body: JSON.stringify(payload),
+    const response = await this.withOAuth2Retry(auth, async () => {
+      const headers = await this.buildRequestHeaders(auth, { method: 'POST', url: endpoint, body }, request.signal);
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        body,
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`REST request failed: ${response.status} - ${errorText}`);
+      }
+      return response;
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`REST request failed: ${response.status} - ${errorText}`);
+    let data = await response.json();
+    let job: { jobId: string; polls: number } | undefined;
+    if (polling) {
+      ({ data, job } = await this.pollJob(endpoint, data, polling, auth, request.signal));
     }
-
-    const data = await response.json();
     onRawEvent?.(data);
 
-    const trajectory = this.parseResponse(data);
+    const trajectory = this.parseResponse(data, responseMapping);
 
     // Emit all steps at once (no streaming)
     trajectory.forEach(step => onProgress?.(step));
 
     return {
       trajectory,
-      runId: data.runId || data.id || null,
+      runId: responseMapping?.runId ? mapResponseRunId(data, responseMapping) : data.runId || data.id || null,
       rawEvents: [data],
+      usage: this.parseUsage(data),
       metadata: {
         status: response.status,
         responseHeaders: Object.fromEntries(response.headers.entries()),
+        ...(job && { job }),
+        // Kept so recorded responses replay with the same extraction rules
+        ...(responseMapping && { responseMapping }),
       },
     };
   }
 
+  /**
+   * Poll the job a first response started until it finishes
+   * Returns the result of the finished job
+   */
+  private async pollJob(
+    endpoint: string,
+    started: any,
+    polling: RESTPollingConfig,
+    auth: ConnectorAuth,
+    signal?: AbortSignal
+  ): Promise<{ data: any; job: { jobId: string; polls: number } }> {
+    const jobId = getJsonPathValue(started, polling.jobIdPath);
+    if (jobId === undefined || jobId === null || jobId === '') {
+      throw new Error(`REST response has no job ID at ${polling.jobIdPath}`);
+    }
+
+    const url = new URL(polling.url.replace(/\{\{\s*jobId\s*\}\}/g, encodeURIComponent(String(jobId))), endpoint).toString();
+    const timeoutMs = polling.timeoutMs ?? DEFAULT_POLL_TIMEOUT_MS;
+    const deadline = Date.now() + timeoutMs;
+    this.debug(`Polling job ${jobId}:`, url);
+
+    for (let polls = 1; ; polls++) {
+      await delay(polling.intervalMs ?? DEFAULT_POLL_INTERVAL_MS, signal);
+
+      const data = await this.withOAuth2Retry(auth, async () => {
+        // Signed anew for each poll, since SigV4 signatures and OAuth2 tokens expire
+        const headers = await this.buildRequestHeaders(auth, { method: 'GET', url }, signal);
+        const response = await fetch(url, { method: 'GET', headers, signal });
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(`REST poll failed: ${response.status} - ${errorText}`);
+        }
+        return response.json();
+      });
+      const status = String(getJsonPathValue(data, polling.statusPath));
+      if (polling.failedValues?.includes(status)) {
+        throw new Error(`REST job ${jobId} failed with status ${status}`);
+      }
+      if (polling.doneValues.includes(status)) {
+        const result = polling.resultPath ? getJsonPathValue(data, polling.resultPath) : data;
+        return { data: result ?? {}, job: { jobId: String(jobId), polls } };
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`REST job ${jobId} did not finish within ${timeoutMs}ms (last status: ${status})`);
+      }
+    }
+  }
+
+  /**
+   * The single raw event is the response body
+   */
+  createRawEventParser(metadata?: Record<string, any>): RawEventParser {
+    return {
+      push: (data: any) => this.parseResponse(data, metadata?.responseMapping),
+      finish: () => [],
+    };
+  }
+
+  /**
+   * Parse token usage from the response, if the agent reports it
+   * Accepts Anthropic-style (input_tokens/output_tokens) and OpenAI-style
+   * (prompt_tokens/completion_tokens) usage objects
+   */
+  parseUsage(data: any): TokenUsage | undefined {
+    const usage = data?.usage;
+    if (!usage || typeof usage !== 'object') return undefined;
+
+    const inputTokens = usage.input_tokens ?? usage.inputTokens ?? usage.prompt_tokens;
+    const outputTokens = usage.output_tokens ?? usage.outputTokens ?? usage.completion_tokens;
+    if (typeof inputTokens !== 'number' && typeof outputTokens !== 'number') return undefined;
+
+    return {
+      inputTokens: typeof inputTokens === 'number' ? inputTokens : 0,
+      outputTokens: typeof outputTokens === 'number' ? outputTokens : 0,
+      ...(typeof data.model === 'string' && { modelId: data.model }),
+    };
+  }
+
   /**
    * Parse REST response into trajectory steps
-   * This is a generic implementation - subclass for specific APIs
+   * Uses the extraction rules of a response mapping when given; otherwise
+   * this is a generic implementation - subclass for specific APIs
    */
-  parseResponse(data: any): TrajectoryStep[] {
+  parseResponse(data: any, responseMapping: RESTResponseMapping | undefined = this.config.responseMapping): TrajectoryStep[] {
+    if (responseMapping) {
+      const mapped = mapResponseSteps(data, responseMapping, (type, content, extra) => this.createStep(type, content, extra));
+      return mapped.length > 0 ? mapped : [this.createStep('response', JSON.stringify(data, null, 2))];
+    }
+
     const steps: TrajectoryStep[] = [];
 
     // Handle common response formats
@@ -0,0 +1,170 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * REST Field Mapping
+ * Request body templates and response extraction rules, so REST agents with
+ * their own request and response shapes need no connector class of their own
+ */
+
+import type { TrajectoryStep } from '@/types';
+import { ToolCallStatus } from '@/types';
+import { selectJsonPath, getJsonPathValue } from '@/lib/jsonPath';
+import { buildConversationPrompt } from '@/services/agent/payloadBuilder';
+import type { ConnectorRequest, RESTResponseMapping, RESTStepMapping } from '@/services/connectors/types';
+
+const TRAJECTORY_STEP_TYPES: TrajectoryStep['type'][] = ['tool_result', 'assistant', 'action', 'response', 'thinking'];
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z]+)\s*\}\}/g;
+const SINGLE_PLACEHOLDER = /^\{\{\s*([A-Za-z]+)\s*\}\}$/;
+
+type CreateStep = (type: TrajectoryStep['type'], content: string, extra?: Partial<TrajectoryStep>) => TrajectoryStep;
+
+/**
+ * Values available to request templates
+ */
+export function getTemplateVariables(request: ConnectorRequest): Record<string, any> {
+  const { testCase } = request;
+  const messages = request.messages?.length
+    ? request.messages.map(({ role, content }) => ({ role, content }))
+    : [{ role: 'user', content: testCase.initialPrompt }];
+  const context = testCase.context ?? [];
+
+  return {
+    prompt: messages[messages.length - 1].content,
+    initialPrompt: testCase.initialPrompt,
+    conversation: request.messages?.length ? buildConversationPrompt(request.messages) : testCase.initialPrompt,
+    messages,
+    context,
+    contextText: context.map(c => `${c.description}: ${c.value}`).join('\n'),
+    tools: testCase.tools ?? [],
+    modelId: request.modelId,
+    threadId: request.threadId,
+    runId: request.runId,
+    testCaseId: testCase.id,
+  };
+}
+
+/**
+ * Fill a request template with the variables of the request
+ * A string that is a single placeholder takes the variable as is; placeholders
+ * within longer strings are replaced by the variable's text (JSON for objects)
+ * @throws Error on placeholders that name no variable
+ */
+export function fillRequestTemplate(template: any, variables: Record<string, any>): any {
+  const lookup = (name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Unknown placeholder {{${name}}} in REST request template (available: ${Object.keys(variables).join(', ')})`);
+    }
+    return variables[name];
+  };
+
+  if (typeof template === 'string') {
+    const single = template.match(SINGLE_PLACEHOLDER);
+    if (single) return lookup(single[1]);
+    return template.replace(PLACEHOLDER, (_, name: string) => {
+      const value = lookup(name);
+      if (value === undefined || value === null) return '';
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    });
+  }
+  if (Array.isArray(template)) {
+    return template.map(item => fillRequestTemplate(item, variables));
+  }
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [key, fillRequestTemplate(value, variables)])
+    );
+  }
+  return template;
+}
+
+function toText(value: any): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Trajectory step type of a mapped step: a fixed type, or the step's own type
+ * translated by typeMap; steps without one are actions when they name a tool
+ */
+function getStepType(step: any, mapping: RESTStepMapping, toolName: string): TrajectoryStep['type'] {
+  if (mapping.type && TRAJECTORY_STEP_TYPES.includes(mapping.type as TrajectoryStep['type'])) {
+    return mapping.type as TrajectoryStep['type'];
+  }
+  if (mapping.type) {
+    const value = toText(getJsonPathValue(step, mapping.type));
+    const mapped = mapping.typeMap?.[value] ?? value;
+    if (TRAJECTORY_STEP_TYPES.includes(mapped as TrajectoryStep['type'])) {
+      return mapped as TrajectoryStep['type'];
+    }
+  }
+  return toolName ? 'action' : 'assistant';
+}
+
+function mapSteps(data: any, mapping: RESTStepMapping, createStep: CreateStep): TrajectoryStep[] {
+  const steps: TrajectoryStep[] = [];
+
+  for (const step of selectJsonPath(data, mapping.path)) {
+    const toolName = mapping.toolName ? toText(getJsonPathValue(step, mapping.toolName)) : '';
+    const type = getStepType(step, mapping, toolName);
+    const content = mapping.content ? toText(getJsonPathValue(step, mapping.content)) : '';
+
+    if (type === 'action') {
+      const args = mapping.toolArgs ? getJsonPathValue(step, mapping.toolArgs) : undefined;
+      steps.push(createStep('action', content || `Calling ${toolName}...`, {
+        toolName,
+        toolArgs: typeof args === 'string' ? parseArgs(args) : args,
+      }));
+
+      const result = mapping.toolResult ? getJsonPathValue(step, mapping.toolResult) : undefined;
+      if (result !== undefined) {
+        steps.push(createStep('tool_result', toText(result), { toolName, status: ToolCallStatus.SUCCESS }));
+      }
+    } else if (content) {
+      steps.push(createStep(type, content, toolName ? { toolName } : undefined));
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Tool arguments sent as a JSON string; kept as they are when malformed
+ */
+function parseArgs(args: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === 'object' ? parsed : { arguments: parsed };
+  } catch {
+    return { arguments: args };
+  }
+}
+
+/**
+ * Extract the trajectory of a REST response with the mapping's rules
+ */
+export function mapResponseSteps(data: any, mapping: RESTResponseMapping, createStep: CreateStep): TrajectoryStep[] {
+  const stepMappings = Array.isArray(mapping.steps) ? mapping.steps : mapping.steps ? [mapping.steps] : [];
+  const steps = stepMappings.flatMap(stepMapping => mapSteps(data, stepMapping, createStep));
+
+  if (mapping.response) {
+    const response = toText(getJsonPathValue(data, mapping.response));
+    if (response) {
+      steps.push(createStep('response', response));
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Extract the run ID of a REST response with the mapping's rule
+ */
+export function mapResponseRunId(data: any, mapping: RESTResponseMapping): string | null {
+  if (!mapping.runId) return null;
+  const runId = getJsonPathValue(data, mapping.runId);
+  return runId === undefined || runId === null ? null : String(runId);
+}
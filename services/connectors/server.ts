@@ -8,6 +8,7 @@
  * These connectors require Node.js and cannot run in the browser
  *
  * Import this file in CLI/server code to get access to subprocess-based connectors
+ * the MCP connector (launches stdio servers), and the replay connector (reads cassette files)
  */
 
 // Re-export everything from the main index (browser-safe connectors)
@@ -20,14 +21,25 @@ export {
   claudeCodeConnector,
   createBedrockClaudeCodeConnector,
 } from './claude-code/ClaudeCodeConnector';
+export { ReplayConnector, replayConnector, parseReplayEndpoint } from './replay/ReplayConnector';
+export type { ReplayConnectorOptions } from './replay/ReplayConnector';
+export { getCassettePath, saveCassette, loadCassette } from './replay/cassetteStore';
+export { McpConnector, mcpConnector, parseMcpEndpoint, toAgentToolDefinition } from './mcp/McpConnector';
+export type { McpPayload } from './mcp/McpConnector';
+export { McpClient } from './mcp/mcpClient';
+export type { McpTool, McpToolResult, JsonRpcMessage } from './mcp/mcpClient';
 
 // Register server-only connectors
 import { connectorRegistry } from './registry';
 import { subprocessConnector } from './subprocess/SubprocessConnector';
 import { claudeCodeConnector } from './claude-code/ClaudeCodeConnector';
+import { replayConnector } from './replay/ReplayConnector';
+import { mcpConnector } from './mcp/McpConnector';
 
 // Register server-only connectors on module load
 connectorRegistry.register(subprocessConnector);
 connectorRegistry.register(claudeCodeConnector);
+connectorRegistry.register(replayConnector);
+connectorRegistry.register(mcpConnector);
 
 console.log('[Connectors] Server connectors registered:', connectorRegistry.getRegisteredTypes().join(', '));
@@ -11,12 +11,14 @@
 import { spawn, ChildProcess } from 'child_process';
 import type { TrajectoryStep } from '@/types';
 import { BaseConnector } from '@/services/connectors/base/BaseConnector';
+import { buildConversationPrompt } from '@/services/agent/payloadBuilder';
 import type {
   ConnectorAuth,
   ConnectorRequest,
   ConnectorResponse,
   ConnectorProgressCallback,
   ConnectorRawEventCallback,
+  RawEventParser,
   SubprocessConfig,
   ConnectorProtocol,
 } from '@/services/connectors/types';
@@ -54,7 +56,10 @@ export class SubprocessConnector extends BaseConnector {
    */
   buildPayload(request: ConnectorRequest): string {
     // Build a simple prompt string for CLI tools
-    let prompt = request.testCase.initialPrompt;
+    // Each process starts fresh, so multi-turn runs resend the whole conversation
+    let prompt = request.messages?.length
+      ? buildConversationPrompt(request.messages)
+      : request.testCase.initialPrompt;
 
     // Add context if available
     if (request.testCase.context && request.testCase.context.length > 0) {
@@ -133,6 +138,21 @@ export class SubprocessConnector extends BaseConnector {
         reject(new Error(`Subprocess timed out after ${this.config.timeout}ms`));
       }, this.config.timeout);
 
+      // Kill the process when the caller aborts (e.g. test case timeout)
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        if (settled) return;
+        settled = true;
+        console.log('[Subprocess] Aborted, killing process');
+        proc.kill('SIGTERM');
+        reject(request.signal?.reason instanceof Error ? request.signal.reason : new Error('Subprocess aborted'));
+      };
+      if (request.signal?.aborted) {
+        onAbort();
+      } else {
+        request.signal?.addEventListener('abort', onAbort, { once: true });
+      }
+
       // Send input via stdin if inputMode is 'stdin'
       if (this.config.inputMode === 'stdin') {
         console.log('[Subprocess] Writing input to stdin...');
@@ -170,6 +190,7 @@ export class SubprocessConnector extends BaseConnector {
       proc.on('close', (code: number, signal: string) => {
         console.log('[Subprocess] Process closed with code:', code, 'signal:', signal);
         clearTimeout(timeoutId);
+        request.signal?.removeEventListener('abort', onAbort);
         if (settled) return;
         settled = true;
 
@@ -208,6 +229,7 @@ export class SubprocessConnector extends BaseConnector {
       proc.on('error', (error: Error) => {
         console.log('[Subprocess] ERROR event:', error.message);
         clearTimeout(timeoutId);
+        request.signal?.removeEventListener('abort', onAbort);
         if (settled) return;
         settled = true;
 
@@ -248,6 +270,39 @@ export class SubprocessConnector extends BaseConnector {
     }
   }
 
+  /**
+   * Parse recorded stdout/stderr chunks the way execute() parses them live:
+   * chunk by chunk with the streaming parser, otherwise once the process exited
+   */
+  createRawEventParser(metadata?: Record<string, any>): RawEventParser {
+    let stdout = '';
+    let stderr = '';
+    const streaming = this.config.outputParser === 'streaming';
+
+    return {
+      push: (event: { type: 'stdout' | 'stderr'; data: string }) => {
+        const steps: TrajectoryStep[] = [];
+        if (event.type === 'stderr') {
+          stderr += event.data;
+        } else if (streaming) {
+          this.parseStreamingOutput(event.data, steps);
+        } else {
+          stdout += event.data;
+        }
+        return steps;
+      },
+      finish: () => {
+        const steps: TrajectoryStep[] = [];
+        if (streaming) {
+          // Flush a last line the output didn't terminate
+          this.parseStreamingOutput('\n', steps);
+          return steps;
+        }
+        return this.parseResponse({ stdout, stderr, exitCode: metadata?.exitCode ?? 0 });
+      },
+    };
+  }
+
   /**
    * Parse final subprocess output
    */
@@ -3,7 +3,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { TestCase, TrajectoryStep, AgentHooks } from '@/types';
+import type { TestCase, TrajectoryStep, AgentHooks, TokenUsage, AgentToolDefinition } from '@/types';
+import type { AgentMessage } from '@/services/agent/payloadBuilder';
 
 // ============ Connector Protocol Types ============
 
@@ -14,15 +15,18 @@ import type { TestCase, TrajectoryStep, AgentHooks } from '@/types';
  * - subprocess: CLI tools invoked as child processes
  * - claude-code: Claude Code CLI (specialized subprocess)
  * - mock: Demo/testing connector
+ * - replay: Replays a recorded cassette instead of calling the agent
+ * - openai-chat: OpenAI-compatible chat completions API (streaming or not)
+ * - mcp: Agent tool of an MCP server (stdio or streamable HTTP)
  */
-export type ConnectorProtocol = 'agui-streaming' | 'rest' | 'subprocess' | 'claude-code' | 'mock';
+export type ConnectorProtocol = 'agui-streaming' | 'rest' | 'subprocess' | 'claude-code' | 'mock' | 'replay' | 'openai-chat' | 'mcp';
 
 // ============ Authentication Types ============
 
 /**
  * Authentication type for connectors
  */
-export type ConnectorAuthType = 'none' | 'basic' | 'bearer' | 'api-key' | 'aws-sigv4';
+export type ConnectorAuthType = 'none' | 'basic' | 'bearer' | 'api-key' | 'aws-sigv4' | 'oauth2';
 
 /**
  * Authentication configuration for connectors
@@ -45,6 +49,14 @@ export interface ConnectorAuth {
   awsSecretAccessKey?: string;
   awsSessionToken?: string;
 
+  // OAuth2 client credentials
+  oauth2TokenUrl?: string;
+  oauth2ClientId?: string;
+  oauth2ClientSecret?: string;
+  oauth2Scopes?: string[];
+  oauth2Audience?: string; // Sent as `audience` (Auth0 and similar)
+  oauth2ClientAuth?: 'basic' | 'body'; // How the client authenticates (default: 'basic')
+
   // Custom headers (always applied)
   headers?: Record<string, string>;
 }
@@ -59,12 +71,26 @@ export interface ConnectorRequest {
   modelId: string;
   threadId?: string;
   runId?: string;
+  /**
+   * Conversation history for multi-turn runs (oldest first, ending with the new user message).
+   * Stateful connectors continue the conversation on threadId; stateless ones resend the history.
+   */
+  messages?: AgentMessage[];
   /**
    * Pre-built payload from hook processing.
    * When set, connectors should use this directly instead of calling buildPayload().
    * This ensures that any modifications made by beforeRequest hooks are preserved.
    */
   payload?: any;
+  /**
+   * Aborted when the test case times out. Connectors should stop the request
+   * (close the stream, kill the process) and reject.
+   */
+  signal?: AbortSignal;
+  /**
+   * The agent's connectorConfig, for connectors configured per agent
+   */
+  connectorConfig?: Record<string, any>;
 }
 
 /**
@@ -75,6 +101,7 @@ export interface ConnectorResponse {
   runId: string | null;
   rawEvents?: any[]; // Protocol-specific raw events for debugging
   metadata?: Record<string, any>; // Additional connector-specific data
+  usage?: TokenUsage; // LLM tokens the agent reported using, if the protocol reports them
 }
 
 /**
@@ -87,6 +114,16 @@ export type ConnectorProgressCallback = (step: TrajectoryStep) => void;
  */
 export type ConnectorRawEventCallback = (event: any) => void;
 
+/**
+ * Incremental parser for raw events recorded from a connector
+ */
+export interface RawEventParser {
+  /** Steps completed by the next raw event */
+  push(rawEvent: any): TrajectoryStep[];
+  /** Steps only complete once all raw events are in */
+  finish(): TrajectoryStep[];
+}
+
 // ============ Connector Interface ============
 
 /**
@@ -129,6 +166,19 @@ export interface AgentConnector {
    */
   parseResponse(rawResponse: any): TrajectoryStep[];
 
+  /**
+   * Optional incremental parser for the raw events passed to onRawEvent,
+   * used to replay recorded cassettes step by step. Connectors without one
+   * are replayed with parseResponse() on all raw events.
+   * @param metadata - The metadata of the response the events were recorded from
+   */
+  createRawEventParser?(metadata?: Record<string, any>): RawEventParser;
+
+  /**
+   * Optional discovery of the tools the agent exposes (e.g. the tool catalog of an MCP server)
+   */
+  discoverTools?(endpoint: string, auth: ConnectorAuth, signal?: AbortSignal): Promise<AgentToolDefinition[]>;
+
   /**
    * Optional health check for the connector
    */
@@ -160,6 +210,70 @@ export interface SubprocessConfig {
   workingDir?: string; // Working directory for the process
 }
 
+// ============ REST Connector Types ============
+
+/**
+ * Where the steps of a REST response are and which of their fields hold what
+ * `path` is a JSONPath into the response; the other paths are relative to each step
+ */
+export interface RESTStepMapping {
+  /** Steps in the response, e.g. "$.trace[*]" */
+  path: string;
+  /** A trajectory step type, or a path to the step's type (translated by typeMap) */
+  type?: string;
+  /** Step type values of the response mapped to trajectory step types */
+  typeMap?: Record<string, TrajectoryStep['type']>;
+  content?: string;
+  toolName?: string;
+  toolArgs?: string;
+  /** Tool output; a tool_result step follows the action step when present */
+  toolResult?: string;
+}
+
+/**
+ * Extraction rules for REST responses (JSONPath-style paths into the response body)
+ */
+export interface RESTResponseMapping {
+  /** Step arrays, in trajectory order */
+  steps?: RESTStepMapping | RESTStepMapping[];
+  /** Final answer, added as the response step */
+  response?: string;
+  runId?: string;
+}
+
+/**
+ * Polling for async REST APIs whose first response only carries a job ID
+ */
+export interface RESTPollingConfig {
+  /** Path to the job ID in the first response */
+  jobIdPath: string;
+  /** URL of the job, with a {{jobId}} placeholder; relative URLs resolve against the endpoint */
+  url: string;
+  /** Path to the job status in a poll response */
+  statusPath: string;
+  /** Status values of a finished job */
+  doneValues: string[];
+  /** Status values of a failed job */
+  failedValues?: string[];
+  /** Path to the result in the finished poll response (defaults to the whole response) */
+  resultPath?: string;
+  intervalMs?: number; // Delay between polls (default: 1000)
+  timeoutMs?: number; // Give up after this long (default: 300000 = 5 min)
+}
+
+/**
+ * Configuration for the REST connector (AgentConfig.connectorConfig)
+ */
+export interface RESTConnectorConfig {
+  /**
+   * Request body template. String values are filled from {{placeholders}}; a
+   * value that is a single placeholder takes the value as is (arrays, objects)
+   */
+  requestTemplate?: any;
+  responseMapping?: RESTResponseMapping;
+  polling?: RESTPollingConfig;
+}
+
 // ============ Extended Agent Config ============
 
 /**
@@ -180,7 +294,7 @@ export interface AgentConfigWithConnector {
   connectorType?: ConnectorProtocol;
 
   /** Connector-specific configuration */
-  connectorConfig?: SubprocessConfig | Record<string, any>;
+  connectorConfig?: SubprocessConfig | RESTConnectorConfig | Record<string, any>;
 
   /** Authentication configuration */
   auth?: ConnectorAuth;
@@ -239,6 +353,47 @@ export interface ConnectorRegistry {
  */
 export interface ConnectorExecuteOptions {
   timeout?: number; // Overall timeout in milliseconds
-  retries?: number; // Number of retries on failure
-  retryDelay?: number; // Delay between retries in milliseconds
+  retries?: number; // Number of retries on retryable failures
+  retryDelay?: number; // Delay before the first retry in milliseconds (doubles on each retry)
+}
+
+// ============ Cassette Types ============
+
+/**
+ * Identifies the recording of one test case version executed by one agent
+ */
+export interface CassetteKey {
+  testCaseId: string;
+  testCaseVersion: number;
+  agentKey: string;
+}
+
+/**
+ * A raw event as the connector reported it, with its time since the agent call started
+ */
+export interface RecordedRawEvent {
+  offsetMs: number;
+  event: any;
+}
+
+/**
+ * One agent call (a conversation turn) of a recording
+ */
+export interface CassetteExchange {
+  runId: string | null;
+  durationMs: number;
+  rawEvents: RecordedRawEvent[];
+  metadata?: Record<string, any>;
+  usage?: TokenUsage;
+}
+
+/**
+ * Recorded connector exchanges of a test case, replayed by the replay connector
+ */
+export interface Cassette extends CassetteKey {
+  /** Connector that recorded the exchanges; its parser rebuilds the trajectory on replay */
+  connectorType: ConnectorProtocol;
+  modelId: string;
+  recordedAt: string;
+  exchanges: CassetteExchange[];
 }
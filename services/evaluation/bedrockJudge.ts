@@ -8,7 +8,7 @@
  * Calls backend proxy for AWS Bedrock evaluations
  */
 
-import { TrajectoryStep, EvaluationMetrics, ImprovementStrategy, OpenSearchLog, PassFailStatus } from '@/types';
+import { TrajectoryStep, EvaluationMetrics, ImprovementStrategy, OpenSearchLog, PassFailStatus, JudgeProviderType, JudgeRubric } from '@/types';
 import { ENV_CONFIG } from '@/lib/config';
 
 interface JudgeResult {
@@ -16,6 +16,9 @@ interface JudgeResult {
   metrics: EvaluationMetrics;
   llmJudgeReasoning: string;
   improvementStrategies: ImprovementStrategy[];
+  promptTokens?: number;
+  completionTokens?: number;
+  provider?: JudgeProviderType; // Provider that produced the judgment (reported by the backend)
 }
 
 /**
@@ -28,6 +31,7 @@ function sleep(ms: number): Promise<void> {
 interface ExpectedBehavior {
   expectedOutcomes?: string[];  // NEW: Simple text descriptions
   expectedTrajectory?: any[];   // Legacy: step-by-step trajectory
+  rubric?: JudgeRubric;         // Custom grading rubric
 }
 
 /**
@@ -73,6 +77,7 @@ export async function callBedrockJudge(
           trajectory,
           expectedOutcomes: expected.expectedOutcomes,
           expectedTrajectory: expected.expectedTrajectory,
+          rubric: expected.rubric,
           logs,
           modelId,
         }),
@@ -101,6 +106,9 @@ export async function callBedrockJudge(
         metrics: result.metrics,
         llmJudgeReasoning: result.llmJudgeReasoning,
         improvementStrategies: result.improvementStrategies || [],
+        promptTokens: result.promptTokens,
+        completionTokens: result.completionTokens,
+        provider: result.provider,
       };
     } catch (error) {
       const isLastAttempt = attempt === maxRetries;
@@ -133,6 +141,18 @@ export async function callBedrockJudge(
   throw new Error('Bedrock Judge evaluation failed: Maximum retries exceeded');
 }
 
+/**
+ * Format the judge model ID stored on LLMJudgeResponse
+ * Non-Bedrock providers are prefixed (e.g., 'ollama/llama3.1:8b') so runs scored
+ * by local or third-party judges are distinguishable from Bedrock-scored runs
+ */
+export function formatJudgeModelId(modelId: string, provider?: JudgeProviderType): string {
+  if (!provider || provider === 'bedrock') {
+    return modelId;
+  }
+  return `${provider}/${modelId}`;
+}
+
 /**
  * Simulate Bedrock Judge evaluation (fallback for testing)
  * @deprecated Use callBedrockJudge for real evaluations
@@ -9,14 +9,21 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { AgentConfig, EvaluationReport, TestCase, TrajectoryStep, OpenSearchLog, LLMJudgeResponse, ConnectorProtocol, BeforeRequestContext } from '@/types';
+import { AgentConfig, EvaluationReport, TestCase, TrajectoryStep, OpenSearchLog, LLMJudgeResponse, ConnectorProtocol, BeforeRequestContext, AssertionResult, EvaluationMetrics, ImprovementStrategy, PassFailStatus, ConversationTurn, FollowUpTrigger, JudgeEnsembleConfig, RunBudget, TokenUsage } from '@/types';
+import { evaluateAssertions, hasJudgeCriteria, applyAssertionResults, buildAssertionJudgment } from '@/lib/assertions';
+import { applyPPLMatch } from '@/lib/pplMatch';
+import { aggregateJudgments, isEnsemble, settleEnsembleJudges } from '@/lib/judgeEnsemble';
+import { classifyTurnOutcome, selectFollowUp, getTurnReply, buildFollowUpTestCase, combineTurnStatus } from '@/lib/conversation';
 import { executeBeforeRequestHook } from '@/lib/hooks';
-import { AGUIToTrajectoryConverter, consumeSSEStream, buildAgentPayload } from '@/services/agent';
+import { getRetryDelay, isRetryableError } from '@/lib/executionPolicy';
+import { getTestCaseBudgetViolation } from '@/lib/runBudget';
+import { AGUIToTrajectoryConverter, consumeSSEStream, buildAgentPayload, buildAgentMessage } from '@/services/agent';
+import type { AgentMessage } from '@/services/agent';
 import { AGUIEvent } from '@/types/agui';
 import { generateMockTrajectory } from './mockTrajectory';
-import { callBedrockJudge } from './bedrockJudge';
+import { callBedrockJudge, formatJudgeModelId } from './bedrockJudge';
 
-// Re-export for use by experimentRunner when calling judge after trace polling
+// Re-export for use by RunDetailsContent when re-running the judge from the browser
 export { callBedrockJudge };
 import { openSearchClient } from '@/services/opensearch';
 import { debug } from '@/lib/debug';
@@ -50,18 +57,29 @@ import type {
   ConnectorRequest,
   AgentConfigWithConnector,
   ConnectorRegistry,
+  ConnectorExecuteOptions,
+  Cassette,
+  CassetteExchange,
+  RecordedRawEvent,
 } from '@/services/connectors';
 
 // Toggle between mock and real agent
 const USE_MOCK_AGENT = false;
 
 /**
- * Build ConnectorAuth from AgentConfig headers
+ * Build ConnectorAuth from the agent's auth config, else from its headers
  */
 function buildConnectorAuth(agent: AgentConfig): ConnectorAuth {
   // Check for common auth patterns in headers
   const headers = agent.headers || {};
 
+  if (agent.auth) {
+    return {
+      ...agent.auth,
+      headers: { ...headers, ...agent.auth.headers },
+    };
+  }
+
   if (headers['Authorization']?.startsWith('Bearer ')) {
     return {
       type: 'bearer',
@@ -90,6 +108,280 @@ function buildConnectorAuth(agent: AgentConfig): ConnectorAuth {
   };
 }
 
+interface TrajectoryJudgment {
+  passFailStatus: PassFailStatus;
+  metrics: EvaluationMetrics;
+  llmJudgeReasoning: string;
+  improvementStrategies: ImprovementStrategy[];
+  llmJudgeResponse?: LLMJudgeResponse;
+  judgeResponses?: LLMJudgeResponse[];
+  judgeAgreement?: number;
+  assertionResults?: AssertionResult[];
+}
+
+/**
+ * Call the judge for one model and record its response
+ */
+async function callJudge(
+  testCase: TestCase,
+  judgeModelId: string,
+  trajectory: TrajectoryStep[],
+  logs: OpenSearchLog[] | undefined
+) {
+  const judgeStartTime = Date.now();
+  const judgment = await callBedrockJudge(
+    trajectory,
+    {
+      expectedOutcomes: testCase.expectedOutcomes,
+      expectedTrajectory: testCase.expectedTrajectory,
+      rubric: testCase.rubric,
+    },
+    logs,
+    (chunk) => debug('Eval', 'Judge progress:', chunk.slice(0, 100)),
+    judgeModelId
+  );
+  const judgeLatencyMs = Date.now() - judgeStartTime;
+
+  debug('Eval', 'Metrics:', judgment.metrics);
+
+  const llmJudgeResponse: LLMJudgeResponse = {
+    modelId: formatJudgeModelId(judgeModelId, judgment.provider),
+    timestamp: new Date().toISOString(),
+    promptTokens: judgment.promptTokens ?? 0,
+    completionTokens: judgment.completionTokens ?? 0,
+    latencyMs: judgeLatencyMs,
+    rawResponse: judgment.llmJudgeReasoning,
+    parsedMetrics: {
+      accuracy: judgment.metrics.accuracy,
+      faithfulness: judgment.metrics.faithfulness,
+      latency_score: judgment.metrics.latency_score,
+      trajectory_alignment_score: judgment.metrics.trajectory_alignment_score,
+    },
+    improvementStrategies: judgment.improvementStrategies,
+  };
+
+  return { judgment, llmJudgeResponse };
+}
+
+/**
+ * Score a trajectory with every judge in the ensemble and aggregate the verdicts
+ * of those that succeed; fails only when every judge fails.
+ * The returned llmJudgeResponse summarizes the ensemble (summed tokens, slowest latency);
+ * each judge's own response is kept in judgeResponses.
+ */
+async function callJudgeEnsemble(
+  testCase: TestCase,
+  ensemble: JudgeEnsembleConfig,
+  trajectory: TrajectoryStep[],
+  logs: OpenSearchLog[] | undefined
+) {
+  const models = getModels();
+  const { judgments: members, failures } = await settleEnsembleJudges(
+    ensemble.models,
+    key => callJudge(testCase, models[key]?.model_id || key, trajectory, logs)
+  );
+  failures.forEach(({ model, error }) => console.warn(`[Eval] Judge ${model} failed, left out of the ensemble:`, error));
+
+  const judgeResponses = members.map(({ judgment, llmJudgeResponse }) => ({
+    ...llmJudgeResponse,
+    passFailStatus: judgment.passFailStatus,
+  }));
+  const aggregated = aggregateJudgments(
+    members.map(({ judgment, llmJudgeResponse }) => ({ ...judgment, modelId: llmJudgeResponse.modelId })),
+    ensemble.aggregation,
+    failures
+  );
+
+  debug('Eval', 'Judge ensemble agreement:', aggregated.agreement);
+
+  const llmJudgeResponse: LLMJudgeResponse = {
+    modelId: judgeResponses.map(r => r.modelId).join(', '),
+    timestamp: new Date().toISOString(),
+    promptTokens: judgeResponses.reduce((sum, r) => sum + r.promptTokens, 0),
+    completionTokens: judgeResponses.reduce((sum, r) => sum + r.completionTokens, 0),
+    latencyMs: Math.max(...judgeResponses.map(r => r.latencyMs)),
+    rawResponse: aggregated.llmJudgeReasoning,
+    parsedMetrics: {
+      accuracy: aggregated.metrics.accuracy,
+      faithfulness: aggregated.metrics.faithfulness,
+      latency_score: aggregated.metrics.latency_score,
+      trajectory_alignment_score: aggregated.metrics.trajectory_alignment_score,
+    },
+    improvementStrategies: aggregated.improvementStrategies,
+  };
+
+  return { judgment: aggregated, llmJudgeResponse, judgeResponses };
+}
+
+/**
+ * Evaluate a trajectory with the test case's assertions, expectedPPL, and the LLM judge
+ * Assertions run first; the judge is skipped when the test case has no expected
+ * outcomes/trajectory, and a failed error-severity assertion overrides a judge pass.
+ * With a judge ensemble, every judge scores the trajectory and the verdicts are aggregated.
+ */
+async function judgeTrajectory(
+  testCase: TestCase,
+  modelId: string,
+  trajectory: TrajectoryStep[],
+  logs: OpenSearchLog[] | undefined,
+  durationMs: number | undefined,
+  judgeEnsemble?: JudgeEnsembleConfig
+): Promise<TrajectoryJudgment> {
+  const assertionResults = testCase.assertions?.length
+    ? evaluateAssertions(testCase.assertions, trajectory, { durationMs })
+    : undefined;
+
+  if (assertionResults && !hasJudgeCriteria(testCase)) {
+    debug('Eval', 'Assertions only, skipping judge:', assertionResults.length);
+    const assertionJudgment = buildAssertionJudgment(assertionResults);
+    return {
+      ...assertionJudgment,
+      metrics: applyPPLMatch(assertionJudgment.metrics, testCase.expectedPPL, trajectory),
+      assertionResults,
+    };
+  }
+
+  // A single-model ensemble just picks the judge
+  const soloJudgeKey = judgeEnsemble?.models[0];
+  if (isEnsemble(judgeEnsemble)) {
+    const { judgment, llmJudgeResponse, judgeResponses } = await callJudgeEnsemble(testCase, judgeEnsemble, trajectory, logs);
+    return {
+      passFailStatus: applyAssertionResults(judgment.passFailStatus, assertionResults),
+      metrics: applyPPLMatch(judgment.metrics, testCase.expectedPPL, trajectory),
+      llmJudgeReasoning: judgment.llmJudgeReasoning,
+      improvementStrategies: judgment.improvementStrategies,
+      llmJudgeResponse,
+      judgeResponses,
+      judgeAgreement: judgment.agreement,
+      assertionResults,
+    };
+  }
+
+  const judgeKey = soloJudgeKey ?? modelId;
+  const models = getModels();
+  const modelConfig = models[judgeKey];
+  const judgeModelId = modelConfig?.model_id || judgeKey;
+  const { judgment, llmJudgeResponse } = await callJudge(testCase, judgeModelId, trajectory, logs);
+
+  return {
+    passFailStatus: applyAssertionResults(judgment.passFailStatus, assertionResults),
+    metrics: applyPPLMatch(judgment.metrics, testCase.expectedPPL, trajectory),
+    llmJudgeReasoning: judgment.llmJudgeReasoning,
+    improvementStrategies: judgment.improvementStrategies,
+    llmJudgeResponse,
+    assertionResults,
+  };
+}
+
+/**
+ * Judge each turn of a multi-turn run against its own criteria
+ * (the test case for turn 1, the follow-up question for later turns)
+ * Turns without a test case keep their existing judgment.
+ */
+async function judgeTurns(
+  turns: ConversationTurn[],
+  turnTestCases: (TestCase | undefined)[],
+  modelId: string,
+  judgeEnsemble?: JudgeEnsembleConfig
+): Promise<ConversationTurn[]> {
+  const judged: ConversationTurn[] = [];
+  for (const [index, turn] of turns.entries()) {
+    if (!turnTestCases[index]) {
+      judged.push(turn);
+      continue;
+    }
+    const judgment = await judgeTrajectory(
+      turnTestCases[index]!, modelId, turn.trajectory, undefined, turn.durationMs ?? 0, judgeEnsemble
+    );
+    judged.push({
+      ...turn,
+      passFailStatus: judgment.passFailStatus,
+      metrics: judgment.metrics,
+      llmJudgeReasoning: judgment.llmJudgeReasoning,
+      assertionResults: judgment.assertionResults,
+    });
+  }
+  return judged;
+}
+
+/**
+ * Options for re-judging a stored run
+ */
+export interface RejudgeOptions {
+  /** Judge model key or ID (defaults to the model the run was last judged with) */
+  modelId?: string;
+  /** Score with several judges instead of one */
+  judgeEnsemble?: JudgeEnsembleConfig;
+}
+
+/**
+ * Re-score a stored run without re-running the agent
+ * Applies the test case's assertions, expectedPPL, and judge(s) to the given trajectory,
+ * using the rubric snapshot recorded on the run. Multi-turn runs also re-judge each turn
+ * whose follow-up question is still on the test case. Returns the fields to update on the run.
+ */
+export async function rejudgeReport(
+  report: EvaluationReport,
+  testCase: TestCase,
+  trajectory: TrajectoryStep[],
+  options: RejudgeOptions = {}
+): Promise<Partial<EvaluationReport>> {
+  const { judgeEnsemble } = options;
+  const modelId = options.modelId ?? report.judgeModelId ?? report.modelId ?? report.modelName;
+  const judgeModelId = judgeEnsemble?.models.join(', ') || modelId;
+  const judgedTestCase: TestCase = { ...testCase, rubric: report.rubric };
+
+  // No durationMs: max-latency assertions fall back to the trajectory's timestamps
+  const judgment = await judgeTrajectory(judgedTestCase, modelId, trajectory, undefined, undefined, judgeEnsemble);
+
+  let turns = report.turns;
+  if (turns?.length) {
+    const turnTestCases = turns.map((turn, index) => {
+      if (index === 0) return judgedTestCase;
+      const followUp = testCase.followUpQuestions?.find(f => f.question === turn.prompt);
+      return followUp ? buildFollowUpTestCase(testCase, followUp) : undefined;
+    });
+    turns = await judgeTurns(turns, turnTestCases, modelId, judgeEnsemble);
+    judgment.passFailStatus = combineTurnStatus(judgment.passFailStatus, turns);
+  }
+
+  return {
+    metricsStatus: report.metricsStatus !== undefined ? 'ready' : undefined,
+    passFailStatus: judgment.passFailStatus,
+    metrics: judgment.metrics,
+    llmJudgeReasoning: judgment.llmJudgeReasoning,
+    improvementStrategies: judgment.improvementStrategies,
+    llmJudgeResponse: judgment.llmJudgeResponse,
+    judgeResponses: judgment.judgeResponses,
+    judgeAgreement: judgment.judgeAgreement,
+    assertionResults: judgment.assertionResults,
+    turns,
+    judgeModelId,
+  };
+}
+
+/**
+ * Settle with the promise, or reject with the abort reason as soon as the
+ * signal aborts, so a connector that ignores the signal cannot hang a run
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Wait before a retry, cut short (with a rejection) if the signal aborts
+ */
+function waitForRetry(delayMs: number, signal: AbortSignal): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return raceAbort(new Promise<void>(resolve => { timer = setTimeout(resolve, delayMs); }), signal)
+    .finally(() => clearTimeout(timer));
+}
+
 /**
  * Options for running evaluation with connector
  */
@@ -98,11 +390,31 @@ export interface RunEvaluationWithConnectorOptions {
   registry: ConnectorRegistry;
   /** Callback for raw events from the connector */
   onRawEvent?: (event: any) => void;
+  /** Score with several judges instead of the model's judge */
+  judgeEnsemble?: JudgeEnsembleConfig;
+  /** Timeout and retry policy (unset fields fall back to DEFAULT_CONFIG.defaults) */
+  execution?: ConnectorExecuteOptions;
+  /** Step and tool call limits of the test case (run limits are enforced by the benchmark runner) */
+  budget?: RunBudget;
+  /** Aborts the agent execution, e.g. when a worker loses its lease on the test case */
+  signal?: AbortSignal;
+  /** Receives the connector exchanges once the agent has finished successfully, e.g. to save them as a cassette */
+  record?: (cassette: Cassette) => void | Promise<void>;
 }
 
 /**
  * Run evaluation using connector pattern (for CLI/direct execution)
- * This bypasses the browser proxy and calls agents directly
+ * This bypasses the browser proxy and calls agents directly.
+ * Test cases with followUpQuestions run as a multi-turn conversation on one thread.
+ *
+ * Agent calls that fail with a retryable error (network, 5xx, 429) are retried
+ * with exponential backoff. The agent execution of the whole test case, retries
+ * included, is limited by a wall-clock timeout (0 disables it); on timeout the
+ * connector's signal is aborted and the report fails with a timeoutReason.
+ * Likewise, a trajectory that outgrows the budget's step or tool call limit
+ * aborts the agent and fails the report with a budgetExceededReason.
+ * With the record option, the raw events of each successful agent call are
+ * captured with their timing, for the replay connector to play back.
  *
  * @param agent - Agent configuration
  * @param modelId - Model ID to use
@@ -117,74 +429,227 @@ export async function runEvaluationWithConnector(
   onStep: (step: TrajectoryStep) => void,
   options: RunEvaluationWithConnectorOptions
 ): Promise<EvaluationReport> {
-  const { registry: connectorRegistry, onRawEvent } = options;
+  const { registry: connectorRegistry, onRawEvent, judgeEnsemble, execution = {}, budget, signal: callerSignal, record } = options;
+  const timeoutMs = execution.timeout ?? DEFAULT_CONFIG.defaults.timeout_ms;
+  const retries = execution.retries ?? DEFAULT_CONFIG.defaults.retry_attempts;
+  const retryDelay = execution.retryDelay ?? DEFAULT_CONFIG.defaults.retry_delay_ms;
 
   const reportId = uuidv4();
   let fullTrajectory: TrajectoryStep[] = [];
   let rawEvents: any[] = [];
   let agentRunId: string | null = null;
+  let turns: ConversationTurn[] = [];
+  const turnTestCases: TestCase[] = [];
+  // Steps streamed by the current agent call, kept for the report if it is cut off
+  let streamedSteps: TrajectoryStep[] = [];
+  let executionAttempts = 0;
+  let timeoutReason: string | undefined;
+  let budgetExceededReason: string | undefined;
+  let tokenUsage: TokenUsage | undefined;
+  const exchanges: CassetteExchange[] = [];
 
   debug('Eval', 'Config:', { agent: agent.name, model: modelId, testCase: testCase.id });
 
   const evalStartTime = Date.now();
+  const abortController = new AbortController();
+  const timeoutId = timeoutMs > 0
+    ? setTimeout(() => {
+      timeoutReason = `Test case timed out after ${timeoutMs}ms`;
+      abortController.abort(new Error(timeoutReason));
+    }, timeoutMs)
+    : undefined;
+  const abortFromCaller = () => abortController.abort(callerSignal?.reason);
+  if (callerSignal?.aborted) abortFromCaller();
+  callerSignal?.addEventListener('abort', abortFromCaller, { once: true });
+  const { signal } = abortController;
 
   try {
     // Get connector for this agent
     const agentWithConnector = agent as AgentConfigWithConnector;
     const connector = connectorRegistry.getForAgent(agentWithConnector);
 
-    // Build connector request
-    let request: ConnectorRequest = {
-      testCase,
-      modelId,
-    };
-
     // Build auth from agent config
     const auth = buildConnectorAuth(agent);
 
-    // Execute beforeRequest hook if defined
-    let effectiveEndpoint = agent.endpoint;
-    if (agent.hooks?.beforeRequest) {
-      const previewPayload = connector.buildPayload(request);
-
-      const hookContext: BeforeRequestContext = {
-        endpoint: agent.endpoint,
-        payload: previewPayload,
-        headers: auth.headers || agent.headers || {},
-      };
-      const hookResult = await executeBeforeRequestHook(agent.hooks, hookContext, agent.key);
-      effectiveEndpoint = hookResult.endpoint;
-
-      // Pass the hook-modified payload through to the connector so it skips
-      // its internal buildPayload() call. This preserves ALL modifications the
-      // hook made to the payload (threadId, runId, custom fields, etc.)
-      request = {
-        ...request,
-        payload: hookResult.payload,
+    // Execute one conversation turn, running the beforeRequest hook first if defined
+    const executeTurn = async (turnRequest: ConnectorRequest) => {
+      let request: ConnectorRequest = {
+        ...turnRequest,
+        ...(agent.connectorConfig && { connectorConfig: agent.connectorConfig }),
       };
+      let effectiveEndpoint = agent.endpoint;
+      if (agent.hooks?.beforeRequest) {
+        const previewPayload = connector.buildPayload(request);
+
+        const hookContext: BeforeRequestContext = {
+          endpoint: agent.endpoint,
+          payload: previewPayload,
+          headers: auth.headers || agent.headers || {},
+        };
+        const hookResult = await executeBeforeRequestHook(agent.hooks, hookContext, agent.key);
+        effectiveEndpoint = hookResult.endpoint;
+
+        // Pass the hook-modified payload through to the connector so it skips
+        // its internal buildPayload() call. This preserves ALL modifications the
+        // hook made to the payload (threadId, runId, custom fields, etc.)
+        request = {
+          ...request,
+          payload: hookResult.payload,
+        };
+
+        // Merge any hook-modified headers into auth
+        if (hookResult.headers) {
+          auth.headers = { ...auth.headers, ...hookResult.headers };
+        }
+      }
 
-      // Merge any hook-modified headers into auth
-      if (hookResult.headers) {
-        auth.headers = { ...auth.headers, ...hookResult.headers };
+      // Execute via connector, retrying retryable failures until the test case times out
+      for (let retry = 0; ; retry++) {
+        executionAttempts++;
+        streamedSteps = [];
+        const callStartTime = Date.now();
+        const recordedEvents: RecordedRawEvent[] = [];
+        try {
+          const result = await raceAbort(
+            connector.execute(
+              effectiveEndpoint,
+              { ...request, signal },
+              auth,
+              (step) => {
+                streamedSteps.push(step);
+                onStep(step);
+                const violation = getTestCaseBudgetViolation(budget, [...fullTrajectory, ...streamedSteps]);
+                if (violation && !signal.aborted) {
+                  budgetExceededReason = violation;
+                  abortController.abort(new Error(violation));
+                }
+              },
+              record
+                ? (event) => {
+                  recordedEvents.push({ offsetMs: Date.now() - callStartTime, event });
+                  onRawEvent?.(event);
+                }
+                : onRawEvent
+            ),
+            signal
+          );
+
+          if (result.usage) {
+            tokenUsage = {
+              inputTokens: (tokenUsage?.inputTokens ?? 0) + result.usage.inputTokens,
+              outputTokens: (tokenUsage?.outputTokens ?? 0) + result.usage.outputTokens,
+              modelId: result.usage.modelId ?? tokenUsage?.modelId,
+            };
+          }
+
+          // Connectors that don't stream steps are checked once they return
+          const violation = getTestCaseBudgetViolation(budget, [...fullTrajectory, ...result.trajectory]);
+          if (violation) {
+            budgetExceededReason = violation;
+            streamedSteps = result.trajectory;
+            throw new Error(violation);
+          }
+
+          if (record) {
+            const durationMs = Date.now() - callStartTime;
+            exchanges.push({
+              runId: result.runId,
+              durationMs,
+              // Connectors that don't report raw events as they arrive only return them
+              rawEvents: recordedEvents.length > 0
+                ? recordedEvents
+                : (result.rawEvents || []).map(event => ({ offsetMs: durationMs, event })),
+              metadata: result.metadata,
+              usage: result.usage,
+            });
+          }
+          return { result, payload: request.payload };
+        } catch (error) {
+          if (signal.aborted || budgetExceededReason || retry >= retries || !isRetryableError(error)) throw error;
+          const delayMs = getRetryDelay(retry + 1, retryDelay);
+          debug('Eval', `Agent call failed (${error instanceof Error ? error.message : error}), retry ${retry + 1}/${retries} in ${delayMs}ms`);
+          await waitForRetry(delayMs, signal);
+        }
       }
-    }
+    };
 
-    // Execute via connector
-    const result = await connector.execute(
-      effectiveEndpoint,
-      request,
-      auth,
-      onStep,
-      onRawEvent
-    );
+    const followUps = testCase.followUpQuestions ?? [];
 
-    fullTrajectory = result.trajectory;
-    agentRunId = result.runId;
-    rawEvents = result.rawEvents || [];
+    if (followUps.length === 0) {
+      const { result } = await executeTurn({ testCase, modelId });
+      fullTrajectory = result.trajectory;
+      agentRunId = result.runId;
+      rawEvents = result.rawEvents || [];
+    } else {
+      // MULTI-TURN: continue on one thread, firing follow-ups whose trigger
+      // matches the previous turn's outcome
+      let threadId = `thread-${uuidv4()}`;
+      const messages: AgentMessage[] = [buildAgentMessage('user', testCase.initialPrompt)];
+      const usedFollowUps = new Set<number>();
+      let trigger: FollowUpTrigger | undefined;
+      let turnTestCase = testCase;
+
+      while (true) {
+        const turnStartTime = Date.now();
+        const { result, payload } = await executeTurn({ testCase, modelId, threadId, messages: [...messages] });
+
+        // Keep any thread the beforeRequest hook assigned
+        if (turns.length === 0 && typeof payload?.threadId === 'string') {
+          threadId = payload.threadId;
+        }
+
+        const outcome = classifyTurnOutcome(result.trajectory);
+        turns.push({
+          turn: turns.length + 1,
+          prompt: messages[messages.length - 1].content,
+          trigger,
+          outcome,
+          trajectory: result.trajectory,
+          durationMs: Date.now() - turnStartTime,
+        });
+        turnTestCases.push(turnTestCase);
+        fullTrajectory = [...fullTrajectory, ...result.trajectory];
+        rawEvents = [...rawEvents, ...(result.rawEvents || [])];
+        agentRunId = agentRunId ?? result.runId;
+
+        const next = selectFollowUp(followUps, outcome, usedFollowUps);
+        if (next === -1) break;
+
+        usedFollowUps.add(next);
+        trigger = followUps[next].trigger;
+        turnTestCase = buildFollowUpTestCase(testCase, followUps[next]);
+        debug('Eval', `Turn ${turns.length} ${outcome}, sending follow-up:`, followUps[next].question);
+        messages.push(
+          buildAgentMessage('assistant', getTurnReply(result.trajectory)),
+          buildAgentMessage('user', followUps[next].question)
+        );
+      }
+    }
+
+    // The timeout only covers the agent; judging may take as long as it needs
+    clearTimeout(timeoutId);
+    callerSignal?.removeEventListener('abort', abortFromCaller);
 
     debug('Eval', 'Trajectory captured:', fullTrajectory.length, 'steps');
     debug('Eval', 'Raw events captured:', rawEvents.length);
 
+    // Replaying a cassette doesn't record a new one
+    if (record && connector.type !== 'replay') {
+      try {
+        await record({
+          testCaseId: testCase.id,
+          testCaseVersion: testCase.currentVersion ?? 1,
+          agentKey: agent.key,
+          connectorType: connector.type,
+          modelId,
+          recordedAt: new Date().toISOString(),
+          exchanges,
+        });
+      } catch (error) {
+        console.error('[Eval] Failed to record cassette:', error instanceof Error ? error.message : error);
+      }
+    }
+
     // TRACE MODE: Skip logs fetch and judge, return pending report
     if (agent.useTraces) {
       return {
@@ -196,6 +661,7 @@ export async function runEvaluationWithConnector(
         modelId: modelId,
         testCaseId: testCase.id,
         testCaseVersion: testCase.currentVersion ?? 1,
+        rubric: testCase.rubric,
         status: 'completed',
         metricsStatus: 'pending',
         trajectory: fullTrajectory,
@@ -207,46 +673,25 @@ export async function runEvaluationWithConnector(
         },
         llmJudgeReasoning: 'Waiting for traces to become available...',
         improvementStrategies: [],
+        turns: turns.length > 0 ? turns : undefined,
         runId: agentRunId || undefined,
         rawEvents,
         connectorProtocol: connector.type as ConnectorProtocol,
+        executionAttempts,
+        tokenUsage,
       };
     }
 
-    // STANDARD MODE: Call judge
-    const models = getModels();
-    const modelConfig = models[modelId];
-    const judgeModelId = modelConfig?.model_id || modelId;
-    const judgeStartTime = Date.now();
-    const judgment = await callBedrockJudge(
-      fullTrajectory,
-      {
-        expectedOutcomes: testCase.expectedOutcomes,
-        expectedTrajectory: testCase.expectedTrajectory,
-      },
-      undefined, // No logs in direct connector mode
-      (chunk) => debug('Eval', 'Judge progress:', chunk.slice(0, 100)),
-      judgeModelId
+    // STANDARD MODE: Run assertions and call judge on the whole conversation
+    const judgment = await judgeTrajectory(
+      testCase, modelId, fullTrajectory, undefined, Date.now() - evalStartTime, judgeEnsemble
     );
-    const judgeLatencyMs = Date.now() - judgeStartTime;
 
-    debug('Eval', 'Metrics:', judgment.metrics);
-
-    const llmJudgeResponse: LLMJudgeResponse = {
-      modelId: judgeModelId,
-      timestamp: new Date().toISOString(),
-      promptTokens: 0,
-      completionTokens: 0,
-      latencyMs: judgeLatencyMs,
-      rawResponse: judgment.llmJudgeReasoning,
-      parsedMetrics: {
-        accuracy: judgment.metrics.accuracy,
-        faithfulness: judgment.metrics.faithfulness,
-        latency_score: judgment.metrics.latency_score,
-        trajectory_alignment_score: judgment.metrics.trajectory_alignment_score,
-      },
-      improvementStrategies: judgment.improvementStrategies,
-    };
+    // Multi-turn runs also judge each turn; any failed turn fails the run
+    if (turns.length > 0) {
+      turns = await judgeTurns(turns, turnTestCases, modelId, judgeEnsemble);
+      judgment.passFailStatus = combineTurnStatus(judgment.passFailStatus, turns);
+    }
 
     return {
       id: reportId,
@@ -257,18 +702,27 @@ export async function runEvaluationWithConnector(
       modelId,
       testCaseId: testCase.id,
       testCaseVersion: testCase.currentVersion ?? 1,
+      rubric: testCase.rubric,
       status: 'completed',
       passFailStatus: judgment.passFailStatus,
       trajectory: fullTrajectory,
       metrics: judgment.metrics,
       llmJudgeReasoning: judgment.llmJudgeReasoning,
       improvementStrategies: judgment.improvementStrategies,
-      llmJudgeResponse,
+      llmJudgeResponse: judgment.llmJudgeResponse,
+      judgeResponses: judgment.judgeResponses,
+      judgeAgreement: judgment.judgeAgreement,
+      assertionResults: judgment.assertionResults,
+      turns: turns.length > 0 ? turns : undefined,
       runId: agentRunId || undefined,
       rawEvents,
       connectorProtocol: connector.type as ConnectorProtocol,
+      executionAttempts,
+      tokenUsage,
     };
   } catch (error) {
+    clearTimeout(timeoutId);
+    callerSignal?.removeEventListener('abort', abortFromCaller);
     console.error('[Eval] Error:', error instanceof Error ? error.message : error);
 
     // Get connector type for error case (may not be available if error was in getting connector)
@@ -290,8 +744,10 @@ export async function runEvaluationWithConnector(
       modelId,
       testCaseId: testCase.id,
       testCaseVersion: testCase.currentVersion ?? 1,
+      rubric: testCase.rubric,
       status: 'failed',
-      trajectory: fullTrajectory,
+      // A call cut off by the timeout or budget keeps the steps it streamed
+      trajectory: timeoutReason || budgetExceededReason ? [...fullTrajectory, ...streamedSteps] : fullTrajectory,
       metrics: {
         accuracy: 0,
         faithfulness: 0,
@@ -300,8 +756,13 @@ export async function runEvaluationWithConnector(
       },
       llmJudgeReasoning: `Evaluation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
       improvementStrategies: [],
+      turns: turns.length > 0 ? turns : undefined,
       rawEvents,
       connectorProtocol: connectorType,
+      executionAttempts: executionAttempts || undefined,
+      timeoutReason,
+      budgetExceededReason,
+      tokenUsage,
     };
   }
 }
@@ -411,6 +872,7 @@ export async function runEvaluation(
         modelId: modelId,
         testCaseId: testCase.id,
         testCaseVersion: testCase.currentVersion ?? 1,
+        rubric: testCase.rubric,
         status: 'completed',
         metricsStatus: 'pending', // Will be updated after traces are available
         trajectory: fullTrajectory,
@@ -437,40 +899,8 @@ export async function runEvaluation(
       }
     }
 
-    // Call judge
-    const models = getModels();
-    const modelConfig = models[modelId];
-    const judgeModelId = modelConfig?.model_id || modelId;
-    const judgeStartTime = Date.now();
-    const judgment = await callBedrockJudge(
-      fullTrajectory,
-      {
-        expectedOutcomes: testCase.expectedOutcomes,
-        expectedTrajectory: testCase.expectedTrajectory,
-      },
-      logs,
-      (chunk) => debug('Eval', 'Judge progress:', chunk.slice(0, 100)),
-      judgeModelId
-    );
-    const judgeLatencyMs = Date.now() - judgeStartTime;
-
-    debug('Eval', 'Metrics:', judgment.metrics);
-
-    const llmJudgeResponse: LLMJudgeResponse = {
-      modelId: judgeModelId,
-      timestamp: new Date().toISOString(),
-      promptTokens: 0,
-      completionTokens: 0,
-      latencyMs: judgeLatencyMs,
-      rawResponse: judgment.llmJudgeReasoning,
-      parsedMetrics: {
-        accuracy: judgment.metrics.accuracy,
-        faithfulness: judgment.metrics.faithfulness,
-        latency_score: judgment.metrics.latency_score,
-        trajectory_alignment_score: judgment.metrics.trajectory_alignment_score,
-      },
-      improvementStrategies: judgment.improvementStrategies,
-    };
+    // Run assertions and call judge
+    const judgment = await judgeTrajectory(testCase, modelId, fullTrajectory, logs, Date.now() - evalStartTime);
 
     return {
       id: reportId,
@@ -481,13 +911,15 @@ export async function runEvaluation(
       modelId,
       testCaseId: testCase.id,
       testCaseVersion: testCase.currentVersion ?? 1,
+      rubric: testCase.rubric,
       status: 'completed',
       passFailStatus: judgment.passFailStatus,
       trajectory: fullTrajectory,
       metrics: judgment.metrics,
       llmJudgeReasoning: judgment.llmJudgeReasoning,
       improvementStrategies: judgment.improvementStrategies,
-      llmJudgeResponse,
+      llmJudgeResponse: judgment.llmJudgeResponse,
+      assertionResults: judgment.assertionResults,
       openSearchLogs: logs,
       runId: agentRunId || undefined,
       logs: logs || undefined,
@@ -505,6 +937,7 @@ export async function runEvaluation(
       modelId,
       testCaseId: testCase.id,
       testCaseVersion: testCase.currentVersion ?? 1,
+      rubric: testCase.rubric,
       status: 'failed',
       trajectory: fullTrajectory,
       metrics: {
@@ -0,0 +1,111 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Pairwise Judge Client
+ * Compares two benchmark runs head-to-head via the backend pairwise judge
+ */
+
+import {
+  BenchmarkRun,
+  EvaluationReport,
+  JudgeRubric,
+  PairwiseComparisonRow,
+  PairwiseJudgment,
+  TestCase,
+  TrajectoryStep,
+} from '@/types';
+import { ENV_CONFIG } from '@/lib/config';
+import { toPairwiseOutcome } from '@/lib/pairwiseJudge';
+
+export interface PairwiseJudgeInput {
+  /** Baseline trajectory */
+  trajectoryA: TrajectoryStep[];
+  /** Candidate trajectory */
+  trajectoryB: TrajectoryStep[];
+  prompt?: string;
+  expectedOutcomes?: string[];
+  expectedTrajectory?: any[];
+  rubric?: JudgeRubric;
+}
+
+/**
+ * Judge one pair of trajectories (the backend judges both orders)
+ * @param input - Baseline (A) and candidate (B) trajectories with the expected behavior
+ * @param modelId - Judge model key (determines provider routing)
+ */
+export async function callPairwiseJudge(input: PairwiseJudgeInput, modelId?: string): Promise<PairwiseJudgment> {
+  const judgeApiUrl = ENV_CONFIG.judgeApiUrl || 'http://localhost:4001/api/judge';
+
+  const response = await fetch(`${judgeApiUrl}/pairwise`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...input, modelId }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Pairwise judge request failed with status ${response.status}`);
+  }
+
+  return response.json();
+}
+
+export interface PairwiseComparisonOptions {
+  baselineRun: BenchmarkRun;
+  candidateRun: BenchmarkRun;
+  reports: Record<string, EvaluationReport>;
+  /** Test cases of the benchmark (for the prompt, expected outcomes, and names) */
+  testCases: TestCase[];
+  /** Judge model key */
+  modelId?: string;
+  /** Called with all rows so far after each test case */
+  onProgress?: (rows: PairwiseComparisonRow[]) => void;
+}
+
+/**
+ * Judge every test case both runs completed, one test case at a time
+ * Test cases missing a trajectory in either run, or whose judge call fails,
+ * get a row with an error and no outcome.
+ */
+export async function runPairwiseComparison(options: PairwiseComparisonOptions): Promise<PairwiseComparisonRow[]> {
+  const { baselineRun, candidateRun, reports, testCases, modelId, onProgress } = options;
+  const rows: PairwiseComparisonRow[] = [];
+
+  const testCaseIds = Object.keys(baselineRun.results || {})
+    .filter(id => candidateRun.results?.[id]);
+
+  for (const testCaseId of testCaseIds) {
+    const testCase = testCases.find(tc => tc.id === testCaseId);
+    const row: PairwiseComparisonRow = { testCaseId, testCaseName: testCase?.name || testCaseId };
+    const baseline = reports[baselineRun.results[testCaseId].reportId];
+    const candidate = reports[candidateRun.results[testCaseId].reportId];
+
+    if (!baseline?.trajectory?.length || !candidate?.trajectory?.length) {
+      row.error = 'No trajectory to compare in both runs';
+    } else {
+      try {
+        row.judgment = await callPairwiseJudge({
+          trajectoryA: baseline.trajectory,
+          trajectoryB: candidate.trajectory,
+          prompt: testCase?.initialPrompt,
+          expectedOutcomes: testCase?.expectedOutcomes,
+          expectedTrajectory: testCase?.expectedTrajectory,
+          rubric: baseline.rubric ?? testCase?.rubric,
+        }, modelId);
+        row.outcome = toPairwiseOutcome(row.judgment.winner);
+      } catch (error) {
+        row.error = error instanceof Error ? error.message : 'Pairwise judge failed';
+      }
+    }
+
+    rows.push(row);
+    onProgress?.([...rows]);
+  }
+
+  return rows;
+}
@@ -0,0 +1,44 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Bedrock Judge
+ * Evaluates trajectories with Claude models on AWS Bedrock
+ */
+
+import { comparePairWithBedrock, evaluateTrajectory, parseBedrockError } from '@/server/services/bedrockService';
+import type {
+  JudgeProvider,
+  JudgeRequest,
+  JudgeResult,
+  JudgeEvaluateOptions,
+  PairwiseJudgeRequest,
+  PairwiseJudgeResult,
+} from '@/services/judges/types';
+
+/**
+ * Bedrock judge (default provider)
+ */
+export class BedrockJudge implements JudgeProvider {
+  readonly type = 'bedrock' as const;
+  readonly name = 'Bedrock';
+
+  async evaluate(request: JudgeRequest, options: JudgeEvaluateOptions): Promise<JudgeResult> {
+    return evaluateTrajectory(request, options.modelId);
+  }
+
+  async comparePair(request: PairwiseJudgeRequest, options: JudgeEvaluateOptions): Promise<PairwiseJudgeResult> {
+    return comparePairWithBedrock(request, options.modelId);
+  }
+
+  formatError(error: Error): string {
+    return parseBedrockError(error);
+  }
+}
+
+/**
+ * Default instance for convenience
+ */
+export const bedrockJudge = new BedrockJudge();
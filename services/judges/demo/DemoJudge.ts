@@ -0,0 +1,121 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Demo Judge
+ * Returns a simulated evaluation without calling an LLM
+ */
+
+import type { PassFailStatus } from '@/types';
+import type {
+  JudgeProvider,
+  JudgeRequest,
+  JudgeResult,
+  PairwiseJudgeRequest,
+  PairwiseJudgeResult,
+} from '@/services/judges/types';
+
+/**
+ * Generate mock evaluation result for demo mode
+ */
+export function generateMockEvaluation(trajectory: any[], expectedOutcomes?: string[]): JudgeResult {
+  // Simulate realistic evaluation based on trajectory content
+  const hasToolCalls = trajectory.some((step: any) => step.type === 'action' || step.toolName);
+  const hasConclusion = trajectory.some((step: any) =>
+    step.type === 'response' || (step.content && step.content.toLowerCase().includes('root cause'))
+  );
+
+  // Base accuracy on trajectory quality
+  let accuracy = 0.7;
+  if (hasToolCalls) accuracy += 0.1;
+  if (hasConclusion) accuracy += 0.1;
+  accuracy = Math.min(accuracy + (Math.random() * 0.1), 1.0);
+
+  const passFailStatus: PassFailStatus = accuracy >= 0.7 ? 'passed' : 'failed';
+
+  const accuracyPct = Math.round(accuracy * 100);
+  return {
+    passFailStatus,
+    metrics: {
+      accuracy: accuracyPct,
+      faithfulness: Math.round((accuracy - 0.05 + Math.random() * 0.1) * 100),
+      latency_score: Math.round((0.8 + Math.random() * 0.2) * 100),
+      trajectory_alignment_score: Math.round((accuracy - 0.1 + Math.random() * 0.2) * 100),
+    },
+    llmJudgeReasoning: `**Mock Evaluation Result**
+
+The agent demonstrated ${passFailStatus === 'passed' ? 'appropriate' : 'incomplete'} RCA methodology:
+
+${hasToolCalls ? '✅ Used diagnostic tools to gather system information' : '❌ Did not use diagnostic tools'}
+${hasConclusion ? '✅ Provided a clear root cause identification' : '❌ Missing clear root cause conclusion'}
+
+**Expected Outcomes Coverage:**
+${expectedOutcomes?.map((outcome, i) => `${i + 1}. "${outcome.substring(0, 50)}..." - ${Math.random() > 0.3 ? '✅ Addressed' : '⚠️ Partially addressed'}`).join('\n') || 'No expected outcomes provided'}
+
+*Note: This is a simulated evaluation for demo purposes.*`,
+    improvementStrategies: passFailStatus === 'failed' ? [
+      {
+        category: 'Tool Usage',
+        issue: 'Insufficient diagnostic tool usage',
+        recommendation: 'Consider using more diagnostic tools before drawing conclusions',
+        priority: 'high'
+      },
+      {
+        category: 'Analysis Depth',
+        issue: 'Reasoning could be more detailed',
+        recommendation: 'Provide more detailed reasoning connecting observations to root cause',
+        priority: 'medium'
+      }
+    ] : []
+  };
+}
+
+/**
+ * Generate a mock pairwise comparison: the trajectory with a conclusion and
+ * diagnostic tool calls wins, otherwise it's a tie
+ */
+export function generateMockComparison(first: any[], second: any[]): PairwiseJudgeResult {
+  const hasConclusion = (trajectory: any[]) => trajectory.some((step: any) => step.type === 'response');
+  const hasToolCalls = (trajectory: any[]) => trajectory.some((step: any) => step.type === 'action' || step.toolName);
+  const score = (trajectory: any[]) => (hasConclusion(trajectory) ? 2 : 0) + (hasToolCalls(trajectory) ? 1 : 0);
+
+  const [scoreA, scoreB] = [score(first), score(second)];
+  const winner = scoreA === scoreB ? 'tie' : scoreA > scoreB ? 'A' : 'B';
+  const decidedByConclusion = hasConclusion(first) !== hasConclusion(second);
+
+  return {
+    winner,
+    reasoning: `**Mock Comparison Result**
+
+${winner === 'tie'
+    ? 'Both responses follow the same RCA methodology.'
+    : `Response ${winner} ${decidedByConclusion ? 'provides a clear root cause conclusion' : 'uses diagnostic tools to gather evidence'}.`}
+
+*Note: This is a simulated comparison for demo purposes.*`,
+  };
+}
+
+/**
+ * Demo judge for the demo model and CI-friendly tests
+ */
+export class DemoJudge implements JudgeProvider {
+  readonly type = 'demo' as const;
+  readonly name = 'Demo';
+
+  async evaluate(request: JudgeRequest): Promise<JudgeResult> {
+    console.log('[JudgeAPI] Demo provider - returning mock evaluation');
+    return generateMockEvaluation(request.trajectory, request.expectedOutcomes);
+  }
+
+  async comparePair(request: PairwiseJudgeRequest): Promise<PairwiseJudgeResult> {
+    console.log('[JudgeAPI] Demo provider - returning mock comparison');
+    return generateMockComparison(request.first, request.second);
+  }
+}
+
+/**
+ * Default instance for convenience
+ */
+export const demoJudge = new DemoJudge();
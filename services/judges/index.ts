@@ -0,0 +1,51 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Judge System
+ * Provides a pluggable abstraction for LLM judge providers
+ *
+ * Built-in judges call server-side provider services (AWS SDK, local HTTP),
+ * so this module must only be imported from server/CLI code.
+ */
+
+// ============ Type Exports ============
+export type {
+  JudgeRequest,
+  JudgeResult,
+  JudgeEvaluateOptions,
+  PairwiseJudgeRequest,
+  PairwiseJudgeResult,
+  JudgeProvider,
+  ResolvedJudge,
+  JudgeRegistry,
+} from './types';
+
+// ============ Registry Exports ============
+export {
+  judgeRegistry,
+  getJudgeForModel,
+  registerJudge,
+} from './registry';
+
+// ============ Built-in Judge Exports ============
+export { DemoJudge, demoJudge, generateMockEvaluation } from './demo/DemoJudge';
+export { BedrockJudge, bedrockJudge } from './bedrock/BedrockJudge';
+export { OpenAIJudge, openaiJudge } from './openai/OpenAIJudge';
+export { OllamaJudge, ollamaJudge } from './ollama/OllamaJudge';
+
+// ============ Auto-register Built-in Judges ============
+import { judgeRegistry } from './registry';
+import { demoJudge } from './demo/DemoJudge';
+import { bedrockJudge } from './bedrock/BedrockJudge';
+import { openaiJudge } from './openai/OpenAIJudge';
+import { ollamaJudge } from './ollama/OllamaJudge';
+
+// Register built-in judges on module load
+// Custom judges from config `judges: [...]` are registered when the server starts
+judgeRegistry.register(demoJudge);
+judgeRegistry.register(bedrockJudge);
+judgeRegistry.register(openaiJudge);
+judgeRegistry.register(ollamaJudge);
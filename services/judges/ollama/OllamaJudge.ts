@@ -0,0 +1,48 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Ollama Judge
+ * Evaluates trajectories with a local Ollama model for offline evaluation
+ */
+
+import { comparePairWithOllama, evaluateTrajectoryWithOllama, parseOllamaError } from '@/server/services/ollamaService';
+import type {
+  JudgeProvider,
+  JudgeRequest,
+  JudgeResult,
+  JudgeEvaluateOptions,
+  PairwiseJudgeRequest,
+  PairwiseJudgeResult,
+} from '@/services/judges/types';
+
+/**
+ * Ollama judge
+ */
+export class OllamaJudge implements JudgeProvider {
+  readonly type = 'ollama' as const;
+  readonly name = 'Ollama';
+
+  async evaluate(request: JudgeRequest, options: JudgeEvaluateOptions): Promise<JudgeResult> {
+    return evaluateTrajectoryWithOllama(request, options.modelId ?? '', {
+      baseUrl: options.modelConfig?.base_url,
+    });
+  }
+
+  async comparePair(request: PairwiseJudgeRequest, options: JudgeEvaluateOptions): Promise<PairwiseJudgeResult> {
+    return comparePairWithOllama(request, options.modelId ?? '', {
+      baseUrl: options.modelConfig?.base_url,
+    });
+  }
+
+  formatError(error: Error): string {
+    return parseOllamaError(error);
+  }
+}
+
+/**
+ * Default instance for convenience
+ */
+export const ollamaJudge = new OllamaJudge();
@@ -0,0 +1,48 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * OpenAI-compatible Judge
+ * Evaluates trajectories via any OpenAI-compatible chat-completions endpoint
+ */
+
+import { comparePairWithOpenAI, evaluateTrajectoryWithOpenAI, parseOpenAIError } from '@/server/services/openaiService';
+import type {
+  JudgeProvider,
+  JudgeRequest,
+  JudgeResult,
+  JudgeEvaluateOptions,
+  PairwiseJudgeRequest,
+  PairwiseJudgeResult,
+} from '@/services/judges/types';
+
+/**
+ * OpenAI-compatible judge (OpenAI, Azure OpenAI, vLLM, LiteLLM)
+ */
+export class OpenAIJudge implements JudgeProvider {
+  readonly type = 'openai' as const;
+  readonly name = 'OpenAI';
+
+  async evaluate(request: JudgeRequest, options: JudgeEvaluateOptions): Promise<JudgeResult> {
+    return evaluateTrajectoryWithOpenAI(request, options.modelId ?? '', {
+      baseUrl: options.modelConfig?.base_url,
+    });
+  }
+
+  async comparePair(request: PairwiseJudgeRequest, options: JudgeEvaluateOptions): Promise<PairwiseJudgeResult> {
+    return comparePairWithOpenAI(request, options.modelId ?? '', {
+      baseUrl: options.modelConfig?.base_url,
+    });
+  }
+
+  formatError(error: Error): string {
+    return parseOpenAIError(error);
+  }
+}
+
+/**
+ * Default instance for convenience
+ */
+export const openaiJudge = new OpenAIJudge();
@@ -0,0 +1,127 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { JudgeProviderType, ModelConfig } from '@/types';
+import type {
+  JudgeProvider,
+  JudgeRegistry,
+  ResolvedJudge,
+} from '@/services/judges/types';
+
+/**
+ * Default judge provider for models without explicit provider
+ */
+const DEFAULT_JUDGE_TYPE: JudgeProviderType = 'bedrock';
+
+/**
+ * Implementation of JudgeRegistry
+ * Manages registration and lookup of judge implementations
+ */
+class JudgeRegistryImpl implements JudgeRegistry {
+  private judges: Map<JudgeProviderType, JudgeProvider> = new Map();
+
+  /**
+   * Register a judge implementation
+   * Registering a type that already exists replaces the previous judge
+   */
+  register(judge: JudgeProvider): void {
+    if (this.judges.has(judge.type)) {
+      console.warn(
+        `[JudgeRegistry] Overwriting existing judge for type: ${judge.type}`
+      );
+    }
+    this.judges.set(judge.type, judge);
+  }
+
+  /**
+   * Get a judge by provider type
+   */
+  get(type: JudgeProviderType): JudgeProvider | undefined {
+    return this.judges.get(type);
+  }
+
+  /**
+   * Get all registered judges
+   */
+  getAll(): JudgeProvider[] {
+    return Array.from(this.judges.values());
+  }
+
+  /**
+   * Check if a judge is registered
+   */
+  has(type: JudgeProviderType): boolean {
+    return this.judges.has(type);
+  }
+
+  /**
+   * Get judge for a model key or model ID
+   *
+   * Resolution order:
+   * 1. Look up model config by key
+   * 2. Look up model config by model_id (full provider model IDs)
+   * 3. Use the model's provider, defaulting to 'bedrock'
+   *
+   * Unlike connectors there is no fallback judge: scoring with a different
+   * provider than configured would silently produce incomparable results.
+   *
+   * @throws Error if no judge is registered for the resolved provider
+   */
+  getForModel(modelId: string | undefined, models: Record<string, ModelConfig>): ResolvedJudge {
+    let modelConfig = modelId ? models[modelId] : undefined;
+    if (!modelConfig && modelId) {
+      modelConfig = Object.values(models).find(m => m.model_id === modelId);
+    }
+
+    const type = modelConfig?.provider || DEFAULT_JUDGE_TYPE;
+    const judge = this.get(type);
+
+    if (!judge) {
+      throw new Error(
+        `No judge registered for provider '${type}'. ` +
+        `Registered judges: ${this.getRegisteredTypes().join(', ') || 'none'}`
+      );
+    }
+
+    return {
+      judge,
+      modelId: modelConfig?.model_id || modelId,
+      modelConfig,
+    };
+  }
+
+  /**
+   * Clear all registered judges (useful for testing)
+   */
+  clear(): void {
+    this.judges.clear();
+  }
+
+  /**
+   * Get list of registered judge types
+   */
+  getRegisteredTypes(): JudgeProviderType[] {
+    return Array.from(this.judges.keys());
+  }
+}
+
+/**
+ * Singleton instance of the judge registry
+ */
+export const judgeRegistry = new JudgeRegistryImpl();
+
+/**
+ * Helper function to get judge for a model key or model ID
+ */
+export function getJudgeForModel(modelId: string | undefined, models: Record<string, ModelConfig>): ResolvedJudge {
+  return judgeRegistry.getForModel(modelId, models);
+}
+
+/**
+ * Helper function to register a judge
+ */
+export function registerJudge(judge: JudgeProvider): void {
+  judgeRegistry.register(judge);
+}
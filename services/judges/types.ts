@@ -0,0 +1,162 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  TrajectoryStep,
+  OpenSearchLog,
+  EvaluationMetrics,
+  ImprovementStrategy,
+  PassFailStatus,
+  ModelConfig,
+  JudgeProviderType,
+  JudgeRubric,
+  PairwiseWinner,
+} from '@/types';
+
+// ============ Request/Response Types ============
+
+/**
+ * Standard request format for judge evaluation
+ */
+export interface JudgeRequest {
+  trajectory: TrajectoryStep[];
+  expectedOutcomes?: string[];
+  expectedTrajectory?: any[];
+  logs?: OpenSearchLog[];
+  /** Custom grading rubric (replaces the built-in guidelines) */
+  rubric?: JudgeRubric;
+}
+
+/**
+ * Standard result format from judge evaluation
+ */
+export interface JudgeResult {
+  passFailStatus: PassFailStatus;
+  metrics: EvaluationMetrics;
+  llmJudgeReasoning: string;
+  improvementStrategies: ImprovementStrategy[];
+  duration?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+/**
+ * Request to compare two trajectories for the same test case
+ * "first" is presented as Response A, "second" as Response B
+ */
+export interface PairwiseJudgeRequest {
+  first: TrajectoryStep[];
+  second: TrajectoryStep[];
+  /** The task both agents were given */
+  prompt?: string;
+  expectedOutcomes?: string[];
+  expectedTrajectory?: any[];
+  rubric?: JudgeRubric;
+}
+
+/**
+ * Result of one pairwise comparison, in presentation order
+ */
+export interface PairwiseJudgeResult {
+  winner: PairwiseWinner;
+  reasoning: string;
+  duration?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+/**
+ * Options passed to a judge for a single evaluation
+ */
+export interface JudgeEvaluateOptions {
+  /** Resolved provider model ID (model_id from config, or the raw ID if unknown) */
+  modelId?: string;
+  /** Full model config when the model is defined in config */
+  modelConfig?: ModelConfig;
+}
+
+// ============ Judge Interface ============
+
+/**
+ * Base judge interface - all judge providers must implement this
+ */
+export interface JudgeProvider {
+  /** Unique identifier matched against ModelConfig.provider */
+  readonly type: JudgeProviderType;
+
+  /** Human-readable name (used in logs and error messages) */
+  readonly name: string;
+
+  /**
+   * Evaluate an agent trajectory
+   * @param request - Trajectory and expected behavior
+   * @param options - Resolved model information
+   */
+  evaluate(request: JudgeRequest, options: JudgeEvaluateOptions): Promise<JudgeResult>;
+
+  /**
+   * Decide which of two trajectories is better (optional - needed for pairwise comparison)
+   * @param request - Both trajectories and the expected behavior
+   * @param options - Resolved model information
+   */
+  comparePair?(request: PairwiseJudgeRequest, options: JudgeEvaluateOptions): Promise<PairwiseJudgeResult>;
+
+  /**
+   * Convert a provider error into a user-facing message (optional)
+   */
+  formatError?(error: Error): string;
+}
+
+// ============ Registry Types ============
+
+/**
+ * Judge resolved for a model key or model ID
+ */
+export interface ResolvedJudge {
+  judge: JudgeProvider;
+  modelId?: string;
+  modelConfig?: ModelConfig;
+}
+
+/**
+ * Registry for judge implementations
+ * Allows code-level registration of new judges
+ */
+export interface JudgeRegistry {
+  /**
+   * Register a judge implementation
+   */
+  register(judge: JudgeProvider): void;
+
+  /**
+   * Get a judge by provider type
+   */
+  get(type: JudgeProviderType): JudgeProvider | undefined;
+
+  /**
+   * Get all registered judges
+   */
+  getAll(): JudgeProvider[];
+
+  /**
+   * Check if a judge is registered
+   */
+  has(type: JudgeProviderType): boolean;
+
+  /**
+   * Get judge for a model key or model ID (defaults to bedrock for unknown models)
+   */
+  getForModel(modelId: string | undefined, models: Record<string, ModelConfig>): ResolvedJudge;
+
+  /**
+   * Get list of registered judge types
+   */
+  getRegisteredTypes(): JudgeProviderType[];
+
+  /**
+   * Clear all registered judges (useful for testing)
+   */
+  clear(): void;
+}
@@ -0,0 +1,273 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Rejudge Service
+ *
+ * Re-scores stored runs with the current judge configuration without
+ * re-executing the agent. The replaced judgment is kept in judgeHistory.
+ */
+
+import type {
+  BenchmarkRun,
+  EvaluationReport,
+  JudgeHistoryEntry,
+  PassFailStatus,
+  TestCase,
+  TrajectoryStep,
+} from '@/types';
+import type { Client } from '@opensearch-project/opensearch';
+import {
+  getRunByIdWithClient,
+  getTestCaseVersionWithClient,
+  replaceRunWithClient,
+} from '@/server/services/storage';
+import { getSampleTestCase } from '@/cli/demo/sampleTestCases';
+import { validateJudgeEnsemble } from '@/lib/judgeEnsemble';
+import { rejudgeReport, type RejudgeOptions } from './evaluation';
+import { fetchTracesByRunIds } from './traces';
+import { spansToTrajectory } from './traces/spanTrajectory';
+
+export type { RejudgeOptions };
+
+/**
+ * Outcome of re-judging one stored run
+ */
+export type RejudgeOutcome =
+  | { status: 'rejudged'; run: EvaluationReport; previous: JudgeHistoryEntry }
+  | { status: 'skipped'; reason: string };
+
+/**
+ * Per-test-case result of a bulk re-judge
+ */
+export interface RejudgeResult {
+  testCaseId: string;
+  reportId: string;
+  /** Iteration of the report, for runs with iterations > 1 */
+  iteration?: number;
+  status: 'rejudged' | 'skipped' | 'failed';
+  passFailStatus?: PassFailStatus;
+  previousPassFailStatus?: PassFailStatus;
+  /** Skip reason or error message */
+  message?: string;
+}
+
+export interface BenchmarkRunRejudgeSummary {
+  benchmarkId: string;
+  runId: string;
+  rejudged: number;
+  skipped: number;
+  failed: number;
+  results: RejudgeResult[];
+}
+
+/**
+ * Validate re-judge options from a request body
+ * Returns error message if invalid, null if valid
+ */
+export function validateRejudgeOptions(options: any): string | null {
+  if (options?.modelId !== undefined && (typeof options.modelId !== 'string' || !options.modelId)) {
+    return 'modelId must be a non-empty string';
+  }
+  if (options?.judgeEnsemble !== undefined) {
+    return validateJudgeEnsemble(options.judgeEnsemble);
+  }
+  return null;
+}
+
+/**
+ * Why a stored run can't be re-judged right now (undefined if it can)
+ */
+export function getRejudgeSkipReason(run: EvaluationReport): string | undefined {
+  if (run.status === 'running') {
+    return 'Run is still executing';
+  }
+  if (run.status === 'failed') {
+    return 'Agent execution failed; there is nothing to judge';
+  }
+  if (run.metricsStatus === 'pending' || run.metricsStatus === 'calculating') {
+    return 'Run is still waiting for traces';
+  }
+  return undefined;
+}
+
+/**
+ * Trajectory to judge: the stored trajectory, else (for trace-mode runs)
+ * one rebuilt from the stored spans or the agent run's traces
+ */
+async function resolveTrajectory(run: any): Promise<TrajectoryStep[]> {
+  if (run.trajectory?.length) {
+    return run.trajectory;
+  }
+
+  if (run.spans?.length) {
+    return spansToTrajectory(run.spans);
+  }
+
+  if (run.metricsStatus !== undefined && run.traceId) {
+    const { spans } = await fetchTracesByRunIds([run.traceId]);
+    return spansToTrajectory(spans ?? []);
+  }
+
+  return [];
+}
+
+/**
+ * Load the test case version the run executed (sample test cases have only version 1)
+ */
+async function loadTestCase(client: Client, testCaseId: string, testCaseVersionId?: string): Promise<TestCase | null> {
+  const sample = getSampleTestCase(testCaseId);
+  if (sample) {
+    return sample as unknown as TestCase;
+  }
+
+  const version = parseInt(testCaseVersionId?.match(/-v(\d+)$/)?.[1] || '1');
+  return getTestCaseVersionWithClient(client, testCaseId, version);
+}
+
+/**
+ * Snapshot of a stored run's current judgment
+ */
+function toHistoryEntry(run: any, replacedAt: string): JudgeHistoryEntry {
+  const entry: JudgeHistoryEntry = {
+    judgeModelId: run.judgeModelId ?? run.modelId,
+    passFailStatus: run.passFailStatus,
+    metrics: run.metrics,
+    llmJudgeReasoning: run.llmJudgeReasoning,
+    replacedAt,
+  };
+  if (run.improvementStrategies !== undefined) entry.improvementStrategies = run.improvementStrategies;
+  if (run.assertionResults !== undefined) entry.assertionResults = run.assertionResults;
+  if (run.judgeResponses !== undefined) entry.judgeResponses = run.judgeResponses;
+  if (run.judgeAgreement !== undefined) entry.judgeAgreement = run.judgeAgreement;
+  if (run.rubric !== undefined) entry.rubric = run.rubric;
+  return entry;
+}
+
+/**
+ * Re-judge one stored run (storage document) and save the result
+ * Judgment fields the new judge doesn't produce (e.g. judgeResponses after
+ * switching from an ensemble to a single judge) are removed.
+ */
+export async function rejudgeStoredRun(
+  client: Client,
+  run: any,
+  options: RejudgeOptions = {}
+): Promise<RejudgeOutcome> {
+  const skipReason = getRejudgeSkipReason(run);
+  if (skipReason) {
+    return { status: 'skipped', reason: skipReason };
+  }
+
+  const trajectory = await resolveTrajectory(run);
+  if (trajectory.length === 0) {
+    return { status: 'skipped', reason: 'Run has no stored trajectory or spans to judge' };
+  }
+
+  const testCase = await loadTestCase(client, run.testCaseId, run.testCaseVersionId);
+  if (!testCase) {
+    return { status: 'skipped', reason: `Test case not found: ${run.testCaseId}` };
+  }
+
+  const updates = await rejudgeReport(run, testCase, trajectory, options);
+  const now = new Date().toISOString();
+  const previous = toHistoryEntry(run, now);
+
+  // A trace-mode run that failed to judge is now judged, so its error no longer applies
+  const doc: Record<string, unknown> = { ...run };
+  for (const field of ['judgeResponses', 'judgeAgreement', 'assertionResults', 'traceError'] as const) {
+    delete doc[field];
+  }
+  // llmJudgeResponse isn't part of the stored run
+  const { llmJudgeResponse: _llmJudgeResponse, ...storedUpdates } = updates;
+  for (const [key, value] of Object.entries(storedUpdates)) {
+    if (value !== undefined) doc[key] = value;
+  }
+  doc.judgeHistory = [...(run.judgeHistory ?? []), previous];
+
+  const saved = await replaceRunWithClient(client, run.id, doc);
+  console.log(`[Rejudge] Re-judged run ${run.id}: ${previous.passFailStatus ?? 'unjudged'} → ${updates.passFailStatus}`);
+
+  return { status: 'rejudged', run: saved, previous };
+}
+
+/**
+ * Re-judge one report of a benchmark run's test case
+ */
+async function rejudgeRunReport(
+  client: Client,
+  testCaseId: string,
+  reportId: string,
+  options: RejudgeOptions,
+  iteration?: number
+): Promise<RejudgeResult> {
+  const base = { testCaseId, reportId, ...(iteration !== undefined && { iteration }) };
+  try {
+    const run = await getRunByIdWithClient(client, reportId);
+    if (!run) {
+      return { ...base, status: 'skipped', message: 'Run not found' };
+    }
+
+    const outcome = await rejudgeStoredRun(client, run, options);
+    return outcome.status === 'rejudged'
+      ? {
+          ...base,
+          status: 'rejudged',
+          passFailStatus: outcome.run.passFailStatus,
+          previousPassFailStatus: outcome.previous.passFailStatus,
+        }
+      : { ...base, status: 'skipped', message: outcome.reason };
+  } catch (error) {
+    console.error(`[Rejudge] Failed to re-judge ${reportId}:`, error instanceof Error ? error.message : error);
+    return { ...base, status: 'failed', message: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Re-judge every completed test case run of a benchmark run, one at a time
+ * For runs with iterations, every iteration's report is re-judged, so pass@k
+ * and flakiness never mix verdicts of different judges.
+ */
+export async function rejudgeBenchmarkRun(
+  client: Client,
+  benchmarkId: string,
+  benchmarkRun: BenchmarkRun,
+  options: RejudgeOptions = {}
+): Promise<BenchmarkRunRejudgeSummary> {
+  const results: RejudgeResult[] = [];
+
+  for (const [testCaseId, result] of Object.entries(benchmarkRun.results || {})) {
+    if (result.iterationResults?.length) {
+      for (const [index, iterationResult] of result.iterationResults.entries()) {
+        results.push(iterationResult.reportId
+          ? await rejudgeRunReport(client, testCaseId, iterationResult.reportId, options, index + 1)
+          : {
+              testCaseId,
+              reportId: '',
+              iteration: index + 1,
+              status: 'skipped',
+              message: `Test case run is ${iterationResult.status}`,
+            });
+      }
+      continue;
+    }
+
+    if (!result.reportId) {
+      results.push({ testCaseId, reportId: '', status: 'skipped', message: `Test case run is ${result.status}` });
+      continue;
+    }
+
+    results.push(await rejudgeRunReport(client, testCaseId, result.reportId, options));
+  }
+
+  return {
+    benchmarkId,
+    runId: benchmarkRun.id,
+    rejudged: results.filter(r => r.status === 'rejudged').length,
+    skipped: results.filter(r => r.status === 'skipped').length,
+    failed: results.filter(r => r.status === 'failed').length,
+    results,
+  };
+}
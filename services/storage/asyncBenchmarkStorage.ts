@@ -11,7 +11,7 @@
  */
 
 import { benchmarkStorage as opensearchBenchmarks, StorageBenchmark, StorageBenchmarkRunConfig } from './opensearchClient';
-import type { Benchmark, BenchmarkRun, BenchmarkRunStatus, BenchmarkVersion, TestCaseSnapshot, RunResultStatus, RunStats } from '@/types';
+import type { Benchmark, BenchmarkRun, BenchmarkRunStatus, BenchmarkVersion, TestCaseSnapshot, RunResultAttempt, RunResultIteration, RunResultStatus, RunStats, JudgeRubric, BenchmarkSchedule, RunBudget } from '@/types';
 
 /** API response for benchmark list */
 interface BenchmarkListResponse {
@@ -44,7 +44,9 @@ function toBenchmark(stored: StorageBenchmark): Benchmark {
       testCaseIds: stored.testCaseIds || [],
     }],
     testCaseIds: stored.testCaseIds,
+    rubric: stored.rubric as JudgeRubric | undefined,
     runs: (stored.runs || []).map(toBenchmarkRun),
+    schedules: stored.schedules as BenchmarkSchedule[] | undefined,
   };
 }
 
@@ -54,12 +56,14 @@ function toBenchmark(stored: StorageBenchmark): Benchmark {
  */
 function toBenchmarkRun(stored: StorageBenchmarkRunConfig): BenchmarkRun {
   // Convert results with proper typing for status field
-  const results: Record<string, { reportId: string; status: RunResultStatus }> = {};
+  const results: BenchmarkRun['results'] = {};
   if (stored.results) {
     Object.entries(stored.results).forEach(([key, value]) => {
       results[key] = {
         reportId: value.reportId,
         status: value.status as RunResultStatus,
+        ...(value.attempts && { attempts: value.attempts as RunResultAttempt[] }),
+        ...(value.iterationResults && { iterationResults: value.iterationResults as RunResultIteration[] }),
       };
     });
   }
@@ -73,9 +77,17 @@ function toBenchmarkRun(stored: StorageBenchmarkRunConfig): BenchmarkRun {
     agentKey: stored.agentKey || stored.agentId || '',
     modelId: stored.modelId,
     headers: stored.headers,
+    concurrency: stored.concurrency,
+    iterations: stored.iterations,
+    budget: stored.budget as RunBudget | undefined,
+    usage: stored.usage,
+    budgetExceededReason: stored.budgetExceededReason,
     benchmarkVersion: (stored as any).benchmarkVersion ?? 1,
     testCaseSnapshots: (stored as any).testCaseSnapshots ?? [],
     status: stored.status as BenchmarkRunStatus | undefined,
+    jobId: stored.jobId,
+    matrixId: stored.matrixId,
+    scheduleId: stored.scheduleId,
     stats: stored.stats as RunStats | undefined,
     results,
   };
@@ -101,6 +113,9 @@ function toStorageFormat(benchmark: Partial<Benchmark>): Record<string, any> {
   if (benchmark.updatedAt !== undefined) {
     result.updatedAt = benchmark.updatedAt;
   }
+  if (benchmark.rubric !== undefined) {
+    result.rubric = benchmark.rubric;
+  }
 
   // Convert runs with version tracking fields
   // Use agentKey to match server route behavior
@@ -398,11 +413,14 @@ class AsyncBenchmarkStorage {
   }
 
   /**
-   * Update a benchmark (name, description, or testCaseIds).
-   * If testCaseIds changed, creates a new version.
+   * Update a benchmark (name, description, testCaseIds, or rubric).
+   * If testCaseIds or the rubric changed, creates a new version; rubric: null removes the rubric.
    * Uses centralized opensearchClient for consistent API handling
    */
-  async update(id: string, updates: { name?: string; description?: string; testCaseIds?: string[] }): Promise<Benchmark | null> {
+  async update(
+    id: string,
+    updates: { name?: string; description?: string; testCaseIds?: string[]; rubric?: JudgeRubric | null }
+  ): Promise<Benchmark | null> {
     try {
       const result = await opensearchBenchmarks.update(id, updates);
       return toBenchmark(result);
@@ -24,6 +24,12 @@ import type {
   EvaluationMetrics,
   ImprovementStrategy,
   OpenSearchLog,
+  AssertionResult,
+  ConversationTurn,
+  LLMJudgeResponse,
+  JudgeRubric,
+  JudgeHistoryEntry,
+  TokenUsage,
 } from '@/types';
 
 // Re-export search types for convenience
@@ -89,6 +95,7 @@ function toTestCaseRun(stored: StorageRun): TestCaseRun {
       faithfulness: stored.metrics?.faithfulness || 0,
       latency_score: stored.metrics?.latency_score || 0,
       trajectory_alignment_score: stored.metrics?.trajectory_alignment_score || 0,
+      ...(stored.metrics?.pplMatch !== undefined && { pplMatch: stored.metrics.pplMatch }),
     },
     llmJudgeReasoning: stored.llmJudgeReasoning || '',
     annotations: (stored.annotations || []).map(ann => ({
@@ -103,6 +110,17 @@ function toTestCaseRun(stored: StorageRun): TestCaseRun {
     rawEvents: stored.rawEvents as any[] | undefined,
     logs: (stored.logs || []) as OpenSearchLog[],
     improvementStrategies: stored.improvementStrategies as any[] | undefined,
+    assertionResults: stored.assertionResults as AssertionResult[] | undefined,
+    turns: stored.turns as ConversationTurn[] | undefined,
+    judgeResponses: stored.judgeResponses as LLMJudgeResponse[] | undefined,
+    judgeAgreement: stored.judgeAgreement,
+    rubric: stored.rubric as JudgeRubric | undefined,
+    judgeModelId: stored.judgeModelId,
+    judgeHistory: stored.judgeHistory as JudgeHistoryEntry[] | undefined,
+    executionAttempts: stored.executionAttempts,
+    timeoutReason: stored.timeoutReason,
+    budgetExceededReason: stored.budgetExceededReason,
+    tokenUsage: stored.tokenUsage as TokenUsage | undefined,
     // Trace-mode fields
     metricsStatus: storedAny.metricsStatus as 'pending' | 'calculating' | 'ready' | 'error' | undefined,
     traceFetchAttempts: storedAny.traceFetchAttempts,
@@ -135,11 +153,23 @@ function toStorageFormat(report: EvaluationReport): Omit<StorageRun, 'id' | 'cre
       faithfulness: report.metrics.faithfulness,
       latency_score: report.metrics.latency_score,
       trajectory_alignment_score: report.metrics.trajectory_alignment_score,
+      pplMatch: report.metrics.pplMatch,
     },
     trajectory: report.trajectory,
     rawEvents: report.rawEvents,
     logs: report.logs || report.openSearchLogs,
     improvementStrategies: report.improvementStrategies,
+    assertionResults: report.assertionResults,
+    turns: report.turns,
+    judgeResponses: report.judgeResponses,
+    judgeAgreement: report.judgeAgreement,
+    rubric: report.rubric,
+    judgeModelId: report.judgeModelId,
+    judgeHistory: report.judgeHistory,
+    executionAttempts: report.executionAttempts,
+    timeoutReason: report.timeoutReason,
+    budgetExceededReason: report.budgetExceededReason,
+    tokenUsage: report.tokenUsage,
   };
 
   // Add trace-mode fields if present
@@ -243,6 +273,13 @@ class AsyncRunStorage {
     if (updates.logs !== undefined) storageUpdates.logs = updates.logs;
     if (updates.runId !== undefined) storageUpdates.traceId = updates.runId;
     if (updates.improvementStrategies !== undefined) storageUpdates.improvementStrategies = updates.improvementStrategies;
+    if (updates.assertionResults !== undefined) storageUpdates.assertionResults = updates.assertionResults;
+    if (updates.turns !== undefined) storageUpdates.turns = updates.turns;
+    if (updates.judgeResponses !== undefined) storageUpdates.judgeResponses = updates.judgeResponses;
+    if (updates.judgeAgreement !== undefined) storageUpdates.judgeAgreement = updates.judgeAgreement;
+    if (updates.rubric !== undefined) storageUpdates.rubric = updates.rubric;
+    if (updates.judgeModelId !== undefined) storageUpdates.judgeModelId = updates.judgeModelId;
+    if (updates.judgeHistory !== undefined) storageUpdates.judgeHistory = updates.judgeHistory;
 
     // Map metrics
     if (updates.metrics) {
@@ -251,6 +288,7 @@ class AsyncRunStorage {
         faithfulness: updates.metrics.faithfulness,
         latency_score: updates.metrics.latency_score,
         trajectory_alignment_score: updates.metrics.trajectory_alignment_score,
+        pplMatch: updates.metrics.pplMatch,
       };
     }
 
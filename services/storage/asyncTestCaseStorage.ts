@@ -11,7 +11,7 @@
  */
 
 import { testCaseStorage as opensearchTestCases, StorageTestCase } from './opensearchClient';
-import type { TestCase, TestCaseVersion, AgentContextItem, AgentToolDefinition, Difficulty } from '@/types';
+import type { TestCase, TestCaseVersion, TestCaseAssertion, FollowUpQuestion, JudgeRubric, AgentContextItem, AgentToolDefinition, Difficulty } from '@/types';
 import { buildLabels, parseLabels } from '@/lib/labels';
 
 // Input type for creating a test case
@@ -37,11 +37,9 @@ export interface CreateTestCaseInput {
     description: string;
     requiredTools: string[];
   }[];
-  followUpQuestions?: {
-    trigger: 'results_available' | 'error' | 'always';
-    question: string;
-    businessValue: string;
-  }[];
+  assertions?: TestCaseAssertion[];  // Deterministic checks evaluated against the trajectory
+  followUpQuestions?: FollowUpQuestion[];  // Follow-up turns for multi-turn evaluation
+  rubric?: JudgeRubric;  // Custom judge rubric (overrides the benchmark's)
   tags?: string[];
   author?: string;
   isPromoted?: boolean;
@@ -68,11 +66,9 @@ export interface UpdateTestCaseInput {
     description: string;
     requiredTools: string[];
   }[];
-  followUpQuestions?: {
-    trigger: 'results_available' | 'error' | 'always';
-    question: string;
-    businessValue: string;
-  }[];
+  assertions?: TestCaseAssertion[];  // Deterministic checks evaluated against the trajectory
+  followUpQuestions?: FollowUpQuestion[];  // Follow-up turns for multi-turn evaluation
+  rubric?: JudgeRubric;  // Custom judge rubric (overrides the benchmark's)
   tags?: string[];
   isPromoted?: boolean;
 }
@@ -115,6 +111,9 @@ function toTestCase(stored: StorageTestCase): TestCase {
     expectedPPL: stored.expectedPPL,
     expectedOutcomes: stored.expectedOutcomes,
     expectedTrajectory: (stored.expectedTrajectory || []) as TestCase['expectedTrajectory'],
+    assertions: stored.assertions as TestCaseAssertion[] | undefined,
+    followUpQuestions: stored.followUpQuestions as FollowUpQuestion[] | undefined,
+    rubric: stored.rubric as JudgeRubric | undefined,
   };
 }
 
@@ -149,6 +148,9 @@ function toStorageFormat(testCase: CreateTestCaseInput | UpdateTestCaseInput): P
     expectedPPL: testCase.expectedPPL,
     expectedOutcomes: testCase.expectedOutcomes,
     expectedTrajectory: testCase.expectedTrajectory,
+    assertions: testCase.assertions,
+    followUpQuestions: testCase.followUpQuestions,
+    rubric: testCase.rubric,
     labels,
     // Legacy fields - kept for backward compatibility
     category: testCase.category,
@@ -313,6 +315,9 @@ class AsyncTestCaseStorage {
       expectedPPL: s.expectedPPL,
       expectedOutcomes: s.expectedOutcomes,  // NEW
       expectedTrajectory: (s.expectedTrajectory || []) as TestCaseVersion['expectedTrajectory'],
+      assertions: s.assertions as TestCaseAssertion[] | undefined,
+      followUpQuestions: s.followUpQuestions as FollowUpQuestion[] | undefined,
+      rubric: s.rubric as JudgeRubric | undefined,
     }));
   }
 
@@ -332,6 +337,9 @@ class AsyncTestCaseStorage {
       expectedPPL: stored.expectedPPL,
       expectedOutcomes: stored.expectedOutcomes,  // NEW
       expectedTrajectory: (stored.expectedTrajectory || []) as TestCaseVersion['expectedTrajectory'],
+      assertions: stored.assertions as TestCaseAssertion[] | undefined,
+      followUpQuestions: stored.followUpQuestions as FollowUpQuestion[] | undefined,
+      rubric: stored.rubric as JudgeRubric | undefined,
     };
   }
 
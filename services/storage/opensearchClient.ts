@@ -61,6 +61,9 @@ export interface StorageTestCase {
   expectedPPL?: string;  // Expected PPL query
   expectedOutcomes?: string[];  // NEW: Simple text descriptions of expected behavior
   expectedTrajectory?: unknown[];  // Legacy: step-by-step trajectory
+  assertions?: unknown[];  // Deterministic checks evaluated against the trajectory
+  followUpQuestions?: unknown[];  // Follow-up turns for multi-turn evaluation
+  rubric?: unknown;  // Custom judge rubric
   labels?: string[];  // Unified labels system (replaces category/subcategory/difficulty)
   category?: string;  // Legacy - kept for backward compatibility
   subcategory?: string;  // Legacy - kept for backward compatibility
@@ -80,9 +83,22 @@ export interface StorageBenchmarkRunConfig {
   modelId: string;
   headers?: Record<string, string>;
   iterationCount?: number;
+  concurrency?: number;
+  iterations?: number;
+  budget?: Record<string, number>;
+  usage?: { inputTokens: number; outputTokens: number; totalTokens: number; costUsd: number };
+  budgetExceededReason?: string;
   createdAt: string;
-  results?: Record<string, { reportId: string; status: string }>;
+  results?: Record<string, {
+    reportId: string;
+    status: string;
+    attempts?: Array<{ reportId: string; status: string; retriedAt: string }>;
+    iterationResults?: Array<{ reportId: string; status: string }>;
+  }>;
   status?: string;
+  jobId?: string;
+  matrixId?: string;
+  scheduleId?: string;
   stats?: { passed: number; failed: number; pending: number; total: number };
 }
 
@@ -94,7 +110,9 @@ export interface StorageBenchmark {
   createdAt: string;
   llmJudgePrompt?: string;
   testCaseIds: string[];
+  rubric?: unknown;  // Default judge rubric for the benchmark's test cases
   runs: StorageBenchmarkRunConfig[];
+  schedules?: unknown[];  // Recurring runs (see BenchmarkSchedule)
 }
 
 // Backwards compatibility aliases
@@ -136,6 +154,7 @@ export interface StorageRun {
     faithfulness?: number;
     latency_score?: number;
     trajectory_alignment_score?: number;
+    pplMatch?: number;
   };
   annotations?: StorageRunAnnotation[];
   trajectory?: unknown[];
@@ -147,6 +166,17 @@ export interface StorageRun {
     recommendation: string;
     priority: 'high' | 'medium' | 'low';
   }[];
+  assertionResults?: unknown[];  // Deterministic assertion outcomes
+  turns?: unknown[];  // Per-turn results for multi-turn runs
+  judgeResponses?: unknown[];  // Individual judge responses for ensemble runs
+  judgeAgreement?: number;  // Share of ensemble judges agreeing with the majority verdict
+  rubric?: unknown;  // Snapshot of the judge rubric applied to this run
+  judgeModelId?: string;  // Judge model of the latest re-judge
+  judgeHistory?: unknown[];  // Judgments replaced by re-judges
+  executionAttempts?: number;  // Agent calls made, including retries
+  timeoutReason?: string;  // Set when the test case hit its timeout
+  budgetExceededReason?: string;  // Set when the test case hit its step or tool call limit
+  tokenUsage?: unknown;  // Agent token usage, if the connector reports it
 }
 
 export interface StorageAnalyticsRecord {
@@ -273,3 +273,6 @@ export {
   type CategoryStats,
   type ToolInfo,
 } from './traceStats';
+
+// Re-export span trajectory reconstruction
+export { spansToTrajectory } from './spanTrajectory';
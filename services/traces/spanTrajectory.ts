@@ -0,0 +1,78 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Span Trajectory
+ *
+ * Rebuilds a judgeable trajectory from trace spans, for trace-mode runs
+ * whose agent stream left no trajectory of its own.
+ */
+
+import { Span, ToolCallStatus, TrajectoryStep } from '@/types';
+import { categorizeSpanTree } from './spanCategorization';
+import { extractToolName, flattenSpans } from './traceStats';
+
+function parseAttribute(value: unknown): any {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Convert spans to trajectory steps: each tool span becomes an action (with its
+ * arguments) followed by a tool_result, and the root agent span's output becomes the response
+ */
+export function spansToTrajectory(spans: Span[]): TrajectoryStep[] {
+  const ordered = flattenSpans(categorizeSpanTree(spans)).sort(
+    (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+  );
+  const steps: TrajectoryStep[] = [];
+
+  for (const span of ordered) {
+    const attrs = span.attributes ?? {};
+    const timestamp = new Date(span.startTime).getTime();
+
+    if (span.category === 'TOOL' || (span.category === 'ERROR' && attrs['gen_ai.tool.name'])) {
+      const toolName = extractToolName(span) ?? span.name;
+      const args = parseAttribute(attrs['gen_ai.tool.args'] ?? attrs['gen_ai.tool.input'] ?? attrs['tool.input']);
+      steps.push({
+        id: `${span.spanId}-action`,
+        timestamp,
+        type: 'action',
+        content: `Calling ${toolName}`,
+        toolName,
+        toolArgs: args && typeof args === 'object' ? args : undefined,
+      });
+
+      const output = attrs['gen_ai.tool.output'] ?? attrs['tool.output'] ?? attrs['tool.result'];
+      if (output !== undefined || span.status === 'ERROR') {
+        steps.push({
+          id: `${span.spanId}-result`,
+          timestamp: new Date(span.endTime).getTime(),
+          type: 'tool_result',
+          content: typeof output === 'string' ? output : JSON.stringify(output ?? null),
+          status: span.status === 'ERROR' ? ToolCallStatus.FAILURE : ToolCallStatus.SUCCESS,
+        });
+      }
+    }
+  }
+
+  // The outermost agent span carries the final answer
+  const rootAgent = ordered.find(span => !span.parentSpanId && span.category === 'AGENT');
+  const answer = rootAgent?.attributes?.['gen_ai.agent.output'] ?? rootAgent?.attributes?.['agent.output'];
+  if (rootAgent && typeof answer === 'string' && answer.trim()) {
+    steps.push({
+      id: `${rootAgent.spanId}-response`,
+      timestamp: new Date(rootAgent.endTime).getTime(),
+      type: 'response',
+      content: answer,
+    });
+  }
+
+  return steps;
+}
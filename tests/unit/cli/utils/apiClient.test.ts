@@ -331,6 +331,67 @@ describe('ApiClient', () => {
     });
   });
 
+  describe('findBenchmarkByRunId', () => {
+    it('should find the benchmark containing the run', async () => {
+      const benchmark = { id: 'bench-2', name: 'Benchmark 2', runs: [{ id: 'run-2' }] };
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ benchmarks: [{ id: 'bench-1', runs: [{ id: 'run-1' }] }, benchmark] }),
+      });
+
+      const result = await client.findBenchmarkByRunId('run-2');
+
+      expect(result).toEqual(benchmark);
+    });
+
+    it('should return null if no benchmark has the run', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ benchmarks: [{ id: 'bench-1' }] }),
+      });
+
+      const result = await client.findBenchmarkByRunId('run-2');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('retryFailedTestCases', () => {
+    it('should stream the retry and return the final run', async () => {
+      const run = { id: 'run-1', status: 'completed', results: {} };
+      const encoder = new TextEncoder();
+      const body = new ReadableStream({
+        start(controller) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'started', runId: 'run-1', testCases: [] })}\n\n`));
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'completed', run })}\n\n`));
+          controller.close();
+        },
+      });
+      mockFetch.mockResolvedValue({ ok: true, body });
+      const onProgress = jest.fn();
+
+      const result = await client.retryFailedTestCases('bench-1', 'run-1', onProgress);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/storage/benchmarks/bench-1/runs/run-1/retry-failed`,
+        { method: 'POST' }
+      );
+      expect(onProgress).toHaveBeenCalledTimes(2);
+      expect(result).toEqual(run);
+    });
+
+    it('should throw the server error message', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        text: jest.fn().mockResolvedValue(JSON.stringify({ error: 'Run has no failed or cancelled test cases to retry' })),
+      });
+
+      await expect(client.retryFailedTestCases('bench-1', 'run-1')).rejects.toThrow(
+        'Failed to retry run: Run has no failed or cancelled test cases to retry'
+      );
+    });
+  });
+
   describe('listTestCases', () => {
     it('should return array of test cases', async () => {
       const testCases = [{ id: 'tc-1', name: 'Test Case 1' }];
@@ -533,4 +594,61 @@ describe('ApiClient', () => {
       );
     });
   });
+
+  describe('worker tasks', () => {
+    it('should lease a task', async () => {
+      const lease = { task: { id: 'task-1' }, leaseMs: 30000 };
+      mockFetch.mockResolvedValue({ ok: true, status: 200, json: jest.fn().mockResolvedValue(lease) });
+
+      await expect(client.leaseWorkerTask('host 1')).resolves.toEqual(lease);
+      expect(mockFetch).toHaveBeenCalledWith(`${baseUrl}/api/workers/host%201/lease`, { method: 'POST' });
+    });
+
+    it('should return null when no task is waiting', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 204 });
+
+      await expect(client.leaseWorkerTask('worker-1')).resolves.toBeNull();
+    });
+
+    it('should throw when the server refuses the lease', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 409,
+        text: jest.fn().mockResolvedValue('Distributed execution is disabled'),
+      });
+
+      await expect(client.leaseWorkerTask('worker-1')).rejects.toThrow(
+        'Failed to lease task: Distributed execution is disabled'
+      );
+    });
+
+    it('should post heartbeats, reports, and failures', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      const report = { id: 'report-1', trajectory: [] } as any;
+
+      await expect(client.heartbeatWorkerTask('worker-1', 'task-1')).resolves.toBe(true);
+      await expect(client.completeWorkerTask('worker-1', 'task-1', report)).resolves.toBe(true);
+      await expect(client.failWorkerTask('worker-1', 'task-1', 'boom')).resolves.toBe(true);
+
+      expect(mockFetch.mock.calls.map(([url, init]) => [url, init.body])).toEqual([
+        [`${baseUrl}/api/workers/worker-1/tasks/task-1/heartbeat`, '{}'],
+        [`${baseUrl}/api/workers/worker-1/tasks/task-1/complete`, JSON.stringify({ report })],
+        [`${baseUrl}/api/workers/worker-1/tasks/task-1/fail`, JSON.stringify({ error: 'boom' })],
+      ]);
+    });
+
+    it('should return false when the worker lost the lease', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 409 });
+
+      await expect(client.heartbeatWorkerTask('worker-1', 'task-1')).resolves.toBe(false);
+    });
+
+    it('should throw on other failures', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 400, text: jest.fn().mockResolvedValue('Bad report') });
+
+      await expect(client.completeWorkerTask('worker-1', 'task-1', {} as any)).rejects.toThrow(
+        'Failed to complete task: Bad report'
+      );
+    });
+  });
 });
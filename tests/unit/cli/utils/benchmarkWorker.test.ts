@@ -0,0 +1,230 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { WorkerTask } from '@/types';
+
+import { BenchmarkWorker, type BenchmarkWorkerEvent } from '@/cli/utils/benchmarkWorker';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const mockEvaluate = jest.fn();
+const report = { id: 'report-1', status: 'completed', passFailStatus: 'passed', trajectory: [] };
+
+function createTask(id = 'task-1'): WorkerTask {
+  return {
+    id,
+    benchmarkId: 'bench-1',
+    runId: 'run-1',
+    testCaseId: 'tc-1',
+    iteration: 1,
+    attempt: 1,
+    agent: { key: 'agent', name: 'Agent', endpoint: 'http://agent', models: ['model'] } as any,
+    modelId: 'model',
+    testCase: { id: 'tc-1', name: 'Test Case 1' } as any,
+    execution: { timeout: 1000 },
+    budget: { maxStepsPerTestCase: 10 },
+  };
+}
+
+function createClient(tasks: WorkerTask[], leaseMs = 30000) {
+  return {
+    leaseWorkerTask: jest.fn(async () => {
+      const task = tasks.shift();
+      return task ? { task, leaseMs } : null;
+    }),
+    heartbeatWorkerTask: jest.fn().mockResolvedValue(true),
+    completeWorkerTask: jest.fn().mockResolvedValue(true),
+    failWorkerTask: jest.fn().mockResolvedValue(true),
+  };
+}
+
+/**
+ * Run the worker until it has handled the given number of tasks
+ */
+async function runUntil(worker: BenchmarkWorker, events: BenchmarkWorkerEvent[], finished: number): Promise<void> {
+  const running = worker.run();
+  while (events.filter(e => e.type !== 'started' && e.type !== 'error').length < finished) {
+    await new Promise(resolve => setTimeout(resolve, 1));
+  }
+  worker.stop();
+  await running;
+}
+
+describe('BenchmarkWorker', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockEvaluate.mockResolvedValue(report);
+  });
+
+  it('should execute leased tasks and post the reports', async () => {
+    const client = createClient([createTask('task-1'), createTask('task-2')]);
+    const events: BenchmarkWorkerEvent[] = [];
+    const worker = new BenchmarkWorker({
+      client: client as any,
+      evaluate: mockEvaluate,
+      workerId: 'worker-1',
+      concurrency: 2,
+      pollIntervalMs: 5,
+      onEvent: event => events.push(event),
+    });
+
+    await runUntil(worker, events, 2);
+
+    expect(mockEvaluate).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'task-1', execution: { timeout: 1000 } }),
+      expect.objectContaining({ key: 'agent' }),
+      expect.any(AbortSignal)
+    );
+    expect(client.completeWorkerTask).toHaveBeenCalledWith('worker-1', 'task-1', report);
+    expect(client.completeWorkerTask).toHaveBeenCalledWith('worker-1', 'task-2', report);
+    expect(events.filter(e => e.type === 'completed')).toHaveLength(2);
+  });
+
+  it('should use the credentials and hooks of the locally configured agent', async () => {
+    const beforeRequest = jest.fn();
+    const auth = { type: 'oauth2' as const, oauth2TokenUrl: 'https://auth.example.com/token', oauth2ClientId: 'id', oauth2ClientSecret: 'secret' };
+    const client = createClient([createTask()]);
+    const events: BenchmarkWorkerEvent[] = [];
+    const worker = new BenchmarkWorker({
+      client: client as any,
+      evaluate: mockEvaluate,
+      workerId: 'worker-1',
+      concurrency: 1,
+      pollIntervalMs: 5,
+      agents: [{ key: 'agent', name: 'Local Agent', endpoint: 'http://local', models: [], headers: { 'X-Team': 'rca' }, auth, hooks: { beforeRequest } }],
+      onEvent: event => events.push(event),
+    });
+
+    await runUntil(worker, events, 1);
+
+    const agent = mockEvaluate.mock.calls[0][1];
+    expect(agent.endpoint).toBe('http://agent');
+    expect(agent.hooks.beforeRequest).toBe(beforeRequest);
+    expect(agent.headers).toEqual({ 'X-Team': 'rca' });
+    expect(agent.auth).toBe(auth);
+  });
+
+  it('should apply the run\'s header overrides over the local agent\'s headers', async () => {
+    const task = { ...createTask(), runHeaders: { 'X-Variant': 'b', 'X-Team': 'sre' }, localAgentFields: ['headers' as const] };
+    const client = createClient([task]);
+    const events: BenchmarkWorkerEvent[] = [];
+    const worker = new BenchmarkWorker({
+      client: client as any,
+      evaluate: mockEvaluate,
+      workerId: 'worker-1',
+      concurrency: 1,
+      pollIntervalMs: 5,
+      agents: [{ key: 'agent', name: 'Local Agent', endpoint: 'http://local', models: [], headers: { 'X-Team': 'rca', 'X-Api-Key': 'k' } }],
+      onEvent: event => events.push(event),
+    });
+
+    await runUntil(worker, events, 1);
+
+    expect(mockEvaluate.mock.calls[0][1].headers).toEqual({ 'X-Team': 'sre', 'X-Api-Key': 'k', 'X-Variant': 'b' });
+  });
+
+  it('should send the run\'s headers for agents without local config that need none', async () => {
+    const client = createClient([{ ...createTask(), runHeaders: { 'X-Variant': 'b' } }]);
+    const events: BenchmarkWorkerEvent[] = [];
+    const worker = new BenchmarkWorker({
+      client: client as any,
+      evaluate: mockEvaluate,
+      workerId: 'worker-1',
+      concurrency: 1,
+      pollIntervalMs: 5,
+      onEvent: event => events.push(event),
+    });
+
+    await runUntil(worker, events, 1);
+
+    expect(mockEvaluate.mock.calls[0][1].headers).toEqual({ 'X-Variant': 'b' });
+  });
+
+  it('should fail a task that needs agent config the worker does not have', async () => {
+    const client = createClient([{ ...createTask(), localAgentFields: ['auth', 'hooks'] }]);
+    const events: BenchmarkWorkerEvent[] = [];
+    const worker = new BenchmarkWorker({
+      client: client as any,
+      evaluate: mockEvaluate,
+      workerId: 'worker-1',
+      concurrency: 1,
+      pollIntervalMs: 5,
+      agents: [{ key: 'other-agent', name: 'Other Agent', endpoint: 'http://other', models: [] }],
+      onEvent: event => events.push(event),
+    });
+
+    await runUntil(worker, events, 1);
+
+    const message = 'Agent "agent" needs auth, hooks from the worker\'s config, which has no agent with that key';
+    expect(mockEvaluate).not.toHaveBeenCalled();
+    expect(client.failWorkerTask).toHaveBeenCalledWith('worker-1', 'task-1', message);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'failed', error: message }));
+  });
+
+  it('should abort the agent and drop the result when the lease is lost', async () => {
+    const client = createClient([createTask()], 3);
+    client.heartbeatWorkerTask.mockResolvedValue(false);
+    mockEvaluate.mockImplementation((_task, _agent, signal) =>
+      new Promise(resolve => {
+        signal.addEventListener('abort', () => resolve({ ...report, status: 'failed' }));
+      })
+    );
+    const events: BenchmarkWorkerEvent[] = [];
+    const worker = new BenchmarkWorker({
+      client: client as any,
+      evaluate: mockEvaluate,
+      workerId: 'worker-1',
+      concurrency: 1,
+      pollIntervalMs: 5,
+      onEvent: event => events.push(event),
+    });
+
+    await runUntil(worker, events, 1);
+
+    expect(events.map(e => e.type)).toEqual(['started', 'lease-lost']);
+    expect(client.completeWorkerTask).not.toHaveBeenCalled();
+  });
+
+  it('should report a task it could not execute', async () => {
+    mockEvaluate.mockRejectedValue(new Error('Agent crashed'));
+    const client = createClient([createTask()]);
+    const events: BenchmarkWorkerEvent[] = [];
+    const worker = new BenchmarkWorker({
+      client: client as any,
+      evaluate: mockEvaluate,
+      workerId: 'worker-1',
+      concurrency: 1,
+      pollIntervalMs: 5,
+      onEvent: event => events.push(event),
+    });
+
+    await runUntil(worker, events, 1);
+
+    expect(client.failWorkerTask).toHaveBeenCalledWith('worker-1', 'task-1', 'Agent crashed');
+    expect(events[events.length - 1]).toEqual(expect.objectContaining({ type: 'failed', error: 'Agent crashed' }));
+  });
+
+  it('should keep polling while the server is unreachable', async () => {
+    const client = createClient([]);
+    client.leaseWorkerTask
+      .mockRejectedValueOnce(new Error('fetch failed'))
+      .mockResolvedValueOnce({ task: createTask(), leaseMs: 30000 });
+    const events: BenchmarkWorkerEvent[] = [];
+    const worker = new BenchmarkWorker({
+      client: client as any,
+      evaluate: mockEvaluate,
+      workerId: 'worker-1',
+      concurrency: 1,
+      pollIntervalMs: 5,
+      onEvent: event => events.push(event),
+    });
+
+    await runUntil(worker, events, 1);
+
+    expect(events.map(e => e.type)).toEqual(['error', 'started', 'completed']);
+  });
+});
@@ -0,0 +1,144 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Unit tests for the doctor command's Ollama judge check
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { ResolvedConfig } from '@/lib/config/types';
+import { checkOllamaJudge, isOllamaModelAvailable } from '@/cli/utils/ollamaCheck';
+
+/**
+ * Start a local stub of the Ollama /api/tags endpoint
+ */
+async function startTagsServer(models: string[]): Promise<{ host: string; close: () => Promise<void> }> {
+  const server = http.createServer((req, res) => {
+    if (req.url === '/api/tags') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ models: models.map(name => ({ name })) }));
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    host: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+function buildConfig(overrides: Partial<ResolvedConfig> = {}): ResolvedConfig {
+  return {
+    agents: [],
+    models: {},
+    connectors: [],
+    reporters: [],
+    judge: { provider: 'bedrock', model: 'claude-sonnet-4' },
+    server: { port: 4001, reuseExistingServer: true, startTimeout: 30000 },
+    ...overrides,
+  } as ResolvedConfig;
+}
+
+describe('Ollama Judge Check', () => {
+  describe('isOllamaModelAvailable', () => {
+    it('should match exact model names', () => {
+      expect(isOllamaModelAvailable('llama3.1:8b', ['llama3.1:8b'])).toBe(true);
+    });
+
+    it('should match untagged names against :latest', () => {
+      expect(isOllamaModelAvailable('mistral', ['mistral:latest'])).toBe(true);
+    });
+
+    it('should not match a different tag', () => {
+      expect(isOllamaModelAvailable('llama3.1:70b', ['llama3.1:8b'])).toBe(false);
+    });
+  });
+
+  describe('checkOllamaJudge', () => {
+    it('should return null when no Ollama models are configured', async () => {
+      expect(await checkOllamaJudge(buildConfig())).toBeNull();
+    });
+
+    it('should report ok when the host is reachable and models are pulled', async () => {
+      const stub = await startTagsServer(['llama3.1:8b', 'mistral:latest']);
+
+      try {
+        const result = await checkOllamaJudge(buildConfig({
+          models: {
+            'llama-local': { model_id: 'llama3.1:8b', display_name: 'Llama', provider: 'ollama', context_window: 128000, max_output_tokens: 4096, base_url: stub.host },
+            'mistral-local': { model_id: 'mistral', display_name: 'Mistral', provider: 'ollama', context_window: 32000, max_output_tokens: 4096, base_url: `${stub.host}/` },
+          },
+        }));
+
+        expect(result?.status).toBe('ok');
+        expect(result?.message).toBe('2 model(s) available');
+        expect(result?.details).toContain('✓ llama3.1:8b');
+        expect(result?.details).toContain('✓ mistral');
+      } finally {
+        await stub.close();
+      }
+    });
+
+    it('should report an error for models that have not been pulled', async () => {
+      const stub = await startTagsServer(['mistral:latest']);
+
+      try {
+        const result = await checkOllamaJudge(buildConfig({
+          models: {
+            'llama-local': { model_id: 'llama3.1:8b', display_name: 'Llama', provider: 'ollama', context_window: 128000, max_output_tokens: 4096, base_url: stub.host },
+          },
+        }));
+
+        expect(result?.status).toBe('error');
+        expect(result?.details).toContain('✗ llama3.1:8b not pulled (run: ollama pull llama3.1:8b)');
+      } finally {
+        await stub.close();
+      }
+    });
+
+    it('should report an error when the host is unreachable', async () => {
+      const stub = await startTagsServer([]);
+      const host = stub.host;
+      await stub.close();
+
+      const result = await checkOllamaJudge(buildConfig({
+        models: {
+          'llama-local': { model_id: 'llama3.1:8b', display_name: 'Llama', provider: 'ollama', context_window: 128000, max_output_tokens: 4096, base_url: host },
+        },
+      }));
+
+      expect(result?.status).toBe('error');
+      expect(result?.details?.[0]).toContain(`✗ ${host} unreachable`);
+    });
+
+    it('should check the judge model when it is not in the models list', async () => {
+      const stub = await startTagsServer(['qwen2.5:14b']);
+      const originalHost = process.env.OLLAMA_HOST;
+      process.env.OLLAMA_HOST = stub.host;
+
+      try {
+        const result = await checkOllamaJudge(buildConfig({
+          judge: { provider: 'ollama', model: 'qwen2.5:14b' },
+        }));
+
+        expect(result?.status).toBe('ok');
+        expect(result?.details).toEqual([`✓ ${stub.host} reachable`, '✓ qwen2.5:14b']);
+      } finally {
+        if (originalHost === undefined) {
+          delete process.env.OLLAMA_HOST;
+        } else {
+          process.env.OLLAMA_HOST = originalHost;
+        }
+        await stub.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Unit tests for agent tool discovery (list connectors, doctor)
+ */
+
+import type { AgentConfig, AgentToolDefinition } from '@/types';
+import type { ConnectorRegistry } from '@/services/connectors/types';
+import { checkAgentTools, discoverAgentTools } from '@/cli/utils/toolDiscovery';
+
+const searchTool: AgentToolDefinition = {
+  name: 'search_logs',
+  description: 'Search logs',
+  parameters: { type: 'object', properties: {} },
+};
+
+const discoverTools = jest.fn();
+const connectors: Record<string, any> = {
+  mcp: { type: 'mcp', discoverTools },
+  'agui-streaming': { type: 'agui-streaming' },
+};
+const registry = {
+  getForAgent: (agent: AgentConfig) => connectors[agent.connectorType ?? 'agui-streaming'],
+} as unknown as ConnectorRegistry;
+
+function agent(key: string, connectorType?: AgentConfig['connectorType']): AgentConfig {
+  return { key, name: `Agent ${key}`, endpoint: `${key}-server`, models: [], connectorType, headers: { 'X-Team': 'rca' } };
+}
+
+describe('discoverAgentTools', () => {
+  beforeEach(() => {
+    discoverTools.mockReset();
+  });
+
+  it('should discover the tools of agents whose connector supports it', async () => {
+    discoverTools.mockResolvedValue([searchTool]);
+
+    const discoveries = await discoverAgentTools([agent('rca', 'mcp'), agent('ml-commons')], registry);
+
+    expect(discoveries).toEqual([
+      { agentKey: 'rca', agentName: 'Agent rca', connectorType: 'mcp', tools: [searchTool] },
+    ]);
+    expect(discoverTools).toHaveBeenCalledWith('rca-server', { type: 'none', headers: { 'X-Team': 'rca' } }, expect.any(AbortSignal));
+  });
+
+  it('should keep the error of an unreachable agent', async () => {
+    discoverTools.mockRejectedValue(new Error('MCP server exited with code 1'));
+
+    const discoveries = await discoverAgentTools([agent('rca', 'mcp')], registry);
+
+    expect(discoveries[0]).toEqual(expect.objectContaining({ error: 'MCP server exited with code 1' }));
+    expect(discoveries[0].tools).toBeUndefined();
+  });
+});
+
+describe('checkAgentTools', () => {
+  beforeEach(() => {
+    discoverTools.mockReset();
+  });
+
+  it('should return null when no agent discovers tools', async () => {
+    await expect(checkAgentTools([agent('ml-commons')], registry)).resolves.toBeNull();
+  });
+
+  it('should list the discovered tools per agent', async () => {
+    discoverTools.mockResolvedValueOnce([searchTool]).mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+    const result = await checkAgentTools([agent('rca', 'mcp'), agent('triage', 'mcp')], registry);
+
+    expect(result).toEqual({
+      name: 'Agent Tools',
+      status: 'warning',
+      message: '1 of 2 agent(s) unreachable',
+      details: [
+        '✓ Agent rca (mcp): search_logs',
+        '✗ Agent triage (mcp): connect ECONNREFUSED',
+      ],
+    });
+  });
+});
@@ -69,6 +69,17 @@ describe('agentUtils', () => {
       expect(isBrowserCompatible(agent)).toBe(true);
     });
 
+    it('should return true for openai-chat connector', () => {
+      const agent: AgentConfig = {
+        key: 'openai-agent',
+        name: 'OpenAI-compatible Agent',
+        endpoint: 'http://localhost:8000/v1/chat/completions',
+        connectorType: 'openai-chat',
+        models: ['gpt-4o'],
+      };
+      expect(isBrowserCompatible(agent)).toBe(true);
+    });
+
     it('should return false for subprocess connector', () => {
       const agent = mockAgents.find(a => a.key === 'subprocess-agent')!;
       expect(isBrowserCompatible(agent)).toBe(false);
@@ -0,0 +1,272 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  applyAssertionResults,
+  buildAssertionJudgment,
+  collectToolCalls,
+  evaluateAssertions,
+  hasAssertionFailure,
+  hasJudgeCriteria,
+  matchesPartial,
+  validateJsonSchema,
+} from '@/lib/assertions';
+import type { AssertionResult, TestCaseAssertion, TrajectoryStep } from '@/types';
+
+const trajectory: TrajectoryStep[] = [
+  { id: '1', timestamp: 1000, type: 'thinking', content: 'Let me check the cluster' },
+  {
+    id: '2',
+    timestamp: 1100,
+    type: 'action',
+    content: 'Checking health',
+    toolName: 'cluster_health',
+    toolArgs: { index: 'logs-*', level: 'shards' },
+  },
+  { id: '3', timestamp: 1500, type: 'tool_result', content: '{"status":"yellow","number_of_nodes":3}' },
+  {
+    id: '4',
+    timestamp: 1600,
+    type: 'action',
+    content: 'Checking nodes',
+    toolName: 'nodes_stats',
+    toolArgs: { metric: 'os' },
+  },
+  { id: '5', timestamp: 2000, type: 'tool_result', content: 'Node-3: CPU 98%' },
+  { id: '6', timestamp: 3000, type: 'response', content: 'Root cause: high CPU on Node-3' },
+];
+
+function evaluateOne(assertion: TestCaseAssertion, steps = trajectory, durationMs?: number): AssertionResult {
+  return evaluateAssertions([assertion], steps, { durationMs })[0];
+}
+
+describe('assertions', () => {
+  describe('collectToolCalls', () => {
+    it('should pair unnamed tool results with their preceding action', () => {
+      const calls = collectToolCalls(trajectory);
+
+      expect(calls).toHaveLength(2);
+      expect(calls[0].action.toolName).toBe('cluster_health');
+      expect(calls[0].output).toEqual({ status: 'yellow', number_of_nodes: 3 });
+      expect(calls[1].output).toBe('Node-3: CPU 98%');
+    });
+
+    it('should match named tool results by tool name', () => {
+      const calls = collectToolCalls([
+        { id: '1', timestamp: 0, type: 'action', content: '', toolName: 'a' },
+        { id: '2', timestamp: 0, type: 'action', content: '', toolName: 'b' },
+        { id: '3', timestamp: 0, type: 'tool_result', content: '"from b"', toolName: 'b' },
+        { id: '4', timestamp: 0, type: 'tool_result', content: '"from a"' },
+      ]);
+
+      expect(calls[0].output).toBe('from a');
+      expect(calls[1].output).toBe('from b');
+    });
+
+    it('should prefer toolOutput over content', () => {
+      const calls = collectToolCalls([
+        { id: '1', timestamp: 0, type: 'action', content: '', toolName: 'a', toolOutput: { ok: true } },
+      ]);
+
+      expect(calls[0].output).toEqual({ ok: true });
+    });
+  });
+
+  describe('tool-called', () => {
+    it('should pass when the tool was called', () => {
+      expect(evaluateOne({ type: 'tool-called', tool: 'cluster_health' }).passed).toBe(true);
+    });
+
+    it('should fail when the tool was not called', () => {
+      const result = evaluateOne({ type: 'tool-called', tool: 'cat_indices' });
+      expect(result.passed).toBe(false);
+      expect(result.message).toContain('0 time(s)');
+    });
+
+    it('should respect minCalls', () => {
+      expect(evaluateOne({ type: 'tool-called', tool: 'cluster_health', minCalls: 2 }).passed).toBe(false);
+    });
+  });
+
+  describe('tool-not-called', () => {
+    it('should pass when the tool was never called', () => {
+      expect(evaluateOne({ type: 'tool-not-called', tool: 'delete_index' }).passed).toBe(true);
+    });
+
+    it('should fail when the tool was called', () => {
+      expect(evaluateOne({ type: 'tool-not-called', tool: 'nodes_stats' }).passed).toBe(false);
+    });
+  });
+
+  describe('tool-args-match', () => {
+    it('should pass on a partial argument match', () => {
+      expect(evaluateOne({ type: 'tool-args-match', tool: 'cluster_health', args: { index: 'logs-*' } }).passed).toBe(true);
+    });
+
+    it('should fail when argument values differ', () => {
+      const result = evaluateOne({ type: 'tool-args-match', tool: 'cluster_health', args: { index: 'metrics-*' } });
+      expect(result.passed).toBe(false);
+      expect(result.message).toContain('No call');
+    });
+
+    it('should fail when the tool was never called', () => {
+      expect(evaluateOne({ type: 'tool-args-match', tool: 'missing', args: {} }).message).toContain('never called');
+    });
+  });
+
+  describe('response-regex', () => {
+    it('should match against the final response', () => {
+      expect(evaluateOne({ type: 'response-regex', pattern: 'node-3', flags: 'i' }).passed).toBe(true);
+    });
+
+    it('should support negation', () => {
+      expect(evaluateOne({ type: 'response-regex', pattern: 'I don\'t know', negate: true }).passed).toBe(true);
+      expect(evaluateOne({ type: 'response-regex', pattern: 'Root cause', negate: true }).passed).toBe(false);
+    });
+
+    it('should fall back to the last assistant step', () => {
+      const steps: TrajectoryStep[] = [{ id: '1', timestamp: 0, type: 'assistant', content: 'All good' }];
+      expect(evaluateOne({ type: 'response-regex', pattern: 'good' }, steps).passed).toBe(true);
+    });
+
+    it('should fail when there is no response', () => {
+      expect(evaluateOne({ type: 'response-regex', pattern: '.*' }, []).message).toContain('no final response');
+    });
+
+    it('should fail on an invalid pattern', () => {
+      expect(evaluateOne({ type: 'response-regex', pattern: '(' }).message).toContain('Invalid pattern');
+    });
+  });
+
+  describe('max-steps', () => {
+    it('should count all steps by default', () => {
+      expect(evaluateOne({ type: 'max-steps', max: 6 }).passed).toBe(true);
+      expect(evaluateOne({ type: 'max-steps', max: 5 }).passed).toBe(false);
+    });
+
+    it('should count only the given step type', () => {
+      const result = evaluateOne({ type: 'max-steps', max: 1, stepType: 'action' });
+      expect(result.passed).toBe(false);
+      expect(result.message).toBe('2 action steps (max 1)');
+    });
+  });
+
+  describe('max-latency', () => {
+    it('should use the provided duration', () => {
+      expect(evaluateOne({ type: 'max-latency', maxMs: 500 }, trajectory, 400).passed).toBe(true);
+      expect(evaluateOne({ type: 'max-latency', maxMs: 500 }, trajectory, 600).passed).toBe(false);
+    });
+
+    it('should fall back to the trajectory timestamp span', () => {
+      const result = evaluateOne({ type: 'max-latency', maxMs: 1000 });
+      expect(result.passed).toBe(false);
+      expect(result.message).toContain('2000ms');
+    });
+
+    it('should fail when the duration is unknown', () => {
+      expect(evaluateOne({ type: 'max-latency', maxMs: 1000 }, []).passed).toBe(false);
+    });
+  });
+
+  describe('json-schema', () => {
+    const schema = {
+      type: 'object',
+      required: ['status'],
+      properties: {
+        status: { type: 'string', enum: ['green', 'yellow', 'red'] },
+        number_of_nodes: { type: 'integer', minimum: 1 },
+      },
+    };
+
+    it('should pass when every tool output matches the schema', () => {
+      expect(evaluateOne({ type: 'json-schema', tool: 'cluster_health', schema }).passed).toBe(true);
+    });
+
+    it('should report violations', () => {
+      const result = evaluateOne({ type: 'json-schema', tool: 'nodes_stats', schema });
+      expect(result.passed).toBe(false);
+      expect(result.message).toContain('expected object, got string');
+    });
+
+    it('should fail when the tool produced no output', () => {
+      expect(evaluateOne({ type: 'json-schema', tool: 'missing', schema }).message).toContain('No output');
+    });
+  });
+
+  describe('validateJsonSchema', () => {
+    it('should validate nested arrays and objects', () => {
+      const schema = {
+        type: 'array',
+        minItems: 1,
+        items: { type: 'object', additionalProperties: false, properties: { name: { type: 'string', minLength: 2 } } },
+      };
+
+      expect(validateJsonSchema([{ name: 'ok' }], schema)).toEqual([]);
+      expect(validateJsonSchema([], schema)).toEqual(['$: fewer than 1 items']);
+      expect(validateJsonSchema([{ name: 'x', extra: 1 }], schema)).toEqual([
+        '$[0].name: shorter than 2 characters',
+        "$[0]: unexpected property 'extra'",
+      ]);
+    });
+
+    it('should accept integers for number types and support type unions', () => {
+      expect(validateJsonSchema(3, { type: 'number' })).toEqual([]);
+      expect(validateJsonSchema(null, { type: ['string', 'null'] })).toEqual([]);
+      expect(validateJsonSchema(1.5, { type: 'integer' })).toHaveLength(1);
+    });
+
+    it('should check const, pattern and maximum', () => {
+      expect(validateJsonSchema('abc', { const: 'abc', pattern: '^a' })).toEqual([]);
+      expect(validateJsonSchema(11, { maximum: 10 })).toEqual(['$: greater than 10']);
+    });
+  });
+
+  describe('matchesPartial', () => {
+    it('should compare arrays exactly and objects partially', () => {
+      expect(matchesPartial({ a: [1, 2], b: 1 }, { a: [1, 2] })).toBe(true);
+      expect(matchesPartial({ a: [1, 2, 3] }, { a: [1, 2] })).toBe(false);
+      expect(matchesPartial('x', { a: 1 })).toBe(false);
+    });
+  });
+
+  describe('pass/fail helpers', () => {
+    const passed: AssertionResult = { assertion: { type: 'max-steps', max: 1 }, passed: true, message: '' };
+    const failed: AssertionResult = { assertion: { type: 'max-steps', max: 1 }, passed: false, message: 'too many' };
+    const warning: AssertionResult = {
+      assertion: { type: 'max-steps', max: 1, severity: 'warning' },
+      passed: false,
+      message: '',
+    };
+
+    it('should treat failed assertions as errors by default', () => {
+      expect(hasAssertionFailure([passed, failed])).toBe(true);
+      expect(hasAssertionFailure([passed, warning])).toBe(false);
+      expect(hasAssertionFailure(undefined)).toBe(false);
+    });
+
+    it('should override a judge pass when an assertion fails', () => {
+      expect(applyAssertionResults('passed', [failed])).toBe('failed');
+      expect(applyAssertionResults('passed', [warning])).toBe('passed');
+      expect(applyAssertionResults('failed', [passed])).toBe('failed');
+    });
+
+    it('should build an assertion-only judgment', () => {
+      const judgment = buildAssertionJudgment([passed, failed, warning]);
+
+      expect(judgment.passFailStatus).toBe('failed');
+      expect(judgment.metrics.accuracy).toBe(33);
+      expect(judgment.llmJudgeReasoning).toContain('1/3 passed');
+      expect(judgment.llmJudgeReasoning).toContain('too many');
+      expect(judgment.improvementStrategies).toEqual([]);
+    });
+
+    it('should detect whether the judge has criteria', () => {
+      expect(hasJudgeCriteria({ expectedOutcomes: ['Find root cause'] })).toBe(true);
+      expect(hasJudgeCriteria({ expectedOutcomes: ['  '] })).toBe(false);
+      expect(hasJudgeCriteria({ expectedTrajectory: [{ step: 1, description: 'x', requiredTools: [] }] })).toBe(true);
+      expect(hasJudgeCriteria({})).toBe(false);
+    });
+  });
+});
@@ -71,6 +71,22 @@ describe('benchmarkExport', () => {
       expect(result[0]).not.toHaveProperty('subcategory');
     });
 
+    it('should include assertions when present', () => {
+      const assertions = [{ type: 'tool-called' as const, tool: 'cluster_health' }];
+      const result = convertTestCasesToExportFormat([makeTestCase({ assertions })]);
+
+      expect(result[0].assertions).toEqual(assertions);
+      expect(convertTestCasesToExportFormat([makeTestCase()])[0]).not.toHaveProperty('assertions');
+    });
+
+    it('should include follow-up questions when present', () => {
+      const followUpQuestions = [{ trigger: 'always' as const, question: 'Why?', businessValue: 'Explains the cause' }];
+      const result = convertTestCasesToExportFormat([makeTestCase({ followUpQuestions })]);
+
+      expect(result[0].followUpQuestions).toEqual(followUpQuestions);
+      expect(convertTestCasesToExportFormat([makeTestCase()])[0]).not.toHaveProperty('followUpQuestions');
+    });
+
     it('should handle missing optional fields gracefully', () => {
       const testCases = [makeTestCase({
         description: '',
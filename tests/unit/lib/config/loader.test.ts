@@ -36,6 +36,15 @@ describe('Config Loader', () => {
       expect(config.models).toBeDefined();
     });
 
+    it('should include the built-in execution defaults', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
+
+      const { loadConfigSync } = require('@/lib/config/loader');
+      const config = loadConfigSync();
+
+      expect(config.defaults).toEqual({ retry_attempts: 2, retry_delay_ms: 1000, timeout_ms: 600000 });
+    });
+
     it('should load TypeScript config when agent-health.config.ts exists', () => {
       (fs.existsSync as jest.Mock).mockImplementation((filepath: string) => {
         return filepath.includes('agent-health.config.ts');
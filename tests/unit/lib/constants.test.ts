@@ -125,6 +125,10 @@ describe('lib/constants', () => {
         expect(DEFAULT_CONFIG.defaults.retry_attempts).toBe(2);
         expect(DEFAULT_CONFIG.defaults.retry_delay_ms).toBe(1000);
       });
+
+      it('should have a test case timeout', () => {
+        expect(DEFAULT_CONFIG.defaults.timeout_ms).toBe(600000);
+      });
     });
   });
 
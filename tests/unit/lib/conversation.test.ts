@@ -0,0 +1,111 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  buildFollowUpTestCase,
+  classifyTurnOutcome,
+  combineTurnStatus,
+  getTurnReply,
+  selectFollowUp,
+} from '@/lib/conversation';
+import { ToolCallStatus } from '@/types';
+import type { ConversationTurn, FollowUpQuestion, TestCase, TrajectoryStep } from '@/types';
+
+const reply: TrajectoryStep = { id: '1', timestamp: 0, type: 'response', content: 'Node-3 is overloaded' };
+
+describe('conversation', () => {
+  describe('classifyTurnOutcome', () => {
+    it('should report results when the agent replied', () => {
+      expect(classifyTurnOutcome([reply])).toBe('results_available');
+    });
+
+    it('should report an error when a tool call failed', () => {
+      const failed: TrajectoryStep = {
+        id: '2', timestamp: 0, type: 'tool_result', content: 'timeout', status: ToolCallStatus.FAILURE,
+      };
+      expect(classifyTurnOutcome([failed, reply])).toBe('error');
+    });
+
+    it('should report an error when there is no reply', () => {
+      expect(classifyTurnOutcome([])).toBe('error');
+      expect(classifyTurnOutcome([{ ...reply, content: '  ' }])).toBe('error');
+    });
+  });
+
+  describe('selectFollowUp', () => {
+    const followUps: FollowUpQuestion[] = [
+      { trigger: 'error', question: 'What failed?', businessValue: '' },
+      { trigger: 'results_available', question: 'Why?', businessValue: '' },
+      { trigger: 'always', question: 'Summarize', businessValue: '' },
+    ];
+
+    it('should pick the first unused follow-up matching the outcome', () => {
+      expect(selectFollowUp(followUps, 'results_available', new Set())).toBe(1);
+      expect(selectFollowUp(followUps, 'error', new Set())).toBe(0);
+    });
+
+    it('should treat always as matching any outcome', () => {
+      expect(selectFollowUp(followUps, 'results_available', new Set([1]))).toBe(2);
+      expect(selectFollowUp(followUps, 'error', new Set([0]))).toBe(2);
+    });
+
+    it('should return -1 when nothing matches', () => {
+      expect(selectFollowUp(followUps, 'error', new Set([0, 2]))).toBe(-1);
+      expect(selectFollowUp([], 'results_available', new Set())).toBe(-1);
+    });
+  });
+
+  describe('getTurnReply', () => {
+    it('should return the final response or an empty string', () => {
+      expect(getTurnReply([reply])).toBe('Node-3 is overloaded');
+      expect(getTurnReply([])).toBe('');
+    });
+  });
+
+  describe('buildFollowUpTestCase', () => {
+    const testCase = {
+      id: 'tc-1',
+      initialPrompt: 'Why is latency high?',
+      expectedOutcomes: ['Finds the root cause'],
+      expectedPPL: 'source=logs',
+      assertions: [{ type: 'max-steps', max: 5 }],
+    } as TestCase;
+
+    it('should judge the follow-up question and its business value only', () => {
+      const derived = buildFollowUpTestCase(testCase, {
+        trigger: 'always', question: 'How do we fix it?', businessValue: 'Gives a remediation',
+      });
+
+      expect(derived.id).toBe('tc-1');
+      expect(derived.initialPrompt).toBe('How do we fix it?');
+      expect(derived.expectedOutcomes).toEqual([
+        'Answers the follow-up question: "How do we fix it?"',
+        'Gives a remediation',
+      ]);
+      expect(derived.expectedPPL).toBeUndefined();
+      expect(derived.assertions).toBeUndefined();
+    });
+
+    it('should skip an empty business value', () => {
+      const derived = buildFollowUpTestCase(testCase, { trigger: 'always', question: 'More?', businessValue: '' });
+      expect(derived.expectedOutcomes).toHaveLength(1);
+    });
+  });
+
+  describe('combineTurnStatus', () => {
+    const turn = (passFailStatus?: 'passed' | 'failed'): ConversationTurn => ({
+      turn: 1, prompt: 'q', outcome: 'results_available', trajectory: [], passFailStatus,
+    });
+
+    it('should fail when any turn failed', () => {
+      expect(combineTurnStatus('passed', [turn('passed'), turn('failed')])).toBe('failed');
+    });
+
+    it('should keep the conversation verdict otherwise', () => {
+      expect(combineTurnStatus('passed', [turn('passed'), turn()])).toBe('passed');
+      expect(combineTurnStatus('failed', [turn('passed')])).toBe('failed');
+    });
+  });
+});
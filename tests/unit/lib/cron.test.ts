@@ -0,0 +1,94 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getNextCronTime, listCronTimes, parseCron, validateCronExpression } from '@/lib/cron';
+
+// Local-time dates, matching how cron expressions are evaluated
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute);
+
+describe('cron', () => {
+  describe('parseCron', () => {
+    it('should expand wildcards, ranges, lists, and steps', () => {
+      const schedule = parseCron('*/15 9-11 1,15 * *');
+
+      expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.hours]).toEqual([9, 10, 11]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect(schedule.months.size).toBe(12);
+      expect(schedule.restrictedDayOfMonth).toBe(true);
+      expect(schedule.restrictedDayOfWeek).toBe(false);
+    });
+
+    it('should accept month and day names and fold day 7 into Sunday', () => {
+      const schedule = parseCron('0 0 * JAN-mar sat-7');
+
+      expect([...schedule.months]).toEqual([1, 2, 3]);
+      expect([...schedule.daysOfWeek].sort()).toEqual([0, 6]);
+    });
+
+    it('should expand macros', () => {
+      expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+      expect(parseCron('@hourly')).toEqual(parseCron('0 * * * *'));
+    });
+
+    it.each([
+      ['* * * *', 'Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got 4'],
+      ['60 * * * *', 'Invalid minute value "60" (expected 0-59)'],
+      ['* 5-2 * * *', 'Invalid hour range "5-2"'],
+      ['*/0 * * * *', 'Invalid minute step "0"'],
+      ['* * 0 * *', 'Invalid day of month value "0" (expected 1-31)'],
+      ['* * * foo *', 'Invalid month value "foo" (expected 1-12)'],
+    ])('should reject %j', (expression, error) => {
+      expect(() => parseCron(expression)).toThrow(error);
+    });
+  });
+
+  describe('getNextCronTime', () => {
+    it('should return the next matching minute strictly after the given time', () => {
+      expect(getNextCronTime('0 2 * * *', at(2024, 3, 10, 1, 30))).toEqual(at(2024, 3, 10, 2, 0));
+      expect(getNextCronTime('0 2 * * *', at(2024, 3, 10, 2, 0))).toEqual(at(2024, 3, 11, 2, 0));
+    });
+
+    it('should skip to matching weekdays and months', () => {
+      // 2024-03-09 is a Saturday
+      expect(getNextCronTime('30 6 * * mon-fri', at(2024, 3, 9, 12))).toEqual(at(2024, 3, 11, 6, 30));
+      expect(getNextCronTime('@yearly', at(2024, 3, 9))).toEqual(at(2025, 1, 1));
+    });
+
+    it('should fire on either day field when both are restricted', () => {
+      // The 15th, or any Monday: 2024-03-11 is a Monday
+      expect(getNextCronTime('0 0 15 * mon', at(2024, 3, 9))).toEqual(at(2024, 3, 11));
+      expect(getNextCronTime('0 0 15 * mon', at(2024, 3, 11))).toEqual(at(2024, 3, 15));
+    });
+
+    it('should return null for expressions that never fire', () => {
+      expect(getNextCronTime('0 0 30 2 *', at(2024, 1, 1))).toBeNull();
+    });
+  });
+
+  describe('listCronTimes', () => {
+    it('should list fire times in the range, oldest first, up to the limit', () => {
+      const times = listCronTimes('0 * * * *', at(2024, 3, 10, 1, 0), at(2024, 3, 10, 4, 0), 10);
+
+      expect(times).toEqual([at(2024, 3, 10, 2), at(2024, 3, 10, 3), at(2024, 3, 10, 4)]);
+      expect(listCronTimes('* * * * *', at(2024, 3, 10), at(2024, 3, 11), 5)).toHaveLength(5);
+    });
+  });
+
+  describe('validateCronExpression', () => {
+    it('should accept valid expressions', () => {
+      expect(validateCronExpression('0 2 * * *')).toBeNull();
+      expect(validateCronExpression('@weekly')).toBeNull();
+    });
+
+    it('should reject missing, invalid, and never-firing expressions', () => {
+      expect(validateCronExpression('')).toBe('cron is required and must be a non-empty string');
+      expect(validateCronExpression(5)).toBe('cron is required and must be a non-empty string');
+      expect(validateCronExpression('0 25 * * *')).toBe('Invalid hour value "25" (expected 0-23)');
+      expect(validateCronExpression('0 0 31 4 *')).toBe('Cron expression "0 0 31 4 *" never fires');
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MAX_RETRY_DELAY_MS, getErrorStatus, getRetryDelay, isRetryableError } from '@/lib/executionPolicy';
+
+const withCode = (message: string, code: string) => Object.assign(new Error(message), { code });
+
+describe('executionPolicy', () => {
+  describe('getErrorStatus', () => {
+    it('should read status properties', () => {
+      expect(getErrorStatus({ status: 502 })).toBe(502);
+      expect(getErrorStatus({ statusCode: 429 })).toBe(429);
+    });
+
+    it('should parse connector error messages', () => {
+      expect(getErrorStatus(new Error('HTTP 503: Service Unavailable'))).toBe(503);
+      expect(getErrorStatus(new Error('REST request failed: 404 - Not Found'))).toBe(404);
+      expect(getErrorStatus(new Error('Connection failed'))).toBeUndefined();
+      expect(getErrorStatus('HTTP 500')).toBeUndefined();
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry 5xx and 429 responses', () => {
+      expect(isRetryableError(new Error('HTTP 500: Internal Server Error'))).toBe(true);
+      expect(isRetryableError(new Error('REST request failed: 429 - Slow down'))).toBe(true);
+    });
+
+    it('should not retry other 4xx responses', () => {
+      expect(isRetryableError(new Error('HTTP 400: Bad Request'))).toBe(false);
+      expect(isRetryableError(new Error('REST request failed: 401 - Unauthorized'))).toBe(false);
+    });
+
+    it('should retry network failures, including ones wrapped by fetch', () => {
+      expect(isRetryableError(withCode('connect ECONNREFUSED', 'ECONNREFUSED'))).toBe(true);
+      expect(isRetryableError(new TypeError('fetch failed', { cause: withCode('reset', 'ECONNRESET') }))).toBe(true);
+      expect(isRetryableError(new Error('socket hang up'))).toBe(true);
+    });
+
+    it('should not retry aborts or other errors', () => {
+      const abortError = new Error('The operation was aborted');
+      abortError.name = 'AbortError';
+
+      expect(isRetryableError(abortError)).toBe(false);
+      expect(isRetryableError(new Error('Command not found'))).toBe(false);
+      expect(isRetryableError(undefined)).toBe(false);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should double the base delay on each retry', () => {
+      expect([1, 2, 3, 4].map(retry => getRetryDelay(retry, 1000))).toEqual([1000, 2000, 4000, 8000]);
+    });
+
+    it('should cap the delay', () => {
+      expect(getRetryDelay(20, 1000)).toBe(MAX_RETRY_DELAY_MS);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getJsonPathValue, parseJsonPath, selectJsonPath } from '@/lib/jsonPath';
+
+const data = {
+  result: { answer: 'Green', 'run-id': 'r1' },
+  steps: [
+    { name: 'cat_shards', args: { index: 'logs' } },
+    { name: 'cluster_health', args: {} },
+  ],
+};
+
+describe('parseJsonPath', () => {
+  it('should split dot, bracket, index, and wildcard segments', () => {
+    expect(parseJsonPath("$.steps[0]['name']")).toEqual([
+      { kind: 'key', key: 'steps' },
+      { kind: 'index', index: 0 },
+      { kind: 'key', key: 'name' },
+    ]);
+    expect(parseJsonPath('steps[*].args.*')).toEqual([
+      { kind: 'key', key: 'steps' },
+      { kind: 'wildcard' },
+      { kind: 'key', key: 'args' },
+      { kind: 'wildcard' },
+    ]);
+    expect(parseJsonPath('$')).toEqual([]);
+  });
+
+  it('should reject paths outside the supported subset', () => {
+    expect(() => parseJsonPath('$..name')).toThrow("Invalid JSONPath '$..name'");
+    expect(() => parseJsonPath('$.steps[?(@.name)]')).toThrow('Invalid JSONPath');
+  });
+});
+
+describe('selectJsonPath', () => {
+  it('should select every match of a wildcard', () => {
+    expect(selectJsonPath(data, '$.steps[*].name')).toEqual(['cat_shards', 'cluster_health']);
+  });
+
+  it('should count negative indexes from the end', () => {
+    expect(selectJsonPath(data, '$.steps[-1].name')).toEqual(['cluster_health']);
+  });
+
+  it('should select nothing for missing fields', () => {
+    expect(selectJsonPath(data, '$.steps[5].name')).toEqual([]);
+    expect(selectJsonPath(data, '$.result.answer.text')).toEqual([]);
+  });
+});
+
+describe('getJsonPathValue', () => {
+  it('should return the first match', () => {
+    expect(getJsonPathValue(data, "$.result['run-id']")).toBe('r1');
+    expect(getJsonPathValue(data, 'result.answer')).toBe('Green');
+    expect(getJsonPathValue(data, '$')).toBe(data);
+    expect(getJsonPathValue(data, '$.missing')).toBeUndefined();
+  });
+});
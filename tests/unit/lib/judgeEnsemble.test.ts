@@ -0,0 +1,165 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  aggregateJudgments,
+  aggregateMetrics,
+  aggregateVerdict,
+  calculateAgreement,
+  isEnsemble,
+  isLowAgreement,
+  settleEnsembleJudges,
+  validateJudgeEnsemble,
+  type EnsembleMemberJudgment,
+} from '@/lib/judgeEnsemble';
+
+const judgment = (
+  modelId: string,
+  passFailStatus: 'passed' | 'failed',
+  accuracy: number,
+  issues: string[] = []
+): EnsembleMemberJudgment => ({
+  modelId,
+  passFailStatus,
+  metrics: { accuracy },
+  llmJudgeReasoning: `${modelId} says ${passFailStatus}`,
+  improvementStrategies: issues.map(issue => ({
+    category: 'Tools',
+    issue,
+    recommendation: `Fix ${issue}`,
+    priority: 'medium' as const,
+  })),
+});
+
+describe('judgeEnsemble', () => {
+  describe('isEnsemble', () => {
+    it('should require more than one model', () => {
+      expect(isEnsemble(undefined)).toBe(false);
+      expect(isEnsemble({ models: ['a'] })).toBe(false);
+      expect(isEnsemble({ models: ['a', 'a'] })).toBe(true);
+    });
+  });
+
+  describe('calculateAgreement', () => {
+    it('should return the share of judges agreeing with the majority', () => {
+      expect(calculateAgreement(['passed', 'passed', 'failed'])).toBeCloseTo(2 / 3);
+      expect(calculateAgreement(['failed', 'failed'])).toBe(1);
+      expect(calculateAgreement(['passed', 'failed'])).toBe(0.5);
+      expect(calculateAgreement([])).toBe(1);
+    });
+  });
+
+  describe('isLowAgreement', () => {
+    it('should flag agreement below the threshold', () => {
+      expect(isLowAgreement(0.5)).toBe(true);
+      expect(isLowAgreement(0.75)).toBe(false);
+      expect(isLowAgreement(undefined)).toBe(false);
+    });
+  });
+
+  describe('aggregateVerdict', () => {
+    it('should require a strict majority for majority voting', () => {
+      expect(aggregateVerdict(['passed', 'passed', 'failed'], 'majority')).toBe('passed');
+      expect(aggregateVerdict(['passed', 'failed'], 'majority')).toBe('failed');
+    });
+
+    it('should pass ties for mean', () => {
+      expect(aggregateVerdict(['passed', 'failed'], 'mean')).toBe('passed');
+      expect(aggregateVerdict(['passed', 'failed', 'failed'], 'mean')).toBe('failed');
+    });
+
+    it('should require every judge to pass for min', () => {
+      expect(aggregateVerdict(['passed', 'passed'], 'min')).toBe('passed');
+      expect(aggregateVerdict(['passed', 'failed'], 'min')).toBe('failed');
+      expect(aggregateVerdict([], 'min')).toBe('failed');
+    });
+  });
+
+  describe('aggregateMetrics', () => {
+    it('should average scores, or take the lowest for min', () => {
+      const metrics = [
+        { accuracy: 90, faithfulness: 80 },
+        { accuracy: 55 },
+      ];
+
+      expect(aggregateMetrics(metrics, 'mean')).toEqual({ accuracy: 73, faithfulness: 80 });
+      expect(aggregateMetrics(metrics, 'min')).toEqual({ accuracy: 55, faithfulness: 80 });
+    });
+  });
+
+  describe('aggregateJudgments', () => {
+    it('should combine verdicts, reasoning and improvement strategies', () => {
+      const result = aggregateJudgments([
+        judgment('judge-a', 'passed', 90, ['Slow query']),
+        judgment('judge-b', 'failed', 30, ['Slow query', 'Wrong index']),
+        judgment('judge-a', 'passed', 80),
+      ]);
+
+      expect(result.passFailStatus).toBe('passed');
+      expect(result.metrics.accuracy).toBe(67);
+      expect(result.agreement).toBeCloseTo(2 / 3);
+      expect(result.llmJudgeReasoning).toContain('3 judges, majority');
+      expect(result.llmJudgeReasoning).toContain('**Judge 2 · judge-b** (FAILED, 30%)');
+      expect(result.llmJudgeReasoning).toContain('judge-b says failed');
+      expect(result.improvementStrategies.map(s => s.issue)).toEqual(['Slow query', 'Wrong index']);
+    });
+
+    it('should honor the aggregation mode', () => {
+      const result = aggregateJudgments(
+        [judgment('judge-a', 'passed', 90), judgment('judge-b', 'failed', 30)],
+        'min'
+      );
+
+      expect(result.passFailStatus).toBe('failed');
+      expect(result.metrics.accuracy).toBe(30);
+      expect(result.agreement).toBe(0.5);
+    });
+
+    it('should list the judges that failed', () => {
+      const result = aggregateJudgments(
+        [judgment('judge-a', 'passed', 90)],
+        'majority',
+        [{ model: 'judge-b', error: 'Throttled' }]
+      );
+
+      expect(result.llmJudgeReasoning).toContain('1 judges, majority');
+      expect(result.llmJudgeReasoning).toContain('**Failed judges** (left out): judge-b (Throttled)');
+    });
+  });
+
+  describe('settleEnsembleJudges', () => {
+    it('should keep the judgments of the judges that succeed', async () => {
+      const judge = jest.fn(async (model: string) => {
+        if (model === 'judge-b') throw new Error('Throttled');
+        return judgment(model, 'passed', 90);
+      });
+
+      const { judgments, failures } = await settleEnsembleJudges(['judge-a', 'judge-b', 'judge-c'], judge);
+
+      expect(judge).toHaveBeenCalledTimes(3);
+      expect(judgments.map(j => j.modelId)).toEqual(['judge-a', 'judge-c']);
+      expect(failures).toEqual([{ model: 'judge-b', error: 'Throttled' }]);
+    });
+
+    it('should fail when every judge fails', async () => {
+      await expect(
+        settleEnsembleJudges(['judge-a', 'judge-b'], async model => { throw new Error(`${model} is down`); })
+      ).rejects.toThrow('Every judge of the ensemble failed: judge-a: judge-a is down; judge-b: judge-b is down');
+    });
+  });
+
+  describe('validateJudgeEnsemble', () => {
+    it('should accept a list of models with an optional aggregation', () => {
+      expect(validateJudgeEnsemble({ models: ['judge-a'] })).toBeNull();
+      expect(validateJudgeEnsemble({ models: ['judge-a', 'judge-b'], aggregation: 'mean' })).toBeNull();
+    });
+
+    it('should reject missing models or an unknown aggregation', () => {
+      expect(validateJudgeEnsemble(undefined)).toContain('judgeEnsemble.models');
+      expect(validateJudgeEnsemble({ models: ['judge-a', ''] })).toContain('judgeEnsemble.models');
+      expect(validateJudgeEnsemble({ models: ['judge-a'], aggregation: 'max' })).toContain('judgeEnsemble.aggregation');
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  combinePairwiseVerdicts,
+  parsePairwiseWinner,
+  summarizePairwise,
+  toPairwiseOutcome,
+  unswapWinner,
+} from '@/lib/pairwiseJudge';
+import type { PairwiseComparisonRow, PairwiseOutcome } from '@/types';
+
+const row = (testCaseId: string, outcome?: PairwiseOutcome): PairwiseComparisonRow => ({
+  testCaseId,
+  testCaseName: testCaseId,
+  outcome,
+});
+
+describe('pairwiseJudge', () => {
+  describe('parsePairwiseWinner', () => {
+    it('should accept plain and prefixed winners in any case', () => {
+      expect(parsePairwiseWinner('A')).toBe('A');
+      expect(parsePairwiseWinner('b')).toBe('B');
+      expect(parsePairwiseWinner(' Response A ')).toBe('A');
+      expect(parsePairwiseWinner('trajectory B')).toBe('B');
+    });
+
+    it('should treat anything else as a tie', () => {
+      expect(parsePairwiseWinner('tie')).toBe('tie');
+      expect(parsePairwiseWinner('equal')).toBe('tie');
+      expect(parsePairwiseWinner(undefined)).toBe('tie');
+      expect(parsePairwiseWinner(42)).toBe('tie');
+    });
+  });
+
+  describe('unswapWinner', () => {
+    it('should swap A and B and keep ties', () => {
+      expect(unswapWinner('A')).toBe('B');
+      expect(unswapWinner('B')).toBe('A');
+      expect(unswapWinner('tie')).toBe('tie');
+    });
+  });
+
+  describe('combinePairwiseVerdicts', () => {
+    it('should keep the winner when both orders agree', () => {
+      const judgment = combinePairwiseVerdicts([
+        { order: 'AB', winner: 'B', reasoning: 'B found the root cause' },
+        { order: 'BA', winner: 'B', reasoning: 'B was more thorough' },
+      ]);
+
+      expect(judgment.winner).toBe('B');
+      expect(judgment.consistent).toBe(true);
+      expect(judgment.verdicts).toHaveLength(2);
+      expect(judgment.reasoning).toContain('B is better');
+      expect(judgment.reasoning).toContain('**Order A, B** (B is better): B found the root cause');
+      expect(judgment.reasoning).toContain('**Order B, A** (B is better): B was more thorough');
+    });
+
+    it('should count a pick that changes with the order as a tie', () => {
+      const judgment = combinePairwiseVerdicts([
+        { order: 'AB', winner: 'A', reasoning: 'first looked better' },
+        { order: 'BA', winner: 'B', reasoning: 'first looked better' },
+      ]);
+
+      expect(judgment.winner).toBe('tie');
+      expect(judgment.consistent).toBe(false);
+      expect(judgment.reasoning).toContain('position bias');
+    });
+
+    it('should report a consistent tie', () => {
+      const judgment = combinePairwiseVerdicts([
+        { order: 'AB', winner: 'tie', reasoning: 'same' },
+        { order: 'BA', winner: 'tie', reasoning: 'same' },
+      ]);
+
+      expect(judgment.winner).toBe('tie');
+      expect(judgment.consistent).toBe(true);
+    });
+  });
+
+  describe('toPairwiseOutcome', () => {
+    it('should map winners to the candidate outcome', () => {
+      expect(toPairwiseOutcome('B')).toBe('win');
+      expect(toPairwiseOutcome('A')).toBe('loss');
+      expect(toPairwiseOutcome('tie')).toBe('tie');
+    });
+  });
+
+  describe('summarizePairwise', () => {
+    it('should tally outcomes and count ties as half a win', () => {
+      const summary = summarizePairwise([
+        row('tc-1', 'win'),
+        row('tc-2', 'win'),
+        row('tc-3', 'tie'),
+        row('tc-4', 'loss'),
+      ]);
+
+      expect(summary).toEqual({ wins: 2, ties: 1, losses: 1, total: 4, winRate: 0.625 });
+    });
+
+    it('should ignore rows without an outcome', () => {
+      const summary = summarizePairwise([row('tc-1', 'loss'), row('tc-2')]);
+
+      expect(summary.total).toBe(1);
+      expect(summary.winRate).toBe(0);
+    });
+
+    it('should return a zero win rate when nothing was judged', () => {
+      expect(summarizePairwise([])).toEqual({ wins: 0, ties: 0, losses: 0, total: 0, winRate: 0 });
+    });
+  });
+});
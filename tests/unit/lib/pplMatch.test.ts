@@ -0,0 +1,131 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  applyPPLMatch,
+  comparePPL,
+  editDistance,
+  evaluatePPLMatch,
+  extractPPLQueries,
+  normalizePPL,
+  normalizePPLWhitespace,
+} from '@/lib/pplMatch';
+import type { TrajectoryStep } from '@/types';
+
+const pplStep = (query: string, id = '1'): TrajectoryStep => ({
+  id,
+  timestamp: 0,
+  type: 'action',
+  content: 'Running PPL',
+  toolName: 'execute_ppl_query',
+  toolArgs: { query },
+});
+
+describe('pplMatch', () => {
+  describe('extractPPLQueries', () => {
+    it('should extract queries from execute_ppl_query tool calls', () => {
+      const trajectory: TrajectoryStep[] = [
+        pplStep('source=logs | head 5'),
+        { id: '2', timestamp: 0, type: 'tool_result', content: '[]' },
+        { id: '3', timestamp: 0, type: 'action', content: '', toolName: 'cluster_health', toolArgs: { query: 'x' } },
+        { id: '4', timestamp: 0, type: 'action', content: '', toolName: 'execute_ppl_query', toolArgs: { ppl: 'source=traces' } },
+      ];
+
+      expect(extractPPLQueries(trajectory)).toEqual(['source=logs | head 5', 'source=traces']);
+    });
+
+    it('should skip calls without a query argument', () => {
+      expect(extractPPLQueries([{ ...pplStep(''), toolArgs: { limit: 5 } }])).toEqual([]);
+    });
+  });
+
+  describe('normalization', () => {
+    it('should collapse whitespace and spacing around operators', () => {
+      expect(normalizePPLWhitespace('source=logs   |  where  status>=500;')).toBe(
+        normalizePPLWhitespace('source = logs | where status >= 500')
+      );
+    });
+
+    it('should lowercase keywords but keep field names and strings', () => {
+      expect(normalizePPL("SOURCE=logs | WHERE Service = 'API' | STATS COUNT() BY Host")).toBe(
+        "source = logs | where Service = 'API' | stats count ( ) by Host"
+      );
+    });
+
+    it('should ignore field order in fields and stats clauses', () => {
+      expect(normalizePPL('source=logs | fields b, a, c')).toBe(normalizePPL('source=logs | fields a, c, b'));
+      expect(normalizePPL('source=logs | stats max(x), count() by host, service')).toBe(
+        normalizePPL('source=logs | stats count(), max(x) by service, host')
+      );
+    });
+
+    it('should treat a leading search command as optional', () => {
+      expect(normalizePPL('search source=logs')).toBe(normalizePPL('source=logs'));
+    });
+  });
+
+  describe('editDistance', () => {
+    it('should compute Levenshtein distance', () => {
+      expect(editDistance('kitten', 'sitting')).toBe(3);
+      expect(editDistance('', 'abc')).toBe(3);
+      expect(editDistance('same', 'same')).toBe(0);
+    });
+  });
+
+  describe('comparePPL', () => {
+    it('should report an exact match for whitespace-only differences', () => {
+      const result = comparePPL('source=logs | head 10', 'source = logs|head 10');
+      expect(result.exactMatch).toBe(true);
+      expect(result.structuralMatch).toBe(true);
+      expect(result.score).toBe(100);
+    });
+
+    it('should report a structural match for keyword casing and field order', () => {
+      const result = comparePPL('source=logs | fields a, b', 'SOURCE=logs | FIELDS b, a');
+      expect(result.exactMatch).toBe(false);
+      expect(result.structuralMatch).toBe(true);
+      expect(result.score).toBe(100);
+    });
+
+    it('should score partial matches by edit distance', () => {
+      const result = comparePPL('source=logs | where status = 500', 'source=logs | where status = 404');
+      expect(result.structuralMatch).toBe(false);
+      expect(result.score).toBeGreaterThan(80);
+      expect(result.score).toBeLessThan(100);
+    });
+  });
+
+  describe('evaluatePPLMatch', () => {
+    it('should return undefined when there is no expectedPPL', () => {
+      expect(evaluatePPLMatch(undefined, [pplStep('source=logs')])).toBeUndefined();
+      expect(evaluatePPLMatch('  ', [pplStep('source=logs')])).toBeUndefined();
+    });
+
+    it('should score 0 when the agent generated no PPL', () => {
+      const result = evaluatePPLMatch('source=logs', []);
+      expect(result?.score).toBe(0);
+      expect(result?.actual).toBeUndefined();
+    });
+
+    it('should pick the best-matching query', () => {
+      const result = evaluatePPLMatch('source=logs | head 5', [
+        pplStep('source=metrics', '1'),
+        pplStep('source=logs | head 5', '2'),
+      ]);
+      expect(result?.actual).toBe('source=logs | head 5');
+      expect(result?.score).toBe(100);
+    });
+  });
+
+  describe('applyPPLMatch', () => {
+    it('should add pplMatch only when expectedPPL is set', () => {
+      expect(applyPPLMatch({ accuracy: 80 }, 'source=logs', [pplStep('source=logs')])).toEqual({
+        accuracy: 80,
+        pplMatch: 100,
+      });
+      expect(applyPPLMatch({ accuracy: 80 }, undefined, [pplStep('source=logs')])).toEqual({ accuracy: 80 });
+    });
+  });
+});
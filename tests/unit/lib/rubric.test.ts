@@ -0,0 +1,95 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  applyBenchmarkRubric,
+  DEFAULT_PASS_THRESHOLD,
+  formatRubricLabel,
+  getPassThreshold,
+  getWeightedCriteria,
+  resolveRubric,
+  rubricsEqual,
+} from '@/lib/rubric';
+import type { JudgeRubric } from '@/types';
+
+const testCaseRubric: JudgeRubric = {
+  name: 'Test case rubric',
+  criteria: [{ name: 'Answer', description: 'Answers the question' }],
+};
+
+const benchmarkRubric: JudgeRubric = {
+  name: 'Benchmark rubric',
+  criteria: [{ name: 'Tone', description: 'Is polite' }],
+  passThreshold: 60,
+};
+
+describe('rubric', () => {
+  describe('resolveRubric', () => {
+    it('should prefer the test case rubric', () => {
+      expect(resolveRubric({ rubric: testCaseRubric }, { rubric: benchmarkRubric })).toBe(testCaseRubric);
+    });
+
+    it('should fall back to the benchmark rubric', () => {
+      expect(resolveRubric({}, { rubric: benchmarkRubric })).toBe(benchmarkRubric);
+      expect(resolveRubric({})).toBeUndefined();
+    });
+  });
+
+  describe('applyBenchmarkRubric', () => {
+    it('should return the same test case when nothing changes', () => {
+      const testCase = { id: 'tc-1', rubric: testCaseRubric };
+      expect(applyBenchmarkRubric(testCase, { rubric: benchmarkRubric })).toBe(testCase);
+      const bare = { id: 'tc-2' };
+      expect(applyBenchmarkRubric(bare)).toBe(bare);
+    });
+
+    it('should copy the benchmark rubric onto a test case without one', () => {
+      const testCase = { id: 'tc-1' };
+      expect(applyBenchmarkRubric(testCase, { rubric: benchmarkRubric })).toEqual({
+        id: 'tc-1',
+        rubric: benchmarkRubric,
+      });
+      expect(testCase).toEqual({ id: 'tc-1' });
+    });
+  });
+
+  describe('getWeightedCriteria', () => {
+    it('should default weights to 1 and compute shares', () => {
+      const criteria = getWeightedCriteria({
+        criteria: [
+          { name: 'A', description: 'a', weight: 2 },
+          { name: 'B', description: 'b' },
+          { name: 'C', description: 'c', weight: 1 },
+        ],
+      });
+      expect(criteria.map(c => c.weight)).toEqual([2, 1, 1]);
+      expect(criteria.map(c => c.share)).toEqual([0.5, 0.25, 0.25]);
+    });
+  });
+
+  describe('getPassThreshold', () => {
+    it('should use the rubric threshold or the default', () => {
+      expect(getPassThreshold(benchmarkRubric)).toBe(60);
+      expect(getPassThreshold(testCaseRubric)).toBe(DEFAULT_PASS_THRESHOLD);
+    });
+  });
+
+  describe('formatRubricLabel', () => {
+    it('should include the version when set', () => {
+      expect(formatRubricLabel({ ...testCaseRubric, version: 3 })).toBe('Test case rubric v3');
+      expect(formatRubricLabel(testCaseRubric)).toBe('Test case rubric');
+      expect(formatRubricLabel({ criteria: [] })).toBe('Custom rubric');
+    });
+  });
+
+  describe('rubricsEqual', () => {
+    it('should compare rubrics by value', () => {
+      expect(rubricsEqual(testCaseRubric, { ...testCaseRubric })).toBe(true);
+      expect(rubricsEqual(testCaseRubric, benchmarkRubric)).toBe(false);
+      expect(rubricsEqual(undefined, undefined)).toBe(true);
+      expect(rubricsEqual(testCaseRubric, undefined)).toBe(false);
+    });
+  });
+});
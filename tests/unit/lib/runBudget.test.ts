@@ -0,0 +1,102 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  addRunUsage,
+  countToolCalls,
+  getRunBudgetViolation,
+  getTestCaseBudgetViolation,
+  validateRunBudget,
+} from '@/lib/runBudget';
+import type { TrajectoryStep } from '@/types';
+
+const step = (type: TrajectoryStep['type'], toolName?: string): TrajectoryStep => ({
+  id: `${type}-${toolName ?? 'step'}`,
+  timestamp: 0,
+  type,
+  content: '',
+  ...(toolName && { toolName }),
+});
+
+const trajectory = [
+  step('thinking'),
+  step('action', 'search'),
+  step('tool_result'),
+  step('action', 'search'),
+  step('tool_result'),
+  step('response'),
+];
+
+describe('runBudget', () => {
+  describe('validateRunBudget', () => {
+    it('should accept absent, empty, and positive budgets', () => {
+      expect(validateRunBudget(undefined)).toBeNull();
+      expect(validateRunBudget({})).toBeNull();
+      expect(validateRunBudget({
+        maxTotalTokens: 500000,
+        maxCostUsd: 2.5,
+        maxDurationMs: 600000,
+        maxStepsPerTestCase: 50,
+        maxToolCallsPerTestCase: 20,
+      })).toBeNull();
+    });
+
+    it.each([
+      [null, 'budget must be an object'],
+      [[5], 'budget must be an object'],
+      [{ maxTokens: 5 }, 'Unknown budget field "maxTokens" (expected one of maxTotalTokens, maxDurationMs, maxStepsPerTestCase, maxToolCallsPerTestCase, maxCostUsd)'],
+      [{ maxTotalTokens: 0 }, 'budget.maxTotalTokens must be a positive integer'],
+      [{ maxStepsPerTestCase: 2.5 }, 'budget.maxStepsPerTestCase must be a positive integer'],
+      [{ maxCostUsd: '5' }, 'budget.maxCostUsd must be a positive number'],
+      [{ maxCostUsd: -1 }, 'budget.maxCostUsd must be a positive number'],
+    ])('should reject %j', (budget, error) => {
+      expect(validateRunBudget(budget)).toBe(error);
+    });
+  });
+
+  describe('countToolCalls', () => {
+    it('should count named action steps', () => {
+      expect(countToolCalls(trajectory)).toBe(2);
+      expect(countToolCalls([step('action')])).toBe(0);
+    });
+  });
+
+  describe('getTestCaseBudgetViolation', () => {
+    it('should allow trajectories within the limits', () => {
+      expect(getTestCaseBudgetViolation(undefined, trajectory)).toBeNull();
+      expect(getTestCaseBudgetViolation({ maxStepsPerTestCase: 6, maxToolCallsPerTestCase: 2 }, trajectory)).toBeNull();
+    });
+
+    it('should report the first limit exceeded', () => {
+      expect(getTestCaseBudgetViolation({ maxStepsPerTestCase: 5 }, trajectory))
+        .toBe('Test case exceeded its budget of 5 trajectory steps');
+      expect(getTestCaseBudgetViolation({ maxToolCallsPerTestCase: 1 }, trajectory))
+        .toBe('Test case exceeded its budget of 1 tool calls');
+    });
+  });
+
+  describe('getRunBudgetViolation', () => {
+    const usage = { inputTokens: 8000, outputTokens: 2000, totalTokens: 10000, costUsd: 0.054 };
+
+    it('should allow usage within the limits', () => {
+      expect(getRunBudgetViolation(undefined, usage)).toBeNull();
+      expect(getRunBudgetViolation({ maxTotalTokens: 10000, maxCostUsd: 1 }, undefined)).toBeNull();
+      expect(getRunBudgetViolation({ maxTotalTokens: 10000, maxCostUsd: 1 }, usage)).toBeNull();
+    });
+
+    it('should report token and cost overruns', () => {
+      expect(getRunBudgetViolation({ maxTotalTokens: 9999 }, usage)).toBe('Run used 10000 tokens, over its budget of 9999');
+      expect(getRunBudgetViolation({ maxCostUsd: 0.05 }, usage)).toBe('Run cost $0.0540, over its budget of $0.05');
+    });
+  });
+
+  describe('addRunUsage', () => {
+    it('should start from zero and accumulate', () => {
+      const first = addRunUsage(undefined, 100, 20, 0.5);
+      expect(first).toEqual({ inputTokens: 100, outputTokens: 20, totalTokens: 120, costUsd: 0.5 });
+      expect(addRunUsage(first, 50, 10, 0.25)).toEqual({ inputTokens: 150, outputTokens: 30, totalTokens: 180, costUsd: 0.75 });
+    });
+  });
+});
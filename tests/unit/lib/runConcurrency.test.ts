@@ -0,0 +1,37 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MAX_RUN_CONCURRENCY, resolveRunConcurrency, validateRunConcurrency } from '@/lib/runConcurrency';
+
+describe('runConcurrency', () => {
+  describe('validateRunConcurrency', () => {
+    it('should accept an absent value and integers in range', () => {
+      expect(validateRunConcurrency(undefined)).toBeNull();
+      expect(validateRunConcurrency(1)).toBeNull();
+      expect(validateRunConcurrency(MAX_RUN_CONCURRENCY)).toBeNull();
+    });
+
+    it('should reject non-integers and values out of range', () => {
+      for (const value of [0, -1, 1.5, MAX_RUN_CONCURRENCY + 1, '4', NaN, null]) {
+        expect(validateRunConcurrency(value)).toBe(`concurrency must be an integer from 1 to ${MAX_RUN_CONCURRENCY}`);
+      }
+    });
+  });
+
+  describe('resolveRunConcurrency', () => {
+    it('should default to one worker', () => {
+      expect(resolveRunConcurrency(undefined, 10)).toBe(1);
+    });
+
+    it('should not start more workers than test cases', () => {
+      expect(resolveRunConcurrency(8, 3)).toBe(3);
+      expect(resolveRunConcurrency(4, 10)).toBe(4);
+    });
+
+    it('should start one worker for an empty benchmark', () => {
+      expect(resolveRunConcurrency(4, 0)).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  MAX_RUN_ITERATIONS,
+  computeIterationStats,
+  computeRunIterationStats,
+  getIterationOutcomes,
+  passAtK,
+  passHatK,
+  summarizeRunIterations,
+  validateRunIterations,
+} from '@/lib/runIterations';
+import type { BenchmarkRun, EvaluationReport } from '@/types';
+
+const report = (id: string, passed: boolean, accuracy: number, extra: Partial<EvaluationReport> = {}) =>
+  ({
+    id,
+    passFailStatus: passed ? 'passed' : 'failed',
+    metrics: { accuracy },
+    metricsStatus: 'ready',
+    ...extra,
+  }) as EvaluationReport;
+
+const createRun = (results: BenchmarkRun['results'], iterations = 3): BenchmarkRun => ({
+  id: 'run-1',
+  name: 'Run',
+  createdAt: '2024-01-01T00:00:00Z',
+  agentKey: 'agent',
+  modelId: 'model',
+  iterations,
+  results,
+});
+
+describe('runIterations', () => {
+  describe('validateRunIterations', () => {
+    it('should accept absent and in-range integers', () => {
+      expect(validateRunIterations(undefined)).toBeNull();
+      expect(validateRunIterations(1)).toBeNull();
+      expect(validateRunIterations(MAX_RUN_ITERATIONS)).toBeNull();
+    });
+
+    it('should reject anything else', () => {
+      for (const value of [0, -1, 2.5, MAX_RUN_ITERATIONS + 1, '3', NaN, null]) {
+        expect(validateRunIterations(value)).toBe(`iterations must be an integer from 1 to ${MAX_RUN_ITERATIONS}`);
+      }
+    });
+  });
+
+  describe('passAtK', () => {
+    it('should equal the pass rate for k = 1', () => {
+      expect(passAtK(4, 1, 1)).toBeCloseTo(0.25);
+    });
+
+    it('should be the chance that at least one of k samples passes', () => {
+      // 1 - C(2,2)/C(4,2) = 1 - 1/6
+      expect(passAtK(4, 2, 2)).toBeCloseTo(5 / 6);
+      expect(passAtK(3, 1, 3)).toBe(1);
+      expect(passAtK(3, 0, 3)).toBe(0);
+    });
+
+    it('should be 0 without samples', () => {
+      expect(passAtK(0, 0, 1)).toBe(0);
+    });
+  });
+
+  describe('passHatK', () => {
+    it('should be the chance that all of k samples pass', () => {
+      // C(3,2)/C(4,2) = 3/6
+      expect(passHatK(4, 3, 2)).toBeCloseTo(0.5);
+      expect(passHatK(3, 3, 3)).toBe(1);
+      expect(passHatK(3, 2, 3)).toBe(0);
+    });
+  });
+
+  describe('getIterationOutcomes', () => {
+    it('should count failed iterations as failures and skip unjudged ones', () => {
+      const reports = {
+        'r-1': report('r-1', true, 90),
+        'r-2': report('r-2', false, 40, { metricsStatus: 'pending' }),
+      };
+
+      const outcomes = getIterationOutcomes(
+        {
+          reportId: 'r-1',
+          status: 'completed',
+          iterationResults: [
+            { reportId: 'r-1', status: 'completed' },
+            { reportId: '', status: 'failed' },
+            { reportId: 'r-2', status: 'completed' },
+            { reportId: '', status: 'pending' },
+          ],
+        },
+        reports
+      );
+
+      expect(outcomes).toEqual([{ passed: true, accuracy: 90 }, { passed: false }]);
+    });
+
+    it('should treat a single-iteration result as one iteration', () => {
+      const outcomes = getIterationOutcomes({ reportId: 'r-1', status: 'completed' }, { 'r-1': report('r-1', false, 30) });
+
+      expect(outcomes).toEqual([{ passed: false, accuracy: 30 }]);
+    });
+  });
+
+  describe('computeIterationStats', () => {
+    it('should compute pass@k, pass^k, accuracy spread and flakiness', () => {
+      const stats = computeIterationStats(
+        [
+          { passed: true, accuracy: 80 },
+          { passed: true, accuracy: 100 },
+          { passed: false, accuracy: 60 },
+          { passed: false },
+        ],
+        4
+      );
+
+      expect(stats).toEqual({
+        iterations: 4,
+        passed: 2,
+        k: 4,
+        passRate: 50,
+        passAtK: 100,
+        passHatK: 0,
+        meanAccuracy: 80,
+        stddevAccuracy: 16.3,
+        flakiness: 100,
+      });
+    });
+
+    it('should report no flakiness when every iteration agrees', () => {
+      const stats = computeIterationStats([{ passed: true }, { passed: true }], 2);
+
+      expect(stats?.flakiness).toBe(0);
+      expect(stats?.passHatK).toBe(100);
+      expect(stats?.meanAccuracy).toBeUndefined();
+    });
+
+    it('should clamp k to the number of outcomes', () => {
+      expect(computeIterationStats([{ passed: true }, { passed: false }], 5)?.k).toBe(2);
+    });
+
+    it('should return null without outcomes', () => {
+      expect(computeIterationStats([], 3)).toBeNull();
+    });
+  });
+
+  describe('computeRunIterationStats', () => {
+    it('should key stats by test case and omit test cases without outcomes', () => {
+      const run = createRun({
+        'tc-1': {
+          reportId: 'r-1',
+          status: 'completed',
+          iterationResults: [
+            { reportId: 'r-1', status: 'completed' },
+            { reportId: 'r-2', status: 'completed' },
+          ],
+        },
+        'tc-2': { reportId: '', status: 'pending' },
+      }, 2);
+
+      const stats = computeRunIterationStats(run, {
+        'r-1': report('r-1', true, 100),
+        'r-2': report('r-2', false, 50),
+      });
+
+      expect(Object.keys(stats)).toEqual(['tc-1']);
+      expect(stats['tc-1']).toMatchObject({ iterations: 2, passed: 1, k: 2, passAtK: 100, passHatK: 0, flakiness: 100 });
+    });
+  });
+
+  describe('summarizeRunIterations', () => {
+    it('should average the per-test-case stats and count flaky test cases', () => {
+      const run = createRun({
+        'tc-1': {
+          reportId: 'r-1',
+          status: 'completed',
+          iterationResults: [
+            { reportId: 'r-1', status: 'completed' },
+            { reportId: 'r-2', status: 'completed' },
+          ],
+        },
+        'tc-2': {
+          reportId: 'r-3',
+          status: 'completed',
+          iterationResults: [
+            { reportId: 'r-3', status: 'completed' },
+            { reportId: 'r-4', status: 'completed' },
+          ],
+        },
+      }, 2);
+
+      const summary = summarizeRunIterations(run, {
+        'r-1': report('r-1', true, 100),
+        'r-2': report('r-2', false, 50),
+        'r-3': report('r-3', true, 90),
+        'r-4': report('r-4', true, 90),
+      });
+
+      expect(summary).toEqual({
+        iterations: 2,
+        passAtK: 100,
+        passHatK: 50,
+        avgAccuracyStddev: 12.5,
+        flakyTestCases: 1,
+      });
+    });
+
+    it('should return nothing for single-iteration runs', () => {
+      expect(summarizeRunIterations(createRun({ 'tc-1': { reportId: 'r-1', status: 'completed' } }, 1), {})).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  MAX_MATRIX_CELLS,
+  countMatrixCells,
+  expandMatrixRun,
+  getMatrixCellConcurrency,
+  validateMatrixRunConfig,
+} from '@/lib/runMatrix';
+import type { MatrixRunConfig } from '@/types';
+
+const baseConfig: MatrixRunConfig = {
+  name: 'Matrix',
+  agentKeys: ['agent-a', 'agent-b'],
+  modelIds: ['model-1', 'model-2'],
+};
+
+describe('runMatrix', () => {
+  describe('validateMatrixRunConfig', () => {
+    it('should accept a valid matrix', () => {
+      expect(validateMatrixRunConfig(baseConfig)).toBeNull();
+      expect(validateMatrixRunConfig({
+        ...baseConfig,
+        variants: [{ name: 'flag-on', headers: { 'X-Flag': 'on' } }, { name: 'staging', agentEndpoint: 'http://staging' }],
+        concurrency: 8,
+        iterations: 3,
+        judgeEnsemble: { models: ['model-1', 'model-2'] },
+        budget: { maxCostUsd: 5 },
+      })).toBeNull();
+    });
+
+    it.each([
+      [null, 'Request body must be a valid matrix run configuration object'],
+      [{ ...baseConfig, name: ' ' }, 'name is required and must be a non-empty string'],
+      [{ ...baseConfig, agentKeys: [] }, 'agentKeys must be a non-empty array of distinct agent keys'],
+      [{ ...baseConfig, agentKeys: ['a', 'a'] }, 'agentKeys must be a non-empty array of distinct agent keys'],
+      [{ ...baseConfig, modelIds: 'model-1' }, 'modelIds must be a non-empty array of distinct model keys'],
+      [{ ...baseConfig, variants: {} }, 'variants must be an array'],
+      [{ ...baseConfig, variants: [{ agentEndpoint: 'x' }] }, 'variants[0].name is required and must be a non-empty string'],
+      [{ ...baseConfig, variants: [{ name: 'v', headers: { a: 1 } }] }, 'variants[0].headers must be an object of string values'],
+      [{ ...baseConfig, variants: [{ name: 'v' }, { name: 'v' }] }, 'variants must have unique names'],
+      [{ ...baseConfig, concurrency: 0 }, 'concurrency must be an integer from 1 to 32'],
+      [{ ...baseConfig, iterations: 50 }, 'iterations must be an integer from 1 to 20'],
+      [{ ...baseConfig, budget: { maxTotalTokens: -1 } }, 'budget.maxTotalTokens must be a positive integer'],
+    ])('should reject %j', (config, error) => {
+      expect(validateMatrixRunConfig(config)).toBe(error);
+    });
+
+    it('should reject matrices with too many cells', () => {
+      const agentKeys = Array.from({ length: MAX_MATRIX_CELLS + 1 }, (_, i) => `agent-${i}`);
+
+      expect(validateMatrixRunConfig({ ...baseConfig, agentKeys, modelIds: ['model-1'] })).toBe(
+        `Matrix has ${MAX_MATRIX_CELLS + 1} cells; at most ${MAX_MATRIX_CELLS} are allowed`
+      );
+    });
+  });
+
+  describe('countMatrixCells', () => {
+    it('should multiply agents, models, and variants', () => {
+      expect(countMatrixCells(baseConfig)).toBe(4);
+      expect(countMatrixCells({ ...baseConfig, variants: [{ name: 'a' }, { name: 'b' }, { name: 'c' }] })).toBe(12);
+    });
+  });
+
+  describe('getMatrixCellConcurrency', () => {
+    it('should split the budget evenly between cells, at least 1 each', () => {
+      expect(getMatrixCellConcurrency(8, 2)).toBe(4);
+      expect(getMatrixCellConcurrency(8, 3)).toBe(2);
+      expect(getMatrixCellConcurrency(4, 12)).toBe(1);
+      expect(getMatrixCellConcurrency(undefined, 4)).toBe(1);
+    });
+  });
+
+  describe('expandMatrixRun', () => {
+    it('should create one run config per agent and model', () => {
+      const budget = { maxToolCallsPerTestCase: 10 };
+      const runConfigs = expandMatrixRun({ ...baseConfig, concurrency: 8, iterations: 3, budget });
+
+      expect(runConfigs.map(r => [r.name, r.agentKey, r.modelId])).toEqual([
+        ['Matrix [agent-a / model-1]', 'agent-a', 'model-1'],
+        ['Matrix [agent-a / model-2]', 'agent-a', 'model-2'],
+        ['Matrix [agent-b / model-1]', 'agent-b', 'model-1'],
+        ['Matrix [agent-b / model-2]', 'agent-b', 'model-2'],
+      ]);
+      expect(runConfigs.every(r => r.concurrency === 2 && r.iterations === 3 && r.budget === budget)).toBe(true);
+    });
+
+    it('should apply each variant\'s endpoint and headers', () => {
+      const runConfigs = expandMatrixRun({
+        ...baseConfig,
+        agentKeys: ['agent-a'],
+        modelIds: ['model-1'],
+        variants: [{ name: 'default' }, { name: 'flag-on', agentEndpoint: 'http://flag', headers: { 'X-Flag': 'on' } }],
+      });
+
+      expect(runConfigs).toEqual([
+        { name: 'Matrix [agent-a / model-1 / default]', agentKey: 'agent-a', modelId: 'model-1', concurrency: 1 },
+        {
+          name: 'Matrix [agent-a / model-1 / flag-on]',
+          agentKey: 'agent-a',
+          modelId: 'model-1',
+          agentEndpoint: 'http://flag',
+          headers: { 'X-Flag': 'on' },
+          concurrency: 1,
+        },
+      ]);
+    });
+  });
+});
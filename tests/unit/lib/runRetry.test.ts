@@ -0,0 +1,94 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getRetryableTestCaseIds, prepareRunForRetry } from '@/lib/runRetry';
+import type { BenchmarkRun } from '@/types';
+
+const baseRun: BenchmarkRun = {
+  id: 'run-1',
+  name: 'Run 1',
+  createdAt: '2024-01-01T00:00:00Z',
+  status: 'completed',
+  agentKey: 'agent',
+  modelId: 'model',
+  results: {
+    'tc-1': { reportId: 'report-1', status: 'completed' },
+    'tc-2': { reportId: 'report-2', status: 'failed' },
+    'tc-3': { reportId: '', status: 'cancelled' },
+    'tc-4': { reportId: '', status: 'pending' },
+    'tc-5': { reportId: 'report-5', status: 'budget_exceeded' },
+  },
+};
+
+describe('runRetry', () => {
+  describe('getRetryableTestCaseIds', () => {
+    it('should return failed, cancelled, and over-budget test cases', () => {
+      expect(getRetryableTestCaseIds(baseRun)).toEqual(['tc-2', 'tc-3', 'tc-5']);
+    });
+
+    it('should handle runs without results', () => {
+      expect(getRetryableTestCaseIds({ ...baseRun, results: undefined as any })).toEqual([]);
+    });
+  });
+
+  describe('prepareRunForRetry', () => {
+    it('should reset retryable results to pending and record the replaced attempts', () => {
+      const { run, testCaseIds } = prepareRunForRetry(baseRun, '2024-01-02T00:00:00Z');
+
+      expect(testCaseIds).toEqual(['tc-2', 'tc-3', 'tc-5']);
+      expect(run.results).toEqual({
+        'tc-1': { reportId: 'report-1', status: 'completed' },
+        'tc-2': {
+          reportId: '',
+          status: 'pending',
+          attempts: [{ reportId: 'report-2', status: 'failed', retriedAt: '2024-01-02T00:00:00Z' }],
+        },
+        'tc-3': {
+          reportId: '',
+          status: 'pending',
+          attempts: [{ reportId: '', status: 'cancelled', retriedAt: '2024-01-02T00:00:00Z' }],
+        },
+        'tc-4': { reportId: '', status: 'pending' },
+        'tc-5': {
+          reportId: '',
+          status: 'pending',
+          attempts: [{ reportId: 'report-5', status: 'budget_exceeded', retriedAt: '2024-01-02T00:00:00Z' }],
+        },
+      });
+    });
+
+    it('should give the retry the whole budget again', () => {
+      const { run } = prepareRunForRetry({
+        ...baseRun,
+        budget: { maxTotalTokens: 1000 },
+        usage: { inputTokens: 900, outputTokens: 200, totalTokens: 1100, costUsd: 0.01 },
+        budgetExceededReason: 'Run used 1100 tokens, over its budget of 1000',
+      });
+
+      expect(run.budget).toEqual({ maxTotalTokens: 1000 });
+      expect(run.usage).toBeUndefined();
+      expect(run.budgetExceededReason).toBeUndefined();
+    });
+
+    it('should append to existing attempt history', () => {
+      const earlier = { reportId: 'report-0', status: 'failed' as const, retriedAt: '2024-01-01T12:00:00Z' };
+      const { run } = prepareRunForRetry(
+        { ...baseRun, results: { 'tc-2': { reportId: 'report-2', status: 'failed', attempts: [earlier] } } },
+        '2024-01-02T00:00:00Z'
+      );
+
+      expect(run.results['tc-2'].attempts).toEqual([
+        earlier,
+        { reportId: 'report-2', status: 'failed', retriedAt: '2024-01-02T00:00:00Z' },
+      ]);
+    });
+
+    it('should not modify the original run', () => {
+      prepareRunForRetry(baseRun);
+
+      expect(baseRun.results['tc-2']).toEqual({ reportId: 'report-2', status: 'failed' });
+    });
+  });
+});
@@ -356,5 +356,29 @@ describe('runStats', () => {
       expect(reportIds).toHaveLength(1);
       expect(reportIds).toContain('report-1');
     });
+
+    it('should include the reports of every iteration', () => {
+      const run: BenchmarkRun = {
+        id: 'run-1',
+        name: 'Test Run',
+        createdAt: '2024-01-01T00:00:00Z',
+        agentKey: 'mock',
+        modelId: 'claude-sonnet',
+        iterations: 3,
+        results: {
+          'tc-1': {
+            reportId: 'report-1',
+            status: 'completed',
+            iterationResults: [
+              { reportId: '', status: 'failed' },
+              { reportId: 'report-1', status: 'completed' },
+              { reportId: 'report-2', status: 'completed' },
+            ],
+          },
+        },
+      };
+
+      expect(getReportIdsFromRun(run)).toEqual(['report-1', 'report-2']);
+    });
   });
 });
@@ -6,6 +6,7 @@
 import {
   validateTestCaseJson,
   validateTestCasesArrayJson,
+  validateRubricJson,
   serializeFormToJson,
   parseJsonToFormState,
   testCaseSchema,
@@ -120,6 +121,92 @@ describe('testCaseValidation', () => {
       const result = testCaseSchema.safeParse(invalidContext);
       expect(result.success).toBe(false);
     });
+
+    it('should accept assertions without expected outcomes', () => {
+      const assertionOnly = {
+        name: 'Test',
+        category: 'RCA',
+        difficulty: 'Easy',
+        initialPrompt: 'Test',
+        expectedOutcomes: [],
+        assertions: [
+          { type: 'tool-called', tool: 'cluster_health' },
+          { type: 'max-latency', maxMs: 30000, severity: 'warning' },
+        ],
+      };
+
+      const result = testCaseSchema.safeParse(assertionOnly);
+      expect(result.success).toBe(true);
+      expect(result.success && result.data.assertions).toHaveLength(2);
+    });
+
+    it('should reject unknown assertion types and missing assertion fields', () => {
+      const base = {
+        name: 'Test',
+        category: 'RCA',
+        difficulty: 'Easy',
+        initialPrompt: 'Test',
+        expectedOutcomes: ['Outcome'],
+      };
+
+      expect(testCaseSchema.safeParse({ ...base, assertions: [{ type: 'llm-vibes' }] }).success).toBe(false);
+      expect(testCaseSchema.safeParse({ ...base, assertions: [{ type: 'response-regex' }] }).success).toBe(false);
+    });
+
+    it('should validate follow-up questions', () => {
+      const base = {
+        name: 'Test',
+        category: 'RCA',
+        difficulty: 'Easy',
+        initialPrompt: 'Test',
+        expectedOutcomes: ['Outcome'],
+      };
+
+      const result = testCaseSchema.safeParse({
+        ...base,
+        followUpQuestions: [{ trigger: 'results_available', question: 'Why?' }],
+      });
+      expect(result.success).toBe(true);
+      expect(result.success && result.data.followUpQuestions).toEqual([
+        { trigger: 'results_available', question: 'Why?', businessValue: '' },
+      ]);
+      expect(testCaseSchema.safeParse({
+        ...base,
+        followUpQuestions: [{ trigger: 'sometimes', question: 'Why?' }],
+      }).success).toBe(false);
+    });
+  });
+
+  describe('validateRubricJson', () => {
+    it('should accept a valid rubric', () => {
+      const result = validateRubricJson({
+        name: 'Strict',
+        version: 1,
+        criteria: [{ name: 'Correct', description: 'Right answer', weight: 2 }],
+        passThreshold: 80,
+        criticalFailures: ['Makes up data'],
+      });
+      expect(result.valid).toBe(true);
+      expect(result.data?.criteria).toHaveLength(1);
+    });
+
+    it('should reject rubrics without criteria or with out-of-range values', () => {
+      expect(validateRubricJson({ criteria: [] }).valid).toBe(false);
+      expect(validateRubricJson({ criteria: [{ name: 'A', description: 'a', weight: 0 }] }).valid).toBe(false);
+      expect(validateRubricJson({ criteria: [{ name: 'A', description: 'a' }], passThreshold: 150 }).valid).toBe(false);
+    });
+
+    it('should accept a rubric on a test case', () => {
+      const result = testCaseSchema.safeParse({
+        name: 'Test',
+        category: 'RCA',
+        difficulty: 'Medium',
+        initialPrompt: 'Prompt',
+        expectedOutcomes: ['Outcome'],
+        rubric: { criteria: [{ name: 'A', description: 'a' }] },
+      });
+      expect(result.success).toBe(true);
+    });
   });
 
   describe('testCasesArraySchema', () => {
@@ -67,6 +67,26 @@ jest.mock('@/server/middleware/index', () => ({
 
 jest.mock('@/services/connectors/server', () => ({}));
 
+const mockRegisterJudge = jest.fn();
+jest.mock('@/services/judges', () => ({
+  judgeRegistry: { register: mockRegisterJudge },
+}));
+
+const mockJobQueueInit = jest.fn().mockResolvedValue(undefined);
+jest.mock('@/server/services/jobQueue', () => ({
+  jobQueue: { init: mockJobQueueInit },
+}));
+
+const mockSchedulerStart = jest.fn();
+jest.mock('@/server/services/benchmarkScheduler', () => ({
+  benchmarkScheduler: { start: mockSchedulerStart },
+}));
+
+const mockWorkerTasksStart = jest.fn();
+jest.mock('@/server/services/workerTasks', () => ({
+  workerTasks: { start: mockWorkerTasksStart },
+}));
+
 import { createApp } from '@/server/app';
 
 describe('createApp', () => {
@@ -117,6 +137,24 @@ describe('createApp', () => {
     await expect(createApp()).rejects.toThrow('Config load failed');
   });
 
+  it('should register custom judges from config', async () => {
+    const customJudge = { type: 'acme', name: 'Acme', evaluate: jest.fn() };
+    mockLoadConfig.mockResolvedValueOnce({
+      agents: [],
+      models: {},
+      server: { port: 4001 },
+      connectors: [],
+      judges: [customJudge],
+      testCases: [],
+      reporters: [['console']],
+      judge: { provider: 'bedrock', model: 'claude-sonnet-4' },
+    });
+
+    await createApp();
+
+    expect(mockRegisterJudge).toHaveBeenCalledWith(customJudge);
+  });
+
   it('should set up middleware on the app', async () => {
     await createApp();
 
@@ -150,4 +188,33 @@ describe('createApp', () => {
     expect(mockSetupSpaFallback).toHaveBeenCalledWith(mockApp);
     expect(callOrder.indexOf('routes')).toBeLessThan(callOrder.indexOf('spaFallback'));
   });
+
+  it('should restore persisted benchmark jobs', async () => {
+    await createApp();
+
+    expect(mockJobQueueInit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not fail startup when job recovery fails', async () => {
+    mockJobQueueInit.mockRejectedValueOnce(new Error('Storage unreachable'));
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(createApp()).resolves.toBe(mockApp);
+    await Promise.resolve();
+
+    expect(consoleSpy).toHaveBeenCalledWith('[JobQueue] Failed to restore jobs:', 'Storage unreachable');
+    consoleSpy.mockRestore();
+  });
+
+  it('should start the benchmark scheduler', async () => {
+    await createApp();
+
+    expect(mockSchedulerStart).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not watch worker leases while distributed execution is disabled', async () => {
+    await createApp();
+
+    expect(mockWorkerTasksStart).not.toHaveBeenCalled();
+  });
 });
@@ -66,6 +66,38 @@ describe('server/config', () => {
     });
   });
 
+  describe('OPENAI judge config', () => {
+    it('should default to the public OpenAI endpoint', async () => {
+      delete process.env.OPENAI_BASE_URL;
+      delete process.env.OPENAI_API_KEY;
+      const config = await import('@/server/config');
+      expect(config.OPENAI_BASE_URL).toBe('https://api.openai.com/v1');
+      expect(config.OPENAI_API_KEY).toBeUndefined();
+    });
+
+    it('should read OPENAI_BASE_URL and OPENAI_API_KEY when set', async () => {
+      process.env.OPENAI_BASE_URL = 'http://localhost:8000/v1';
+      process.env.OPENAI_API_KEY = 'sk-test';
+      const config = await import('@/server/config');
+      expect(config.OPENAI_BASE_URL).toBe('http://localhost:8000/v1');
+      expect(config.OPENAI_API_KEY).toBe('sk-test');
+    });
+  });
+
+  describe('OLLAMA_HOST', () => {
+    it('should default to the local Ollama server', async () => {
+      delete process.env.OLLAMA_HOST;
+      const config = await import('@/server/config');
+      expect(config.OLLAMA_HOST).toBe('http://localhost:11434');
+    });
+
+    it('should use OLLAMA_HOST when set', async () => {
+      process.env.OLLAMA_HOST = 'http://gpu-box:11434';
+      const config = await import('@/server/config');
+      expect(config.OLLAMA_HOST).toBe('http://gpu-box:11434');
+    });
+  });
+
   describe('OPENSEARCH_LOGS', () => {
     it('should have default index patterns', async () => {
       const config = await import('@/server/config');
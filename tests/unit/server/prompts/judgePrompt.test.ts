@@ -3,7 +3,13 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { JUDGE_SYSTEM_PROMPT } from '@/server/prompts/judgePrompt';
+import {
+  JUDGE_SYSTEM_PROMPT,
+  RUBRIC_JUDGE_SYSTEM_PROMPT,
+  getJudgeSystemPrompt,
+  buildRubricPromptSection,
+} from '@/server/prompts/judgePrompt';
+import type { JudgeRubric } from '@/types';
 
 describe('judgePrompt', () => {
   describe('JUDGE_SYSTEM_PROMPT', () => {
@@ -66,4 +72,52 @@ describe('judgePrompt', () => {
       expect(JUDGE_SYSTEM_PROMPT).toContain('observability');
     });
   });
+
+  describe('getJudgeSystemPrompt', () => {
+    it('should return the default prompt without a rubric', () => {
+      expect(getJudgeSystemPrompt()).toBe(JUDGE_SYSTEM_PROMPT);
+    });
+
+    it('should return the domain-neutral rubric prompt with a rubric', () => {
+      const prompt = getJudgeSystemPrompt({ criteria: [{ name: 'A', description: 'a' }] });
+      expect(prompt).toBe(RUBRIC_JUDGE_SYSTEM_PROMPT);
+      expect(prompt).not.toContain('RCA');
+      expect(prompt).toContain('pass_fail_status');
+    });
+  });
+
+  describe('buildRubricPromptSection', () => {
+    const rubric: JudgeRubric = {
+      name: 'Query quality',
+      version: 2,
+      description: 'Grades generated queries',
+      criteria: [
+        { name: 'Correctness', description: 'Returns the right rows', weight: 3 },
+        { name: 'Efficiency', description: 'Avoids full scans' },
+      ],
+      passThreshold: 85,
+      criticalFailures: ['Queries a production index'],
+    };
+
+    it('should render the label, description, and weighted criteria', () => {
+      const section = buildRubricPromptSection(rubric);
+      expect(section).toContain('## Evaluation Rubric: Query quality v2');
+      expect(section).toContain('Grades generated queries');
+      expect(section).toContain('1. **Correctness** (weight 3, 75% of accuracy): Returns the right rows');
+      expect(section).toContain('2. **Efficiency** (weight 1, 25% of accuracy): Avoids full scans');
+    });
+
+    it('should render the pass threshold and critical failures', () => {
+      const section = buildRubricPromptSection(rubric);
+      expect(section).toContain('accuracy >= 85');
+      expect(section).toContain('- Queries a production index');
+    });
+
+    it('should fall back to the default threshold and no critical failures', () => {
+      const section = buildRubricPromptSection({ criteria: [{ name: 'A', description: 'a' }] });
+      expect(section).toContain('## Evaluation Rubric: Custom rubric');
+      expect(section).toContain('accuracy >= 70');
+      expect(section).toContain('None defined.');
+    });
+  });
 });
@@ -102,6 +102,29 @@ describe('Config Routes', () => {
       expect(response.agents[0].name).toBe('Pulsar');
     });
 
+    it('strips auth config, which may hold AWS keys, from serialized agent configs', () => {
+      mockLoadConfigSync.mockReturnValue({
+        agents: [
+          {
+            key: 'agentcore',
+            name: 'AgentCore',
+            endpoint: 'https://bedrock-agentcore.us-west-2.amazonaws.com/runtimes/rca/invocations',
+            models: ['m1'],
+            auth: { type: 'aws-sigv4', awsRegion: 'us-west-2', awsAccessKeyId: 'AKID', awsSecretAccessKey: 'secret' },
+          },
+        ],
+        models: {},
+      } as any);
+
+      const { req, res } = createMocks();
+      const handler = getRouteHandler(configRoutes, 'get', '/api/agents');
+      handler(req, res);
+
+      const response = (res.json as jest.Mock).mock.calls[0][0];
+      expect(response.agents[0]).not.toHaveProperty('auth');
+      expect(response.agents[0].key).toBe('agentcore');
+    });
+
     it('handles agents without hooks gracefully', () => {
       mockLoadConfigSync.mockReturnValue({
         agents: [
@@ -30,6 +30,8 @@ jest.mock('@/server/routes/storage', () => ({ default: 'storageRoutes' }));
 jest.mock('@/server/routes/observability', () => ({ default: 'observabilityRoutes' }));
 jest.mock('@/server/routes/config', () => ({ default: 'configRoutes' }));
 jest.mock('@/server/routes/evaluation', () => ({ default: 'evaluationRoutes' }));
+jest.mock('@/server/routes/jobs', () => ({ default: 'jobRoutes' }));
+jest.mock('@/server/routes/workers', () => ({ default: 'workerRoutes' }));
 
 describe('Routes Aggregator', () => {
   beforeEach(() => {
@@ -54,6 +56,8 @@ describe('Routes Aggregator', () => {
     expect(mockUse).toHaveBeenCalledWith('observabilityRoutes');
     expect(mockUse).toHaveBeenCalledWith('configRoutes');
     expect(mockUse).toHaveBeenCalledWith('evaluationRoutes');
+    expect(mockUse).toHaveBeenCalledWith('jobRoutes');
+    expect(mockUse).toHaveBeenCalledWith('workerRoutes');
   });
 
   it('should mount routes in the correct order', () => {
@@ -77,6 +81,8 @@ describe('Routes Aggregator', () => {
     expect(calls).toContain('observabilityRoutes');
     expect(calls).toContain('configRoutes');
     expect(calls).toContain('evaluationRoutes');
+    expect(calls).toContain('jobRoutes');
+    expect(calls).toContain('workerRoutes');
   });
 
   it('should export the router as default', () => {
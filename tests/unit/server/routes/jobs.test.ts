@@ -0,0 +1,240 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Request, Response } from 'express';
+import type { BenchmarkJob, BenchmarkJobEvent } from '@/types';
+
+const mockList = jest.fn();
+const mockGet = jest.fn();
+const mockSubscribe = jest.fn();
+const mockPause = jest.fn();
+const mockResume = jest.fn();
+const mockCancel = jest.fn();
+const mockRemove = jest.fn();
+
+jest.mock('@/server/services/jobQueue', () => ({
+  jobQueue: {
+    list: (...args: any[]) => mockList(...args),
+    get: (...args: any[]) => mockGet(...args),
+    subscribe: (...args: any[]) => mockSubscribe(...args),
+    pause: (...args: any[]) => mockPause(...args),
+    resume: (...args: any[]) => mockResume(...args),
+    cancel: (...args: any[]) => mockCancel(...args),
+    remove: (...args: any[]) => mockRemove(...args),
+  },
+  isJobFinished: (job: BenchmarkJob) => ['completed', 'failed', 'cancelled'].includes(job.status),
+  isTerminalJobEvent: (event: BenchmarkJobEvent) => ['completed', 'cancelled', 'error'].includes(event.type),
+}));
+
+import jobRoutes from '@/server/routes/jobs';
+
+const runningJob: BenchmarkJob = {
+  id: 'job-1',
+  benchmarkId: 'bench-1',
+  benchmarkName: 'Benchmark',
+  runId: 'run-1',
+  runName: 'Run 1',
+  status: 'running',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+// Helper to create mock request/response
+function createMocks(params: any = {}) {
+  const req = {
+    params,
+    body: {},
+    on: jest.fn(),
+  } as unknown as Request;
+  const res = {
+    json: jest.fn().mockReturnThis(),
+    status: jest.fn().mockReturnThis(),
+    setHeader: jest.fn(),
+    flushHeaders: jest.fn(),
+    write: jest.fn(),
+    end: jest.fn(),
+  } as unknown as Response;
+  return { req, res };
+}
+
+// Helper to get route handler
+function getRouteHandler(router: any, method: string, path: string) {
+  const routes = router.stack;
+  const route = routes.find(
+    (layer: any) =>
+      layer.route &&
+      layer.route.path === path &&
+      layer.route.methods[method.toLowerCase()]
+  );
+  return route?.route.stack[0].handle;
+}
+
+function writtenEvents(res: Response): BenchmarkJobEvent[] {
+  return (res.write as jest.Mock).mock.calls.map(([data]) => JSON.parse(data.replace(/^data: /, '')));
+}
+
+describe('Job Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGet.mockImplementation((id: string) => (id === 'job-1' ? runningJob : undefined));
+  });
+
+  describe('GET /api/jobs', () => {
+    it('should list jobs', () => {
+      mockList.mockReturnValue([runningJob]);
+      const { req, res } = createMocks();
+      const handler = getRouteHandler(jobRoutes, 'get', '/api/jobs');
+
+      handler(req, res);
+
+      expect(res.json).toHaveBeenCalledWith({ jobs: [runningJob], total: 1 });
+    });
+  });
+
+  describe('GET /api/jobs/:id', () => {
+    it('should return the job', () => {
+      const { req, res } = createMocks({ id: 'job-1' });
+      const handler = getRouteHandler(jobRoutes, 'get', '/api/jobs/:id');
+
+      handler(req, res);
+
+      expect(res.json).toHaveBeenCalledWith(runningJob);
+    });
+
+    it('should return 404 for an unknown job', () => {
+      const { req, res } = createMocks({ id: 'missing' });
+      const handler = getRouteHandler(jobRoutes, 'get', '/api/jobs/:id');
+
+      handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Job not found' });
+    });
+  });
+
+  describe('GET /api/jobs/:id/events', () => {
+    it('should send a snapshot and stream events until the run finishes', () => {
+      let listener: (event: BenchmarkJobEvent) => void = () => {};
+      const unsubscribe = jest.fn();
+      mockSubscribe.mockImplementation((_id, fn) => {
+        listener = fn;
+        return unsubscribe;
+      });
+      const { req, res } = createMocks({ id: 'job-1' });
+      const handler = getRouteHandler(jobRoutes, 'get', '/api/jobs/:id/events');
+
+      handler(req, res);
+
+      expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream');
+      expect(mockSubscribe).toHaveBeenCalledWith('job-1', expect.any(Function));
+      expect(req.on).toHaveBeenCalledWith('close', unsubscribe);
+
+      const progress = {
+        type: 'progress' as const,
+        currentTestCaseIndex: 0,
+        totalTestCases: 2,
+        currentRunId: 'run-1',
+        currentTestCaseId: 'tc-1',
+        status: 'running' as const,
+      };
+      listener(progress);
+      expect(res.end).not.toHaveBeenCalled();
+
+      listener({ type: 'error', error: 'boom', runId: 'run-1' });
+
+      expect(writtenEvents(res)).toEqual([
+        { type: 'job', job: runningJob },
+        progress,
+        { type: 'error', error: 'boom', runId: 'run-1' },
+      ]);
+      expect(unsubscribe).toHaveBeenCalled();
+      expect(res.end).toHaveBeenCalled();
+    });
+
+    it('should end right after the snapshot for a finished job', () => {
+      const finishedJob = { ...runningJob, status: 'completed' };
+      mockGet.mockReturnValue(finishedJob);
+      const { req, res } = createMocks({ id: 'job-1' });
+      const handler = getRouteHandler(jobRoutes, 'get', '/api/jobs/:id/events');
+
+      handler(req, res);
+
+      expect(writtenEvents(res)).toEqual([{ type: 'job', job: finishedJob }]);
+      expect(res.end).toHaveBeenCalled();
+      expect(mockSubscribe).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown job', () => {
+      const { req, res } = createMocks({ id: 'missing' });
+      const handler = getRouteHandler(jobRoutes, 'get', '/api/jobs/:id/events');
+
+      handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.setHeader).not.toHaveBeenCalled();
+    });
+  });
+
+  describe.each([
+    ['pause', mockPause, 'Only queued or running jobs can be paused'],
+    ['resume', mockResume, 'Only paused jobs can be resumed'],
+    ['cancel', mockCancel, 'Job has already finished'],
+  ])('POST /api/jobs/:id/%s', (action, mockAction, conflictError) => {
+    it('should apply the action and return the job', () => {
+      mockAction.mockReturnValue(true);
+      const { req, res } = createMocks({ id: 'job-1' });
+      const handler = getRouteHandler(jobRoutes, 'post', `/api/jobs/:id/${action}`);
+
+      handler(req, res);
+
+      expect(mockAction).toHaveBeenCalledWith('job-1');
+      expect(res.json).toHaveBeenCalledWith(runningJob);
+    });
+
+    it('should return 409 when the job is in the wrong state', () => {
+      mockAction.mockReturnValue(false);
+      const { req, res } = createMocks({ id: 'job-1' });
+      const handler = getRouteHandler(jobRoutes, 'post', `/api/jobs/:id/${action}`);
+
+      handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({ error: conflictError });
+    });
+
+    it('should return 404 for an unknown job', () => {
+      const { req, res } = createMocks({ id: 'missing' });
+      const handler = getRouteHandler(jobRoutes, 'post', `/api/jobs/:id/${action}`);
+
+      handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(mockAction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/jobs/:id', () => {
+    it('should remove a finished job', () => {
+      mockRemove.mockReturnValue(true);
+      const { req, res } = createMocks({ id: 'job-1' });
+      const handler = getRouteHandler(jobRoutes, 'delete', '/api/jobs/:id');
+
+      handler(req, res);
+
+      expect(res.json).toHaveBeenCalledWith({ deleted: true, id: 'job-1' });
+    });
+
+    it('should return 409 for a job that has not finished', () => {
+      mockRemove.mockReturnValue(false);
+      const { req, res } = createMocks({ id: 'job-1' });
+      const handler = getRouteHandler(jobRoutes, 'delete', '/api/jobs/:id');
+
+      handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Only finished jobs can be removed' });
+    });
+  });
+});
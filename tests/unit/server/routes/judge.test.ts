@@ -5,16 +5,83 @@
 
 import { Request, Response } from 'express';
 import judgeRoutes from '@/server/routes/judge';
-import { evaluateTrajectory, parseBedrockError } from '@/server/services/bedrockService';
+import { comparePairWithBedrock, evaluateTrajectory, parseBedrockError } from '@/server/services/bedrockService';
+import { evaluateTrajectoryWithOpenAI, parseOpenAIError } from '@/server/services/openaiService';
+import { evaluateTrajectoryWithOllama, parseOllamaError } from '@/server/services/ollamaService';
+import { judgeRegistry } from '@/services/judges';
 
 // Mock the bedrock service
 jest.mock('@/server/services/bedrockService', () => ({
   evaluateTrajectory: jest.fn(),
+  comparePairWithBedrock: jest.fn(),
   parseBedrockError: jest.fn(),
 }));
 
+// Mock the OpenAI-compatible service
+jest.mock('@/server/services/openaiService', () => ({
+  evaluateTrajectoryWithOpenAI: jest.fn(),
+  parseOpenAIError: jest.fn(),
+}));
+
+// Mock the Ollama service
+jest.mock('@/server/services/ollamaService', () => ({
+  evaluateTrajectoryWithOllama: jest.fn(),
+  parseOllamaError: jest.fn(),
+}));
+
+// Add OpenAI-compatible and Ollama models on top of the default config
+jest.mock('@/lib/config/index', () => {
+  const actual = jest.requireActual('@/lib/config/index');
+  return {
+    ...actual,
+    loadConfigSync: jest.fn(() => {
+      const config = actual.loadConfigSync();
+      return {
+        ...config,
+        models: {
+          ...config.models,
+          'gpt-4o': {
+            model_id: 'gpt-4o-2024-08-06',
+            display_name: 'GPT-4o',
+            provider: 'openai',
+            context_window: 128000,
+            max_output_tokens: 4096,
+            base_url: 'http://localhost:8000/v1',
+          },
+          'llama-local': {
+            model_id: 'llama3.1:8b',
+            display_name: 'Llama 3.1 8B (Ollama)',
+            provider: 'ollama',
+            context_window: 128000,
+            max_output_tokens: 4096,
+          },
+          'in-house': {
+            model_id: 'acme-judge-v2',
+            display_name: 'In-house Judge',
+            provider: 'acme',
+            context_window: 32000,
+            max_output_tokens: 2048,
+          },
+          'unregistered': {
+            model_id: 'unknown-judge',
+            display_name: 'Unregistered Judge',
+            provider: 'missing',
+            context_window: 32000,
+            max_output_tokens: 2048,
+          },
+        },
+      };
+    }),
+  };
+});
+
 const mockEvaluateTrajectory = evaluateTrajectory as jest.MockedFunction<typeof evaluateTrajectory>;
 const mockParseBedrockError = parseBedrockError as jest.MockedFunction<typeof parseBedrockError>;
+const mockComparePairWithBedrock = comparePairWithBedrock as jest.MockedFunction<typeof comparePairWithBedrock>;
+const mockEvaluateWithOpenAI = evaluateTrajectoryWithOpenAI as jest.MockedFunction<typeof evaluateTrajectoryWithOpenAI>;
+const mockParseOpenAIError = parseOpenAIError as jest.MockedFunction<typeof parseOpenAIError>;
+const mockEvaluateWithOllama = evaluateTrajectoryWithOllama as jest.MockedFunction<typeof evaluateTrajectoryWithOllama>;
+const mockParseOllamaError = parseOllamaError as jest.MockedFunction<typeof parseOllamaError>;
 
 // Helper to create mock request/response
 function createMocks(body: any = {}) {
@@ -204,5 +271,271 @@ describe('Judge Routes', () => {
       // Should fall through to bedrock provider (default)
       expect(mockEvaluateTrajectory).toHaveBeenCalled();
     });
+
+    it('routes openai provider models to the OpenAI-compatible service', async () => {
+      mockEvaluateWithOpenAI.mockResolvedValue({
+        passFailStatus: 'passed',
+        metrics: { accuracy: 88 },
+        llmJudgeReasoning: 'Solid',
+        improvementStrategies: [],
+        duration: 120,
+        promptTokens: 900,
+        completionTokens: 80,
+      });
+
+      const { req, res } = createMocks({
+        trajectory: [{ type: 'action', toolName: 'cluster_health' }],
+        expectedOutcomes: ['Identify root cause'],
+        modelId: 'gpt-4o',
+      });
+      const handler = getRouteHandler(judgeRoutes, 'post', '/api/judge');
+
+      await handler(req, res);
+
+      expect(mockEvaluateTrajectory).not.toHaveBeenCalled();
+      expect(mockEvaluateWithOpenAI).toHaveBeenCalledWith(
+        expect.objectContaining({ expectedOutcomes: ['Identify root cause'] }),
+        'gpt-4o-2024-08-06',
+        { baseUrl: 'http://localhost:8000/v1' }
+      );
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          passFailStatus: 'passed',
+          promptTokens: 900,
+          completionTokens: 80,
+        })
+      );
+    });
+
+    it('returns 500 with OpenAI-specific message on OpenAI error', async () => {
+      mockEvaluateWithOpenAI.mockRejectedValue(new Error('OpenAI judge request failed: 401 - bad key'));
+      mockParseOpenAIError.mockReturnValue('OpenAI API key missing or invalid. Set OPENAI_API_KEY.');
+
+      const { req, res } = createMocks({
+        trajectory: [{ type: 'action' }],
+        expectedOutcomes: ['Test'],
+        modelId: 'gpt-4o',
+      });
+      const handler = getRouteHandler(judgeRoutes, 'post', '/api/judge');
+
+      await handler(req, res);
+
+      expect(mockParseBedrockError).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(500);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'OpenAI Judge evaluation failed: OpenAI API key missing or invalid. Set OPENAI_API_KEY.',
+        details: 'OpenAI judge request failed: 401 - bad key',
+      });
+    });
+
+    it('routes ollama provider models to the Ollama service and reports the provider', async () => {
+      mockEvaluateWithOllama.mockResolvedValue({
+        passFailStatus: 'failed',
+        metrics: { accuracy: 45 },
+        llmJudgeReasoning: 'Missed root cause',
+        improvementStrategies: [],
+        duration: 800,
+        promptTokens: 1000,
+        completionTokens: 90,
+      });
+
+      const { req, res } = createMocks({
+        trajectory: [{ type: 'action', toolName: 'cluster_health' }],
+        expectedOutcomes: ['Identify root cause'],
+        modelId: 'llama-local',
+      });
+      const handler = getRouteHandler(judgeRoutes, 'post', '/api/judge');
+
+      await handler(req, res);
+
+      expect(mockEvaluateTrajectory).not.toHaveBeenCalled();
+      expect(mockEvaluateWithOllama).toHaveBeenCalledWith(
+        expect.objectContaining({ expectedOutcomes: ['Identify root cause'] }),
+        'llama3.1:8b',
+        { baseUrl: undefined }
+      );
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          passFailStatus: 'failed',
+          provider: 'ollama',
+          promptTokens: 1000,
+        })
+      );
+    });
+
+    it('returns 500 with Ollama-specific message on Ollama error', async () => {
+      mockEvaluateWithOllama.mockRejectedValue(new Error('fetch failed'));
+      mockParseOllamaError.mockReturnValue('Cannot connect to Ollama.');
+
+      const { req, res } = createMocks({
+        trajectory: [{ type: 'action' }],
+        expectedOutcomes: ['Test'],
+        modelId: 'llama-local',
+      });
+      const handler = getRouteHandler(judgeRoutes, 'post', '/api/judge');
+
+      await handler(req, res);
+
+      expect(mockParseBedrockError).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(500);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Ollama Judge evaluation failed: Cannot connect to Ollama.',
+        details: 'fetch failed',
+      });
+    });
+
+    it('routes custom provider models to a registered custom judge', async () => {
+      const customEvaluate = jest.fn().mockResolvedValue({
+        passFailStatus: 'passed',
+        metrics: { accuracy: 91 },
+        llmJudgeReasoning: 'In-house verdict',
+        improvementStrategies: [],
+      });
+      judgeRegistry.register({ type: 'acme', name: 'Acme', evaluate: customEvaluate });
+
+      const { req, res } = createMocks({
+        trajectory: [{ type: 'action', toolName: 'cluster_health' }],
+        expectedOutcomes: ['Identify root cause'],
+        modelId: 'in-house',
+      });
+      const handler = getRouteHandler(judgeRoutes, 'post', '/api/judge');
+
+      await handler(req, res);
+
+      expect(mockEvaluateTrajectory).not.toHaveBeenCalled();
+      expect(customEvaluate).toHaveBeenCalledWith(
+        expect.objectContaining({ expectedOutcomes: ['Identify root cause'] }),
+        expect.objectContaining({ modelId: 'acme-judge-v2' })
+      );
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ llmJudgeReasoning: 'In-house verdict', provider: 'acme' })
+      );
+    });
+
+    it('returns 500 when no judge is registered for the model provider', async () => {
+      const { req, res } = createMocks({
+        trajectory: [{ type: 'action' }],
+        expectedOutcomes: ['Test'],
+        modelId: 'unregistered',
+      });
+      const handler = getRouteHandler(judgeRoutes, 'post', '/api/judge');
+
+      await handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(500);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          error: expect.stringContaining("Judge evaluation failed: No judge registered for provider 'missing'"),
+        })
+      );
+    });
+  });
+
+  describe('POST /api/judge/pairwise', () => {
+    const trajectoryA = [{ type: 'response', content: 'Baseline answer' }];
+    const trajectoryB = [{ type: 'response', content: 'Candidate answer' }];
+
+    it('returns 400 when a trajectory is missing', async () => {
+      const { req, res } = createMocks({ trajectoryA });
+      const handler = getRouteHandler(judgeRoutes, 'post', '/api/judge/pairwise');
+
+      await handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Missing required fields: trajectoryA and trajectoryB',
+      });
+    });
+
+    it('judges both orders and declares a winner when they agree', async () => {
+      mockComparePairWithBedrock
+        .mockResolvedValueOnce({ winner: 'B', reasoning: 'Second is better', duration: 10, promptTokens: 100, completionTokens: 20 })
+        .mockResolvedValueOnce({ winner: 'A', reasoning: 'First is better', duration: 10, promptTokens: 100, completionTokens: 20 });
+
+      const { req, res } = createMocks({
+        trajectoryA,
+        trajectoryB,
+        prompt: 'Why is the cluster red?',
+        expectedOutcomes: ['Identify root cause'],
+        modelId: 'claude-sonnet-4',
+      });
+      const handler = getRouteHandler(judgeRoutes, 'post', '/api/judge/pairwise');
+
+      await handler(req, res);
+
+      expect(mockComparePairWithBedrock).toHaveBeenCalledTimes(2);
+      expect(mockComparePairWithBedrock.mock.calls[0][0]).toEqual(
+        expect.objectContaining({ first: trajectoryA, second: trajectoryB, prompt: 'Why is the cluster red?' })
+      );
+      expect(mockComparePairWithBedrock.mock.calls[1][0]).toEqual(
+        expect.objectContaining({ first: trajectoryB, second: trajectoryA })
+      );
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        winner: 'B',
+        consistent: true,
+        provider: 'bedrock',
+        promptTokens: 200,
+        completionTokens: 40,
+        verdicts: [
+          { order: 'AB', winner: 'B', reasoning: 'Second is better' },
+          { order: 'BA', winner: 'B', reasoning: 'First is better' },
+        ],
+      }));
+    });
+
+    it('returns a tie when the winner changes with the order', async () => {
+      mockComparePairWithBedrock
+        .mockResolvedValueOnce({ winner: 'A', reasoning: 'First is better', duration: 10 })
+        .mockResolvedValueOnce({ winner: 'A', reasoning: 'First is better', duration: 10 });
+
+      const { req, res } = createMocks({ trajectoryA, trajectoryB });
+      const handler = getRouteHandler(judgeRoutes, 'post', '/api/judge/pairwise');
+
+      await handler(req, res);
+
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ winner: 'tie', consistent: false }));
+    });
+
+    it('uses the demo judge for demo-model', async () => {
+      const { req, res } = createMocks({
+        trajectoryA: [{ type: 'thinking', content: 'Hmm' }],
+        trajectoryB: [{ type: 'action', toolName: 'cluster_health' }, { type: 'response', content: 'Done' }],
+        modelId: 'demo-model',
+      });
+      const handler = getRouteHandler(judgeRoutes, 'post', '/api/judge/pairwise');
+
+      await handler(req, res);
+
+      expect(mockComparePairWithBedrock).not.toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ winner: 'B', provider: 'demo' }));
+    });
+
+    it('returns 400 when the judge does not support pairwise comparison', async () => {
+      judgeRegistry.register({ type: 'acme', name: 'Acme', evaluate: jest.fn() });
+
+      const { req, res } = createMocks({ trajectoryA, trajectoryB, modelId: 'in-house' });
+      const handler = getRouteHandler(judgeRoutes, 'post', '/api/judge/pairwise');
+
+      await handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Acme judge does not support pairwise comparison' });
+    });
+
+    it('returns 500 with a provider message on judge error', async () => {
+      mockComparePairWithBedrock.mockRejectedValue(new Error('ThrottlingException'));
+      mockParseBedrockError.mockReturnValue('Bedrock API rate limit exceeded.');
+
+      const { req, res } = createMocks({ trajectoryA, trajectoryB, modelId: 'claude-sonnet-4' });
+      const handler = getRouteHandler(judgeRoutes, 'post', '/api/judge/pairwise');
+
+      await handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(500);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Bedrock Judge pairwise comparison failed: Bedrock API rate limit exceeded.',
+        details: 'ThrottlingException',
+      });
+    });
   });
 });
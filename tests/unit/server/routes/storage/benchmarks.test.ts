@@ -96,6 +96,14 @@ jest.mock('@/services/benchmarkRunner', () => ({
   createCancellationToken: () => mockCreateCancellationToken(),
 }));
 
+// Mock rejudge service
+const mockRejudgeBenchmarkRun = jest.fn();
+
+jest.mock('@/services/rejudge', () => ({
+  rejudgeBenchmarkRun: (...args: any[]) => mockRejudgeBenchmarkRun(...args),
+  validateRejudgeOptions: jest.requireActual('@/services/rejudge').validateRejudgeOptions,
+}));
+
 // Silence console output
 beforeAll(() => {
   jest.spyOn(console, 'log').mockImplementation(() => {});
@@ -574,6 +582,54 @@ describe('Experiments Storage Routes', () => {
       );
     });
 
+    it('should create a new version when the rubric changes', async () => {
+      mockGet.mockResolvedValue({
+        body: {
+          found: true,
+          _source: {
+            id: 'exp-123',
+            name: 'Benchmark',
+            testCaseIds: ['tc-1'],
+            currentVersion: 1,
+            versions: [{ version: 1, createdAt: '2024-01-01T00:00:00Z', testCaseIds: ['tc-1'] }],
+            runs: [],
+          },
+        },
+      });
+      mockIndex.mockResolvedValue({ body: { result: 'updated' } });
+
+      const rubric = { name: 'Strict', criteria: [{ name: 'Correct', description: 'Right answer' }], passThreshold: 90 };
+      const { req, res } = createMocks({ id: 'exp-123' }, { rubric });
+      const handler = getRouteHandler(benchmarksRoutes, 'put', '/api/storage/benchmarks/:id');
+
+      await handler(req, res);
+
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          currentVersion: 2,
+          rubric,
+          versions: expect.arrayContaining([
+            expect.objectContaining({ version: 2, testCaseIds: ['tc-1'], rubric }),
+          ]),
+        })
+      );
+    });
+
+    it('should reject an invalid rubric', async () => {
+      const { req, res } = createMocks(
+        { id: 'exp-123' },
+        { rubric: { criteria: [] } }
+      );
+      const handler = getRouteHandler(benchmarksRoutes, 'put', '/api/storage/benchmarks/:id');
+
+      await handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: expect.stringContaining('Invalid rubric') })
+      );
+    });
+
     it('should return 404 when experiment not found', async () => {
       mockGet.mockResolvedValue({
         body: { found: false },
@@ -820,6 +876,428 @@ describe('Experiments Storage Routes', () => {
     });
   });
 
+  describe('POST /api/storage/benchmarks/:id/matrix', () => {
+    const handler = () => getRouteHandler(benchmarksRoutes, 'post', '/api/storage/benchmarks/:id/matrix');
+
+    it('should create and queue one run per matrix cell', async () => {
+      mockGet.mockResolvedValue({
+        body: {
+          found: true,
+          _source: { id: 'exp-123', name: 'Test Benchmark', testCaseIds: ['demo-test-case-1'], runs: [] },
+        },
+      });
+      mockUpdate.mockResolvedValue({ body: {} });
+      mockSearch.mockResolvedValue({ body: { hits: { hits: [] } } });
+      mockExecuteRun.mockImplementation(async (_benchmark: any, run: any) => run);
+
+      const { req, res } = createMocks(
+        { id: 'exp-123' },
+        { name: 'Matrix', agentKeys: ['agent-a', 'agent-b'], modelIds: ['model-1'], concurrency: 2 }
+      );
+      await handler()(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(201);
+      const response = (res.json as jest.Mock).mock.calls[0][0];
+      expect(response.matrixId).toMatch(/^matrix-/);
+      expect(response.runs).toEqual([
+        expect.objectContaining({ name: 'Matrix [agent-a / model-1]', agentKey: 'agent-a', modelId: 'model-1' }),
+        expect.objectContaining({ name: 'Matrix [agent-b / model-1]', agentKey: 'agent-b', modelId: 'model-1' }),
+      ]);
+
+      const { source, params } = mockUpdate.mock.calls[0][0].body.script;
+      expect(source).toContain('ctx._source.runs.addAll(params.runs)');
+      const savedRuns = params.runs;
+      expect(savedRuns).toHaveLength(2);
+      expect(savedRuns[0]).toMatchObject({
+        matrixId: response.matrixId,
+        concurrency: 1,
+        results: { 'demo-test-case-1': { reportId: '', status: 'pending' } },
+      });
+    });
+
+    it('should reject an invalid matrix', async () => {
+      const { req, res } = createMocks({ id: 'exp-123' }, { name: 'Matrix', agentKeys: [], modelIds: ['model-1'] });
+      await handler()(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'agentKeys must be a non-empty array of distinct agent keys' });
+      expect(mockUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should reject sample benchmarks', async () => {
+      const { req, res } = createMocks(
+        { id: 'demo-experiment-1' },
+        { name: 'Matrix', agentKeys: ['agent-a'], modelIds: ['model-1'] }
+      );
+      await handler()(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should return 404 when the benchmark does not exist', async () => {
+      mockGet.mockResolvedValue({ body: { found: false } });
+      const { req, res } = createMocks(
+        { id: 'exp-missing' },
+        { name: 'Matrix', agentKeys: ['agent-a'], modelIds: ['model-1'] }
+      );
+      await handler()(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('benchmark schedules', () => {
+    const runConfig = { name: 'Nightly', agentKey: 'agent-a', modelId: 'model-1' };
+    const storedSchedule = {
+      id: 'schedule-1',
+      cron: '0 2 * * *',
+      runConfig,
+      enabled: true,
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+      nextFireAt: '2024-01-02T02:00:00.000Z',
+      lastRunId: 'run-1',
+    };
+
+    it('should list a benchmark\'s schedules', async () => {
+      mockGet.mockResolvedValue({ body: { found: true, _source: { schedules: [storedSchedule] } } });
+      const { req, res } = createMocks({ id: 'exp-123' });
+      await getRouteHandler(benchmarksRoutes, 'get', '/api/storage/benchmarks/:id/schedules')(req, res);
+
+      expect(res.json).toHaveBeenCalledWith({ schedules: [storedSchedule] });
+    });
+
+    it('should list no schedules for sample benchmarks', async () => {
+      const { req, res } = createMocks({ id: 'demo-experiment-1' });
+      await getRouteHandler(benchmarksRoutes, 'get', '/api/storage/benchmarks/:id/schedules')(req, res);
+
+      expect(res.json).toHaveBeenCalledWith({ schedules: [] });
+      expect(mockGet).not.toHaveBeenCalled();
+    });
+
+    it('should add an enabled schedule with its next fire time', async () => {
+      mockUpdate.mockResolvedValue({ body: { result: 'updated' } });
+      const { req, res } = createMocks({ id: 'exp-123' }, { cron: '0 2 * * *', runConfig });
+      await getRouteHandler(benchmarksRoutes, 'post', '/api/storage/benchmarks/:id/schedules')(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(201);
+      const schedule = (res.json as jest.Mock).mock.calls[0][0];
+      expect(schedule).toMatchObject({ cron: '0 2 * * *', runConfig, enabled: true });
+      expect(schedule.id).toMatch(/^schedule-/);
+      expect(new Date(schedule.nextFireAt).getTime()).toBeGreaterThan(Date.now());
+      expect(mockUpdate.mock.calls[0][0].body.script.params).toEqual({ schedule });
+    });
+
+    it.each([
+      [{ cron: '0 25 * * *', runConfig }, 'Invalid hour value "25" (expected 0-23)'],
+      [{ cron: '0 2 * * *', runConfig: { name: 'Nightly' } }, 'runConfig: agentKey is required and must be a string'],
+      [{ cron: '0 2 * * *', runConfig, enabled: 'yes' }, 'enabled must be a boolean'],
+    ])('should reject schedule %j', async (body, error) => {
+      const { req, res } = createMocks({ id: 'exp-123' }, body);
+      await getRouteHandler(benchmarksRoutes, 'post', '/api/storage/benchmarks/:id/schedules')(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error });
+      expect(mockUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should reject scheduling sample benchmarks', async () => {
+      const { req, res } = createMocks({ id: 'demo-experiment-1' }, { cron: '0 2 * * *', runConfig });
+      await getRouteHandler(benchmarksRoutes, 'post', '/api/storage/benchmarks/:id/schedules')(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should clear the next fire time when a schedule is disabled', async () => {
+      mockGet.mockResolvedValue({ body: { found: true, _source: { schedules: [storedSchedule] } } });
+      mockUpdate.mockResolvedValue({ body: { result: 'updated' } });
+      const { req, res } = createMocks({ id: 'exp-123', scheduleId: 'schedule-1' }, { enabled: false });
+      await getRouteHandler(benchmarksRoutes, 'put', '/api/storage/benchmarks/:id/schedules/:scheduleId')(req, res);
+
+      const updated = (res.json as jest.Mock).mock.calls[0][0];
+      expect(updated).toMatchObject({ id: 'schedule-1', enabled: false, lastRunId: 'run-1' });
+      expect(updated.nextFireAt).toBeUndefined();
+      expect(mockUpdate.mock.calls[0][0].body.script.params).toMatchObject({
+        scheduleId: 'schedule-1',
+        fields: { enabled: false, nextFireAt: null },
+      });
+    });
+
+    it('should count from now when a schedule is re-enabled', async () => {
+      mockGet.mockResolvedValue({
+        body: { found: true, _source: { schedules: [{ ...storedSchedule, enabled: false, nextFireAt: undefined }] } },
+      });
+      mockUpdate.mockResolvedValue({ body: { result: 'updated' } });
+      const { req, res } = createMocks({ id: 'exp-123', scheduleId: 'schedule-1' }, { enabled: true });
+      await getRouteHandler(benchmarksRoutes, 'put', '/api/storage/benchmarks/:id/schedules/:scheduleId')(req, res);
+
+      const updated = (res.json as jest.Mock).mock.calls[0][0];
+      expect(new Date(updated.nextFireAt).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should return 404 when updating a missing schedule', async () => {
+      mockGet.mockResolvedValue({ body: { found: true, _source: { schedules: [storedSchedule] } } });
+      const { req, res } = createMocks({ id: 'exp-123', scheduleId: 'schedule-missing' }, { enabled: false });
+      await getRouteHandler(benchmarksRoutes, 'put', '/api/storage/benchmarks/:id/schedules/:scheduleId')(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Schedule not found' });
+    });
+
+    it('should delete a schedule', async () => {
+      mockUpdate.mockResolvedValue({ body: { result: 'updated' } });
+      const { req, res } = createMocks({ id: 'exp-123', scheduleId: 'schedule-1' });
+      await getRouteHandler(benchmarksRoutes, 'delete', '/api/storage/benchmarks/:id/schedules/:scheduleId')(req, res);
+
+      expect(res.json).toHaveBeenCalledWith({ deleted: true, scheduleId: 'schedule-1' });
+    });
+
+    it('should return 404 when deleting a missing schedule', async () => {
+      mockUpdate.mockResolvedValue({ body: { result: 'noop' } });
+      const { req, res } = createMocks({ id: 'exp-123', scheduleId: 'schedule-missing' });
+      await getRouteHandler(benchmarksRoutes, 'delete', '/api/storage/benchmarks/:id/schedules/:scheduleId')(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('POST /api/storage/benchmarks/:id/runs/:runId/rejudge', () => {
+    const storedBenchmark = {
+      id: 'exp-123',
+      name: 'Benchmark',
+      runs: [
+        {
+          id: 'run-1',
+          name: 'Run 1',
+          agentKey: 'agent',
+          modelId: 'model',
+          status: 'completed',
+          createdAt: '2024-01-01T00:00:00Z',
+          results: {
+            'tc-1': { reportId: 'report-1', status: 'completed' },
+            'tc-2': { reportId: 'report-2', status: 'completed' },
+          },
+          stats: { passed: 0, failed: 2, pending: 0, total: 2 },
+        },
+      ],
+    };
+
+    it('should reject re-judging sample data', async () => {
+      const { req, res } = createMocks({ id: 'demo-benchmark-1', runId: 'run-1' });
+      const handler = getRouteHandler(benchmarksRoutes, 'post', '/api/storage/benchmarks/:id/runs/:runId/rejudge');
+
+      await handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(mockRejudgeBenchmarkRun).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when run not found', async () => {
+      mockGet.mockResolvedValue({ body: { found: true, _source: storedBenchmark } });
+
+      const { req, res } = createMocks({ id: 'exp-123', runId: 'missing' });
+      const handler = getRouteHandler(benchmarksRoutes, 'post', '/api/storage/benchmarks/:id/runs/:runId/rejudge');
+
+      await handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Run not found' });
+    });
+
+    it('should return 409 while the run is executing', async () => {
+      mockGet.mockResolvedValue({
+        body: { found: true, _source: { ...storedBenchmark, runs: [{ ...storedBenchmark.runs[0], status: 'running' }] } },
+      });
+
+      const { req, res } = createMocks({ id: 'exp-123', runId: 'run-1' });
+      const handler = getRouteHandler(benchmarksRoutes, 'post', '/api/storage/benchmarks/:id/runs/:runId/rejudge');
+
+      await handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(mockRejudgeBenchmarkRun).not.toHaveBeenCalled();
+    });
+
+    it.each(['paused', 'pending'])('should return 409 while the run is %s', async (status) => {
+      mockGet.mockResolvedValue({
+        body: { found: true, _source: { ...storedBenchmark, runs: [{ ...storedBenchmark.runs[0], status }] } },
+      });
+
+      const { req, res } = createMocks({ id: 'exp-123', runId: 'run-1' });
+      const handler = getRouteHandler(benchmarksRoutes, 'post', '/api/storage/benchmarks/:id/runs/:runId/rejudge');
+
+      await handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Run is still executing. Wait for it to finish or cancel it before re-judging.',
+      });
+      expect(mockRejudgeBenchmarkRun).not.toHaveBeenCalled();
+    });
+
+    it('should re-judge every test case run and persist recomputed stats', async () => {
+      mockGet.mockResolvedValue({ body: { found: true, _source: storedBenchmark } });
+      const summary = {
+        benchmarkId: 'exp-123',
+        runId: 'run-1',
+        rejudged: 2,
+        skipped: 0,
+        failed: 0,
+        results: [],
+      };
+      mockRejudgeBenchmarkRun.mockResolvedValue(summary);
+      mockSearch.mockResolvedValue({
+        body: {
+          hits: {
+            hits: [
+              { _source: { id: 'report-1', passFailStatus: 'passed' } },
+              { _source: { id: 'report-2', passFailStatus: 'failed' } },
+            ],
+          },
+        },
+      });
+      mockUpdate.mockResolvedValue({ body: {} });
+
+      const judgeEnsemble = { models: ['claude-sonnet-4', 'claude-haiku-3.5'], aggregation: 'majority' };
+      const { req, res } = createMocks({ id: 'exp-123', runId: 'run-1' }, { judgeEnsemble });
+      const handler = getRouteHandler(benchmarksRoutes, 'post', '/api/storage/benchmarks/:id/runs/:runId/rejudge');
+
+      await handler(req, res);
+
+      expect(mockRejudgeBenchmarkRun).toHaveBeenCalledWith(
+        mockClient,
+        'exp-123',
+        expect.objectContaining({ id: 'run-1' }),
+        { modelId: undefined, judgeEnsemble }
+      );
+      expect(mockUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'exp-123',
+          body: expect.objectContaining({
+            script: expect.objectContaining({
+              params: expect.objectContaining({
+                runId: 'run-1',
+                stats: expect.objectContaining({ passed: 1, failed: 1, total: 2 }),
+              }),
+            }),
+          }),
+        })
+      );
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ rejudged: 2, stats: expect.objectContaining({ passed: 1, failed: 1 }) })
+      );
+    });
+  });
+
+  describe('POST /api/storage/benchmarks/:id/runs/:runId/retry-failed', () => {
+    const route = '/api/storage/benchmarks/:id/runs/:runId/retry-failed';
+    const storedRun = {
+      id: 'run-1',
+      name: 'Run 1',
+      agentKey: 'agent',
+      modelId: 'model',
+      status: 'completed',
+      createdAt: '2024-01-01T00:00:00Z',
+      testCaseSnapshots: [
+        { id: 'tc-1', version: 1, name: 'First' },
+        { id: 'tc-2', version: 1, name: 'Second' },
+      ],
+      results: {
+        'tc-1': { reportId: 'report-1', status: 'completed' },
+        'tc-2': { reportId: 'report-2', status: 'failed' },
+      },
+    };
+    const storedBenchmark = {
+      id: 'exp-123',
+      name: 'Benchmark',
+      testCaseIds: ['tc-1', 'tc-2', 'tc-3'],
+      runs: [storedRun],
+    };
+
+    it('should reject retrying sample data', async () => {
+      const { req, res } = createMocks({ id: 'demo-benchmark-1', runId: 'run-1' });
+
+      await getRouteHandler(benchmarksRoutes, 'post', route)(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(mockGet).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when run not found', async () => {
+      mockGet.mockResolvedValue({ body: { found: true, _source: storedBenchmark } });
+      const { req, res } = createMocks({ id: 'exp-123', runId: 'missing' });
+
+      await getRouteHandler(benchmarksRoutes, 'post', route)(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Run not found' });
+    });
+
+    it('should return 409 while the run is executing', async () => {
+      mockGet.mockResolvedValue({
+        body: { found: true, _source: { ...storedBenchmark, runs: [{ ...storedRun, status: 'paused' }] } },
+      });
+      const { req, res } = createMocks({ id: 'exp-123', runId: 'run-1' });
+
+      await getRouteHandler(benchmarksRoutes, 'post', route)(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(mockExecuteRun).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when nothing failed', async () => {
+      const passedRun = { ...storedRun, results: { 'tc-1': { reportId: 'report-1', status: 'completed' } } };
+      mockGet.mockResolvedValue({ body: { found: true, _source: { ...storedBenchmark, runs: [passedRun] } } });
+      const { req, res } = createMocks({ id: 'exp-123', runId: 'run-1' });
+
+      await getRouteHandler(benchmarksRoutes, 'post', route)(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Run has no failed or cancelled test cases to retry' });
+    });
+
+    it('should reset failed results, keep the replaced attempt, and re-execute the run', async () => {
+      mockGet.mockResolvedValue({ body: { found: true, _source: storedBenchmark } });
+      mockUpdate.mockResolvedValue({ body: {} });
+      mockSearch.mockResolvedValue({ body: { hits: { hits: [] } } });
+      mockExecuteRun.mockImplementation(async (_benchmark: any, run: any) => ({
+        ...run,
+        results: { ...run.results, 'tc-2': { ...run.results['tc-2'], reportId: 'report-3', status: 'completed' } },
+      }));
+      const { req, res } = createMocks({ id: 'exp-123', runId: 'run-1' });
+
+      await getRouteHandler(benchmarksRoutes, 'post', route)(req, res);
+
+      const savedRun = mockUpdate.mock.calls[0][0].body.script.params.run;
+      expect(savedRun).toEqual(expect.objectContaining({ id: 'run-1', status: 'running', jobId: expect.stringMatching(/^job-/) }));
+      expect(savedRun.results['tc-2']).toEqual({
+        reportId: '',
+        status: 'pending',
+        attempts: [{ reportId: 'report-2', status: 'failed', retriedAt: expect.any(String) }],
+      });
+
+      // The run executes only the test cases it was created with
+      const [executedBenchmark, executedRun] = mockExecuteRun.mock.calls[0];
+      expect(executedBenchmark.testCaseIds).toEqual(['tc-1', 'tc-2']);
+      expect(executedRun.id).toBe('run-1');
+
+      const events = (res.write as jest.Mock).mock.calls.map(([data]) => JSON.parse(data.replace(/^data: /, '')));
+      expect(events[0]).toEqual({
+        type: 'started',
+        runId: 'run-1',
+        jobId: savedRun.jobId,
+        testCases: [{ id: 'tc-2', name: 'Second', status: 'pending' }],
+      });
+      const completed = events.find(e => e.type === 'completed');
+      expect(completed.run.results['tc-2']).toEqual(expect.objectContaining({
+        reportId: 'report-3',
+        status: 'completed',
+        attempts: [expect.objectContaining({ reportId: 'report-2' })],
+      }));
+      expect(res.end).toHaveBeenCalled();
+    });
+  });
+
   describe('POST /api/storage/benchmarks/:id/cancel', () => {
     it('should return error when runId not provided', async () => {
       const { req, res } = createMocks({ id: 'exp-123' }, {});
@@ -845,6 +1323,39 @@ describe('Experiments Storage Routes', () => {
         error: 'Run not found or already completed',
       });
     });
+
+    it('should cancel a run executing in the job queue', async () => {
+      mockGet.mockResolvedValue({
+        body: { found: true, _source: { id: 'exp-123', name: 'Test Benchmark', testCaseIds: ['tc-1'], runs: [] } },
+      });
+      mockUpdate.mockResolvedValue({ body: {} });
+      mockSearch.mockResolvedValue({ body: { hits: { hits: [] } } });
+      const token = { isCancelled: false, cancel: jest.fn(() => { token.isCancelled = true; }) };
+      mockCreateCancellationToken.mockReturnValueOnce(token);
+      let finishRun: () => void = () => {};
+      mockExecuteRun.mockImplementation((_benchmark: any, run: any) =>
+        new Promise(resolve => { finishRun = () => resolve(run); })
+      );
+
+      const execute = createMocks({ id: 'exp-123' }, { name: 'Run', agentKey: 'agent', modelId: 'model' });
+      const executing = getRouteHandler(benchmarksRoutes, 'post', '/api/storage/benchmarks/:id/execute')(execute.req, execute.res);
+      for (let i = 0; i < 5 && mockExecuteRun.mock.calls.length === 0; i++) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+      const started = JSON.parse((execute.res.write as jest.Mock).mock.calls[0][0].replace(/^data: /, ''));
+      expect(started.jobId).toEqual(expect.stringMatching(/^job-/));
+
+      const { req, res } = createMocks({ id: 'exp-123' }, { runId: started.runId });
+      await getRouteHandler(benchmarksRoutes, 'post', '/api/storage/benchmarks/:id/cancel')(req, res);
+
+      expect(token.cancel).toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith({ cancelled: true, runId: started.runId });
+
+      finishRun();
+      await executing;
+      expect(execute.res.write).toHaveBeenCalledWith(expect.stringContaining('"type":"cancelled"'));
+      expect(execute.res.end).toHaveBeenCalled();
+    });
   });
 });
 
@@ -1250,6 +1761,77 @@ describe('Experiments Storage Routes - Validation', () => {
       error: 'modelId is required and must be a string',
     });
   });
+
+  it('should reject execute with an invalid judgeEnsemble', async () => {
+    const handler = getRouteHandler(benchmarksRoutes, 'post', '/api/storage/benchmarks/:id/execute');
+
+    const empty = createMocks(
+      { id: 'exp-123' },
+      { name: 'Run', agentKey: 'agent', modelId: 'model', judgeEnsemble: { models: [] } }
+    );
+    await handler(empty.req, empty.res);
+    expect(empty.res.status).toHaveBeenCalledWith(400);
+    expect(empty.res.json).toHaveBeenCalledWith({
+      error: 'judgeEnsemble.models must be a non-empty array of judge model keys',
+    });
+
+    const badAggregation = createMocks(
+      { id: 'exp-123' },
+      { name: 'Run', agentKey: 'agent', modelId: 'model', judgeEnsemble: { models: ['a', 'b'], aggregation: 'max' } }
+    );
+    await handler(badAggregation.req, badAggregation.res);
+    expect(badAggregation.res.status).toHaveBeenCalledWith(400);
+    expect(badAggregation.res.json).toHaveBeenCalledWith({
+      error: 'judgeEnsemble.aggregation must be one of: majority, mean, min',
+    });
+  });
+
+  it('should reject execute with an invalid concurrency', async () => {
+    const handler = getRouteHandler(benchmarksRoutes, 'post', '/api/storage/benchmarks/:id/execute');
+
+    for (const concurrency of [0, 2.5, '4', 1000]) {
+      const { req, res } = createMocks(
+        { id: 'exp-123' },
+        { name: 'Run', agentKey: 'agent', modelId: 'model', concurrency }
+      );
+      await handler(req, res);
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'concurrency must be an integer from 1 to 32',
+      });
+    }
+  });
+
+  it('should reject execute with invalid iterations', async () => {
+    const handler = getRouteHandler(benchmarksRoutes, 'post', '/api/storage/benchmarks/:id/execute');
+
+    for (const iterations of [0, 1.5, '3', 21]) {
+      const { req, res } = createMocks(
+        { id: 'exp-123' },
+        { name: 'Run', agentKey: 'agent', modelId: 'model', iterations }
+      );
+      await handler(req, res);
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'iterations must be an integer from 1 to 20',
+      });
+    }
+  });
+
+  it('should reject execute with an invalid budget', async () => {
+    const handler = getRouteHandler(benchmarksRoutes, 'post', '/api/storage/benchmarks/:id/execute');
+    const { req, res } = createMocks(
+      { id: 'exp-123' },
+      { name: 'Run', agentKey: 'agent', modelId: 'model', budget: { maxCostUsd: 0 } }
+    );
+
+    await handler(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({
+      error: 'budget.maxCostUsd must be a positive number',
+    });
+  });
 });
 
 describe('Benchmark Polling Mode (fields=polling)', () => {
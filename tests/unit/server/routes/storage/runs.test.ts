@@ -116,6 +116,14 @@ jest.mock('@/server/services/storage/index', () => ({
   updateRunWithClient: (...args: any[]) => mockUpdateRunWithClient(...args),
 }));
 
+// Mock rejudge service
+const mockRejudgeStoredRun = jest.fn();
+
+jest.mock('@/services/rejudge', () => ({
+  rejudgeStoredRun: (...args: any[]) => mockRejudgeStoredRun(...args),
+  validateRejudgeOptions: jest.requireActual('@/services/rejudge').validateRejudgeOptions,
+}));
+
 // Silence console output
 beforeAll(() => {
   jest.spyOn(console, 'log').mockImplementation(() => {});
@@ -705,6 +713,70 @@ describe('Runs Storage Routes', () => {
     });
   });
 
+  describe('POST /api/storage/runs/:id/rejudge', () => {
+    it('should reject re-judging sample data', async () => {
+      const { req, res } = createMocks({ id: 'demo-run-1' });
+      const handler = getRouteHandler(runsRoutes, 'post', '/api/storage/runs/:id/rejudge');
+
+      await handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(mockRejudgeStoredRun).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid judge ensemble', async () => {
+      const { req, res } = createMocks({ id: 'run-123' }, { judgeEnsemble: { models: [] } });
+      const handler = getRouteHandler(runsRoutes, 'post', '/api/storage/runs/:id/rejudge');
+
+      await handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(mockGetRunByIdWithClient).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when run not found', async () => {
+      mockGetRunByIdWithClient.mockResolvedValue(null);
+
+      const { req, res } = createMocks({ id: 'missing' });
+      const handler = getRouteHandler(runsRoutes, 'post', '/api/storage/runs/:id/rejudge');
+
+      await handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+    });
+
+    it('should return 409 when the run cannot be re-judged', async () => {
+      mockGetRunByIdWithClient.mockResolvedValue({ id: 'run-123', status: 'running' });
+      mockRejudgeStoredRun.mockResolvedValue({ status: 'skipped', reason: 'Run is still executing' });
+
+      const { req, res } = createMocks({ id: 'run-123' });
+      const handler = getRouteHandler(runsRoutes, 'post', '/api/storage/runs/:id/rejudge');
+
+      await handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Run is still executing' });
+    });
+
+    it('should re-judge the run with the requested judge', async () => {
+      const run = { id: 'run-123', status: 'completed', passFailStatus: 'failed' };
+      const rejudged = { ...run, passFailStatus: 'passed', judgeHistory: [{ passFailStatus: 'failed' }] };
+      mockGetRunByIdWithClient.mockResolvedValue(run);
+      mockRejudgeStoredRun.mockResolvedValue({ status: 'rejudged', run: rejudged, previous: {} });
+
+      const { req, res } = createMocks({ id: 'run-123' }, { modelId: 'claude-sonnet-4' });
+      const handler = getRouteHandler(runsRoutes, 'post', '/api/storage/runs/:id/rejudge');
+
+      await handler(req, res);
+
+      expect(mockRejudgeStoredRun).toHaveBeenCalledWith(mockClient, run, {
+        modelId: 'claude-sonnet-4',
+        judgeEnsemble: undefined,
+      });
+      expect(res.json).toHaveBeenCalledWith(rejudged);
+    });
+  });
+
   describe('POST /api/storage/runs/:id/annotations', () => {
     it('should reject adding annotations to sample data', async () => {
       const { req, res } = createMocks({ id: 'demo-run-1' }, { text: 'Test annotation' });
@@ -0,0 +1,197 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Request, Response } from 'express';
+
+const mockLease = jest.fn();
+const mockHeartbeat = jest.fn();
+const mockComplete = jest.fn();
+const mockFail = jest.fn();
+const mockListWorkers = jest.fn();
+const mockGetTaskCounts = jest.fn();
+
+jest.mock('@/server/services/workerTasks', () => ({
+  workerTasks: {
+    lease: (...args: any[]) => mockLease(...args),
+    heartbeat: (...args: any[]) => mockHeartbeat(...args),
+    complete: (...args: any[]) => mockComplete(...args),
+    fail: (...args: any[]) => mockFail(...args),
+    listWorkers: (...args: any[]) => mockListWorkers(...args),
+    getTaskCounts: (...args: any[]) => mockGetTaskCounts(...args),
+  },
+}));
+
+const mockWorkersConfig = { enabled: true, leaseMs: 30000, maxAttempts: 3 };
+jest.mock('@/server/config', () => ({
+  get BENCHMARK_WORKERS() {
+    return mockWorkersConfig;
+  },
+}));
+
+import workerRoutes from '@/server/routes/workers';
+
+const task = { id: 'task-1', runId: 'run-1', testCaseId: 'tc-1', attempt: 1 };
+const report = { id: 'report-1', status: 'completed', trajectory: [] };
+
+// Helper to create mock request/response
+function createMocks(params: any = {}, body: any = {}) {
+  const req = { params, body } as unknown as Request;
+  const res = {
+    json: jest.fn().mockReturnThis(),
+    status: jest.fn().mockReturnThis(),
+    end: jest.fn(),
+  } as unknown as Response;
+  return { req, res };
+}
+
+// Helper to get route handler
+function getRouteHandler(router: any, method: string, path: string) {
+  const routes = router.stack;
+  const route = routes.find(
+    (layer: any) =>
+      layer.route &&
+      layer.route.path === path &&
+      layer.route.methods[method.toLowerCase()]
+  );
+  return route?.route.stack[0].handle;
+}
+
+describe('Worker Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockWorkersConfig.enabled = true;
+  });
+
+  describe('GET /api/workers', () => {
+    it('should list workers and task counts', () => {
+      const workers = [{ id: 'worker-1', activeTaskIds: ['task-1'], completedTasks: 2, failedTasks: 0 }];
+      mockListWorkers.mockReturnValue(workers);
+      mockGetTaskCounts.mockReturnValue({ pending: 3, leased: 1 });
+      const { req, res } = createMocks();
+      const handler = getRouteHandler(workerRoutes, 'get', '/api/workers');
+
+      handler(req, res);
+
+      expect(res.json).toHaveBeenCalledWith({ enabled: true, workers, tasks: { pending: 3, leased: 1 } });
+    });
+  });
+
+  describe('POST /api/workers/:workerId/lease', () => {
+    const path = '/api/workers/:workerId/lease';
+
+    it('should lease the next task with the lease duration', () => {
+      mockLease.mockReturnValue(task);
+      const { req, res } = createMocks({ workerId: 'worker-1' });
+
+      getRouteHandler(workerRoutes, 'post', path)(req, res);
+
+      expect(mockLease).toHaveBeenCalledWith('worker-1');
+      expect(res.json).toHaveBeenCalledWith({ task, leaseMs: 30000 });
+    });
+
+    it('should return 204 when no task is waiting', () => {
+      mockLease.mockReturnValue(null);
+      const { req, res } = createMocks({ workerId: 'worker-1' });
+
+      getRouteHandler(workerRoutes, 'post', path)(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(204);
+      expect(res.end).toHaveBeenCalled();
+    });
+
+    it('should return 409 when distributed execution is disabled', () => {
+      mockWorkersConfig.enabled = false;
+      const { req, res } = createMocks({ workerId: 'worker-1' });
+
+      getRouteHandler(workerRoutes, 'post', path)(req, res);
+
+      expect(mockLease).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Distributed execution is disabled (set BENCHMARK_WORKERS_ENABLED=true)',
+      });
+    });
+  });
+
+  describe('POST /api/workers/:workerId/tasks/:taskId/heartbeat', () => {
+    const path = '/api/workers/:workerId/tasks/:taskId/heartbeat';
+
+    it('should extend the lease', () => {
+      mockHeartbeat.mockReturnValue(true);
+      const { req, res } = createMocks({ workerId: 'worker-1', taskId: 'task-1' });
+
+      getRouteHandler(workerRoutes, 'post', path)(req, res);
+
+      expect(mockHeartbeat).toHaveBeenCalledWith('task-1', 'worker-1');
+      expect(res.json).toHaveBeenCalledWith({ leaseMs: 30000 });
+    });
+
+    it('should return 409 when the worker lost the lease', () => {
+      mockHeartbeat.mockReturnValue(false);
+      const { req, res } = createMocks({ workerId: 'worker-1', taskId: 'task-1' });
+
+      getRouteHandler(workerRoutes, 'post', path)(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Lease lost' });
+    });
+  });
+
+  describe('POST /api/workers/:workerId/tasks/:taskId/complete', () => {
+    const path = '/api/workers/:workerId/tasks/:taskId/complete';
+
+    it('should accept the report', () => {
+      mockComplete.mockReturnValue(true);
+      const { req, res } = createMocks({ workerId: 'worker-1', taskId: 'task-1' }, { report });
+
+      getRouteHandler(workerRoutes, 'post', path)(req, res);
+
+      expect(mockComplete).toHaveBeenCalledWith('task-1', 'worker-1', report);
+      expect(res.json).toHaveBeenCalledWith({ completed: true });
+    });
+
+    it('should reject a missing or malformed report', () => {
+      const { req, res } = createMocks({ workerId: 'worker-1', taskId: 'task-1' }, { report: { id: 'report-1' } });
+
+      getRouteHandler(workerRoutes, 'post', path)(req, res);
+
+      expect(mockComplete).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should return 409 when the worker lost the lease', () => {
+      mockComplete.mockReturnValue(false);
+      const { req, res } = createMocks({ workerId: 'worker-1', taskId: 'task-1' }, { report });
+
+      getRouteHandler(workerRoutes, 'post', path)(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+    });
+  });
+
+  describe('POST /api/workers/:workerId/tasks/:taskId/fail', () => {
+    const path = '/api/workers/:workerId/tasks/:taskId/fail';
+
+    it('should fail the task with the worker\'s error', () => {
+      mockFail.mockReturnValue(true);
+      const { req, res } = createMocks({ workerId: 'worker-1', taskId: 'task-1' }, { error: 'Agent not found' });
+
+      getRouteHandler(workerRoutes, 'post', path)(req, res);
+
+      expect(mockFail).toHaveBeenCalledWith('task-1', 'worker-1', 'Agent not found');
+      expect(res.json).toHaveBeenCalledWith({ failed: true });
+    });
+
+    it('should return 409 when the worker lost the lease', () => {
+      mockFail.mockReturnValue(false);
+      const { req, res } = createMocks({ workerId: 'worker-1', taskId: 'task-1' }, {});
+
+      getRouteHandler(workerRoutes, 'post', path)(req, res);
+
+      expect(mockFail).toHaveBeenCalledWith('task-1', 'worker-1', 'Unknown error');
+      expect(res.status).toHaveBeenCalledWith(409);
+    });
+  });
+});
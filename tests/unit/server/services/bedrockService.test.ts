@@ -26,6 +26,10 @@ import {
   buildEvaluationPrompt,
   evaluateTrajectory,
   parseBedrockError,
+  parseJudgeResponseText,
+  buildPairwisePrompt,
+  comparePairWithBedrock,
+  parsePairwiseResponseText,
   JudgeRequest,
 } from '@/server/services/bedrockService';
 import { TrajectoryStep } from '@/types';
@@ -201,6 +205,26 @@ describe('BedrockService', () => {
 
       expect(result).toContain('No logs available');
     });
+
+    it('should render the rubric section when a rubric is provided', () => {
+      const trajectory: TrajectoryStep[] = [createStep({ type: 'action' })];
+
+      const result = buildEvaluationPrompt(trajectory, ['Outcome'], undefined, undefined, {
+        name: 'PPL quality',
+        criteria: [{ name: 'Correct index', description: 'Queries the right index' }],
+        passThreshold: 80,
+      });
+
+      expect(result).toContain('## Evaluation Rubric: PPL quality');
+      expect(result).toContain('Correct index');
+      expect(result).toContain('accuracy >= 80');
+    });
+
+    it('should not render a rubric section without a rubric', () => {
+      const result = buildEvaluationPrompt([createStep({ type: 'action' })], ['Outcome']);
+
+      expect(result).not.toContain('Evaluation Rubric');
+    });
   });
 
   describe('evaluateTrajectory', () => {
@@ -338,6 +362,121 @@ describe('BedrockService', () => {
 
       expect(result.passFailStatus).toBe('failed');
     });
+
+    it('should return token usage reported by Bedrock', async () => {
+      mockSend.mockResolvedValue({
+        output: {
+          message: {
+            content: [{ text: '{"pass_fail_status": "passed", "accuracy": 90, "reasoning": "Good"}' }],
+          },
+        },
+        usage: { inputTokens: 2000, outputTokens: 300, totalTokens: 2300 },
+      });
+
+      const request: JudgeRequest = {
+        trajectory: [createStep({ type: 'action' })],
+      };
+
+      const result = await evaluateTrajectory(request);
+
+      expect(result.promptTokens).toBe(2000);
+      expect(result.completionTokens).toBe(300);
+    });
+  });
+
+  describe('parseJudgeResponseText', () => {
+    it('should parse JSON wrapped in a markdown code block', () => {
+      const text = 'Here is my evaluation:\n```json\n{"pass_fail_status": "passed", "accuracy": 80, "reasoning": "Fine"}\n```';
+
+      const result = parseJudgeResponseText(text, 42);
+
+      expect(result.passFailStatus).toBe('passed');
+      expect(result.metrics.accuracy).toBe(80);
+      expect(result.duration).toBe(42);
+      expect(result.improvementStrategies).toEqual([]);
+    });
+
+    it('should pass through provided token usage', () => {
+      const result = parseJudgeResponseText(
+        '{"pass_fail_status": "failed", "accuracy": 20, "reasoning": "Bad"}',
+        10,
+        { promptTokens: 5, completionTokens: 7 }
+      );
+
+      expect(result.promptTokens).toBe(5);
+      expect(result.completionTokens).toBe(7);
+    });
+
+    it('should throw on invalid JSON', () => {
+      expect(() => parseJudgeResponseText('not json at all', 10)).toThrow();
+    });
+  });
+
+  describe('buildPairwisePrompt', () => {
+    it('should include the task, both trajectories in order, and the expected outcomes', () => {
+      const prompt = buildPairwisePrompt({
+        first: [createStep({ type: 'response', content: 'First answer' })],
+        second: [createStep({ type: 'response', content: 'Second answer' })],
+        prompt: 'Why is the cluster red?',
+        expectedOutcomes: ['Identify the unassigned shards'],
+      });
+
+      expect(prompt).toContain('## Task\nWhy is the cluster red?');
+      expect(prompt.indexOf('## Response A')).toBeLessThan(prompt.indexOf('First answer'));
+      expect(prompt.indexOf('First answer')).toBeLessThan(prompt.indexOf('## Response B'));
+      expect(prompt.indexOf('## Response B')).toBeLessThan(prompt.indexOf('Second answer'));
+      expect(prompt).toContain('1. Identify the unassigned shards');
+    });
+
+    it('should render a rubric section when provided', () => {
+      const prompt = buildPairwisePrompt({
+        first: [],
+        second: [],
+        rubric: { name: 'Strict', criteria: [{ name: 'Correct', description: 'Right answer' }] },
+      });
+
+      expect(prompt).toContain('## Evaluation Rubric: Strict');
+      expect(prompt).not.toContain('## Task');
+    });
+  });
+
+  describe('comparePairWithBedrock', () => {
+    it('should send the pairwise prompt and parse the winner', async () => {
+      mockSend.mockResolvedValue({
+        output: {
+          message: {
+            content: [{ text: '```json\n{"winner": "B", "reasoning": "B found the root cause"}\n```' }],
+          },
+        },
+        usage: { inputTokens: 300, outputTokens: 40 },
+      });
+
+      const result = await comparePairWithBedrock(
+        { first: [createStep({ type: 'action' })], second: [createStep({ type: 'response' })] },
+        'custom-model-id'
+      );
+
+      const command = mockSend.mock.calls[0][0];
+      expect(command.modelId).toBe('custom-model-id');
+      expect(command.system[0].text).toContain('compare two agent trajectories');
+      expect(result).toEqual(expect.objectContaining({
+        winner: 'B',
+        reasoning: 'B found the root cause',
+        promptTokens: 300,
+        completionTokens: 40,
+      }));
+    });
+  });
+
+  describe('parsePairwiseResponseText', () => {
+    it('should normalize the winner', () => {
+      expect(parsePairwiseResponseText('{"winner": "Response A", "reasoning": "x"}', 1).winner).toBe('A');
+      expect(parsePairwiseResponseText('{"winner": "equal", "reasoning": "x"}', 1).winner).toBe('tie');
+    });
+
+    it('should throw on invalid JSON', () => {
+      expect(() => parsePairwiseResponseText('A is better', 1)).toThrow();
+    });
   });
 
   describe('parseBedrockError', () => {
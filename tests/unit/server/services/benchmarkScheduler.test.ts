@@ -0,0 +1,242 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { BenchmarkSchedule } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Mocks — delegate functions so the hoisted factories can reach the jest.fn()s
+// ---------------------------------------------------------------------------
+const mockFindSchedules = jest.fn();
+const mockUpdateSchedule = jest.fn();
+const mockGetBenchmark = jest.fn();
+const mockGetAllTestCases = jest.fn();
+
+jest.mock('@/server/services/storage', () => ({
+  findBenchmarkSchedulesWithClient: (...args: any[]) => mockFindSchedules(...args),
+  updateBenchmarkScheduleWithClient: (...args: any[]) => mockUpdateSchedule(...args),
+  getBenchmarkWithClient: (...args: any[]) => mockGetBenchmark(...args),
+  getAllTestCasesWithClient: (...args: any[]) => mockGetAllTestCases(...args),
+}));
+
+const mockClient = { name: 'client' } as any;
+const mockGetDefaultStorageClient = jest.fn();
+jest.mock('@/server/middleware/storageClient', () => ({
+  getDefaultStorageClient: () => mockGetDefaultStorageClient(),
+}));
+
+const mockStartBenchmarkRuns = jest.fn();
+jest.mock('@/server/services/benchmarkExecution', () => ({
+  createBenchmarkRun: (benchmark: any, runConfig: any, _testCaseMap: any, status: string) => ({
+    ...runConfig,
+    id: 'run-new',
+    status,
+    benchmarkVersion: benchmark.currentVersion,
+  }),
+  startBenchmarkRuns: (...args: any[]) => mockStartBenchmarkRuns(...args),
+}));
+
+jest.mock('@/server/config', () => ({
+  BENCHMARK_SCHEDULER: { enabled: true, tickMs: 30000, graceMs: 5 * 60 * 1000 },
+}));
+
+import { BenchmarkScheduler } from '@/server/services/benchmarkScheduler';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Local-time dates, matching how cron expressions are evaluated
+const at = (day: number, hour: number, minute = 0) => new Date(2024, 2, day, hour, minute);
+
+function createSchedule(overrides: Partial<BenchmarkSchedule> = {}): BenchmarkSchedule {
+  return {
+    id: 'schedule-1',
+    cron: '0 2 * * *',
+    runConfig: { name: 'Nightly', agentKey: 'agent-a', modelId: 'model-1' },
+    enabled: true,
+    createdAt: '2024-03-01T00:00:00Z',
+    updatedAt: '2024-03-01T00:00:00Z',
+    nextFireAt: at(10, 2).toISOString(),
+    ...overrides,
+  };
+}
+
+function givenSchedules(...schedules: BenchmarkSchedule[]) {
+  mockFindSchedules.mockResolvedValue(schedules.map(schedule => ({ benchmarkId: 'bench-1', schedule })));
+}
+
+describe('BenchmarkScheduler', () => {
+  let scheduler: BenchmarkScheduler;
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    scheduler = new BenchmarkScheduler();
+    mockGetDefaultStorageClient.mockReturnValue(mockClient);
+    mockGetBenchmark.mockResolvedValue({ id: 'bench-1', name: 'Benchmark', currentVersion: 2, testCaseIds: ['tc-1'], runs: [] });
+    mockGetAllTestCases.mockResolvedValue([{ id: 'tc-1', name: 'Test Case 1', currentVersion: 1 }]);
+    mockUpdateSchedule.mockResolvedValue(undefined);
+    mockStartBenchmarkRuns.mockResolvedValue([]);
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('should do nothing without a storage client', async () => {
+    mockGetDefaultStorageClient.mockReturnValue(null);
+
+    await scheduler.tick(at(10, 2));
+
+    expect(mockFindSchedules).not.toHaveBeenCalled();
+  });
+
+  it('should skip disabled schedules and schedules that are not due', async () => {
+    givenSchedules(
+      createSchedule({ enabled: false, nextFireAt: at(9, 2).toISOString() }),
+      createSchedule({ id: 'schedule-2', nextFireAt: at(11, 2).toISOString() })
+    );
+
+    await scheduler.tick(at(10, 3));
+
+    expect(mockStartBenchmarkRuns).not.toHaveBeenCalled();
+    expect(mockUpdateSchedule).not.toHaveBeenCalled();
+  });
+
+  it('should start a run for a due schedule and record the outcome', async () => {
+    givenSchedules(createSchedule());
+
+    await scheduler.tick(at(10, 2, 1));
+
+    expect(mockStartBenchmarkRuns).toHaveBeenCalledTimes(1);
+    const [client, benchmark, runs] = mockStartBenchmarkRuns.mock.calls[0];
+    expect(client).toBe(mockClient);
+    expect(benchmark.id).toBe('bench-1');
+    expect(runs).toEqual([expect.objectContaining({
+      id: 'run-new',
+      name: `Nightly (${at(10, 2).toISOString()})`,
+      agentKey: 'agent-a',
+      modelId: 'model-1',
+      status: 'pending',
+      scheduleId: 'schedule-1',
+    })]);
+
+    expect(mockUpdateSchedule).toHaveBeenNthCalledWith(1, mockClient, 'bench-1', 'schedule-1', {
+      nextFireAt: at(11, 2).toISOString(),
+    });
+    expect(mockUpdateSchedule).toHaveBeenNthCalledWith(2, mockClient, 'bench-1', 'schedule-1', {
+      lastFiredAt: at(10, 2).toISOString(),
+      lastRunId: 'run-new',
+      lastError: null,
+    });
+  });
+
+  it('should report firings missed while the server was down instead of running them', async () => {
+    // Down from before the 7th's firing until well after the 10th's
+    givenSchedules(createSchedule({ nextFireAt: at(7, 2).toISOString() }));
+
+    await scheduler.tick(at(10, 9));
+
+    expect(mockStartBenchmarkRuns).not.toHaveBeenCalled();
+    expect(mockUpdateSchedule).toHaveBeenCalledTimes(1);
+    expect(mockUpdateSchedule).toHaveBeenCalledWith(mockClient, 'bench-1', 'schedule-1', {
+      nextFireAt: at(11, 2).toISOString(),
+      missedFirings: {
+        count: 4,
+        first: at(7, 2).toISOString(),
+        last: at(10, 2).toISOString(),
+        detectedAt: at(10, 9).toISOString(),
+      },
+    });
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('missed 4 firing(s)'));
+  });
+
+  it('should add new missed firings to the ones missed before', async () => {
+    givenSchedules(createSchedule({
+      nextFireAt: at(9, 2).toISOString(),
+      missedFirings: { count: 3, first: at(5, 2).toISOString(), last: at(7, 2).toISOString(), detectedAt: at(7, 9).toISOString() },
+    }));
+
+    await scheduler.tick(at(10, 9));
+
+    expect(mockUpdateSchedule).toHaveBeenCalledWith(mockClient, 'bench-1', 'schedule-1', {
+      nextFireAt: at(11, 2).toISOString(),
+      missedFirings: {
+        count: 5,
+        first: at(5, 2).toISOString(),
+        last: at(10, 2).toISOString(),
+        detectedAt: at(10, 9).toISOString(),
+      },
+    });
+  });
+
+  it('should run the latest firing when it is within the grace period and report the older ones', async () => {
+    givenSchedules(createSchedule({ nextFireAt: at(8, 2).toISOString() }));
+
+    await scheduler.tick(at(10, 2, 3));
+
+    expect(mockStartBenchmarkRuns).toHaveBeenCalledTimes(1);
+    expect(mockUpdateSchedule).toHaveBeenNthCalledWith(1, mockClient, 'bench-1', 'schedule-1', expect.objectContaining({
+      missedFirings: expect.objectContaining({ count: 2, first: at(8, 2).toISOString(), last: at(9, 2).toISOString() }),
+    }));
+    expect(mockUpdateSchedule).toHaveBeenNthCalledWith(2, mockClient, 'bench-1', 'schedule-1', expect.objectContaining({
+      lastFiredAt: at(10, 2).toISOString(),
+      lastRunId: 'run-new',
+    }));
+  });
+
+  it('should record why a firing could not start a run', async () => {
+    givenSchedules(createSchedule());
+    mockGetBenchmark.mockResolvedValue(null);
+
+    await scheduler.tick(at(10, 2, 1));
+
+    expect(mockStartBenchmarkRuns).not.toHaveBeenCalled();
+    expect(mockUpdateSchedule).toHaveBeenLastCalledWith(mockClient, 'bench-1', 'schedule-1', {
+      lastFiredAt: at(10, 2).toISOString(),
+      lastRunId: null,
+      lastError: 'Benchmark not found',
+    });
+  });
+
+  it('should compute the next fire time of a schedule without one', async () => {
+    givenSchedules(createSchedule({ nextFireAt: undefined }));
+
+    await scheduler.tick(at(10, 3));
+
+    expect(mockStartBenchmarkRuns).not.toHaveBeenCalled();
+    expect(mockUpdateSchedule).toHaveBeenCalledWith(mockClient, 'bench-1', 'schedule-1', {
+      nextFireAt: at(11, 2).toISOString(),
+    });
+  });
+
+  it('should keep checking other schedules when one fails', async () => {
+    givenSchedules(
+      createSchedule({ id: 'schedule-bad', cron: 'not a cron' }),
+      createSchedule({ id: 'schedule-2' })
+    );
+
+    await scheduler.tick(at(10, 2, 1));
+
+    expect(mockStartBenchmarkRuns).toHaveBeenCalledTimes(1);
+    expect(errorSpy).toHaveBeenCalledWith('[Scheduler] Failed to check schedule schedule-bad:', expect.any(String));
+  });
+
+  it('should log and survive storage failures', async () => {
+    mockFindSchedules.mockRejectedValue(new Error('Storage unreachable'));
+
+    await expect(scheduler.tick(at(10, 2))).resolves.toBeUndefined();
+
+    expect(errorSpy).toHaveBeenCalledWith('[Scheduler] Failed to load schedules:', 'Storage unreachable');
+  });
+});
@@ -0,0 +1,622 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Benchmark, BenchmarkJobEvent, BenchmarkRun } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Mocks — delegate functions so the hoisted factories can reach the jest.fn()s
+// ---------------------------------------------------------------------------
+const mockExistsSync = jest.fn().mockReturnValue(false);
+const mockReadFileSync = jest.fn().mockReturnValue('{}');
+const mockWriteFileSync = jest.fn();
+
+jest.mock('fs', () => ({
+  existsSync: (...args: any[]) => mockExistsSync(...args),
+  readFileSync: (...args: any[]) => mockReadFileSync(...args),
+  writeFileSync: (...args: any[]) => mockWriteFileSync(...args),
+}));
+
+const mockExecuteRun = jest.fn();
+jest.mock('@/services/benchmarkRunner', () => ({
+  executeRun: (...args: any[]) => mockExecuteRun(...args),
+  createCancellationToken: (onCancel?: () => void) => ({
+    isCancelled: false,
+    cancel() {
+      if (this.isCancelled) return;
+      this.isCancelled = true;
+      onCancel?.();
+    },
+  }),
+}));
+
+const mockGetBenchmark = jest.fn();
+const mockUpdateBenchmarkRun = jest.fn();
+const mockReplaceBenchmarkRun = jest.fn();
+const mockUpdateBenchmarkRunResult = jest.fn();
+const mockComputeStats = jest.fn();
+const mockFindRunsByStatus = jest.fn();
+
+jest.mock('@/server/services/storage', () => ({
+  getBenchmarkWithClient: (...args: any[]) => mockGetBenchmark(...args),
+  updateBenchmarkRunWithClient: (...args: any[]) => mockUpdateBenchmarkRun(...args),
+  replaceBenchmarkRunWithClient: (...args: any[]) => mockReplaceBenchmarkRun(...args),
+  updateBenchmarkRunResultWithClient: (...args: any[]) => mockUpdateBenchmarkRunResult(...args),
+  computeBenchmarkRunStatsWithClient: (...args: any[]) => mockComputeStats(...args),
+  findBenchmarkRunsByStatusWithClient: (...args: any[]) => mockFindRunsByStatus(...args),
+}));
+
+const mockClient = { name: 'client' } as any;
+const mockGetDefaultStorageClient = jest.fn();
+jest.mock('@/server/middleware/storageClient', () => ({
+  getDefaultStorageClient: () => mockGetDefaultStorageClient(),
+}));
+
+const mockJobsConfig = { maxRunningJobs: 4, resumeOnRestart: true, file: 'agent-health.jobs.json' };
+const mockWorkersConfig = { enabled: false, leaseMs: 30000, maxAttempts: 3 };
+jest.mock('@/server/config', () => ({
+  get BENCHMARK_JOBS() {
+    return mockJobsConfig;
+  },
+  get BENCHMARK_WORKERS() {
+    return mockWorkersConfig;
+  },
+}));
+
+const mockWorkerExecute = jest.fn();
+const mockCancelPending = jest.fn();
+jest.mock('@/server/services/workerTasks', () => ({
+  workerTasks: {
+    execute: (...args: any[]) => mockWorkerExecute(...args),
+    cancelPending: (...args: any[]) => mockCancelPending(...args),
+  },
+}));
+
+import { BenchmarkJobQueue, isJobFinished, isTerminalJobEvent } from '@/server/services/jobQueue';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const STATS = { passed: 1, failed: 0, pending: 0, total: 1 };
+
+function createBenchmark(testCaseIds: string[] = ['tc-1', 'tc-2']): Benchmark {
+  return {
+    id: 'bench-1',
+    name: 'Benchmark',
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    currentVersion: 1,
+    versions: [],
+    testCaseIds,
+    runs: [],
+  };
+}
+
+function createRun(id = 'run-1', testCaseIds: string[] = ['tc-1', 'tc-2']): BenchmarkRun {
+  const run: BenchmarkRun = {
+    id,
+    name: `Run ${id}`,
+    agentKey: 'agent',
+    modelId: 'model',
+    createdAt: '2024-01-01T00:00:00Z',
+    status: 'running',
+    jobId: `job-${id}`,
+    results: {},
+  };
+  testCaseIds.forEach(tcId => { run.results[tcId] = { reportId: '', status: 'pending' }; });
+  return run;
+}
+
+/**
+ * executeRun stand-in: completes each test case whose turn comes, honoring
+ * shouldPause and cancellation between test cases
+ */
+function executeTestCases(gate?: () => Promise<void>) {
+  return async (benchmark: Benchmark, run: BenchmarkRun, onProgress: any, options: any) => {
+    for (const [index, testCaseId] of benchmark.testCaseIds.entries()) {
+      if (run.results[testCaseId]?.status === 'completed') continue;
+      if (options.cancellationToken?.isCancelled || options.shouldPause?.()) return run;
+      onProgress({
+        currentTestCaseIndex: index,
+        totalTestCases: benchmark.testCaseIds.length,
+        currentRunId: run.id,
+        currentTestCaseId: testCaseId,
+        status: 'running',
+      });
+      if (gate) await gate();
+      run.results[testCaseId] = { reportId: `report-${testCaseId}`, status: 'completed' };
+      await options.onTestCaseComplete?.(testCaseId, run.results[testCaseId]);
+    }
+    return run;
+  };
+}
+
+/**
+ * A gate test cases wait at until released
+ */
+function createGate() {
+  const waiting: Array<() => void> = [];
+  return {
+    gate: () => new Promise<void>(resolve => waiting.push(resolve)),
+    release: () => waiting.shift()?.(),
+  };
+}
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+function collectEvents(queue: BenchmarkJobQueue, jobId: string): BenchmarkJobEvent[] {
+  const events: BenchmarkJobEvent[] = [];
+  queue.subscribe(jobId, event => events.push(event));
+  return events;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  mockJobsConfig.maxRunningJobs = 4;
+  mockJobsConfig.resumeOnRestart = true;
+  mockWorkersConfig.enabled = false;
+  mockExistsSync.mockReturnValue(false);
+  mockGetDefaultStorageClient.mockReturnValue(mockClient);
+  mockComputeStats.mockResolvedValue(STATS);
+  mockUpdateBenchmarkRun.mockResolvedValue(undefined);
+  mockReplaceBenchmarkRun.mockResolvedValue(undefined);
+  mockUpdateBenchmarkRunResult.mockResolvedValue(undefined);
+  mockFindRunsByStatus.mockResolvedValue([]);
+  mockExecuteRun.mockImplementation(executeTestCases());
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('BenchmarkJobQueue', () => {
+  describe('submit', () => {
+    it('should execute the run and save the completed run with stats', async () => {
+      const queue = new BenchmarkJobQueue();
+      const job = queue.submit(mockClient, createBenchmark(), createRun());
+      const events = collectEvents(queue, job.id);
+      await flush();
+
+      expect(job.id).toBe('job-run-1');
+      expect(queue.get(job.id)?.status).toBe('completed');
+      expect(mockUpdateBenchmarkRunResult).toHaveBeenCalledWith(
+        mockClient, 'bench-1', 'run-1', 'tc-1', { reportId: 'report-tc-1', status: 'completed' }
+      );
+      expect(mockReplaceBenchmarkRun).toHaveBeenCalledWith(
+        mockClient,
+        'bench-1',
+        expect.objectContaining({ id: 'run-1', status: 'completed', stats: STATS })
+      );
+      expect(events.map(e => e.type)).toEqual(['progress', 'progress', 'job', 'completed']);
+      expect(isTerminalJobEvent(events[events.length - 1])).toBe(true);
+    });
+
+    it('should queue jobs beyond the running job limit', async () => {
+      mockJobsConfig.maxRunningJobs = 1;
+      const { gate, release } = createGate();
+      mockExecuteRun.mockImplementation(executeTestCases(gate));
+      const queue = new BenchmarkJobQueue();
+
+      const first = queue.submit(mockClient, createBenchmark(['tc-1']), createRun('run-1', ['tc-1']));
+      const second = queue.submit(mockClient, createBenchmark(['tc-1']), createRun('run-2', ['tc-1']));
+      await flush();
+
+      expect(first.status).toBe('running');
+      expect(second.status).toBe('queued');
+
+      release();
+      await flush();
+
+      expect(first.status).toBe('completed');
+      expect(second.status).toBe('running');
+
+      release();
+      await flush();
+      expect(second.status).toBe('completed');
+    });
+
+    it('should save a failed run and send an error event when execution fails', async () => {
+      mockExecuteRun.mockRejectedValue(new Error('Agent unreachable'));
+      const queue = new BenchmarkJobQueue();
+      const job = queue.submit(mockClient, createBenchmark(), createRun());
+      const events = collectEvents(queue, job.id);
+      await flush();
+
+      expect(job.status).toBe('failed');
+      expect(job.error).toBe('Agent unreachable');
+      expect(mockReplaceBenchmarkRun).toHaveBeenCalledWith(
+        mockClient,
+        'bench-1',
+        expect.objectContaining({ status: 'failed', error: 'Agent unreachable' })
+      );
+      expect(events[events.length - 1]).toEqual({ type: 'error', error: 'Agent unreachable', runId: 'run-1' });
+    });
+
+    it('should execute only the test cases the run was created with', async () => {
+      const queue = new BenchmarkJobQueue();
+      queue.submit(mockClient, createBenchmark(['tc-1', 'tc-2', 'tc-3']), createRun('run-1', ['tc-1', 'tc-2']));
+      await flush();
+
+      expect(mockExecuteRun.mock.calls[0][0].testCaseIds).toEqual(['tc-1', 'tc-2']);
+    });
+
+    it('should keep a matrix\'s running cells within its concurrency budget', async () => {
+      const { gate, release } = createGate();
+      mockExecuteRun.mockImplementation(executeTestCases(gate));
+      const queue = new BenchmarkJobQueue();
+      const cell = (id: string, concurrency: number) => ({
+        ...createRun(id, ['tc-1']),
+        status: 'pending' as const,
+        matrixId: 'matrix-1',
+        concurrency,
+      });
+
+      const jobs = [cell('run-1', 2), cell('run-2', 2), cell('run-3', 2)].map(run =>
+        queue.submit(mockClient, createBenchmark(['tc-1']), run, { matrixConcurrency: 4 })
+      );
+      const other = queue.submit(mockClient, createBenchmark(['tc-1']), createRun('run-4', ['tc-1']));
+      await flush();
+
+      expect(jobs[0]).toMatchObject({ matrixId: 'matrix-1', matrixConcurrency: 4, concurrency: 2 });
+      expect(jobs.map(job => job.status)).toEqual(['running', 'running', 'queued']);
+      expect(other.status).toBe('running');
+
+      // The job outside the matrix reaches its test case first (cells save their 'running' status first)
+      release();
+      release();
+      await flush();
+
+      expect(other.status).toBe('completed');
+      expect(jobs.map(job => job.status)).toEqual(['completed', 'running', 'running']);
+    });
+  });
+
+  describe('distributed workers', () => {
+    it('should evaluate in process when workers are disabled', async () => {
+      const queue = new BenchmarkJobQueue();
+      queue.submit(mockClient, createBenchmark(), createRun());
+      await flush();
+
+      expect(mockExecuteRun.mock.calls[0][3].evaluate).toBeUndefined();
+    });
+
+    it('should hand test cases to the worker task queue when workers are enabled', async () => {
+      mockWorkersConfig.enabled = true;
+      const report = { id: 'report-1' };
+      mockWorkerExecute.mockResolvedValue(report);
+      const queue = new BenchmarkJobQueue();
+      queue.submit(mockClient, createBenchmark(), createRun());
+      await flush();
+
+      const { evaluate } = mockExecuteRun.mock.calls[0][3];
+      const agent = { key: 'agent', name: 'Agent' };
+      const testCase = { id: 'tc-1', name: 'Test Case 1' };
+      await expect(evaluate({
+        run: createRun(),
+        testCaseId: 'tc-1',
+        iteration: 2,
+        agent,
+        modelId: 'model',
+        testCase,
+        options: { execution: { timeout: 1000 }, budget: { maxStepsPerTestCase: 10 } },
+      })).resolves.toBe(report);
+
+      expect(mockWorkerExecute).toHaveBeenCalledWith({
+        benchmarkId: 'bench-1',
+        runId: 'run-1',
+        testCaseId: 'tc-1',
+        iteration: 2,
+        agent,
+        modelId: 'model',
+        testCase,
+        execution: { timeout: 1000 },
+        budget: { maxStepsPerTestCase: 10 },
+      });
+    });
+  });
+
+  describe('budget cancellation on workers', () => {
+    it('should drop the run\'s queued tasks when its budget cancels it with no worker connected', async () => {
+      mockWorkersConfig.enabled = true;
+      // No worker ever leases the task: it only settles when cancelled
+      mockWorkerExecute.mockImplementation(() => new Promise((_resolve, reject) => {
+        mockCancelPending.mockImplementation(() => reject(new Error('Run cancelled before a worker picked up the test case')));
+      }));
+      mockExecuteRun.mockImplementation(async (_benchmark: Benchmark, run: BenchmarkRun, _onProgress: any, options: any) => {
+        const evaluation = options.evaluate({
+          run,
+          testCaseId: 'tc-1',
+          iteration: 1,
+          agent: { key: 'agent', name: 'Agent' },
+          modelId: 'model',
+          testCase: { id: 'tc-1', name: 'Test Case 1' },
+          options: {},
+        }).catch(() => null);
+        // What executeRun does when the run goes over its token, cost, or time budget
+        run.budgetExceededReason = 'Run exceeded its budget of 1000ms wall-clock time';
+        options.cancellationToken.cancel();
+        await evaluation;
+        return run;
+      });
+
+      const queue = new BenchmarkJobQueue();
+      const job = queue.submit(mockClient, createBenchmark(), createRun());
+      await flush();
+
+      expect(mockCancelPending).toHaveBeenCalledWith('run-1');
+      expect(isJobFinished(job)).toBe(true);
+    });
+  });
+
+  describe('pause and resume', () => {
+    it('should pause after the test case in flight and resume where it left off', async () => {
+      const { gate, release } = createGate();
+      mockExecuteRun.mockImplementation(executeTestCases(gate));
+      const queue = new BenchmarkJobQueue();
+      const job = queue.submit(mockClient, createBenchmark(), createRun());
+      await flush();
+
+      expect(queue.pause(job.id)).toBe(true);
+      expect(job.pauseRequested).toBe(true);
+      release();
+      await flush();
+
+      expect(job.status).toBe('paused');
+      expect(job.pauseRequested).toBe(false);
+      expect(mockUpdateBenchmarkRun).toHaveBeenCalledWith(mockClient, 'bench-1', 'run-1', { status: 'paused' });
+      expect(mockReplaceBenchmarkRun).not.toHaveBeenCalled();
+
+      expect(queue.resume(job.id)).toBe(true);
+      await flush();
+      expect(mockUpdateBenchmarkRun).toHaveBeenCalledWith(mockClient, 'bench-1', 'run-1', { status: 'running', jobId: job.id });
+      release();
+      await flush();
+
+      expect(job.status).toBe('completed');
+      const finalRun = mockReplaceBenchmarkRun.mock.calls[0][2];
+      expect(finalRun.results).toEqual({
+        'tc-1': { reportId: 'report-tc-1', status: 'completed' },
+        'tc-2': { reportId: 'report-tc-2', status: 'completed' },
+      });
+    });
+
+    it('should pause a queued job without starting it', async () => {
+      mockJobsConfig.maxRunningJobs = 1;
+      const { gate, release } = createGate();
+      mockExecuteRun.mockImplementation(executeTestCases(gate));
+      const queue = new BenchmarkJobQueue();
+      queue.submit(mockClient, createBenchmark(['tc-1']), createRun('run-1', ['tc-1']));
+      const queued = queue.submit(mockClient, createBenchmark(['tc-1']), createRun('run-2', ['tc-1']));
+
+      expect(queue.pause(queued.id)).toBe(true);
+      release();
+      await flush();
+
+      expect(queued.status).toBe('paused');
+      expect(mockExecuteRun).toHaveBeenCalledTimes(1);
+      expect(mockUpdateBenchmarkRun).toHaveBeenCalledWith(mockClient, 'bench-1', 'run-2', { status: 'paused' });
+    });
+
+    it('should refuse to pause or resume jobs in the wrong state', async () => {
+      const queue = new BenchmarkJobQueue();
+      const job = queue.submit(mockClient, createBenchmark(), createRun());
+      await flush();
+
+      expect(queue.pause(job.id)).toBe(false);
+      expect(queue.resume(job.id)).toBe(false);
+      expect(queue.pause('missing')).toBe(false);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should cancel a running job and mark remaining test cases failed', async () => {
+      const { gate, release } = createGate();
+      mockExecuteRun.mockImplementation(executeTestCases(gate));
+      const queue = new BenchmarkJobQueue();
+      const job = queue.submit(mockClient, createBenchmark(), createRun());
+      const events = collectEvents(queue, job.id);
+      await flush();
+
+      expect(queue.cancel(job.id)).toBe(true);
+      release();
+      await flush();
+
+      expect(job.status).toBe('cancelled');
+      const finalRun = mockReplaceBenchmarkRun.mock.calls[0][2];
+      expect(finalRun.status).toBe('cancelled');
+      expect(finalRun.results['tc-1'].status).toBe('completed');
+      expect(finalRun.results['tc-2'].status).toBe('failed');
+      expect(events[events.length - 1]).toEqual(expect.objectContaining({ type: 'cancelled' }));
+      expect(mockCancelPending).toHaveBeenCalledWith('run-1');
+    });
+
+    it('should finish a paused job as cancelled', async () => {
+      const { gate, release } = createGate();
+      mockExecuteRun.mockImplementation(executeTestCases(gate));
+      const queue = new BenchmarkJobQueue();
+      const job = queue.submit(mockClient, createBenchmark(), createRun());
+      await flush();
+      queue.pause(job.id);
+      release();
+      await flush();
+      expect(job.status).toBe('paused');
+
+      expect(queue.cancel(job.id)).toBe(true);
+      await flush();
+
+      expect(job.status).toBe('cancelled');
+      expect(mockReplaceBenchmarkRun.mock.calls[0][2].results['tc-2'].status).toBe('failed');
+      expect(queue.cancel(job.id)).toBe(false);
+    });
+  });
+
+  describe('remove', () => {
+    it('should only remove finished jobs', async () => {
+      const { gate, release } = createGate();
+      mockExecuteRun.mockImplementation(executeTestCases(gate));
+      const queue = new BenchmarkJobQueue();
+      const job = queue.submit(mockClient, createBenchmark(['tc-1']), createRun('run-1', ['tc-1']));
+      await flush();
+
+      expect(queue.remove(job.id)).toBe(false);
+      release();
+      await flush();
+
+      expect(isJobFinished(job)).toBe(true);
+      expect(queue.remove(job.id)).toBe(true);
+      expect(queue.get(job.id)).toBeUndefined();
+    });
+  });
+
+  describe('lookups', () => {
+    it('should list jobs newest first and find them by run ID', () => {
+      mockJobsConfig.maxRunningJobs = 0;
+      const queue = new BenchmarkJobQueue();
+      const first = queue.submit(mockClient, createBenchmark(), createRun('run-1'));
+      const second = queue.submit(mockClient, createBenchmark(), createRun('run-2'));
+
+      expect(queue.list().map(j => j.id)).toEqual([second.id, first.id]);
+      expect(queue.getByRunId('run-1')).toBe(first);
+      expect(queue.getByRunId('missing')).toBeUndefined();
+    });
+  });
+
+  describe('persistence and restart recovery', () => {
+    const storedJob = (status: string) => ({
+      id: 'job-run-1',
+      benchmarkId: 'bench-1',
+      benchmarkName: 'Benchmark',
+      runId: 'run-1',
+      runName: 'Run run-1',
+      status,
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    });
+
+    const givenJobsFile = (jobs: unknown[]) => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(JSON.stringify({ jobs }));
+    };
+
+    it('should write jobs to the jobs file once initialized', async () => {
+      const queue = new BenchmarkJobQueue();
+      await queue.init('/tmp/jobs.json');
+      queue.submit(mockClient, createBenchmark(), createRun());
+      await flush();
+
+      const [filePath, content] = mockWriteFileSync.mock.calls[mockWriteFileSync.mock.calls.length - 1];
+      expect(filePath).toBe('/tmp/jobs.json');
+      expect(JSON.parse(content).jobs).toEqual([expect.objectContaining({ id: 'job-run-1', status: 'completed' })]);
+    });
+
+    it('should not write to disk before init', async () => {
+      const queue = new BenchmarkJobQueue();
+      queue.submit(mockClient, createBenchmark(), createRun());
+      await flush();
+
+      expect(mockWriteFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should start with an empty queue when the jobs file is corrupt', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue('not json');
+      const queue = new BenchmarkJobQueue();
+      await queue.init('/tmp/jobs.json');
+
+      expect(queue.list()).toEqual([]);
+    });
+
+    it('should resume jobs that were running, reloading the run from storage', async () => {
+      givenJobsFile([storedJob('running')]);
+      const storedRun = createRun();
+      storedRun.results['tc-1'] = { reportId: 'report-old', status: 'completed' };
+      mockGetBenchmark.mockResolvedValue({ ...createBenchmark(), runs: [storedRun] });
+
+      const queue = new BenchmarkJobQueue();
+      await queue.init('/tmp/jobs.json');
+      await flush();
+
+      expect(mockGetBenchmark).toHaveBeenCalledWith(mockClient, 'bench-1');
+      expect(queue.get('job-run-1')?.status).toBe('completed');
+      const finalRun = mockReplaceBenchmarkRun.mock.calls[0][2];
+      expect(finalRun.results['tc-1']).toEqual({ reportId: 'report-old', status: 'completed' });
+      expect(finalRun.results['tc-2']).toEqual({ reportId: 'report-tc-2', status: 'completed' });
+    });
+
+    it('should keep paused jobs paused', async () => {
+      givenJobsFile([storedJob('paused')]);
+      const queue = new BenchmarkJobQueue();
+      await queue.init('/tmp/jobs.json');
+      await flush();
+
+      expect(queue.get('job-run-1')?.status).toBe('paused');
+      expect(mockExecuteRun).not.toHaveBeenCalled();
+    });
+
+    it('should mark interrupted runs failed when resuming is disabled', async () => {
+      mockJobsConfig.resumeOnRestart = false;
+      givenJobsFile([storedJob('running')]);
+      const storedRun = createRun();
+      storedRun.results['tc-1'] = { reportId: 'report-old', status: 'completed' };
+      mockGetBenchmark.mockResolvedValue({ ...createBenchmark(), runs: [storedRun] });
+
+      const queue = new BenchmarkJobQueue();
+      await queue.init('/tmp/jobs.json');
+
+      const job = queue.get('job-run-1')!;
+      expect(job.status).toBe('failed');
+      expect(job.error).toBe('Server restarted while the run was executing');
+      expect(mockExecuteRun).not.toHaveBeenCalled();
+      expect(mockReplaceBenchmarkRun).toHaveBeenCalledWith(
+        mockClient,
+        'bench-1',
+        expect.objectContaining({
+          status: 'failed',
+          error: 'Server restarted while the run was executing',
+          stats: STATS,
+          results: {
+            'tc-1': { reportId: 'report-old', status: 'completed' },
+            'tc-2': { reportId: '', status: 'failed' },
+          },
+        })
+      );
+    });
+
+    it('should mark running runs without an active job failed', async () => {
+      const orphan = { ...createRun('run-orphan'), jobId: undefined };
+      mockFindRunsByStatus.mockResolvedValue([{ benchmarkId: 'bench-1', run: orphan }]);
+      mockGetBenchmark.mockResolvedValue({ ...createBenchmark(), runs: [orphan] });
+
+      const queue = new BenchmarkJobQueue();
+      await queue.init('/tmp/jobs.json');
+
+      expect(mockFindRunsByStatus).toHaveBeenCalledWith(mockClient, 'running');
+      expect(mockReplaceBenchmarkRun).toHaveBeenCalledWith(
+        mockClient,
+        'bench-1',
+        expect.objectContaining({ id: 'run-orphan', status: 'failed' })
+      );
+    });
+
+    it('should skip storage recovery when storage is not configured', async () => {
+      mockGetDefaultStorageClient.mockReturnValue(null);
+      const queue = new BenchmarkJobQueue();
+      await queue.init('/tmp/jobs.json');
+
+      expect(mockFindRunsByStatus).not.toHaveBeenCalled();
+    });
+  });
+});
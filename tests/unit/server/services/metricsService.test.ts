@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { MODEL_PRICING, getPricing, computeAggregateMetrics, computeMetrics } from '@/server/services/metricsService';
+import { MODEL_PRICING, getPricing, computeCostUsd, computeAggregateMetrics, computeMetrics } from '@/server/services/metricsService';
 import type { MetricsResult, OpenSearchConfig } from '@/types';
 
 // Mock fetch globally
@@ -68,6 +68,16 @@ describe('metricsService', () => {
     });
   });
 
+  describe('computeCostUsd', () => {
+    it('should price input and output tokens per million at the model rate', () => {
+      expect(computeCostUsd(1_000_000, 100_000, 'anthropic.claude-haiku-4')).toBeCloseTo(0.80 + 0.4);
+    });
+
+    it('should use default pricing without a model', () => {
+      expect(computeCostUsd(1_000_000, 0)).toBeCloseTo(MODEL_PRICING['default'].input);
+    });
+  });
+
   describe('computeAggregateMetrics', () => {
     it('should return zeros for empty array', () => {
       const result = computeAggregateMetrics([]);
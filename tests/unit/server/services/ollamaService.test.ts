@@ -0,0 +1,227 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  extractJudgeJson,
+  evaluateTrajectoryWithOllama,
+  parseOllamaError,
+} from '@/server/services/ollamaService';
+import { JUDGE_SYSTEM_PROMPT } from '@/server/prompts/judgePrompt';
+import { TrajectoryStep } from '@/types';
+
+interface StubRequest {
+  url?: string;
+  body: any;
+}
+
+/**
+ * Start a local stub of the Ollama /api/chat endpoint
+ */
+async function startStubServer(
+  respond: (req: StubRequest) => { status?: number; body: any }
+): Promise<{ baseUrl: string; requests: StubRequest[]; close: () => Promise<void> }> {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const captured: StubRequest = { url: req.url, body: raw ? JSON.parse(raw) : undefined };
+      requests.push(captured);
+      const { status = 200, body } = respond(captured);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(typeof body === 'string' ? body : JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+const trajectory: TrajectoryStep[] = [
+  { id: '1', timestamp: 0, type: 'action', content: 'Checking health', toolName: 'cluster_health' },
+  { id: '2', timestamp: 1, type: 'response', content: 'The root cause is disk pressure' },
+];
+
+describe('OllamaService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('extractJudgeJson', () => {
+    it('should return plain JSON unchanged in meaning', () => {
+      const result = JSON.parse(extractJudgeJson('{"pass_fail_status": "passed", "accuracy": 90, "reasoning": "ok"}'));
+
+      expect(result).toEqual({ pass_fail_status: 'passed', accuracy: 90, reasoning: 'ok' });
+    });
+
+    it('should extract JSON surrounded by prose', () => {
+      const text = 'Sure! Here is my evaluation of the agent.\n{"pass_fail_status": "failed", "accuracy": 40, "reasoning": "Missed {root} cause"}\nLet me know if you need more.';
+
+      const result = JSON.parse(extractJudgeJson(text));
+
+      expect(result.pass_fail_status).toBe('failed');
+      expect(result.reasoning).toBe('Missed {root} cause');
+    });
+
+    it('should prefer the object that looks like a judge result', () => {
+      const text = 'The trajectory used {"tool": "cluster_health"}. Result:\n```json\n{"pass_fail_status": "passed", "accuracy": 75, "reasoning": "fine"}\n```';
+
+      const result = JSON.parse(extractJudgeJson(text));
+
+      expect(result.accuracy).toBe(75);
+    });
+
+    it('should repair trailing commas and smart quotes', () => {
+      const text = '{“pass_fail_status”: “passed”, "accuracy": 80, "reasoning": "ok", "improvement_strategies": [],}';
+
+      const result = JSON.parse(extractJudgeJson(text));
+
+      expect(result.pass_fail_status).toBe('passed');
+      expect(result.improvement_strategies).toEqual([]);
+    });
+
+    it('should normalize loose status and accuracy values', () => {
+      const result = JSON.parse(extractJudgeJson('{"pass_fail_status": "PASS", "accuracy": "85%", "reasoning": "ok"}'));
+
+      expect(result.pass_fail_status).toBe('passed');
+      expect(result.accuracy).toBe(85);
+    });
+
+    it('should stringify non-string reasoning', () => {
+      const result = JSON.parse(extractJudgeJson('{"pass_fail_status": "fail", "accuracy": 10, "reasoning": ["a", "b"]}'));
+
+      expect(result.pass_fail_status).toBe('failed');
+      expect(result.reasoning).toBe('["a","b"]');
+    });
+
+    it('should throw when no JSON object is present', () => {
+      expect(() => extractJudgeJson('The agent did well overall.')).toThrow('No JSON object found');
+    });
+
+    it('should not take other objects for the judge result', () => {
+      const text = 'The agent called {"tool": "cluster_health", "args": {"index": "logs"}} and the answer looked right.';
+
+      expect(() => extractJudgeJson(text)).toThrow(
+        'No JSON object with pass_fail_status or accuracy found in Ollama judge response'
+      );
+    });
+
+    it('should look for the given result fields', () => {
+      const text = 'Comparing {"tool": "search"} with the other run:\n```json\n{"winner": "A", "reasoning": "Found the root cause"}\n```';
+
+      expect(JSON.parse(extractJudgeJson(text, ['winner']))).toEqual({ winner: 'A', reasoning: 'Found the root cause' });
+    });
+  });
+
+  describe('evaluateTrajectoryWithOllama', () => {
+    it('should call /api/chat with the judge prompt and return token counts', async () => {
+      const stub = await startStubServer(() => ({
+        body: {
+          model: 'llama3.1:8b',
+          message: {
+            role: 'assistant',
+            content: 'Evaluation below.\n{"pass_fail_status": "passed", "accuracy": 82, "reasoning": "Found root cause"}',
+          },
+          done: true,
+          prompt_eval_count: 950,
+          eval_count: 120,
+        },
+      }));
+
+      try {
+        const result = await evaluateTrajectoryWithOllama(
+          { trajectory, expectedOutcomes: ['Identify root cause'] },
+          'llama3.1:8b',
+          { baseUrl: `${stub.baseUrl}/` }
+        );
+
+        expect(result.passFailStatus).toBe('passed');
+        expect(result.metrics.accuracy).toBe(82);
+        expect(result.llmJudgeReasoning).toBe('Found root cause');
+        expect(result.promptTokens).toBe(950);
+        expect(result.completionTokens).toBe(120);
+
+        const [req] = stub.requests;
+        expect(req.url).toBe('/api/chat');
+        expect(req.body.model).toBe('llama3.1:8b');
+        expect(req.body.stream).toBe(false);
+        expect(req.body.options.temperature).toBe(0.1);
+        expect(req.body.messages[0]).toEqual({ role: 'system', content: JUDGE_SYSTEM_PROMPT });
+        expect(req.body.messages[1].content).toContain('Identify root cause');
+      } finally {
+        await stub.close();
+      }
+    });
+
+    it('should throw when Ollama returns an HTTP error', async () => {
+      const stub = await startStubServer(() => ({
+        status: 404,
+        body: { error: "model 'missing' not found" },
+      }));
+
+      try {
+        await expect(
+          evaluateTrajectoryWithOllama({ trajectory, expectedOutcomes: ['x'] }, 'missing', { baseUrl: stub.baseUrl })
+        ).rejects.toThrow('Ollama judge request failed: 404');
+      } finally {
+        await stub.close();
+      }
+    });
+
+    it('should throw when Ollama reports an error in the body', async () => {
+      const stub = await startStubServer(() => ({ body: { error: 'out of memory' } }));
+
+      try {
+        await expect(
+          evaluateTrajectoryWithOllama({ trajectory, expectedOutcomes: ['x'] }, 'big-model', { baseUrl: stub.baseUrl })
+        ).rejects.toThrow('out of memory');
+      } finally {
+        await stub.close();
+      }
+    });
+
+    it('should throw when the response content is empty', async () => {
+      const stub = await startStubServer(() => ({ body: { message: { role: 'assistant', content: '' } } }));
+
+      try {
+        await expect(
+          evaluateTrajectoryWithOllama({ trajectory, expectedOutcomes: ['x'] }, 'llama3', { baseUrl: stub.baseUrl })
+        ).rejects.toThrow('Ollama judge returned an empty response');
+      } finally {
+        await stub.close();
+      }
+    });
+  });
+
+  describe('parseOllamaError', () => {
+    it('should handle connection errors', () => {
+      expect(parseOllamaError(new Error('fetch failed'))).toContain('ollama serve');
+    });
+
+    it('should handle missing model errors', () => {
+      expect(parseOllamaError(new Error("Ollama judge request failed: 404 - model 'x' not found"))).toContain('ollama pull');
+    });
+
+    it('should handle JSON extraction errors', () => {
+      expect(parseOllamaError(new Error('No JSON object found in Ollama judge response'))).toContain('invalid JSON');
+    });
+
+    it('should return the original message for unknown errors', () => {
+      expect(parseOllamaError(new Error('Something else'))).toBe('Something else');
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  buildChatCompletionsUrl,
+  evaluateTrajectoryWithOpenAI,
+  parseOpenAIError,
+} from '@/server/services/openaiService';
+import { JUDGE_SYSTEM_PROMPT } from '@/server/prompts/judgePrompt';
+import { TrajectoryStep } from '@/types';
+
+interface StubRequest {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/**
+ * Start a local stub of an OpenAI-compatible chat-completions server
+ */
+async function startStubServer(
+  respond: (req: StubRequest) => { status?: number; body: any }
+): Promise<{ baseUrl: string; requests: StubRequest[]; close: () => Promise<void> }> {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const captured: StubRequest = { url: req.url, headers: req.headers, body: raw ? JSON.parse(raw) : undefined };
+      requests.push(captured);
+      const { status = 200, body } = respond(captured);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(typeof body === 'string' ? body : JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+const trajectory: TrajectoryStep[] = [
+  { id: '1', timestamp: 0, type: 'action', content: 'Checking health', toolName: 'cluster_health' },
+  { id: '2', timestamp: 1, type: 'response', content: 'The root cause is disk pressure' },
+];
+
+const judgeJson = {
+  pass_fail_status: 'passed',
+  accuracy: 85,
+  reasoning: 'Identified the root cause',
+  improvement_strategies: [
+    { category: 'Tool Usage', issue: 'Few tools', recommendation: 'Use more tools', priority: 'low' },
+  ],
+};
+
+describe('OpenAIService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('buildChatCompletionsUrl', () => {
+    it('should append /chat/completions to a base URL', () => {
+      expect(buildChatCompletionsUrl('https://api.openai.com/v1')).toBe('https://api.openai.com/v1/chat/completions');
+    });
+
+    it('should strip trailing slashes', () => {
+      expect(buildChatCompletionsUrl('http://localhost:8000/v1/')).toBe('http://localhost:8000/v1/chat/completions');
+    });
+
+    it('should not duplicate an existing /chat/completions suffix', () => {
+      expect(buildChatCompletionsUrl('http://localhost:8000/v1/chat/completions')).toBe(
+        'http://localhost:8000/v1/chat/completions'
+      );
+    });
+  });
+
+  describe('evaluateTrajectoryWithOpenAI', () => {
+    it('should send the judge prompt and parse the JSON result with token counts', async () => {
+      const stub = await startStubServer(() => ({
+        body: {
+          choices: [{ message: { role: 'assistant', content: '```json\n' + JSON.stringify(judgeJson) + '\n```' } }],
+          usage: { prompt_tokens: 1200, completion_tokens: 150, total_tokens: 1350 },
+        },
+      }));
+
+      try {
+        const result = await evaluateTrajectoryWithOpenAI(
+          { trajectory, expectedOutcomes: ['Identify root cause'] },
+          'gpt-4o',
+          { baseUrl: stub.baseUrl, apiKey: 'sk-test' }
+        );
+
+        expect(result.passFailStatus).toBe('passed');
+        expect(result.metrics.accuracy).toBe(85);
+        expect(result.llmJudgeReasoning).toBe('Identified the root cause');
+        expect(result.improvementStrategies).toHaveLength(1);
+        expect(result.promptTokens).toBe(1200);
+        expect(result.completionTokens).toBe(150);
+        expect(result.duration).toBeGreaterThanOrEqual(0);
+
+        expect(stub.requests).toHaveLength(1);
+        const [req] = stub.requests;
+        expect(req.url).toBe('/v1/chat/completions');
+        expect(req.headers.authorization).toBe('Bearer sk-test');
+        expect(req.body.model).toBe('gpt-4o');
+        expect(req.body.temperature).toBe(0.1);
+        expect(req.body.messages[0]).toEqual({ role: 'system', content: JUDGE_SYSTEM_PROMPT });
+        expect(req.body.messages[1].role).toBe('user');
+        expect(req.body.messages[1].content).toContain('Identify root cause');
+        expect(req.body.messages[1].content).toContain('cluster_health');
+      } finally {
+        await stub.close();
+      }
+    });
+
+    it('should omit the Authorization header when no API key is configured', async () => {
+      const stub = await startStubServer(() => ({
+        body: { choices: [{ message: { content: JSON.stringify(judgeJson) } }] },
+      }));
+
+      try {
+        const result = await evaluateTrajectoryWithOpenAI(
+          { trajectory, expectedOutcomes: ['Identify root cause'] },
+          'local-model',
+          { baseUrl: stub.baseUrl, apiKey: '' }
+        );
+
+        expect(stub.requests[0].headers.authorization).toBeUndefined();
+        expect(result.promptTokens).toBeUndefined();
+        expect(result.completionTokens).toBeUndefined();
+      } finally {
+        await stub.close();
+      }
+    });
+
+    it('should throw with status and body when the API returns an error', async () => {
+      const stub = await startStubServer(() => ({
+        status: 401,
+        body: { error: { message: 'Incorrect API key provided' } },
+      }));
+
+      try {
+        await expect(
+          evaluateTrajectoryWithOpenAI({ trajectory, expectedOutcomes: ['x'] }, 'gpt-4o', { baseUrl: stub.baseUrl })
+        ).rejects.toThrow('OpenAI judge request failed: 401');
+      } finally {
+        await stub.close();
+      }
+    });
+
+    it('should throw when the completion has no content', async () => {
+      const stub = await startStubServer(() => ({
+        body: { choices: [{ message: { content: null } }] },
+      }));
+
+      try {
+        await expect(
+          evaluateTrajectoryWithOpenAI({ trajectory, expectedOutcomes: ['x'] }, 'gpt-4o', { baseUrl: stub.baseUrl })
+        ).rejects.toThrow('OpenAI judge returned an empty response');
+      } finally {
+        await stub.close();
+      }
+    });
+
+    it('should throw when the completion is not valid JSON', async () => {
+      const stub = await startStubServer(() => ({
+        body: { choices: [{ message: { content: 'I cannot evaluate this.' } }] },
+      }));
+
+      try {
+        await expect(
+          evaluateTrajectoryWithOpenAI({ trajectory, expectedOutcomes: ['x'] }, 'gpt-4o', { baseUrl: stub.baseUrl })
+        ).rejects.toThrow();
+      } finally {
+        await stub.close();
+      }
+    });
+  });
+
+  describe('parseOpenAIError', () => {
+    it('should handle authentication errors', () => {
+      expect(parseOpenAIError(new Error('OpenAI judge request failed: 401 - bad key'))).toContain('OPENAI_API_KEY');
+    });
+
+    it('should handle rate limit errors', () => {
+      expect(parseOpenAIError(new Error('OpenAI judge request failed: 429 - slow down'))).toContain('rate limit');
+    });
+
+    it('should handle connection errors', () => {
+      expect(parseOpenAIError(new Error('fetch failed'))).toContain('Cannot connect');
+    });
+
+    it('should handle JSON parse errors', () => {
+      expect(parseOpenAIError(new Error('Unexpected token in JSON'))).toContain('invalid JSON');
+    });
+
+    it('should return the original message for unknown errors', () => {
+      expect(parseOpenAIError(new Error('Something else'))).toBe('Something else');
+    });
+  });
+});
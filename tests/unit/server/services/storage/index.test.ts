@@ -11,6 +11,12 @@ import {
   updateRun,
   saveReport,
   isStorageConfigured,
+  getBenchmarkWithClient,
+  findBenchmarkRunsByStatusWithClient,
+  findBenchmarkSchedulesWithClient,
+  updateBenchmarkRunWithClient,
+  updateBenchmarkScheduleWithClient,
+  computeBenchmarkRunStatsWithClient,
 } from '@/server/services/storage';
 
 // Mock the opensearchClient module
@@ -18,6 +24,7 @@ jest.mock('@/server/services/opensearchClient', () => ({
   getOpenSearchClient: jest.fn(),
   INDEXES: {
     testCases: 'test-cases',
+    benchmarks: 'benchmarks',
     runs: 'runs',
     analytics: 'analytics',
   },
@@ -511,4 +518,120 @@ describe('Storage Service', () => {
       );
     });
   });
+
+  describe('benchmark runs', () => {
+    const run = (id: string, status: string, results: Record<string, any> = {}) => ({
+      id,
+      name: id,
+      agentKey: 'agent',
+      modelId: 'model',
+      createdAt: '2024-01-01T00:00:00Z',
+      status,
+      results,
+    }) as any;
+
+    it('should return null for a missing benchmark', async () => {
+      const error = new Error('Not found');
+      (error as any).meta = { statusCode: 404 };
+      mockClient.get.mockRejectedValue(error);
+
+      await expect(getBenchmarkWithClient(mockClient, 'bench-1')).resolves.toBeNull();
+      expect(mockClient.get).toHaveBeenCalledWith({ index: INDEXES.benchmarks, id: 'bench-1' });
+    });
+
+    it('should find runs with a status across benchmarks', async () => {
+      mockClient.search.mockResolvedValue({
+        body: {
+          hits: {
+            hits: [
+              { _source: { id: 'bench-1', runs: [run('run-1', 'running'), run('run-2', 'completed')] } },
+              { _source: { id: 'bench-2' } },
+              { _source: { id: 'bench-3', runs: [run('run-3', 'running')] } },
+            ],
+          },
+        },
+      });
+
+      const result = await findBenchmarkRunsByStatusWithClient(mockClient, 'running');
+
+      expect(result.map(r => [r.benchmarkId, r.run.id])).toEqual([['bench-1', 'run-1'], ['bench-3', 'run-3']]);
+    });
+
+    it('should merge fields into a single run', async () => {
+      mockClient.update.mockResolvedValue({ body: {} });
+
+      await updateBenchmarkRunWithClient(mockClient, 'bench-1', 'run-1', { status: 'paused' });
+
+      expect(mockClient.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          index: INDEXES.benchmarks,
+          id: 'bench-1',
+          body: {
+            script: expect.objectContaining({
+              source: expect.stringContaining('putAll(params.fields)'),
+              params: { runId: 'run-1', fields: { status: 'paused' } },
+            }),
+          },
+        })
+      );
+    });
+
+    it('should find schedules across benchmarks', async () => {
+      mockClient.search.mockResolvedValue({
+        body: {
+          hits: {
+            hits: [
+              { _source: { id: 'bench-1', schedules: [{ id: 'schedule-1' }, { id: 'schedule-2' }] } },
+              { _source: { id: 'bench-2' } },
+            ],
+          },
+        },
+      });
+
+      const result = await findBenchmarkSchedulesWithClient(mockClient);
+
+      expect(result.map(r => [r.benchmarkId, r.schedule.id])).toEqual([['bench-1', 'schedule-1'], ['bench-1', 'schedule-2']]);
+    });
+
+    it('should merge fields into a single schedule', async () => {
+      mockClient.update.mockResolvedValue({ body: {} });
+
+      await updateBenchmarkScheduleWithClient(mockClient, 'bench-1', 'schedule-1', { lastRunId: 'run-1', lastError: null });
+
+      expect(mockClient.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          index: INDEXES.benchmarks,
+          id: 'bench-1',
+          body: {
+            script: expect.objectContaining({
+              source: expect.stringContaining('schedules[i].putAll(params.fields)'),
+              params: { scheduleId: 'schedule-1', fields: { lastRunId: 'run-1', lastError: null } },
+            }),
+          },
+        })
+      );
+    });
+
+    it('should compute run stats from report pass/fail status', async () => {
+      mockClient.search.mockResolvedValue({
+        body: {
+          hits: {
+            hits: [
+              { _source: { id: 'report-1', passFailStatus: 'passed' } },
+              { _source: { id: 'report-2', passFailStatus: 'failed' } },
+            ],
+          },
+        },
+      });
+
+      const stats = await computeBenchmarkRunStatsWithClient(mockClient, run('run-1', 'completed', {
+        'tc-1': { reportId: 'report-1', status: 'completed' },
+        'tc-2': { reportId: 'report-2', status: 'completed' },
+        'tc-3': { reportId: '', status: 'failed' },
+        'tc-4': { reportId: '', status: 'pending' },
+      }));
+
+      expect(stats).toEqual({ passed: 1, failed: 2, pending: 1, total: 4 });
+    });
+  });
 });
@@ -0,0 +1,173 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { EvaluationReport } from '@/types';
+
+jest.mock('@/server/config', () => ({
+  BENCHMARK_WORKERS: { enabled: true, leaseMs: 1000, maxAttempts: 2 },
+}));
+
+import { WorkerTaskQueue, WorkerTaskInput } from '@/server/services/workerTasks';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createInput(overrides: Partial<WorkerTaskInput> = {}): WorkerTaskInput {
+  return {
+    benchmarkId: 'bench-1',
+    runId: 'run-1',
+    testCaseId: 'tc-1',
+    iteration: 1,
+    agent: { key: 'agent', name: 'Agent', endpoint: 'http://agent', models: ['model'] } as any,
+    modelId: 'model',
+    testCase: { id: 'tc-1', name: 'Test Case 1' } as any,
+    ...overrides,
+  };
+}
+
+const report = { id: 'report-1', status: 'completed', trajectory: [] } as unknown as EvaluationReport;
+
+describe('WorkerTaskQueue', () => {
+  let queue: WorkerTaskQueue;
+
+  beforeEach(() => {
+    queue = new WorkerTaskQueue();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    queue.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('should lease tasks oldest first and resolve with the worker\'s report', async () => {
+    const first = queue.execute(createInput());
+    queue.execute(createInput({ testCaseId: 'tc-2' }));
+
+    const task = queue.lease('worker-1', 0);
+    expect(task).toEqual(expect.objectContaining({ testCaseId: 'tc-1', attempt: 1, runId: 'run-1' }));
+    expect(queue.lease('worker-2', 0)?.testCaseId).toBe('tc-2');
+    expect(queue.lease('worker-3', 0)).toBeNull();
+    expect(queue.getTaskCounts()).toEqual({ pending: 0, leased: 2 });
+
+    expect(queue.complete(task!.id, 'worker-1', report, 10)).toBe(true);
+    await expect(first).resolves.toBe(report);
+    expect(queue.getTaskCounts()).toEqual({ pending: 0, leased: 1 });
+  });
+
+  it('should not hand the agent\'s credentials or hooks to workers', () => {
+    queue.execute(createInput({
+      agent: {
+        key: 'agent',
+        name: 'Agent',
+        endpoint: 'http://agent',
+        models: ['model'],
+        headers: { Authorization: 'Bearer secret' },
+        auth: { type: 'aws-sigv4', awsAccessKeyId: 'AKID', awsSecretAccessKey: 'secret' },
+        hooks: { beforeRequest: jest.fn() },
+      },
+    }));
+
+    const task = queue.lease('worker-1', 0)!;
+
+    expect(task.agent).toEqual({ key: 'agent', name: 'Agent', endpoint: 'http://agent', models: ['model'] });
+    expect(task.localAgentFields).toEqual(['auth', 'headers', 'hooks']);
+  });
+
+  it('should send the run\'s header overrides apart from the agent\'s headers', () => {
+    queue.execute(createInput({
+      agent: {
+        key: 'agent',
+        name: 'Agent',
+        endpoint: 'http://agent',
+        models: ['model'],
+        headers: { 'X-Variant': 'b' },
+      },
+      runHeaders: { 'X-Variant': 'b' },
+    }));
+
+    const task = queue.lease('worker-1', 0)!;
+
+    expect(task.agent.headers).toBeUndefined();
+    expect(task.runHeaders).toEqual({ 'X-Variant': 'b' });
+    expect(task.localAgentFields).toBeUndefined();
+  });
+
+  it('should keep a lease alive with heartbeats', () => {
+    queue.execute(createInput());
+    const task = queue.lease('worker-1', 0)!;
+
+    expect(queue.heartbeat(task.id, 'worker-1', 900)).toBe(true);
+    queue.reclaimExpired(1500);
+
+    expect(queue.getTaskCounts()).toEqual({ pending: 0, leased: 1 });
+    expect(queue.heartbeat(task.id, 'worker-2', 1500)).toBe(false);
+  });
+
+  it('should reassign a task whose worker stopped sending heartbeats', async () => {
+    const result = queue.execute(createInput());
+    const task = queue.lease('worker-1', 0)!;
+
+    const reassigned = queue.lease('worker-2', 1001);
+    expect(reassigned?.id).toBe(task.id);
+    expect(reassigned?.attempt).toBe(2);
+
+    // The crashed worker's late report is refused
+    expect(queue.heartbeat(task.id, 'worker-1', 1100)).toBe(false);
+    expect(queue.complete(task.id, 'worker-1', report, 1100)).toBe(false);
+
+    expect(queue.complete(task.id, 'worker-2', report, 1200)).toBe(true);
+    await expect(result).resolves.toBe(report);
+
+    const workers = queue.listWorkers(1200);
+    expect(workers.find(w => w.id === 'worker-1')).toEqual(expect.objectContaining({ failedTasks: 1, completedTasks: 0 }));
+    expect(workers.find(w => w.id === 'worker-2')).toEqual(expect.objectContaining({ failedTasks: 0, completedTasks: 1 }));
+  });
+
+  it('should fail a task once it has used up its attempts', async () => {
+    const result = queue.execute(createInput());
+    queue.lease('worker-1', 0);
+    queue.lease('worker-2', 1001);
+
+    queue.reclaimExpired(2002);
+
+    await expect(result).rejects.toThrow('No heartbeat from the worker executing the test case (2 attempts)');
+    expect(queue.getTaskCounts()).toEqual({ pending: 0, leased: 0 });
+  });
+
+  it('should reject with the error a worker reports', async () => {
+    const result = queue.execute(createInput());
+    const task = queue.lease('worker-1', 0)!;
+
+    expect(queue.fail(task.id, 'worker-1', 'Agent "agent" not found', 10)).toBe(true);
+
+    await expect(result).rejects.toThrow('Worker worker-1 failed: Agent "agent" not found');
+  });
+
+  it('should cancel only a run\'s unleased tasks', async () => {
+    const leased = queue.execute(createInput());
+    queue.execute(createInput({ runId: 'run-2' }));
+    const pending = queue.execute(createInput({ testCaseId: 'tc-2' }));
+    // Lease the first run-1 task, then cancel what remains of run-1
+    const task = queue.lease('worker-1', 0)!;
+
+    expect(queue.cancelPending('run-1')).toBe(1);
+    await expect(pending).rejects.toThrow('Run cancelled before a worker picked up the test case');
+    expect(queue.getTaskCounts()).toEqual({ pending: 1, leased: 1 });
+
+    queue.complete(task.id, 'worker-1', report, 10);
+    await expect(leased).resolves.toBe(report);
+  });
+
+  it('should list the tasks a worker holds and forget idle workers', () => {
+    queue.execute(createInput());
+    const task = queue.lease('worker-1', 0)!;
+
+    expect(queue.listWorkers(0)).toEqual([expect.objectContaining({ id: 'worker-1', activeTaskIds: [task.id] })]);
+    expect(queue.listWorkers(11 * 60 * 1000)).toEqual([]);
+  });
+});
@@ -6,6 +6,8 @@
 // @ts-nocheck - Test file uses simplified mock objects
 import {
   buildAgentPayload,
+  buildAgentMessage,
+  buildConversationPrompt,
   buildMultiTurnPayload,
   DEFAULT_PPL_TOOL,
   AgentMessage,
@@ -118,6 +120,37 @@ describe('payloadBuilder', () => {
       expect(message.role).toBe('user');
       expect(message.content).toBe('Find errors in logs');
     });
+
+    it('should use conversation history instead of the initial prompt when provided', () => {
+      const history = [
+        buildAgentMessage('user', 'Find errors in logs'),
+        buildAgentMessage('assistant', 'Found 3 errors'),
+        buildAgentMessage('user', 'Which service?'),
+      ];
+      const payload = buildAgentPayload(baseTestCase, 'model-123', 'thread-1', undefined, history);
+
+      expect(payload.threadId).toBe('thread-1');
+      expect(payload.messages).toEqual(history);
+      expect(payload.tools).toEqual([DEFAULT_PPL_TOOL]);
+    });
+  });
+
+  describe('buildConversationPrompt', () => {
+    it('should return a single message as-is', () => {
+      expect(buildConversationPrompt([buildAgentMessage('user', 'Find errors')])).toBe('Find errors');
+    });
+
+    it('should render earlier turns as a transcript', () => {
+      const prompt = buildConversationPrompt([
+        buildAgentMessage('user', 'Find errors'),
+        buildAgentMessage('assistant', 'Found 3 errors'),
+        buildAgentMessage('user', 'Which service?'),
+      ]);
+
+      expect(prompt).toBe(
+        'Conversation so far:\nUser: Find errors\n\nAssistant: Found 3 errors\n\nUser: Which service?'
+      );
+    });
   });
 
   describe('buildMultiTurnPayload', () => {
@@ -311,6 +311,35 @@ describe('SSEClient', () => {
       expect(onError).not.toHaveBeenCalled();
     });
 
+    it('should report an abort by the caller signal as an error', async () => {
+      const controller = new AbortController();
+      global.fetch = jest.fn().mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => {
+          const abortError = new Error('The operation was aborted');
+          abortError.name = 'AbortError';
+          reject(abortError);
+        });
+      }));
+
+      const client = new SSEClient();
+      const onComplete = jest.fn();
+      const onError = jest.fn();
+
+      const consumePromise = client.consume({
+        url: 'http://test.com/stream',
+        body: { test: true },
+        onEvent: jest.fn(),
+        onComplete,
+        onError,
+        signal: controller.signal,
+      });
+      controller.abort(new Error('Test case timed out after 1000ms'));
+      await consumePromise;
+
+      expect(onComplete).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Test case timed out after 1000ms' }));
+    });
+
     it('should handle unknown errors', async () => {
       global.fetch = jest.fn().mockRejectedValue('Unknown error string');
 
@@ -10,6 +10,7 @@ import {
   runSingleUseCase,
 } from '@/services/benchmarkRunner';
 import { Benchmark, BenchmarkRun, TestCase, BenchmarkProgress } from '@/types';
+import { getRetryableTestCaseIds } from '@/lib/runRetry';
 
 // Mock dependencies
 const mockGetAllTestCasesWithClient = jest.fn();
@@ -26,18 +27,33 @@ jest.mock('@/server/services/storage', () => ({
 const mockClient = {} as any;
 
 const mockRunEvaluationWithConnector = jest.fn();
-const mockCallBedrockJudge = jest.fn();
+const mockJudgeEvaluate = jest.fn();
+const mockGetJudgeForModel = jest.fn();
 
 jest.mock('@/services/evaluation', () => ({
   runEvaluationWithConnector: (...args: any[]) => mockRunEvaluationWithConnector(...args),
-  callBedrockJudge: (...args: any[]) => mockCallBedrockJudge(...args),
+}));
+
+jest.mock('@/services/judges', () => ({
+  judgeRegistry: {
+    getForModel: (...args: any[]) => mockGetJudgeForModel(...args),
+  },
 }));
 
 // Mock connector registry - use inline object to avoid hoisting issues
+const mockSaveCassette = jest.fn();
 jest.mock('@/services/connectors/server', () => ({
   connectorRegistry: {
     getForAgent: jest.fn().mockReturnValue({ type: 'mock', name: 'Mock Connector' }),
   },
+  saveCassette: (...args: any[]) => mockSaveCassette(...args),
+}));
+
+const mockCassettesConfig = { record: false, dir: 'cassettes' };
+jest.mock('@/server/config', () => ({
+  get CASSETTES() {
+    return mockCassettesConfig;
+  },
 }));
 
 const mockStartPolling = jest.fn();
@@ -150,6 +166,16 @@ const createBenchmarkRun = (id: string): BenchmarkRun => ({
   results: {},
 });
 
+// What runEvaluationWithConnector returns when the agent errors (it never throws)
+const createFailedReport = (message: string, extra: Record<string, any> = {}) => ({
+  id: 'report',
+  status: 'failed',
+  trajectory: [],
+  metrics: { accuracy: 0 },
+  llmJudgeReasoning: `Evaluation failed: ${message}`,
+  ...extra,
+});
+
 describe('Experiment Runner', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -171,6 +197,14 @@ describe('Experiment Runner', () => {
       token.cancel();
       expect(token.isCancelled).toBe(true);
     });
+
+    it('should call onCancel once, on the first cancel()', () => {
+      const onCancel = jest.fn();
+      const token = createCancellationToken(onCancel);
+      token.cancel();
+      token.cancel();
+      expect(onCancel).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('executeRun', () => {
@@ -201,6 +235,21 @@ describe('Experiment Runner', () => {
       expect(progressUpdates.length).toBeGreaterThan(0);
     });
 
+    it('should judge test cases without a rubric using the benchmark rubric', async () => {
+      const benchmarkRubric = { name: 'Benchmark', criteria: [{ name: 'A', description: 'a' }] };
+      const ownRubric = { name: 'Own', criteria: [{ name: 'B', description: 'b' }] };
+      const experiment = { ...createExperiment(['tc-1', 'tc-2']), rubric: benchmarkRubric };
+
+      mockGetAllTestCasesWithClient.mockResolvedValue([createTestCase('tc-1'), { ...createTestCase('tc-2'), rubric: ownRubric }]);
+      mockRunEvaluationWithConnector.mockResolvedValue({ id: 'report-1', trajectory: [], metrics: {} });
+      mockSaveReportWithClient.mockResolvedValue({ id: 'saved-report-1', metricsStatus: 'ready' });
+
+      await executeRun(experiment, createBenchmarkRun('run-1'), jest.fn(), { client: mockClient });
+
+      const judgedRubrics = mockRunEvaluationWithConnector.mock.calls.map(call => call[2].rubric);
+      expect(judgedRubrics).toEqual([benchmarkRubric, ownRubric]);
+    });
+
     it('should handle cancellation', async () => {
       const testCase1 = createTestCase('tc-1');
       const testCase2 = createTestCase('tc-2');
@@ -257,6 +306,43 @@ describe('Experiment Runner', () => {
       expect(result.results['tc-1'].status).toBe('failed');
     });
 
+    it('should record a failed report as a failed result that keeps its report', async () => {
+      mockGetAllTestCasesWithClient.mockResolvedValue([createTestCase('tc-1')]);
+      mockRunEvaluationWithConnector.mockResolvedValue(
+        createFailedReport('REST request failed: 503 - Service Unavailable')
+      );
+      mockSaveReportWithClient.mockResolvedValue({ id: 'saved-report-1', metricsStatus: 'ready' });
+
+      const result = await executeRun(createExperiment(['tc-1']), createBenchmarkRun('run-1'), jest.fn(), {
+        client: mockClient,
+      });
+
+      expect(mockSaveReportWithClient).toHaveBeenCalledTimes(1);
+      expect(result.results['tc-1']).toEqual({ reportId: 'saved-report-1', status: 'failed' });
+      expect(getRetryableTestCaseIds(result)).toEqual(['tc-1']);
+    });
+
+    it('should record a timed out test case as failed', async () => {
+      mockGetAllTestCasesWithClient.mockResolvedValue([createTestCase('tc-1'), createTestCase('tc-2')]);
+      mockRunEvaluationWithConnector
+        .mockResolvedValueOnce({
+          id: 'report-1',
+          trajectory: [{ id: 's1', type: 'thinking', content: 'Checking shards', timestamp: 1 }],
+          metrics: {},
+          timeoutReason: 'Test case timed out after 30000ms',
+        })
+        .mockResolvedValueOnce({ id: 'report-2', trajectory: [], metrics: {} });
+      let saved = 0;
+      mockSaveReportWithClient.mockImplementation(async () => ({ id: `saved-${++saved}`, metricsStatus: 'ready' }));
+
+      const result = await executeRun(createExperiment(['tc-1', 'tc-2']), createBenchmarkRun('run-1'), jest.fn(), {
+        client: mockClient,
+      });
+
+      expect(result.results['tc-1']).toEqual({ reportId: 'saved-1', status: 'failed' });
+      expect(result.results['tc-2']).toEqual({ reportId: 'saved-2', status: 'completed' });
+    });
+
     it('should apply agent endpoint overrides', async () => {
       const testCase1 = createTestCase('tc-1');
       const experiment = createExperiment(['tc-1']);
@@ -435,7 +521,8 @@ describe('Experiment Runner', () => {
       const run = createBenchmarkRun('run-1');
 
       mockGetAllTestCasesWithClient.mockResolvedValue([testCase1]);
-      mockRunEvaluationWithConnector.mockRejectedValue(new Error('Evaluation failed'));
+      mockRunEvaluationWithConnector.mockResolvedValue(createFailedReport('Evaluation failed'));
+      mockSaveReportWithClient.mockResolvedValue({ id: 'saved-report-1', metricsStatus: 'ready' });
 
       const onTestCaseComplete = jest.fn().mockResolvedValue(undefined);
       const onProgress = jest.fn();
@@ -447,7 +534,7 @@ describe('Experiment Runner', () => {
 
       // Should still call onTestCaseComplete with failed status
       expect(onTestCaseComplete).toHaveBeenCalledTimes(1);
-      expect(onTestCaseComplete).toHaveBeenCalledWith('tc-1', { reportId: '', status: 'failed' });
+      expect(onTestCaseComplete).toHaveBeenCalledWith('tc-1', { reportId: 'saved-report-1', status: 'failed' });
       expect(result.results['tc-1'].status).toBe('failed');
     });
 
@@ -473,6 +560,456 @@ describe('Experiment Runner', () => {
     });
   });
 
+  describe('executeRun with concurrency', () => {
+    const setupEvaluations = () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const pending = new Map<string, () => void>();
+
+      mockRunEvaluationWithConnector.mockImplementation((_agent: any, _model: any, testCase: TestCase) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        return new Promise(resolve => {
+          pending.set(testCase.id, () => {
+            inFlight--;
+            resolve({ id: `report-${testCase.id}`, trajectory: [], metrics: {} });
+          });
+        });
+      });
+      mockSaveReportWithClient.mockImplementation(async (_client: any, report: any) => ({ id: `saved-${report.id}`, metricsStatus: 'ready' }));
+
+      // Let the workers reach the evaluation of a test case
+      const started = async (testCaseId: string) => {
+        for (let i = 0; i < 5 && !pending.has(testCaseId); i++) {
+          await new Promise(resolve => setImmediate(resolve));
+        }
+      };
+
+      const finish = async (testCaseId: string) => {
+        await started(testCaseId);
+        pending.get(testCaseId)!();
+        await new Promise(resolve => setImmediate(resolve));
+      };
+
+      return { started, finish, getMaxInFlight: () => maxInFlight };
+    };
+
+    it('should run up to run.concurrency test cases at once', async () => {
+      const ids = ['tc-1', 'tc-2', 'tc-3', 'tc-4', 'tc-5'];
+      mockGetAllTestCasesWithClient.mockResolvedValue(ids.map(createTestCase));
+      const { finish, getMaxInFlight } = setupEvaluations();
+
+      const execution = executeRun(
+        createExperiment(ids),
+        { ...createBenchmarkRun('run-1'), concurrency: 2 },
+        jest.fn(),
+        { client: mockClient }
+      );
+      for (const id of ['tc-2', 'tc-1', 'tc-3', 'tc-5', 'tc-4']) {
+        await finish(id);
+      }
+      const result = await execution;
+
+      expect(getMaxInFlight()).toBe(2);
+      expect(mockRunEvaluationWithConnector).toHaveBeenCalledTimes(5);
+      expect(Object.values(result.results).map(r => r.status)).toEqual(Array(5).fill('completed'));
+      expect(result.results['tc-4'].reportId).toBe('saved-report-tc-4');
+    });
+
+    it('should report progress in test case order when test cases finish out of order', async () => {
+      const ids = ['tc-1', 'tc-2', 'tc-3'];
+      mockGetAllTestCasesWithClient.mockResolvedValue(ids.map(createTestCase));
+      const { finish } = setupEvaluations();
+      const progressUpdates: BenchmarkProgress[] = [];
+
+      const execution = executeRun(
+        createExperiment(ids),
+        { ...createBenchmarkRun('run-1'), concurrency: 3 },
+        progress => progressUpdates.push(progress),
+        { client: mockClient }
+      );
+      await finish('tc-3');
+      await finish('tc-2');
+      expect(progressUpdates.map(p => p.currentTestCaseIndex)).toEqual([0]);
+      await finish('tc-1');
+      await execution;
+
+      expect(progressUpdates.map(p => [p.currentTestCaseIndex, p.status])).toEqual([
+        [0, 'running'],
+        [2, 'completed'],
+      ]);
+    });
+
+    it('should persist results one at a time in completion order', async () => {
+      const ids = ['tc-1', 'tc-2', 'tc-3'];
+      mockGetAllTestCasesWithClient.mockResolvedValue(ids.map(createTestCase));
+      const { finish } = setupEvaluations();
+      let persisting = 0;
+      let overlapped = false;
+      const persisted: string[] = [];
+      const onTestCaseComplete = jest.fn(async (testCaseId: string) => {
+        overlapped = overlapped || persisting > 0;
+        persisting++;
+        await new Promise(resolve => setTimeout(resolve, 5));
+        persisted.push(testCaseId);
+        persisting--;
+      });
+
+      const execution = executeRun(
+        createExperiment(ids),
+        { ...createBenchmarkRun('run-1'), concurrency: 3 },
+        jest.fn(),
+        { client: mockClient, onTestCaseComplete }
+      );
+      await finish('tc-2');
+      await finish('tc-3');
+      await finish('tc-1');
+      await execution;
+
+      expect(overlapped).toBe(false);
+      expect(persisted).toEqual(['tc-2', 'tc-3', 'tc-1']);
+    });
+
+    it('should stop starting test cases once cancelled and let running ones finish', async () => {
+      const ids = ['tc-1', 'tc-2', 'tc-3', 'tc-4'];
+      mockGetAllTestCasesWithClient.mockResolvedValue(ids.map(createTestCase));
+      const { started, finish } = setupEvaluations();
+      const cancellationToken = createCancellationToken();
+      const progressUpdates: BenchmarkProgress[] = [];
+      const run = { ...createBenchmarkRun('run-1'), concurrency: 2 };
+      ids.forEach(id => { run.results[id] = { reportId: '', status: 'pending' }; });
+
+      const execution = executeRun(
+        createExperiment(ids),
+        run,
+        progress => progressUpdates.push(progress),
+        { client: mockClient, cancellationToken }
+      );
+      await started('tc-2');
+      cancellationToken.cancel();
+      await finish('tc-1');
+      await finish('tc-2');
+      const result = await execution;
+
+      expect(mockRunEvaluationWithConnector).toHaveBeenCalledTimes(2);
+      expect(result.results['tc-1'].status).toBe('completed');
+      expect(result.results['tc-2'].status).toBe('completed');
+      expect(result.results['tc-3'].status).toBe('pending');
+      expect(progressUpdates.filter(p => p.status === 'cancelled')).toHaveLength(1);
+    });
+  });
+
+  describe('executeRun with iterations', () => {
+    it('should execute each test case run.iterations times and keep every iteration', async () => {
+      mockGetAllTestCasesWithClient.mockResolvedValue([createTestCase('tc-1')]);
+      mockRunEvaluationWithConnector
+        .mockResolvedValueOnce(createFailedReport('Agent unavailable'))
+        .mockResolvedValue({ id: 'report', trajectory: [], metrics: {} });
+      let saved = 0;
+      mockSaveReportWithClient.mockImplementation(async () => ({ id: `saved-${++saved}`, metricsStatus: 'ready' }));
+
+      const result = await executeRun(
+        createExperiment(['tc-1']),
+        { ...createBenchmarkRun('run-1'), iterations: 3 },
+        jest.fn(),
+        { client: mockClient }
+      );
+
+      expect(mockRunEvaluationWithConnector).toHaveBeenCalledTimes(3);
+      expect(mockSaveReportWithClient.mock.calls.map(([, , options]) => options.iteration)).toEqual([1, 2, 3]);
+      expect(result.results['tc-1']).toEqual({
+        reportId: 'saved-2',
+        status: 'completed',
+        iterationResults: [
+          { reportId: 'saved-1', status: 'failed' },
+          { reportId: 'saved-2', status: 'completed' },
+          { reportId: 'saved-3', status: 'completed' },
+        ],
+      });
+    });
+
+    it('should skip the remaining iterations once cancelled', async () => {
+      mockGetAllTestCasesWithClient.mockResolvedValue([createTestCase('tc-1')]);
+      const cancellationToken = createCancellationToken();
+      mockRunEvaluationWithConnector.mockImplementation(async () => {
+        cancellationToken.cancel();
+        return { id: 'report', trajectory: [], metrics: {} };
+      });
+      mockSaveReportWithClient.mockResolvedValue({ id: 'saved-report', metricsStatus: 'ready' });
+
+      const result = await executeRun(
+        createExperiment(['tc-1']),
+        { ...createBenchmarkRun('run-1'), iterations: 3 },
+        jest.fn(),
+        { client: mockClient, cancellationToken }
+      );
+
+      expect(mockRunEvaluationWithConnector).toHaveBeenCalledTimes(1);
+      expect(result.results['tc-1'].status).toBe('completed');
+      expect(result.results['tc-1'].iterationResults?.map(r => r.status)).toEqual(['completed', 'cancelled', 'cancelled']);
+    });
+  });
+
+  describe('executeRun with a custom evaluator', () => {
+    it('should evaluate each iteration with it instead of the local connectors', async () => {
+      mockGetAllTestCasesWithClient.mockResolvedValue([createTestCase('tc-1')]);
+      mockSaveReportWithClient.mockResolvedValue({ id: 'saved-report', metricsStatus: 'ready' });
+      const evaluate = jest.fn().mockResolvedValue({ id: 'report', trajectory: [], metrics: {} });
+      const run = { ...createBenchmarkRun('run-1'), iterations: 2, budget: { maxStepsPerTestCase: 5 } };
+
+      const result = await executeRun(createExperiment(['tc-1']), run, jest.fn(), { client: mockClient, evaluate });
+
+      expect(mockRunEvaluationWithConnector).not.toHaveBeenCalled();
+      expect(evaluate).toHaveBeenCalledTimes(2);
+      expect(evaluate.mock.calls.map(([evaluation]) => evaluation.iteration)).toEqual([1, 2]);
+      expect(evaluate).toHaveBeenCalledWith(expect.objectContaining({
+        run,
+        testCaseId: 'tc-1',
+        testCase: expect.objectContaining({ id: 'tc-1' }),
+        options: expect.objectContaining({ budget: { maxStepsPerTestCase: 5 } }),
+      }));
+      expect(result.results['tc-1'].status).toBe('completed');
+    });
+  });
+
+  describe('executeRun with cassette recording', () => {
+    afterEach(() => {
+      mockCassettesConfig.record = false;
+    });
+
+    it('should save the agent exchanges as cassettes when recording is enabled', async () => {
+      mockCassettesConfig.record = true;
+      mockGetAllTestCasesWithClient.mockResolvedValue([createTestCase('tc-1')]);
+      mockSaveReportWithClient.mockResolvedValue({ id: 'saved-report', metricsStatus: 'ready' });
+      mockRunEvaluationWithConnector.mockResolvedValue({ id: 'report', trajectory: [], metrics: {} });
+      mockSaveCassette.mockResolvedValue('cassettes/test-agent/tc-1@v1.json');
+
+      await executeRun(createExperiment(['tc-1']), createBenchmarkRun('run-1'), jest.fn(), { client: mockClient });
+
+      const { record } = mockRunEvaluationWithConnector.mock.calls[0][4];
+      const cassette = { testCaseId: 'tc-1', testCaseVersion: 1, agentKey: 'test-agent', exchanges: [] };
+      await record(cassette);
+      expect(mockSaveCassette).toHaveBeenCalledWith('cassettes', cassette);
+    });
+
+    it('should not record by default', async () => {
+      mockGetAllTestCasesWithClient.mockResolvedValue([createTestCase('tc-1')]);
+      mockSaveReportWithClient.mockResolvedValue({ id: 'saved-report', metricsStatus: 'ready' });
+      mockRunEvaluationWithConnector.mockResolvedValue({ id: 'report', trajectory: [], metrics: {} });
+
+      await executeRun(createExperiment(['tc-1']), createBenchmarkRun('run-1'), jest.fn(), { client: mockClient });
+
+      expect(mockRunEvaluationWithConnector.mock.calls[0][4].record).toBeUndefined();
+    });
+  });
+
+  describe('executeRun with budgets', () => {
+    it('should pass the budget to the evaluation and mark test cases cut off by it', async () => {
+      mockGetAllTestCasesWithClient.mockResolvedValue([createTestCase('tc-1'), createTestCase('tc-2')]);
+      mockRunEvaluationWithConnector
+        .mockResolvedValueOnce({ id: 'report', trajectory: [], metrics: {}, budgetExceededReason: 'Test case exceeded its budget of 3 tool calls' })
+        .mockResolvedValueOnce({ id: 'report', trajectory: [], metrics: {} });
+      mockSaveReportWithClient.mockResolvedValue({ id: 'saved-report', metricsStatus: 'ready' });
+      const budget = { maxToolCallsPerTestCase: 3 };
+
+      const result = await executeRun(
+        createExperiment(['tc-1', 'tc-2']),
+        { ...createBenchmarkRun('run-1'), budget },
+        jest.fn(),
+        { client: mockClient }
+      );
+
+      expect(mockRunEvaluationWithConnector.mock.calls[0][4].budget).toBe(budget);
+      expect(result.results['tc-1'].status).toBe('budget_exceeded');
+      expect(result.results['tc-2'].status).toBe('completed');
+      expect(result.budgetExceededReason).toBeUndefined();
+    });
+
+    it('should add up token usage and cancel the run once it is over its token budget', async () => {
+      const ids = ['tc-1', 'tc-2', 'tc-3'];
+      mockGetAllTestCasesWithClient.mockResolvedValue(ids.map(createTestCase));
+      mockRunEvaluationWithConnector.mockResolvedValue({
+        id: 'report',
+        trajectory: [],
+        metrics: {},
+        tokenUsage: { inputTokens: 600_000, outputTokens: 100_000, modelId: 'anthropic.claude-haiku-4' },
+      });
+      mockSaveReportWithClient.mockResolvedValue({ id: 'saved-report', metricsStatus: 'ready' });
+      const cancellationToken = createCancellationToken();
+      const run = { ...createBenchmarkRun('run-1'), budget: { maxTotalTokens: 1_000_000 } };
+      ids.forEach(id => { run.results[id] = { reportId: '', status: 'pending' }; });
+
+      const result = await executeRun(createExperiment(ids), run, jest.fn(), { client: mockClient, cancellationToken });
+
+      expect(mockRunEvaluationWithConnector).toHaveBeenCalledTimes(2);
+      expect(cancellationToken.isCancelled).toBe(true);
+      expect(result.results['tc-3'].status).toBe('pending');
+      expect(result.usage).toEqual({
+        inputTokens: 1_200_000,
+        outputTokens: 200_000,
+        totalTokens: 1_400_000,
+        costUsd: expect.closeTo(2 * (0.6 * 0.80 + 0.1 * 4.0), 6),
+      });
+      expect(result.budgetExceededReason).toBe('Run used 1400000 tokens, over its budget of 1000000');
+    });
+
+    it('should cancel the run once it is over its cost budget', async () => {
+      mockGetAllTestCasesWithClient.mockResolvedValue([createTestCase('tc-1'), createTestCase('tc-2')]);
+      mockRunEvaluationWithConnector.mockResolvedValue({
+        id: 'report',
+        trajectory: [],
+        metrics: {},
+        tokenUsage: { inputTokens: 1_000_000, outputTokens: 0 },
+      });
+      mockSaveReportWithClient.mockResolvedValue({ id: 'saved-report', metricsStatus: 'ready' });
+      const cancellationToken = createCancellationToken();
+
+      const result = await executeRun(
+        createExperiment(['tc-1', 'tc-2']),
+        { ...createBenchmarkRun('run-1'), budget: { maxCostUsd: 1 } },
+        jest.fn(),
+        { client: mockClient, cancellationToken }
+      );
+
+      // Priced at the run's model: 1M input tokens of Claude 3 Sonnet cost $3
+      expect(mockRunEvaluationWithConnector).toHaveBeenCalledTimes(1);
+      expect(cancellationToken.isCancelled).toBe(true);
+      expect(result.budgetExceededReason).toBe('Run cost $3.0000, over its budget of $1');
+    });
+
+    it('should count judge tokens at each judge model\'s rate', async () => {
+      mockGetAllTestCasesWithClient.mockResolvedValue([createTestCase('tc-1'), createTestCase('tc-2')]);
+      mockRunEvaluationWithConnector.mockResolvedValue({
+        id: 'report',
+        trajectory: [],
+        metrics: {},
+        llmJudgeResponse: { modelId: 'anthropic.claude-haiku-4, anthropic.claude-sonnet-4', promptTokens: 300_000, completionTokens: 0 },
+        judgeResponses: [
+          { modelId: 'anthropic.claude-haiku-4', promptTokens: 100_000, completionTokens: 0 },
+          { modelId: 'anthropic.claude-sonnet-4', promptTokens: 200_000, completionTokens: 0 },
+        ],
+      });
+      mockSaveReportWithClient.mockResolvedValue({ id: 'saved-report', metricsStatus: 'ready' });
+      const cancellationToken = createCancellationToken();
+
+      const result = await executeRun(
+        createExperiment(['tc-1', 'tc-2']),
+        { ...createBenchmarkRun('run-1'), budget: { maxTotalTokens: 250_000 } },
+        jest.fn(),
+        { client: mockClient, cancellationToken }
+      );
+
+      expect(mockRunEvaluationWithConnector).toHaveBeenCalledTimes(1);
+      expect(cancellationToken.isCancelled).toBe(true);
+      expect(result.usage).toEqual({
+        inputTokens: 300_000,
+        outputTokens: 0,
+        totalTokens: 300_000,
+        costUsd: expect.closeTo(0.1 * 0.80 + 0.2 * 3.0, 6),
+      });
+      expect(result.budgetExceededReason).toBe('Run used 300000 tokens, over its budget of 250000');
+    });
+
+    it('should cancel the run once it is over its wall-clock budget', async () => {
+      mockGetAllTestCasesWithClient.mockResolvedValue([createTestCase('tc-1'), createTestCase('tc-2')]);
+      mockRunEvaluationWithConnector.mockImplementation(async () => {
+        await new Promise(resolve => setTimeout(resolve, 30));
+        return { id: 'report', trajectory: [], metrics: {} };
+      });
+      mockSaveReportWithClient.mockResolvedValue({ id: 'saved-report', metricsStatus: 'ready' });
+      const cancellationToken = createCancellationToken();
+
+      const result = await executeRun(
+        createExperiment(['tc-1', 'tc-2']),
+        { ...createBenchmarkRun('run-1'), budget: { maxDurationMs: 10 } },
+        jest.fn(),
+        { client: mockClient, cancellationToken }
+      );
+
+      expect(mockRunEvaluationWithConnector).toHaveBeenCalledTimes(1);
+      expect(cancellationToken.isCancelled).toBe(true);
+      expect(result.budgetExceededReason).toBe('Run exceeded its budget of 10ms wall-clock time');
+    });
+  });
+
+  describe('executeRun pause and resume', () => {
+    it('should stop starting test cases once shouldPause returns true', async () => {
+      const ids = ['tc-1', 'tc-2', 'tc-3'];
+      mockGetAllTestCasesWithClient.mockResolvedValue(ids.map(createTestCase));
+      mockRunEvaluationWithConnector.mockResolvedValue({ id: 'report', trajectory: [], metrics: {} });
+      mockSaveReportWithClient.mockResolvedValue({ id: 'saved-report', metricsStatus: 'ready' });
+      let pauseRequested = false;
+      mockRunEvaluationWithConnector.mockImplementationOnce(async () => {
+        pauseRequested = true;
+        return { id: 'report', trajectory: [], metrics: {} };
+      });
+      const progressUpdates: BenchmarkProgress[] = [];
+      const run = createBenchmarkRun('run-1');
+      ids.forEach(id => { run.results[id] = { reportId: '', status: 'pending' }; });
+
+      const result = await executeRun(
+        createExperiment(ids),
+        run,
+        progress => progressUpdates.push(progress),
+        { client: mockClient, shouldPause: () => pauseRequested }
+      );
+
+      expect(mockRunEvaluationWithConnector).toHaveBeenCalledTimes(1);
+      expect(result.results['tc-1'].status).toBe('completed');
+      expect(result.results['tc-2'].status).toBe('pending');
+      expect(result.results['tc-3'].status).toBe('pending');
+      expect(progressUpdates.some(p => p.status === 'completed')).toBe(false);
+    });
+
+    it('should skip test cases that already have a result when resuming', async () => {
+      const ids = ['tc-1', 'tc-2', 'tc-3'];
+      mockGetAllTestCasesWithClient.mockResolvedValue(ids.map(createTestCase));
+      mockRunEvaluationWithConnector.mockResolvedValue({ id: 'report-3', trajectory: [], metrics: {} });
+      mockSaveReportWithClient.mockResolvedValue({ id: 'saved-report-3', metricsStatus: 'ready' });
+      const onTestCaseComplete = jest.fn().mockResolvedValue(undefined);
+      const progressUpdates: BenchmarkProgress[] = [];
+      const run = createBenchmarkRun('run-1');
+      run.results = {
+        'tc-1': { reportId: 'saved-report-1', status: 'completed' },
+        'tc-2': { reportId: '', status: 'failed' },
+        'tc-3': { reportId: '', status: 'pending' },
+      };
+
+      const result = await executeRun(
+        createExperiment(ids),
+        run,
+        progress => progressUpdates.push(progress),
+        { client: mockClient, onTestCaseComplete }
+      );
+
+      expect(mockRunEvaluationWithConnector).toHaveBeenCalledTimes(1);
+      expect(mockRunEvaluationWithConnector.mock.calls[0][2].id).toBe('tc-3');
+      expect(result.results['tc-1']).toEqual({ reportId: 'saved-report-1', status: 'completed' });
+      expect(result.results['tc-2']).toEqual({ reportId: '', status: 'failed' });
+      expect(result.results['tc-3']).toEqual({ reportId: 'saved-report-3', status: 'completed' });
+      expect(onTestCaseComplete).toHaveBeenCalledTimes(1);
+      expect(progressUpdates.map(p => [p.currentTestCaseIndex, p.status])).toEqual([
+        [2, 'running'],
+        [2, 'completed'],
+      ]);
+    });
+
+    it('should keep the attempt history of retried test cases', async () => {
+      mockGetAllTestCasesWithClient.mockResolvedValue([createTestCase('tc-1')]);
+      mockRunEvaluationWithConnector.mockResolvedValue({ id: 'report-2', trajectory: [], metrics: {} });
+      mockSaveReportWithClient.mockResolvedValue({ id: 'saved-report-2', metricsStatus: 'ready' });
+      const onTestCaseComplete = jest.fn().mockResolvedValue(undefined);
+      const attempts = [{ reportId: 'saved-report-1', status: 'failed' as const, retriedAt: '2024-01-02T00:00:00Z' }];
+      const run = createBenchmarkRun('run-1');
+      run.results = { 'tc-1': { reportId: '', status: 'pending', attempts } };
+
+      const result = await executeRun(createExperiment(['tc-1']), run, () => {}, { client: mockClient, onTestCaseComplete });
+
+      expect(result.results['tc-1']).toEqual({ reportId: 'saved-report-2', status: 'completed', attempts });
+      expect(onTestCaseComplete).toHaveBeenCalledWith('tc-1', { reportId: 'saved-report-2', status: 'completed', attempts });
+    });
+  });
+
   describe('runBenchmark', () => {
     it('should create and execute a new run', async () => {
       const testCase1 = createTestCase('tc-1');
@@ -708,7 +1245,15 @@ describe('Experiment Runner', () => {
   });
 
   describe('trace polling callbacks', () => {
-    it('should call Bedrock judge when traces are found', async () => {
+    beforeEach(() => {
+      mockGetJudgeForModel.mockImplementation((modelId: string | undefined, models: Record<string, any>) => ({
+        judge: { type: 'bedrock', name: 'Bedrock', evaluate: mockJudgeEvaluate },
+        modelId: (modelId && models[modelId]?.model_id) || modelId,
+        modelConfig: modelId ? models[modelId] : undefined,
+      }));
+    });
+
+    it('should call the registered judge when traces are found', async () => {
       const testCase = createTestCase('tc-1');
       const experiment = createExperiment(['tc-1']);
       const run = createBenchmarkRun('run-1');
@@ -721,7 +1266,7 @@ describe('Experiment Runner', () => {
         metricsStatus: 'pending',
         modelId: 'claude-sonnet',
       });
-      mockCallBedrockJudge.mockResolvedValue({
+      mockJudgeEvaluate.mockResolvedValue({
         passFailStatus: 'passed',
         metrics: { accuracy: 95 },
         llmJudgeReasoning: 'Test passed',
@@ -743,19 +1288,91 @@ describe('Experiment Runner', () => {
 
       await callbacks.onTracesFound(spans, updatedReport);
 
-      expect(mockCallBedrockJudge).toHaveBeenCalledWith(
-        updatedReport.trajectory,
+      expect(mockGetJudgeForModel).toHaveBeenCalledWith('claude-sonnet', mockConfig.models);
+      expect(mockJudgeEvaluate).toHaveBeenCalledWith(
         expect.objectContaining({
+          trajectory: updatedReport.trajectory,
           expectedOutcomes: testCase.expectedOutcomes,
+          logs: [],
         }),
-        [],
-        expect.any(Function),
-        'anthropic.claude-3-sonnet-20240229-v1:0'
+        expect.objectContaining({ modelId: 'anthropic.claude-3-sonnet-20240229-v1:0' })
+      );
+
+      expect(mockUpdateRunWithClient).toHaveBeenCalledWith(mockClient, 'saved-report-1', expect.objectContaining({
+        metricsStatus: 'ready',
+        passFailStatus: 'passed',
+      }));
+    });
+
+    it('should score with every judge in the run\'s ensemble', async () => {
+      const testCase = createTestCase('tc-1');
+      const experiment = createExperiment(['tc-1']);
+      const run = { ...createBenchmarkRun('run-1'), judgeEnsemble: { models: ['claude-sonnet', 'claude-sonnet'] } };
+
+      mockGetAllTestCasesWithClient.mockResolvedValue([testCase]);
+      mockRunEvaluationWithConnector.mockResolvedValue({ id: 'report-1', trajectory: [], modelId: 'claude-sonnet' });
+      mockSaveReportWithClient.mockResolvedValue({
+        id: 'saved-report-1',
+        runId: 'trace-run-id',
+        metricsStatus: 'pending',
+        modelId: 'claude-sonnet',
+      });
+      mockJudgeEvaluate
+        .mockResolvedValueOnce({ passFailStatus: 'passed', metrics: { accuracy: 90 }, llmJudgeReasoning: 'Good', improvementStrategies: [] })
+        .mockResolvedValueOnce({ passFailStatus: 'failed', metrics: { accuracy: 40 }, llmJudgeReasoning: 'Bad', improvementStrategies: [] });
+
+      await executeRun(experiment, run, jest.fn(), { client: mockClient });
+
+      expect(mockRunEvaluationWithConnector).toHaveBeenCalledWith(
+        expect.anything(), expect.anything(), expect.anything(), expect.anything(),
+        expect.objectContaining({ judgeEnsemble: run.judgeEnsemble })
       );
 
+      const callbacks = mockStartPolling.mock.calls[0][2];
+      await callbacks.onTracesFound([], { id: 'saved-report-1', trajectory: [] });
+
+      expect(mockJudgeEvaluate).toHaveBeenCalledTimes(2);
+      expect(mockUpdateRunWithClient).toHaveBeenCalledWith(mockClient, 'saved-report-1', expect.objectContaining({
+        metricsStatus: 'ready',
+        passFailStatus: 'failed',
+        judgeAgreement: 0.5,
+        judgeResponses: [
+          expect.objectContaining({ passFailStatus: 'passed' }),
+          expect.objectContaining({ passFailStatus: 'failed' }),
+        ],
+      }));
+    });
+
+    it('should score assertion-only test cases without calling the judge', async () => {
+      const testCase = {
+        ...createTestCase('tc-1'),
+        expectedOutcomes: [],
+        assertions: [{ type: 'tool-called', tool: 'search' }],
+      };
+      const experiment = createExperiment(['tc-1']);
+      const run = createBenchmarkRun('run-1');
+
+      mockGetAllTestCasesWithClient.mockResolvedValue([testCase]);
+      mockRunEvaluationWithConnector.mockResolvedValue({ id: 'report-1', trajectory: [] });
+      mockSaveReportWithClient.mockResolvedValue({
+        id: 'saved-report-1',
+        runId: 'trace-run-id',
+        metricsStatus: 'pending',
+      });
+
+      await executeRun(experiment, run, jest.fn(), { client: mockClient });
+
+      const callbacks = mockStartPolling.mock.calls[0][2];
+      await callbacks.onTracesFound([], {
+        id: 'saved-report-1',
+        trajectory: [{ type: 'action', content: 'Searching', toolName: 'search' }],
+      });
+
+      expect(mockJudgeEvaluate).not.toHaveBeenCalled();
       expect(mockUpdateRunWithClient).toHaveBeenCalledWith(mockClient, 'saved-report-1', expect.objectContaining({
         metricsStatus: 'ready',
         passFailStatus: 'passed',
+        assertionResults: [expect.objectContaining({ passed: true })],
       }));
     });
 
@@ -771,7 +1388,7 @@ describe('Experiment Runner', () => {
         runId: 'trace-run-id',
         metricsStatus: 'pending',
       });
-      mockCallBedrockJudge.mockRejectedValue(new Error('Judge failed'));
+      mockJudgeEvaluate.mockRejectedValue(new Error('Judge failed'));
 
       await executeRun(experiment, run, jest.fn(), { client: mockClient });
 
@@ -4,7 +4,17 @@
  */
 
 // @ts-nocheck - Test file uses simplified mock objects
-import { executeBenchmarkRun, cancelBenchmarkRun } from '@/services/client/benchmarkApi';
+import {
+  executeBenchmarkRun,
+  cancelBenchmarkRun,
+  pauseBenchmarkJob,
+  resumeBenchmarkJob,
+  retryFailedBenchmarkRun,
+  listBenchmarkSchedules,
+  createBenchmarkSchedule,
+  updateBenchmarkSchedule,
+  deleteBenchmarkSchedule,
+} from '@/services/client/benchmarkApi';
 import type { RunConfigInput, BenchmarkRun, ExperimentProgress, ExperimentStartedEvent } from '@/types';
 
 // Helper to create a mock ReadableStream from SSE data chunks
@@ -330,4 +340,131 @@ describe('benchmarkApi', () => {
       ).rejects.toThrow('Failed to cancel run');
     });
   });
+
+  describe('pauseBenchmarkJob / resumeBenchmarkJob', () => {
+    it('should pause a job and return it', async () => {
+      const job = { id: 'job-1', status: 'running', pauseRequested: true };
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue(job),
+      });
+
+      const result = await pauseBenchmarkJob('job-1');
+
+      expect(global.fetch).toHaveBeenCalledWith('/api/jobs/job-1/pause', { method: 'POST' });
+      expect(result).toEqual(job);
+    });
+
+    it('should resume a job', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ id: 'job-1', status: 'queued' }),
+      });
+
+      await resumeBenchmarkJob('job-1');
+
+      expect(global.fetch).toHaveBeenCalledWith('/api/jobs/job-1/resume', { method: 'POST' });
+    });
+
+    it('should throw the server error message', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: false,
+        statusText: 'Conflict',
+        json: jest.fn().mockResolvedValue({ error: 'Only paused jobs can be resumed' }),
+      });
+
+      await expect(resumeBenchmarkJob('job-1')).rejects.toThrow('Only paused jobs can be resumed');
+    });
+  });
+
+  describe('retryFailedBenchmarkRun', () => {
+    it('should stream the retry and return the completed run', async () => {
+      const completedRun = { id: 'run-1', status: 'completed', results: {} };
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        body: createMockSSEStream([
+          sseData({ type: 'started', runId: 'run-1', jobId: 'job-2', testCases: [{ id: 'tc-2', name: 'Second', status: 'pending' }] }),
+          sseData({ type: 'progress', currentTestCaseIndex: 1, totalTestCases: 2, status: 'running' }),
+          sseData({ type: 'completed', run: completedRun }),
+        ]),
+      });
+      const onProgress = jest.fn();
+      const onStarted = jest.fn();
+
+      const result = await retryFailedBenchmarkRun('exp-123', 'run-1', onProgress, onStarted);
+
+      expect(global.fetch).toHaveBeenCalledWith('/api/storage/benchmarks/exp-123/runs/run-1/retry-failed', { method: 'POST' });
+      expect(onStarted).toHaveBeenCalledWith({
+        runId: 'run-1',
+        jobId: 'job-2',
+        testCases: [{ id: 'tc-2', name: 'Second', status: 'pending' }],
+      });
+      expect(onProgress).toHaveBeenCalledTimes(1);
+      expect(result).toEqual(completedRun);
+    });
+
+    it('should throw the server error message', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: false,
+        statusText: 'Bad Request',
+        json: jest.fn().mockResolvedValue({ error: 'Run has no failed or cancelled test cases to retry' }),
+      });
+
+      await expect(retryFailedBenchmarkRun('exp-123', 'run-1', jest.fn())).rejects.toThrow(
+        'Run has no failed or cancelled test cases to retry'
+      );
+    });
+  });
+
+  describe('benchmark schedules', () => {
+    const schedule = { id: 'schedule-1', cron: '0 2 * * *', enabled: true };
+    const input = { cron: '0 2 * * *', runConfig: { name: 'Nightly', agentKey: 'agent-a', modelId: 'model-1' } };
+
+    it('should list schedules', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ schedules: [schedule] }),
+      });
+
+      await expect(listBenchmarkSchedules('exp-123')).resolves.toEqual([schedule]);
+      expect(global.fetch).toHaveBeenCalledWith('/api/storage/benchmarks/exp-123/schedules');
+    });
+
+    it('should create, update, and delete schedules', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue(schedule),
+      });
+
+      await createBenchmarkSchedule('exp-123', input);
+      await updateBenchmarkSchedule('exp-123', 'schedule-1', { enabled: false });
+      await deleteBenchmarkSchedule('exp-123', 'schedule-1');
+
+      expect(global.fetch).toHaveBeenNthCalledWith(1, '/api/storage/benchmarks/exp-123/schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      expect(global.fetch).toHaveBeenNthCalledWith(2, '/api/storage/benchmarks/exp-123/schedules/schedule-1', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: false }),
+      });
+      expect(global.fetch).toHaveBeenNthCalledWith(3, '/api/storage/benchmarks/exp-123/schedules/schedule-1', {
+        method: 'DELETE',
+      });
+    });
+
+    it('should throw the server error message', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: false,
+        statusText: 'Bad Request',
+        json: jest.fn().mockResolvedValue({ error: 'Invalid hour value "25" (expected 0-23)' }),
+      });
+
+      await expect(createBenchmarkSchedule('exp-123', { ...input, cron: '0 25 * * *' })).rejects.toThrow(
+        'Invalid hour value "25" (expected 0-23)'
+      );
+    });
+  });
 });
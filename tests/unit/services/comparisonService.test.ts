@@ -87,6 +87,41 @@ describe('comparisonService', () => {
       expect(aggregates.failedCount).toBe(1);
       expect(aggregates.avgAccuracy).toBe(73); // (90 + 80 + 50) / 3
       expect(aggregates.passRatePercent).toBe(67); // 2/3 * 100
+      expect(aggregates.avgPplMatch).toBeUndefined();
+    });
+
+    it('should average pplMatch over reports that have it', () => {
+      const reportsWithPpl: Record<string, EvaluationReport> = {
+        ...mockReports,
+        'report-1': { ...mockReports['report-1'], metrics: { ...mockReports['report-1'].metrics, pplMatch: 100 } },
+        'report-2': { ...mockReports['report-2'], metrics: { ...mockReports['report-2'].metrics, pplMatch: 71 } },
+      };
+
+      const aggregates = calculateRunAggregates(mockRun, reportsWithPpl);
+
+      expect(aggregates.avgPplMatch).toBe(86); // (100 + 71) / 2, report-3 has no expectedPPL
+    });
+
+    it('should add iteration metrics for runs with several iterations', () => {
+      const iteratedRun: BenchmarkRun = {
+        ...mockRun,
+        iterations: 2,
+        results: {
+          'tc-1': {
+            reportId: 'report-1',
+            status: 'completed',
+            iterationResults: [
+              { reportId: 'report-1', status: 'completed' },
+              { reportId: 'report-3', status: 'completed' },
+            ],
+          },
+        },
+      };
+
+      const aggregates = calculateRunAggregates(iteratedRun, mockReports);
+
+      expect(aggregates).toMatchObject({ iterations: 2, passAtK: 100, passHatK: 0, avgAccuracyStddev: 20, flakyTestCases: 1 });
+      expect(calculateRunAggregates(mockRun, mockReports).passAtK).toBeUndefined();
     });
 
     it('should handle empty results', () => {
@@ -6,6 +6,7 @@
 import { AGUIStreamingConnector, aguiStreamingConnector } from '@/services/connectors/agui/AGUIStreamingConnector';
 import type { ConnectorRequest, ConnectorAuth } from '@/services/connectors/types';
 import type { TestCase, TrajectoryStep } from '@/types';
+import { createHash } from 'crypto';
 
 // Mock the SSE stream module
 jest.mock('@/services/agent/sseStream', () => ({
@@ -85,9 +86,22 @@ describe('AGUIStreamingConnector', () => {
         mockTestCase,
         'test-model',
         'thread-123',
-        'run-456'
+        'run-456',
+        undefined
       );
     });
+
+    it('should pass conversation history for multi-turn requests', () => {
+      const messages = [
+        { id: 'm1', role: 'user' as const, content: 'First question' },
+        { id: 'm2', role: 'assistant' as const, content: 'First answer' },
+        { id: 'm3', role: 'user' as const, content: 'Follow-up' },
+      ];
+
+      connector.buildPayload({ testCase: mockTestCase, modelId: 'test-model', threadId: 'thread-123', messages });
+
+      expect(buildAgentPayload).toHaveBeenCalledWith(mockTestCase, 'test-model', 'thread-123', undefined, messages);
+    });
   });
 
   describe('execute', () => {
@@ -105,7 +119,8 @@ describe('AGUIStreamingConnector', () => {
         'http://localhost:8080/stream',
         expect.any(Object),
         expect.any(Function),
-        {}
+        {},
+        undefined
       );
     });
 
@@ -127,10 +142,40 @@ describe('AGUIStreamingConnector', () => {
         expect.any(String),
         expect.any(Object),
         expect.any(Function),
-        expect.objectContaining({ 'Authorization': 'Bearer my-token' })
+        expect.objectContaining({ 'Authorization': 'Bearer my-token' }),
+        undefined
+      );
+    });
+
+    it('should sign the stream request with AWS SigV4', async () => {
+      (consumeSSEStream as jest.Mock).mockResolvedValue(undefined);
+
+      await connector.execute(
+        'https://abc123.execute-api.us-east-1.amazonaws.com/prod/stream',
+        { testCase: mockTestCase, modelId: 'test-model' },
+        { type: 'aws-sigv4', awsRegion: 'us-east-1', awsAccessKeyId: 'AKIDEXAMPLE', awsSecretAccessKey: 'secret' }
+      );
+
+      const [, payload, , headers] = (consumeSSEStream as jest.Mock).mock.calls[0];
+      expect(headers['X-Amz-Content-Sha256']).toBe(createHash('sha256').update(JSON.stringify(payload)).digest('hex'));
+      expect(headers['Authorization']).toMatch(
+        /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/us-east-1\/execute-api\/aws4_request, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
       );
     });
 
+    it('should pass the request signal to the stream', async () => {
+      (consumeSSEStream as jest.Mock).mockResolvedValue(undefined);
+      const controller = new AbortController();
+
+      await connector.execute(
+        'http://localhost:8080/stream',
+        { testCase: mockTestCase, modelId: 'test-model', signal: controller.signal },
+        mockAuth
+      );
+
+      expect((consumeSSEStream as jest.Mock).mock.calls[0][4]).toBe(controller.signal);
+    });
+
     it('should return response with trajectory and metadata', async () => {
       (consumeSSEStream as jest.Mock).mockResolvedValue(undefined);
 
@@ -225,6 +270,20 @@ describe('AGUIStreamingConnector', () => {
     });
   });
 
+  describe('createRawEventParser', () => {
+    it('should convert each recorded event with one converter', () => {
+      const step = { id: 's1', type: 'assistant', content: 'Hello', timestamp: 0 };
+      const parser = connector.createRawEventParser();
+      const converter = (AGUIToTrajectoryConverter as unknown as jest.Mock).mock.results.at(-1)!.value;
+      converter.processEvent.mockReturnValueOnce([]).mockReturnValueOnce([step]);
+
+      expect(parser.push({ type: 'TEXT_MESSAGE_START' })).toEqual([]);
+      expect(parser.push({ type: 'TEXT_MESSAGE_END' })).toEqual([step]);
+      expect(parser.finish()).toEqual([]);
+      expect(converter.processEvent).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('healthCheck', () => {
     beforeEach(() => {
       jest.spyOn(global, 'fetch').mockImplementation();
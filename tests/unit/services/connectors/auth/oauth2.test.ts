@@ -0,0 +1,135 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Unit tests for OAuth2 client credentials tokens
+ */
+
+import { getOAuth2AccessToken, invalidateOAuth2AccessToken, clearOAuth2TokenCache } from '@/services/connectors/auth/oauth2';
+import type { ConnectorAuth } from '@/services/connectors/types';
+
+const auth: ConnectorAuth = {
+  type: 'oauth2',
+  oauth2TokenUrl: 'https://auth.example.com/oauth2/token',
+  oauth2ClientId: 'agent-health',
+  oauth2ClientSecret: 's3cret',
+  oauth2Scopes: ['agents/invoke', 'agents/read'],
+};
+
+function tokenResponse(accessToken: string, expiresIn?: number) {
+  return {
+    ok: true,
+    status: 200,
+    json: jest.fn().mockResolvedValue({ access_token: accessToken, token_type: 'Bearer', expires_in: expiresIn }),
+  };
+}
+
+describe('getOAuth2AccessToken', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    clearOAuth2TokenCache();
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation() as unknown as jest.Mock;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should request a token with the client credentials grant', async () => {
+    fetchMock.mockResolvedValue(tokenResponse('token-1', 3600));
+
+    await expect(getOAuth2AccessToken(auth)).resolves.toBe('token-1');
+
+    expect(fetchMock).toHaveBeenCalledWith('https://auth.example.com/oauth2/token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+        Authorization: `Basic ${Buffer.from('agent-health:s3cret').toString('base64')}`,
+      },
+      body: 'grant_type=client_credentials&scope=agents%2Finvoke+agents%2Fread',
+    });
+  });
+
+  it('should send the client credentials in the body when configured', async () => {
+    fetchMock.mockResolvedValue(tokenResponse('token-1', 3600));
+
+    await getOAuth2AccessToken({ ...auth, oauth2Scopes: undefined, oauth2Audience: 'https://agents.example.com', oauth2ClientAuth: 'body' });
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers.Authorization).toBeUndefined();
+    expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+      grant_type: 'client_credentials',
+      audience: 'https://agents.example.com',
+      client_id: 'agent-health',
+      client_secret: 's3cret',
+    });
+  });
+
+  it('should reuse the cached token until shortly before it expires', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-15T09:00:00Z') });
+    fetchMock.mockResolvedValueOnce(tokenResponse('token-1', 3600)).mockResolvedValueOnce(tokenResponse('token-2', 3600));
+
+    await expect(getOAuth2AccessToken(auth)).resolves.toBe('token-1');
+    jest.setSystemTime(new Date('2026-01-15T09:58:00Z'));
+    await expect(getOAuth2AccessToken({ ...auth, oauth2Scopes: ['agents/read', 'agents/invoke'] })).resolves.toBe('token-1');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    jest.setSystemTime(new Date('2026-01-15T09:59:30Z'));
+    await expect(getOAuth2AccessToken(auth)).resolves.toBe('token-2');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fetch the token once for concurrent requests', async () => {
+    fetchMock.mockResolvedValue(tokenResponse('token-1', 3600));
+
+    const tokens = await Promise.all([getOAuth2AccessToken(auth), getOAuth2AccessToken(auth), getOAuth2AccessToken(auth)]);
+
+    expect(tokens).toEqual(['token-1', 'token-1', 'token-1']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep separate tokens per client', async () => {
+    fetchMock.mockResolvedValueOnce(tokenResponse('token-1', 3600)).mockResolvedValueOnce(tokenResponse('token-2', 3600));
+
+    await expect(getOAuth2AccessToken(auth)).resolves.toBe('token-1');
+    await expect(getOAuth2AccessToken({ ...auth, oauth2ClientId: 'other-team' })).resolves.toBe('token-2');
+  });
+
+  it('should fetch a new token once the cached one is invalidated', async () => {
+    fetchMock.mockResolvedValueOnce(tokenResponse('token-1', 3600)).mockResolvedValueOnce(tokenResponse('token-2', 3600));
+
+    await expect(getOAuth2AccessToken(auth)).resolves.toBe('token-1');
+    invalidateOAuth2AccessToken(auth);
+    await expect(getOAuth2AccessToken(auth)).resolves.toBe('token-2');
+    await expect(getOAuth2AccessToken(auth)).resolves.toBe('token-2');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail when the token endpoint refuses the client', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 401, text: jest.fn().mockResolvedValue('{"error":"invalid_client"}') });
+
+    await expect(getOAuth2AccessToken(auth)).rejects.toThrow('OAuth2 token request failed: 401 - {"error":"invalid_client"}');
+  });
+
+  it('should fail when the config is incomplete', async () => {
+    await expect(getOAuth2AccessToken({ type: 'oauth2', oauth2TokenUrl: 'https://auth.example.com/token' })).rejects.toThrow(
+      'OAuth2 auth needs oauth2TokenUrl, oauth2ClientId, and oauth2ClientSecret'
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should stop waiting when the signal aborts', async () => {
+    fetchMock.mockReturnValue(new Promise(() => {}));
+    const controller = new AbortController();
+
+    const token = getOAuth2AccessToken(auth, controller.signal);
+    controller.abort(new Error('Test case timed out'));
+
+    await expect(token).rejects.toThrow('Test case timed out');
+  });
+});
@@ -0,0 +1,232 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Unit tests for AWS SigV4 signing
+ * Signatures are from the AWS SigV4 test suite and the AWS SDK signer
+ */
+
+import {
+  signRequest,
+  signRequestWithAuth,
+  resolveAwsCredentials,
+  resolveAwsRegion,
+} from '@/services/connectors/auth/sigv4';
+
+const mockProviderChain = jest.fn();
+jest.mock('@aws-sdk/credential-providers', () => ({
+  fromNodeProviderChain: () => mockProviderChain,
+}));
+
+const credentials = {
+  accessKeyId: 'AKIDEXAMPLE',
+  secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+};
+const suiteOptions = {
+  credentials,
+  region: 'us-east-1',
+  service: 'service',
+  date: new Date('2015-08-30T12:36:00Z'),
+};
+const sessionToken =
+  'AQoDYXdzEPT//////////wEXAMPLEtc764bNrC9SAPBSM22wDOk4x4HIZ8j4FZTwdQWLWsKWHGBuFqwAeMicRXmxfpSPfIeoIYRqTflfKD8YUuwthAx7mSEI/qkPpKPi/kMcGdQrmGdeehM4IC1NtBmUpp2wUE8phUZampKsburEDy0KPkyQDYwT7WZ0wq5VSXDvp75YU9HFvlRd8Tx6q6fE8YQcHNVXAkiY9q6d+xo0rKwT38xVqr7ZD0u0iPPkUL64lIZbqBAz+scqKmlzm8FDrypNC9Yjc8fPOLn9FX9KSYvKTr4rvx3iSIlTJabIQwj2ICCR/oLxBA==';
+
+function suiteAuthorization(signedHeaders: string, signature: string): string {
+  return `AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+}
+
+describe('signRequest', () => {
+  it('should sign get-vanilla', async () => {
+    const headers = await signRequest({ method: 'GET', url: 'https://example.amazonaws.com/' }, suiteOptions);
+
+    expect(headers).toEqual({
+      'X-Amz-Date': '20150830T123600Z',
+      Authorization: suiteAuthorization('host;x-amz-date', '5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'),
+    });
+  });
+
+  it('should sign post-vanilla', async () => {
+    const headers = await signRequest({ method: 'POST', url: 'https://example.amazonaws.com/' }, suiteOptions);
+
+    expect(headers.Authorization).toBe(
+      suiteAuthorization('host;x-amz-date', '5da7c1a2acd57cee7505fc6676e4e544621c30862966e37dddb68e92efbe5d6b')
+    );
+  });
+
+  it('should sign get-vanilla-query-order-key-case with sorted query parameters', async () => {
+    const headers = await signRequest(
+      { method: 'GET', url: 'https://example.amazonaws.com/?Param2=value2&Param1=value1' },
+      suiteOptions
+    );
+
+    expect(headers.Authorization).toBe(
+      suiteAuthorization('host;x-amz-date', 'b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500')
+    );
+  });
+
+  it('should sign post-x-www-form-urlencoded with its body and content type', async () => {
+    const headers = await signRequest(
+      {
+        method: 'POST',
+        url: 'https://example.amazonaws.com/',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'Param1=value1',
+      },
+      suiteOptions
+    );
+
+    expect(headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+    expect(headers.Authorization).toBe(
+      suiteAuthorization('content-type;host;x-amz-date', 'ff11897932ad3f4e8b18135d722051e5ac45fc38421b1da7b9d196a0fe09473a')
+    );
+  });
+
+  it('should sign the session token of temporary credentials', async () => {
+    const headers = await signRequest(
+      { method: 'GET', url: 'https://example.amazonaws.com/' },
+      { ...suiteOptions, credentials: { ...credentials, sessionToken } }
+    );
+
+    expect(headers['X-Amz-Security-Token']).toBe(sessionToken);
+    expect(headers.Authorization).toBe(
+      suiteAuthorization('host;x-amz-date;x-amz-security-token', 'c8db8b9676d526f735dac5330f17623554c6cad1e2980d321903e9a3884c051b')
+    );
+  });
+});
+
+describe('signRequestWithAuth', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    jest.useFakeTimers({ now: new Date('2026-01-15T09:30:00Z') });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.useRealTimers();
+  });
+
+  it('should sign the JSON body of an agent request with its content hash', async () => {
+    const headers = await signRequestWithAuth(
+      {
+        method: 'POST',
+        url: 'https://abc123.execute-api.us-west-2.amazonaws.com/prod/agent',
+        body: JSON.stringify({ threadId: 't-1', messages: [{ role: 'user', content: 'Why is checkout slow?' }] }),
+      },
+      {
+        type: 'aws-sigv4',
+        awsRegion: 'us-west-2',
+        awsAccessKeyId: credentials.accessKeyId,
+        awsSecretAccessKey: credentials.secretAccessKey,
+      }
+    );
+
+    expect(headers).toEqual({
+      'X-Amz-Content-Sha256': 'b60a411e07059bf3b74f76f50ffeadfa3536f1bb698d6ac48b81a806006955db',
+      'X-Amz-Date': '20260115T093000Z',
+      Authorization:
+        'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20260115/us-west-2/execute-api/aws4_request, ' +
+        'SignedHeaders=host;x-amz-content-sha256;x-amz-date, ' +
+        'Signature=8cbbd939c62c3660d7226f287c1dbbf0ec49197f2653e4f5b5b248b0b772e39c',
+    });
+  });
+
+  it('should sign for the configured service', async () => {
+    const headers = await signRequestWithAuth(
+      { method: 'GET', url: 'https://search-logs.us-east-1.es.amazonaws.com/_plugins/_ml/tasks/abc' },
+      { type: 'aws-sigv4', awsRegion: 'us-east-1', awsService: 'es', awsAccessKeyId: 'AKID', awsSecretAccessKey: 'secret' }
+    );
+
+    expect(headers.Authorization).toContain('Credential=AKID/20260115/us-east-1/es/aws4_request');
+  });
+});
+
+describe('resolveAwsCredentials', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.AWS_ACCESS_KEY_ID;
+    delete process.env.AWS_SECRET_ACCESS_KEY;
+    delete process.env.AWS_SESSION_TOKEN;
+    mockProviderChain.mockReset();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should prefer the keys of the auth config', async () => {
+    process.env.AWS_ACCESS_KEY_ID = 'AKID_ENV';
+    process.env.AWS_SECRET_ACCESS_KEY = 'secret-env';
+
+    await expect(
+      resolveAwsCredentials({ type: 'aws-sigv4', awsAccessKeyId: 'AKID', awsSecretAccessKey: 'secret', awsSessionToken: 'token' })
+    ).resolves.toEqual({ accessKeyId: 'AKID', secretAccessKey: 'secret', sessionToken: 'token' });
+  });
+
+  it('should fall back to the AWS environment variables', async () => {
+    process.env.AWS_ACCESS_KEY_ID = 'AKID_ENV';
+    process.env.AWS_SECRET_ACCESS_KEY = 'secret-env';
+    process.env.AWS_SESSION_TOKEN = 'token-env';
+
+    await expect(resolveAwsCredentials({ type: 'aws-sigv4' })).resolves.toEqual({
+      accessKeyId: 'AKID_ENV',
+      secretAccessKey: 'secret-env',
+      sessionToken: 'token-env',
+    });
+    expect(mockProviderChain).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the default provider chain', async () => {
+    mockProviderChain.mockResolvedValue({ accessKeyId: 'AKID_PROFILE', secretAccessKey: 'secret-profile', expiration: new Date() });
+
+    await expect(resolveAwsCredentials({ type: 'aws-sigv4' })).resolves.toEqual({
+      accessKeyId: 'AKID_PROFILE',
+      secretAccessKey: 'secret-profile',
+      sessionToken: undefined,
+    });
+  });
+
+  it('should fail when no credentials are found', async () => {
+    mockProviderChain.mockRejectedValue(new Error('Could not load credentials from any providers'));
+
+    await expect(resolveAwsCredentials({ type: 'aws-sigv4' })).rejects.toThrow(
+      'AWS SigV4 auth found no AWS credentials: Could not load credentials from any providers'
+    );
+  });
+});
+
+describe('resolveAwsRegion', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.AWS_REGION;
+    delete process.env.AWS_DEFAULT_REGION;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should prefer the region of the auth config', () => {
+    process.env.AWS_REGION = 'eu-west-1';
+    expect(resolveAwsRegion({ type: 'aws-sigv4', awsRegion: 'us-west-2' })).toBe('us-west-2');
+  });
+
+  it('should fall back to AWS_REGION and AWS_DEFAULT_REGION', () => {
+    process.env.AWS_DEFAULT_REGION = 'ap-south-1';
+    expect(resolveAwsRegion({ type: 'aws-sigv4' })).toBe('ap-south-1');
+
+    process.env.AWS_REGION = 'eu-west-1';
+    expect(resolveAwsRegion({ type: 'aws-sigv4' })).toBe('eu-west-1');
+  });
+
+  it('should fail without a region', () => {
+    expect(() => resolveAwsRegion({ type: 'aws-sigv4' })).toThrow('AWS SigV4 auth needs awsRegion (or AWS_REGION)');
+  });
+});
@@ -12,6 +12,8 @@ import type {
   ConnectorProgressCallback,
   ConnectorRawEventCallback,
 } from '@/services/connectors/types';
+import type { SigV4Request } from '@/services/connectors/auth/sigv4';
+import { clearOAuth2TokenCache } from '@/services/connectors/auth/oauth2';
 import type { TrajectoryStep } from '@/types';
 
 // Concrete implementation for testing abstract BaseConnector
@@ -46,6 +48,10 @@ class TestConnector extends BaseConnector {
     return this.buildAuthHeaders(auth);
   }
 
+  public testBuildRequestHeaders(auth: ConnectorAuth, request: SigV4Request): Promise<Record<string, string>> {
+    return this.buildRequestHeaders(auth, request);
+  }
+
   public testBuildAuthEnv(auth: ConnectorAuth): Record<string, string> {
     return this.buildAuthEnv(auth);
   }
@@ -141,6 +147,65 @@ describe('BaseConnector', () => {
     });
   });
 
+  describe('buildRequestHeaders', () => {
+    const sigv4Auth: ConnectorAuth = {
+      type: 'aws-sigv4',
+      awsRegion: 'us-west-2',
+      awsService: 'execute-api',
+      awsAccessKeyId: 'AKIDEXAMPLE',
+      awsSecretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+      headers: { 'X-Team': 'rca' },
+    };
+
+    it('should return the auth headers for other auth types', async () => {
+      const headers = await connector.testBuildRequestHeaders(
+        { type: 'bearer', token: 'my-token' },
+        { method: 'POST', url: 'https://agent.example.com/run', body: '{}' }
+      );
+
+      expect(headers).toEqual({ Authorization: 'Bearer my-token' });
+    });
+
+    it('should add the OAuth2 access token, shared by all connectors', async () => {
+      clearOAuth2TokenCache();
+      const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ access_token: 'gateway-token', expires_in: 3600 }),
+      } as Response);
+      const oauth2Auth: ConnectorAuth = {
+        type: 'oauth2',
+        oauth2TokenUrl: 'https://auth.example.com/oauth2/token',
+        oauth2ClientId: 'agent-health',
+        oauth2ClientSecret: 's3cret',
+        headers: { 'X-Team': 'rca' },
+      };
+      const request = { method: 'POST', url: 'https://agents.example.com/run', body: '{}' };
+
+      const headers = await connector.testBuildRequestHeaders(oauth2Auth, request);
+      const otherHeaders = await new TestConnector().testBuildRequestHeaders(oauth2Auth, request);
+
+      expect(headers).toEqual({ Authorization: 'Bearer gateway-token', 'X-Team': 'rca' });
+      expect(otherHeaders).toEqual(headers);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      fetchSpy.mockRestore();
+    });
+
+    it('should add the SigV4 signature of the request', async () => {
+      const headers = await connector.testBuildRequestHeaders(sigv4Auth, {
+        method: 'POST',
+        url: 'https://abc123.execute-api.us-west-2.amazonaws.com/prod/agent',
+        body: '{}',
+      });
+
+      expect(headers['X-Team']).toBe('rca');
+      expect(headers['X-Amz-Date']).toMatch(/^\d{8}T\d{6}Z$/);
+      expect(headers['X-Amz-Content-Sha256']).toBe('44136fa355b3678a1146ad16f7e8649e94fb4fc21fe77e8310c060f61caaff8a');
+      expect(headers['Authorization']).toMatch(
+        /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/us-west-2\/execute-api\/aws4_request, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+      );
+    });
+  });
+
   describe('buildAuthEnv', () => {
     it('should return empty env for non-aws auth', () => {
       const env = connector.testBuildAuthEnv({ type: 'none' });
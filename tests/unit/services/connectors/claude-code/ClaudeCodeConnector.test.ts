@@ -386,6 +386,20 @@ describe('ClaudeCodeConnector', () => {
     });
   });
 
+  describe('createRawEventParser', () => {
+    it('should parse recorded stream-json output split across chunks', () => {
+      const parser = connector.createRawEventParser({ exitCode: 0 });
+
+      const partial = parser.push({ type: 'stdout', data: '{"type":"assistant","message":{"content":[{"type":"text",' });
+      const completed = parser.push({ type: 'stdout', data: '"text":"Hello"}]}}\n{"type":"result","result":"Done"}' });
+      const flushed = parser.finish();
+
+      expect(partial).toEqual([]);
+      expect(completed.map(s => [s.type, s.content])).toEqual([['assistant', 'Hello']]);
+      expect(flushed.map(s => [s.type, s.content])).toEqual([['response', 'Done']]);
+    });
+  });
+
   describe('healthCheck', () => {
     it('should check for claude command', async () => {
       const healthProcess = new EventEmitter();
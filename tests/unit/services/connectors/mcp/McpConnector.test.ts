@@ -0,0 +1,311 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  McpConnector,
+  mcpConnector,
+  parseMcpEndpoint,
+  toAgentToolDefinition,
+} from '@/services/connectors/mcp/McpConnector';
+import type { ConnectorRequest } from '@/services/connectors/types';
+import type { TestCase, TrajectoryStep } from '@/types';
+
+// An MCP server speaking the stdio transport, with an agent tool that reports
+// progress and logs before answering, and a tool that never answers
+const FAKE_SERVER = `
+const readline = require('readline');
+const send = message => process.stdout.write(JSON.stringify(message) + '\\n');
+const tools = [
+  {
+    name: 'ask_agent',
+    description: 'Ask the RCA agent',
+    inputSchema: { type: 'object', properties: { question: { type: 'string' } }, required: ['question'] },
+  },
+  { name: 'search_logs', description: 'Search logs', inputSchema: { type: 'object', properties: { query: { type: 'string' } } } },
+  { name: 'hang', inputSchema: { type: 'object', properties: {} } },
+];
+console.log('fake-agent starting');
+readline.createInterface({ input: process.stdin }).on('line', line => {
+  const message = JSON.parse(line);
+  const reply = result => send({ jsonrpc: '2.0', id: message.id, result });
+  switch (message.method) {
+    case 'initialize':
+      return reply({ protocolVersion: '2025-06-18', capabilities: { tools: {}, logging: {} }, serverInfo: { name: 'fake-agent', version: '1.0.0' } });
+    case 'logging/setLevel':
+      return reply({});
+    case 'tools/list':
+      return reply({ tools });
+    case 'tools/call': {
+      const { name, arguments: args, _meta } = message.params;
+      if (name === 'hang') return;
+      if (name === 'search_logs') {
+        return reply({ content: [{ type: 'text', text: 'Index is read-only' }], isError: true });
+      }
+      send({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: _meta.progressToken, progress: 1, message: 'Checking cluster health' } });
+      send({ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: 'Found 2 unassigned replicas' } });
+      return reply({ content: [{ type: 'text', text: 'You asked: ' + args.question }] });
+    }
+  }
+});
+`;
+
+function sseResponse(messages: any[], headers: Record<string, string> = {}) {
+  const encoder = new TextEncoder();
+  const body = messages.map(m => `event: message\ndata: ${JSON.stringify(m)}\n\n`).join('');
+  return {
+    ok: true,
+    headers: new Headers({ 'content-type': 'text/event-stream', ...headers }),
+    body: new ReadableStream({
+      start(controller) {
+        controller.enqueue(encoder.encode(body));
+        controller.close();
+      },
+    }),
+  };
+}
+
+function jsonResponse(message: any, headers: Record<string, string> = {}) {
+  return {
+    ok: true,
+    headers: new Headers({ 'content-type': 'application/json', ...headers }),
+    json: jest.fn().mockResolvedValue(message),
+  };
+}
+
+const accepted = () => ({ ok: true, status: 202, headers: new Headers(), body: null });
+
+describe('parseMcpEndpoint', () => {
+  it('should read the transport and the entry tool', () => {
+    expect(parseMcpEndpoint('http://localhost:3000/mcp#ask_agent')).toEqual({
+      server: 'http://localhost:3000/mcp',
+      transport: 'http',
+      entryTool: 'ask_agent',
+    });
+    expect(parseMcpEndpoint('npx -y my-agent-server')).toEqual({
+      server: 'npx -y my-agent-server',
+      transport: 'stdio',
+      entryTool: undefined,
+    });
+  });
+
+  it('should reject an endpoint without a server', () => {
+    expect(() => parseMcpEndpoint('#ask_agent')).toThrow('names no server URL or command');
+  });
+});
+
+describe('toAgentToolDefinition', () => {
+  it('should convert the input schema to tool parameters', () => {
+    expect(toAgentToolDefinition({
+      name: 'search_logs',
+      title: 'Search logs',
+      inputSchema: { type: 'object', properties: { query: { type: 'string' } }, required: ['query'] },
+    })).toEqual({
+      name: 'search_logs',
+      description: 'Search logs',
+      parameters: { type: 'object', properties: { query: { type: 'string' } }, required: ['query'] },
+    });
+    expect(toAgentToolDefinition({ name: 'ping' }).parameters).toEqual({ type: 'object', properties: {} });
+  });
+});
+
+describe('McpConnector', () => {
+  let connector: McpConnector;
+  let tempDir: string;
+  let server: string;
+  const testCase = {
+    id: 'tc-1',
+    name: 'Test Case',
+    initialPrompt: 'Why is the cluster yellow?',
+    context: [],
+    expectedOutcomes: [],
+    labels: [],
+  } as unknown as TestCase;
+  const request: ConnectorRequest = { testCase, modelId: 'claude-sonnet' };
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mcp-test-'));
+    writeFileSync(join(tempDir, 'server.cjs'), FAKE_SERVER);
+    server = `node "${join(tempDir, 'server.cjs')}"`;
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    connector = new McpConnector();
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('properties', () => {
+    it('should have correct type and name', () => {
+      expect(connector.type).toBe('mcp');
+      expect(connector.name).toBe('MCP Server');
+      expect(connector.supportsStreaming).toBe(true);
+    });
+
+    it('should export a default instance', () => {
+      expect(mcpConnector).toBeInstanceOf(McpConnector);
+    });
+  });
+
+  describe('buildPayload', () => {
+    it('should put the context before the question', () => {
+      const payload = connector.buildPayload({
+        ...request,
+        testCase: { ...testCase, context: [{ description: 'Cluster', value: 'logs-prod' }] },
+      });
+
+      expect(payload).toEqual({ prompt: 'Context:\nCluster: logs-prod\n\nQuestion: Why is the cluster yellow?' });
+    });
+  });
+
+  describe('stdio transport', () => {
+    it('should stream notifications and answer with the tool result', async () => {
+      const progress: TrajectoryStep[] = [];
+      const rawEvents: any[] = [];
+
+      const response = await connector.execute(`${server}#ask_agent`, request, { type: 'none' }, s => progress.push(s), e => rawEvents.push(e));
+
+      expect(response.trajectory.map(s => [s.type, s.content])).toEqual([
+        ['assistant', 'Checking cluster health'],
+        ['thinking', 'Found 2 unassigned replicas'],
+        ['response', 'You asked: Why is the cluster yellow?'],
+      ]);
+      expect(progress).toEqual(response.trajectory);
+      expect(rawEvents.map(e => e.method ?? 'result')).toEqual(['notifications/progress', 'notifications/message', 'result']);
+      expect(response.metadata).toEqual(expect.objectContaining({
+        server: { name: 'fake-agent', version: '1.0.0' },
+        entryTool: 'ask_agent',
+      }));
+      expect(response.metadata?.tools.map((t: any) => t.name)).toEqual(['search_logs', 'hang']);
+    });
+
+    it('should discover the tools of the server', async () => {
+      const tools = await connector.discoverTools(server, { type: 'none' });
+
+      expect(tools.map(t => t.name)).toEqual(['ask_agent', 'search_logs', 'hang']);
+      expect(tools[0].parameters.required).toEqual(['question']);
+    });
+
+    it('should require an entry tool when the server has several tools', async () => {
+      await expect(connector.execute(server, request, { type: 'none' }))
+        .rejects.toThrow(`MCP server exposes 3 tools (ask_agent, search_logs, hang); name the agent tool in the endpoint, e.g. ${server}#<tool>`);
+      await expect(connector.execute(`${server}#missing`, request, { type: 'none' }))
+        .rejects.toThrow("MCP server has no tool 'missing' (tools: ask_agent, search_logs, hang)");
+    });
+
+    it('should fail when the tool reports an error', async () => {
+      await expect(connector.execute(`${server}#search_logs`, request, { type: 'none' }))
+        .rejects.toThrow('MCP tool search_logs failed: Index is read-only');
+    });
+
+    it('should stop the call when the request is aborted', async () => {
+      const abortController = new AbortController();
+      setTimeout(() => abortController.abort(new Error('Test case timed out after 100ms')), 100);
+
+      await expect(connector.execute(`${server}#hang`, { ...request, signal: abortController.signal }, { type: 'none' }))
+        .rejects.toThrow('Test case timed out after 100ms');
+    });
+
+    it('should report a server that fails to start', async () => {
+      await expect(connector.discoverTools('node -e "process.exit(3)"', { type: 'none' }))
+        .rejects.toThrow('MCP server exited with code 3');
+      await expect(connector.healthCheck('node -e "process.exit(3)"', { type: 'none' })).resolves.toBe(false);
+    });
+  });
+
+  describe('streamable HTTP transport', () => {
+    beforeEach(() => {
+      jest.spyOn(global, 'fetch').mockImplementation();
+    });
+
+    it('should keep the session and read SSE responses', async () => {
+      const fetchMock = global.fetch as jest.Mock;
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(
+          { jsonrpc: '2.0', id: 1, result: { protocolVersion: '2025-06-18', capabilities: {}, serverInfo: { name: 'http-agent' } } },
+          { 'mcp-session-id': 'session-1' }
+        ))
+        .mockResolvedValueOnce(accepted())
+        .mockResolvedValueOnce(jsonResponse({ jsonrpc: '2.0', id: 2, result: { tools: [{ name: 'chat', inputSchema: { type: 'object', properties: { message: { type: 'string' } } } }] } }))
+        .mockResolvedValueOnce(sseResponse([
+          { jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: { message: 'Querying _cat/shards' } } },
+          { jsonrpc: '2.0', id: 3, result: { content: [], structuredContent: { status: 'yellow' } } },
+        ]))
+        .mockResolvedValue(accepted());
+
+      const response = await connector.execute(
+        'http://localhost:3000/mcp',
+        request,
+        { type: 'bearer', token: 'secret' }
+      );
+
+      expect(response.trajectory.map(s => [s.type, s.content])).toEqual([
+        ['thinking', 'Querying _cat/shards'],
+        ['response', '{\n  "status": "yellow"\n}'],
+      ]);
+
+      const call = JSON.parse(fetchMock.mock.calls[3][1].body);
+      expect(call).toEqual(expect.objectContaining({ method: 'tools/call' }));
+      expect(call.params).toEqual(expect.objectContaining({ name: 'chat', arguments: { message: 'Why is the cluster yellow?' } }));
+      expect(fetchMock.mock.calls[3][1].headers).toEqual(expect.objectContaining({
+        Authorization: 'Bearer secret',
+        'Mcp-Session-Id': 'session-1',
+        'MCP-Protocol-Version': '2025-06-18',
+      }));
+      // The session is ended on close
+      expect(fetchMock).toHaveBeenLastCalledWith('http://localhost:3000/mcp', expect.objectContaining({ method: 'DELETE' }));
+    });
+
+    it('should throw an error carrying the HTTP status', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 401,
+        text: jest.fn().mockResolvedValue('Unauthorized'),
+      });
+
+      await expect(connector.execute('http://localhost:3000/mcp', request, { type: 'none' }))
+        .rejects.toThrow('MCP request failed: 401 - Unauthorized');
+    });
+
+    it('should use the tool arguments of a beforeRequest hook', async () => {
+      const fetchMock = global.fetch as jest.Mock;
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ jsonrpc: '2.0', id: 1, result: { capabilities: {} } }))
+        .mockResolvedValueOnce(accepted())
+        .mockResolvedValueOnce(jsonResponse({ jsonrpc: '2.0', id: 2, result: { tools: [{ name: 'chat' }] } }))
+        .mockResolvedValueOnce(jsonResponse({ jsonrpc: '2.0', id: 3, result: { content: [{ type: 'text', text: 'ok' }] } }));
+
+      await connector.execute(
+        'http://localhost:3000/mcp',
+        { ...request, payload: { prompt: 'ignored', arguments: { message: 'hi', verbose: true } } },
+        { type: 'none' }
+      );
+
+      expect(JSON.parse(fetchMock.mock.calls[3][1].body).params.arguments).toEqual({ message: 'hi', verbose: true });
+    });
+  });
+
+  describe('parseResponse', () => {
+    it('should parse recorded messages', () => {
+      const steps = connector.parseResponse([
+        { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 't', progress: 0 } },
+        { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 't', progress: 1, message: 'Searching' } },
+        { jsonrpc: '2.0', result: { content: [{ type: 'text', text: 'Done' }, { type: 'image', data: '...' }] } },
+      ]);
+
+      expect(steps.map(s => [s.type, s.content])).toEqual([['assistant', 'Searching'], ['response', 'Done']]);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { OpenAIChatConnector, openAIChatConnector } from '@/services/connectors/openai-chat/OpenAIChatConnector';
+import type { ConnectorRequest, ConnectorAuth } from '@/services/connectors/types';
+import type { TestCase, TrajectoryStep } from '@/types';
+
+// Helper to create a mock ReadableStream
+function createMockReadableStream(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let index = 0;
+
+  return new ReadableStream({
+    pull(controller) {
+      if (index < chunks.length) {
+        controller.enqueue(encoder.encode(chunks[index]));
+        index++;
+      } else {
+        controller.close();
+      }
+    },
+  });
+}
+
+// Helper to create SSE formatted chat completion chunks
+function sseData(data: any): string {
+  return `data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`;
+}
+
+function chunk(delta: Record<string, any>, finishReason: string | null = null) {
+  return { id: 'chatcmpl-1', model: 'gpt-4o', choices: [{ index: 0, delta, finish_reason: finishReason }] };
+}
+
+function mockStreamResponse(chunks: string[]) {
+  return {
+    ok: true,
+    headers: new Headers({ 'content-type': 'text/event-stream; charset=utf-8' }),
+    body: createMockReadableStream(chunks),
+  };
+}
+
+describe('OpenAIChatConnector', () => {
+  let connector: OpenAIChatConnector;
+  let mockTestCase: TestCase;
+  let mockAuth: ConnectorAuth;
+
+  beforeEach(() => {
+    connector = new OpenAIChatConnector();
+    mockTestCase = {
+      id: 'tc-123',
+      name: 'Test Case',
+      initialPrompt: 'Why is the cluster yellow?',
+      context: [{ description: 'Cluster Name', value: 'test-cluster' }],
+      expectedOutcomes: ['Identify unassigned replicas'],
+      labels: [],
+      tools: [{
+        name: 'cluster_health',
+        description: 'Get the cluster health',
+        parameters: { type: 'object', properties: { index: { type: 'string', description: 'Index name' } } },
+      }],
+      currentVersion: 1,
+      versions: [],
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    } as unknown as TestCase;
+    mockAuth = { type: 'bearer', token: 'sk-test' };
+    jest.spyOn(global, 'fetch').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('properties', () => {
+    it('should have correct type and name', () => {
+      expect(connector.type).toBe('openai-chat');
+      expect(connector.name).toBe('OpenAI Chat Completions');
+      expect(connector.supportsStreaming).toBe(true);
+    });
+  });
+
+  describe('buildPayload', () => {
+    it('should send the context as a system message and the tools as functions', () => {
+      const payload = connector.buildPayload({ testCase: mockTestCase, modelId: 'gpt-4o' });
+
+      expect(payload.model).toBe('gpt-4o');
+      expect(payload.messages).toEqual([
+        { role: 'system', content: '## Context\n\n**Cluster Name:**\ntest-cluster' },
+        { role: 'user', content: 'Why is the cluster yellow?' },
+      ]);
+      expect(payload.tools).toEqual([{
+        type: 'function',
+        function: {
+          name: 'cluster_health',
+          description: 'Get the cluster health',
+          parameters: { type: 'object', properties: { index: { type: 'string', description: 'Index name' } } },
+        },
+      }]);
+      expect(payload.stream).toBe(true);
+      expect(payload.stream_options).toEqual({ include_usage: true });
+    });
+
+    it('should send the conversation of a multi-turn run', () => {
+      const payload = connector.buildPayload({
+        testCase: { ...mockTestCase, context: [], tools: undefined },
+        modelId: 'gpt-4o',
+        messages: [
+          { id: 'm1', role: 'user', content: 'Why is the cluster yellow?' },
+          { id: 'm2', role: 'assistant', content: 'Replicas are unassigned.' },
+          { id: 'm3', role: 'user', content: 'How do I fix it?' },
+        ],
+      });
+
+      expect(payload.messages).toEqual([
+        { role: 'user', content: 'Why is the cluster yellow?' },
+        { role: 'assistant', content: 'Replicas are unassigned.' },
+        { role: 'user', content: 'How do I fix it?' },
+      ]);
+      expect(payload.tools).toBeUndefined();
+    });
+  });
+
+  describe('execute', () => {
+    const request = (): ConnectorRequest => ({ testCase: mockTestCase, modelId: 'gpt-4o' });
+
+    it('should stream tool calls and content into trajectory steps', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(mockStreamResponse([
+        sseData(chunk({ role: 'assistant', content: 'Let me check ' })),
+        sseData(chunk({ content: 'the cluster.' })),
+        sseData(chunk({ tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'cluster_health', arguments: '' } }] })),
+        // An SSE line split across network chunks
+        'data: {"id":"chatcmpl-1","choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\\"index\\":',
+        '\\"logs\\"}"}}]},"finish_reason":null}]}\n\n',
+        sseData(chunk({}, 'tool_calls')),
+        sseData({ id: 'chatcmpl-1', model: 'gpt-4o', choices: [], usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 } }),
+        sseData('[DONE]'),
+      ]));
+      const progress: TrajectoryStep[] = [];
+      const rawEvents: any[] = [];
+
+      const response = await connector.execute(
+        'http://localhost:8000/v1/chat/completions',
+        request(),
+        mockAuth,
+        step => progress.push(step),
+        event => rawEvents.push(event)
+      );
+
+      expect(global.fetch).toHaveBeenCalledWith('http://localhost:8000/v1/chat/completions', expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({ Authorization: 'Bearer sk-test', Accept: 'text/event-stream' }),
+      }));
+      expect(response.trajectory.map(s => [s.type, s.content])).toEqual([
+        ['assistant', 'Let me check the cluster.'],
+        ['action', 'Calling cluster_health...'],
+      ]);
+      expect(response.trajectory[1]).toEqual(expect.objectContaining({ toolName: 'cluster_health', toolArgs: { index: 'logs' } }));
+      expect(progress).toEqual(response.trajectory);
+      expect(rawEvents).toHaveLength(6);
+      expect(response.runId).toBe('chatcmpl-1');
+      expect(response.usage).toEqual({ inputTokens: 120, outputTokens: 30, modelId: 'gpt-4o' });
+      expect(response.metadata).toEqual({
+        model: 'gpt-4o',
+        finishReason: 'tool_calls',
+        usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 },
+      });
+    });
+
+    it('should emit the content of a stream that ends without a finish reason', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(mockStreamResponse([
+        sseData(chunk({ reasoning_content: 'Yellow means unassigned replicas.' })),
+        sseData(chunk({ content: 'One replica is unassigned.' })),
+      ]));
+
+      const response = await connector.execute('http://localhost:8000/v1/chat/completions', request(), mockAuth);
+
+      expect(response.trajectory.map(s => [s.type, s.content])).toEqual([
+        ['thinking', 'Yellow means unassigned replicas.'],
+        ['response', 'One replica is unassigned.'],
+      ]);
+      expect(response.usage).toBeUndefined();
+    });
+
+    it('should parse a non-streaming completion', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: jest.fn().mockResolvedValue({
+          id: 'chatcmpl-2',
+          model: 'gpt-4o',
+          choices: [{
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: null,
+              tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'cluster_health', arguments: '{}' } }],
+            },
+            finish_reason: 'tool_calls',
+          }],
+          usage: { prompt_tokens: 50, completion_tokens: 10 },
+        }),
+      });
+
+      const response = await connector.execute(
+        'http://localhost:8000/v1/chat/completions',
+        { ...request(), payload: { model: 'gpt-4o', messages: [], stream: false } },
+        mockAuth
+      );
+
+      expect(global.fetch).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+        headers: expect.objectContaining({ Accept: 'application/json' }),
+      }));
+      expect(response.trajectory).toEqual([
+        expect.objectContaining({ type: 'action', toolName: 'cluster_health', toolArgs: {} }),
+      ]);
+      expect(response.usage).toEqual({ inputTokens: 50, outputTokens: 10, modelId: 'gpt-4o' });
+    });
+
+    it('should throw an error carrying the HTTP status', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 429,
+        text: jest.fn().mockResolvedValue('Rate limit reached'),
+      });
+
+      await expect(connector.execute('http://localhost:8000/v1/chat/completions', request(), mockAuth))
+        .rejects.toThrow('OpenAI chat request failed: 429 - Rate limit reached');
+    });
+
+    it('should throw on an error in the stream', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(mockStreamResponse([
+        sseData({ error: { message: 'The model is overloaded' } }),
+      ]));
+
+      await expect(connector.execute('http://localhost:8000/v1/chat/completions', request(), mockAuth))
+        .rejects.toThrow('OpenAI chat stream error: The model is overloaded');
+    });
+  });
+
+  describe('parseResponse', () => {
+    it('should parse stored stream chunks', () => {
+      const steps = connector.parseResponse([
+        chunk({ content: 'Cluster is ' }),
+        chunk({ content: 'green' }, 'stop'),
+      ]);
+
+      expect(steps.map(s => [s.type, s.content])).toEqual([['response', 'Cluster is green']]);
+    });
+
+    it('should keep malformed tool arguments', () => {
+      const steps = connector.parseResponse({
+        choices: [{ message: { tool_calls: [{ function: { name: 'search', arguments: '{"q": ' } }] }, finish_reason: 'tool_calls' }],
+      });
+
+      expect(steps[0].toolArgs).toEqual({ arguments: '{"q": ' });
+    });
+  });
+
+  describe('default instance', () => {
+    it('should export a default instance', () => {
+      expect(openAIChatConnector).toBeInstanceOf(OpenAIChatConnector);
+    });
+  });
+});
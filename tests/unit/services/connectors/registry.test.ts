@@ -110,6 +110,19 @@ describe('ConnectorRegistry', () => {
       expect(connector.type).toBe('mock');
     });
 
+    it('should return replay connector for replay:// endpoint', () => {
+      connectorRegistry.register(createMockConnector('replay', 'Replay'));
+      const agent: AgentConfigWithConnector = {
+        key: 'demo-replay',
+        name: 'Demo (replay)',
+        endpoint: 'replay://demo?speed=0',
+        models: ['test-model'],
+      };
+
+      const connector = connectorRegistry.getForAgent(agent);
+      expect(connector.type).toBe('replay');
+    });
+
     it('should return specified connector type', () => {
       const agent: AgentConfigWithConnector = {
         key: 'test',
@@ -0,0 +1,199 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { TestCase, TrajectoryStep } from '@/types';
+import type { Cassette, ConnectorRegistry, ConnectorRequest } from '@/services/connectors/types';
+
+const mockLoadCassette = jest.fn();
+jest.mock('@/services/connectors/replay/cassetteStore', () => ({
+  getCassettePath: (dir: string, key: any) => `${dir}/${key.agentKey}/${key.testCaseId}@v${key.testCaseVersion}.json`,
+  loadCassette: (...args: any[]) => mockLoadCassette(...args),
+}));
+
+import { ReplayConnector, parseReplayEndpoint } from '@/services/connectors/replay/ReplayConnector';
+import { AGUIStreamingConnector } from '@/services/connectors/agui/AGUIStreamingConnector';
+import { RESTConnector } from '@/services/connectors/rest/RESTConnector';
+import { MockConnector } from '@/services/connectors/mock/MockConnector';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const recorders: Record<string, any> = {
+  'agui-streaming': new AGUIStreamingConnector(),
+  rest: new RESTConnector(),
+  mock: new MockConnector(),
+};
+const registry = { get: (type: string) => recorders[type] } as unknown as ConnectorRegistry;
+
+const testCase = { id: 'tc-1', name: 'Test Case 1', currentVersion: 2, initialPrompt: 'Why is the cluster yellow?' } as TestCase;
+
+const aguiEvents = [
+  { type: 'RUN_STARTED', runId: 'run-1', threadId: 'thread-1' },
+  { type: 'TEXT_MESSAGE_START', messageId: 'm1', role: 'assistant' },
+  { type: 'TEXT_MESSAGE_CONTENT', messageId: 'm1', delta: 'Node-3 is out of disk.' },
+  { type: 'TEXT_MESSAGE_END', messageId: 'm1' },
+  { type: 'RUN_FINISHED', runId: 'run-1', threadId: 'thread-1' },
+];
+
+function createCassette(overrides: Partial<Cassette> = {}): Cassette {
+  return {
+    testCaseId: 'tc-1',
+    testCaseVersion: 2,
+    agentKey: 'ml-commons',
+    connectorType: 'agui-streaming',
+    modelId: 'claude-sonnet',
+    recordedAt: '2026-01-01T00:00:00.000Z',
+    exchanges: [{
+      runId: 'run-1',
+      durationMs: 1000,
+      rawEvents: aguiEvents.map((event, i) => ({ offsetMs: i * 200, event })),
+      usage: { inputTokens: 100, outputTokens: 20 },
+    }],
+    ...overrides,
+  };
+}
+
+const request: ConnectorRequest = { testCase, modelId: 'claude-sonnet' };
+
+describe('parseReplayEndpoint', () => {
+  it('should read the agent key and speed', () => {
+    expect(parseReplayEndpoint('replay://ml-commons')).toEqual({ agentKey: 'ml-commons', speed: 1 });
+    expect(parseReplayEndpoint('replay://ml-commons?speed=0')).toEqual({ agentKey: 'ml-commons', speed: 0 });
+    expect(parseReplayEndpoint('replay://ml-commons?speed=2.5')).toEqual({ agentKey: 'ml-commons', speed: 2.5 });
+  });
+
+  it('should reject malformed endpoints', () => {
+    expect(() => parseReplayEndpoint('http://ml-commons')).toThrow('Replay endpoint must look like replay://<agent key>');
+    expect(() => parseReplayEndpoint('replay://')).toThrow('names no recorded agent');
+    expect(() => parseReplayEndpoint('replay://ml-commons?speed=fast')).toThrow('Replay speed must be a non-negative number');
+  });
+});
+
+describe('ReplayConnector', () => {
+  let connector: ReplayConnector;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    connector = new ReplayConnector({ cassetteDir: 'cassettes', registry });
+    mockLoadCassette.mockResolvedValue(createCassette());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should replay AG-UI events through the converter', async () => {
+    const steps: TrajectoryStep[] = [];
+    const rawEvents: any[] = [];
+
+    const response = await connector.execute('replay://ml-commons?speed=0', request, { type: 'none' }, s => steps.push(s), e => rawEvents.push(e));
+
+    expect(mockLoadCassette).toHaveBeenCalledWith('cassettes', { testCaseId: 'tc-1', testCaseVersion: 2, agentKey: 'ml-commons' });
+    expect(rawEvents).toEqual(aguiEvents);
+    expect(response.trajectory).toEqual(steps);
+    expect(response.trajectory.map(s => s.content)).toContain('Node-3 is out of disk.');
+    expect(response.runId).toBe('run-1');
+    expect(response.usage).toEqual({ inputTokens: 100, outputTokens: 20 });
+    expect(response.metadata?.replay).toEqual(expect.objectContaining({ connectorType: 'agui-streaming', speed: 0 }));
+  });
+
+  it('should keep the recorded timing, divided by the speed', async () => {
+    jest.useFakeTimers();
+    const rawEvents: any[] = [];
+
+    const replay = connector.execute('replay://ml-commons?speed=2', request, { type: 'none' }, undefined, e => rawEvents.push(e));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(rawEvents).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(rawEvents).toHaveLength(2);
+
+    await jest.advanceTimersByTimeAsync(300);
+    expect(rawEvents).toHaveLength(5);
+
+    // The exchange lasted 1000ms, so the replay ends after 500ms
+    let finished = false;
+    replay.then(() => { finished = true; });
+    await jest.advanceTimersByTimeAsync(99);
+    expect(finished).toBe(false);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(finished).toBe(true);
+  });
+
+  it('should replay a REST response through the REST parser', async () => {
+    mockLoadCassette.mockResolvedValue(createCassette({
+      connectorType: 'rest',
+      exchanges: [{ runId: 'rest-1', durationMs: 50, rawEvents: [{ offsetMs: 50, event: { response: 'Cluster is green' } }] }],
+    }));
+
+    const response = await connector.execute('replay://ml-commons?speed=0', request, { type: 'none' });
+
+    expect(response.trajectory.map(s => [s.type, s.content])).toEqual([['response', 'Cluster is green']]);
+    expect(response.runId).toBe('rest-1');
+  });
+
+  it('should fall back to parseResponse for connectors without a raw event parser', async () => {
+    const step = { id: 's1', type: 'response', content: 'Mocked', timestamp: 0 };
+    mockLoadCassette.mockResolvedValue(createCassette({
+      connectorType: 'mock',
+      exchanges: [{ runId: null, durationMs: 10, rawEvents: [{ offsetMs: 10, event: { type: 'MOCK_STEP', step } }] }],
+    }));
+
+    const response = await connector.execute('replay://ml-commons?speed=0', request, { type: 'none' });
+
+    expect(response.trajectory).toEqual([step]);
+  });
+
+  it('should replay the exchange of the conversation turn', async () => {
+    const cassette = createCassette();
+    cassette.exchanges.push({
+      runId: 'run-2',
+      durationMs: 10,
+      rawEvents: [{ offsetMs: 0, event: { type: 'RUN_STARTED', runId: 'run-2', threadId: 'thread-1' } }],
+    });
+    mockLoadCassette.mockResolvedValue(cassette);
+
+    const response = await connector.execute('replay://ml-commons?speed=0', {
+      ...request,
+      messages: [
+        { id: 'm1', role: 'user', content: 'Why is the cluster yellow?' },
+        { id: 'm2', role: 'assistant', content: 'Node-3 is out of disk.' },
+        { id: 'm3', role: 'user', content: 'How do I fix it?' },
+      ],
+    }, { type: 'none' });
+
+    expect(response.runId).toBe('run-2');
+  });
+
+  it('should fail when no cassette was recorded', async () => {
+    mockLoadCassette.mockResolvedValue(null);
+
+    await expect(connector.execute('replay://ml-commons', request, { type: 'none' }))
+      .rejects.toThrow('No cassette recorded for test case tc-1 v2 and agent ml-commons (cassettes/ml-commons/tc-1@v2.json)');
+  });
+
+  it('should fail when the cassette has no recording of the turn', async () => {
+    await expect(connector.execute('replay://ml-commons', {
+      ...request,
+      messages: [
+        { id: 'm1', role: 'user', content: 'Why is the cluster yellow?' },
+        { id: 'm2', role: 'assistant', content: 'Node-3 is out of disk.' },
+        { id: 'm3', role: 'user', content: 'How do I fix it?' },
+      ],
+    }, { type: 'none' })).rejects.toThrow('has no recording of turn 2');
+  });
+
+  it('should stop replaying when the request is aborted', async () => {
+    const abortController = new AbortController();
+    const rawEvents: any[] = [];
+
+    const replay = connector.execute('replay://ml-commons', { ...request, signal: abortController.signal }, { type: 'none' }, undefined, e => rawEvents.push(e));
+    abortController.abort(new Error('Test case timed out after 100ms'));
+
+    await expect(replay).rejects.toThrow('Test case timed out after 100ms');
+    expect(rawEvents.length).toBeLessThan(aguiEvents.length);
+  });
+});
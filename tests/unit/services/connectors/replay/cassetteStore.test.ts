@@ -0,0 +1,55 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { existsSync, mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { getCassettePath, loadCassette, saveCassette } from '@/services/connectors/replay/cassetteStore';
+import type { Cassette } from '@/services/connectors/types';
+
+const cassette: Cassette = {
+  testCaseId: 'tc-1',
+  testCaseVersion: 2,
+  agentKey: 'ml-commons',
+  connectorType: 'rest',
+  modelId: 'claude-sonnet',
+  recordedAt: '2026-01-01T00:00:00.000Z',
+  exchanges: [{ runId: 'run-1', durationMs: 120, rawEvents: [{ offsetMs: 100, event: { response: 'Done' } }] }],
+};
+
+describe('cassetteStore', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = join(tmpdir(), `cassette-test-${Date.now()}`);
+    mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should key the file by agent, test case and version', () => {
+    expect(getCassettePath(tempDir, cassette)).toBe(join(tempDir, 'ml-commons', 'tc-1@v2.json'));
+  });
+
+  it('should keep key components inside the cassette directory', () => {
+    const filePath = getCassettePath(tempDir, { testCaseId: '../../etc/passwd', testCaseVersion: 1, agentKey: '..' });
+
+    expect(filePath.startsWith(tempDir)).toBe(true);
+    expect(filePath).toBe(join(tempDir, '_', '__.._etc_passwd@v1.json'));
+  });
+
+  it('should save and load a cassette', async () => {
+    const filePath = await saveCassette(tempDir, cassette);
+
+    expect(existsSync(filePath)).toBe(true);
+    await expect(loadCassette(tempDir, cassette)).resolves.toEqual(cassette);
+  });
+
+  it('should return null when no cassette was recorded', async () => {
+    await expect(loadCassette(tempDir, { ...cassette, testCaseVersion: 3 })).resolves.toBeNull();
+  });
+});
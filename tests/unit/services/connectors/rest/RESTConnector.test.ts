@@ -5,7 +5,9 @@
 
 import { RESTConnector, restConnector } from '@/services/connectors/rest/RESTConnector';
 import type { ConnectorRequest, ConnectorAuth } from '@/services/connectors/types';
+import { clearOAuth2TokenCache } from '@/services/connectors/auth/oauth2';
 import type { TestCase, TrajectoryStep } from '@/types';
+import { createHash } from 'crypto';
 
 describe('RESTConnector', () => {
   let connector: RESTConnector;
@@ -61,6 +63,30 @@ describe('RESTConnector', () => {
       expect(payload.context).toEqual(mockTestCase.context);
       expect(payload.model).toBe('test-model');
       expect(payload.tools).toEqual(mockTestCase.tools);
+      expect(payload.messages).toBeUndefined();
+    });
+
+    it('should resend the conversation history for multi-turn requests', () => {
+      const request: ConnectorRequest = {
+        testCase: mockTestCase,
+        modelId: 'test-model',
+        threadId: 'thread-1',
+        messages: [
+          { id: 'm1', role: 'user', content: 'What is the cluster health?' },
+          { id: 'm2', role: 'assistant', content: 'Yellow' },
+          { id: 'm3', role: 'user', content: 'Why yellow?' },
+        ],
+      };
+
+      const payload = connector.buildPayload(request);
+
+      expect(payload.prompt).toBe('Why yellow?');
+      expect(payload.threadId).toBe('thread-1');
+      expect(payload.messages).toEqual([
+        { role: 'user', content: 'What is the cluster health?' },
+        { role: 'assistant', content: 'Yellow' },
+        { role: 'user', content: 'Why yellow?' },
+      ]);
     });
   });
 
@@ -133,6 +159,59 @@ describe('RESTConnector', () => {
       ).rejects.toThrow('REST request failed: 500');
     });
 
+    describe('with oauth2 auth', () => {
+      const oauth2Auth: ConnectorAuth = {
+        type: 'oauth2',
+        oauth2TokenUrl: 'https://auth.example.com/oauth2/token',
+        oauth2ClientId: 'agent-health',
+        oauth2ClientSecret: 's3cret',
+      };
+      const tokenResponse = (accessToken: string) => ({
+        ok: true,
+        json: () => Promise.resolve({ access_token: accessToken, expires_in: 3600 }),
+      });
+      const unauthorized = { ok: false, status: 401, text: () => Promise.resolve('token revoked') };
+      const request = () => ({ testCase: mockTestCase, modelId: 'test-model' });
+
+      beforeEach(() => clearOAuth2TokenCache());
+
+      it('should retry once with a new token when the agent rejects the cached one', async () => {
+        (global.fetch as jest.Mock)
+          .mockResolvedValueOnce(tokenResponse('revoked-token'))
+          .mockResolvedValueOnce(unauthorized)
+          .mockResolvedValueOnce(tokenResponse('new-token'))
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ response: 'Done' }), headers: new Map() });
+
+        const response = await connector.execute('http://localhost:8080/api', request(), oauth2Auth);
+
+        const agentCalls = (global.fetch as jest.Mock).mock.calls.filter(([url]) => url === 'http://localhost:8080/api');
+        expect(agentCalls.map(([, init]) => init.headers.Authorization)).toEqual(['Bearer revoked-token', 'Bearer new-token']);
+        expect(response.rawEvents).toEqual([{ response: 'Done' }]);
+      });
+
+      it('should fail when the agent rejects the new token too', async () => {
+        (global.fetch as jest.Mock)
+          .mockResolvedValueOnce(tokenResponse('token-1'))
+          .mockResolvedValueOnce(unauthorized)
+          .mockResolvedValueOnce(tokenResponse('token-2'))
+          .mockResolvedValueOnce(unauthorized);
+
+        await expect(connector.execute('http://localhost:8080/api', request(), oauth2Auth)).rejects.toThrow(
+          'REST request failed: 401 - token revoked'
+        );
+        expect(global.fetch).toHaveBeenCalledTimes(4);
+      });
+
+      it('should not retry a 401 for other auth types', async () => {
+        (global.fetch as jest.Mock).mockResolvedValue(unauthorized);
+
+        await expect(
+          connector.execute('http://localhost:8080/api', request(), { type: 'bearer', token: 'static-token' })
+        ).rejects.toThrow('REST request failed: 401');
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+      });
+    });
+
     it('should return trajectory from response', async () => {
       (global.fetch as jest.Mock).mockResolvedValue({
         ok: true,
@@ -207,6 +286,17 @@ describe('RESTConnector', () => {
     });
   });
 
+  describe('createRawEventParser', () => {
+    it('should parse the recorded response body', () => {
+      const parser = connector.createRawEventParser();
+
+      const steps = parser.push({ response: 'Cluster is green' });
+
+      expect(steps.map(s => s.type)).toEqual(['response']);
+      expect(parser.finish()).toEqual([]);
+    });
+  });
+
   describe('parseResponse', () => {
     it('should parse thinking field', () => {
       const steps = connector.parseResponse({ thinking: 'Let me think...' });
@@ -291,6 +381,203 @@ describe('RESTConnector', () => {
     });
   });
 
+  describe('parseUsage', () => {
+    it('should parse Anthropic-style usage and the model', () => {
+      expect(connector.parseUsage({ usage: { input_tokens: 120, output_tokens: 30 }, model: 'claude-sonnet-4' }))
+        .toEqual({ inputTokens: 120, outputTokens: 30, modelId: 'claude-sonnet-4' });
+    });
+
+    it('should parse OpenAI-style usage', () => {
+      expect(connector.parseUsage({ usage: { prompt_tokens: 50, completion_tokens: 10 } }))
+        .toEqual({ inputTokens: 50, outputTokens: 10 });
+    });
+
+    it('should return undefined when no usage is reported', () => {
+      expect(connector.parseUsage({ response: 'Done' })).toBeUndefined();
+      expect(connector.parseUsage({ usage: { total: 'n/a' } })).toBeUndefined();
+    });
+  });
+
+  describe('connectorConfig', () => {
+    const jsonResponse = (data: any) => ({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: jest.fn().mockResolvedValue(data),
+    });
+
+    const responseMapping = {
+      steps: {
+        path: '$.trace[*]',
+        type: '$.kind',
+        typeMap: { tool: 'action', note: 'thinking' } as const,
+        content: '$.text',
+        toolName: '$.tool.name',
+        toolArgs: '$.tool.input',
+        toolResult: '$.tool.output',
+      },
+      response: '$.result.answer',
+      runId: '$.meta.execution_id',
+    };
+
+    const agentResponse = {
+      trace: [
+        { kind: 'note', text: 'Checking shard allocation' },
+        { kind: 'tool', tool: { name: 'cat_shards', input: '{"index":"logs"}', output: ['logs 0 r UNASSIGNED'] } },
+      ],
+      result: { answer: 'A replica of logs is unassigned' },
+      meta: { execution_id: 42 },
+    };
+
+    it('should build the body from the request template', () => {
+      const payload = connector.buildPayload({
+        testCase: mockTestCase,
+        modelId: 'test-model',
+        connectorConfig: {
+          requestTemplate: {
+            input: { question: '{{prompt}}', history: '{{messages}}' },
+            system: 'Cluster facts:\n{{contextText}}',
+            options: { model: '{{modelId}}', stream: false },
+          },
+        },
+      });
+
+      expect(payload).toEqual({
+        input: {
+          question: 'What is the cluster health?',
+          history: [{ role: 'user', content: 'What is the cluster health?' }],
+        },
+        system: 'Cluster facts:\nCluster Name: test-cluster',
+        options: { model: 'test-model', stream: false },
+      });
+    });
+
+    it('should extract steps, the answer, and the run ID with the response mapping', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(jsonResponse(agentResponse));
+
+      const response = await connector.execute(
+        'http://localhost:3000/agent',
+        { testCase: mockTestCase, modelId: 'test-model', connectorConfig: { responseMapping } },
+        mockAuth
+      );
+
+      expect(response.trajectory.map(s => [s.type, s.content])).toEqual([
+        ['thinking', 'Checking shard allocation'],
+        ['action', 'Calling cat_shards...'],
+        ['tool_result', '["logs 0 r UNASSIGNED"]'],
+        ['response', 'A replica of logs is unassigned'],
+      ]);
+      expect(response.trajectory[1].toolArgs).toEqual({ index: 'logs' });
+      expect(response.runId).toBe('42');
+      expect(response.metadata?.responseMapping).toEqual(responseMapping);
+    });
+
+    it('should replay a recorded response with the recorded mapping', () => {
+      const parser = connector.createRawEventParser({ responseMapping });
+
+      expect(parser.push(agentResponse).map(s => s.type)).toEqual(['thinking', 'action', 'tool_result', 'response']);
+    });
+
+    it('should use the mapping of the connector instance', () => {
+      const mapped = new RESTConnector({ responseMapping: { response: '$.output[0].text' } });
+
+      expect(mapped.parseResponse({ output: [{ text: 'Green' }] }).map(s => s.content)).toEqual(['Green']);
+    });
+
+    it('should poll an async job until it is done', async () => {
+      jest.useFakeTimers();
+      const fetchMock = global.fetch as jest.Mock;
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ job: { id: 'job 7' } }))
+        .mockResolvedValueOnce(jsonResponse({ state: 'RUNNING' }))
+        .mockResolvedValueOnce(jsonResponse({ state: 'SUCCEEDED', output: agentResponse }));
+
+      const execution = connector.execute(
+        'http://localhost:3000/agent/run',
+        {
+          testCase: mockTestCase,
+          modelId: 'test-model',
+          connectorConfig: {
+            responseMapping,
+            polling: {
+              jobIdPath: '$.job.id',
+              url: '/agent/jobs/{{jobId}}',
+              statusPath: '$.state',
+              doneValues: ['SUCCEEDED'],
+              failedValues: ['FAILED'],
+              resultPath: '$.output',
+              intervalMs: 500,
+            },
+          },
+        },
+        mockAuth
+      );
+      await jest.advanceTimersByTimeAsync(1000);
+      const response = await execution;
+      jest.useRealTimers();
+
+      expect(fetchMock).toHaveBeenNthCalledWith(2, 'http://localhost:3000/agent/jobs/job%207', expect.objectContaining({ method: 'GET' }));
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(response.trajectory.map(s => s.type)).toEqual(['thinking', 'action', 'tool_result', 'response']);
+      expect(response.rawEvents).toEqual([agentResponse]);
+      expect(response.metadata?.job).toEqual({ jobId: 'job 7', polls: 2 });
+    });
+
+    it('should sign the request and each poll with AWS SigV4', async () => {
+      const polling = { jobIdPath: '$.jobId', url: '/jobs/{{jobId}}', statusPath: '$.status', doneValues: ['done'], intervalMs: 1 };
+      const fetchMock = global.fetch as jest.Mock;
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ jobId: 'j1' }))
+        .mockResolvedValueOnce(jsonResponse({ status: 'done', response: 'Healthy' }));
+      const auth: ConnectorAuth = {
+        type: 'aws-sigv4',
+        awsRegion: 'us-east-1',
+        awsAccessKeyId: 'AKIDEXAMPLE',
+        awsSecretAccessKey: 'secret',
+      };
+
+      await connector.execute(
+        'https://abc123.execute-api.us-east-1.amazonaws.com/prod/run',
+        { testCase: mockTestCase, modelId: 'm', connectorConfig: { polling } },
+        auth
+      );
+
+      const [[, post], [pollUrl, poll]] = fetchMock.mock.calls;
+      expect(post.headers['X-Amz-Content-Sha256']).toBe(createHash('sha256').update(post.body).digest('hex'));
+      expect(post.headers['Authorization']).toMatch(
+        /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/us-east-1\/execute-api\/aws4_request, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+      );
+      expect(pollUrl).toBe('https://abc123.execute-api.us-east-1.amazonaws.com/jobs/j1');
+      expect(poll.headers['X-Amz-Content-Sha256']).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+      expect(poll.headers['Authorization']).not.toBe(post.headers['Authorization']);
+    });
+
+    it('should fail when the job fails or returns no job ID', async () => {
+      const polling = { jobIdPath: '$.jobId', url: '/jobs/{{jobId}}', statusPath: '$.status', doneValues: ['done'], failedValues: ['error'], intervalMs: 1 };
+      const fetchMock = global.fetch as jest.Mock;
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ jobId: 'j1' }))
+        .mockResolvedValueOnce(jsonResponse({ status: 'error' }));
+
+      await expect(connector.execute('http://localhost:3000/run', { testCase: mockTestCase, modelId: 'm', connectorConfig: { polling } }, mockAuth))
+        .rejects.toThrow('REST job j1 failed with status error');
+
+      fetchMock.mockResolvedValueOnce(jsonResponse({ accepted: true }));
+      await expect(connector.execute('http://localhost:3000/run', { testCase: mockTestCase, modelId: 'm', connectorConfig: { polling } }, mockAuth))
+        .rejects.toThrow('REST response has no job ID at $.jobId');
+    });
+
+    it('should give up on a job that does not finish in time', async () => {
+      const polling = { jobIdPath: '$.jobId', url: '/jobs/{{jobId}}', statusPath: '$.status', doneValues: ['done'], intervalMs: 1, timeoutMs: 1 };
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(jsonResponse({ jobId: 'j1' }))
+        .mockResolvedValue(jsonResponse({ status: 'queued' }));
+
+      await expect(connector.execute('http://localhost:3000/run', { testCase: mockTestCase, modelId: 'm', connectorConfig: { polling } }, mockAuth))
+        .rejects.toThrow('REST job j1 did not finish within 1ms (last status: queued)');
+    });
+  });
+
   describe('default instance', () => {
     it('should export a default instance', () => {
       expect(restConnector).toBeInstanceOf(RESTConnector);
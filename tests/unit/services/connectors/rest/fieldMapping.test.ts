@@ -0,0 +1,114 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  fillRequestTemplate,
+  getTemplateVariables,
+  mapResponseRunId,
+  mapResponseSteps,
+} from '@/services/connectors/rest/fieldMapping';
+import type { TestCase, TrajectoryStep } from '@/types';
+
+const createStep = (type: TrajectoryStep['type'], content: string, extra?: Partial<TrajectoryStep>): TrajectoryStep => ({
+  id: 'step',
+  timestamp: 0,
+  type,
+  content,
+  ...extra,
+});
+
+const testCase = {
+  id: 'tc-1',
+  initialPrompt: 'Why is the cluster yellow?',
+  context: [{ description: 'Cluster', value: 'logs-prod' }],
+} as TestCase;
+
+describe('getTemplateVariables', () => {
+  it('should use the latest user message as the prompt of a multi-turn request', () => {
+    const variables = getTemplateVariables({
+      testCase,
+      modelId: 'claude-sonnet',
+      threadId: 'thread-1',
+      messages: [
+        { id: 'm1', role: 'user', content: 'Why is the cluster yellow?' },
+        { id: 'm2', role: 'assistant', content: 'A replica is unassigned.' },
+        { id: 'm3', role: 'user', content: 'How do I fix it?' },
+      ],
+    });
+
+    expect(variables.prompt).toBe('How do I fix it?');
+    expect(variables.initialPrompt).toBe('Why is the cluster yellow?');
+    expect(variables.messages).toHaveLength(3);
+    expect(variables.conversation).toContain('Assistant: A replica is unassigned.');
+    expect(variables.threadId).toBe('thread-1');
+    expect(variables.tools).toEqual([]);
+  });
+});
+
+describe('fillRequestTemplate', () => {
+  const variables = { prompt: 'Hi', context: [{ description: 'Cluster', value: 'logs' }], threadId: undefined };
+
+  it('should keep the value of a single placeholder and interpolate text', () => {
+    expect(fillRequestTemplate(
+      { q: '{{ prompt }}', ctx: '{{context}}', text: 'Context: {{context}} / {{threadId}}', n: 3, list: ['{{prompt}}'] },
+      variables
+    )).toEqual({
+      q: 'Hi',
+      ctx: [{ description: 'Cluster', value: 'logs' }],
+      text: 'Context: [{"description":"Cluster","value":"logs"}] / ',
+      n: 3,
+      list: ['Hi'],
+    });
+  });
+
+  it('should reject unknown placeholders', () => {
+    expect(() => fillRequestTemplate({ q: '{{question}}' }, variables))
+      .toThrow('Unknown placeholder {{question}} in REST request template (available: prompt, context, threadId)');
+  });
+});
+
+describe('mapResponseSteps', () => {
+  it('should combine several step arrays and fixed step types', () => {
+    const steps = mapResponseSteps(
+      {
+        reasoning: ['Shards first'],
+        calls: [{ function: 'cat_shards', arguments: { index: 'logs' } }],
+        answer: { text: 'Unassigned replica' },
+      },
+      {
+        steps: [
+          { path: '$.reasoning[*]', type: 'thinking', content: '$' },
+          { path: '$.calls[*]', toolName: '$.function', toolArgs: '$.arguments' },
+        ],
+        response: '$.answer.text',
+      },
+      createStep
+    );
+
+    expect(steps.map(s => [s.type, s.content, s.toolName])).toEqual([
+      ['thinking', 'Shards first', undefined],
+      ['action', 'Calling cat_shards...', 'cat_shards'],
+      ['response', 'Unassigned replica', undefined],
+    ]);
+    expect(steps[1].toolArgs).toEqual({ index: 'logs' });
+  });
+
+  it('should fall back to assistant steps for unknown step types', () => {
+    const steps = mapResponseSteps(
+      { events: [{ type: 'status', message: 'Working' }] },
+      { steps: { path: '$.events[*]', type: '$.type', content: '$.message' } },
+      createStep
+    );
+
+    expect(steps.map(s => s.type)).toEqual(['assistant']);
+  });
+});
+
+describe('mapResponseRunId', () => {
+  it('should return the run ID as a string, or null', () => {
+    expect(mapResponseRunId({ meta: { id: 7 } }, { runId: '$.meta.id' })).toBe('7');
+    expect(mapResponseRunId({}, { runId: '$.meta.id' })).toBeNull();
+  });
+});
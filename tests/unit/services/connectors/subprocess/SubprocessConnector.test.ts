@@ -120,6 +120,24 @@ describe('SubprocessConnector', () => {
 
       expect(payload).toBe(testCaseNoContext.initialPrompt);
     });
+
+    it('should resend the conversation history for multi-turn requests', () => {
+      const request: ConnectorRequest = {
+        testCase: { ...mockTestCase, context: [] },
+        modelId: 'test-model',
+        messages: [
+          { id: 'm1', role: 'user', content: 'First question' },
+          { id: 'm2', role: 'assistant', content: 'First answer' },
+          { id: 'm3', role: 'user', content: 'Follow-up' },
+        ],
+      };
+
+      const payload = connector.buildPayload(request);
+
+      expect(payload).toContain('User: First question');
+      expect(payload).toContain('Assistant: First answer');
+      expect(payload).toMatch(/User: Follow-up$/);
+    });
   });
 
   describe('execute', () => {
@@ -612,4 +630,30 @@ describe('SubprocessConnector', () => {
       );
     });
   });
+
+  describe('createRawEventParser', () => {
+    it('should parse recorded text output once all chunks are in', () => {
+      const parser = connector.createRawEventParser({ exitCode: 1 });
+
+      expect(parser.push({ type: 'stdout', data: 'Cluster is ' })).toEqual([]);
+      expect(parser.push({ type: 'stdout', data: 'green' })).toEqual([]);
+      expect(parser.push({ type: 'stderr', data: 'warning' })).toEqual([]);
+      const steps = parser.finish();
+
+      expect(steps.map(s => [s.type, s.content])).toEqual([
+        ['response', 'Cluster is green'],
+        ['tool_result', 'Error: warning'],
+      ]);
+    });
+
+    it('should parse recorded streaming output chunk by chunk', () => {
+      const streamingConnector = new SubprocessConnector({ outputParser: 'streaming' });
+      const parser = streamingConnector.createRawEventParser();
+
+      const steps = parser.push({ type: 'stdout', data: 'Checking health\nDone\n' });
+
+      expect(steps.map(s => s.content)).toEqual(['Checking health', 'Done']);
+      expect(parser.finish()).toEqual([]);
+    });
+  });
 });
@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { callBedrockJudge, simulateBedrockJudge } from '@/services/evaluation/bedrockJudge';
+import { callBedrockJudge, simulateBedrockJudge, formatJudgeModelId } from '@/services/evaluation/bedrockJudge';
 import type { TrajectoryStep } from '@/types';
 
 // Mock global fetch
@@ -226,6 +226,18 @@ describe('bedrockJudge', () => {
     });
   });
 
+  describe('formatJudgeModelId', () => {
+    it('should leave Bedrock model IDs unchanged', () => {
+      expect(formatJudgeModelId('us.anthropic.claude-sonnet-4-5', 'bedrock')).toBe('us.anthropic.claude-sonnet-4-5');
+      expect(formatJudgeModelId('us.anthropic.claude-sonnet-4-5')).toBe('us.anthropic.claude-sonnet-4-5');
+    });
+
+    it('should prefix non-Bedrock providers', () => {
+      expect(formatJudgeModelId('llama3.1:8b', 'ollama')).toBe('ollama/llama3.1:8b');
+      expect(formatJudgeModelId('gpt-4o', 'openai')).toBe('openai/gpt-4o');
+    });
+  });
+
   describe('simulateBedrockJudge', () => {
     it('should return passed status when all required tools are used', () => {
       const trajectory: TrajectoryStep[] = [
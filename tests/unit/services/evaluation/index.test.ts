@@ -15,6 +15,7 @@ jest.mock('@/services/agent', () => ({
   })),
   consumeSSEStream: jest.fn().mockResolvedValue(undefined),
   buildAgentPayload: jest.fn().mockReturnValue({ prompt: 'test' }),
+  buildAgentMessage: jest.fn((role, content) => ({ id: `msg-${role}`, role, content })),
 }));
 
 jest.mock('@/services/evaluation/bedrockJudge', () => ({
@@ -29,6 +30,7 @@ jest.mock('@/services/evaluation/bedrockJudge', () => ({
     llmJudgeReasoning: 'Test reasoning',
     improvementStrategies: [],
   }),
+  formatJudgeModelId: jest.requireActual('@/services/evaluation/bedrockJudge').formatJudgeModelId,
 }));
 
 jest.mock('@/services/opensearch', () => ({
@@ -414,6 +416,314 @@ describe('Evaluation Service Index', () => {
       expect(result.llmJudgeReasoning).toContain('Connection failed');
     });
 
+    it('should retry retryable connector errors with backoff', async () => {
+      const mockConnector = {
+        type: 'agui-streaming',
+        execute: jest.fn()
+          .mockRejectedValueOnce(new Error('HTTP 503: Service Unavailable'))
+          .mockResolvedValueOnce({
+            trajectory: [{ type: 'response', content: 'Done', timestamp: Date.now() }],
+            runId: 'run-1',
+            rawEvents: [],
+          }),
+      };
+
+      const result = await runEvaluationWithConnector(
+        mockAgent,
+        'claude-3-sonnet',
+        mockTestCase,
+        jest.fn(),
+        { registry: { getForAgent: () => mockConnector }, execution: { retries: 2, retryDelay: 1 } }
+      );
+
+      expect(mockConnector.execute).toHaveBeenCalledTimes(2);
+      expect(result.status).toBe('completed');
+      expect(result.executionAttempts).toBe(2);
+    });
+
+    it('should stop retrying after the configured retries', async () => {
+      const mockConnector = {
+        type: 'rest',
+        execute: jest.fn().mockRejectedValue(new Error('REST request failed: 429 - Too Many Requests')),
+      };
+
+      const result = await runEvaluationWithConnector(
+        mockAgent,
+        'claude-3-sonnet',
+        mockTestCase,
+        jest.fn(),
+        { registry: { getForAgent: () => mockConnector }, execution: { retries: 2, retryDelay: 1 } }
+      );
+
+      expect(mockConnector.execute).toHaveBeenCalledTimes(3);
+      expect(result.status).toBe('failed');
+      expect(result.executionAttempts).toBe(3);
+      expect(result.timeoutReason).toBeUndefined();
+    });
+
+    it('should not retry non-retryable connector errors', async () => {
+      const mockConnector = {
+        type: 'rest',
+        execute: jest.fn().mockRejectedValue(new Error('REST request failed: 400 - Bad Request')),
+      };
+
+      const result = await runEvaluationWithConnector(
+        mockAgent,
+        'claude-3-sonnet',
+        mockTestCase,
+        jest.fn(),
+        { registry: { getForAgent: () => mockConnector }, execution: { retries: 2, retryDelay: 1 } }
+      );
+
+      expect(mockConnector.execute).toHaveBeenCalledTimes(1);
+      expect(result.executionAttempts).toBe(1);
+    });
+
+    it('should abort a hung connector when the test case times out', async () => {
+      let signal: AbortSignal | undefined;
+      const mockConnector = {
+        type: 'agui-streaming',
+        execute: jest.fn((_endpoint, request, _auth, onProgress) => {
+          signal = request.signal;
+          onProgress({ id: 'step-1', type: 'assistant', content: 'Working...', timestamp: Date.now() });
+          return new Promise(() => {});
+        }),
+      };
+
+      const result = await runEvaluationWithConnector(
+        mockAgent,
+        'claude-3-sonnet',
+        mockTestCase,
+        jest.fn(),
+        { registry: { getForAgent: () => mockConnector }, execution: { timeout: 20, retries: 2 } }
+      );
+
+      expect(signal?.aborted).toBe(true);
+      expect(mockConnector.execute).toHaveBeenCalledTimes(1);
+      expect(result.status).toBe('failed');
+      expect(result.timeoutReason).toBe('Test case timed out after 20ms');
+      expect(result.llmJudgeReasoning).toContain('timed out after 20ms');
+      expect(result.trajectory).toHaveLength(1);
+    });
+
+    it('should abort the connector when the caller\'s signal aborts', async () => {
+      let signal: AbortSignal | undefined;
+      const mockConnector = {
+        type: 'agui-streaming',
+        execute: jest.fn((_endpoint, request) => {
+          signal = request.signal;
+          return new Promise(() => {});
+        }),
+      };
+      const controller = new AbortController();
+
+      const resultPromise = runEvaluationWithConnector(
+        mockAgent,
+        'claude-3-sonnet',
+        mockTestCase,
+        jest.fn(),
+        { registry: { getForAgent: () => mockConnector }, execution: { timeout: 0 }, signal: controller.signal }
+      );
+      controller.abort(new Error('Lease lost'));
+      const result = await resultPromise;
+
+      expect(signal?.aborted).toBe(true);
+      expect(result.status).toBe('failed');
+      expect(result.llmJudgeReasoning).toBe('Evaluation failed: Lease lost');
+      expect(result.timeoutReason).toBeUndefined();
+    });
+
+    it('should record the raw connector exchange with its timing', async () => {
+      const events = [{ type: 'RUN_STARTED', runId: 'run-1' }, { type: 'RUN_FINISHED', runId: 'run-1' }];
+      const mockConnector = {
+        type: 'agui-streaming',
+        execute: jest.fn(async (_endpoint, _request, _auth, _onProgress, onRawEvent) => {
+          events.forEach(event => onRawEvent(event));
+          return {
+            trajectory: [{ type: 'response', content: 'Done', timestamp: Date.now() }],
+            runId: 'run-1',
+            rawEvents: events,
+            metadata: { threadId: 'thread-1' },
+          };
+        }),
+      };
+      const record = jest.fn();
+      const onRawEvent = jest.fn();
+
+      const result = await runEvaluationWithConnector(
+        mockAgent,
+        'claude-3-sonnet',
+        mockTestCase,
+        jest.fn(),
+        { registry: { getForAgent: () => mockConnector }, onRawEvent, record }
+      );
+
+      expect(result.status).toBe('completed');
+      expect(onRawEvent).toHaveBeenCalledTimes(2);
+      expect(record).toHaveBeenCalledWith(expect.objectContaining({
+        testCaseId: 'test-case-1',
+        testCaseVersion: 1,
+        agentKey: 'test-agent',
+        connectorType: 'agui-streaming',
+        modelId: 'claude-3-sonnet',
+        exchanges: [{
+          runId: 'run-1',
+          durationMs: expect.any(Number),
+          rawEvents: events.map(event => ({ offsetMs: expect.any(Number), event })),
+          metadata: { threadId: 'thread-1' },
+          usage: undefined,
+        }],
+      }));
+    });
+
+    it('should not record a failed agent execution', async () => {
+      const mockConnector = {
+        type: 'rest',
+        execute: jest.fn().mockRejectedValue(new Error('Bad request')),
+      };
+      const record = jest.fn();
+
+      const result = await runEvaluationWithConnector(
+        mockAgent,
+        'claude-3-sonnet',
+        mockTestCase,
+        jest.fn(),
+        { registry: { getForAgent: () => mockConnector }, record }
+      );
+
+      expect(result.status).toBe('failed');
+      expect(record).not.toHaveBeenCalled();
+    });
+
+    it('should complete the evaluation when recording fails', async () => {
+      const mockConnector = {
+        type: 'rest',
+        execute: jest.fn().mockResolvedValue({
+          trajectory: [{ type: 'response', content: 'Done', timestamp: Date.now() }],
+          runId: 'run-1',
+          rawEvents: [{ response: 'Done' }],
+        }),
+      };
+      const record = jest.fn().mockRejectedValue(new Error('EACCES: permission denied'));
+
+      const result = await runEvaluationWithConnector(
+        mockAgent,
+        'claude-3-sonnet',
+        mockTestCase,
+        jest.fn(),
+        { registry: { getForAgent: () => mockConnector }, record }
+      );
+
+      expect(result.status).toBe('completed');
+      // Events the connector only returned are recorded at the end of the call
+      expect(record.mock.calls[0][0].exchanges[0].rawEvents).toEqual([
+        { offsetMs: expect.any(Number), event: { response: 'Done' } },
+      ]);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('[Eval] Failed to record cassette:', 'EACCES: permission denied');
+    });
+
+    it('should not record a replayed evaluation', async () => {
+      const mockConnector = {
+        type: 'replay',
+        execute: jest.fn().mockResolvedValue({
+          trajectory: [{ type: 'response', content: 'Done', timestamp: Date.now() }],
+          runId: 'run-1',
+        }),
+      };
+      const record = jest.fn();
+
+      await runEvaluationWithConnector(
+        mockAgent,
+        'claude-3-sonnet',
+        mockTestCase,
+        jest.fn(),
+        { registry: { getForAgent: () => mockConnector }, record }
+      );
+
+      expect(record).not.toHaveBeenCalled();
+    });
+
+    it('should abort a looping agent once it exceeds its tool call budget', async () => {
+      let signal: AbortSignal | undefined;
+      const mockConnector = {
+        type: 'agui-streaming',
+        execute: jest.fn((_endpoint, request, _auth, onProgress) => {
+          signal = request.signal;
+          for (let i = 1; i <= 5; i++) {
+            onProgress({ id: `step-${i}`, type: 'action', content: 'Searching...', toolName: 'search', timestamp: Date.now() });
+          }
+          return new Promise(() => {});
+        }),
+      };
+
+      const result = await runEvaluationWithConnector(
+        mockAgent,
+        'claude-3-sonnet',
+        mockTestCase,
+        jest.fn(),
+        { registry: { getForAgent: () => mockConnector }, execution: { retries: 2 }, budget: { maxToolCallsPerTestCase: 3 } }
+      );
+
+      expect(signal?.aborted).toBe(true);
+      expect(mockConnector.execute).toHaveBeenCalledTimes(1);
+      expect(result.status).toBe('failed');
+      expect(result.budgetExceededReason).toBe('Test case exceeded its budget of 3 tool calls');
+      expect(result.timeoutReason).toBeUndefined();
+      expect(result.trajectory).toHaveLength(5);
+    });
+
+    it('should fail a non-streaming response over its step budget and keep its usage', async () => {
+      const mockConnector = {
+        type: 'rest',
+        execute: jest.fn().mockResolvedValue({
+          trajectory: [
+            { type: 'thinking', content: 'Hmm', timestamp: Date.now() },
+            { type: 'assistant', content: 'Still thinking', timestamp: Date.now() },
+            { type: 'response', content: 'Done', timestamp: Date.now() },
+          ],
+          runId: 'run-1',
+          usage: { inputTokens: 100, outputTokens: 20 },
+        }),
+      };
+
+      const result = await runEvaluationWithConnector(
+        mockAgent,
+        'claude-3-sonnet',
+        mockTestCase,
+        jest.fn(),
+        { registry: { getForAgent: () => mockConnector }, execution: { retries: 2 }, budget: { maxStepsPerTestCase: 2 } }
+      );
+
+      expect(mockConnector.execute).toHaveBeenCalledTimes(1);
+      expect(result.status).toBe('failed');
+      expect(result.budgetExceededReason).toBe('Test case exceeded its budget of 2 trajectory steps');
+      expect(result.trajectory).toHaveLength(3);
+      expect(result.tokenUsage).toEqual({ inputTokens: 100, outputTokens: 20, modelId: undefined });
+    });
+
+    it('should report the agent token usage of a completed evaluation', async () => {
+      const mockConnector = {
+        type: 'rest',
+        execute: jest.fn().mockResolvedValue({
+          trajectory: [{ type: 'response', content: 'Done', timestamp: Date.now() }],
+          runId: 'run-1',
+          usage: { inputTokens: 100, outputTokens: 20, modelId: 'claude-haiku' },
+        }),
+      };
+
+      const result = await runEvaluationWithConnector(
+        mockAgent,
+        'claude-3-sonnet',
+        mockTestCase,
+        jest.fn(),
+        { registry: { getForAgent: () => mockConnector }, budget: { maxStepsPerTestCase: 5 } }
+      );
+
+      expect(result.status).toBe('completed');
+      expect(result.budgetExceededReason).toBeUndefined();
+      expect(result.tokenUsage).toEqual({ inputTokens: 100, outputTokens: 20, modelId: 'claude-haiku' });
+    });
+
     it('should call onRawEvent callback when provided', async () => {
       const mockConnector = {
         type: 'mock',
@@ -715,5 +1025,457 @@ describe('Evaluation Service Index', () => {
         undefined
       );
     });
+
+    it('should pass the agent connectorConfig to the connector', async () => {
+      const connectorConfig = { responseMapping: { response: '$.result.answer' } };
+      const mockConnector = {
+        type: 'rest',
+        execute: jest.fn().mockResolvedValue({ trajectory: [], runId: 'mapped-run', rawEvents: [] }),
+      };
+
+      await runEvaluationWithConnector(
+        { ...mockAgent, connectorConfig },
+        'claude-3-sonnet',
+        mockTestCase,
+        jest.fn(),
+        { registry: { getForAgent: jest.fn().mockReturnValue(mockConnector) } }
+      );
+
+      expect(mockConnector.execute.mock.calls[0][1].connectorConfig).toBe(connectorConfig);
+    });
+
+    it('should pass the agent auth config to the connector with the agent headers', async () => {
+      const auth = { type: 'aws-sigv4' as const, awsRegion: 'us-west-2', awsService: 'bedrock-agentcore' };
+      const mockConnector = {
+        type: 'agui-streaming',
+        execute: jest.fn().mockResolvedValue({ trajectory: [], runId: 'signed-run', rawEvents: [] }),
+      };
+
+      await runEvaluationWithConnector(
+        { ...mockAgent, headers: { 'X-Team': 'rca' }, auth },
+        'claude-3-sonnet',
+        mockTestCase,
+        jest.fn(),
+        { registry: { getForAgent: jest.fn().mockReturnValue(mockConnector) } }
+      );
+
+      expect(mockConnector.execute.mock.calls[0][2]).toEqual({ ...auth, headers: { 'X-Team': 'rca' } });
+    });
+
+    describe('assertions', () => {
+      const assertionTrajectory = [
+        { id: '1', type: 'action', content: 'Checking health', toolName: 'cluster_health', toolArgs: {}, timestamp: 1000 },
+        { id: '2', type: 'tool_result', content: '{"status":"green"}', timestamp: 1100 },
+        { id: '3', type: 'response', content: 'Cluster is healthy', timestamp: 1200 },
+      ];
+
+      const createRegistry = () => ({
+        getForAgent: jest.fn().mockReturnValue({
+          type: 'mock',
+          execute: jest.fn().mockResolvedValue({ trajectory: assertionTrajectory, runId: 'run-1', rawEvents: [] }),
+        }),
+      });
+
+      it('should skip the judge for assertion-only test cases', async () => {
+        const { callBedrockJudge } = require('@/services/evaluation/bedrockJudge');
+        const testCase = {
+          ...mockTestCase,
+          expectedOutcomes: [],
+          assertions: [
+            { type: 'tool-called', tool: 'cluster_health' },
+            { type: 'response-regex', pattern: 'healthy' },
+          ],
+        };
+
+        const result = await runEvaluationWithConnector(
+          mockAgent, 'claude-3-sonnet', testCase, jest.fn(), { registry: createRegistry() }
+        );
+
+        expect(callBedrockJudge).not.toHaveBeenCalled();
+        expect(result.passFailStatus).toBe('passed');
+        expect(result.metrics.accuracy).toBe(100);
+        expect(result.assertionResults).toHaveLength(2);
+        expect(result.llmJudgeResponse).toBeUndefined();
+      });
+
+      it('should fail the run when an assertion fails even if the judge passes', async () => {
+        const { callBedrockJudge } = require('@/services/evaluation/bedrockJudge');
+        const testCase = {
+          ...mockTestCase,
+          assertions: [{ type: 'tool-not-called', tool: 'cluster_health' }],
+        };
+
+        const result = await runEvaluationWithConnector(
+          mockAgent, 'claude-3-sonnet', testCase, jest.fn(), { registry: createRegistry() }
+        );
+
+        expect(callBedrockJudge).toHaveBeenCalled();
+        expect(result.passFailStatus).toBe('failed');
+        expect(result.llmJudgeReasoning).toBe('Test reasoning');
+        expect(result.assertionResults[0].passed).toBe(false);
+      });
+
+      it('should record pplMatch when the test case has expectedPPL', async () => {
+        const pplTrajectory = [
+          { id: '1', type: 'action', content: 'Query', toolName: 'execute_ppl_query', toolArgs: { query: 'SOURCE = logs | fields b, a' }, timestamp: 1 },
+          { id: '2', type: 'response', content: 'Done', timestamp: 2 },
+        ];
+        const registry = {
+          getForAgent: jest.fn().mockReturnValue({
+            type: 'mock',
+            execute: jest.fn().mockResolvedValue({ trajectory: pplTrajectory, runId: 'run-1', rawEvents: [] }),
+          }),
+        };
+
+        const result = await runEvaluationWithConnector(
+          mockAgent, 'claude-3-sonnet', { ...mockTestCase, expectedPPL: 'source=logs | fields a, b' }, jest.fn(), { registry }
+        );
+
+        expect(result.metrics.pplMatch).toBe(100);
+        expect(result.metrics.accuracy).toBe(0.9);
+      });
+
+      it('should keep the judge verdict when only warnings fail', async () => {
+        const testCase = {
+          ...mockTestCase,
+          assertions: [{ type: 'max-steps', max: 1, severity: 'warning' }],
+        };
+
+        const result = await runEvaluationWithConnector(
+          mockAgent, 'claude-3-sonnet', testCase, jest.fn(), { registry: createRegistry() }
+        );
+
+        expect(result.passFailStatus).toBe('passed');
+        expect(result.assertionResults[0].passed).toBe(false);
+      });
+    });
+
+    describe('multi-turn follow-ups', () => {
+      const answered = (content: string) => ({
+        trajectory: [{ id: content, type: 'response', content, timestamp: 1 }],
+        runId: `run-${content}`,
+        rawEvents: [{ content }],
+      });
+      const failedTool = {
+        trajectory: [
+          { id: 'a', type: 'action', content: 'Query', toolName: 'search', timestamp: 1 },
+          { id: 'r', type: 'tool_result', content: 'boom', status: 'FAILURE', timestamp: 2 },
+        ],
+        runId: 'run-error',
+        rawEvents: [],
+      };
+      const followUpTestCase = {
+        ...mockTestCase,
+        initialPrompt: 'Why is latency high?',
+        followUpQuestions: [
+          { trigger: 'error', question: 'What went wrong?', businessValue: 'Explains the failure' },
+          { trigger: 'results_available', question: 'How do we fix it?', businessValue: 'Gives a remediation' },
+          { trigger: 'always', question: 'Summarize', businessValue: '' },
+        ],
+      };
+
+      const createRegistry = (...responses: any[]) => {
+        const execute = jest.fn();
+        responses.forEach(response => execute.mockResolvedValueOnce(response));
+        return {
+          execute,
+          registry: {
+            getForAgent: jest.fn().mockReturnValue({ type: 'mock', execute, buildPayload: jest.fn() }),
+          },
+        };
+      };
+
+      it('should send follow-ups matching the previous turn outcome on the same thread', async () => {
+        const { execute, registry } = createRegistry(answered('Disk is full'), answered('Add disk'), answered('Done'));
+
+        const result = await runEvaluationWithConnector(
+          mockAgent, 'claude-3-sonnet', followUpTestCase, jest.fn(), { registry }
+        );
+
+        expect(execute).toHaveBeenCalledTimes(3);
+        const requests = execute.mock.calls.map(call => call[1]);
+        expect(new Set(requests.map(r => r.threadId)).size).toBe(1);
+        expect(requests[1].messages.map(m => [m.role, m.content])).toEqual([
+          ['user', 'Why is latency high?'],
+          ['assistant', 'Disk is full'],
+          ['user', 'How do we fix it?'],
+        ]);
+        expect(requests[2].messages).toHaveLength(5);
+
+        expect(result.turns.map(t => [t.turn, t.trigger, t.outcome])).toEqual([
+          [1, undefined, 'results_available'],
+          [2, 'results_available', 'results_available'],
+          [3, 'always', 'results_available'],
+        ]);
+        expect(result.trajectory).toHaveLength(3);
+        expect(result.rawEvents).toHaveLength(3);
+        expect(result.runId).toBe('run-Disk is full');
+      });
+
+      it('should fire error follow-ups after a failed turn', async () => {
+        const { execute, registry } = createRegistry(failedTool, answered('Query failed'), answered('Summary'));
+
+        const result = await runEvaluationWithConnector(
+          mockAgent, 'claude-3-sonnet', followUpTestCase, jest.fn(), { registry }
+        );
+
+        expect(execute.mock.calls[1][1].messages[2].content).toBe('What went wrong?');
+        expect(result.turns.map(t => t.prompt)).toEqual(['Why is latency high?', 'What went wrong?', 'How do we fix it?']);
+      });
+
+      it('should judge each turn and the whole conversation', async () => {
+        const { callBedrockJudge } = require('@/services/evaluation/bedrockJudge');
+        const { registry } = createRegistry(answered('Disk is full'), answered('Add disk'), answered('Done'));
+
+        const result = await runEvaluationWithConnector(
+          mockAgent, 'claude-3-sonnet', followUpTestCase, jest.fn(), { registry }
+        );
+
+        expect(callBedrockJudge).toHaveBeenCalledTimes(4);
+        expect(callBedrockJudge.mock.calls[0][1].expectedOutcomes).toEqual(['Outcome 1', 'Outcome 2']);
+        expect(callBedrockJudge.mock.calls[2][1].expectedOutcomes).toEqual([
+          'Answers the follow-up question: "How do we fix it?"',
+          'Gives a remediation',
+        ]);
+        expect(result.turns.every(t => t.passFailStatus === 'passed')).toBe(true);
+        expect(result.passFailStatus).toBe('passed');
+      });
+
+      it('should fail the run when a turn fails', async () => {
+        const { callBedrockJudge } = require('@/services/evaluation/bedrockJudge');
+        callBedrockJudge
+          .mockResolvedValueOnce({ passFailStatus: 'passed', metrics: { accuracy: 90 }, llmJudgeReasoning: 'ok', improvementStrategies: [] })
+          .mockResolvedValueOnce({ passFailStatus: 'passed', metrics: { accuracy: 90 }, llmJudgeReasoning: 'ok', improvementStrategies: [] })
+          .mockResolvedValueOnce({ passFailStatus: 'failed', metrics: { accuracy: 20 }, llmJudgeReasoning: 'no fix', improvementStrategies: [] });
+        const { registry } = createRegistry(answered('Disk is full'), answered('No idea'), answered('Done'));
+
+        const result = await runEvaluationWithConnector(
+          mockAgent, 'claude-3-sonnet', followUpTestCase, jest.fn(), { registry }
+        );
+
+        expect(result.turns[1].passFailStatus).toBe('failed');
+        expect(result.turns[1].llmJudgeReasoning).toBe('no fix');
+        expect(result.passFailStatus).toBe('failed');
+      });
+
+      it('should keep turns unjudged in trace mode', async () => {
+        const { callBedrockJudge } = require('@/services/evaluation/bedrockJudge');
+        const { registry } = createRegistry(answered('Disk is full'), answered('Add disk'), answered('Done'));
+
+        const result = await runEvaluationWithConnector(
+          { ...mockAgent, useTraces: true }, 'claude-3-sonnet', followUpTestCase, jest.fn(), { registry }
+        );
+
+        expect(callBedrockJudge).not.toHaveBeenCalled();
+        expect(result.metricsStatus).toBe('pending');
+        expect(result.turns).toHaveLength(3);
+        expect(result.turns[0].passFailStatus).toBeUndefined();
+      });
+    });
+
+    describe('judge ensembles', () => {
+      const createRegistry = () => ({
+        getForAgent: jest.fn().mockReturnValue({
+          type: 'mock',
+          execute: jest.fn().mockResolvedValue({
+            trajectory: [{ id: '1', type: 'response', content: 'Done', timestamp: 1 }],
+            runId: 'run-1',
+            rawEvents: [],
+          }),
+        }),
+      });
+      const verdict = (passFailStatus: string, accuracy: number) => ({
+        passFailStatus,
+        metrics: { accuracy },
+        llmJudgeReasoning: `${passFailStatus} reasoning`,
+        improvementStrategies: [],
+        promptTokens: 100,
+        completionTokens: 10,
+      });
+
+      it('should score the run with every judge and store each response', async () => {
+        const { callBedrockJudge } = require('@/services/evaluation/bedrockJudge');
+        callBedrockJudge
+          .mockResolvedValueOnce(verdict('passed', 90))
+          .mockResolvedValueOnce(verdict('passed', 80))
+          .mockResolvedValueOnce(verdict('failed', 40));
+
+        const result = await runEvaluationWithConnector(
+          mockAgent, 'claude-3-sonnet', mockTestCase, jest.fn(),
+          { registry: createRegistry(), judgeEnsemble: { models: ['judge-a', 'judge-b', 'judge-a'] } }
+        );
+
+        expect(callBedrockJudge).toHaveBeenCalledTimes(3);
+        expect(callBedrockJudge.mock.calls.map(call => call[4])).toEqual(['judge-a', 'judge-b', 'judge-a']);
+        expect(result.passFailStatus).toBe('passed');
+        expect(result.metrics.accuracy).toBe(70);
+        expect(result.judgeAgreement).toBeCloseTo(2 / 3);
+        expect(result.judgeResponses).toHaveLength(3);
+        expect(result.judgeResponses.map(r => r.passFailStatus)).toEqual(['passed', 'passed', 'failed']);
+        expect(result.llmJudgeResponse.promptTokens).toBe(300);
+        expect(result.llmJudgeReasoning).toContain('2/3 passed');
+      });
+
+      it('should apply the configured aggregation', async () => {
+        const { callBedrockJudge } = require('@/services/evaluation/bedrockJudge');
+        callBedrockJudge
+          .mockResolvedValueOnce(verdict('passed', 90))
+          .mockResolvedValueOnce(verdict('failed', 40));
+
+        const result = await runEvaluationWithConnector(
+          mockAgent, 'claude-3-sonnet', mockTestCase, jest.fn(),
+          { registry: createRegistry(), judgeEnsemble: { models: ['judge-a', 'judge-b'], aggregation: 'min' } }
+        );
+
+        expect(result.passFailStatus).toBe('failed');
+        expect(result.metrics.accuracy).toBe(40);
+        expect(result.judgeAgreement).toBe(0.5);
+      });
+
+      it('should aggregate the judges that succeed when one fails', async () => {
+        const { callBedrockJudge } = require('@/services/evaluation/bedrockJudge');
+        callBedrockJudge
+          .mockResolvedValueOnce(verdict('passed', 90))
+          .mockRejectedValueOnce(new Error('ThrottlingException'))
+          .mockResolvedValueOnce(verdict('failed', 40));
+
+        const result = await runEvaluationWithConnector(
+          mockAgent, 'claude-3-sonnet', mockTestCase, jest.fn(),
+          { registry: createRegistry(), judgeEnsemble: { models: ['judge-a', 'judge-b', 'judge-c'], aggregation: 'mean' } }
+        );
+
+        expect(result.status).toBe('completed');
+        expect(result.metrics.accuracy).toBe(65);
+        expect(result.judgeResponses.map(r => r.passFailStatus)).toEqual(['passed', 'failed']);
+        expect(result.llmJudgeResponse.promptTokens).toBe(200);
+        expect(result.llmJudgeReasoning).toContain('judge-b (ThrottlingException)');
+      });
+
+      it('should fail the judgment when every judge fails', async () => {
+        const { callBedrockJudge } = require('@/services/evaluation/bedrockJudge');
+        callBedrockJudge
+          .mockRejectedValueOnce(new Error('ThrottlingException'))
+          .mockRejectedValueOnce(new Error('ThrottlingException'));
+
+        const result = await runEvaluationWithConnector(
+          mockAgent, 'claude-3-sonnet', mockTestCase, jest.fn(),
+          { registry: createRegistry(), judgeEnsemble: { models: ['judge-a', 'judge-b'] } }
+        );
+
+        expect(result.status).toBe('failed');
+        expect(result.llmJudgeReasoning).toContain('Every judge of the ensemble failed');
+      });
+
+      it('should use the only model as a single judge when the ensemble has one model', async () => {
+        const { callBedrockJudge } = require('@/services/evaluation/bedrockJudge');
+
+        const result = await runEvaluationWithConnector(
+          mockAgent, 'claude-3-sonnet', mockTestCase, jest.fn(),
+          { registry: createRegistry(), judgeEnsemble: { models: ['judge-a'] } }
+        );
+
+        expect(callBedrockJudge).toHaveBeenCalledTimes(1);
+        expect(callBedrockJudge.mock.calls[0][4]).toBe('judge-a');
+        expect(result.judgeResponses).toBeUndefined();
+        expect(result.judgeAgreement).toBeUndefined();
+      });
+    });
+
+    describe('judge rubrics', () => {
+      it('should send the rubric to the judge and snapshot it on the run', async () => {
+        const { callBedrockJudge } = require('@/services/evaluation/bedrockJudge');
+        const rubric = { name: 'Strict', version: 2, criteria: [{ name: 'Correct', description: 'Right answer' }] };
+        const registry = {
+          getForAgent: jest.fn().mockReturnValue({
+            type: 'mock',
+            execute: jest.fn().mockResolvedValue({
+              trajectory: [{ id: '1', type: 'response', content: 'Done', timestamp: 1 }],
+              runId: 'run-1',
+              rawEvents: [],
+            }),
+          }),
+        };
+
+        const result = await runEvaluationWithConnector(
+          mockAgent, 'claude-3-sonnet', { ...mockTestCase, rubric }, jest.fn(), { registry }
+        );
+
+        expect(callBedrockJudge.mock.calls[0][1]).toEqual(expect.objectContaining({ rubric }));
+        expect(result.rubric).toEqual(rubric);
+      });
+    });
+  });
+
+  describe('rejudgeReport', () => {
+    let rejudgeReport: any;
+
+    beforeEach(async () => {
+      jest.resetModules();
+      const module = await import('@/services/evaluation');
+      rejudgeReport = module.rejudgeReport;
+    });
+
+    const trajectory = [{ id: '1', type: 'response', content: 'Done', timestamp: 1 }];
+    const storedReport = {
+      id: 'report-1',
+      testCaseId: 'test-case-1',
+      modelId: 'judge-a',
+      status: 'completed',
+      passFailStatus: 'failed',
+      trajectory,
+    };
+
+    it('should judge the stored trajectory with the model the run was judged with', async () => {
+      const { callBedrockJudge } = require('@/services/evaluation/bedrockJudge');
+
+      const result = await rejudgeReport(storedReport, mockTestCase, trajectory);
+
+      expect(callBedrockJudge).toHaveBeenCalledTimes(1);
+      expect(callBedrockJudge.mock.calls[0][0]).toBe(trajectory);
+      expect(callBedrockJudge.mock.calls[0][4]).toBe('judge-a');
+      expect(result.passFailStatus).toBe('passed');
+      expect(result.judgeModelId).toBe('judge-a');
+      expect(result.metricsStatus).toBeUndefined();
+    });
+
+    it('should prefer the requested judge and keep the run rubric snapshot', async () => {
+      const { callBedrockJudge } = require('@/services/evaluation/bedrockJudge');
+      const rubric = { name: 'Snapshot', criteria: [{ name: 'Correct', description: 'Right answer' }] };
+
+      const result = await rejudgeReport(
+        { ...storedReport, rubric, metricsStatus: 'error' },
+        { ...mockTestCase, rubric: { name: 'Edited', criteria: [] } },
+        trajectory,
+        { modelId: 'judge-b' }
+      );
+
+      expect(callBedrockJudge.mock.calls[0][4]).toBe('judge-b');
+      expect(callBedrockJudge.mock.calls[0][1].rubric).toEqual(rubric);
+      expect(result.judgeModelId).toBe('judge-b');
+      expect(result.metricsStatus).toBe('ready');
+    });
+
+    it('should re-judge each turn of a multi-turn run', async () => {
+      const { callBedrockJudge } = require('@/services/evaluation/bedrockJudge');
+      callBedrockJudge
+        .mockResolvedValueOnce({ passFailStatus: 'passed', metrics: { accuracy: 90 }, llmJudgeReasoning: 'ok', improvementStrategies: [] })
+        .mockResolvedValueOnce({ passFailStatus: 'passed', metrics: { accuracy: 90 }, llmJudgeReasoning: 'ok', improvementStrategies: [] })
+        .mockResolvedValueOnce({ passFailStatus: 'failed', metrics: { accuracy: 20 }, llmJudgeReasoning: 'no fix', improvementStrategies: [] });
+      const testCase = {
+        ...mockTestCase,
+        followUpQuestions: [{ trigger: 'always', question: 'How do we fix it?', businessValue: 'Gives a remediation' }],
+      };
+      const turns = [
+        { turn: 1, prompt: 'Test prompt', trajectory, passFailStatus: 'failed' },
+        { turn: 2, trigger: 'always', prompt: 'How do we fix it?', trajectory, passFailStatus: 'failed' },
+      ];
+
+      const result = await rejudgeReport({ ...storedReport, turns }, testCase, trajectory);
+
+      expect(callBedrockJudge).toHaveBeenCalledTimes(3);
+      expect(callBedrockJudge.mock.calls[2][1].expectedOutcomes).toContain('Gives a remediation');
+      expect(result.turns.map(t => t.passFailStatus)).toEqual(['passed', 'failed']);
+      expect(result.passFailStatus).toBe('failed');
+    });
   });
 });
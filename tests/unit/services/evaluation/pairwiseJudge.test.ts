@@ -0,0 +1,140 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { callPairwiseJudge, runPairwiseComparison } from '@/services/evaluation/pairwiseJudge';
+import type { BenchmarkRun, EvaluationReport, PairwiseJudgment, TestCase, TrajectoryStep } from '@/types';
+
+// Mock global fetch
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const trajectory = (content: string): TrajectoryStep[] => [
+  { id: 'step-1', type: 'response', content, timestamp: 0 },
+];
+
+const judgment = (winner: PairwiseJudgment['winner']): PairwiseJudgment => ({
+  winner,
+  consistent: true,
+  reasoning: `${winner} is better`,
+  verdicts: [],
+});
+
+const benchmarkRun = (id: string, reportIds: Record<string, string>): BenchmarkRun => ({
+  id,
+  name: id,
+  createdAt: '2024-01-01T00:00:00Z',
+  agentKey: 'demo',
+  modelId: 'demo-model',
+  results: Object.fromEntries(
+    Object.entries(reportIds).map(([testCaseId, reportId]) => [testCaseId, { reportId, status: 'completed' }])
+  ),
+} as BenchmarkRun);
+
+const report = (id: string, steps: TrajectoryStep[]): EvaluationReport => ({
+  id,
+  trajectory: steps,
+} as EvaluationReport);
+
+const testCases = [
+  { id: 'tc-1', name: 'Disk pressure', initialPrompt: 'Why is the cluster red?', expectedOutcomes: ['Find disk pressure'] },
+  { id: 'tc-2', name: 'Slow queries', initialPrompt: 'Why are queries slow?', expectedOutcomes: ['Find the slow query'] },
+] as TestCase[];
+
+describe('pairwiseJudge', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('callPairwiseJudge', () => {
+    it('should post both trajectories to the pairwise endpoint', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(judgment('B')) });
+
+      const result = await callPairwiseJudge(
+        { trajectoryA: trajectory('a'), trajectoryB: trajectory('b'), prompt: 'Why?' },
+        'claude-sonnet'
+      );
+
+      expect(result.winner).toBe('B');
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toMatch(/\/pairwise$/);
+      expect(JSON.parse(init.body)).toMatchObject({ prompt: 'Why?', modelId: 'claude-sonnet' });
+    });
+
+    it('should throw the server error message', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        json: () => Promise.resolve({ error: 'Custom judge does not support pairwise comparison' }),
+      });
+
+      await expect(callPairwiseJudge({ trajectoryA: [], trajectoryB: [] })).rejects.toThrow(
+        'Custom judge does not support pairwise comparison'
+      );
+    });
+  });
+
+  describe('runPairwiseComparison', () => {
+    it('should judge test cases present in both runs and map outcomes', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(judgment('B')) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(judgment('A')) });
+      const onProgress = jest.fn();
+
+      const rows = await runPairwiseComparison({
+        baselineRun: benchmarkRun('base', { 'tc-1': 'r1', 'tc-2': 'r2', 'tc-3': 'r3' }),
+        candidateRun: benchmarkRun('cand', { 'tc-1': 'r4', 'tc-2': 'r5' }),
+        reports: {
+          r1: report('r1', trajectory('base 1')),
+          r2: report('r2', trajectory('base 2')),
+          r3: report('r3', trajectory('base 3')),
+          r4: report('r4', trajectory('cand 1')),
+          r5: report('r5', trajectory('cand 2')),
+        },
+        testCases,
+        modelId: 'claude-sonnet',
+        onProgress,
+      });
+
+      expect(rows.map(r => [r.testCaseName, r.outcome])).toEqual([
+        ['Disk pressure', 'win'],
+        ['Slow queries', 'loss'],
+      ]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.trajectoryA[0].content).toBe('base 1');
+      expect(body.trajectoryB[0].content).toBe('cand 1');
+      expect(body.expectedOutcomes).toEqual(['Find disk pressure']);
+      expect(onProgress).toHaveBeenCalledTimes(2);
+      expect(onProgress.mock.calls[0][0]).toHaveLength(1);
+    });
+
+    it('should record an error row when a trajectory is missing', async () => {
+      const rows = await runPairwiseComparison({
+        baselineRun: benchmarkRun('base', { 'tc-1': 'r1' }),
+        candidateRun: benchmarkRun('cand', { 'tc-1': 'r2' }),
+        reports: { r1: report('r1', trajectory('base 1')), r2: report('r2', []) },
+        testCases,
+      });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(rows[0].outcome).toBeUndefined();
+      expect(rows[0].error).toBe('No trajectory to compare in both runs');
+    });
+
+    it('should record an error row when the judge call fails', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('Network down'));
+
+      const rows = await runPairwiseComparison({
+        baselineRun: benchmarkRun('base', { 'tc-1': 'r1' }),
+        candidateRun: benchmarkRun('cand', { 'tc-1': 'r2' }),
+        reports: { r1: report('r1', trajectory('base 1')), r2: report('r2', trajectory('cand 1')) },
+        testCases,
+      });
+
+      expect(rows[0].outcome).toBeUndefined();
+      expect(rows[0].error).toBe('Network down');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { judgeRegistry, getJudgeForModel, registerJudge } from '@/services/judges/registry';
+import type { JudgeProvider } from '@/services/judges/types';
+import type { JudgeProviderType, ModelConfig } from '@/types';
+
+describe('JudgeRegistry', () => {
+  // Create a mock judge for testing
+  const createMockJudge = (type: JudgeProviderType, name: string): JudgeProvider => ({
+    type,
+    name,
+    evaluate: jest.fn(),
+  });
+
+  const models: Record<string, ModelConfig> = {
+    'claude-sonnet-4': {
+      model_id: 'us.anthropic.claude-sonnet-4-20250514-v1:0',
+      display_name: 'Claude Sonnet 4',
+      provider: 'bedrock',
+      context_window: 200000,
+      max_output_tokens: 4096,
+    },
+    'in-house': {
+      model_id: 'acme-judge-v2',
+      display_name: 'In-house Judge',
+      provider: 'acme',
+      context_window: 32000,
+      max_output_tokens: 2048,
+    },
+  };
+
+  beforeEach(() => {
+    // Clear registry before each test
+    judgeRegistry.clear();
+  });
+
+  describe('register', () => {
+    it('should register a judge', () => {
+      const judge = createMockJudge('bedrock', 'Bedrock');
+      judgeRegistry.register(judge);
+
+      expect(judgeRegistry.has('bedrock')).toBe(true);
+      expect(judgeRegistry.get('bedrock')).toBe(judge);
+    });
+
+    it('should overwrite existing judge with warning', () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const judge1 = createMockJudge('bedrock', 'Bedrock 1');
+      const judge2 = createMockJudge('bedrock', 'Bedrock 2');
+
+      judgeRegistry.register(judge1);
+      judgeRegistry.register(judge2);
+
+      expect(judgeRegistry.get('bedrock')).toBe(judge2);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Overwriting existing judge')
+      );
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('getAll / getRegisteredTypes', () => {
+    it('should return all registered judges and types', () => {
+      const bedrock = createMockJudge('bedrock', 'Bedrock');
+      const custom = createMockJudge('acme', 'Acme');
+      judgeRegistry.register(bedrock);
+      judgeRegistry.register(custom);
+
+      expect(judgeRegistry.getAll()).toEqual([bedrock, custom]);
+      expect(judgeRegistry.getRegisteredTypes()).toEqual(['bedrock', 'acme']);
+    });
+  });
+
+  describe('getForModel', () => {
+    it('should resolve judge and model_id by model key', () => {
+      const bedrock = createMockJudge('bedrock', 'Bedrock');
+      judgeRegistry.register(bedrock);
+
+      const resolved = judgeRegistry.getForModel('claude-sonnet-4', models);
+
+      expect(resolved.judge).toBe(bedrock);
+      expect(resolved.modelId).toBe('us.anthropic.claude-sonnet-4-20250514-v1:0');
+      expect(resolved.modelConfig).toBe(models['claude-sonnet-4']);
+    });
+
+    it('should resolve by full model_id', () => {
+      const custom = createMockJudge('acme', 'Acme');
+      judgeRegistry.register(custom);
+
+      const resolved = judgeRegistry.getForModel('acme-judge-v2', models);
+
+      expect(resolved.judge).toBe(custom);
+      expect(resolved.modelConfig).toBe(models['in-house']);
+    });
+
+    it('should default to bedrock for unknown models and keep the raw ID', () => {
+      const bedrock = createMockJudge('bedrock', 'Bedrock');
+      judgeRegistry.register(bedrock);
+
+      const resolved = judgeRegistry.getForModel('some-unlisted-model', models);
+
+      expect(resolved.judge).toBe(bedrock);
+      expect(resolved.modelId).toBe('some-unlisted-model');
+      expect(resolved.modelConfig).toBeUndefined();
+    });
+
+    it('should default to bedrock when no model is given', () => {
+      const bedrock = createMockJudge('bedrock', 'Bedrock');
+      judgeRegistry.register(bedrock);
+
+      const resolved = judgeRegistry.getForModel(undefined, models);
+
+      expect(resolved.judge).toBe(bedrock);
+      expect(resolved.modelId).toBeUndefined();
+    });
+
+    it('should throw when no judge is registered for the provider', () => {
+      judgeRegistry.register(createMockJudge('bedrock', 'Bedrock'));
+
+      expect(() => judgeRegistry.getForModel('in-house', models)).toThrow(
+        "No judge registered for provider 'acme'. Registered judges: bedrock"
+      );
+    });
+  });
+
+  describe('helper functions', () => {
+    it('registerJudge should register with the singleton', () => {
+      const judge = createMockJudge('ollama', 'Ollama');
+      registerJudge(judge);
+
+      expect(judgeRegistry.get('ollama')).toBe(judge);
+    });
+
+    it('getJudgeForModel should delegate to the singleton', () => {
+      const custom = createMockJudge('acme', 'Acme');
+      registerJudge(custom);
+
+      expect(getJudgeForModel('in-house', models).judge).toBe(custom);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// @ts-nocheck - Test file uses simplified mock objects
+import {
+  getRejudgeSkipReason,
+  rejudgeBenchmarkRun,
+  rejudgeStoredRun,
+  validateRejudgeOptions,
+} from '@/services/rejudge';
+
+const mockGetRunByIdWithClient = jest.fn();
+const mockGetTestCaseVersionWithClient = jest.fn();
+const mockReplaceRunWithClient = jest.fn();
+
+jest.mock('@/server/services/storage', () => ({
+  getRunByIdWithClient: (...args: any[]) => mockGetRunByIdWithClient(...args),
+  getTestCaseVersionWithClient: (...args: any[]) => mockGetTestCaseVersionWithClient(...args),
+  replaceRunWithClient: (...args: any[]) => mockReplaceRunWithClient(...args),
+}));
+
+jest.mock('@/cli/demo/sampleTestCases', () => ({
+  getSampleTestCase: jest.fn().mockReturnValue(undefined),
+}));
+
+const mockRejudgeReport = jest.fn();
+
+jest.mock('@/services/evaluation', () => ({
+  rejudgeReport: (...args: any[]) => mockRejudgeReport(...args),
+}));
+
+const mockFetchTracesByRunIds = jest.fn();
+
+jest.mock('@/services/traces', () => ({
+  fetchTracesByRunIds: (...args: any[]) => mockFetchTracesByRunIds(...args),
+}));
+
+const client = {} as any;
+
+const trajectory = [{ id: '1', type: 'response', content: 'Done', timestamp: 1 }];
+const testCase = { id: 'tc-1', name: 'Test', expectedOutcomes: ['Answers'] };
+
+const storedRun = {
+  id: 'report-1',
+  testCaseId: 'tc-1',
+  testCaseVersionId: 'tc-1-v3',
+  modelId: 'judge-a',
+  status: 'completed',
+  passFailStatus: 'failed',
+  metrics: { accuracy: 40 },
+  llmJudgeReasoning: 'Missed the point',
+  judgeResponses: [{ passFailStatus: 'failed' }, { passFailStatus: 'passed' }],
+  judgeAgreement: 0.5,
+  trajectory,
+};
+
+const judgment = {
+  passFailStatus: 'passed',
+  metrics: { accuracy: 90 },
+  llmJudgeReasoning: 'Good answer',
+  improvementStrategies: [],
+  llmJudgeResponse: { modelId: 'judge-b' },
+  judgeModelId: 'judge-b',
+};
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockGetTestCaseVersionWithClient.mockResolvedValue(testCase);
+  mockRejudgeReport.mockResolvedValue(judgment);
+  mockReplaceRunWithClient.mockImplementation(async (_client, _id, doc) => doc);
+});
+
+describe('validateRejudgeOptions', () => {
+  it('should accept empty options', () => {
+    expect(validateRejudgeOptions({})).toBeNull();
+    expect(validateRejudgeOptions(undefined)).toBeNull();
+  });
+
+  it('should reject an empty model or an invalid ensemble', () => {
+    expect(validateRejudgeOptions({ modelId: '' })).toContain('modelId');
+    expect(validateRejudgeOptions({ judgeEnsemble: { models: [] } })).not.toBeNull();
+  });
+});
+
+describe('getRejudgeSkipReason', () => {
+  it('should skip runs that have nothing to judge yet', () => {
+    expect(getRejudgeSkipReason({ status: 'running' })).toContain('executing');
+    expect(getRejudgeSkipReason({ status: 'failed' })).toContain('nothing to judge');
+    expect(getRejudgeSkipReason({ status: 'completed', metricsStatus: 'pending' })).toContain('traces');
+    expect(getRejudgeSkipReason({ status: 'completed', metricsStatus: 'error' })).toBeUndefined();
+  });
+});
+
+describe('rejudgeStoredRun', () => {
+  it('should re-judge the executed test case version and keep the previous judgment', async () => {
+    const outcome = await rejudgeStoredRun(client, storedRun, { modelId: 'judge-b' });
+
+    expect(mockGetTestCaseVersionWithClient).toHaveBeenCalledWith(client, 'tc-1', 3);
+    expect(mockRejudgeReport).toHaveBeenCalledWith(storedRun, testCase, trajectory, { modelId: 'judge-b' });
+    expect(outcome.status).toBe('rejudged');
+
+    const saved = mockReplaceRunWithClient.mock.calls[0][2];
+    expect(mockReplaceRunWithClient.mock.calls[0][1]).toBe('report-1');
+    expect(saved.passFailStatus).toBe('passed');
+    expect(saved.judgeModelId).toBe('judge-b');
+    expect(saved.llmJudgeResponse).toBeUndefined();
+    // The single judge replaces the ensemble verdicts
+    expect(saved.judgeResponses).toBeUndefined();
+    expect(saved.judgeAgreement).toBeUndefined();
+    expect(saved.judgeHistory).toEqual([
+      expect.objectContaining({
+        judgeModelId: 'judge-a',
+        passFailStatus: 'failed',
+        metrics: { accuracy: 40 },
+        llmJudgeReasoning: 'Missed the point',
+        judgeAgreement: 0.5,
+        replacedAt: expect.any(String),
+      }),
+    ]);
+  });
+
+  it('should append to an existing judge history', async () => {
+    const previous = { passFailStatus: 'passed', metrics: {}, llmJudgeReasoning: 'old', replacedAt: '2024-01-01T00:00:00Z' };
+
+    await rejudgeStoredRun(client, { ...storedRun, judgeHistory: [previous] });
+
+    const saved = mockReplaceRunWithClient.mock.calls[0][2];
+    expect(saved.judgeHistory).toHaveLength(2);
+    expect(saved.judgeHistory[0]).toBe(previous);
+  });
+
+  it('should rebuild the trajectory from traces for trace-mode runs', async () => {
+    mockFetchTracesByRunIds.mockResolvedValue({
+      spans: [{
+        spanId: 'tool',
+        traceId: 't',
+        name: 'tool',
+        startTime: '2024-01-01T00:00:00Z',
+        endTime: '2024-01-01T00:00:01Z',
+        duration: 1000,
+        status: 'OK',
+        attributes: { 'gen_ai.operation.name': 'execute_tool', 'gen_ai.tool.name': 'search' },
+      }],
+    });
+    const traceRun = { ...storedRun, trajectory: [], metricsStatus: 'error', traceId: 'agent-run-1', traceError: 'timeout' };
+
+    await rejudgeStoredRun(client, traceRun);
+
+    expect(mockFetchTracesByRunIds).toHaveBeenCalledWith(['agent-run-1']);
+    expect(mockRejudgeReport.mock.calls[0][2][0]).toEqual(expect.objectContaining({ type: 'action', toolName: 'search' }));
+    expect(mockReplaceRunWithClient.mock.calls[0][2].traceError).toBeUndefined();
+  });
+
+  it('should skip runs without a trajectory or test case', async () => {
+    expect(await rejudgeStoredRun(client, { ...storedRun, trajectory: [] })).toEqual({
+      status: 'skipped',
+      reason: expect.stringContaining('no stored trajectory'),
+    });
+
+    mockGetTestCaseVersionWithClient.mockResolvedValue(null);
+    expect(await rejudgeStoredRun(client, storedRun)).toEqual({
+      status: 'skipped',
+      reason: 'Test case not found: tc-1',
+    });
+    expect(mockReplaceRunWithClient).not.toHaveBeenCalled();
+  });
+});
+
+describe('rejudgeBenchmarkRun', () => {
+  it('should re-judge each test case run and summarize the outcomes', async () => {
+    mockGetRunByIdWithClient.mockImplementation(async (_client, id) => {
+      if (id === 'report-1') return storedRun;
+      if (id === 'report-2') return { ...storedRun, id: 'report-2', status: 'failed' };
+      if (id === 'report-3') throw new Error('Boom');
+      return null;
+    });
+
+    const summary = await rejudgeBenchmarkRun(client, 'bench-1', {
+      id: 'run-1',
+      results: {
+        'tc-1': { reportId: 'report-1', status: 'completed' },
+        'tc-2': { reportId: 'report-2', status: 'completed' },
+        'tc-3': { reportId: 'report-3', status: 'completed' },
+        'tc-4': { reportId: '', status: 'cancelled' },
+      },
+    });
+
+    expect(summary).toEqual(expect.objectContaining({ benchmarkId: 'bench-1', runId: 'run-1', rejudged: 1, skipped: 2, failed: 1 }));
+    expect(summary.results[0]).toEqual({
+      testCaseId: 'tc-1',
+      reportId: 'report-1',
+      status: 'rejudged',
+      passFailStatus: 'passed',
+      previousPassFailStatus: 'failed',
+    });
+    expect(summary.results[2]).toEqual(expect.objectContaining({ status: 'failed', message: 'Boom' }));
+  });
+
+  it('should re-judge the report of every iteration', async () => {
+    mockGetRunByIdWithClient.mockImplementation(async (_client, id) => ({ ...storedRun, id }));
+
+    const summary = await rejudgeBenchmarkRun(client, 'bench-1', {
+      id: 'run-1',
+      iterations: 3,
+      results: {
+        'tc-1': {
+          reportId: 'report-1a',
+          status: 'completed',
+          iterationResults: [
+            { reportId: 'report-1a', status: 'completed' },
+            { reportId: 'report-1b', status: 'completed' },
+            { reportId: '', status: 'cancelled' },
+          ],
+        },
+      },
+    });
+
+    expect(mockGetRunByIdWithClient.mock.calls.map(([, id]) => id)).toEqual(['report-1a', 'report-1b']);
+    expect(mockReplaceRunWithClient).toHaveBeenCalledTimes(2);
+    expect(summary).toEqual(expect.objectContaining({ rejudged: 2, skipped: 1, failed: 0 }));
+    expect(summary.results.map(r => [r.reportId, r.iteration, r.status])).toEqual([
+      ['report-1a', 1, 'rejudged'],
+      ['report-1b', 2, 'rejudged'],
+      ['', 3, 'skipped'],
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Span, ToolCallStatus } from '@/types';
+import { spansToTrajectory } from '@/services/traces/spanTrajectory';
+
+function createSpan(overrides: Partial<Span> & { spanId: string }): Span {
+  return {
+    traceId: 'trace-1',
+    name: 'span',
+    startTime: '2024-01-01T00:00:00Z',
+    endTime: '2024-01-01T00:00:01Z',
+    duration: 1000,
+    status: 'OK',
+    attributes: {},
+    ...overrides,
+  };
+}
+
+describe('spansToTrajectory', () => {
+  const agentSpan = createSpan({
+    spanId: 'agent',
+    name: 'invoke_agent',
+    endTime: '2024-01-01T00:00:10Z',
+    attributes: { 'gen_ai.agent.output': 'Disk is full' },
+  });
+  const toolSpan = createSpan({
+    spanId: 'tool-1',
+    parentSpanId: 'agent',
+    name: 'execute_tool search',
+    startTime: '2024-01-01T00:00:02Z',
+    endTime: '2024-01-01T00:00:03Z',
+    attributes: {
+      'gen_ai.operation.name': 'execute_tool',
+      'gen_ai.tool.name': 'search',
+      'gen_ai.tool.args': '{"query":"disk"}',
+      'gen_ai.tool.output': '90% used',
+    },
+  });
+
+  it('should turn tool spans into actions with results and the agent output into the response', () => {
+    const steps = spansToTrajectory([{ ...agentSpan, children: [toolSpan] }]);
+
+    expect(steps.map(s => s.type)).toEqual(['action', 'tool_result', 'response']);
+    expect(steps[0]).toEqual(expect.objectContaining({ toolName: 'search', toolArgs: { query: 'disk' } }));
+    expect(steps[1]).toEqual(expect.objectContaining({ content: '90% used', status: ToolCallStatus.SUCCESS }));
+    expect(steps[2].content).toBe('Disk is full');
+  });
+
+  it('should order steps by start time', () => {
+    const laterTool = createSpan({
+      ...toolSpan,
+      spanId: 'tool-2',
+      startTime: '2024-01-01T00:00:05Z',
+      attributes: { 'gen_ai.operation.name': 'execute_tool', 'gen_ai.tool.name': 'fetch' },
+    });
+
+    const steps = spansToTrajectory([laterTool, toolSpan]);
+
+    expect(steps.filter(s => s.type === 'action').map(s => s.toolName)).toEqual(['search', 'fetch']);
+  });
+
+  it('should mark failed tool calls', () => {
+    const failed = createSpan({
+      ...toolSpan,
+      status: 'ERROR',
+      attributes: { 'gen_ai.tool.name': 'search' },
+    });
+
+    const steps = spansToTrajectory([failed]);
+
+    expect(steps[1]).toEqual(expect.objectContaining({ type: 'tool_result', status: ToolCallStatus.FAILURE }));
+  });
+
+  it('should return no steps for spans without tools or output', () => {
+    expect(spansToTrajectory([createSpan({ spanId: 'llm', name: 'bedrock.converse' })])).toEqual([]);
+  });
+});
@@ -4,6 +4,7 @@
  */
 
 import type { Node, Edge } from '@xyflow/react';
+import type { ConnectorAuth } from '@/services/connectors/types';
 
 // Shared type for difficulty levels
 export type Difficulty = 'Easy' | 'Medium' | 'Hard';
@@ -11,18 +12,20 @@ export type Difficulty = 'Easy' | 'Medium' | 'Hard';
 // Date formatting variants
 export type DateFormatVariant = 'date' | 'datetime' | 'detailed';
 
-// Judge provider determines which backend service handles evaluation
-export type JudgeProvider = 'demo' | 'bedrock' | 'ollama' | 'openai';
+// Judge provider type determines which registered judge handles evaluation
+// Custom judges registered via config `judges: [...]` may use their own type
+export type JudgeProviderType = 'demo' | 'bedrock' | 'ollama' | 'openai' | (string & {});
 
 // Connector protocol for agent communication
-export type ConnectorProtocol = 'agui-streaming' | 'rest' | 'subprocess' | 'claude-code' | 'mock';
+export type ConnectorProtocol = 'agui-streaming' | 'rest' | 'subprocess' | 'claude-code' | 'mock' | 'replay' | 'openai-chat' | 'mcp';
 
 export interface ModelConfig {
   model_id: string;
   display_name: string;
-  provider: JudgeProvider;
+  provider: JudgeProviderType;
   context_window: number;
   max_output_tokens: number;
+  base_url?: string; // Provider endpoint override (e.g., OpenAI-compatible server URL)
 }
 
 // ============ Agent Lifecycle Hook Types ============
@@ -48,6 +51,7 @@ export interface AgentConfig {
   useTraces?: boolean; // When true, fetch traces instead of logs for evaluation
   connectorType?: ConnectorProtocol; // Connector protocol (defaults to 'agui-streaming')
   connectorConfig?: Record<string, any>; // Connector-specific configuration
+  auth?: ConnectorAuth; // Connector authentication (e.g. AWS SigV4); headers still apply
   hooks?: AgentHooks; // Lifecycle hooks for custom setup/transform logic
   isCustom?: boolean; // True for user-added custom endpoints (not from config file)
 }
@@ -56,8 +60,9 @@ export interface AppConfig {
   agents: AgentConfig[];
   models: Record<string, ModelConfig>;
   defaults: {
-    retry_attempts: number;
-    retry_delay_ms: number;
+    retry_attempts: number; // Retries of a failed agent call (network errors, 5xx, 429)
+    retry_delay_ms: number; // Delay before the first retry; doubles on each further retry
+    timeout_ms: number; // Wall-clock limit on a test case's agent execution
   };
 }
 
@@ -80,6 +85,7 @@ export interface TrajectoryStep {
 
 export interface EvaluationMetrics {
   accuracy: number; // 0-100
+  pplMatch?: number; // 0-100 - similarity of the agent's PPL to expectedPPL (only when expectedPPL is set)
   // Legacy metrics - kept for backwards compatibility with old reports
   faithfulness?: number; // 0-100 (deprecated)
   latency_score?: number; // 0-100 (deprecated)
@@ -95,9 +101,22 @@ export interface ImprovementStrategy {
 
 export type PassFailStatus = 'passed' | 'failed';
 
+// How an ensemble's individual judgments combine into one verdict
+// - majority: passes when more than half the judges pass; mean accuracy
+// - mean: passes when at least half the judges pass; mean accuracy
+// - min: passes only when every judge passes; lowest accuracy
+export type JudgeAggregation = 'majority' | 'mean' | 'min';
+
+// Score a run with several judges (repeat a model key to sample the same judge N times)
+export interface JudgeEnsembleConfig {
+  models: string[];
+  aggregation?: JudgeAggregation; // Default: 'majority'
+}
+
 // Storage feature - LLM Judge Response tracking
 export interface LLMJudgeResponse {
   modelId: string;
+  passFailStatus?: PassFailStatus; // This judge's verdict (set for ensemble members)
   timestamp: string;
   promptTokens: number;
   completionTokens: number;
@@ -113,6 +132,22 @@ export interface LLMJudgeResponse {
   error?: string;
 }
 
+/**
+ * A judgment replaced by a re-judge, kept so score changes can be traced
+ */
+export interface JudgeHistoryEntry {
+  judgeModelId?: string; // Judge model (or comma-separated ensemble models) that produced this judgment
+  passFailStatus?: PassFailStatus;
+  metrics: EvaluationMetrics;
+  llmJudgeReasoning: string;
+  improvementStrategies?: ImprovementStrategy[];
+  assertionResults?: AssertionResult[];
+  judgeResponses?: LLMJudgeResponse[];
+  judgeAgreement?: number;
+  rubric?: JudgeRubric;
+  replacedAt: string; // When the re-judge replaced this judgment
+}
+
 // Storage feature - User annotations on runs
 export interface RunAnnotation {
   id: string;
@@ -150,12 +185,23 @@ export interface TestCaseRun {
   llmJudgeReasoning: string;
   improvementStrategies?: ImprovementStrategy[];
   llmJudgeResponse?: LLMJudgeResponse; // Storage: Raw Bedrock judge response
+  judgeResponses?: LLMJudgeResponse[]; // Every individual judgment when scored by a judge ensemble
+  judgeAgreement?: number; // 0-1 share of ensemble judges agreeing with the majority verdict
+  assertionResults?: AssertionResult[]; // Deterministic assertion outcomes (evaluated before the judge)
+  turns?: ConversationTurn[]; // Per-turn results for multi-turn runs (test cases with followUpQuestions)
+  rubric?: JudgeRubric; // Snapshot of the rubric the judge applied (test case's or benchmark's)
+  judgeModelId?: string; // Judge model of the latest re-judge (otherwise the run is judged with modelId)
+  judgeHistory?: JudgeHistoryEntry[]; // Previous judgments, oldest first (appended on each re-judge)
   openSearchLogs?: OpenSearchLog[]; // Storage: Persisted logs (alternative to logs)
   annotations?: RunAnnotation[]; // Storage: User notes on this run
   runId?: string; // Agent's run ID from AG UI events (for log correlation)
   logs?: OpenSearchLog[]; // OpenSearch logs for the run (master version)
   rawEvents?: any[]; // Raw AG UI events for debugging
   connectorProtocol?: ConnectorProtocol; // Protocol used to execute this run (for trajectory parsing)
+  executionAttempts?: number; // Agent calls made, including retries (one per turn without retries)
+  timeoutReason?: string; // Why execution was cut off, if it hit the test case timeout
+  budgetExceededReason?: string; // Why execution was cut off, if it exceeded a test case budget (see RunBudget)
+  tokenUsage?: TokenUsage; // Agent tokens across all turns, when the connector reports them
 
   // Trace mode fields (for agents with useTraces: true)
   metricsStatus?: MetricsStatus; // Status of deferred metrics/judge calculation
@@ -191,6 +237,129 @@ export interface AgentToolDefinition {
 // Category = grouping for use cases (e.g., 'Group by Error Type')
 export type Category = 'Baseline' | 'Smart Contextual Menu' | 'RCA' | 'Conversational Queries' | 'Top 10 Browsed Products' | 'Errors by Service' | 'Group by Error Type' | string;
 
+// ============ Deterministic Assertions ============
+
+/**
+ * Fields shared by every assertion.
+ * 'error' severity (default) hard-fails the run regardless of judge accuracy;
+ * 'warning' is reported but never changes pass/fail.
+ */
+interface AssertionBase {
+  id?: string;
+  description?: string;
+  severity?: 'error' | 'warning';
+}
+
+export interface ToolCalledAssertion extends AssertionBase {
+  type: 'tool-called';
+  tool: string;
+  minCalls?: number; // Defaults to 1
+}
+
+export interface ToolNotCalledAssertion extends AssertionBase {
+  type: 'tool-not-called';
+  tool: string;
+}
+
+export interface ToolArgsMatchAssertion extends AssertionBase {
+  type: 'tool-args-match';
+  tool: string;
+  args: Record<string, any>; // Partial match - every key must be present with an equal value
+}
+
+export interface ResponseRegexAssertion extends AssertionBase {
+  type: 'response-regex';
+  pattern: string;
+  flags?: string;
+  negate?: boolean; // Pass when the pattern does NOT match
+}
+
+export interface MaxStepsAssertion extends AssertionBase {
+  type: 'max-steps';
+  max: number;
+  stepType?: TrajectoryStep['type']; // Count only steps of this type (e.g., 'action')
+}
+
+export interface MaxLatencyAssertion extends AssertionBase {
+  type: 'max-latency';
+  maxMs: number;
+}
+
+export interface JsonSchemaAssertion extends AssertionBase {
+  type: 'json-schema';
+  tool: string;
+  schema: Record<string, any>; // JSON Schema applied to every output of the tool
+}
+
+export type TestCaseAssertion =
+  | ToolCalledAssertion
+  | ToolNotCalledAssertion
+  | ToolArgsMatchAssertion
+  | ResponseRegexAssertion
+  | MaxStepsAssertion
+  | MaxLatencyAssertion
+  | JsonSchemaAssertion;
+
+export type AssertionType = TestCaseAssertion['type'];
+
+export interface AssertionResult {
+  assertion: TestCaseAssertion;
+  passed: boolean;
+  message: string;
+}
+
+// ============ Multi-turn Conversations ============
+
+/**
+ * Outcome of a conversation turn, matched against follow-up triggers
+ * - results_available: the agent replied without failed tool calls
+ * - error: a tool call failed or the agent produced no reply
+ */
+export type TurnOutcome = 'results_available' | 'error';
+
+export type FollowUpTrigger = TurnOutcome | 'always';
+
+export interface FollowUpQuestion {
+  trigger: FollowUpTrigger;
+  question: string;
+  businessValue: string;
+}
+
+export interface ConversationTurn {
+  turn: number;                      // 1-based; turn 1 is the initial prompt
+  prompt: string;                    // User message sent in this turn
+  trigger?: FollowUpTrigger;         // Trigger of the follow-up that started this turn (undefined for turn 1)
+  outcome: TurnOutcome;
+  trajectory: TrajectoryStep[];
+  durationMs?: number;
+  passFailStatus?: PassFailStatus;   // Unset until the turn is judged (e.g., trace mode)
+  metrics?: EvaluationMetrics;
+  llmJudgeReasoning?: string;
+  assertionResults?: AssertionResult[];
+}
+
+// ============ Judge Rubrics ============
+
+export interface RubricCriterion {
+  name: string;
+  description: string;
+  weight?: number;                   // Relative weight (default 1)
+}
+
+/**
+ * Custom grading rubric for the LLM judge
+ * Replaces the built-in RCA guidelines. Set on a test case version or a benchmark;
+ * the test case's rubric wins, and the rubric used is recorded on each run.
+ */
+export interface JudgeRubric {
+  name?: string;
+  version?: number;                  // Bump when the rubric changes so runs can be traced to it
+  description?: string;
+  criteria: RubricCriterion[];
+  passThreshold?: number;            // Minimum weighted accuracy (0-100) to pass (default 70)
+  criticalFailures?: string[];       // Any of these fails the run regardless of accuracy
+}
+
 // Version snapshot - immutable record of test case content at a point in time
 export interface TestCaseVersion {
   version: number;
@@ -207,11 +376,9 @@ export interface TestCaseVersion {
     description: string;
     requiredTools: string[];
   }[];
-  followUpQuestions?: {
-    trigger: 'results_available' | 'error' | 'always';
-    question: string;
-    businessValue: string;
-  }[];
+  assertions?: TestCaseAssertion[];  // Deterministic checks evaluated against the trajectory
+  followUpQuestions?: FollowUpQuestion[];
+  rubric?: JudgeRubric;
 }
 
 // TestCase is referred to as "Use Case" in the UI
@@ -252,11 +419,9 @@ export interface TestCase {
     description: string;
     requiredTools: string[];
   }[];
-  followUpQuestions?: { // Suggested follow-ups after results
-    trigger: 'results_available' | 'error' | 'always';
-    question: string;
-    businessValue: string;
-  }[];
+  assertions?: TestCaseAssertion[]; // Deterministic checks evaluated against the trajectory
+  followUpQuestions?: FollowUpQuestion[]; // Follow-up turns sent on the same thread after the initial prompt
+  rubric?: JudgeRubric; // Judge rubric (overrides the benchmark's rubric)
 }
 
 export interface OpenSearchLog {
@@ -275,6 +440,15 @@ export interface LogQueryParams {
   query?: string;
 }
 
+// ============ Token Usage ============
+
+// LLM tokens an agent reported using (summed across calls)
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  modelId?: string;                // Model that used them, for pricing (see getPricing)
+}
+
 // ============ Trace Metrics ============
 
 export interface TraceMetrics {
@@ -529,16 +703,48 @@ export interface RunStats {
 }
 
 // Result status for a single use case within a run
-export type RunResultStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type RunResultStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled' | 'budget_exceeded';
+
+// One execution of a test case in a run with several iterations
+export interface RunResultIteration {
+  reportId: string;                // References EvaluationReport.id ('' if no report was saved)
+  status: RunResultStatus;
+}
+
+// Earlier attempt of a test case in a run, kept when the test case is retried
+export interface RunResultAttempt {
+  reportId: string;                // References EvaluationReport.id ('' if no report was saved)
+  status: RunResultStatus;
+  retriedAt: string;               // When a retry replaced this attempt
+}
+
+// Optional guardrails on a benchmark run. Run limits cancel the run once
+// exceeded; test case limits abort just that test case ('budget_exceeded').
+export interface RunBudget {
+  maxTotalTokens?: number;         // Agent and judge tokens across the run
+  maxCostUsd?: number;             // Agent and judge spend across the run, priced per model
+  maxDurationMs?: number;          // Wall-clock time of the run
+  maxStepsPerTestCase?: number;    // Trajectory steps in one test case
+  maxToolCallsPerTestCase?: number; // Tool calls in one test case
+}
+
+// Agent and judge usage accumulated by a run, checked against its RunBudget
+export interface RunUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
 
 // Overall status for a benchmark run (tracks server-side execution state)
-export type BenchmarkRunStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type BenchmarkRunStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
 
 // Version snapshot - immutable record of benchmark test case list at a point in time
 export interface BenchmarkVersion {
   version: number;
   createdAt: string;
   testCaseIds: string[];
+  rubric?: JudgeRubric;
 }
 
 // Test case snapshot captured at run execution time (for reproducibility)
@@ -559,12 +765,23 @@ export interface BenchmarkRun {
   // Execution status (tracks server-side execution progress)
   status?: BenchmarkRunStatus;     // Overall run status (undefined = legacy data, treat as completed)
   error?: string;                  // Error message if status is 'failed'
+  jobId?: string;                  // Server job executing this run (see BenchmarkJob)
+  matrixId?: string;               // Matrix run this run is a cell of (see MatrixRunConfig)
+  scheduleId?: string;             // Schedule that started this run (see BenchmarkSchedule)
 
   // Configuration snapshot
   agentKey: string;                // Reference to AgentConfig.key
   agentEndpoint?: string;          // Override agent endpoint (optional)
   modelId: string;                 // Model to use (also determines judge provider)
   headers?: Record<string, string>; // Custom headers
+  judgeEnsemble?: JudgeEnsembleConfig; // Score with several judges instead of the run model's judge
+  concurrency?: number;            // Test cases executed at once (default 1)
+  iterations?: number;             // Times each test case is executed (default 1)
+  budget?: RunBudget;              // Token, cost, time, step, and tool call limits
+
+  // Budget tracking
+  usage?: RunUsage;                // Agent usage so far (from connectors that report tokens)
+  budgetExceededReason?: string;   // Why the run was cancelled, if it exceeded its budget
 
   // Version tracking (for reproducibility)
   benchmarkVersion?: number;       // Which benchmark version was executed (undefined = legacy data)
@@ -574,6 +791,8 @@ export interface BenchmarkRun {
   results: Record<string, {        // testCaseId → result
     reportId: string;              // References EvaluationReport.id
     status: RunResultStatus;
+    attempts?: RunResultAttempt[]; // Superseded attempts, oldest first (retry-failed)
+    iterationResults?: RunResultIteration[]; // Every iteration in order when iterations > 1 (reportId is the first with a report)
   }>;
 
   // Denormalized stats (computed from reports, stored for fast list display)
@@ -589,13 +808,45 @@ export interface Benchmark {
   createdAt: string;
   updatedAt: string;
 
-  // Versioning (test case list changes create new versions; metadata edits don't)
+  // Versioning (test case list and rubric changes create new versions; metadata edits don't)
   currentVersion: number;          // Latest version number (1-indexed)
   versions: BenchmarkVersion[];    // All versions (immutable history)
 
   // Current version content (convenience accessor - mirrors latest version)
   testCaseIds: string[];           // Selected test case IDs (TestCase.id)
+  rubric?: JudgeRubric;            // Default judge rubric for test cases without their own
   runs: BenchmarkRun[];            // Point-in-time snapshots (can add more anytime)
+  schedules?: BenchmarkSchedule[]; // Recurring runs started by the server scheduler
+}
+
+// Firings a schedule missed (e.g. while the server was down), reported instead of run
+export interface ScheduleMissedFirings {
+  count: number;                   // Missed fire times so far (capped per check, see docs)
+  first: string;                   // Earliest missed fire time
+  last: string;                    // Latest missed fire time
+  detectedAt: string;              // When the scheduler last noticed one
+}
+
+// Recurring run of a benchmark, fired by the server on a cron expression
+export interface BenchmarkSchedule {
+  id: string;
+  cron: string;                    // 5-field cron expression in the server's local time
+  runConfig: RunConfigInput;       // Each firing starts a run with this configuration
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  nextFireAt?: string;             // Next fire time (unset while disabled)
+  lastFiredAt?: string;            // Fire time of the latest firing
+  lastRunId?: string;              // Run started by the latest firing
+  lastError?: string;              // Why the latest firing could not start a run
+  missedFirings?: ScheduleMissedFirings; // All firings missed so far
+}
+
+// Create or update body of a benchmark schedule
+export interface BenchmarkScheduleInput {
+  cron: string;
+  runConfig: RunConfigInput;
+  enabled?: boolean;               // Default true
 }
 
 // Progress callback for benchmark runner
@@ -610,9 +861,107 @@ export interface BenchmarkProgress {
 // SSE event payload when benchmark run starts
 export interface BenchmarkStartedEvent {
   runId: string;
+  jobId?: string;                  // Job executing the run (for GET /api/jobs/:id/events)
   testCases: Array<{ id: string; name: string; status: 'pending' }>;
 }
 
+// ============ Benchmark Job Types ============
+
+// Status of a server-side benchmark job
+export type BenchmarkJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+// A benchmark run executing in the server job queue (persisted across restarts)
+export interface BenchmarkJob {
+  id: string;
+  benchmarkId: string;
+  benchmarkName: string;
+  runId: string;
+  runName: string;
+  status: BenchmarkJobStatus;
+  pauseRequested?: boolean;        // Pause once the test cases in flight finish
+  matrixId?: string;               // Matrix run the job's run is a cell of
+  matrixConcurrency?: number;      // Test cases the matrix's jobs may execute at once in total
+  concurrency?: number;            // The run's concurrency, counted against matrixConcurrency
+  progress?: BenchmarkProgress;    // Latest progress event
+  error?: string;                  // Error message if status is 'failed'
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+// Endpoint and header variant of the agents in a matrix run
+export interface MatrixRunVariant {
+  name: string;                    // Appended to the cell run names
+  agentEndpoint?: string;
+  headers?: Record<string, string>;
+}
+
+// Agents × models × variants, fanned out into one run per cell
+export interface MatrixRunConfig {
+  name: string;                    // Prefix of the cell run names
+  description?: string;
+  agentKeys: string[];
+  modelIds: string[];
+  variants?: MatrixRunVariant[];   // Omitted: one variant with the agents' own endpoint and headers
+  concurrency?: number;            // Test cases executed at once across all cells (default 1)
+  iterations?: number;
+  judgeEnsemble?: JudgeEnsembleConfig;
+  budget?: RunBudget;              // Applied to each cell run on its own
+}
+
+// Response of POST /api/storage/benchmarks/:id/matrix
+export interface MatrixRunResponse {
+  matrixId: string;
+  runs: Array<{ runId: string; jobId: string; name: string; agentKey: string; modelId: string }>;
+}
+
+// SSE event streamed to clients attached to a job
+export type BenchmarkJobEvent =
+  | { type: 'job'; job: BenchmarkJob }
+  | ({ type: 'progress' } & BenchmarkProgress)
+  | { type: 'completed' | 'cancelled'; run: BenchmarkRun }
+  | { type: 'error'; error: string; runId: string };
+
+// One iteration of a test case, executed by a remote worker (`agent-health worker`)
+// A task's agent, without its credentials and hooks: the lease endpoint is open,
+// so the worker takes auth, headers, and hooks from its own config
+export type WorkerTaskAgent = Omit<AgentConfig, 'auth' | 'headers' | 'hooks'>;
+export type WorkerTaskLocalField = 'auth' | 'headers' | 'hooks';
+
+export interface WorkerTask {
+  id: string;
+  benchmarkId: string;
+  runId: string;
+  testCaseId: string;
+  iteration: number;
+  attempt: number;                 // Leases so far, including the current one
+  agent: WorkerTaskAgent;          // Resolved by the server; credentials and hooks come from the worker's own config
+  runHeaders?: Record<string, string>; // The run's header overrides (incl. matrix variants), applied over the worker agent's headers
+  localAgentFields?: WorkerTaskLocalField[]; // Agent config kept out of the lease, which the worker must have for the agent's key
+  modelId: string;                 // Model ID passed to the agent and judge
+  testCase: TestCase;              // With the benchmark rubric applied
+  judgeEnsemble?: JudgeEnsembleConfig;
+  execution?: { timeout?: number; retries?: number; retryDelay?: number };
+  budget?: RunBudget;
+}
+
+// Response of POST /api/workers/:workerId/lease when a task is available
+export interface WorkerLease {
+  task: WorkerTask;
+  leaseMs: number;                 // Heartbeat before this elapses or the task is reassigned
+}
+
+// A worker as seen by the server (GET /api/workers)
+export interface WorkerInfo {
+  id: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  activeTaskIds: string[];
+  completedTasks: number;
+  failedTasks: number;
+}
+
 // Backwards compatibility aliases
 /** @deprecated Use BenchmarkRunStatus instead */
 export type ExperimentRunStatus = BenchmarkRunStatus;
@@ -646,6 +995,13 @@ export interface RunAggregateMetrics {
   failedCount: number;
   avgAccuracy: number;
   passRatePercent: number;
+  avgPplMatch?: number; // Average over test cases with expectedPPL (undefined when none)
+  // Iteration metrics (runs with iterations > 1, averaged over test cases)
+  iterations?: number;
+  passAtK?: number;      // Mean pass@k (%), k = iterations
+  passHatK?: number;     // Mean pass^k (%): every one of k iterations passes
+  avgAccuracyStddev?: number; // Mean per-test-case accuracy standard deviation
+  flakyTestCases?: number;    // Test cases with both passing and failing iterations
   // Trace metrics (optional - populated from metrics API)
   totalTokens?: number;
   totalInputTokens?: number;
@@ -656,12 +1012,26 @@ export interface RunAggregateMetrics {
   totalToolCalls?: number;
 }
 
+// Pass@k statistics over a test case's iterations in one run
+export interface TestCaseIterationStats {
+  iterations: number;      // Iterations with an outcome (judged or failed to execute)
+  passed: number;
+  k: number;
+  passRate: number;        // Share of passing iterations (%), i.e. pass@1
+  passAtK: number;         // Chance at least one of k iterations passes (%)
+  passHatK: number;        // Chance all k iterations pass (%)
+  meanAccuracy?: number;   // Over iterations with a judged report
+  stddevAccuracy?: number;
+  flakiness: number;       // 0 when every iteration agrees, 100 when half pass (%)
+}
+
 // Result for a single test case within a run
 export interface TestCaseRunResult {
   reportId?: string;
   status: 'completed' | 'failed' | 'missing';
   passFailStatus?: PassFailStatus;
   accuracy?: number;
+  pplMatch?: number;
   faithfulness?: number;
   trajectoryAlignment?: number;
   latencyScore?: number;
@@ -682,11 +1052,51 @@ export interface TestCaseComparisonRow {
   versions: string[]; // unique versions across runs
 }
 
+// Pairwise judge verdict between two trajectories ('A' is the baseline, 'B' the candidate)
+export type PairwiseWinner = 'A' | 'B' | 'tie';
+
+// One pairwise judge call; the winner is mapped back to A/B whichever order was shown
+export interface PairwiseVerdict {
+  order: 'AB' | 'BA'; // Order the trajectories were shown to the judge
+  winner: PairwiseWinner;
+  reasoning: string;
+}
+
+// Pairwise judgment from judging both orders (position swapping cancels order bias)
+export interface PairwiseJudgment {
+  winner: PairwiseWinner; // 'tie' unless both orders agree
+  consistent: boolean; // Both orders picked the same winner
+  reasoning: string;
+  verdicts: PairwiseVerdict[];
+  provider?: JudgeProviderType;
+}
+
+// Head-to-head outcome for the candidate run
+export type PairwiseOutcome = 'win' | 'tie' | 'loss';
+
+// Per-test-case pairwise comparison row
+export interface PairwiseComparisonRow {
+  testCaseId: string;
+  testCaseName: string;
+  outcome?: PairwiseOutcome;
+  judgment?: PairwiseJudgment;
+  error?: string; // Why the test case wasn't judged
+}
+
+// Win/tie/loss totals of a pairwise comparison
+export interface PairwiseSummary {
+  wins: number;
+  ties: number;
+  losses: number;
+  total: number; // Test cases judged
+  winRate: number; // (wins + ties / 2) / total, 0-1
+}
+
 // ============ Derived Types ============
 
 // Derived type for creating new benchmark runs - stays in sync with BenchmarkRun
 export type RunConfigInput = Pick<BenchmarkRun,
-  'name' | 'description' | 'agentKey' | 'modelId' | 'agentEndpoint' | 'headers'
+  'name' | 'description' | 'agentKey' | 'modelId' | 'agentEndpoint' | 'headers' | 'judgeEnsemble' | 'concurrency' | 'iterations' | 'budget'
 >;
 
 // ============ Server/API Types ============